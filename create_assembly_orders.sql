@@ -0,0 +1,546 @@
+-- Assembly orders (light manufacturing)
+-- A bill of materials names a finished product or variation, how many units one batch
+-- makes, and the products and packaging one batch consumes. An assembly order runs a
+-- number of batches in one warehouse in ONE transaction:
+--   every input leaves the warehouse as an 'assembly' movement and issues its cost layers,
+--   the output comes in as an 'assembly' movement with a cost layer at the rolled-up cost
+--     (cost of the inputs / units made),
+--   the output's warehouse buying_price becomes the weighted average of the stock it
+--     already had and the units made.
+-- Inputs and outputs stay in inventory, so no journal entry is needed.
+-- Bundles and lot- or serial-tracked products cannot be inputs or outputs.
+-- Failures roll back every step and are reported as a typed error code:
+--   BOM_NOT_FOUND, INVALID_BOM, INVALID_ASSEMBLY, INSUFFICIENT_STOCK,
+--   INSUFFICIENT_PACKAGING_STOCK, STOCK_UPDATE_FAILED
+-- Requires create_inventory_valuation.sql, create_transfer_orders.sql, create_product_bundles.sql
+
+-- 1. Assembly movements and cost layers
+ALTER TABLE inventory_cost_movements DROP CONSTRAINT IF EXISTS inventory_cost_movements_movement_type_check;
+ALTER TABLE inventory_cost_movements ADD CONSTRAINT inventory_cost_movements_movement_type_check
+CHECK (movement_type IN ('opening', 'purchase', 'sale', 'return', 'adjustment', 'transfer', 'assembly'));
+
+ALTER TABLE inventory_cost_layers DROP CONSTRAINT IF EXISTS inventory_cost_layers_source_type_check;
+ALTER TABLE inventory_cost_layers ADD CONSTRAINT inventory_cost_layers_source_type_check
+CHECK (source_type IN ('opening', 'receipt', 'return', 'adjustment', 'transfer', 'assembly'));
+
+-- 2. Bills of materials
+CREATE TABLE IF NOT EXISTS bills_of_materials (
+  id TEXT PRIMARY KEY DEFAULT 'BOM' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  name TEXT NOT NULL,
+  output_product_id TEXT NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  output_variation_id TEXT REFERENCES product_variations(id) ON DELETE RESTRICT,
+  output_name TEXT NOT NULL, -- Denormalized for performance
+  output_quantity INTEGER NOT NULL CHECK (output_quantity > 0), -- Units one batch makes
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  notes TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Inputs consumed by one batch
+CREATE TABLE IF NOT EXISTS bill_of_material_items (
+  id TEXT PRIMARY KEY DEFAULT 'BOMI' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  bom_id TEXT NOT NULL REFERENCES bills_of_materials(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('product', 'package')),
+  item_id TEXT NOT NULL, -- Can be product_id or packaging_id
+  variation_id TEXT,
+  item_name TEXT NOT NULL,
+  sku TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bill_of_material_items_item
+ON bill_of_material_items(bom_id, item_type, item_id, COALESCE(variation_id, ''));
+
+-- 3. Assembly orders and the inputs they consumed
+CREATE TABLE IF NOT EXISTS assembly_orders (
+  id TEXT PRIMARY KEY DEFAULT 'ASM' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  assembly_number TEXT NOT NULL UNIQUE,
+  bom_id TEXT NOT NULL REFERENCES bills_of_materials(id) ON DELETE RESTRICT,
+  bom_name TEXT NOT NULL,
+  warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  warehouse_name TEXT NOT NULL, -- Denormalized for performance
+  output_product_id TEXT NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  output_variation_id TEXT,
+  output_name TEXT NOT NULL,
+  batches INTEGER NOT NULL CHECK (batches > 0),
+  output_quantity INTEGER NOT NULL CHECK (output_quantity > 0),
+  total_cost DECIMAL(12,2) NOT NULL DEFAULT 0,
+  unit_cost DECIMAL(12,4) NOT NULL DEFAULT 0,
+  assembly_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS assembly_order_items (
+  id TEXT PRIMARY KEY DEFAULT 'ASMI' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  assembly_order_id TEXT NOT NULL REFERENCES assembly_orders(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('product', 'package')),
+  item_id TEXT NOT NULL,
+  variation_id TEXT,
+  item_name TEXT NOT NULL,
+  sku TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(12,4) NOT NULL DEFAULT 0,
+  total_cost DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_of_material_items_bom_id ON bill_of_material_items(bom_id);
+CREATE INDEX IF NOT EXISTS idx_assembly_orders_warehouse_id ON assembly_orders(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_assembly_orders_assembly_date ON assembly_orders(assembly_date);
+CREATE INDEX IF NOT EXISTS idx_assembly_order_items_assembly_order_id ON assembly_order_items(assembly_order_id);
+
+-- 4. Create or replace a bill of materials
+-- p_bom: { id?, name, output_product_id, output_variation_id, output_quantity, status, notes,
+--          items: [{ item_type, item_id, variation_id, quantity }] }
+-- Passing the id of an existing bill replaces its header and inputs.
+CREATE OR REPLACE FUNCTION save_bill_of_materials(
+    p_bom JSONB,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_bom_id TEXT := p_bom->>'id';
+    v_output products%ROWTYPE;
+    v_output_name TEXT;
+    v_product products%ROWTYPE;
+    v_item JSONB;
+    v_item_name TEXT;
+    v_sku TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        IF COALESCE(trim(p_bom->>'name'), '') = '' THEN
+            RAISE EXCEPTION 'A bill of materials needs a name' USING DETAIL = 'INVALID_BOM';
+        END IF;
+
+        IF COALESCE((p_bom->>'output_quantity')::INTEGER, 0) <= 0 THEN
+            RAISE EXCEPTION 'The output quantity must be greater than zero' USING DETAIL = 'INVALID_BOM';
+        END IF;
+
+        IF jsonb_array_length(COALESCE(p_bom->'items', '[]'::jsonb)) = 0 THEN
+            RAISE EXCEPTION 'A bill of materials needs at least one input' USING DETAIL = 'INVALID_BOM';
+        END IF;
+
+        SELECT * INTO v_output FROM products WHERE id = p_bom->>'output_product_id';
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Output product % not found', p_bom->>'output_product_id' USING DETAIL = 'INVALID_BOM';
+        END IF;
+
+        IF v_output.type = 'bundle' OR v_output.track_lots OR v_output.track_serials THEN
+            RAISE EXCEPTION '% cannot be assembled: bundles and lot- or serial-tracked products are not supported', v_output.name
+                USING DETAIL = 'INVALID_BOM';
+        END IF;
+
+        IF v_output.type = 'variation' THEN
+            SELECT v_output.name || ' (' || sku || ')' INTO v_output_name
+            FROM product_variations
+            WHERE id = p_bom->>'output_variation_id'
+              AND product_id = v_output.id;
+
+            IF v_output_name IS NULL THEN
+                RAISE EXCEPTION 'Choose the variation of % to make', v_output.name USING DETAIL = 'INVALID_BOM';
+            END IF;
+        ELSE
+            v_output_name := v_output.name;
+        END IF;
+
+        IF v_bom_id IS NOT NULL THEN
+            UPDATE bills_of_materials
+            SET name = trim(p_bom->>'name'),
+                output_product_id = v_output.id,
+                output_variation_id = CASE WHEN v_output.type = 'variation' THEN p_bom->>'output_variation_id' END,
+                output_name = v_output_name,
+                output_quantity = (p_bom->>'output_quantity')::INTEGER,
+                status = COALESCE(p_bom->>'status', status),
+                notes = p_bom->>'notes',
+                updated_at = NOW()
+            WHERE id = v_bom_id;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Bill of materials % not found', v_bom_id USING DETAIL = 'BOM_NOT_FOUND';
+            END IF;
+
+            DELETE FROM bill_of_material_items WHERE bom_id = v_bom_id;
+        ELSE
+            INSERT INTO bills_of_materials (
+                name,
+                output_product_id,
+                output_variation_id,
+                output_name,
+                output_quantity,
+                status,
+                notes,
+                created_by
+            ) VALUES (
+                trim(p_bom->>'name'),
+                v_output.id,
+                CASE WHEN v_output.type = 'variation' THEN p_bom->>'output_variation_id' END,
+                v_output_name,
+                (p_bom->>'output_quantity')::INTEGER,
+                COALESCE(p_bom->>'status', 'active'),
+                p_bom->>'notes',
+                p_created_by
+            ) RETURNING id INTO v_bom_id;
+        END IF;
+
+        FOR v_item IN SELECT * FROM jsonb_array_elements(p_bom->'items')
+        LOOP
+            IF COALESCE((v_item->>'quantity')::INTEGER, 0) <= 0 THEN
+                RAISE EXCEPTION 'Input quantities must be greater than zero' USING DETAIL = 'INVALID_BOM';
+            END IF;
+
+            v_item_name := NULL;
+
+            IF v_item->>'item_type' = 'product' THEN
+                SELECT * INTO v_product FROM products WHERE id = v_item->>'item_id';
+
+                IF FOUND AND (v_product.type = 'bundle' OR v_product.track_lots OR v_product.track_serials) THEN
+                    RAISE EXCEPTION '% cannot be an input: bundles and lot- or serial-tracked products are not supported', v_product.name
+                        USING DETAIL = 'INVALID_BOM';
+                END IF;
+
+                IF v_item->>'item_id' = v_output.id
+                   AND (v_item->>'variation_id') IS NOT DISTINCT FROM (CASE WHEN v_output.type = 'variation' THEN p_bom->>'output_variation_id' END) THEN
+                    RAISE EXCEPTION 'The output cannot also be an input' USING DETAIL = 'INVALID_BOM';
+                END IF;
+
+                SELECT p.name || COALESCE(' (' || pv.sku || ')', ''), COALESCE(pv.sku, p.sku) INTO v_item_name, v_sku
+                FROM products p
+                LEFT JOIN product_variations pv ON pv.id = v_item->>'variation_id'
+                WHERE p.id = v_item->>'item_id';
+            ELSIF v_item->>'item_type' = 'package' THEN
+                SELECT pk.title || COALESCE(' (' || pkv.sku || ')', ''), COALESCE(pkv.sku, pk.sku) INTO v_item_name, v_sku
+                FROM packaging pk
+                LEFT JOIN packaging_variations pkv ON pkv.id = v_item->>'variation_id'
+                WHERE pk.id = v_item->>'item_id';
+            END IF;
+
+            IF v_item_name IS NULL THEN
+                RAISE EXCEPTION 'Input % not found', v_item->>'item_id' USING DETAIL = 'INVALID_BOM';
+            END IF;
+
+            INSERT INTO bill_of_material_items (
+                bom_id,
+                item_type,
+                item_id,
+                variation_id,
+                item_name,
+                sku,
+                quantity
+            ) VALUES (
+                v_bom_id,
+                v_item->>'item_type',
+                v_item->>'item_id',
+                v_item->>'variation_id',
+                v_item_name,
+                v_sku,
+                (v_item->>'quantity')::INTEGER
+            );
+        END LOOP;
+    EXCEPTION
+        WHEN unique_violation THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', 'INVALID_BOM',
+                'error_message', 'The same input is listed twice'
+            );
+        WHEN OTHERS THEN
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN ('BOM_NOT_FOUND', 'INVALID_BOM') THEN
+                v_error_code := 'INVALID_BOM';
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'bom_id', v_bom_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Run batches of a bill of materials in one warehouse
+-- p_order: { bom_id, warehouse_id, batches, assembly_date, notes }
+CREATE OR REPLACE FUNCTION post_assembly_order(
+    p_order JSONB,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'INVALID_ASSEMBLY';
+    v_bom bills_of_materials%ROWTYPE;
+    v_input bill_of_material_items%ROWTYPE;
+    v_order_id TEXT;
+    v_assembly_number TEXT;
+    v_warehouse_name TEXT;
+    v_batches INTEGER := COALESCE((p_order->>'batches')::INTEGER, 0);
+    v_assembly_date DATE := COALESCE((p_order->>'assembly_date')::DATE, CURRENT_DATE);
+    v_output_quantity INTEGER;
+    v_quantity INTEGER;
+    v_available INTEGER;
+    v_line_id TEXT;
+    v_line_cost DECIMAL;
+    v_total_cost DECIMAL := 0;
+    v_unit_cost DECIMAL;
+    v_previous_stock INTEGER;
+    v_previous_price DECIMAL;
+    v_reason TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT * INTO v_bom FROM bills_of_materials WHERE id = p_order->>'bom_id';
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Bill of materials % not found', p_order->>'bom_id' USING DETAIL = 'BOM_NOT_FOUND';
+        END IF;
+
+        IF v_bom.status <> 'active' THEN
+            RAISE EXCEPTION '% is inactive', v_bom.name USING DETAIL = 'INVALID_ASSEMBLY';
+        END IF;
+
+        IF v_batches <= 0 THEN
+            RAISE EXCEPTION 'The number of batches must be greater than zero' USING DETAIL = 'INVALID_ASSEMBLY';
+        END IF;
+
+        SELECT name INTO v_warehouse_name FROM warehouses WHERE id = p_order->>'warehouse_id';
+
+        IF v_warehouse_name IS NULL THEN
+            RAISE EXCEPTION 'A warehouse is required' USING DETAIL = 'INVALID_ASSEMBLY';
+        END IF;
+
+        v_output_quantity := v_bom.output_quantity * v_batches;
+        v_assembly_number := 'ASM-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text;
+        v_reason := 'Assembly ' || v_assembly_number || ': ' || v_bom.name;
+
+        INSERT INTO assembly_orders (
+            assembly_number,
+            bom_id,
+            bom_name,
+            warehouse_id,
+            warehouse_name,
+            output_product_id,
+            output_variation_id,
+            output_name,
+            batches,
+            output_quantity,
+            assembly_date,
+            notes,
+            created_by
+        ) VALUES (
+            v_assembly_number,
+            v_bom.id,
+            v_bom.name,
+            p_order->>'warehouse_id',
+            v_warehouse_name,
+            v_bom.output_product_id,
+            v_bom.output_variation_id,
+            v_bom.output_name,
+            v_batches,
+            v_output_quantity,
+            v_assembly_date,
+            p_order->>'notes',
+            p_created_by
+        ) RETURNING id INTO v_order_id;
+
+        -- Consume the inputs
+        FOR v_input IN
+            SELECT *
+            FROM bill_of_material_items
+            WHERE bom_id = v_bom.id
+            ORDER BY item_type DESC, created_at, id
+        LOOP
+            v_stage := 'STOCK_UPDATE_FAILED';
+            v_quantity := v_input.quantity * v_batches;
+
+            IF v_input.item_type = 'product' THEN
+                SELECT current_stock - reserved_stock INTO v_available
+                FROM product_warehouse_stock
+                WHERE product_id = v_input.item_id
+                  AND warehouse_id = p_order->>'warehouse_id'
+                  AND variation_id IS NOT DISTINCT FROM v_input.variation_id
+                FOR UPDATE;
+
+                IF COALESCE(v_available, 0) < v_quantity THEN
+                    RAISE EXCEPTION 'Insufficient stock of % in %. Needed: %, available: %',
+                        v_input.item_name, v_warehouse_name, v_quantity, COALESCE(v_available, 0)
+                        USING DETAIL = 'INSUFFICIENT_STOCK';
+                END IF;
+
+                PERFORM update_warehouse_stock(
+                    v_input.item_id,
+                    p_order->>'warehouse_id',
+                    v_input.variation_id,
+                    -v_quantity,
+                    'assembly',
+                    v_order_id,
+                    v_reason,
+                    p_created_by,
+                    p_order->>'notes'
+                );
+            ELSE
+                SELECT current_stock - reserved_stock INTO v_available
+                FROM packaging_warehouse_stock
+                WHERE packaging_id = v_input.item_id
+                  AND warehouse_id = p_order->>'warehouse_id'
+                  AND variation_id IS NOT DISTINCT FROM v_input.variation_id
+                FOR UPDATE;
+
+                IF COALESCE(v_available, 0) < v_quantity THEN
+                    RAISE EXCEPTION 'Insufficient packaging stock of % in %. Needed: %, available: %',
+                        v_input.item_name, v_warehouse_name, v_quantity, COALESCE(v_available, 0)
+                        USING DETAIL = 'INSUFFICIENT_PACKAGING_STOCK';
+                END IF;
+
+                PERFORM update_packaging_warehouse_stock(
+                    v_input.item_id,
+                    p_order->>'warehouse_id',
+                    v_input.variation_id,
+                    -v_quantity,
+                    'assembly',
+                    v_order_id,
+                    v_reason,
+                    p_created_by,
+                    p_order->>'notes'
+                );
+            END IF;
+
+            INSERT INTO assembly_order_items (
+                assembly_order_id,
+                item_type,
+                item_id,
+                variation_id,
+                item_name,
+                sku,
+                quantity
+            ) VALUES (
+                v_order_id,
+                v_input.item_type,
+                v_input.item_id,
+                v_input.variation_id,
+                v_input.item_name,
+                v_input.sku,
+                v_quantity
+            ) RETURNING id INTO v_line_id;
+
+            v_line_cost := issue_inventory_cost(
+                v_input.item_type,
+                v_input.item_id,
+                v_input.variation_id,
+                p_order->>'warehouse_id',
+                v_quantity,
+                'assembly',
+                v_order_id,
+                v_line_id,
+                v_assembly_date
+            );
+
+            UPDATE assembly_order_items
+            SET unit_cost = v_line_cost / v_quantity,
+                total_cost = ROUND(v_line_cost, 2)
+            WHERE id = v_line_id;
+
+            v_total_cost := v_total_cost + v_line_cost;
+        END LOOP;
+
+        -- Produce the output at the rolled-up cost of its inputs
+        v_stage := 'STOCK_UPDATE_FAILED';
+        v_unit_cost := v_total_cost / v_output_quantity;
+
+        SELECT current_stock, buying_price INTO v_previous_stock, v_previous_price
+        FROM product_warehouse_stock
+        WHERE product_id = v_bom.output_product_id
+          AND warehouse_id = p_order->>'warehouse_id'
+          AND variation_id IS NOT DISTINCT FROM v_bom.output_variation_id
+        FOR UPDATE;
+
+        PERFORM update_warehouse_stock(
+            v_bom.output_product_id,
+            p_order->>'warehouse_id',
+            v_bom.output_variation_id,
+            v_output_quantity,
+            'assembly',
+            v_order_id,
+            v_reason,
+            p_created_by,
+            p_order->>'notes'
+        );
+
+        PERFORM receive_inventory_cost(
+            'product',
+            v_bom.output_product_id,
+            v_bom.output_variation_id,
+            p_order->>'warehouse_id',
+            v_output_quantity,
+            v_unit_cost,
+            'assembly',
+            v_order_id,
+            NULL,
+            v_assembly_date
+        );
+
+        UPDATE product_warehouse_stock
+        SET buying_price = ROUND(
+                (GREATEST(COALESCE(v_previous_stock, 0), 0) * COALESCE(v_previous_price, 0) + v_total_cost)
+                / (GREATEST(COALESCE(v_previous_stock, 0), 0) + v_output_quantity),
+                2
+            ),
+            updated_at = NOW()
+        WHERE product_id = v_bom.output_product_id
+          AND warehouse_id = p_order->>'warehouse_id'
+          AND variation_id IS NOT DISTINCT FROM v_bom.output_variation_id;
+
+        UPDATE assembly_orders
+        SET total_cost = ROUND(v_total_cost, 2),
+            unit_cost = v_unit_cost
+        WHERE id = v_order_id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'BOM_NOT_FOUND', 'INVALID_ASSEMBLY', 'INSUFFICIENT_STOCK',
+                'INSUFFICIENT_PACKAGING_STOCK', 'STOCK_UPDATE_FAILED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'assembly_order_id', v_order_id,
+        'assembly_number', v_assembly_number,
+        'output_quantity', v_output_quantity,
+        'total_cost', ROUND(v_total_cost, 2),
+        'unit_cost', v_unit_cost
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE bills_of_materials IS 'Finished product or variation, units per batch, and the inputs of one batch';
+COMMENT ON TABLE assembly_orders IS 'Batches of a bill of materials run in one warehouse, with the rolled-up cost of the output';
+
+-- Success message
+SELECT 'Assembly orders created successfully!' as message;
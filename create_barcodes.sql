@@ -0,0 +1,160 @@
+-- Barcodes for products, variations and packaging
+-- Every sellable or receivable item carries one barcode: simple products and bundles on
+-- products, variation products on each product_variations row, simple packaging on
+-- packaging and variable packaging on each packaging_variations row.
+--   A 13-digit value must be a valid EAN-13; anything else is printed as Code128.
+--   An empty barcode is filled with an in-store EAN-13 (prefix 2, reserved for
+--     internal use) when the row is saved.
+--   A barcode is unique across all four tables, so a scan always finds one item.
+-- Duplicates are rejected with DETAIL = 'DUPLICATE_BARCODE' and invalid EAN-13 check
+-- digits with DETAIL = 'INVALID_BARCODE'.
+
+-- 1. Barcode columns
+ALTER TABLE products ADD COLUMN IF NOT EXISTS barcode TEXT;
+ALTER TABLE product_variations ADD COLUMN IF NOT EXISTS barcode TEXT;
+ALTER TABLE packaging ADD COLUMN IF NOT EXISTS barcode TEXT;
+ALTER TABLE packaging_variations ADD COLUMN IF NOT EXISTS barcode TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode) WHERE barcode IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variations_barcode ON product_variations(barcode) WHERE barcode IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_packaging_barcode ON packaging(barcode) WHERE barcode IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_packaging_variations_barcode ON packaging_variations(barcode) WHERE barcode IS NOT NULL;
+
+-- 2. EAN-13 check digit of the first 12 digits
+CREATE OR REPLACE FUNCTION ean13_check_digit(p_digits TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_sum INTEGER := 0;
+    v_index INTEGER;
+BEGIN
+    FOR v_index IN 1..12 LOOP
+        v_sum := v_sum + substr(p_digits, v_index, 1)::INTEGER * CASE WHEN v_index % 2 = 0 THEN 3 ELSE 1 END;
+    END LOOP;
+
+    RETURN (10 - v_sum % 10) % 10;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 3. Whether a barcode is used by any item other than p_exclude_id
+CREATE OR REPLACE FUNCTION barcode_in_use(p_barcode TEXT, p_exclude_id TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM products WHERE barcode = p_barcode AND id IS DISTINCT FROM p_exclude_id)
+        OR EXISTS (SELECT 1 FROM product_variations WHERE barcode = p_barcode AND id IS DISTINCT FROM p_exclude_id)
+        OR EXISTS (SELECT 1 FROM packaging WHERE barcode = p_barcode AND id IS DISTINCT FROM p_exclude_id)
+        OR EXISTS (SELECT 1 FROM packaging_variations WHERE barcode = p_barcode AND id IS DISTINCT FROM p_exclude_id);
+$$ LANGUAGE sql STABLE;
+
+-- 4. A new in-store EAN-13 that no item uses yet
+CREATE OR REPLACE FUNCTION generate_barcode()
+RETURNS TEXT AS $$
+DECLARE
+    v_digits TEXT;
+    v_barcode TEXT;
+BEGIN
+    LOOP
+        v_digits := '2' || lpad(floor(random() * 100000000000)::bigint::text, 11, '0');
+        v_barcode := v_digits || ean13_check_digit(v_digits)::text;
+        EXIT WHEN NOT barcode_in_use(v_barcode);
+    END LOOP;
+
+    RETURN v_barcode;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Fill, check and de-duplicate barcodes on save
+-- Parent rows of variation products and variable packaging keep no barcode of their own;
+-- their variations carry them.
+CREATE OR REPLACE FUNCTION assign_item_barcode()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.barcode := NULLIF(trim(NEW.barcode), '');
+
+    IF TG_TABLE_NAME = 'products' AND NEW.type = 'variation' THEN
+        NEW.barcode := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'packaging' AND NEW.type = 'variable' THEN
+        NEW.barcode := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.barcode IS NULL THEN
+        NEW.barcode := generate_barcode();
+        RETURN NEW;
+    END IF;
+
+    IF NEW.barcode ~ '^[0-9]{13}$' AND right(NEW.barcode, 1)::INTEGER <> ean13_check_digit(NEW.barcode) THEN
+        RAISE EXCEPTION 'Barcode % is not a valid EAN-13: the check digit should be %',
+            NEW.barcode, ean13_check_digit(NEW.barcode)
+            USING DETAIL = 'INVALID_BARCODE';
+    END IF;
+
+    IF barcode_in_use(NEW.barcode, NEW.id) THEN
+        RAISE EXCEPTION 'Barcode % is already used by another item', NEW.barcode
+            USING DETAIL = 'DUPLICATE_BARCODE';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_products_barcode ON products;
+CREATE TRIGGER trigger_products_barcode
+    BEFORE INSERT OR UPDATE OF barcode, type ON products
+    FOR EACH ROW EXECUTE FUNCTION assign_item_barcode();
+
+DROP TRIGGER IF EXISTS trigger_product_variations_barcode ON product_variations;
+CREATE TRIGGER trigger_product_variations_barcode
+    BEFORE INSERT OR UPDATE OF barcode ON product_variations
+    FOR EACH ROW EXECUTE FUNCTION assign_item_barcode();
+
+DROP TRIGGER IF EXISTS trigger_packaging_barcode ON packaging;
+CREATE TRIGGER trigger_packaging_barcode
+    BEFORE INSERT OR UPDATE OF barcode, type ON packaging
+    FOR EACH ROW EXECUTE FUNCTION assign_item_barcode();
+
+DROP TRIGGER IF EXISTS trigger_packaging_variations_barcode ON packaging_variations;
+CREATE TRIGGER trigger_packaging_variations_barcode
+    BEFORE INSERT OR UPDATE OF barcode ON packaging_variations
+    FOR EACH ROW EXECUTE FUNCTION assign_item_barcode();
+
+-- 6. Give existing items a barcode (the trigger generates one for each empty row)
+UPDATE products SET barcode = NULL WHERE barcode IS NULL AND type <> 'variation';
+UPDATE product_variations SET barcode = NULL WHERE barcode IS NULL;
+UPDATE packaging SET barcode = NULL WHERE barcode IS NULL AND type <> 'variable';
+UPDATE packaging_variations SET barcode = NULL WHERE barcode IS NULL;
+
+-- 7. Find the item a scanned barcode belongs to
+CREATE OR REPLACE FUNCTION find_item_by_barcode(p_barcode TEXT)
+RETURNS TABLE(
+    item_type TEXT,
+    item_id TEXT,
+    variation_id TEXT,
+    name TEXT,
+    sku TEXT,
+    barcode TEXT,
+    price DECIMAL
+) AS $$
+    SELECT 'product', p.id, NULL::TEXT, p.name, p.sku, p.barcode, p.price::DECIMAL
+    FROM products p
+    WHERE p.barcode = trim(p_barcode)
+    UNION ALL
+    SELECT 'product', p.id, pv.id, p.name || ' (' || pv.sku || ')', pv.sku, pv.barcode, pv.price::DECIMAL
+    FROM product_variations pv
+    JOIN products p ON p.id = pv.product_id
+    WHERE pv.barcode = trim(p_barcode)
+    UNION ALL
+    SELECT 'package', pk.id, NULL::TEXT, pk.title, pk.sku, pk.barcode, NULL::DECIMAL
+    FROM packaging pk
+    WHERE pk.barcode = trim(p_barcode)
+    UNION ALL
+    SELECT 'package', pk.id, pkv.id, pk.title || ' (' || pkv.sku || ')', pkv.sku, pkv.barcode, NULL::DECIMAL
+    FROM packaging_variations pkv
+    JOIN packaging pk ON pk.id = pkv.packaging_id
+    WHERE pkv.barcode = trim(p_barcode)
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Success message
+SELECT 'Barcodes created successfully!' as message;
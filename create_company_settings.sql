@@ -0,0 +1,45 @@
+-- Company settings
+-- A single row of company details (name, address, contact and tax number) that printed
+-- documents such as sale invoices and customer statements carry in their letterhead.
+-- The row is edited from the Settings page.
+
+-- 1. Settings table
+CREATE TABLE IF NOT EXISTS company_settings (
+  id TEXT PRIMARY KEY DEFAULT 'default' CHECK (id = 'default'),
+  company_name TEXT NOT NULL DEFAULT 'ERP STORE',
+  address TEXT,
+  phone TEXT,
+  email TEXT,
+  website TEXT,
+  tax_number TEXT,
+  invoice_footer TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE company_settings IS 'Company details printed on invoices and statements (single row)';
+COMMENT ON COLUMN company_settings.tax_number IS 'Tax / VAT registration number shown on invoices';
+COMMENT ON COLUMN company_settings.invoice_footer IS 'Closing note printed at the bottom of invoices';
+
+-- 2. Default row
+INSERT INTO company_settings (id, company_name, address, phone, invoice_footer)
+VALUES ('default', 'ERP STORE', '123 Business St, Dhaka', '+880 1234-567890', 'Thank you for your business.')
+ON CONFLICT (id) DO NOTHING;
+
+-- 3. Keep updated_at current
+CREATE OR REPLACE FUNCTION update_company_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_company_settings_updated_at ON company_settings;
+CREATE TRIGGER trigger_company_settings_updated_at
+  BEFORE UPDATE ON company_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_company_settings_updated_at();
+
+-- Success message
+SELECT 'Company settings created successfully!' as message;
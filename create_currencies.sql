@@ -0,0 +1,318 @@
+-- Currencies and exchange rates
+-- The ledger is kept in taka (BDT). Purchases, sales and their payments carry the currency
+-- they were made in and its exchange_rate: the taka value of one unit on that document.
+-- Their amounts stay in that currency; every journal posted for them is converted to taka.
+-- exchange_rates holds a rate per currency per day, entered by hand or imported from a CSV
+-- file; get_exchange_rate gives the latest rate on or before a date and is used to
+-- suggest the rate on new documents, which can still be overridden.
+-- Suppliers and customers have a currency that their purchases and sales default to, so a
+-- supplier's statement is in the supplier's own currency.
+-- A purchase payment at a different rate from the purchase settles the bill at the purchase
+-- rate; the difference is a realised exchange gain or loss:
+--   paid at a lower rate   Dr Accounts Payable,  Cr Exchange Gain
+--   paid at a higher rate  Dr Exchange Loss,     Cr Accounts Payable
+-- A customer payment received later settles the invoice at the sale rate the same way:
+--   received at a higher rate  Dr Accounts Receivable, Cr Exchange Gain
+--   received at a lower rate   Dr Exchange Loss,       Cr Accounts Receivable
+-- Customer returns are credited at the rate of the sale they come from, and keep their
+-- total in both the sale currency and taka.
+-- Open balances keep the document currency; customer totals and aging are in taka.
+-- Requires create_supplier_payables.sql, create_customer_receivables.sql, create_sales_payment_system.sql
+
+-- 1. Exchange rates
+-- rate = taka per one unit of the currency on rate_date
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id TEXT PRIMARY KEY DEFAULT 'FXR' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'BDT'),
+  rate_date DATE NOT NULL,
+  rate DECIMAL(18,6) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(currency, rate_date DESC);
+
+-- Latest rate on or before p_date; 1 for taka and NULL when there is no rate yet
+CREATE OR REPLACE FUNCTION get_exchange_rate(
+    p_currency TEXT,
+    p_date DATE DEFAULT CURRENT_DATE
+) RETURNS DECIMAL AS $$
+    SELECT CASE
+        WHEN upper(COALESCE(p_currency, 'BDT')) = 'BDT' THEN 1::DECIMAL
+        ELSE (
+            SELECT rate
+            FROM exchange_rates
+            WHERE currency = upper(p_currency)
+              AND rate_date <= COALESCE(p_date, CURRENT_DATE)
+            ORDER BY rate_date DESC
+            LIMIT 1
+        )
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- 2. Currency of suppliers and customers
+ALTER TABLE suppliers
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BDT' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BDT' CHECK (currency ~ '^[A-Z]{3}$');
+
+COMMENT ON COLUMN suppliers.currency IS 'Currency the supplier bills in; new purchases default to it';
+COMMENT ON COLUMN customers.currency IS 'Currency the customer is invoiced in; new sales default to it';
+
+-- 3. Currency and rate of purchases, sales, returns and payments
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BDT' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE purchase_payments
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BDT' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+ADD COLUMN IF NOT EXISTS exchange_difference DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS exchange_journal_entry_id TEXT REFERENCES journal_entries(id);
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BDT' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE sale_payments
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BDT' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+ADD COLUMN IF NOT EXISTS exchange_difference DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS exchange_journal_entry_id TEXT REFERENCES journal_entries(id);
+
+ALTER TABLE returns
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'BDT' CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+ADD COLUMN IF NOT EXISTS base_total_amount DECIMAL(12,2);
+
+UPDATE returns SET base_total_amount = total_amount WHERE base_total_amount IS NULL;
+
+COMMENT ON COLUMN purchases.exchange_rate IS 'Taka per unit of the purchase currency; receipts are posted at this rate';
+COMMENT ON COLUMN purchase_payments.exchange_rate IS 'Taka per unit of the payment currency on the day it was paid';
+COMMENT ON COLUMN purchase_payments.exchange_difference IS 'Realised exchange gain (positive) or loss (negative) in taka';
+COMMENT ON COLUMN sales.exchange_rate IS 'Taka per unit of the sale currency; the sale journals are posted at this rate';
+COMMENT ON COLUMN sale_payments.exchange_rate IS 'Taka per unit of the payment currency on the day it was received';
+COMMENT ON COLUMN sale_payments.exchange_difference IS 'Realised exchange gain (positive) or loss (negative) in taka';
+COMMENT ON COLUMN returns.base_total_amount IS 'Return total in taka at the sale rate, as credited to Accounts Receivable';
+
+-- 4. Realised exchange differences
+-- p_amount is in taka: positive for a gain, negative for a loss. 'purchase_payment' settles
+-- against Accounts Payable and 'sale_payment' against Accounts Receivable. The Exchange
+-- Gain (revenue) and Exchange Loss (expense) accounts are created when first needed.
+CREATE OR REPLACE FUNCTION create_exchange_difference_journal_entry(
+    p_reference_type TEXT,
+    p_reference_id TEXT,
+    p_description TEXT,
+    p_amount DECIMAL,
+    p_entry_date DATE DEFAULT CURRENT_DATE,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS TEXT AS $$
+DECLARE
+    v_journal_entry_id TEXT;
+    v_balance_account_id TEXT;
+    v_exchange_account_id TEXT;
+    v_is_gain BOOLEAN := p_amount > 0;
+    v_amount DECIMAL := ABS(ROUND(COALESCE(p_amount, 0), 2));
+BEGIN
+    IF v_amount = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id INTO v_balance_account_id
+    FROM accounts
+    WHERE account_name = CASE WHEN p_reference_type = 'sale_payment' THEN 'Accounts Receivable' ELSE 'Accounts Payable' END
+    LIMIT 1;
+
+    IF v_is_gain THEN
+        SELECT id INTO v_exchange_account_id FROM accounts WHERE account_name = 'Exchange Gain' LIMIT 1;
+
+        IF v_exchange_account_id IS NULL THEN
+            INSERT INTO accounts (account_number, account_name, account_code, category_id, description)
+            SELECT '4200', 'Exchange Gain', 'FXGAIN', id, 'Realised gains on foreign-currency settlements'
+            FROM account_categories
+            WHERE type = 'revenue'
+            LIMIT 1
+            RETURNING id INTO v_exchange_account_id;
+        END IF;
+    ELSE
+        SELECT id INTO v_exchange_account_id FROM accounts WHERE account_name = 'Exchange Loss' LIMIT 1;
+
+        IF v_exchange_account_id IS NULL THEN
+            INSERT INTO accounts (account_number, account_name, account_code, category_id, description)
+            SELECT '6400', 'Exchange Loss', 'FXLOSS', id, 'Realised losses on foreign-currency settlements'
+            FROM account_categories
+            WHERE type = 'expense'
+            LIMIT 1
+            RETURNING id INTO v_exchange_account_id;
+        END IF;
+    END IF;
+
+    IF v_balance_account_id IS NULL OR v_exchange_account_id IS NULL THEN
+        RAISE EXCEPTION 'Exchange Gain/Loss and Accounts Payable or Receivable accounts are required to post an exchange difference';
+    END IF;
+
+    INSERT INTO journal_entries (
+        entry_number,
+        description,
+        reference_type,
+        reference_id,
+        entry_date,
+        total_amount,
+        status,
+        created_by
+    ) VALUES (
+        'JE-FX-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+        p_description,
+        p_reference_type || '_exchange',
+        p_reference_id,
+        COALESCE(p_entry_date, CURRENT_DATE),
+        v_amount,
+        'posted',
+        p_created_by
+    ) RETURNING id INTO v_journal_entry_id;
+
+    -- A payable settled for less taka, or a receivable collected for more, leaves a balance
+    -- to clear against the gain; losses are the other way round.
+    INSERT INTO journal_entry_lines (
+        journal_entry_id,
+        line_number,
+        account_id,
+        description,
+        debit_amount,
+        credit_amount
+    ) VALUES
+    (
+        v_journal_entry_id,
+        1,
+        CASE WHEN v_is_gain THEN v_balance_account_id ELSE v_exchange_account_id END,
+        CASE WHEN v_is_gain THEN 'Balance settled at a better rate' ELSE 'Realised exchange loss' END,
+        v_amount,
+        0
+    ),
+    (
+        v_journal_entry_id,
+        2,
+        CASE WHEN v_is_gain THEN v_exchange_account_id ELSE v_balance_account_id END,
+        CASE WHEN v_is_gain THEN 'Realised exchange gain' ELSE 'Balance settled at a worse rate' END,
+        0,
+        v_amount
+    );
+
+    RETURN v_journal_entry_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Supplier bill balances with their currency
+-- Same as create_supplier_payables.sql, with the purchase currency and rate added so
+-- balances can be shown in the supplier's currency and totalled in taka.
+CREATE OR REPLACE VIEW supplier_bill_balances AS
+SELECT
+  p.id AS purchase_id,
+  p.supplier_id,
+  p.supplier_name,
+  p.purchase_date,
+  p.due_date,
+  p.status,
+  p.total_amount,
+  COALESCE(pay.amount_paid, 0) AS amount_paid,
+  COALESCE(ret.amount_returned, 0) AS amount_returned,
+  COALESCE(ret.amount_refunded, 0) AS amount_refunded,
+  p.total_amount
+    - COALESCE(pay.amount_paid, 0)
+    - COALESCE(ret.amount_returned, 0)
+    + COALESCE(ret.amount_refunded, 0) AS outstanding_amount,
+  p.currency,
+  p.exchange_rate
+FROM purchases p
+LEFT JOIN (
+  SELECT purchase_id, SUM(amount) AS amount_paid
+  FROM purchase_payments
+  WHERE COALESCE(status, 'active') = 'active'
+  GROUP BY purchase_id
+) pay ON pay.purchase_id = p.id
+LEFT JOIN (
+  SELECT
+    pr.purchase_id,
+    SUM(pr.total_amount) AS amount_returned,
+    SUM(COALESCE(rt.amount_refunded, 0)) AS amount_refunded
+  FROM purchase_returns pr
+  LEFT JOIN (
+    SELECT return_id, SUM(refund_amount) AS amount_refunded
+    FROM refund_transactions
+    WHERE status = 'completed'
+    GROUP BY return_id
+  ) rt ON rt.return_id = pr.id
+  WHERE COALESCE(pr.status, 'pending') <> 'rejected'
+  GROUP BY pr.purchase_id
+) ret ON ret.purchase_id = p.id
+WHERE COALESCE(p.status, 'pending') <> 'cancelled';
+
+-- 6. Customer invoice balances with their currency
+-- Same as create_customer_receivables.sql, with the sale currency and rate added so
+-- balances can be shown in the customer's currency and totalled in taka.
+CREATE OR REPLACE VIEW customer_invoice_balances AS
+SELECT
+  s.id AS sale_id,
+  s.customer_id,
+  s.customer_name,
+  s.sale_date,
+  s.status,
+  s.total_amount,
+  COALESCE(p.amount_paid, 0) AS amount_paid,
+  COALESCE(r.amount_returned, 0) AS amount_returned,
+  s.total_amount - COALESCE(p.amount_paid, 0) - COALESCE(r.amount_returned, 0) AS outstanding_amount,
+  s.currency,
+  s.exchange_rate
+FROM sales s
+LEFT JOIN (
+  SELECT sale_id, SUM(amount) AS amount_paid
+  FROM sale_payments
+  WHERE status = 'active'
+  GROUP BY sale_id
+) p ON p.sale_id = s.id
+LEFT JOIN (
+  SELECT sale_id, SUM(total_amount) AS amount_returned
+  FROM returns
+  WHERE COALESCE(status, 'pending') <> 'rejected'
+  GROUP BY sale_id
+) r ON r.sale_id = s.id
+WHERE COALESCE(s.status, 'completed') <> 'cancelled';
+
+-- A customer's sales can be in different currencies, so what they spent is totalled in taka
+CREATE OR REPLACE FUNCTION refresh_customer_totals(p_customer_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_customer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE customers
+  SET
+    total_orders = (
+      SELECT COUNT(*)
+      FROM sales
+      WHERE customer_id = p_customer_id
+        AND COALESCE(status, 'completed') <> 'cancelled'
+    ),
+    total_spent = (
+      SELECT COALESCE(SUM(ROUND((total_amount - amount_returned) * COALESCE(exchange_rate, 1), 2)), 0)
+      FROM customer_invoice_balances
+      WHERE customer_id = p_customer_id
+    ),
+    updated_at = NOW()
+  WHERE id = p_customer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT refresh_customer_totals(id) FROM customers;
+
+COMMENT ON TABLE exchange_rates IS 'Taka per unit of each foreign currency by date, entered by hand or imported';
+COMMENT ON FUNCTION get_exchange_rate IS 'Latest exchange rate for a currency on or before a date';
+COMMENT ON FUNCTION create_exchange_difference_journal_entry IS 'Posts a realised exchange gain or loss on a payment';
+
+-- Success message
+SELECT 'Currencies and exchange rates created successfully!' as message;
@@ -0,0 +1,102 @@
+-- Customer receivables
+-- customer_invoice_balances gives the outstanding balance of every sale (the invoice)
+-- after active payments and customer returns, which is what the receivables ledger,
+-- statements and aging report are built from.
+-- customers.total_orders and customers.total_spent are kept current by triggers on
+-- sales and returns instead of being maintained by hand.
+-- create_currencies.sql adds the sale currency to the view and totals customers in taka.
+
+-- 1. Outstanding balance per invoice
+-- Returns are credited against Accounts Receivable by process_return, so they reduce
+-- the balance just like payments do. Rejected returns and cancelled sales are ignored.
+CREATE OR REPLACE VIEW customer_invoice_balances AS
+SELECT
+  s.id AS sale_id,
+  s.customer_id,
+  s.customer_name,
+  s.sale_date,
+  s.status,
+  s.total_amount,
+  COALESCE(p.amount_paid, 0) AS amount_paid,
+  COALESCE(r.amount_returned, 0) AS amount_returned,
+  s.total_amount - COALESCE(p.amount_paid, 0) - COALESCE(r.amount_returned, 0) AS outstanding_amount
+FROM sales s
+LEFT JOIN (
+  SELECT sale_id, SUM(amount) AS amount_paid
+  FROM sale_payments
+  WHERE status = 'active'
+  GROUP BY sale_id
+) p ON p.sale_id = s.id
+LEFT JOIN (
+  SELECT sale_id, SUM(total_amount) AS amount_returned
+  FROM returns
+  WHERE COALESCE(status, 'pending') <> 'rejected'
+  GROUP BY sale_id
+) r ON r.sale_id = s.id
+WHERE COALESCE(s.status, 'completed') <> 'cancelled';
+
+COMMENT ON VIEW customer_invoice_balances IS 'Outstanding balance of each sale after active payments and customer returns';
+
+-- 2. Customer totals
+CREATE OR REPLACE FUNCTION refresh_customer_totals(p_customer_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_customer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE customers
+  SET
+    total_orders = (
+      SELECT COUNT(*)
+      FROM sales
+      WHERE customer_id = p_customer_id
+        AND COALESCE(status, 'completed') <> 'cancelled'
+    ),
+    total_spent = (
+      SELECT COALESCE(SUM(total_amount - amount_returned), 0)
+      FROM customer_invoice_balances
+      WHERE customer_id = p_customer_id
+    ),
+    updated_at = NOW()
+  WHERE id = p_customer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_customer_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_customer_totals(NEW.customer_id);
+  END IF;
+
+  -- A sale or return moved to another customer must be taken off the old one too
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.customer_id IS DISTINCT FROM NEW.customer_id) THEN
+    PERFORM refresh_customer_totals(OLD.customer_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_customer_totals_sales ON sales;
+CREATE TRIGGER trigger_update_customer_totals_sales
+  AFTER INSERT OR DELETE OR UPDATE OF customer_id, total_amount, status ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customer_totals();
+
+DROP TRIGGER IF EXISTS trigger_update_customer_totals_returns ON returns;
+CREATE TRIGGER trigger_update_customer_totals_returns
+  AFTER INSERT OR DELETE OR UPDATE OF customer_id, total_amount, status ON returns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customer_totals();
+
+-- 3. Backfill existing customers
+SELECT refresh_customer_totals(id) FROM customers;
+
+-- 4. Indexes for per-customer lookups
+CREATE INDEX IF NOT EXISTS idx_sales_customer_id ON sales(customer_id);
+CREATE INDEX IF NOT EXISTS idx_returns_customer_id ON returns(customer_id);
+
+-- Success message
+SELECT 'Customer receivables created successfully!' as message;
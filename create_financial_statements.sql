@@ -0,0 +1,62 @@
+-- Financial statements
+-- get_account_activity totals the posted journal_entry_lines of every active account
+-- between two dates. The profit and loss statement, balance sheet and cash flow
+-- statement are all built from it: a period's activity gives income, expenses and
+-- balance changes, and activity from the beginning up to a date gives balances.
+
+-- 1. Account activity between two dates
+-- p_from NULL means from the first entry, so the result is the balance as of p_to.
+-- Amounts are raw debits and credits; the report applies each account type's sign.
+-- p_include_closing false leaves out year-end closing entries (reference_type
+-- 'period_close'), so a period's income isn't zeroed by its own closing entry.
+DROP FUNCTION IF EXISTS get_account_activity(DATE, DATE);
+DROP FUNCTION IF EXISTS get_account_activity(DATE, DATE, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION get_account_activity(
+    p_from DATE,
+    p_to DATE DEFAULT CURRENT_DATE,
+    p_include_closing BOOLEAN DEFAULT true
+) RETURNS TABLE (
+    account_id TEXT,
+    account_number TEXT,
+    account_name TEXT,
+    account_code TEXT,
+    account_type TEXT,
+    is_payment_method BOOLEAN,
+    total_debits DECIMAL,
+    total_credits DECIMAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        a.id::TEXT,
+        a.account_number,
+        a.account_name,
+        a.account_code,
+        ac.type,
+        COALESCE(a.is_payment_method, false),
+        COALESCE(SUM(activity.debit_amount), 0)::DECIMAL,
+        COALESCE(SUM(activity.credit_amount), 0)::DECIMAL
+    FROM accounts a
+    JOIN account_categories ac ON a.category_id = ac.id
+    LEFT JOIN (
+        SELECT jel.account_id, jel.debit_amount, jel.credit_amount
+        FROM journal_entry_lines jel
+        JOIN journal_entries je ON jel.journal_entry_id = je.id
+        WHERE je.status = 'posted'
+          AND je.entry_date <= p_to
+          AND (p_from IS NULL OR je.entry_date >= p_from)
+          AND (p_include_closing OR je.reference_type IS DISTINCT FROM 'period_close')
+    ) activity ON activity.account_id = a.id
+    WHERE a.is_active = true
+    GROUP BY a.id, a.account_number, a.account_name, a.account_code, ac.type, a.is_payment_method
+    ORDER BY a.account_number;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. Indexes for date-bounded journal lookups
+CREATE INDEX IF NOT EXISTS idx_journal_entries_status_date ON journal_entries(status, entry_date);
+CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_account ON journal_entry_lines(account_id);
+
+-- Success message
+SELECT 'Financial statement functions created successfully!' as message;
@@ -0,0 +1,536 @@
+-- Fiscal periods: open, close and lock accounting periods
+-- A period is a month, quarter or year. Periods of the same type may not overlap,
+-- but a month naturally sits inside its year.
+--   open   -> anything can be posted
+--   closed -> the period has been reported on; closing a year posts the closing
+--             entry that moves revenue and expense balances into retained earnings
+--   locked -> journal entries, sales, purchases and expenses dated inside the period,
+--             and their lines, can't be created, edited or deleted unless the user
+--             holds accounting.override_period_lock
+-- Violations raise an exception with DETAIL 'PERIOD_LOCKED', which post_sale reports
+-- as its PERIOD_LOCKED error code.
+-- Requires create_financial_statements.sql
+
+-- 1. Fiscal periods table
+CREATE TABLE IF NOT EXISTS fiscal_periods (
+    id TEXT PRIMARY KEY DEFAULT 'FP' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+    name TEXT NOT NULL,
+    period_type TEXT NOT NULL DEFAULT 'month' CHECK (period_type IN ('month', 'quarter', 'year')),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'locked')),
+    closing_entry_id TEXT REFERENCES journal_entries(id) ON DELETE SET NULL,
+    closed_at TIMESTAMPTZ,
+    closed_by TEXT,
+    locked_at TIMESTAMPTZ,
+    locked_by TEXT,
+    notes TEXT,
+    created_by TEXT NOT NULL DEFAULT 'system',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fiscal_periods_dates ON fiscal_periods(start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_fiscal_periods_status ON fiscal_periods(status);
+
+-- Periods of the same type must not overlap
+CREATE OR REPLACE FUNCTION check_fiscal_period_overlap()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM fiscal_periods fp
+        WHERE fp.id <> NEW.id
+          AND fp.period_type = NEW.period_type
+          AND fp.start_date <= NEW.end_date
+          AND fp.end_date >= NEW.start_date
+    ) THEN
+        RAISE EXCEPTION 'A % period already covers part of % to %', NEW.period_type, NEW.start_date, NEW.end_date;
+    END IF;
+
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_fiscal_period_overlap ON fiscal_periods;
+CREATE TRIGGER trigger_check_fiscal_period_overlap
+    BEFORE INSERT OR UPDATE OF start_date, end_date, period_type ON fiscal_periods
+    FOR EACH ROW
+    EXECUTE FUNCTION check_fiscal_period_overlap();
+
+-- 2. Override permission
+-- The role tables read by the user management screens, created here if this database
+-- doesn't have them yet
+CREATE TABLE IF NOT EXISTS roles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS permissions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    module TEXT NOT NULL,
+    action TEXT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (module, action)
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role_id UUID NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+    permission_id UUID NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (role_id, permission_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role_id UUID NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, role_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_user ON user_roles(user_id);
+
+INSERT INTO roles (name, description)
+SELECT 'super_admin', 'Full access to every module'
+WHERE NOT EXISTS (SELECT 1 FROM roles WHERE name = 'super_admin');
+
+INSERT INTO permissions (module, action, description)
+SELECT 'accounting', 'override_period_lock', 'Post or edit transactions dated inside a locked fiscal period'
+WHERE NOT EXISTS (
+    SELECT 1 FROM permissions WHERE module = 'accounting' AND action = 'override_period_lock'
+);
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r
+CROSS JOIN permissions p
+WHERE r.name = 'super_admin'
+  AND p.module = 'accounting'
+  AND p.action = 'override_period_lock'
+  AND NOT EXISTS (
+      SELECT 1 FROM role_permissions rp WHERE rp.role_id = r.id AND rp.permission_id = p.id
+  );
+
+-- Whether the signed-in user may post into locked periods
+CREATE OR REPLACE FUNCTION can_override_period_lock()
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM user_roles ur
+        JOIN role_permissions rp ON rp.role_id = ur.role_id
+        JOIN permissions p ON p.id = rp.permission_id
+        WHERE ur.user_id::TEXT = auth.uid()::TEXT
+          AND p.module = 'accounting'
+          AND p.action = 'override_period_lock'
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 3. Period lock checks
+-- The locked period containing a date, if any
+CREATE OR REPLACE FUNCTION get_period_lock(p_date DATE)
+RETURNS JSONB AS $$
+DECLARE
+    v_period fiscal_periods%ROWTYPE;
+BEGIN
+    SELECT * INTO v_period
+    FROM fiscal_periods
+    WHERE status = 'locked'
+      AND p_date BETWEEN start_date AND end_date
+    ORDER BY end_date - start_date
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('locked', false, 'can_override', true);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'locked', true,
+        'period_id', v_period.id,
+        'period_name', v_period.name,
+        'can_override', can_override_period_lock()
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Raise PERIOD_LOCKED when a date falls in a locked period and the user has no override
+CREATE OR REPLACE FUNCTION assert_period_open(p_date DATE, p_document TEXT DEFAULT 'Transaction')
+RETURNS VOID AS $$
+DECLARE
+    v_lock JSONB;
+BEGIN
+    IF p_date IS NULL THEN
+        RETURN;
+    END IF;
+
+    v_lock := get_period_lock(p_date);
+
+    IF (v_lock->>'locked')::BOOLEAN AND NOT (v_lock->>'can_override')::BOOLEAN THEN
+        RAISE EXCEPTION '% dated % falls in locked period %', p_document, p_date, v_lock->>'period_name'
+            USING DETAIL = 'PERIOD_LOCKED';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 4. Guard triggers
+-- Both the old and new dates are checked so records can't be moved into or out of a locked period.
+-- Arguments: date column, document name, then any columns later documents keep in step
+-- (payment totals, receipt status); an update touching only those is let through.
+CREATE OR REPLACE FUNCTION enforce_period_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_date_column TEXT := TG_ARGV[0];
+    v_document TEXT := TG_ARGV[1];
+    v_ignored TEXT[] := COALESCE(TG_ARGV[2:TG_NARGS - 1], ARRAY[]::TEXT[]);
+BEGIN
+    IF TG_OP = 'UPDATE' AND (to_jsonb(NEW) - v_ignored) = (to_jsonb(OLD) - v_ignored) THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM assert_period_open((to_jsonb(OLD)->>v_date_column)::DATE, v_document);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM assert_period_open((to_jsonb(NEW)->>v_date_column)::DATE, v_document);
+        RETURN NEW;
+    END IF;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only posting columns are guarded, so an entry in a locked period can still be linked
+-- to a reversal dated in an open period
+DROP TRIGGER IF EXISTS trigger_journal_entries_period_lock ON journal_entries;
+CREATE TRIGGER trigger_journal_entries_period_lock
+    BEFORE INSERT OR UPDATE OF entry_date, total_amount, status OR DELETE ON journal_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_period_lock('entry_date', 'Journal entry');
+
+-- Payments received against a sale update its totals on the payment's own date
+DROP TRIGGER IF EXISTS trigger_sales_period_lock ON sales;
+CREATE TRIGGER trigger_sales_period_lock
+    BEFORE INSERT OR UPDATE OR DELETE ON sales
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_period_lock('sale_date', 'Sale', 'amount_paid', 'payment_status', 'updated_at');
+
+-- Goods received notes and returns post their own journals on their own dates, so the
+-- purchase status they keep in step is not guarded
+DROP TRIGGER IF EXISTS trigger_purchases_period_lock ON purchases;
+CREATE TRIGGER trigger_purchases_period_lock
+    BEFORE INSERT OR UPDATE OR DELETE ON purchases
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_period_lock('purchase_date', 'Purchase', 'status', 'last_updated', 'updated_at');
+
+DROP TRIGGER IF EXISTS trigger_expenses_period_lock ON expenses;
+CREATE TRIGGER trigger_expenses_period_lock
+    BEFORE INSERT OR UPDATE OR DELETE ON expenses
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_period_lock('expense_date', 'Expense', 'updated_at');
+
+-- Lines can't be added to or removed from an entry in a locked period either
+CREATE OR REPLACE FUNCTION enforce_journal_line_period_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_entry_date DATE;
+BEGIN
+    SELECT entry_date INTO v_entry_date
+    FROM journal_entries
+    WHERE id = COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+
+    PERFORM assert_period_open(v_entry_date, 'Journal entry');
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_journal_entry_lines_period_lock ON journal_entry_lines;
+CREATE TRIGGER trigger_journal_entry_lines_period_lock
+    BEFORE INSERT OR UPDATE OR DELETE ON journal_entry_lines
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_journal_line_period_lock();
+
+-- Sale and purchase lines follow the date of their document. Arguments: parent table,
+-- parent key column, parent date column, document name, then the columns receipts and
+-- returns keep in step.
+CREATE OR REPLACE FUNCTION enforce_document_line_period_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_parent_table TEXT := TG_ARGV[0];
+    v_parent_key TEXT := TG_ARGV[1];
+    v_date_column TEXT := TG_ARGV[2];
+    v_document TEXT := TG_ARGV[3];
+    v_ignored TEXT[] := COALESCE(TG_ARGV[4:TG_NARGS - 1], ARRAY[]::TEXT[]);
+    v_date DATE;
+BEGIN
+    IF TG_OP = 'UPDATE' AND (to_jsonb(NEW) - v_ignored) = (to_jsonb(OLD) - v_ignored) THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        EXECUTE format('SELECT %I::DATE FROM %I WHERE id = $1', v_date_column, v_parent_table)
+            INTO v_date
+            USING to_jsonb(OLD)->>v_parent_key;
+        PERFORM assert_period_open(v_date, v_document);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        EXECUTE format('SELECT %I::DATE FROM %I WHERE id = $1', v_date_column, v_parent_table)
+            INTO v_date
+            USING to_jsonb(NEW)->>v_parent_key;
+        PERFORM assert_period_open(v_date, v_document);
+        RETURN NEW;
+    END IF;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sale_items_period_lock ON sale_items;
+CREATE TRIGGER trigger_sale_items_period_lock
+    BEFORE INSERT OR UPDATE OR DELETE ON sale_items
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_document_line_period_lock('sales', 'sale_id', 'sale_date', 'Sale', 'returned_quantity', 'updated_at');
+
+DROP TRIGGER IF EXISTS trigger_purchase_items_period_lock ON purchase_items;
+CREATE TRIGGER trigger_purchase_items_period_lock
+    BEFORE INSERT OR UPDATE OR DELETE ON purchase_items
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_document_line_period_lock('purchases', 'purchase_id', 'purchase_date', 'Purchase', 'received_quantity', 'returned_quantity', 'updated_at');
+
+-- 5. Close a period
+-- Closing a year posts one entry dated on its last day: every revenue account is debited
+-- and every expense account credited by its balance for the year, and the difference
+-- (the year's net income) is credited to retained earnings.
+CREATE OR REPLACE FUNCTION close_fiscal_period(
+    p_period_id TEXT,
+    p_closed_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_period fiscal_periods%ROWTYPE;
+    v_retained_earnings_id TEXT;
+    v_entry_id TEXT;
+    v_line_number INTEGER := 0;
+    v_total_debits DECIMAL := 0;
+    v_net_income DECIMAL := 0;
+    v_row RECORD;
+    v_amount DECIMAL;
+BEGIN
+    SELECT * INTO v_period FROM fiscal_periods WHERE id = p_period_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Fiscal period % not found', p_period_id;
+    END IF;
+
+    IF v_period.status <> 'open' THEN
+        RAISE EXCEPTION 'Fiscal period % is already %', v_period.name, v_period.status;
+    END IF;
+
+    IF v_period.period_type = 'year' THEN
+        SELECT a.id INTO v_retained_earnings_id
+        FROM accounts a
+        WHERE a.is_active = true
+          AND (a.id = 'acc-retained-earnings' OR a.account_code = 'RE' OR a.account_number = '3100')
+        ORDER BY (a.id = 'acc-retained-earnings') DESC
+        LIMIT 1;
+
+        IF v_retained_earnings_id IS NULL THEN
+            RAISE EXCEPTION 'A Retained Earnings account (3100) is required to close a year';
+        END IF;
+
+        INSERT INTO journal_entries (
+            entry_number,
+            description,
+            reference_type,
+            reference_id,
+            entry_date,
+            total_amount,
+            status,
+            created_by
+        ) VALUES (
+            'JE-CLOSE-' || EXTRACT(EPOCH FROM NOW())::bigint::text,
+            'Closing entry - ' || v_period.name,
+            'period_close',
+            v_period.id,
+            v_period.end_date,
+            0,
+            'posted',
+            p_closed_by
+        ) RETURNING id INTO v_entry_id;
+
+        FOR v_row IN
+            SELECT * FROM get_account_activity(v_period.start_date, v_period.end_date, false)
+            WHERE account_type IN ('revenue', 'expense')
+              AND total_debits <> total_credits
+        LOOP
+            -- Reverse each account's balance for the year
+            v_amount := v_row.total_debits - v_row.total_credits;
+            v_line_number := v_line_number + 1;
+            v_net_income := v_net_income - v_amount;
+
+            INSERT INTO journal_entry_lines (
+                journal_entry_id,
+                line_number,
+                account_id,
+                description,
+                debit_amount,
+                credit_amount
+            ) VALUES (
+                v_entry_id,
+                v_line_number,
+                v_row.account_id,
+                'Close ' || v_row.account_name || ' to retained earnings',
+                GREATEST(-v_amount, 0),
+                GREATEST(v_amount, 0)
+            );
+
+            v_total_debits := v_total_debits + GREATEST(-v_amount, 0);
+        END LOOP;
+
+        IF v_line_number = 0 THEN
+            -- Nothing to close; keep the journal clean
+            DELETE FROM journal_entries WHERE id = v_entry_id;
+            v_entry_id := NULL;
+        ELSE
+            IF v_net_income <> 0 THEN
+                v_line_number := v_line_number + 1;
+
+                INSERT INTO journal_entry_lines (
+                    journal_entry_id,
+                    line_number,
+                    account_id,
+                    description,
+                    debit_amount,
+                    credit_amount
+                ) VALUES (
+                    v_entry_id,
+                    v_line_number,
+                    v_retained_earnings_id,
+                    CASE WHEN v_net_income > 0 THEN 'Net income for ' ELSE 'Net loss for ' END || v_period.name,
+                    GREATEST(-v_net_income, 0),
+                    GREATEST(v_net_income, 0)
+                );
+
+                v_total_debits := v_total_debits + GREATEST(-v_net_income, 0);
+            END IF;
+
+            UPDATE journal_entries SET total_amount = v_total_debits WHERE id = v_entry_id;
+        END IF;
+    END IF;
+
+    UPDATE fiscal_periods
+    SET status = 'closed',
+        closing_entry_id = v_entry_id,
+        closed_at = NOW(),
+        closed_by = p_closed_by
+    WHERE id = v_period.id;
+
+    RETURN jsonb_build_object(
+        'period_id', v_period.id,
+        'closing_entry_id', v_entry_id,
+        'net_income', v_net_income
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Reopen a closed period, removing its closing entry
+CREATE OR REPLACE FUNCTION reopen_fiscal_period(p_period_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_period fiscal_periods%ROWTYPE;
+BEGIN
+    SELECT * INTO v_period FROM fiscal_periods WHERE id = p_period_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Fiscal period % not found', p_period_id;
+    END IF;
+
+    IF v_period.status <> 'closed' THEN
+        RAISE EXCEPTION 'Only closed periods can be reopened; % is %', v_period.name, v_period.status;
+    END IF;
+
+    IF v_period.closing_entry_id IS NOT NULL THEN
+        DELETE FROM journal_entries WHERE id = v_period.closing_entry_id;
+    END IF;
+
+    UPDATE fiscal_periods
+    SET status = 'open',
+        closing_entry_id = NULL,
+        closed_at = NULL,
+        closed_by = NULL
+    WHERE id = v_period.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 7. Lock and unlock
+-- A period must be closed before it is locked. Unlocking returns it to closed and needs
+-- the override permission.
+CREATE OR REPLACE FUNCTION lock_fiscal_period(
+    p_period_id TEXT,
+    p_locked_by TEXT DEFAULT 'system'
+) RETURNS VOID AS $$
+DECLARE
+    v_period fiscal_periods%ROWTYPE;
+BEGIN
+    SELECT * INTO v_period FROM fiscal_periods WHERE id = p_period_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Fiscal period % not found', p_period_id;
+    END IF;
+
+    IF v_period.status <> 'closed' THEN
+        RAISE EXCEPTION 'Close % before locking it', v_period.name;
+    END IF;
+
+    UPDATE fiscal_periods
+    SET status = 'locked',
+        locked_at = NOW(),
+        locked_by = p_locked_by
+    WHERE id = v_period.id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION unlock_fiscal_period(p_period_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_period fiscal_periods%ROWTYPE;
+BEGIN
+    SELECT * INTO v_period FROM fiscal_periods WHERE id = p_period_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Fiscal period % not found', p_period_id;
+    END IF;
+
+    IF v_period.status <> 'locked' THEN
+        RAISE EXCEPTION '% is not locked', v_period.name;
+    END IF;
+
+    IF NOT can_override_period_lock() THEN
+        RAISE EXCEPTION 'You do not have permission to unlock %', v_period.name
+            USING DETAIL = 'PERIOD_LOCKED';
+    END IF;
+
+    UPDATE fiscal_periods
+    SET status = 'closed',
+        locked_at = NULL,
+        locked_by = NULL
+    WHERE id = v_period.id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE fiscal_periods IS 'Accounting periods that can be closed (year-end closing entries) and locked against new postings';
+COMMENT ON FUNCTION close_fiscal_period IS 'Closes a fiscal period; closing a year moves revenue and expense balances into retained earnings';
+
+-- Success message
+SELECT 'Fiscal period tables and functions created successfully!' as message;
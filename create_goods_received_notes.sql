@@ -0,0 +1,853 @@
+-- Goods-received notes (GRNs)
+-- Every delivery against a purchase order is stored as its own GRN with the date it
+-- arrived, who received it, the warehouse it went into and the quantity of each line.
+-- purchase_items.received_quantity is kept equal to the sum of the active GRN lines,
+-- and the purchase status is derived from those sums.
+--
+-- post_goods_received_note: records a GRN, adds stock and posts the receipt journal
+--   (Dr Inventory, Cr Accounts Payable) in ONE transaction.
+-- cancel_goods_received_note: takes the GRN's stock back out and posts the reversing
+--   journal (Dr Accounts Payable, Cr Inventory) in ONE transaction.
+-- cancel_purchase: cancels a purchase nothing has been received on yet and records the
+--   'cancelled' timeline event in ONE transaction. A cancelled purchase takes no receipts.
+-- Lines of lot-tracked products carry a lot_number and expiry_date and are received
+-- into that lot; cancelling the GRN takes them back out of it (create_stock_lots.sql).
+-- Lines of serial-tracked products name one serial number per unit received; cancelling
+-- the GRN needs those units to still be in stock (create_serial_numbers.sql).
+-- Tax on the units received (at the purchase line's tax rate) is kept on each GRN line and
+-- posted as Dr Input Tax, Cr Accounts Payable; cancelling the GRN reverses it. The tax
+-- columns and create_tax_journal_entry come from create_tax_codes.sql.
+-- GRN lines keep the purchase's currency; the receipt, tax and reversing journals are
+-- converted to taka at the purchase's exchange rate (create_currencies.sql).
+-- Failures roll back every step and are reported as a typed error code:
+--   INVALID_RECEIPT, OVER_RECEIPT, GRN_NOT_FOUND, ALREADY_CANCELLED, RETURNED_ITEMS,
+--   INSUFFICIENT_STOCK, INVALID_LOT, INVALID_SERIAL, RECEIPT_INSERT_FAILED, STOCK_UPDATE_FAILED, JOURNAL_FAILED,
+--   PURCHASE_NOT_FOUND, PURCHASE_CANCELLED, GOODS_RECEIVED
+-- Requires fix_purchase_receipt_journal_function.sql
+
+-- 1. GRN header
+CREATE TABLE IF NOT EXISTS goods_received_notes (
+  id TEXT PRIMARY KEY DEFAULT 'GRN' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  purchase_id TEXT NOT NULL REFERENCES purchases(id) ON DELETE CASCADE,
+  warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  warehouse_name TEXT NOT NULL, -- Denormalized for performance
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  received_by TEXT NOT NULL,
+  total_quantity INTEGER NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  journal_entry_id TEXT,
+  reversal_journal_entry_id TEXT,
+  notes TEXT,
+  cancelled_at TIMESTAMPTZ,
+  cancelled_by TEXT,
+  cancel_reason TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. GRN lines
+CREATE TABLE IF NOT EXISTS goods_received_note_items (
+  id TEXT PRIMARY KEY DEFAULT 'GRNI' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  grn_id TEXT NOT NULL REFERENCES goods_received_notes(id) ON DELETE CASCADE,
+  purchase_item_id TEXT NOT NULL REFERENCES purchase_items(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL, -- Can be product_id or packaging_id
+  item_type TEXT NOT NULL CHECK (item_type IN ('product', 'package')),
+  item_name TEXT NOT NULL,
+  variation_id TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(12,2) NOT NULL CHECK (unit_cost >= 0),
+  total DECIMAL(12,2) NOT NULL CHECK (total >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_purchase_id ON goods_received_notes(purchase_id);
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_status ON goods_received_notes(status);
+CREATE INDEX IF NOT EXISTS idx_goods_received_note_items_grn_id ON goods_received_note_items(grn_id);
+CREATE INDEX IF NOT EXISTS idx_goods_received_note_items_purchase_item_id ON goods_received_note_items(purchase_item_id);
+
+-- 3. Link timeline events to the GRN they describe
+ALTER TABLE purchase_events
+ADD COLUMN IF NOT EXISTS grn_id TEXT REFERENCES goods_received_notes(id) ON DELETE SET NULL;
+
+ALTER TABLE purchase_events
+DROP CONSTRAINT IF EXISTS purchase_events_event_type_check;
+
+ALTER TABLE purchase_events
+ADD CONSTRAINT purchase_events_event_type_check
+CHECK (event_type IN (
+  'order_placed',
+  'partial_receipt',
+  'full_receipt',
+  'receipt_cancelled',
+  'partial_return',
+  'full_return',
+  'cancelled',
+  'status_change',
+  'balance_resolved',
+  'payment_made',
+  'payment_voided'
+));
+
+-- 4. Backfill: quantities received before GRNs existed become one opening GRN per purchase.
+-- Their receipt journals were already posted, so the opening GRN carries no journal of its own.
+INSERT INTO goods_received_notes (
+  id,
+  purchase_id,
+  warehouse_id,
+  warehouse_name,
+  received_date,
+  received_by,
+  total_quantity,
+  total_amount,
+  notes,
+  created_by
+)
+SELECT
+  'GRN-OPEN-' || p.id,
+  p.id,
+  p.warehouse_id,
+  p.warehouse_name,
+  COALESCE(p.last_updated::DATE, p.purchase_date),
+  p.created_by,
+  SUM(pi.received_quantity),
+  SUM(pi.received_quantity * pi.purchase_price),
+  'Receipts recorded before goods-received notes were introduced',
+  'system'
+FROM purchases p
+JOIN purchase_items pi ON pi.purchase_id = p.id
+WHERE pi.received_quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM goods_received_notes g WHERE g.purchase_id = p.id)
+GROUP BY p.id, p.warehouse_id, p.warehouse_name, p.last_updated, p.purchase_date, p.created_by;
+
+INSERT INTO goods_received_note_items (
+  grn_id,
+  purchase_item_id,
+  item_id,
+  item_type,
+  item_name,
+  variation_id,
+  quantity,
+  unit_cost,
+  total
+)
+SELECT
+  'GRN-OPEN-' || pi.purchase_id,
+  pi.id,
+  pi.item_id,
+  pi.item_type,
+  pi.item_name,
+  pi.variation_id,
+  pi.received_quantity,
+  pi.purchase_price,
+  pi.received_quantity * pi.purchase_price
+FROM purchase_items pi
+WHERE pi.received_quantity > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM goods_received_note_items gi WHERE gi.grn_id = 'GRN-OPEN-' || pi.purchase_id
+  );
+
+-- 5. Purchase receipt status from the active GRN lines
+-- Returned purchases keep the status the return process gave them, and cancelled ones stay cancelled.
+CREATE OR REPLACE FUNCTION sync_purchase_receipt_status(p_purchase_id TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_status TEXT;
+    v_total_ordered INTEGER;
+    v_total_received INTEGER;
+BEGIN
+    SELECT status INTO v_status FROM purchases WHERE id = p_purchase_id;
+
+    IF v_status IN ('partially_returned', 'returned', 'cancelled') THEN
+        RETURN v_status;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0), COALESCE(SUM(received_quantity), 0)
+    INTO v_total_ordered, v_total_received
+    FROM purchase_items
+    WHERE purchase_id = p_purchase_id;
+
+    v_status := CASE
+        WHEN v_total_received = 0 THEN 'pending'
+        WHEN v_total_received >= v_total_ordered THEN 'received'
+        ELSE 'partially_received'
+    END;
+
+    UPDATE purchases
+    SET status = v_status,
+        last_updated = NOW(),
+        updated_at = NOW()
+    WHERE id = p_purchase_id;
+
+    RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Post a GRN
+CREATE OR REPLACE FUNCTION post_goods_received_note(
+    p_grn JSONB,
+    p_items JSONB,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'VALIDATION';
+    v_grn_id TEXT;
+    v_purchase purchases%ROWTYPE;
+    v_purchase_item purchase_items%ROWTYPE;
+    v_warehouse_id TEXT;
+    v_warehouse_name TEXT;
+    v_received_date DATE;
+    v_received_by TEXT;
+    v_item JSONB;
+    v_quantity INTEGER;
+    v_grn_item_id TEXT;
+    v_track_lots BOOLEAN;
+    v_track_serials BOOLEAN;
+    v_serials TEXT[];
+    v_lot_id TEXT;
+    v_total_quantity INTEGER := 0;
+    v_total_amount DECIMAL := 0;
+    v_line_tax DECIMAL;
+    v_tax_amount DECIMAL := 0;
+    v_exchange_rate DECIMAL;
+    v_journal_entry_id TEXT;
+    v_tax_journal_id TEXT;
+    v_status TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT * INTO v_purchase
+        FROM purchases
+        WHERE id = p_grn->>'purchase_id'
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Purchase % not found', p_grn->>'purchase_id' USING DETAIL = 'INVALID_RECEIPT';
+        END IF;
+
+        IF v_purchase.status = 'cancelled' THEN
+            RAISE EXCEPTION 'Purchase % is cancelled and cannot receive goods', v_purchase.id
+                USING DETAIL = 'PURCHASE_CANCELLED';
+        END IF;
+
+        IF v_purchase.status = 'returned' THEN
+            RAISE EXCEPTION 'Purchase % is returned and cannot receive goods', v_purchase.id
+                USING DETAIL = 'INVALID_RECEIPT';
+        END IF;
+
+        IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+            RAISE EXCEPTION 'A goods-received note needs at least one line' USING DETAIL = 'INVALID_RECEIPT';
+        END IF;
+
+        v_warehouse_id := COALESCE(p_grn->>'warehouse_id', v_purchase.warehouse_id);
+        v_warehouse_name := p_grn->>'warehouse_name';
+        v_received_date := COALESCE((p_grn->>'received_date')::DATE, CURRENT_DATE);
+        v_received_by := COALESCE(NULLIF(p_grn->>'received_by', ''), p_created_by);
+
+        IF v_warehouse_name IS NULL THEN
+            SELECT name INTO v_warehouse_name FROM warehouses WHERE id = v_warehouse_id;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Warehouse % not found', v_warehouse_id USING DETAIL = 'INVALID_RECEIPT';
+            END IF;
+        END IF;
+
+        -- Header first so lines and stock movements can reference it
+        v_stage := 'RECEIPT_INSERT_FAILED';
+        INSERT INTO goods_received_notes (
+            purchase_id,
+            warehouse_id,
+            warehouse_name,
+            received_date,
+            received_by,
+            notes,
+            created_by
+        ) VALUES (
+            v_purchase.id,
+            v_warehouse_id,
+            v_warehouse_name,
+            v_received_date,
+            v_received_by,
+            p_grn->>'notes',
+            p_created_by
+        ) RETURNING id INTO v_grn_id;
+
+        FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+        LOOP
+            v_stage := 'VALIDATION';
+            v_quantity := COALESCE((v_item->>'quantity')::INTEGER, 0);
+
+            IF v_quantity <= 0 THEN
+                RAISE EXCEPTION 'Received quantities must be greater than zero' USING DETAIL = 'INVALID_RECEIPT';
+            END IF;
+
+            SELECT * INTO v_purchase_item
+            FROM purchase_items
+            WHERE id = v_item->>'purchase_item_id'
+              AND purchase_id = v_purchase.id
+            FOR UPDATE;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Line % does not belong to purchase %', v_item->>'purchase_item_id', v_purchase.id
+                    USING DETAIL = 'INVALID_RECEIPT';
+            END IF;
+
+            IF v_purchase_item.received_quantity + v_quantity > v_purchase_item.quantity THEN
+                RAISE EXCEPTION 'Cannot receive % of %. Ordered: %, already received: %',
+                    v_quantity, v_purchase_item.item_name, v_purchase_item.quantity, v_purchase_item.received_quantity
+                    USING DETAIL = 'OVER_RECEIPT';
+            END IF;
+
+            v_line_tax := ROUND(v_quantity * v_purchase_item.purchase_price * COALESCE(v_purchase_item.tax_rate, 0) / 100, 2);
+
+            v_stage := 'RECEIPT_INSERT_FAILED';
+            INSERT INTO goods_received_note_items (
+                grn_id,
+                purchase_item_id,
+                item_id,
+                item_type,
+                item_name,
+                variation_id,
+                quantity,
+                unit_cost,
+                total,
+                tax_amount,
+                lot_number,
+                expiry_date
+            ) VALUES (
+                v_grn_id,
+                v_purchase_item.id,
+                v_purchase_item.item_id,
+                v_purchase_item.item_type,
+                v_purchase_item.item_name,
+                v_purchase_item.variation_id,
+                v_quantity,
+                v_purchase_item.purchase_price,
+                v_quantity * v_purchase_item.purchase_price,
+                v_line_tax,
+                NULLIF(TRIM(v_item->>'lot_number'), ''),
+                (v_item->>'expiry_date')::DATE
+            ) RETURNING id INTO v_grn_item_id;
+
+            UPDATE purchase_items
+            SET received_quantity = received_quantity + v_quantity,
+                updated_at = NOW()
+            WHERE id = v_purchase_item.id;
+
+            v_stage := 'STOCK_UPDATE_FAILED';
+            v_track_lots := false;
+            v_track_serials := false;
+            IF v_purchase_item.item_type = 'product' THEN
+                SELECT track_lots, track_serials INTO v_track_lots, v_track_serials
+                FROM products
+                WHERE id = v_purchase_item.item_id;
+            END IF;
+
+            IF v_track_lots THEN
+                -- Lot-tracked products are received into the lot named on the line
+                v_lot_id := receive_stock_lot(
+                    v_purchase_item.item_id,
+                    v_purchase_item.variation_id,
+                    v_warehouse_id,
+                    v_item->>'lot_number',
+                    (v_item->>'expiry_date')::DATE,
+                    v_quantity,
+                    'purchase',
+                    v_grn_id,
+                    'Goods received - ' || v_grn_id || ' (PO: ' || v_purchase.id || ')',
+                    p_created_by,
+                    p_grn->>'notes'
+                );
+
+                UPDATE goods_received_note_items
+                SET lot_id = v_lot_id
+                WHERE id = v_grn_item_id;
+            ELSIF v_purchase_item.item_type = 'product' THEN
+                PERFORM update_warehouse_stock(
+                    v_purchase_item.item_id,
+                    v_warehouse_id,
+                    v_purchase_item.variation_id,
+                    v_quantity,
+                    'purchase',
+                    v_grn_id,
+                    'Goods received - ' || v_grn_id || ' (PO: ' || v_purchase.id || ')',
+                    p_created_by,
+                    p_grn->>'notes'
+                );
+            ELSE
+                PERFORM update_packaging_warehouse_stock(
+                    v_purchase_item.item_id,
+                    v_warehouse_id,
+                    v_purchase_item.variation_id,
+                    v_quantity,
+                    'purchase',
+                    v_grn_id,
+                    'Goods received - ' || v_grn_id || ' (PO: ' || v_purchase.id || ')',
+                    p_created_by,
+                    p_grn->>'notes'
+                );
+            END IF;
+
+            IF v_track_serials THEN
+                -- One serial number per unit received
+                v_serials := parse_serial_numbers(v_item->'serial_numbers', v_quantity, v_purchase_item.item_name);
+
+                PERFORM receive_serial_numbers(
+                    v_purchase_item.item_id,
+                    v_purchase_item.variation_id,
+                    v_warehouse_id,
+                    v_serials,
+                    v_grn_item_id,
+                    v_grn_id,
+                    p_created_by,
+                    p_grn->>'notes'
+                );
+
+                UPDATE goods_received_note_items
+                SET serial_numbers = v_serials
+                WHERE id = v_grn_item_id;
+            END IF;
+
+            v_total_quantity := v_total_quantity + v_quantity;
+            v_total_amount := v_total_amount + v_quantity * v_purchase_item.purchase_price;
+            v_tax_amount := v_tax_amount + v_line_tax;
+        END LOOP;
+
+        v_status := sync_purchase_receipt_status(v_purchase.id);
+
+        -- Receipt journal (Dr Inventory, Cr Accounts Payable), referenced by the GRN id.
+        -- Journals are in taka, at the rate the purchase was made at.
+        v_stage := 'JOURNAL_FAILED';
+        v_exchange_rate := COALESCE(v_purchase.exchange_rate, 1);
+        IF v_total_amount > 0 THEN
+            v_journal_entry_id := create_purchase_receipt_journal_entry(
+                v_grn_id,
+                v_purchase.id,
+                v_purchase.supplier_name,
+                ROUND(v_total_amount * v_exchange_rate, 2),
+                v_received_date,
+                p_created_by
+            );
+        END IF;
+
+        -- Input tax (Dr Input Tax, Cr Accounts Payable)
+        v_tax_journal_id := create_tax_journal_entry(
+            'purchase_tax',
+            v_grn_id,
+            'Input tax - ' || v_purchase.supplier_name || ' (GRN: ' || v_grn_id || ')',
+            ROUND(v_tax_amount * v_exchange_rate, 2),
+            v_received_date,
+            p_created_by
+        );
+
+        v_stage := 'RECEIPT_INSERT_FAILED';
+        UPDATE goods_received_notes
+        SET total_quantity = v_total_quantity,
+            total_amount = v_total_amount,
+            tax_amount = v_tax_amount,
+            journal_entry_id = v_journal_entry_id
+        WHERE id = v_grn_id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'INVALID_RECEIPT', 'OVER_RECEIPT', 'PURCHASE_CANCELLED', 'INVALID_LOT', 'INVALID_SERIAL',
+                'RECEIPT_INSERT_FAILED', 'STOCK_UPDATE_FAILED', 'JOURNAL_FAILED'
+            ) THEN
+                v_error_code := CASE WHEN v_stage = 'VALIDATION' THEN 'INVALID_RECEIPT' ELSE v_stage END;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'grn_id', v_grn_id,
+        'purchase_status', v_status,
+        'total_quantity', v_total_quantity,
+        'total_amount', v_total_amount,
+        'tax_amount', v_tax_amount,
+        'journal_entry_id', v_journal_entry_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION post_goods_received_note IS 'Records a goods-received note with its stock movements and receipt journal atomically';
+
+-- 7. Cancel a GRN
+CREATE OR REPLACE FUNCTION cancel_goods_received_note(
+    p_grn_id TEXT,
+    p_reason TEXT DEFAULT NULL,
+    p_cancelled_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'VALIDATION';
+    v_grn goods_received_notes%ROWTYPE;
+    v_grn_item goods_received_note_items%ROWTYPE;
+    v_purchase purchases%ROWTYPE;
+    v_purchase_item purchase_items%ROWTYPE;
+    v_available INTEGER;
+    v_inventory_account_id TEXT;
+    v_payable_account_id TEXT;
+    v_reversal_journal_id TEXT;
+    v_tax_reversal_journal_id TEXT;
+    v_base_amount DECIMAL;
+    v_status TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT * INTO v_grn
+        FROM goods_received_notes
+        WHERE id = p_grn_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Goods-received note % not found', p_grn_id USING DETAIL = 'GRN_NOT_FOUND';
+        END IF;
+
+        IF v_grn.status = 'cancelled' THEN
+            RAISE EXCEPTION 'Goods-received note % is already cancelled', p_grn_id USING DETAIL = 'ALREADY_CANCELLED';
+        END IF;
+
+        SELECT * INTO v_purchase
+        FROM purchases
+        WHERE id = v_grn.purchase_id
+        FOR UPDATE;
+
+        FOR v_grn_item IN
+            SELECT * FROM goods_received_note_items WHERE grn_id = v_grn.id
+        LOOP
+            v_stage := 'VALIDATION';
+
+            SELECT * INTO v_purchase_item
+            FROM purchase_items
+            WHERE id = v_grn_item.purchase_item_id
+            FOR UPDATE;
+
+            -- Units already sent back to the supplier can't be un-received
+            IF v_purchase_item.received_quantity - v_grn_item.quantity < COALESCE(v_purchase_item.returned_quantity, 0) THEN
+                RAISE EXCEPTION 'Cannot cancel the receipt of % %: % already returned to the supplier',
+                    v_grn_item.quantity, v_grn_item.item_name, v_purchase_item.returned_quantity
+                    USING DETAIL = 'RETURNED_ITEMS';
+            END IF;
+
+            -- The received units must still be on the shelf
+            IF v_grn_item.item_type = 'product' THEN
+                SELECT current_stock - reserved_stock INTO v_available
+                FROM product_warehouse_stock
+                WHERE product_id = v_grn_item.item_id
+                  AND warehouse_id = v_grn.warehouse_id
+                  AND (
+                    (v_grn_item.variation_id IS NULL AND variation_id IS NULL) OR
+                    (variation_id = v_grn_item.variation_id)
+                  )
+                FOR UPDATE;
+            ELSE
+                SELECT current_stock - reserved_stock INTO v_available
+                FROM packaging_warehouse_stock
+                WHERE packaging_id = v_grn_item.item_id
+                  AND warehouse_id = v_grn.warehouse_id
+                  AND (
+                    (v_grn_item.variation_id IS NULL AND variation_id IS NULL) OR
+                    (variation_id = v_grn_item.variation_id)
+                  )
+                FOR UPDATE;
+            END IF;
+
+            IF COALESCE(v_available, 0) < v_grn_item.quantity THEN
+                RAISE EXCEPTION 'Only % of % received on % are still in %',
+                    COALESCE(v_available, 0), v_grn_item.item_name, v_grn.id, v_grn.warehouse_name
+                    USING DETAIL = 'INSUFFICIENT_STOCK';
+            END IF;
+
+            v_stage := 'RECEIPT_INSERT_FAILED';
+            UPDATE purchase_items
+            SET received_quantity = received_quantity - v_grn_item.quantity,
+                updated_at = NOW()
+            WHERE id = v_purchase_item.id;
+
+            v_stage := 'STOCK_UPDATE_FAILED';
+            IF v_grn_item.lot_id IS NOT NULL THEN
+                -- Units still have to be in the lot they were received into
+                PERFORM update_lot_stock(
+                    v_grn_item.lot_id,
+                    -v_grn_item.quantity,
+                    'purchase',
+                    v_grn.id,
+                    'Goods receipt cancelled - ' || v_grn.id || ' (PO: ' || v_grn.purchase_id || ')',
+                    p_cancelled_by,
+                    p_reason
+                );
+
+                UPDATE stock_lots
+                SET received_quantity = received_quantity - v_grn_item.quantity
+                WHERE id = v_grn_item.lot_id;
+            ELSIF v_grn_item.item_type = 'product' THEN
+                PERFORM update_warehouse_stock(
+                    v_grn_item.item_id,
+                    v_grn.warehouse_id,
+                    v_grn_item.variation_id,
+                    -v_grn_item.quantity,
+                    'purchase',
+                    v_grn.id,
+                    'Goods receipt cancelled - ' || v_grn.id || ' (PO: ' || v_grn.purchase_id || ')',
+                    p_cancelled_by,
+                    p_reason
+                );
+            ELSE
+                PERFORM update_packaging_warehouse_stock(
+                    v_grn_item.item_id,
+                    v_grn.warehouse_id,
+                    v_grn_item.variation_id,
+                    -v_grn_item.quantity,
+                    'purchase',
+                    v_grn.id,
+                    'Goods receipt cancelled - ' || v_grn.id || ' (PO: ' || v_grn.purchase_id || ')',
+                    p_cancelled_by,
+                    p_reason
+                );
+            END IF;
+
+            IF v_grn_item.serial_numbers IS NOT NULL THEN
+                -- Every unit received has to still be here, not sold or sent elsewhere
+                PERFORM move_serial_numbers(
+                    v_grn_item.item_id,
+                    v_grn_item.variation_id,
+                    v_grn_item.serial_numbers,
+                    'in_stock',
+                    v_grn.warehouse_id,
+                    NULL,
+                    'removed',
+                    NULL,
+                    NULL,
+                    'receipt_cancelled',
+                    v_grn.id,
+                    p_cancelled_by,
+                    p_reason
+                );
+            END IF;
+        END LOOP;
+
+        v_status := sync_purchase_receipt_status(v_grn.purchase_id);
+
+        -- Reversing journal (Dr Accounts Payable, Cr Inventory), in taka at the purchase's rate
+        v_stage := 'JOURNAL_FAILED';
+        v_base_amount := ROUND(v_grn.total_amount * COALESCE(v_purchase.exchange_rate, 1), 2);
+        IF v_base_amount > 0 THEN
+            SELECT id INTO v_inventory_account_id FROM accounts WHERE account_name = 'Inventory' LIMIT 1;
+            SELECT id INTO v_payable_account_id FROM accounts WHERE account_name = 'Accounts Payable' LIMIT 1;
+
+            IF v_inventory_account_id IS NULL OR v_payable_account_id IS NULL THEN
+                RAISE EXCEPTION 'Inventory and Accounts Payable accounts are required to reverse a receipt'
+                    USING DETAIL = 'JOURNAL_FAILED';
+            END IF;
+
+            INSERT INTO journal_entries (
+                entry_number,
+                description,
+                reference_type,
+                reference_id,
+                entry_date,
+                total_amount,
+                status,
+                created_by
+            ) VALUES (
+                'JE-RECEIPT-REV-' || v_grn.purchase_id || '-' || EXTRACT(EPOCH FROM NOW())::bigint::text,
+                'Purchase Receipt Cancelled - ' || v_purchase.supplier_name || ' (GRN: ' || v_grn.id || ')',
+                'purchase_receipt_reversal',
+                v_grn.id,
+                CURRENT_DATE,
+                v_base_amount,
+                'posted',
+                p_cancelled_by
+            ) RETURNING id INTO v_reversal_journal_id;
+
+            INSERT INTO journal_entry_lines (
+                journal_entry_id,
+                line_number,
+                account_id,
+                description,
+                debit_amount,
+                credit_amount
+            ) VALUES
+            (
+                v_reversal_journal_id,
+                1,
+                v_payable_account_id,
+                'Receipt cancelled - no longer owed to ' || v_purchase.supplier_name,
+                v_base_amount,
+                0
+            ),
+            (
+                v_reversal_journal_id,
+                2,
+                v_inventory_account_id,
+                'Inventory receipt reversed for ' || v_purchase.supplier_name,
+                0,
+                v_base_amount
+            );
+        END IF;
+
+        -- Input tax reversal (Dr Accounts Payable, Cr Input Tax)
+        v_tax_reversal_journal_id := create_tax_journal_entry(
+            'purchase_tax_reversal',
+            v_grn.id,
+            'Input tax reversed - ' || v_purchase.supplier_name || ' (GRN: ' || v_grn.id || ')',
+            ROUND(v_grn.tax_amount * COALESCE(v_purchase.exchange_rate, 1), 2),
+            CURRENT_DATE,
+            p_cancelled_by
+        );
+
+        v_stage := 'RECEIPT_INSERT_FAILED';
+        UPDATE goods_received_notes
+        SET status = 'cancelled',
+            cancelled_at = NOW(),
+            cancelled_by = p_cancelled_by,
+            cancel_reason = p_reason,
+            reversal_journal_entry_id = v_reversal_journal_id,
+            updated_at = NOW()
+        WHERE id = v_grn.id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'GRN_NOT_FOUND', 'ALREADY_CANCELLED', 'RETURNED_ITEMS', 'INSUFFICIENT_STOCK', 'INVALID_LOT', 'INVALID_SERIAL',
+                'RECEIPT_INSERT_FAILED', 'STOCK_UPDATE_FAILED', 'JOURNAL_FAILED'
+            ) THEN
+                v_error_code := CASE WHEN v_stage = 'VALIDATION' THEN 'INVALID_RECEIPT' ELSE v_stage END;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'grn_id', v_grn.id,
+        'purchase_status', v_status,
+        'reversal_journal_entry_id', v_reversal_journal_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION cancel_goods_received_note IS 'Cancels a goods-received note, reversing its stock and receipt journal atomically';
+
+-- 8. Cancel a purchase
+-- Only a purchase with nothing received can be cancelled; goods already received are
+-- taken back by cancelling their GRNs first. Nothing was posted for it, so there is no
+-- journal to reverse.
+CREATE OR REPLACE FUNCTION cancel_purchase(
+    p_purchase_id TEXT,
+    p_reason TEXT DEFAULT NULL,
+    p_cancelled_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_purchase purchases%ROWTYPE;
+    v_total_received INTEGER;
+    v_total_items INTEGER;
+    v_event_id TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT * INTO v_purchase
+        FROM purchases
+        WHERE id = p_purchase_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Purchase % not found', p_purchase_id USING DETAIL = 'PURCHASE_NOT_FOUND';
+        END IF;
+
+        IF v_purchase.status = 'cancelled' THEN
+            RAISE EXCEPTION 'Purchase % is already cancelled', p_purchase_id USING DETAIL = 'PURCHASE_CANCELLED';
+        END IF;
+
+        SELECT COALESCE(SUM(received_quantity), 0), COUNT(*)
+        INTO v_total_received, v_total_items
+        FROM purchase_items
+        WHERE purchase_id = p_purchase_id;
+
+        IF v_total_received > 0 OR v_purchase.status <> 'pending' THEN
+            RAISE EXCEPTION 'Purchase % has goods received; cancel its goods-received notes first', p_purchase_id
+                USING DETAIL = 'GOODS_RECEIVED';
+        END IF;
+
+        UPDATE purchases
+        SET status = 'cancelled',
+            last_updated = NOW(),
+            updated_at = NOW()
+        WHERE id = p_purchase_id;
+
+        INSERT INTO purchase_events (
+            purchase_id,
+            event_type,
+            event_title,
+            event_description,
+            previous_status,
+            new_status,
+            affected_items_count,
+            total_items_count,
+            created_by
+        ) VALUES (
+            p_purchase_id,
+            'cancelled',
+            'Purchase Cancelled',
+            'Purchase cancelled before any goods were received' || COALESCE(' - ' || NULLIF(TRIM(p_reason), ''), ''),
+            v_purchase.status,
+            'cancelled',
+            v_total_items,
+            v_total_items,
+            p_cancelled_by
+        ) RETURNING id INTO v_event_id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'PURCHASE_NOT_FOUND', 'PURCHASE_CANCELLED', 'GOODS_RECEIVED'
+            ) THEN
+                v_error_code := 'INVALID_RECEIPT';
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'purchase_id', p_purchase_id,
+        'purchase_status', 'cancelled',
+        'event_id', v_event_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION cancel_purchase IS 'Cancels a purchase with nothing received and records its timeline event atomically';
+
+-- Success message
+SELECT 'Goods-received notes created successfully!' as message;
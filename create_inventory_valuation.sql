@@ -0,0 +1,507 @@
+-- Inventory valuation and cost of goods sold
+-- Every goods receipt opens a cost layer per warehouse at the price actually paid.
+-- Sales draw cost out of those layers using the company's valuation method:
+--   fifo            - oldest layers first, each unit at the price of its layer
+--   moving_average  - the running average cost of the item in that warehouse
+-- Every unit moved in or out is also written to inventory_cost_movements with its cost,
+-- so the value on hand at any past date is the sum of the movements up to that date.
+--
+-- post_sale records the cost of each sale line and posts Dr Cost of Goods Sold, Cr Inventory.
+-- process_return puts returned units back at the cost they were sold at and posts the reverse.
+-- Goods-received note lines open their layers through a trigger, and cancelling the
+-- note takes its own layers back out first. Layers are costed in taka, converting
+-- lines of foreign-currency purchases at the purchase's exchange rate (create_currencies.sql).
+-- When an item has no layers left (stock adjusted outside a receipt), the warehouse
+-- buying_price is used for the shortfall.
+-- Requires create_company_settings.sql, create_goods_received_notes.sql
+-- Run create_post_sale_function.sql and create_process_return_function.sql again afterwards
+
+-- 1. Valuation method, picked on the Settings page
+ALTER TABLE company_settings
+ADD COLUMN IF NOT EXISTS inventory_valuation_method TEXT NOT NULL DEFAULT 'fifo'
+CHECK (inventory_valuation_method IN ('fifo', 'moving_average'));
+
+COMMENT ON COLUMN company_settings.inventory_valuation_method IS 'How issued stock is costed: fifo or moving_average';
+
+-- 2. Cost layers: what is left of each receipt, per warehouse
+CREATE TABLE IF NOT EXISTS inventory_cost_layers (
+  id TEXT PRIMARY KEY DEFAULT 'LAYER' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  item_type TEXT NOT NULL CHECK (item_type IN ('product', 'package')),
+  item_id TEXT NOT NULL, -- Can be product_id or packaging_id
+  variation_id TEXT,
+  warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL CHECK (source_type IN ('opening', 'receipt', 'return', 'adjustment')),
+  source_id TEXT,
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  unit_cost DECIMAL(12,4) NOT NULL CHECK (unit_cost >= 0),
+  original_quantity INTEGER NOT NULL CHECK (original_quantity > 0),
+  remaining_quantity INTEGER NOT NULL CHECK (remaining_quantity >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (remaining_quantity <= original_quantity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_item
+ON inventory_cost_layers(item_type, item_id, warehouse_id, received_date)
+WHERE remaining_quantity > 0;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_source ON inventory_cost_layers(source_type, source_id);
+
+-- 3. Cost movements: signed quantity and value of every unit in or out
+CREATE TABLE IF NOT EXISTS inventory_cost_movements (
+  id TEXT PRIMARY KEY DEFAULT 'ICM' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  layer_id TEXT REFERENCES inventory_cost_layers(id) ON DELETE SET NULL,
+  item_type TEXT NOT NULL CHECK (item_type IN ('product', 'package')),
+  item_id TEXT NOT NULL,
+  variation_id TEXT,
+  warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('opening', 'purchase', 'sale', 'return', 'adjustment', 'transfer')),
+  reference_id TEXT,
+  reference_line_id TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity <> 0), -- Positive in, negative out
+  unit_cost DECIMAL(12,4) NOT NULL,
+  total_cost DECIMAL(14,4) NOT NULL, -- Signed like quantity
+  movement_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_movements_item
+ON inventory_cost_movements(item_type, item_id, warehouse_id, movement_date);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_movements_reference ON inventory_cost_movements(reference_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_movements_line ON inventory_cost_movements(reference_line_id);
+
+-- 4. Cost of each sale and return line
+ALTER TABLE sale_items
+ADD COLUMN IF NOT EXISTS cost_amount DECIMAL(12,2);
+
+ALTER TABLE return_items
+ADD COLUMN IF NOT EXISTS cost_amount DECIMAL(12,2);
+
+COMMENT ON COLUMN sale_items.cost_amount IS 'Cost of the product and packaging issued for this line';
+COMMENT ON COLUMN return_items.cost_amount IS 'Cost of the returned units, taken from the original sale line';
+
+-- 5. Opening layers: stock already on hand is valued at its warehouse buying_price
+INSERT INTO inventory_cost_layers (item_type, item_id, variation_id, warehouse_id, source_type, unit_cost, original_quantity, remaining_quantity)
+SELECT 'product', pws.product_id, pws.variation_id, pws.warehouse_id, 'opening', COALESCE(pws.buying_price, 0), pws.current_stock, pws.current_stock
+FROM product_warehouse_stock pws
+WHERE pws.current_stock > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM inventory_cost_layers l
+    WHERE l.item_type = 'product'
+      AND l.item_id = pws.product_id
+      AND l.warehouse_id = pws.warehouse_id
+      AND l.variation_id IS NOT DISTINCT FROM pws.variation_id
+  );
+
+INSERT INTO inventory_cost_layers (item_type, item_id, variation_id, warehouse_id, source_type, unit_cost, original_quantity, remaining_quantity)
+SELECT 'package', pws.packaging_id, pws.variation_id, pws.warehouse_id, 'opening', COALESCE(pws.buying_price, 0), pws.current_stock, pws.current_stock
+FROM packaging_warehouse_stock pws
+WHERE pws.current_stock > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM inventory_cost_layers l
+    WHERE l.item_type = 'package'
+      AND l.item_id = pws.packaging_id
+      AND l.warehouse_id = pws.warehouse_id
+      AND l.variation_id IS NOT DISTINCT FROM pws.variation_id
+  );
+
+INSERT INTO inventory_cost_movements (layer_id, item_type, item_id, variation_id, warehouse_id, movement_type, quantity, unit_cost, total_cost, movement_date)
+SELECT l.id, l.item_type, l.item_id, l.variation_id, l.warehouse_id, 'opening', l.original_quantity, l.unit_cost, l.original_quantity * l.unit_cost, l.received_date
+FROM inventory_cost_layers l
+WHERE l.source_type = 'opening'
+  AND NOT EXISTS (SELECT 1 FROM inventory_cost_movements m WHERE m.layer_id = l.id);
+
+-- 6. Current valuation method
+CREATE OR REPLACE FUNCTION get_inventory_valuation_method()
+RETURNS TEXT AS $$
+    SELECT COALESCE(
+        (SELECT inventory_valuation_method FROM company_settings WHERE id = 'default'),
+        'fifo'
+    );
+$$ LANGUAGE sql STABLE;
+
+-- 7. Put units into stock at a known cost (receipts, returns)
+-- Opens a layer and records the inbound movement. Returns the layer id.
+CREATE OR REPLACE FUNCTION receive_inventory_cost(
+    p_item_type TEXT,
+    p_item_id TEXT,
+    p_variation_id TEXT,
+    p_warehouse_id TEXT,
+    p_quantity INTEGER,
+    p_unit_cost DECIMAL,
+    p_source_type TEXT,
+    p_source_id TEXT,
+    p_source_line_id TEXT DEFAULT NULL,
+    p_date DATE DEFAULT CURRENT_DATE
+) RETURNS TEXT AS $$
+DECLARE
+    v_layer_id TEXT;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO inventory_cost_layers (
+        item_type,
+        item_id,
+        variation_id,
+        warehouse_id,
+        source_type,
+        source_id,
+        received_date,
+        unit_cost,
+        original_quantity,
+        remaining_quantity
+    ) VALUES (
+        p_item_type,
+        p_item_id,
+        p_variation_id,
+        p_warehouse_id,
+        p_source_type,
+        p_source_id,
+        COALESCE(p_date, CURRENT_DATE),
+        COALESCE(p_unit_cost, 0),
+        p_quantity,
+        p_quantity
+    ) RETURNING id INTO v_layer_id;
+
+    INSERT INTO inventory_cost_movements (
+        layer_id,
+        item_type,
+        item_id,
+        variation_id,
+        warehouse_id,
+        movement_type,
+        reference_id,
+        reference_line_id,
+        quantity,
+        unit_cost,
+        total_cost,
+        movement_date
+    ) VALUES (
+        v_layer_id,
+        p_item_type,
+        p_item_id,
+        p_variation_id,
+        p_warehouse_id,
+        CASE p_source_type WHEN 'receipt' THEN 'purchase' ELSE p_source_type END,
+        p_source_id,
+        p_source_line_id,
+        p_quantity,
+        COALESCE(p_unit_cost, 0),
+        p_quantity * COALESCE(p_unit_cost, 0),
+        COALESCE(p_date, CURRENT_DATE)
+    );
+
+    RETURN v_layer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 8. Take units out of stock and return their total cost (sales, cancelled receipts)
+-- Layers are drawn oldest first to track what is left of each receipt. Under fifo each
+-- unit is costed at its layer's price; under moving_average at the item's average cost.
+-- p_preferred_source_id drains that source's layer first (a cancelled receipt takes
+-- back its own units).
+CREATE OR REPLACE FUNCTION issue_inventory_cost(
+    p_item_type TEXT,
+    p_item_id TEXT,
+    p_variation_id TEXT,
+    p_warehouse_id TEXT,
+    p_quantity INTEGER,
+    p_movement_type TEXT,
+    p_reference_id TEXT,
+    p_reference_line_id TEXT DEFAULT NULL,
+    p_date DATE DEFAULT CURRENT_DATE,
+    p_preferred_source_id TEXT DEFAULT NULL
+) RETURNS DECIMAL AS $$
+DECLARE
+    v_method TEXT;
+    v_average_cost DECIMAL;
+    v_fallback_cost DECIMAL;
+    v_remaining INTEGER;
+    v_take INTEGER;
+    v_unit_cost DECIMAL;
+    v_total_cost DECIMAL := 0;
+    v_layer inventory_cost_layers%ROWTYPE;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RETURN 0;
+    END IF;
+
+    v_method := get_inventory_valuation_method();
+    v_remaining := p_quantity;
+
+    -- Used when the layers run out
+    IF p_item_type = 'product' THEN
+        SELECT buying_price INTO v_fallback_cost
+        FROM product_warehouse_stock
+        WHERE product_id = p_item_id
+          AND warehouse_id = p_warehouse_id
+          AND variation_id IS NOT DISTINCT FROM p_variation_id
+        LIMIT 1;
+    ELSE
+        SELECT buying_price INTO v_fallback_cost
+        FROM packaging_warehouse_stock
+        WHERE packaging_id = p_item_id
+          AND warehouse_id = p_warehouse_id
+          AND variation_id IS NOT DISTINCT FROM p_variation_id
+        LIMIT 1;
+    END IF;
+
+    v_fallback_cost := COALESCE(v_fallback_cost, 0);
+
+    IF v_method = 'moving_average' THEN
+        SELECT CASE WHEN SUM(quantity) > 0 THEN SUM(total_cost) / SUM(quantity) END
+        INTO v_average_cost
+        FROM inventory_cost_movements
+        WHERE item_type = p_item_type
+          AND item_id = p_item_id
+          AND warehouse_id = p_warehouse_id
+          AND variation_id IS NOT DISTINCT FROM p_variation_id;
+
+        v_average_cost := COALESCE(v_average_cost, v_fallback_cost);
+    END IF;
+
+    FOR v_layer IN
+        SELECT *
+        FROM inventory_cost_layers
+        WHERE item_type = p_item_type
+          AND item_id = p_item_id
+          AND warehouse_id = p_warehouse_id
+          AND variation_id IS NOT DISTINCT FROM p_variation_id
+          AND remaining_quantity > 0
+        ORDER BY (source_id IS NOT DISTINCT FROM p_preferred_source_id) DESC, received_date, created_at, id
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_remaining = 0;
+
+        v_take := LEAST(v_remaining, v_layer.remaining_quantity);
+        v_unit_cost := CASE WHEN v_method = 'moving_average' THEN v_average_cost ELSE v_layer.unit_cost END;
+
+        UPDATE inventory_cost_layers
+        SET remaining_quantity = remaining_quantity - v_take
+        WHERE id = v_layer.id;
+
+        INSERT INTO inventory_cost_movements (
+            layer_id, item_type, item_id, variation_id, warehouse_id, movement_type,
+            reference_id, reference_line_id, quantity, unit_cost, total_cost, movement_date
+        ) VALUES (
+            v_layer.id, p_item_type, p_item_id, p_variation_id, p_warehouse_id, p_movement_type,
+            p_reference_id, p_reference_line_id, -v_take, v_unit_cost, -(v_take * v_unit_cost), COALESCE(p_date, CURRENT_DATE)
+        );
+
+        v_total_cost := v_total_cost + v_take * v_unit_cost;
+        v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    -- Units with no layer behind them
+    IF v_remaining > 0 THEN
+        v_unit_cost := CASE WHEN v_method = 'moving_average' THEN v_average_cost ELSE v_fallback_cost END;
+
+        INSERT INTO inventory_cost_movements (
+            layer_id, item_type, item_id, variation_id, warehouse_id, movement_type,
+            reference_id, reference_line_id, quantity, unit_cost, total_cost, movement_date
+        ) VALUES (
+            NULL, p_item_type, p_item_id, p_variation_id, p_warehouse_id, p_movement_type,
+            p_reference_id, p_reference_line_id, -v_remaining, v_unit_cost, -(v_remaining * v_unit_cost), COALESCE(p_date, CURRENT_DATE)
+        );
+
+        v_total_cost := v_total_cost + v_remaining * v_unit_cost;
+    END IF;
+
+    RETURN ROUND(v_total_cost, 2);
+END;
+$$ LANGUAGE plpgsql;
+
+-- 9. Cost of goods sold journal
+-- 'sale_cogs':   Dr Cost of Goods Sold, Cr Inventory
+-- 'return_cogs': Dr Inventory, Cr Cost of Goods Sold
+CREATE OR REPLACE FUNCTION create_cogs_journal_entry(
+    p_reference_type TEXT,
+    p_reference_id TEXT,
+    p_description TEXT,
+    p_amount DECIMAL,
+    p_entry_date DATE DEFAULT CURRENT_DATE,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS TEXT AS $$
+DECLARE
+    v_journal_entry_id TEXT;
+    v_cogs_account_id TEXT;
+    v_inventory_account_id TEXT;
+    v_is_return BOOLEAN := p_reference_type = 'return_cogs';
+BEGIN
+    IF COALESCE(p_amount, 0) <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id INTO v_cogs_account_id FROM accounts WHERE account_name = 'Cost of Goods Sold' LIMIT 1;
+    SELECT id INTO v_inventory_account_id FROM accounts WHERE account_name = 'Inventory' LIMIT 1;
+
+    IF v_cogs_account_id IS NULL OR v_inventory_account_id IS NULL THEN
+        RAISE EXCEPTION 'Cost of Goods Sold and Inventory accounts are required to post cost of goods sold';
+    END IF;
+
+    INSERT INTO journal_entries (
+        entry_number,
+        description,
+        reference_type,
+        reference_id,
+        entry_date,
+        total_amount,
+        status,
+        created_by
+    ) VALUES (
+        CASE WHEN v_is_return THEN 'JE-RCOGS-' ELSE 'JE-COGS-' END || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+        p_description,
+        p_reference_type,
+        p_reference_id,
+        COALESCE(p_entry_date, CURRENT_DATE),
+        p_amount,
+        'posted',
+        p_created_by
+    ) RETURNING id INTO v_journal_entry_id;
+
+    INSERT INTO journal_entry_lines (
+        journal_entry_id,
+        line_number,
+        account_id,
+        description,
+        debit_amount,
+        credit_amount
+    ) VALUES
+    (
+        v_journal_entry_id,
+        1,
+        CASE WHEN v_is_return THEN v_inventory_account_id ELSE v_cogs_account_id END,
+        CASE WHEN v_is_return THEN 'Returned goods back in stock' ELSE 'Cost of goods sold' END,
+        p_amount,
+        0
+    ),
+    (
+        v_journal_entry_id,
+        2,
+        CASE WHEN v_is_return THEN v_cogs_account_id ELSE v_inventory_account_id END,
+        CASE WHEN v_is_return THEN 'Cost of returned goods' ELSE 'Inventory issued' END,
+        0,
+        p_amount
+    );
+
+    RETURN v_journal_entry_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 10. Inventory valuation as of a date
+CREATE OR REPLACE FUNCTION get_inventory_valuation(
+    p_as_of DATE DEFAULT CURRENT_DATE,
+    p_warehouse_id TEXT DEFAULT NULL
+) RETURNS TABLE (
+    item_type TEXT,
+    item_id TEXT,
+    variation_id TEXT,
+    item_name TEXT,
+    sku TEXT,
+    warehouse_id TEXT,
+    warehouse_name TEXT,
+    quantity BIGINT,
+    total_value DECIMAL,
+    unit_cost DECIMAL
+) AS $$
+    SELECT
+        m.item_type,
+        m.item_id,
+        m.variation_id,
+        COALESCE(pr.name, pk.title, m.item_id) AS item_name,
+        COALESCE(pv.sku, pkv.sku) AS sku,
+        m.warehouse_id,
+        w.name AS warehouse_name,
+        SUM(m.quantity)::BIGINT AS quantity,
+        ROUND(SUM(m.total_cost), 2) AS total_value,
+        CASE WHEN SUM(m.quantity) > 0 THEN ROUND(SUM(m.total_cost) / SUM(m.quantity), 4) ELSE 0 END AS unit_cost
+    FROM inventory_cost_movements m
+    JOIN warehouses w ON w.id = m.warehouse_id
+    LEFT JOIN products pr ON m.item_type = 'product' AND pr.id = m.item_id
+    LEFT JOIN product_variations pv ON m.item_type = 'product' AND pv.id = m.variation_id
+    LEFT JOIN packaging pk ON m.item_type = 'package' AND pk.id = m.item_id
+    LEFT JOIN packaging_variations pkv ON m.item_type = 'package' AND pkv.id = m.variation_id
+    WHERE m.movement_date <= COALESCE(p_as_of, CURRENT_DATE)
+      AND (p_warehouse_id IS NULL OR m.warehouse_id = p_warehouse_id)
+    GROUP BY m.item_type, m.item_id, m.variation_id, pr.name, pk.title, pv.sku, pkv.sku, m.warehouse_id, w.name
+    HAVING SUM(m.quantity) <> 0 OR ROUND(SUM(m.total_cost), 2) <> 0
+    ORDER BY w.name, item_name;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION issue_inventory_cost IS 'Draws units out of the cost layers and returns their cost under the company valuation method';
+COMMENT ON FUNCTION get_inventory_valuation IS 'Quantity and value on hand per item and warehouse as of a date';
+
+-- 11. Receipts open cost layers; cancelled receipts take them back out
+CREATE OR REPLACE FUNCTION sync_goods_received_note_cost_layers()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_grn goods_received_notes%ROWTYPE;
+    v_exchange_rate DECIMAL;
+BEGIN
+    SELECT * INTO v_grn FROM goods_received_notes WHERE id = NEW.grn_id;
+
+    SELECT COALESCE(exchange_rate, 1) INTO v_exchange_rate
+    FROM purchases
+    WHERE id = v_grn.purchase_id;
+
+    PERFORM receive_inventory_cost(
+        NEW.item_type,
+        NEW.item_id,
+        NEW.variation_id,
+        v_grn.warehouse_id,
+        NEW.quantity,
+        NEW.unit_cost * COALESCE(v_exchange_rate, 1),
+        'receipt',
+        NEW.grn_id,
+        NEW.id,
+        v_grn.received_date
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_goods_received_note_cost_layers ON goods_received_note_items;
+CREATE TRIGGER trigger_goods_received_note_cost_layers
+  AFTER INSERT ON goods_received_note_items
+  FOR EACH ROW
+  WHEN (NEW.grn_id NOT LIKE 'GRN-OPEN-%')
+  EXECUTE FUNCTION sync_goods_received_note_cost_layers();
+
+CREATE OR REPLACE FUNCTION release_goods_received_note_cost_layers()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_grn_item goods_received_note_items%ROWTYPE;
+BEGIN
+    FOR v_grn_item IN
+        SELECT * FROM goods_received_note_items WHERE grn_id = NEW.id
+    LOOP
+        PERFORM issue_inventory_cost(
+            v_grn_item.item_type,
+            v_grn_item.item_id,
+            v_grn_item.variation_id,
+            NEW.warehouse_id,
+            v_grn_item.quantity,
+            'purchase',
+            NEW.id,
+            v_grn_item.id,
+            CURRENT_DATE,
+            NEW.id
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_goods_received_note_release_cost_layers ON goods_received_notes;
+CREATE TRIGGER trigger_goods_received_note_release_cost_layers
+  AFTER UPDATE OF status ON goods_received_notes
+  FOR EACH ROW
+  WHEN (OLD.status = 'active' AND NEW.status = 'cancelled')
+  EXECUTE FUNCTION release_goods_received_note_cost_layers();
+
+-- Success message
+SELECT 'Inventory valuation created successfully!' as message;
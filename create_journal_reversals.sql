@@ -0,0 +1,285 @@
+-- Journal entry reversals and corrections
+-- Posted entries are never edited. A reversal posts a mirror entry (debits and credits
+-- swapped) linked to the original, and the original is marked as reversed. A correction
+-- reverses the original and posts the replacement entry in the same transaction.
+-- Both entries stay posted, so they net to zero in every report and the audit trail
+-- keeps the original, its reversal and any replacement.
+-- Failures roll back every step and are reported as a typed error code:
+--   ENTRY_NOT_FOUND, ALREADY_REVERSED, CANNOT_REVERSE, INVALID_REPLACEMENT,
+--   PERIOD_LOCKED, REVERSAL_FAILED, REPLACEMENT_FAILED
+-- Requires create_fiscal_periods.sql
+
+-- 1. Links between an entry, its reversal and its replacement
+ALTER TABLE journal_entries
+ADD COLUMN IF NOT EXISTS reverses_entry_id TEXT REFERENCES journal_entries(id),
+ADD COLUMN IF NOT EXISTS reversed_by_entry_id TEXT REFERENCES journal_entries(id),
+ADD COLUMN IF NOT EXISTS corrects_entry_id TEXT REFERENCES journal_entries(id),
+ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS reversed_by TEXT,
+ADD COLUMN IF NOT EXISTS reversal_reason TEXT;
+
+-- An entry can only be reversed once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_reverses_entry
+ON journal_entries(reverses_entry_id)
+WHERE reverses_entry_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_corrects_entry
+ON journal_entries(corrects_entry_id)
+WHERE corrects_entry_id IS NOT NULL;
+
+-- 2. Shared reversal step
+-- Posts the mirror of p_entry_id dated p_reversal_date and marks the original as reversed.
+-- Raises with a DETAIL error code; callers turn it into a result object.
+CREATE OR REPLACE FUNCTION post_journal_reversal(
+    p_entry_id TEXT,
+    p_reversal_date DATE,
+    p_reason TEXT,
+    p_created_by TEXT
+) RETURNS TEXT AS $$
+DECLARE
+    v_original journal_entries%ROWTYPE;
+    v_reversal_id TEXT;
+BEGIN
+    SELECT * INTO v_original
+    FROM journal_entries
+    WHERE id = p_entry_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Journal entry % not found', p_entry_id USING DETAIL = 'ENTRY_NOT_FOUND';
+    END IF;
+
+    IF v_original.reversed_by_entry_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Journal entry % has already been reversed', v_original.entry_number
+            USING DETAIL = 'ALREADY_REVERSED';
+    END IF;
+
+    IF v_original.reverses_entry_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Journal entry % is itself a reversal and cannot be reversed', v_original.entry_number
+            USING DETAIL = 'CANNOT_REVERSE';
+    END IF;
+
+    IF v_original.status IS DISTINCT FROM 'posted' OR v_original.reference_type = 'period_close' THEN
+        RAISE EXCEPTION 'Only posted entries can be reversed; reopen the fiscal period to undo a closing entry'
+            USING DETAIL = 'CANNOT_REVERSE';
+    END IF;
+
+    IF p_reversal_date < v_original.entry_date THEN
+        RAISE EXCEPTION 'The reversal date % is before the original entry date %', p_reversal_date, v_original.entry_date
+            USING DETAIL = 'CANNOT_REVERSE';
+    END IF;
+
+    -- The locked-period trigger raises PERIOD_LOCKED if the reversal date is locked
+    INSERT INTO journal_entries (
+        entry_number,
+        description,
+        reference_type,
+        reference_id,
+        entry_date,
+        total_amount,
+        status,
+        created_by,
+        reverses_entry_id,
+        reversal_reason
+    ) VALUES (
+        'JE-REV-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+        'Reversal of ' || v_original.entry_number || ' - ' || v_original.description,
+        v_original.reference_type,
+        v_original.reference_id,
+        p_reversal_date,
+        v_original.total_amount,
+        'posted',
+        p_created_by,
+        v_original.id,
+        p_reason
+    ) RETURNING id INTO v_reversal_id;
+
+    INSERT INTO journal_entry_lines (
+        journal_entry_id,
+        line_number,
+        account_id,
+        description,
+        debit_amount,
+        credit_amount
+    )
+    SELECT
+        v_reversal_id,
+        jel.line_number,
+        jel.account_id,
+        'Reversal: ' || COALESCE(jel.description, v_original.description),
+        COALESCE(jel.credit_amount, 0),
+        COALESCE(jel.debit_amount, 0)
+    FROM journal_entry_lines jel
+    WHERE jel.journal_entry_id = v_original.id;
+
+    -- Only the link columns change, so this is allowed even when the original sits in a locked period
+    UPDATE journal_entries
+    SET reversed_by_entry_id = v_reversal_id,
+        reversed_at = NOW(),
+        reversed_by = p_created_by,
+        reversal_reason = p_reason
+    WHERE id = v_original.id;
+
+    RETURN v_reversal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. Reverse an entry
+CREATE OR REPLACE FUNCTION reverse_journal_entry(
+    p_entry_id TEXT,
+    p_reversal_date DATE DEFAULT CURRENT_DATE,
+    p_reason TEXT DEFAULT NULL,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_reversal_id TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        v_reversal_id := post_journal_reversal(p_entry_id, COALESCE(p_reversal_date, CURRENT_DATE), p_reason, p_created_by);
+    EXCEPTION
+        WHEN OTHERS THEN
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'ENTRY_NOT_FOUND', 'ALREADY_REVERSED', 'CANNOT_REVERSE', 'PERIOD_LOCKED'
+            ) THEN
+                v_error_code := 'REVERSAL_FAILED';
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'reversal_entry_id', v_reversal_id,
+        'replacement_entry_id', NULL
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. Correct an entry: reverse it and post the replacement in one transaction
+-- p_replacement: { description, entry_date, lines: [{ account_id, description, debit_amount, credit_amount }] }
+-- The replacement keeps the original's reference so it stays attached to the same document.
+CREATE OR REPLACE FUNCTION correct_journal_entry(
+    p_entry_id TEXT,
+    p_replacement JSONB,
+    p_reversal_date DATE DEFAULT CURRENT_DATE,
+    p_reason TEXT DEFAULT NULL,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'INVALID_REPLACEMENT';
+    v_original journal_entries%ROWTYPE;
+    v_reversal_id TEXT;
+    v_replacement_id TEXT;
+    v_total_debits DECIMAL;
+    v_total_credits DECIMAL;
+    v_line_count INTEGER;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        IF p_replacement IS NULL OR jsonb_typeof(p_replacement->'lines') <> 'array' THEN
+            RAISE EXCEPTION 'The replacement entry needs journal lines' USING DETAIL = 'INVALID_REPLACEMENT';
+        END IF;
+
+        SELECT
+            COUNT(*),
+            COALESCE(SUM(COALESCE((line->>'debit_amount')::DECIMAL, 0)), 0),
+            COALESCE(SUM(COALESCE((line->>'credit_amount')::DECIMAL, 0)), 0)
+        INTO v_line_count, v_total_debits, v_total_credits
+        FROM jsonb_array_elements(p_replacement->'lines') AS line;
+
+        IF v_line_count < 2 THEN
+            RAISE EXCEPTION 'The replacement entry needs at least two lines' USING DETAIL = 'INVALID_REPLACEMENT';
+        END IF;
+
+        IF ABS(v_total_debits - v_total_credits) > 0.01 OR v_total_debits = 0 THEN
+            RAISE EXCEPTION 'Replacement debits (%) must equal credits (%)', v_total_debits, v_total_credits
+                USING DETAIL = 'INVALID_REPLACEMENT';
+        END IF;
+
+        v_stage := 'REVERSAL_FAILED';
+        v_reversal_id := post_journal_reversal(p_entry_id, COALESCE(p_reversal_date, CURRENT_DATE), p_reason, p_created_by);
+
+        v_stage := 'REPLACEMENT_FAILED';
+        SELECT * INTO v_original FROM journal_entries WHERE id = p_entry_id;
+
+        INSERT INTO journal_entries (
+            entry_number,
+            description,
+            reference_type,
+            reference_id,
+            entry_date,
+            total_amount,
+            status,
+            created_by,
+            corrects_entry_id
+        ) VALUES (
+            'JE-COR-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+            COALESCE(NULLIF(p_replacement->>'description', ''), v_original.description),
+            v_original.reference_type,
+            v_original.reference_id,
+            COALESCE((p_replacement->>'entry_date')::DATE, COALESCE(p_reversal_date, CURRENT_DATE)),
+            v_total_debits,
+            'posted',
+            p_created_by,
+            v_original.id
+        ) RETURNING id INTO v_replacement_id;
+
+        INSERT INTO journal_entry_lines (
+            journal_entry_id,
+            line_number,
+            account_id,
+            description,
+            debit_amount,
+            credit_amount
+        )
+        SELECT
+            v_replacement_id,
+            line.ordinality,
+            line.value->>'account_id',
+            COALESCE(line.value->>'description', p_replacement->>'description'),
+            COALESCE((line.value->>'debit_amount')::DECIMAL, 0),
+            COALESCE((line.value->>'credit_amount')::DECIMAL, 0)
+        FROM jsonb_array_elements(p_replacement->'lines') WITH ORDINALITY AS line;
+    EXCEPTION
+        WHEN OTHERS THEN
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'ENTRY_NOT_FOUND', 'ALREADY_REVERSED', 'CANNOT_REVERSE', 'INVALID_REPLACEMENT', 'PERIOD_LOCKED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'reversal_entry_id', v_reversal_id,
+        'replacement_entry_id', v_replacement_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION reverse_journal_entry IS 'Posts a mirror entry for a journal entry and marks the original as reversed';
+COMMENT ON FUNCTION correct_journal_entry IS 'Reverses a journal entry and posts its replacement atomically';
+
+-- Success message
+SELECT 'Journal reversal functions created successfully!' as message;
@@ -0,0 +1,736 @@
+-- Atomic sale posting
+-- Inserts the sale and its items, moves product and packaging stock, records the
+-- payments taken at checkout and writes the journal entries in ONE transaction.
+-- A sale posted against a sales order (p_sale.sales_order_id) consumes the order's
+-- stock reservation and advances its fulfilment in the same transaction.
+-- Each line's cost is drawn from the inventory cost layers and posted as
+-- Dr Cost of Goods Sold, Cr Inventory alongside the revenue entry.
+-- Lot-tracked products are issued from the lots picked on the line (items[].lots) or
+-- first expiry, first out, and the lots drawn are kept in sale_item_lots.
+-- Serial-tracked products name the units sold (items[].serial_numbers), one per unit.
+-- Bundle products have no stock of their own: their components are issued instead and
+-- kept in sale_item_components (create_product_bundles.sql).
+-- Quantities and prices are in the product's base unit; items[].unit_name records the
+-- unit the line was sold in and must be one of the product's units (create_units_of_measure.sql).
+-- p_sale.price_list_id records the customer's price list the line prices came from
+-- (create_price_lists.sql).
+-- Each line carries its tax code, rate, taxable amount and tax (items[].tax); the sale's
+-- tax is moved from Sales Revenue to Output Tax (create_tax_codes.sql).
+-- p_sale.promotions lists the promotions whose discounts the sale includes; each is checked
+-- against its validity and usage limits and kept in sale_promotions (create_promotions.sql).
+-- p_sale.currency and exchange_rate give the currency the sale is invoiced in and its rate
+-- in taka; the sale keeps its amounts in that currency and the revenue, tax and payment
+-- journals are converted to taka (create_currencies.sql). Cost of goods sold is in taka.
+-- p_payment is the payment taken at checkout, or an array of them when the customer splits
+-- the tender across payment methods; each is posted as its own sale payment and journal.
+-- A cash tender may hand over more than its amount (amount_tendered); the rest is change.
+-- Any failure rolls back every step and is reported as a typed error code:
+--   INVALID_SALE, INSUFFICIENT_STOCK, INSUFFICIENT_PACKAGING_STOCK,
+--   SALE_INSERT_FAILED, STOCK_UPDATE_FAILED, JOURNAL_FAILED, PAYMENT_FAILED,
+--   ORDER_FULFILMENT_FAILED, INVALID_LOT, INVALID_SERIAL, INVALID_BUNDLE, INVALID_PROMOTION,
+--   PERIOD_LOCKED
+-- Requires create_sales_orders_tables.sql, create_inventory_valuation.sql, create_stock_lots.sql,
+-- create_serial_numbers.sql, create_product_bundles.sql, create_units_of_measure.sql,
+-- create_price_lists.sql, create_promotions.sql, create_tax_codes.sql, create_currencies.sql
+-- PERIOD_LOCKED is raised by the fiscal period guard triggers (create_fiscal_periods.sql)
+
+-- 1. Allow journal entries to be linked back to the sale payment that created them,
+-- and keep the cash handed over and the change given on each tender
+ALTER TABLE sale_payments
+ADD COLUMN IF NOT EXISTS account_id TEXT REFERENCES accounts(id),
+ADD COLUMN IF NOT EXISTS amount_tendered DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS change_given DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- 2. Post sale function
+CREATE OR REPLACE FUNCTION post_sale(
+    p_sale JSONB,
+    p_items JSONB,
+    p_payment JSONB DEFAULT NULL,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'VALIDATION';
+    v_sale_id TEXT;
+    v_warehouse_id TEXT;
+    v_sale_date DATE;
+    v_customer_name TEXT;
+    v_total_amount DECIMAL;
+    v_currency TEXT;
+    v_exchange_rate DECIMAL;
+    v_item JSONB;
+    v_available INTEGER;
+    v_journal_entry_id TEXT;
+    v_sale_item_id TEXT;
+    v_product_type TEXT;
+    v_track_lots BOOLEAN;
+    v_track_serials BOOLEAN;
+    v_serials TEXT[];
+    v_lot_allocations JSONB;
+    v_line_cost DECIMAL;
+    v_cost_total DECIMAL := 0;
+    v_cogs_journal_id TEXT;
+    v_tax_total DECIMAL := 0;
+    v_tax_journal_id TEXT;
+    v_payment_id TEXT;
+    v_payment_amount DECIMAL;
+    v_payment_account_id TEXT;
+    v_payment_journal_id TEXT;
+    v_payment JSONB;
+    v_payments JSONB;
+    v_payments_total DECIMAL := 0;
+    v_payment_method TEXT;
+    v_amount_tendered DECIMAL;
+    v_tender_index INTEGER := 0;
+    v_tender_id TEXT;
+    v_tender_journal_id TEXT;
+    v_payment_ids JSONB := '[]'::JSONB;
+    v_receivable_account_id TEXT;
+    v_sales_order_id TEXT;
+    v_order sales_orders%ROWTYPE;
+    v_order_item sales_order_items%ROWTYPE;
+    v_release INTEGER;
+    v_unit_factor INTEGER;
+    v_order_status TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        v_warehouse_id := p_sale->>'warehouse_id';
+        v_customer_name := COALESCE(p_sale->>'customer_name', 'Unknown Customer');
+        v_total_amount := COALESCE((p_sale->>'total_amount')::DECIMAL, 0);
+        v_sale_date := COALESCE((p_sale->>'sale_date')::DATE, CURRENT_DATE);
+        v_currency := upper(COALESCE(NULLIF(p_sale->>'currency', ''), 'BDT'));
+        v_exchange_rate := CASE WHEN v_currency = 'BDT' THEN 1 ELSE (p_sale->>'exchange_rate')::DECIMAL END;
+
+        IF v_warehouse_id IS NULL THEN
+            RAISE EXCEPTION 'A warehouse is required to post a sale' USING DETAIL = 'INVALID_SALE';
+        END IF;
+
+        IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+            RAISE EXCEPTION 'A sale needs at least one item' USING DETAIL = 'INVALID_SALE';
+        END IF;
+
+        IF COALESCE(v_exchange_rate, 0) <= 0 THEN
+            RAISE EXCEPTION 'An exchange rate for % is required to post the sale', v_currency USING DETAIL = 'INVALID_SALE';
+        END IF;
+
+        -- Lock the sales order being fulfilled, if any
+        v_sales_order_id := p_sale->>'sales_order_id';
+
+        IF v_sales_order_id IS NOT NULL THEN
+            v_stage := 'ORDER_FULFILMENT_FAILED';
+
+            SELECT * INTO v_order
+            FROM sales_orders
+            WHERE id = v_sales_order_id
+            FOR UPDATE;
+
+            IF NOT FOUND OR v_order.document_type <> 'order' OR v_order.status NOT IN ('open', 'partially_fulfilled') THEN
+                RAISE EXCEPTION 'Sales order % is not open for fulfilment', v_sales_order_id
+                    USING DETAIL = 'ORDER_FULFILMENT_FAILED';
+            END IF;
+
+            IF v_order.warehouse_id IS DISTINCT FROM v_warehouse_id THEN
+                RAISE EXCEPTION 'Sales order % reserves stock in a different warehouse', v_sales_order_id
+                    USING DETAIL = 'ORDER_FULFILMENT_FAILED';
+            END IF;
+        END IF;
+
+        -- Insert the sale header
+        v_stage := 'SALE_INSERT_FAILED';
+        INSERT INTO sales (
+            customer_id,
+            customer_name,
+            warehouse_id,
+            warehouse_name,
+            sale_date,
+            salesperson,
+            subtotal,
+            after_discount,
+            total_discount,
+            total_discount_type,
+            tax_rate,
+            tax_amount,
+            total_amount,
+            status,
+            sales_order_id,
+            price_list_id,
+            currency,
+            exchange_rate
+        ) VALUES (
+            p_sale->>'customer_id',
+            v_customer_name,
+            v_warehouse_id,
+            p_sale->>'warehouse_name',
+            v_sale_date,
+            COALESCE(p_sale->>'salesperson', p_created_by),
+            COALESCE((p_sale->>'subtotal')::DECIMAL, 0),
+            COALESCE((p_sale->>'after_discount')::DECIMAL, 0),
+            (p_sale->>'total_discount')::DECIMAL,
+            p_sale->>'total_discount_type',
+            (p_sale->>'tax_rate')::DECIMAL,
+            (p_sale->>'tax_amount')::DECIMAL,
+            v_total_amount,
+            COALESCE(p_sale->>'status', 'completed'),
+            v_sales_order_id,
+            p_sale->>'price_list_id',
+            v_currency,
+            v_exchange_rate
+        ) RETURNING id INTO v_sale_id;
+
+        -- Insert items and move stock, locking each stock row so concurrent sales can't oversell
+        FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+        LOOP
+            -- Order lines: consume the line's reservation before checking availability,
+            -- since the reserved units are the ones being sold
+            IF v_item->>'sales_order_item_id' IS NOT NULL THEN
+                v_stage := 'ORDER_FULFILMENT_FAILED';
+
+                IF v_sales_order_id IS NULL THEN
+                    RAISE EXCEPTION 'Order lines can only be sold against their sales order'
+                        USING DETAIL = 'ORDER_FULFILMENT_FAILED';
+                END IF;
+
+                SELECT * INTO v_order_item
+                FROM sales_order_items
+                WHERE id = v_item->>'sales_order_item_id'
+                  AND sales_order_id = v_sales_order_id
+                FOR UPDATE;
+
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'Order line % does not belong to sales order %', v_item->>'sales_order_item_id', v_sales_order_id
+                        USING DETAIL = 'ORDER_FULFILMENT_FAILED';
+                END IF;
+
+                IF (v_item->>'quantity')::INTEGER > v_order_item.quantity - v_order_item.fulfilled_quantity THEN
+                    RAISE EXCEPTION 'Cannot fulfil % of %. Ordered: %, already fulfilled: %',
+                        v_item->>'quantity', v_order_item.product_name, v_order_item.quantity, v_order_item.fulfilled_quantity
+                        USING DETAIL = 'ORDER_FULFILMENT_FAILED';
+                END IF;
+
+                v_release := LEAST((v_item->>'quantity')::INTEGER, v_order_item.reserved_quantity);
+
+                IF v_release > 0 THEN
+                    UPDATE product_warehouse_stock
+                    SET reserved_stock = GREATEST(reserved_stock - v_release, 0),
+                        updated_at = NOW()
+                    WHERE product_id = v_order_item.product_id
+                      AND warehouse_id = v_warehouse_id
+                      AND (
+                        (v_order_item.variation_id IS NULL AND variation_id IS NULL) OR
+                        (variation_id = v_order_item.variation_id)
+                      );
+
+                    IF v_order_item.packaging_id IS NOT NULL THEN
+                        UPDATE packaging_warehouse_stock
+                        SET reserved_stock = GREATEST(reserved_stock - v_release, 0),
+                            updated_at = NOW()
+                        WHERE packaging_id = v_order_item.packaging_id
+                          AND warehouse_id = v_warehouse_id
+                          AND (
+                            (v_order_item.packaging_variation_id IS NULL AND variation_id IS NULL) OR
+                            (variation_id = v_order_item.packaging_variation_id)
+                          );
+                    END IF;
+                END IF;
+
+                UPDATE sales_order_items
+                SET fulfilled_quantity = fulfilled_quantity + (v_item->>'quantity')::INTEGER,
+                    reserved_quantity = reserved_quantity - v_release,
+                    updated_at = NOW()
+                WHERE id = v_order_item.id;
+            END IF;
+
+            v_stage := 'STOCK_UPDATE_FAILED';
+            SELECT type, track_lots, track_serials INTO v_product_type, v_track_lots, v_track_serials
+            FROM products
+            WHERE id = v_item->>'product_id';
+
+            -- The line must cover whole units of the unit it was sold in
+            v_unit_factor := get_unit_factor(v_item->>'product_id', v_item->>'unit_name');
+            IF v_unit_factor IS NULL THEN
+                RAISE EXCEPTION '% is not sold in %', v_item->>'product_name', v_item->>'unit_name'
+                    USING DETAIL = 'INVALID_SALE';
+            END IF;
+
+            IF (v_item->>'quantity')::INTEGER % v_unit_factor <> 0 THEN
+                RAISE EXCEPTION 'Quantity of % must be whole %', v_item->>'product_name', v_item->>'unit_name'
+                    USING DETAIL = 'INVALID_SALE';
+            END IF;
+
+            -- A bundle's component stock is checked as its components are issued
+            IF v_product_type IS DISTINCT FROM 'bundle' THEN
+                SELECT current_stock - reserved_stock INTO v_available
+                FROM product_warehouse_stock
+                WHERE product_id = v_item->>'product_id'
+                  AND warehouse_id = v_warehouse_id
+                  AND (
+                    (v_item->>'variation_id' IS NULL AND variation_id IS NULL) OR
+                    (variation_id = v_item->>'variation_id')
+                  )
+                FOR UPDATE;
+
+                IF COALESCE(v_available, 0) < (v_item->>'quantity')::INTEGER THEN
+                    RAISE EXCEPTION 'Insufficient stock for %. Available: %', v_item->>'product_name', COALESCE(v_available, 0)
+                        USING DETAIL = 'INSUFFICIENT_STOCK';
+                END IF;
+            END IF;
+
+            IF v_item->>'packaging_id' IS NOT NULL THEN
+                SELECT current_stock - reserved_stock INTO v_available
+                FROM packaging_warehouse_stock
+                WHERE packaging_id = v_item->>'packaging_id'
+                  AND warehouse_id = v_warehouse_id
+                  AND (
+                    (v_item->>'packaging_variation_id' IS NULL AND variation_id IS NULL) OR
+                    (variation_id = v_item->>'packaging_variation_id')
+                  )
+                FOR UPDATE;
+
+                IF COALESCE(v_available, 0) < (v_item->>'quantity')::INTEGER THEN
+                    RAISE EXCEPTION 'Insufficient packaging stock for %. Available: %', v_item->>'packaging_name', COALESCE(v_available, 0)
+                        USING DETAIL = 'INSUFFICIENT_PACKAGING_STOCK';
+                END IF;
+            END IF;
+
+            v_stage := 'SALE_INSERT_FAILED';
+            INSERT INTO sale_items (
+                sale_id,
+                product_id,
+                product_name,
+                variation_id,
+                packaging_id,
+                packaging_name,
+                packaging_variation_id,
+                quantity,
+                price,
+                discount,
+                total,
+                tax,
+                tax_code_id,
+                tax_rate,
+                taxable_amount,
+                sales_order_item_id,
+                unit_name,
+                unit_factor
+            ) VALUES (
+                v_sale_id,
+                v_item->>'product_id',
+                v_item->>'product_name',
+                v_item->>'variation_id',
+                v_item->>'packaging_id',
+                v_item->>'packaging_name',
+                v_item->>'packaging_variation_id',
+                (v_item->>'quantity')::INTEGER,
+                (v_item->>'price')::DECIMAL,
+                (v_item->>'discount')::DECIMAL,
+                (v_item->>'total')::DECIMAL,
+                COALESCE((v_item->>'tax')::DECIMAL, 0),
+                NULLIF(v_item->>'tax_code_id', ''),
+                COALESCE((v_item->>'tax_rate')::DECIMAL, 0),
+                (v_item->>'taxable_amount')::DECIMAL,
+                v_item->>'sales_order_item_id',
+                NULLIF(btrim(v_item->>'unit_name'), ''),
+                v_unit_factor
+            ) RETURNING id INTO v_sale_item_id;
+
+            v_tax_total := v_tax_total + COALESCE((v_item->>'tax')::DECIMAL, 0);
+
+            v_stage := 'STOCK_UPDATE_FAILED';
+            IF v_product_type = 'bundle' THEN
+                -- Components leave the warehouse in place of the bundle, at their own cost
+                v_line_cost := issue_bundle_components(
+                    v_sale_item_id,
+                    v_item->>'product_id',
+                    v_item->>'product_name',
+                    v_warehouse_id,
+                    (v_item->>'quantity')::INTEGER,
+                    v_sale_id,
+                    v_sale_date,
+                    'Sale to ' || v_customer_name,
+                    p_created_by
+                );
+            ELSIF COALESCE(v_track_lots, false) THEN
+                v_lot_allocations := issue_stock_lots(
+                    v_item->>'product_id',
+                    v_item->>'variation_id',
+                    v_warehouse_id,
+                    (v_item->>'quantity')::INTEGER,
+                    v_item->'lots',
+                    v_sale_date,
+                    'sale',
+                    v_sale_id,
+                    'Sale to ' || v_customer_name,
+                    p_created_by,
+                    NULL
+                );
+
+                INSERT INTO sale_item_lots (sale_item_id, lot_id, lot_number, expiry_date, quantity)
+                SELECT v_sale_item_id, a->>'lot_id', a->>'lot_number', (a->>'expiry_date')::DATE, (a->>'quantity')::INTEGER
+                FROM jsonb_array_elements(v_lot_allocations) a;
+            ELSE
+                PERFORM update_warehouse_stock(
+                    v_item->>'product_id',
+                    v_warehouse_id,
+                    v_item->>'variation_id',
+                    -((v_item->>'quantity')::INTEGER),
+                    'sale',
+                    v_sale_id,
+                    'Sale to ' || v_customer_name,
+                    p_created_by,
+                    NULL
+                );
+            END IF;
+
+            IF COALESCE(v_track_serials, false) THEN
+                -- The units sold now belong to this sale line
+                v_serials := parse_serial_numbers(
+                    v_item->'serial_numbers',
+                    (v_item->>'quantity')::INTEGER,
+                    v_item->>'product_name'
+                );
+
+                PERFORM move_serial_numbers(
+                    v_item->>'product_id',
+                    v_item->>'variation_id',
+                    v_serials,
+                    'in_stock',
+                    v_warehouse_id,
+                    NULL,
+                    'sold',
+                    NULL,
+                    v_sale_item_id,
+                    'sold',
+                    v_sale_id,
+                    p_created_by,
+                    'Sale to ' || v_customer_name
+                );
+
+                UPDATE sale_items
+                SET serial_numbers = v_serials
+                WHERE id = v_sale_item_id;
+            END IF;
+
+            IF v_item->>'packaging_id' IS NOT NULL THEN
+                PERFORM update_packaging_warehouse_stock(
+                    v_item->>'packaging_id',
+                    v_warehouse_id,
+                    v_item->>'packaging_variation_id',
+                    -((v_item->>'quantity')::INTEGER),
+                    'sale',
+                    v_sale_id,
+                    'Sale to ' || v_customer_name,
+                    p_created_by,
+                    NULL
+                );
+            END IF;
+
+            -- Cost of the units issued for this line
+            IF v_product_type IS DISTINCT FROM 'bundle' THEN
+                v_line_cost := issue_inventory_cost(
+                    'product',
+                    v_item->>'product_id',
+                    v_item->>'variation_id',
+                    v_warehouse_id,
+                    (v_item->>'quantity')::INTEGER,
+                    'sale',
+                    v_sale_id,
+                    v_sale_item_id,
+                    v_sale_date
+                );
+            END IF;
+
+            IF v_item->>'packaging_id' IS NOT NULL THEN
+                v_line_cost := v_line_cost + issue_inventory_cost(
+                    'package',
+                    v_item->>'packaging_id',
+                    v_item->>'packaging_variation_id',
+                    v_warehouse_id,
+                    (v_item->>'quantity')::INTEGER,
+                    'sale',
+                    v_sale_id,
+                    v_sale_item_id,
+                    v_sale_date
+                );
+            END IF;
+
+            UPDATE sale_items
+            SET cost_amount = v_line_cost
+            WHERE id = v_sale_item_id;
+
+            v_cost_total := v_cost_total + v_line_cost;
+        END LOOP;
+
+        -- Promotions the sale's discounts came from, within their usage limits
+        IF jsonb_typeof(p_sale->'promotions') = 'array' THEN
+            PERFORM record_sale_promotions(
+                v_sale_id,
+                p_sale->>'customer_id',
+                v_sale_date,
+                p_sale->'promotions'
+            );
+        END IF;
+
+        -- Advance the sales order once every line has been applied
+        IF v_sales_order_id IS NOT NULL THEN
+            v_stage := 'ORDER_FULFILMENT_FAILED';
+
+            SELECT CASE
+                WHEN bool_and(fulfilled_quantity >= quantity) THEN 'fulfilled'
+                ELSE 'partially_fulfilled'
+            END INTO v_order_status
+            FROM sales_order_items
+            WHERE sales_order_id = v_sales_order_id;
+
+            UPDATE sales_orders
+            SET status = v_order_status,
+                updated_at = NOW()
+            WHERE id = v_sales_order_id;
+
+            INSERT INTO sale_events (sales_order_id, sale_id, event_type, event_title, event_description, previous_status, new_status, created_by)
+            VALUES (
+                v_sales_order_id,
+                NULL,
+                'order_fulfilled',
+                CASE WHEN v_order_status = 'fulfilled' THEN 'Order Fulfilled' ELSE 'Order Partially Fulfilled' END,
+                'Sale ' || v_sale_id || ' of ' || CASE WHEN v_currency = 'BDT' THEN '৳' ELSE v_currency || ' ' END || v_total_amount || ' posted against this order',
+                v_order.status,
+                v_order_status,
+                p_created_by
+            );
+        END IF;
+
+        -- Revenue journal entry (Dr Accounts Receivable, Cr Sales Revenue), in taka
+        v_stage := 'JOURNAL_FAILED';
+        v_journal_entry_id := create_sale_journal_entry(
+            v_sale_id,
+            v_customer_name,
+            ROUND(v_total_amount * v_exchange_rate, 2),
+            v_sale_date,
+            p_created_by
+        );
+
+        -- Output tax (Dr Sales Revenue, Cr Output Tax)
+        v_tax_journal_id := create_tax_journal_entry(
+            'sale_tax',
+            v_sale_id,
+            'Output tax - ' || v_customer_name || ' (Sale: ' || v_sale_id || ')',
+            ROUND(v_tax_total * v_exchange_rate, 2),
+            v_sale_date,
+            p_created_by
+        );
+
+        -- Cost of goods sold (Dr Cost of Goods Sold, Cr Inventory)
+        v_cogs_journal_id := create_cogs_journal_entry(
+            'sale_cogs',
+            v_sale_id,
+            'Cost of goods sold - ' || v_customer_name || ' (Sale: ' || v_sale_id || ')',
+            v_cost_total,
+            v_sale_date,
+            p_created_by
+        );
+
+        -- Timeline
+        INSERT INTO sale_events (sale_id, event_type, event_title, event_description, new_status, created_by)
+        VALUES (
+            v_sale_id,
+            'order_placed',
+            'Sale Completed',
+            'Sale of ' || CASE WHEN v_currency = 'BDT' THEN '৳' ELSE v_currency || ' ' END || v_total_amount || ' to ' || v_customer_name,
+            'completed',
+            p_created_by
+        );
+
+        -- Payments taken at checkout, one per tender (Dr payment method account, Cr Accounts Receivable)
+        v_payments := CASE jsonb_typeof(p_payment)
+            WHEN 'array' THEN p_payment
+            WHEN 'object' THEN jsonb_build_array(p_payment)
+            ELSE '[]'::JSONB
+        END;
+
+        SELECT COALESCE(SUM((payment->>'amount')::DECIMAL), 0) INTO v_payments_total
+        FROM jsonb_array_elements(v_payments) payment
+        WHERE COALESCE((payment->>'amount')::DECIMAL, 0) > 0;
+
+        IF v_payments_total > 0 THEN
+            v_stage := 'PAYMENT_FAILED';
+
+            IF v_payments_total > v_total_amount THEN
+                RAISE EXCEPTION 'Payments of % exceed the sale total of %', v_payments_total, v_total_amount
+                    USING DETAIL = 'PAYMENT_FAILED';
+            END IF;
+
+            SELECT id INTO v_receivable_account_id
+            FROM accounts
+            WHERE account_name = 'Accounts Receivable'
+            LIMIT 1;
+        END IF;
+
+        FOR v_payment IN SELECT * FROM jsonb_array_elements(v_payments)
+        LOOP
+            v_payment_amount := COALESCE((v_payment->>'amount')::DECIMAL, 0);
+            CONTINUE WHEN v_payment_amount <= 0;
+
+            v_tender_index := v_tender_index + 1;
+            v_tender_id := 'SPAY-' || v_sale_id || '-' || EXTRACT(EPOCH FROM NOW())::bigint::text
+                || CASE WHEN v_tender_index > 1 THEN '-' || v_tender_index ELSE '' END;
+            v_payment_account_id := v_payment->>'account_id';
+            v_payment_method := COALESCE(v_payment->>'payment_method', 'cash');
+            v_amount_tendered := COALESCE((v_payment->>'amount_tendered')::DECIMAL, v_payment_amount);
+            v_tender_journal_id := NULL;
+
+            -- Only cash can be handed over in excess of the amount; the rest is given back as change
+            IF v_amount_tendered < v_payment_amount THEN
+                RAISE EXCEPTION '% tendered is less than the % payment of %', v_amount_tendered, v_payment_method, v_payment_amount
+                    USING DETAIL = 'PAYMENT_FAILED';
+            END IF;
+
+            IF v_amount_tendered > v_payment_amount AND v_payment_method <> 'cash' THEN
+                RAISE EXCEPTION 'Change can only be given on cash; % tendered for a % payment of %', v_amount_tendered, v_payment_method, v_payment_amount
+                    USING DETAIL = 'PAYMENT_FAILED';
+            END IF;
+
+            IF v_payment_account_id IS NOT NULL AND v_receivable_account_id IS NOT NULL THEN
+                INSERT INTO journal_entries (
+                    entry_number,
+                    description,
+                    reference_type,
+                    reference_id,
+                    entry_date,
+                    total_amount,
+                    status,
+                    created_by
+                ) VALUES (
+                    'JE-SPAY-' || EXTRACT(EPOCH FROM NOW())::bigint::text
+                        || CASE WHEN v_tender_index > 1 THEN '-' || v_tender_index ELSE '' END,
+                    'Payment received - ' || v_customer_name || ' (Sale: ' || v_sale_id || ')',
+                    'sale_payment',
+                    v_tender_id,
+                    COALESCE((v_payment->>'payment_date')::DATE, v_sale_date),
+                    ROUND(v_payment_amount * v_exchange_rate, 2),
+                    'posted',
+                    p_created_by
+                ) RETURNING id INTO v_tender_journal_id;
+
+                INSERT INTO journal_entry_lines (
+                    journal_entry_id,
+                    line_number,
+                    account_id,
+                    description,
+                    debit_amount,
+                    credit_amount
+                ) VALUES
+                (
+                    v_tender_journal_id,
+                    1,
+                    v_payment_account_id,
+                    'Payment from ' || v_customer_name,
+                    ROUND(v_payment_amount * v_exchange_rate, 2),
+                    0
+                ),
+                (
+                    v_tender_journal_id,
+                    2,
+                    v_receivable_account_id,
+                    'Receivable settled by ' || v_customer_name,
+                    0,
+                    ROUND(v_payment_amount * v_exchange_rate, 2)
+                );
+            END IF;
+
+            -- The sale_payments triggers keep sales.amount_paid and payment_status in sync
+            INSERT INTO sale_payments (
+                id,
+                sale_id,
+                amount,
+                payment_method,
+                payment_date,
+                notes,
+                journal_entry_id,
+                account_id,
+                created_by,
+                status,
+                currency,
+                exchange_rate,
+                amount_tendered,
+                change_given
+            ) VALUES (
+                v_tender_id,
+                v_sale_id,
+                v_payment_amount,
+                v_payment_method,
+                COALESCE((v_payment->>'payment_date')::DATE, v_sale_date),
+                v_payment->>'notes',
+                v_tender_journal_id,
+                v_payment_account_id,
+                p_created_by,
+                'active',
+                v_currency,
+                v_exchange_rate,
+                v_amount_tendered,
+                v_amount_tendered - v_payment_amount
+            );
+
+            INSERT INTO sale_events (sale_id, event_type, event_title, event_description, payment_amount, payment_method, payment_id, created_by)
+            VALUES (
+                v_sale_id,
+                'payment_made',
+                'Payment Received',
+                'Payment of ' || CASE WHEN v_currency = 'BDT' THEN '৳' ELSE v_currency || ' ' END || v_payment_amount || ' received at checkout'
+                    || CASE WHEN v_amount_tendered > v_payment_amount
+                        THEN ', ' || (v_amount_tendered - v_payment_amount) || ' given as change'
+                        ELSE '' END,
+                v_payment_amount,
+                v_payment_method,
+                v_tender_id,
+                p_created_by
+            );
+
+            -- The first tender is also returned as the sale's payment for existing callers
+            v_payment_id := COALESCE(v_payment_id, v_tender_id);
+            v_payment_journal_id := COALESCE(v_payment_journal_id, v_tender_journal_id);
+            v_payment_ids := v_payment_ids || to_jsonb(v_tender_id);
+        END LOOP;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'INVALID_SALE', 'INSUFFICIENT_STOCK', 'INSUFFICIENT_PACKAGING_STOCK',
+                'SALE_INSERT_FAILED', 'STOCK_UPDATE_FAILED', 'JOURNAL_FAILED', 'PAYMENT_FAILED',
+                'ORDER_FULFILMENT_FAILED', 'INVALID_LOT', 'INVALID_SERIAL', 'INVALID_BUNDLE', 'INVALID_PROMOTION',
+                'PERIOD_LOCKED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'sale_id', v_sale_id,
+        'sales_order_id', v_sales_order_id,
+        'journal_entry_id', v_journal_entry_id,
+        'cogs_journal_entry_id', v_cogs_journal_id,
+        'cost_amount', v_cost_total,
+        'payment_id', v_payment_id,
+        'payment_journal_entry_id', v_payment_journal_id,
+        'payment_ids', v_payment_ids
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION post_sale IS 'Posts a sale with items, stock movements, checkout payments and journal entries atomically';
+COMMENT ON COLUMN sale_payments.amount_tendered IS 'Amount handed over for the payment; more than amount only for cash';
+COMMENT ON COLUMN sale_payments.change_given IS 'Cash given back: amount_tendered less amount';
+
+-- Success message
+SELECT 'post_sale function created successfully!' as message;
@@ -0,0 +1,169 @@
+-- Price lists
+-- A price list (e.g. Retail, Wholesale, Distributor) holds its own selling prices for
+-- products and variations, with optional quantity breaks and validity dates. Each
+-- customer can be assigned one price list; a sale to that customer prices each line from
+-- the list and falls back to the product or variation price where the list has none.
+-- A line's price is the list row for its product and variation that is valid on the sale
+-- date with the highest min_quantity not above the line's quantity. Quantities and prices
+-- are in the product's base unit, like sale lines (create_units_of_measure.sql).
+-- post_sale records the price list a sale was priced from (create_post_sale_function.sql).
+-- Errors carry a typed code in DETAIL for the calling function:
+--   INVALID_PRICE_LIST
+-- Requires create_units_of_measure.sql
+
+-- 1. Price lists
+CREATE TABLE IF NOT EXISTS price_lists (
+  id TEXT PRIMARY KEY DEFAULT 'PL' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_lists_name ON price_lists(lower(name));
+
+INSERT INTO price_lists (id, name, description) VALUES
+  ('PL_RETAIL', 'Retail', 'Walk-in and retail customers'),
+  ('PL_WHOLESALE', 'Wholesale', 'Trade customers buying in bulk'),
+  ('PL_DISTRIBUTOR', 'Distributor', 'Appointed distributors')
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Prices on each list
+-- variation_id is NULL for simple and bundle products; min_quantity is in base units
+CREATE TABLE IF NOT EXISTS price_list_items (
+  id TEXT PRIMARY KEY DEFAULT 'PLI' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  price_list_id TEXT NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variation_id TEXT REFERENCES product_variations(id) ON DELETE CASCADE,
+  min_quantity INTEGER NOT NULL DEFAULT 1 CHECK (min_quantity > 0),
+  price DECIMAL(14,4) NOT NULL CHECK (price >= 0),
+  valid_from DATE,
+  valid_to DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (valid_to IS NULL OR valid_from IS NULL OR valid_to >= valid_from)
+);
+
+-- One price per quantity break and start date for each item on a list
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_list_items_break
+ON price_list_items(price_list_id, product_id, COALESCE(variation_id, ''), min_quantity, COALESCE(valid_from, '-infinity'::date));
+
+-- 3. Price list of each customer and the list each sale was priced from
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS price_list_id TEXT REFERENCES price_lists(id) ON DELETE SET NULL;
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS price_list_id TEXT REFERENCES price_lists(id) ON DELETE SET NULL;
+
+-- 4. Replace the prices on a list in one step
+-- p_items: [{product_id, variation_id, min_quantity, price, valid_from, valid_to}]
+CREATE OR REPLACE FUNCTION save_price_list_items(
+    p_price_list_id TEXT,
+    p_items JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_item JSONB;
+    v_product products%ROWTYPE;
+    v_count INTEGER := 0;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        PERFORM 1 FROM price_lists WHERE id = p_price_list_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Price list % not found', p_price_list_id USING DETAIL = 'INVALID_PRICE_LIST';
+        END IF;
+
+        DELETE FROM price_list_items WHERE price_list_id = p_price_list_id;
+
+        FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+        LOOP
+            SELECT * INTO v_product FROM products WHERE id = v_item->>'product_id';
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Product % not found', v_item->>'product_id' USING DETAIL = 'INVALID_PRICE_LIST';
+            END IF;
+
+            IF (v_product.type = 'variation') <> (v_item->>'variation_id' IS NOT NULL) THEN
+                RAISE EXCEPTION 'Choose a variation of % for this price', v_product.name USING DETAIL = 'INVALID_PRICE_LIST';
+            END IF;
+
+            IF v_item->>'variation_id' IS NOT NULL AND NOT EXISTS (
+                SELECT 1 FROM product_variations
+                WHERE id = v_item->>'variation_id' AND product_id = v_product.id
+            ) THEN
+                RAISE EXCEPTION 'Variation % does not belong to %', v_item->>'variation_id', v_product.name
+                    USING DETAIL = 'INVALID_PRICE_LIST';
+            END IF;
+
+            IF COALESCE((v_item->>'min_quantity')::INTEGER, 0) <= 0 THEN
+                RAISE EXCEPTION 'Minimum quantities must be at least 1' USING DETAIL = 'INVALID_PRICE_LIST';
+            END IF;
+
+            IF COALESCE((v_item->>'price')::DECIMAL, -1) < 0 THEN
+                RAISE EXCEPTION 'Prices cannot be negative' USING DETAIL = 'INVALID_PRICE_LIST';
+            END IF;
+
+            IF (v_item->>'valid_to')::DATE < (v_item->>'valid_from')::DATE THEN
+                RAISE EXCEPTION 'The price for % ends before it starts', v_product.name USING DETAIL = 'INVALID_PRICE_LIST';
+            END IF;
+
+            INSERT INTO price_list_items (
+                price_list_id,
+                product_id,
+                variation_id,
+                min_quantity,
+                price,
+                valid_from,
+                valid_to
+            ) VALUES (
+                p_price_list_id,
+                v_product.id,
+                v_item->>'variation_id',
+                (v_item->>'min_quantity')::INTEGER,
+                (v_item->>'price')::DECIMAL,
+                (v_item->>'valid_from')::DATE,
+                (v_item->>'valid_to')::DATE
+            );
+
+            v_count := v_count + 1;
+        END LOOP;
+
+        UPDATE price_lists SET updated_at = NOW() WHERE id = p_price_list_id;
+    EXCEPTION
+        WHEN unique_violation THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', 'INVALID_PRICE_LIST',
+                'error_message', 'The same quantity break and start date is priced twice for one item'
+            );
+        WHEN OTHERS THEN
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code <> 'INVALID_PRICE_LIST' THEN
+                v_error_code := 'INVALID_PRICE_LIST';
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'price_list_id', p_price_list_id,
+        'item_count', v_count
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE price_lists IS 'Named selling price lists assigned to customers';
+COMMENT ON TABLE price_list_items IS 'Price of a product or variation on a price list, per quantity break and validity period';
+COMMENT ON COLUMN customers.price_list_id IS 'Price list the customer is sold at; NULL sells at the product price';
+
+-- Success message
+SELECT 'Price lists created successfully!' as message;
@@ -0,0 +1,384 @@
+-- Atomic customer return processing
+-- Return lines are matched to the exact sale_items row they came from, so a sale with
+-- several variations of the same product can be returned line by line.
+-- The return, its items, returned_quantity, restocking and the journal entry are
+-- written in ONE transaction. Returned units go back into a cost layer at the unit
+-- cost they were sold at, and that cost is taken back out of Cost of Goods Sold.
+-- Lot-tracked units go back into the lots the sale line drew them from.
+-- Serial-tracked lines name the units coming back (items[].serial_numbers); each has to
+-- be a unit sold on that sale line.
+-- Bundle lines put back the components they were sold as (create_product_bundles.sql).
+-- Each unit is credited at its share of what the customer paid for the line: its taxable
+-- amount (net of discounts) plus its tax. The tax part is taken back out of Output Tax.
+-- A return is in the currency of its sale; its journals are posted in taka at the sale's
+-- exchange rate, and the return keeps both totals.
+-- Failures roll back and report a typed error code:
+--   INVALID_RETURN, SALE_NOT_FOUND, SALE_ITEM_NOT_FOUND, RETURN_QUANTITY_EXCEEDED,
+--   INVALID_SERIAL, RETURN_INSERT_FAILED, STOCK_UPDATE_FAILED, JOURNAL_FAILED
+-- Requires create_inventory_valuation.sql, create_stock_lots.sql, create_serial_numbers.sql,
+-- create_product_bundles.sql, create_tax_codes.sql, create_currencies.sql
+
+-- 1. Link return items to the sale item they return
+ALTER TABLE return_items
+ADD COLUMN IF NOT EXISTS sale_item_id TEXT REFERENCES sale_items(id);
+
+CREATE INDEX IF NOT EXISTS idx_return_items_sale_item_id ON return_items(sale_item_id);
+
+-- Tax included in each returned line and in the return as a whole
+ALTER TABLE return_items
+ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE returns
+ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- 2. Process return function
+CREATE OR REPLACE FUNCTION process_return(
+    p_return JSONB,
+    p_items JSONB,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'INVALID_RETURN';
+    v_sale sales%ROWTYPE;
+    v_sale_item sale_items%ROWTYPE;
+    v_item JSONB;
+    v_quantity INTEGER;
+    v_return_id TEXT;
+    v_return_date DATE;
+    v_customer_name TEXT;
+    v_total_amount DECIMAL := 0;
+    v_line_total DECIMAL;
+    v_line_tax DECIMAL;
+    v_tax_total DECIMAL := 0;
+    v_exchange_rate DECIMAL;
+    v_base_total DECIMAL;
+    v_return_item_id TEXT;
+    v_sale_item_lot sale_item_lots%ROWTYPE;
+    v_lot_quantity INTEGER;
+    v_restock INTEGER;
+    v_serials TEXT[];
+    v_unit_cost DECIMAL;
+    v_bundle_cost DECIMAL;
+    v_cost_total DECIMAL := 0;
+    v_journal_entry_id TEXT;
+    v_cogs_journal_id TEXT;
+    v_tax_journal_id TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+            RAISE EXCEPTION 'A return needs at least one item' USING DETAIL = 'INVALID_RETURN';
+        END IF;
+
+        SELECT * INTO v_sale
+        FROM sales
+        WHERE id = p_return->>'sale_id';
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Sale % not found', p_return->>'sale_id' USING DETAIL = 'SALE_NOT_FOUND';
+        END IF;
+
+        v_customer_name := COALESCE(p_return->>'customer_name', v_sale.customer_name, 'Unknown Customer');
+        v_return_date := COALESCE((p_return->>'return_date')::DATE, CURRENT_DATE);
+        v_exchange_rate := COALESCE(v_sale.exchange_rate, 1);
+
+        -- Return header; the total is filled in once the lines are priced
+        v_stage := 'RETURN_INSERT_FAILED';
+        INSERT INTO returns (
+            sale_id,
+            customer_id,
+            customer_name,
+            reason,
+            return_date,
+            notes,
+            processed_by,
+            status,
+            total_amount,
+            currency,
+            exchange_rate
+        ) VALUES (
+            v_sale.id,
+            v_sale.customer_id,
+            v_customer_name,
+            COALESCE(p_return->>'reason', ''),
+            v_return_date,
+            p_return->>'notes',
+            p_created_by,
+            -- Stock, cost, refund and journals are all posted below, so the return is complete
+            'completed',
+            0,
+            COALESCE(v_sale.currency, 'BDT'),
+            v_exchange_rate
+        ) RETURNING id INTO v_return_id;
+
+        FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+        LOOP
+            v_stage := 'INVALID_RETURN';
+            v_quantity := (v_item->>'quantity')::INTEGER;
+
+            IF v_quantity IS NULL OR v_quantity <= 0 THEN
+                RAISE EXCEPTION 'Return quantity must be greater than zero' USING DETAIL = 'INVALID_RETURN';
+            END IF;
+
+            -- Lock the sale line so two returns can't both claim the same units
+            SELECT * INTO v_sale_item
+            FROM sale_items
+            WHERE id = v_item->>'sale_item_id'
+              AND sale_id = v_sale.id
+            FOR UPDATE;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Sale item % does not belong to sale %', v_item->>'sale_item_id', v_sale.id
+                    USING DETAIL = 'SALE_ITEM_NOT_FOUND';
+            END IF;
+
+            IF v_quantity > v_sale_item.quantity - COALESCE(v_sale_item.returned_quantity, 0) THEN
+                RAISE EXCEPTION 'Cannot return % of %. Sold: %, already returned: %',
+                    v_quantity, v_sale_item.product_name, v_sale_item.quantity, COALESCE(v_sale_item.returned_quantity, 0)
+                    USING DETAIL = 'RETURN_QUANTITY_EXCEEDED';
+            END IF;
+
+            -- The returned share of what the line was billed at, after discounts and with tax
+            v_line_tax := ROUND(COALESCE(v_sale_item.tax, 0) * v_quantity / v_sale_item.quantity, 2);
+            v_line_total := ROUND(COALESCE(v_sale_item.taxable_amount, v_sale_item.total, 0) * v_quantity / v_sale_item.quantity, 2)
+                + v_line_tax;
+
+            v_stage := 'RETURN_INSERT_FAILED';
+            INSERT INTO return_items (
+                return_id,
+                sale_item_id,
+                product_id,
+                product_name,
+                variation_id,
+                quantity,
+                price,
+                total,
+                tax_amount
+            ) VALUES (
+                v_return_id,
+                v_sale_item.id,
+                v_sale_item.product_id,
+                v_sale_item.product_name,
+                v_sale_item.variation_id,
+                v_quantity,
+                v_sale_item.price,
+                v_line_total,
+                v_line_tax
+            ) RETURNING id INTO v_return_item_id;
+
+            UPDATE sale_items
+            SET returned_quantity = COALESCE(returned_quantity, 0) + v_quantity,
+                updated_at = NOW()
+            WHERE id = v_sale_item.id;
+
+            v_total_amount := v_total_amount + v_line_total;
+            v_tax_total := v_tax_total + v_line_tax;
+
+            v_stage := 'STOCK_UPDATE_FAILED';
+            IF EXISTS (SELECT 1 FROM sale_item_components WHERE sale_item_id = v_sale_item.id) THEN
+                -- A bundle comes back as its components, each at the cost it was sold at
+                v_bundle_cost := restock_bundle_components(
+                    v_sale_item.id,
+                    v_sale.warehouse_id,
+                    v_quantity,
+                    v_return_id,
+                    v_return_item_id,
+                    v_return_date,
+                    'Customer return from ' || v_customer_name,
+                    p_created_by,
+                    p_return->>'reason'
+                );
+
+                UPDATE return_items
+                SET cost_amount = v_bundle_cost
+                WHERE id = v_return_item_id;
+
+                v_cost_total := v_cost_total + v_bundle_cost;
+            ELSE
+                -- Restock the exact variation in the warehouse it was sold from, back into
+                -- the lots the line was filled from, latest expiry first
+                v_restock := v_quantity;
+
+                FOR v_sale_item_lot IN
+                    SELECT *
+                    FROM sale_item_lots
+                    WHERE sale_item_id = v_sale_item.id
+                      AND returned_quantity < quantity
+                    ORDER BY expiry_date DESC NULLS FIRST, created_at DESC
+                    FOR UPDATE
+                LOOP
+                    EXIT WHEN v_restock = 0;
+                    v_lot_quantity := LEAST(v_sale_item_lot.quantity - v_sale_item_lot.returned_quantity, v_restock);
+
+                    PERFORM update_lot_stock(
+                        v_sale_item_lot.lot_id,
+                        v_lot_quantity,
+                        'return',
+                        v_return_id,
+                        'Customer return from ' || v_customer_name,
+                        p_created_by,
+                        p_return->>'reason'
+                    );
+
+                    UPDATE sale_item_lots
+                    SET returned_quantity = returned_quantity + v_lot_quantity
+                    WHERE id = v_sale_item_lot.id;
+
+                    v_restock := v_restock - v_lot_quantity;
+                END LOOP;
+
+                IF v_restock > 0 THEN
+                    PERFORM update_warehouse_stock(
+                        v_sale_item.product_id,
+                        v_sale.warehouse_id,
+                        v_sale_item.variation_id,
+                        v_restock,
+                        'return',
+                        v_return_id,
+                        'Customer return from ' || v_customer_name,
+                        p_created_by,
+                        p_return->>'reason'
+                    );
+                END IF;
+
+                IF v_sale_item.serial_numbers IS NOT NULL THEN
+                    v_serials := parse_serial_numbers(v_item->'serial_numbers', v_quantity, v_sale_item.product_name);
+
+                    PERFORM move_serial_numbers(
+                        v_sale_item.product_id,
+                        v_sale_item.variation_id,
+                        v_serials,
+                        'sold',
+                        NULL,
+                        v_sale_item.id,
+                        'in_stock',
+                        v_sale.warehouse_id,
+                        NULL,
+                        'returned',
+                        v_return_id,
+                        p_created_by,
+                        p_return->>'reason'
+                    );
+                END IF;
+
+                -- Only the product is restocked, so only its share of the sale cost comes back
+                SELECT CASE WHEN SUM(quantity) < 0 THEN SUM(total_cost) / SUM(quantity) END
+                INTO v_unit_cost
+                FROM inventory_cost_movements
+                WHERE reference_line_id = v_sale_item.id
+                  AND item_type = 'product'
+                  AND movement_type = 'sale';
+
+                IF v_unit_cost IS NOT NULL THEN
+                    PERFORM receive_inventory_cost(
+                        'product',
+                        v_sale_item.product_id,
+                        v_sale_item.variation_id,
+                        v_sale.warehouse_id,
+                        v_quantity,
+                        v_unit_cost,
+                        'return',
+                        v_return_id,
+                        v_return_item_id,
+                        v_return_date
+                    );
+
+                    UPDATE return_items
+                    SET cost_amount = ROUND(v_unit_cost * v_quantity, 2)
+                    WHERE id = v_return_item_id;
+
+                    v_cost_total := v_cost_total + ROUND(v_unit_cost * v_quantity, 2);
+                END IF;
+            END IF;
+        END LOOP;
+
+        -- The ledger is in taka, so the return is credited at the rate of its sale
+        v_base_total := ROUND(v_total_amount * v_exchange_rate, 2);
+
+        v_stage := 'RETURN_INSERT_FAILED';
+        UPDATE returns
+        SET total_amount = v_total_amount,
+            tax_amount = v_tax_total,
+            base_total_amount = v_base_total
+        WHERE id = v_return_id;
+
+        -- Return journal entry (Dr Sales Returns, Cr Accounts Receivable)
+        v_stage := 'JOURNAL_FAILED';
+        v_journal_entry_id := create_return_journal_entry(
+            v_return_id,
+            v_customer_name,
+            v_base_total,
+            v_return_date,
+            p_created_by
+        );
+
+        -- Tax on the returned goods is no longer owed (Dr Output Tax, Cr Sales Returns)
+        v_tax_journal_id := create_tax_journal_entry(
+            'sale_tax_reversal',
+            v_return_id,
+            'Output tax reversed - ' || v_customer_name || ' (Return: ' || v_return_id || ')',
+            ROUND(v_tax_total * v_exchange_rate, 2),
+            v_return_date,
+            p_created_by
+        );
+
+        -- Cost of the returned goods (Dr Inventory, Cr Cost of Goods Sold)
+        v_cogs_journal_id := create_cogs_journal_entry(
+            'return_cogs',
+            v_return_id,
+            'Cost of returned goods - ' || v_customer_name || ' (Return: ' || v_return_id || ')',
+            v_cost_total,
+            v_return_date,
+            p_created_by
+        );
+
+        INSERT INTO sale_events (sale_id, event_type, event_title, event_description, return_amount, return_reason, created_by)
+        VALUES (
+            v_sale.id,
+            'returned',
+            'Items Returned',
+            'Return of ৳' || v_base_total || ' processed (Return: ' || v_return_id || ')',
+            v_base_total,
+            p_return->>'reason',
+            p_created_by
+        );
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'INVALID_RETURN', 'SALE_NOT_FOUND', 'SALE_ITEM_NOT_FOUND', 'RETURN_QUANTITY_EXCEEDED',
+                'INVALID_SERIAL', 'RETURN_INSERT_FAILED', 'STOCK_UPDATE_FAILED', 'JOURNAL_FAILED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'return_id', v_return_id,
+        'total_amount', v_total_amount,
+        'base_total_amount', v_base_total,
+        'tax_amount', v_tax_total,
+        'journal_entry_id', v_journal_entry_id,
+        'tax_journal_entry_id', v_tax_journal_id,
+        'cogs_journal_entry_id', v_cogs_journal_id,
+        'cost_amount', v_cost_total
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION process_return IS 'Processes a customer return keyed by sale item, restocking and posting the journal atomically';
+
+-- Success message
+SELECT 'process_return function created successfully!' as message;
@@ -0,0 +1,420 @@
+-- Product bundles and kits
+-- A bundle is a product (type 'bundle') sold as one line but stocked as its components:
+-- other products and packaging items, each with a quantity per bundle. A bundle has no
+-- warehouse stock of its own:
+--   availability in a warehouse is the number of complete bundles its component stock
+--     can make (get_bundle_availability),
+--   post_sale issues the components of a bundle line from the sale's warehouse at their
+--     own cost and keeps what it issued in sale_item_components
+--     (create_post_sale_function.sql),
+--   process_return puts the components of the returned bundles back at the cost they
+--     were sold at (create_process_return_function.sql).
+-- Components are plain stocked items: other bundles and lot- or serial-tracked products
+-- cannot be components, so every unit issued can be returned exactly as it went out.
+-- Bundles are not reserved by sales orders.
+-- Errors carry a typed code in DETAIL for the calling function:
+--   INVALID_BUNDLE, INSUFFICIENT_STOCK, INSUFFICIENT_PACKAGING_STOCK
+-- Requires create_inventory_valuation.sql, create_stock_lots.sql, create_serial_numbers.sql
+
+-- 1. Bundle components
+CREATE TABLE IF NOT EXISTS product_bundle_components (
+  id TEXT PRIMARY KEY DEFAULT 'PBC' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  bundle_product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  component_type TEXT NOT NULL CHECK (component_type IN ('product', 'package')),
+  component_id TEXT NOT NULL,
+  component_variation_id TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One row per component item of a bundle (simple items have no variation)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_bundle_components_item
+ON product_bundle_components(bundle_product_id, component_type, component_id, COALESCE(component_variation_id, ''));
+
+CREATE INDEX IF NOT EXISTS idx_product_bundle_components_component
+ON product_bundle_components(component_type, component_id);
+
+-- 2. Components issued for each bundle line sold
+-- quantity is the total issued for the line; quantity_per_bundle is what one bundle took
+CREATE TABLE IF NOT EXISTS sale_item_components (
+  id TEXT PRIMARY KEY DEFAULT 'SIC' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  sale_item_id TEXT NOT NULL REFERENCES sale_items(id) ON DELETE CASCADE,
+  component_type TEXT NOT NULL CHECK (component_type IN ('product', 'package')),
+  component_id TEXT NOT NULL,
+  component_variation_id TEXT,
+  component_name TEXT NOT NULL,
+  quantity_per_bundle INTEGER NOT NULL CHECK (quantity_per_bundle > 0),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  returned_quantity INTEGER NOT NULL DEFAULT 0 CHECK (returned_quantity >= 0 AND returned_quantity <= quantity),
+  cost_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_item_components_sale_item_id ON sale_item_components(sale_item_id);
+
+-- 3. Replace the components of a bundle
+-- p_components: [{ component_type, component_id, component_variation_id, quantity }]
+CREATE OR REPLACE FUNCTION save_bundle_components(
+    p_bundle_product_id TEXT,
+    p_components JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_bundle products%ROWTYPE;
+    v_component JSONB;
+    v_product products%ROWTYPE;
+    v_count INTEGER := 0;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT * INTO v_bundle FROM products WHERE id = p_bundle_product_id FOR UPDATE;
+
+        IF NOT FOUND OR v_bundle.type IS DISTINCT FROM 'bundle' THEN
+            RAISE EXCEPTION 'Product % is not a bundle', p_bundle_product_id USING DETAIL = 'INVALID_BUNDLE';
+        END IF;
+
+        IF jsonb_array_length(COALESCE(p_components, '[]'::jsonb)) = 0 THEN
+            RAISE EXCEPTION 'A bundle needs at least one component' USING DETAIL = 'INVALID_BUNDLE';
+        END IF;
+
+        DELETE FROM product_bundle_components WHERE bundle_product_id = p_bundle_product_id;
+
+        FOR v_component IN SELECT * FROM jsonb_array_elements(p_components)
+        LOOP
+            IF COALESCE((v_component->>'quantity')::INTEGER, 0) <= 0 THEN
+                RAISE EXCEPTION 'Component quantities must be greater than zero' USING DETAIL = 'INVALID_BUNDLE';
+            END IF;
+
+            IF v_component->>'component_type' = 'product' THEN
+                SELECT * INTO v_product FROM products WHERE id = v_component->>'component_id';
+
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'Component product % not found', v_component->>'component_id' USING DETAIL = 'INVALID_BUNDLE';
+                END IF;
+
+                IF v_product.type = 'bundle' THEN
+                    RAISE EXCEPTION '% is a bundle and cannot be a component', v_product.name USING DETAIL = 'INVALID_BUNDLE';
+                END IF;
+
+                IF v_product.track_lots OR v_product.track_serials THEN
+                    RAISE EXCEPTION '% is lot- or serial-tracked and cannot be a bundle component', v_product.name
+                        USING DETAIL = 'INVALID_BUNDLE';
+                END IF;
+
+                IF (v_product.type = 'variation') <> (v_component->>'component_variation_id' IS NOT NULL) THEN
+                    RAISE EXCEPTION 'Choose a variation of % for this bundle', v_product.name USING DETAIL = 'INVALID_BUNDLE';
+                END IF;
+            ELSIF v_component->>'component_type' = 'package' THEN
+                IF NOT EXISTS (SELECT 1 FROM packaging WHERE id = v_component->>'component_id') THEN
+                    RAISE EXCEPTION 'Component packaging % not found', v_component->>'component_id' USING DETAIL = 'INVALID_BUNDLE';
+                END IF;
+            ELSE
+                RAISE EXCEPTION 'Unknown component type %', v_component->>'component_type' USING DETAIL = 'INVALID_BUNDLE';
+            END IF;
+
+            INSERT INTO product_bundle_components (
+                bundle_product_id,
+                component_type,
+                component_id,
+                component_variation_id,
+                quantity
+            ) VALUES (
+                p_bundle_product_id,
+                v_component->>'component_type',
+                v_component->>'component_id',
+                v_component->>'component_variation_id',
+                (v_component->>'quantity')::INTEGER
+            );
+
+            v_count := v_count + 1;
+        END LOOP;
+    EXCEPTION
+        WHEN unique_violation THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', 'INVALID_BUNDLE',
+                'error_message', 'The same item is listed twice in this bundle'
+            );
+        WHEN OTHERS THEN
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code <> 'INVALID_BUNDLE' THEN
+                v_error_code := 'INVALID_BUNDLE';
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'bundle_product_id', p_bundle_product_id,
+        'component_count', v_count
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. Complete bundles each warehouse's unreserved component stock can make
+CREATE OR REPLACE FUNCTION get_bundle_availability(
+    p_warehouse_id TEXT
+) RETURNS TABLE (
+    bundle_product_id TEXT,
+    available_stock INTEGER
+) AS $$
+    SELECT
+        c.bundle_product_id,
+        MIN(
+            FLOOR(
+                COALESCE(
+                    CASE c.component_type
+                        WHEN 'product' THEN (
+                            SELECT pws.current_stock - pws.reserved_stock
+                            FROM product_warehouse_stock pws
+                            WHERE pws.product_id = c.component_id
+                              AND pws.warehouse_id = p_warehouse_id
+                              AND pws.variation_id IS NOT DISTINCT FROM c.component_variation_id
+                        )
+                        ELSE (
+                            SELECT kws.current_stock - kws.reserved_stock
+                            FROM packaging_warehouse_stock kws
+                            WHERE kws.packaging_id = c.component_id
+                              AND kws.warehouse_id = p_warehouse_id
+                              AND kws.variation_id IS NOT DISTINCT FROM c.component_variation_id
+                        )
+                    END,
+                    0
+                )::DECIMAL / c.quantity
+            )
+        )::INTEGER AS available_stock
+    FROM product_bundle_components c
+    JOIN products p ON p.id = c.bundle_product_id
+    WHERE p.type = 'bundle'
+    GROUP BY c.bundle_product_id;
+$$ LANGUAGE sql STABLE;
+
+-- 5. Issue the components of a bundle line from the sale's warehouse
+-- Locks each component's stock row, moves the stock, draws the cost from the component's
+-- own cost layers and records what was issued. Returns the cost of the line.
+CREATE OR REPLACE FUNCTION issue_bundle_components(
+    p_sale_item_id TEXT,
+    p_bundle_product_id TEXT,
+    p_bundle_name TEXT,
+    p_warehouse_id TEXT,
+    p_quantity INTEGER,
+    p_sale_id TEXT,
+    p_sale_date DATE,
+    p_reason TEXT,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS DECIMAL AS $$
+DECLARE
+    v_component RECORD;
+    v_required INTEGER;
+    v_available INTEGER;
+    v_cost DECIMAL;
+    v_total_cost DECIMAL := 0;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_component IN
+        SELECT
+            c.*,
+            CASE c.component_type
+                WHEN 'product' THEN COALESCE(p.name || COALESCE(' (' || pv.sku || ')', ''), c.component_id)
+                ELSE COALESCE(k.title || COALESCE(' (' || kv.sku || ')', ''), c.component_id)
+            END AS component_name
+        FROM product_bundle_components c
+        LEFT JOIN products p ON c.component_type = 'product' AND p.id = c.component_id
+        LEFT JOIN product_variations pv ON c.component_type = 'product' AND pv.id = c.component_variation_id
+        LEFT JOIN packaging k ON c.component_type = 'package' AND k.id = c.component_id
+        LEFT JOIN packaging_variations kv ON c.component_type = 'package' AND kv.id = c.component_variation_id
+        WHERE c.bundle_product_id = p_bundle_product_id
+        ORDER BY c.component_type, c.component_id, c.component_variation_id
+    LOOP
+        v_required := v_component.quantity * p_quantity;
+        v_count := v_count + 1;
+
+        IF v_component.component_type = 'product' THEN
+            SELECT current_stock - reserved_stock INTO v_available
+            FROM product_warehouse_stock
+            WHERE product_id = v_component.component_id
+              AND warehouse_id = p_warehouse_id
+              AND variation_id IS NOT DISTINCT FROM v_component.component_variation_id
+            FOR UPDATE;
+
+            IF COALESCE(v_available, 0) < v_required THEN
+                RAISE EXCEPTION 'Insufficient stock of % for %. Needed: %, available: %',
+                    v_component.component_name, p_bundle_name, v_required, COALESCE(v_available, 0)
+                    USING DETAIL = 'INSUFFICIENT_STOCK';
+            END IF;
+
+            PERFORM update_warehouse_stock(
+                v_component.component_id,
+                p_warehouse_id,
+                v_component.component_variation_id,
+                -v_required,
+                'sale',
+                p_sale_id,
+                p_reason,
+                p_created_by,
+                'Component of ' || p_bundle_name
+            );
+        ELSE
+            SELECT current_stock - reserved_stock INTO v_available
+            FROM packaging_warehouse_stock
+            WHERE packaging_id = v_component.component_id
+              AND warehouse_id = p_warehouse_id
+              AND variation_id IS NOT DISTINCT FROM v_component.component_variation_id
+            FOR UPDATE;
+
+            IF COALESCE(v_available, 0) < v_required THEN
+                RAISE EXCEPTION 'Insufficient packaging stock of % for %. Needed: %, available: %',
+                    v_component.component_name, p_bundle_name, v_required, COALESCE(v_available, 0)
+                    USING DETAIL = 'INSUFFICIENT_PACKAGING_STOCK';
+            END IF;
+
+            PERFORM update_packaging_warehouse_stock(
+                v_component.component_id,
+                p_warehouse_id,
+                v_component.component_variation_id,
+                -v_required,
+                'sale',
+                p_sale_id,
+                p_reason,
+                p_created_by,
+                'Component of ' || p_bundle_name
+            );
+        END IF;
+
+        v_cost := issue_inventory_cost(
+            v_component.component_type,
+            v_component.component_id,
+            v_component.component_variation_id,
+            p_warehouse_id,
+            v_required,
+            'sale',
+            p_sale_id,
+            p_sale_item_id,
+            p_sale_date
+        );
+
+        INSERT INTO sale_item_components (
+            sale_item_id,
+            component_type,
+            component_id,
+            component_variation_id,
+            component_name,
+            quantity_per_bundle,
+            quantity,
+            cost_amount
+        ) VALUES (
+            p_sale_item_id,
+            v_component.component_type,
+            v_component.component_id,
+            v_component.component_variation_id,
+            v_component.component_name,
+            v_component.quantity,
+            v_required,
+            v_cost
+        );
+
+        v_total_cost := v_total_cost + v_cost;
+    END LOOP;
+
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'Bundle % has no components', p_bundle_name USING DETAIL = 'INVALID_BUNDLE';
+    END IF;
+
+    RETURN v_total_cost;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Put the components of returned bundles back into the sale's warehouse
+-- Each component comes back at the unit cost it was issued at. Returns the cost restored.
+CREATE OR REPLACE FUNCTION restock_bundle_components(
+    p_sale_item_id TEXT,
+    p_warehouse_id TEXT,
+    p_quantity INTEGER,
+    p_return_id TEXT,
+    p_return_item_id TEXT,
+    p_return_date DATE,
+    p_reason TEXT,
+    p_created_by TEXT DEFAULT 'system',
+    p_notes TEXT DEFAULT NULL
+) RETURNS DECIMAL AS $$
+DECLARE
+    v_component sale_item_components%ROWTYPE;
+    v_restock INTEGER;
+    v_unit_cost DECIMAL;
+    v_total_cost DECIMAL := 0;
+BEGIN
+    FOR v_component IN
+        SELECT *
+        FROM sale_item_components
+        WHERE sale_item_id = p_sale_item_id
+        FOR UPDATE
+    LOOP
+        v_restock := LEAST(v_component.quantity_per_bundle * p_quantity, v_component.quantity - v_component.returned_quantity);
+        CONTINUE WHEN v_restock <= 0;
+
+        IF v_component.component_type = 'product' THEN
+            PERFORM update_warehouse_stock(
+                v_component.component_id,
+                p_warehouse_id,
+                v_component.component_variation_id,
+                v_restock,
+                'return',
+                p_return_id,
+                p_reason,
+                p_created_by,
+                p_notes
+            );
+        ELSE
+            PERFORM update_packaging_warehouse_stock(
+                v_component.component_id,
+                p_warehouse_id,
+                v_component.component_variation_id,
+                v_restock,
+                'return',
+                p_return_id,
+                p_reason,
+                p_created_by,
+                p_notes
+            );
+        END IF;
+
+        v_unit_cost := v_component.cost_amount / v_component.quantity;
+
+        PERFORM receive_inventory_cost(
+            v_component.component_type,
+            v_component.component_id,
+            v_component.component_variation_id,
+            p_warehouse_id,
+            v_restock,
+            v_unit_cost,
+            'return',
+            p_return_id,
+            p_return_item_id,
+            p_return_date
+        );
+
+        UPDATE sale_item_components
+        SET returned_quantity = returned_quantity + v_restock
+        WHERE id = v_component.id;
+
+        v_total_cost := v_total_cost + ROUND(v_unit_cost * v_restock, 2);
+    END LOOP;
+
+    RETURN v_total_cost;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE product_bundle_components IS 'Products and packaging that make up one unit of a bundle product';
+COMMENT ON TABLE sale_item_components IS 'Components issued for a bundle sale line, and how many have come back';
+COMMENT ON FUNCTION get_bundle_availability IS 'Number of complete bundles the component stock of a warehouse can make';
+
+-- Success message
+SELECT 'Product bundles created successfully!' as message;
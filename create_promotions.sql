@@ -0,0 +1,168 @@
+-- Promotions
+-- Configurable discounts the sale screen applies on its own:
+--   category_discount  percentage or fixed amount per base unit off products in a category
+--   buy_x_get_y        buy buy_quantity of one item, get get_quantity of another (or the
+--                      same) item at discount_value off; 100% makes them free
+--   spend_threshold    percentage or fixed amount off the sale once it reaches min_spend
+-- Any promotion can require a coupon code, and each runs between valid_from and valid_to
+-- with an optional total usage_limit and per_customer_limit (counted in sales).
+-- The discounts are worked out by the cart and already included in the sale's line and
+-- total discounts; post_sale checks each promotion the sale claims and keeps what it cost
+-- in sale_promotions (create_post_sale_function.sql), so campaigns can be reported on.
+-- Errors carry a typed code in DETAIL for the calling function:
+--   INVALID_PROMOTION
+
+-- 1. Promotions
+-- Quantities are in base units; a NULL variation matches every variation of the product
+CREATE TABLE IF NOT EXISTS promotions (
+  id TEXT PRIMARY KEY DEFAULT 'PROMO' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  description TEXT,
+  promotion_type TEXT NOT NULL CHECK (promotion_type IN ('category_discount', 'buy_x_get_y', 'spend_threshold')),
+  discount_type TEXT NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value DECIMAL(14,2) NOT NULL CHECK (discount_value > 0),
+  category_id TEXT REFERENCES categories(id) ON DELETE CASCADE,
+  buy_product_id TEXT REFERENCES products(id) ON DELETE CASCADE,
+  buy_variation_id TEXT REFERENCES product_variations(id) ON DELETE CASCADE,
+  buy_quantity INTEGER CHECK (buy_quantity > 0),
+  get_product_id TEXT REFERENCES products(id) ON DELETE CASCADE,
+  get_variation_id TEXT REFERENCES product_variations(id) ON DELETE CASCADE,
+  get_quantity INTEGER CHECK (get_quantity > 0),
+  min_spend DECIMAL(14,2) CHECK (min_spend > 0),
+  coupon_code TEXT CHECK (coupon_code IS NULL OR btrim(coupon_code) <> ''),
+  valid_from DATE,
+  valid_to DATE,
+  usage_limit INTEGER CHECK (usage_limit > 0),
+  per_customer_limit INTEGER CHECK (per_customer_limit > 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (discount_type = 'fixed' OR discount_value <= 100),
+  CHECK (valid_to IS NULL OR valid_from IS NULL OR valid_to >= valid_from),
+  CHECK (promotion_type <> 'category_discount' OR category_id IS NOT NULL),
+  CHECK (promotion_type <> 'buy_x_get_y' OR (
+    buy_product_id IS NOT NULL AND buy_quantity IS NOT NULL AND
+    get_product_id IS NOT NULL AND get_quantity IS NOT NULL
+  )),
+  CHECK (promotion_type <> 'spend_threshold' OR min_spend IS NOT NULL)
+);
+
+-- Coupon codes are matched without regard to case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promotions_coupon_code ON promotions(lower(coupon_code)) WHERE coupon_code IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_promotions_status ON promotions(status, valid_from, valid_to);
+
+-- 2. Promotions applied to each sale, with the discount they gave
+CREATE TABLE IF NOT EXISTS sale_promotions (
+  id TEXT PRIMARY KEY DEFAULT 'SPR' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  sale_id TEXT NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  promotion_id TEXT REFERENCES promotions(id) ON DELETE SET NULL,
+  promotion_name TEXT NOT NULL,
+  coupon_code TEXT,
+  discount_amount DECIMAL(14,2) NOT NULL CHECK (discount_amount >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sale_promotions_sale_promotion ON sale_promotions(sale_id, promotion_id);
+CREATE INDEX IF NOT EXISTS idx_sale_promotions_promotion ON sale_promotions(promotion_id);
+
+-- 3. Check and record the promotions a sale claims
+-- p_promotions: [{promotion_id, coupon_code, discount_amount}]
+-- Each promotion is locked while its usage is counted so concurrent sales cannot exceed
+-- its limits. Called by post_sale inside its transaction.
+CREATE OR REPLACE FUNCTION record_sale_promotions(
+    p_sale_id TEXT,
+    p_customer_id TEXT,
+    p_sale_date DATE,
+    p_promotions JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+    v_entry JSONB;
+    v_promotion promotions%ROWTYPE;
+    v_used INTEGER;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_promotions, '[]'::jsonb))
+    LOOP
+        SELECT * INTO v_promotion
+        FROM promotions
+        WHERE id = v_entry->>'promotion_id'
+        FOR UPDATE;
+
+        IF NOT FOUND OR v_promotion.status <> 'active' THEN
+            RAISE EXCEPTION 'Promotion % is not active', COALESCE(v_promotion.name, v_entry->>'promotion_id')
+                USING DETAIL = 'INVALID_PROMOTION';
+        END IF;
+
+        IF (v_promotion.valid_from IS NOT NULL AND p_sale_date < v_promotion.valid_from)
+            OR (v_promotion.valid_to IS NOT NULL AND p_sale_date > v_promotion.valid_to) THEN
+            RAISE EXCEPTION 'Promotion % is not valid on %', v_promotion.name, p_sale_date
+                USING DETAIL = 'INVALID_PROMOTION';
+        END IF;
+
+        IF v_promotion.coupon_code IS NOT NULL
+            AND lower(COALESCE(v_entry->>'coupon_code', '')) <> lower(v_promotion.coupon_code) THEN
+            RAISE EXCEPTION 'Promotion % needs its coupon code', v_promotion.name
+                USING DETAIL = 'INVALID_PROMOTION';
+        END IF;
+
+        IF COALESCE((v_entry->>'discount_amount')::DECIMAL, -1) < 0 THEN
+            RAISE EXCEPTION 'Promotion % has no discount amount', v_promotion.name
+                USING DETAIL = 'INVALID_PROMOTION';
+        END IF;
+
+        IF v_promotion.usage_limit IS NOT NULL THEN
+            SELECT COUNT(*) INTO v_used FROM sale_promotions WHERE promotion_id = v_promotion.id;
+
+            IF v_used >= v_promotion.usage_limit THEN
+                RAISE EXCEPTION 'Promotion % has been used its % times', v_promotion.name, v_promotion.usage_limit
+                    USING DETAIL = 'INVALID_PROMOTION';
+            END IF;
+        END IF;
+
+        IF v_promotion.per_customer_limit IS NOT NULL THEN
+            IF p_customer_id IS NULL THEN
+                RAISE EXCEPTION 'Promotion % needs a customer', v_promotion.name
+                    USING DETAIL = 'INVALID_PROMOTION';
+            END IF;
+
+            SELECT COUNT(*) INTO v_used
+            FROM sale_promotions sp
+            JOIN sales s ON s.id = sp.sale_id
+            WHERE sp.promotion_id = v_promotion.id
+              AND s.customer_id = p_customer_id;
+
+            IF v_used >= v_promotion.per_customer_limit THEN
+                RAISE EXCEPTION 'This customer has used promotion % % time(s), its limit', v_promotion.name, v_used
+                    USING DETAIL = 'INVALID_PROMOTION';
+            END IF;
+        END IF;
+
+        INSERT INTO sale_promotions (
+            sale_id,
+            promotion_id,
+            promotion_name,
+            coupon_code,
+            discount_amount
+        ) VALUES (
+            p_sale_id,
+            v_promotion.id,
+            v_promotion.name,
+            CASE WHEN v_promotion.coupon_code IS NOT NULL THEN v_promotion.coupon_code END,
+            ROUND((v_entry->>'discount_amount')::DECIMAL, 2)
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE promotions IS 'Configured promotions the sale screen applies automatically';
+COMMENT ON TABLE sale_promotions IS 'Promotions applied to a sale and the discount each gave';
+COMMENT ON FUNCTION record_sale_promotions IS 'Checks the validity and usage limits of the promotions a sale claims and records them';
+
+-- Success message
+SELECT 'Promotions created successfully!' as message;
@@ -0,0 +1,152 @@
+-- Atomic supplier payment recording
+-- The payment, its journal entry (Dr Accounts Payable, Cr the payment account) and any
+-- realised exchange difference are written in ONE transaction, so a payment is never
+-- saved without its accounting.
+-- Payments are in the purchase currency. Cash leaves at the payment's exchange rate, which
+-- defaults to the purchase's; the bill was booked at the purchase rate, so the difference
+-- is posted as an exchange gain or loss (create_currencies.sql).
+-- Failures roll back and report a typed error code:
+--   INVALID_PAYMENT, PURCHASE_NOT_FOUND, PAYMENT_INSERT_FAILED, JOURNAL_FAILED
+-- Requires create_currencies.sql
+
+CREATE OR REPLACE FUNCTION record_purchase_payment(
+    p_payment JSONB,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'INVALID_PAYMENT';
+    v_purchase purchases%ROWTYPE;
+    v_payment_id TEXT;
+    v_amount DECIMAL;
+    v_payment_date DATE;
+    v_currency TEXT;
+    v_purchase_rate DECIMAL;
+    v_payment_rate DECIMAL;
+    v_exchange_difference DECIMAL;
+    v_journal_entry_id TEXT;
+    v_exchange_journal_id TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        v_amount := (p_payment->>'amount')::DECIMAL;
+
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amount must be greater than zero' USING DETAIL = 'INVALID_PAYMENT';
+        END IF;
+
+        SELECT * INTO v_purchase
+        FROM purchases
+        WHERE id = p_payment->>'purchase_id';
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Purchase % not found', p_payment->>'purchase_id' USING DETAIL = 'PURCHASE_NOT_FOUND';
+        END IF;
+
+        v_payment_date := COALESCE((p_payment->>'payment_date')::DATE, CURRENT_DATE);
+        v_currency := COALESCE(v_purchase.currency, 'BDT');
+
+        -- Taka payments are always at 1; others at the rate given, or else the purchase's
+        IF v_currency = 'BDT' THEN
+            v_purchase_rate := 1;
+            v_payment_rate := 1;
+        ELSE
+            v_purchase_rate := COALESCE(v_purchase.exchange_rate, 1);
+            v_payment_rate := COALESCE((p_payment->>'exchange_rate')::DECIMAL, v_purchase_rate);
+        END IF;
+
+        IF v_payment_rate <= 0 THEN
+            RAISE EXCEPTION 'Exchange rate must be greater than zero' USING DETAIL = 'INVALID_PAYMENT';
+        END IF;
+
+        v_payment_id := 'PAY-' || (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text;
+
+        -- The purchase triggers keep amount_paid and payment_status in sync
+        v_stage := 'PAYMENT_INSERT_FAILED';
+        INSERT INTO purchase_payments (
+            id,
+            purchase_id,
+            amount,
+            payment_method,
+            payment_date,
+            notes,
+            created_by,
+            status,
+            currency,
+            exchange_rate
+        ) VALUES (
+            v_payment_id,
+            v_purchase.id,
+            v_amount,
+            COALESCE(p_payment->>'payment_method', 'cash'),
+            v_payment_date,
+            p_payment->>'notes',
+            p_created_by,
+            'active',
+            v_currency,
+            v_payment_rate
+        );
+
+        -- Cash leaves at the payment rate (Dr Accounts Payable, Cr payment account)
+        v_stage := 'JOURNAL_FAILED';
+        v_journal_entry_id := create_payment_journal_entry(
+            v_payment_id,
+            v_purchase.id,
+            v_purchase.supplier_name,
+            ROUND(v_amount * v_payment_rate, 2),
+            v_payment_date,
+            COALESCE(p_payment->>'payment_method', 'cash'),
+            p_created_by
+        );
+
+        -- The bill was booked at the purchase rate; settling it for fewer taka is a gain
+        v_exchange_difference := ROUND(v_amount * v_purchase_rate, 2) - ROUND(v_amount * v_payment_rate, 2);
+        v_exchange_journal_id := create_exchange_difference_journal_entry(
+            'purchase_payment',
+            v_payment_id,
+            'Exchange ' || CASE WHEN v_exchange_difference > 0 THEN 'gain' ELSE 'loss' END
+                || ' on ' || v_currency || ' payment ' || v_payment_id || ' to ' || v_purchase.supplier_name,
+            v_exchange_difference,
+            v_payment_date,
+            p_created_by
+        );
+
+        UPDATE purchase_payments
+        SET journal_entry_id = v_journal_entry_id,
+            exchange_difference = v_exchange_difference,
+            exchange_journal_entry_id = v_exchange_journal_id
+        WHERE id = v_payment_id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'INVALID_PAYMENT', 'PURCHASE_NOT_FOUND', 'PAYMENT_INSERT_FAILED', 'JOURNAL_FAILED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'payment_id', v_payment_id,
+        'journal_entry_id', v_journal_entry_id,
+        'exchange_difference', v_exchange_difference,
+        'exchange_journal_entry_id', v_exchange_journal_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_purchase_payment IS 'Records a supplier payment with its journal and exchange difference atomically';
+
+-- Success message
+SELECT 'record_purchase_payment function created successfully!' as message;
@@ -0,0 +1,220 @@
+-- Atomic customer payment recording
+-- A payment received after the sale is written together with its journal entry
+-- (Dr the account it was received into, Cr Accounts Receivable) and any realised exchange
+-- difference in ONE transaction, so a payment is never saved without its accounting.
+-- Payments are in the sale currency. The money comes in at the rate on the payment date:
+-- the rate given, or else the latest one from exchange_rates, or else the sale's. The
+-- invoice was booked at the sale rate, so the difference is posted as an exchange gain or
+-- loss (create_currencies.sql).
+-- Failures roll back and report a typed error code:
+--   INVALID_PAYMENT, SALE_NOT_FOUND, PAYMENT_INSERT_FAILED, JOURNAL_FAILED
+-- Requires create_currencies.sql, create_post_sale_function.sql
+
+CREATE OR REPLACE FUNCTION record_sale_payment(
+    p_payment JSONB,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'INVALID_PAYMENT';
+    v_sale sales%ROWTYPE;
+    v_payment_id TEXT;
+    v_amount DECIMAL;
+    v_base_amount DECIMAL;
+    v_payment_date DATE;
+    v_account_id TEXT;
+    v_receivable_account_id TEXT;
+    v_currency TEXT;
+    v_sale_rate DECIMAL;
+    v_payment_rate DECIMAL;
+    v_exchange_difference DECIMAL;
+    v_journal_entry_id TEXT;
+    v_exchange_journal_id TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        v_amount := (p_payment->>'amount')::DECIMAL;
+
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'Payment amount must be greater than zero' USING DETAIL = 'INVALID_PAYMENT';
+        END IF;
+
+        SELECT * INTO v_sale
+        FROM sales
+        WHERE id = p_payment->>'sale_id';
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Sale % not found', p_payment->>'sale_id' USING DETAIL = 'SALE_NOT_FOUND';
+        END IF;
+
+        IF v_sale.status = 'cancelled' THEN
+            RAISE EXCEPTION 'Sale % is cancelled and cannot take payments', v_sale.id USING DETAIL = 'INVALID_PAYMENT';
+        END IF;
+
+        SELECT id INTO v_account_id
+        FROM accounts
+        WHERE id = p_payment->>'account_id';
+
+        IF v_account_id IS NULL THEN
+            RAISE EXCEPTION 'Choose the account the payment was received into' USING DETAIL = 'INVALID_PAYMENT';
+        END IF;
+
+        v_payment_date := COALESCE((p_payment->>'payment_date')::DATE, CURRENT_DATE);
+        v_currency := COALESCE(v_sale.currency, 'BDT');
+
+        -- Taka payments are always at 1
+        IF v_currency = 'BDT' THEN
+            v_sale_rate := 1;
+            v_payment_rate := 1;
+        ELSE
+            v_sale_rate := COALESCE(v_sale.exchange_rate, 1);
+            v_payment_rate := COALESCE(
+                (p_payment->>'exchange_rate')::DECIMAL,
+                get_exchange_rate(v_currency, v_payment_date),
+                v_sale_rate
+            );
+        END IF;
+
+        IF v_payment_rate <= 0 THEN
+            RAISE EXCEPTION 'Exchange rate must be greater than zero' USING DETAIL = 'INVALID_PAYMENT';
+        END IF;
+
+        v_payment_id := 'SPAY-' || (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::bigint::text;
+        v_base_amount := ROUND(v_amount * v_payment_rate, 2);
+
+        -- Money in at the payment rate (Dr payment account, Cr Accounts Receivable)
+        v_stage := 'JOURNAL_FAILED';
+        SELECT id INTO v_receivable_account_id
+        FROM accounts
+        WHERE account_name = 'Accounts Receivable'
+        LIMIT 1;
+
+        IF v_receivable_account_id IS NULL THEN
+            RAISE EXCEPTION 'An Accounts Receivable account is required to post a payment' USING DETAIL = 'JOURNAL_FAILED';
+        END IF;
+
+        INSERT INTO journal_entries (
+            entry_number,
+            description,
+            reference_type,
+            reference_id,
+            entry_date,
+            total_amount,
+            status,
+            created_by
+        ) VALUES (
+            'JE-SPAY-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+            'Payment received - ' || v_sale.customer_name || ' (Sale: ' || v_sale.id || ')',
+            'sale_payment',
+            v_payment_id,
+            v_payment_date,
+            v_base_amount,
+            'posted',
+            p_created_by
+        ) RETURNING id INTO v_journal_entry_id;
+
+        INSERT INTO journal_entry_lines (
+            journal_entry_id,
+            line_number,
+            account_id,
+            description,
+            debit_amount,
+            credit_amount
+        ) VALUES
+        (
+            v_journal_entry_id,
+            1,
+            v_account_id,
+            'Payment from ' || v_sale.customer_name,
+            v_base_amount,
+            0
+        ),
+        (
+            v_journal_entry_id,
+            2,
+            v_receivable_account_id,
+            'Receivable settled by ' || v_sale.customer_name,
+            0,
+            v_base_amount
+        );
+
+        -- The invoice was booked at the sale rate; collecting more taka for it is a gain
+        v_exchange_difference := v_base_amount - ROUND(v_amount * v_sale_rate, 2);
+        v_exchange_journal_id := create_exchange_difference_journal_entry(
+            'sale_payment',
+            v_payment_id,
+            'Exchange ' || CASE WHEN v_exchange_difference > 0 THEN 'gain' ELSE 'loss' END
+                || ' on ' || v_currency || ' payment ' || v_payment_id || ' from ' || v_sale.customer_name,
+            v_exchange_difference,
+            v_payment_date,
+            p_created_by
+        );
+
+        -- The sale_payments triggers keep sales.amount_paid and payment_status in sync
+        v_stage := 'PAYMENT_INSERT_FAILED';
+        INSERT INTO sale_payments (
+            id,
+            sale_id,
+            amount,
+            payment_method,
+            payment_date,
+            notes,
+            journal_entry_id,
+            account_id,
+            created_by,
+            status,
+            currency,
+            exchange_rate,
+            exchange_difference,
+            exchange_journal_entry_id
+        ) VALUES (
+            v_payment_id,
+            v_sale.id,
+            v_amount,
+            COALESCE(p_payment->>'payment_method', 'other'),
+            v_payment_date,
+            p_payment->>'notes',
+            v_journal_entry_id,
+            v_account_id,
+            p_created_by,
+            'active',
+            v_currency,
+            v_payment_rate,
+            v_exchange_difference,
+            v_exchange_journal_id
+        );
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'INVALID_PAYMENT', 'SALE_NOT_FOUND', 'PAYMENT_INSERT_FAILED', 'JOURNAL_FAILED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'payment_id', v_payment_id,
+        'exchange_rate', v_payment_rate,
+        'journal_entry_id', v_journal_entry_id,
+        'exchange_difference', v_exchange_difference,
+        'exchange_journal_entry_id', v_exchange_journal_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_sale_payment IS 'Records a customer payment with its journal and exchange difference atomically';
+
+-- Success message
+SELECT 'record_sale_payment function created successfully!' as message;
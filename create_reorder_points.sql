@@ -0,0 +1,183 @@
+-- Reorder points and replenishment suggestions
+-- Each product variation (or simple product) and packaging item can have a min/max
+-- setting per warehouse: when the stock that is available or already on order falls to
+-- the reorder point (min), order back up to max. Suppliers get an optional lead time.
+--
+-- get_replenishment_suggestions combines these settings with the sales velocity of the
+-- last N days (product sales from stock_movements, packaging sold on sale_items):
+--   reorder level = greater of the reorder point and the demand expected during the lead time
+--   target stock  = max if set, otherwise reorder level + N days of demand
+--   suggestion    = target stock - (available + on order), once that is at or below the reorder level
+-- Items without settings are only suggested once they have sales and nothing left to sell.
+-- Requires complete_erp_migration.sql
+
+-- 1. Supplier lead time
+ALTER TABLE suppliers
+ADD COLUMN IF NOT EXISTS lead_time_days INTEGER CHECK (lead_time_days >= 0);
+
+COMMENT ON COLUMN suppliers.lead_time_days IS 'Days from ordering until goods from this supplier arrive; NULL when unknown';
+
+-- 2. Min/max settings per item and warehouse
+CREATE TABLE IF NOT EXISTS reorder_points (
+  id TEXT PRIMARY KEY DEFAULT 'RP' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  item_type TEXT NOT NULL CHECK (item_type IN ('product', 'package')),
+  item_id TEXT NOT NULL, -- Can be product_id or packaging_id
+  variation_id TEXT,
+  warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  reorder_point INTEGER NOT NULL DEFAULT 0 CHECK (reorder_point >= 0),
+  max_stock INTEGER CHECK (max_stock >= 0),
+  preferred_supplier_id TEXT REFERENCES suppliers(id) ON DELETE SET NULL,
+  created_by TEXT NOT NULL DEFAULT 'system',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (max_stock IS NULL OR max_stock >= reorder_point)
+);
+
+-- One setting per item, variation and warehouse (simple items have no variation)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reorder_points_item_warehouse
+ON reorder_points(item_type, item_id, COALESCE(variation_id, ''), warehouse_id);
+
+CREATE INDEX IF NOT EXISTS idx_reorder_points_warehouse_id ON reorder_points(warehouse_id);
+
+DROP TRIGGER IF EXISTS update_reorder_points_updated_at ON reorder_points;
+CREATE TRIGGER update_reorder_points_updated_at
+  BEFORE UPDATE ON reorder_points
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. Suggested purchase quantities for one warehouse
+CREATE OR REPLACE FUNCTION get_replenishment_suggestions(
+    p_warehouse_id TEXT,
+    p_velocity_days INTEGER DEFAULT 30
+) RETURNS TABLE (
+    item_type TEXT,
+    item_id TEXT,
+    variation_id TEXT,
+    item_name TEXT,
+    sku TEXT,
+    current_stock INTEGER,
+    available_stock INTEGER,
+    on_order INTEGER,
+    reorder_point_id TEXT,
+    reorder_point INTEGER,
+    max_stock INTEGER,
+    units_sold INTEGER,
+    daily_velocity DECIMAL,
+    supplier_id TEXT,
+    supplier_name TEXT,
+    lead_time_days INTEGER,
+    unit_price DECIMAL,
+    reorder_level INTEGER,
+    target_stock INTEGER,
+    suggested_quantity INTEGER
+) AS $$
+    WITH stock AS (
+        SELECT 'product'::TEXT AS item_type, s.product_id AS item_id, s.variation_id,
+               s.current_stock, s.current_stock - s.reserved_stock AS available_stock, s.buying_price
+        FROM product_warehouse_stock s
+        WHERE s.warehouse_id = p_warehouse_id
+        UNION ALL
+        SELECT 'package', s.packaging_id, s.variation_id,
+               s.current_stock, s.current_stock - s.reserved_stock, s.buying_price
+        FROM packaging_warehouse_stock s
+        WHERE s.warehouse_id = p_warehouse_id
+    ),
+    -- Everything stocked here plus items with a setting that have never been stocked
+    items AS (
+        SELECT s.item_type, s.item_id, s.variation_id FROM stock s
+        UNION
+        SELECT rp.item_type, rp.item_id, rp.variation_id FROM reorder_points rp WHERE rp.warehouse_id = p_warehouse_id
+    ),
+    sold AS (
+        SELECT 'product'::TEXT AS item_type, m.product_id AS item_id, m.variation_id, SUM(m.quantity) AS quantity
+        FROM stock_movements m
+        WHERE m.warehouse_id = p_warehouse_id
+          AND m.movement_type = 'sale'
+          AND m.direction = 'out'
+          AND m.created_at >= NOW() - make_interval(days => p_velocity_days)
+        GROUP BY m.product_id, m.variation_id
+        UNION ALL
+        SELECT 'package', si.packaging_id, si.packaging_variation_id, SUM(si.quantity)
+        FROM sale_items si
+        JOIN sales sa ON sa.id = si.sale_id
+        WHERE sa.warehouse_id = p_warehouse_id
+          AND si.packaging_id IS NOT NULL
+          AND sa.status <> 'cancelled'
+          AND sa.sale_date >= CURRENT_DATE - p_velocity_days
+        GROUP BY si.packaging_id, si.packaging_variation_id
+    ),
+    ordered AS (
+        SELECT pi.item_type, pi.item_id, pi.variation_id,
+               SUM(pi.quantity - COALESCE(pi.received_quantity, 0)) AS quantity
+        FROM purchase_items pi
+        JOIN purchases pu ON pu.id = pi.purchase_id
+        WHERE pu.warehouse_id = p_warehouse_id
+          AND pu.status IN ('pending', 'partially_received')
+        GROUP BY pi.item_type, pi.item_id, pi.variation_id
+    ),
+    -- Supplier and price of the most recent purchase of each item, from any warehouse
+    last_purchase AS (
+        SELECT DISTINCT ON (pi.item_type, pi.item_id, pi.variation_id)
+               pi.item_type, pi.item_id, pi.variation_id, pu.supplier_id, pi.purchase_price
+        FROM purchase_items pi
+        JOIN purchases pu ON pu.id = pi.purchase_id
+        WHERE pu.status <> 'cancelled'
+        ORDER BY pi.item_type, pi.item_id, pi.variation_id, pu.purchase_date DESC, pi.created_at DESC
+    )
+    SELECT
+        i.item_type,
+        i.item_id,
+        i.variation_id,
+        COALESCE(p.name, pk.title, i.item_id),
+        COALESCE(pv.sku, p.sku, pkv.sku, pk.sku),
+        COALESCE(st.current_stock, 0),
+        COALESCE(st.available_stock, 0),
+        COALESCE(o.quantity, 0)::INTEGER,
+        rp.id,
+        rp.reorder_point,
+        rp.max_stock,
+        COALESCE(sd.quantity, 0)::INTEGER,
+        ROUND(v.daily_velocity, 2),
+        su.id,
+        su.name,
+        su.lead_time_days,
+        COALESCE(lp.purchase_price, st.buying_price, 0),
+        calc.reorder_level,
+        calc.target_stock,
+        CASE
+            WHEN (rp.id IS NOT NULL OR v.daily_velocity > 0)
+             AND COALESCE(st.available_stock, 0) + COALESCE(o.quantity, 0) <= calc.reorder_level
+            THEN GREATEST(calc.target_stock - COALESCE(st.available_stock, 0) - COALESCE(o.quantity, 0)::INTEGER, 0)
+            ELSE 0
+        END
+    FROM items i
+    LEFT JOIN stock st ON st.item_type = i.item_type AND st.item_id = i.item_id AND st.variation_id IS NOT DISTINCT FROM i.variation_id
+    LEFT JOIN reorder_points rp ON rp.warehouse_id = p_warehouse_id AND rp.item_type = i.item_type
+        AND rp.item_id = i.item_id AND rp.variation_id IS NOT DISTINCT FROM i.variation_id
+    LEFT JOIN sold sd ON sd.item_type = i.item_type AND sd.item_id = i.item_id AND sd.variation_id IS NOT DISTINCT FROM i.variation_id
+    LEFT JOIN ordered o ON o.item_type = i.item_type AND o.item_id = i.item_id AND o.variation_id IS NOT DISTINCT FROM i.variation_id
+    LEFT JOIN last_purchase lp ON lp.item_type = i.item_type AND lp.item_id = i.item_id AND lp.variation_id IS NOT DISTINCT FROM i.variation_id
+    LEFT JOIN suppliers su ON su.id = COALESCE(rp.preferred_supplier_id, lp.supplier_id)
+    LEFT JOIN products p ON i.item_type = 'product' AND p.id = i.item_id
+    LEFT JOIN product_variations pv ON i.item_type = 'product' AND pv.id = i.variation_id
+    LEFT JOIN packaging pk ON i.item_type = 'package' AND pk.id = i.item_id
+    LEFT JOIN packaging_variations pkv ON i.item_type = 'package' AND pkv.id = i.variation_id
+    CROSS JOIN LATERAL (
+        SELECT COALESCE(sd.quantity, 0)::DECIMAL / GREATEST(p_velocity_days, 1) AS daily_velocity
+    ) v
+    CROSS JOIN LATERAL (
+        SELECT
+            GREATEST(COALESCE(rp.reorder_point, 0), CEIL(v.daily_velocity * COALESCE(su.lead_time_days, 0))::INTEGER) AS reorder_level,
+            COALESCE(
+                rp.max_stock,
+                GREATEST(COALESCE(rp.reorder_point, 0), CEIL(v.daily_velocity * COALESCE(su.lead_time_days, 0))::INTEGER)
+                    + CEIL(v.daily_velocity * p_velocity_days)::INTEGER
+            ) AS target_stock
+    ) calc
+    ORDER BY 20 DESC, 4;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_replenishment_suggestions IS 'Suggests purchase quantities for a warehouse from reorder points, stock on hand and on order, and recent sales velocity';
+
+-- Success message
+SELECT 'Reorder points created successfully!' as message;
@@ -0,0 +1,234 @@
+-- Sales orders and quotations
+-- Quotation -> Sales Order -> one or more Sales
+-- Open orders reserve stock (product_warehouse_stock.reserved_stock); each sale posted
+-- against an order consumes its reservation inside post_sale.
+-- Reserving an order's stock and releasing it on cancellation are done by
+-- reserve_sales_order_stock and cancel_sales_order, each in one transaction with the
+-- lines' reserved_quantity.
+-- NOTE: re-run create_post_sale_function.sql after this script so post_sale knows about orders.
+
+-- 1. Sales orders (quotations and confirmed orders share one table)
+CREATE TABLE IF NOT EXISTS sales_orders (
+  id TEXT PRIMARY KEY DEFAULT 'SO-' || EXTRACT(EPOCH FROM NOW())::bigint::text || '-' || FLOOR(RANDOM() * 1000)::text,
+  document_type TEXT NOT NULL CHECK (document_type IN ('quotation', 'order')),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN (
+    'draft', 'sent', 'accepted', 'expired',
+    'open', 'partially_fulfilled', 'fulfilled',
+    'cancelled'
+  )),
+  quotation_id TEXT REFERENCES sales_orders(id),
+  customer_id TEXT REFERENCES customers(id),
+  customer_name TEXT NOT NULL,
+  warehouse_id TEXT REFERENCES warehouses(id),
+  warehouse_name TEXT,
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expiry_date DATE,
+  salesperson TEXT,
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_discount DECIMAL(12,2) DEFAULT 0,
+  total_discount_type TEXT,
+  tax_rate DECIMAL(5,2) DEFAULT 0,
+  tax_amount DECIMAL(12,2) DEFAULT 0,
+  total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. Sales order lines
+CREATE TABLE IF NOT EXISTS sales_order_items (
+  id TEXT PRIMARY KEY DEFAULT 'SOI-' || EXTRACT(EPOCH FROM NOW())::bigint::text || '-' || FLOOR(RANDOM() * 100000)::text,
+  sales_order_id TEXT NOT NULL REFERENCES sales_orders(id) ON DELETE CASCADE,
+  product_id TEXT NOT NULL REFERENCES products(id),
+  product_name TEXT NOT NULL,
+  variation_id TEXT REFERENCES product_variations(id),
+  packaging_id TEXT REFERENCES packaging(id),
+  packaging_name TEXT,
+  packaging_variation_id TEXT REFERENCES packaging_variations(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reserved_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0),
+  fulfilled_quantity INTEGER NOT NULL DEFAULT 0 CHECK (fulfilled_quantity >= 0),
+  price DECIMAL(12,2) NOT NULL,
+  discount DECIMAL(12,2) DEFAULT 0,
+  total DECIMAL(12,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT fulfilled_not_more_than_ordered CHECK (fulfilled_quantity <= quantity)
+);
+
+-- 3. Link sales back to the order they fulfil
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS sales_order_id TEXT REFERENCES sales_orders(id);
+
+ALTER TABLE sale_items
+ADD COLUMN IF NOT EXISTS sales_order_item_id TEXT REFERENCES sales_order_items(id);
+
+-- 4. Reuse sale_events as the timeline for quotations and orders
+ALTER TABLE sale_events
+ADD COLUMN IF NOT EXISTS sales_order_id TEXT REFERENCES sales_orders(id) ON DELETE CASCADE;
+
+ALTER TABLE sale_events
+ALTER COLUMN sale_id DROP NOT NULL;
+
+ALTER TABLE sale_events
+DROP CONSTRAINT IF EXISTS sale_events_document_check;
+
+ALTER TABLE sale_events
+ADD CONSTRAINT sale_events_document_check
+CHECK (sale_id IS NOT NULL OR sales_order_id IS NOT NULL);
+
+ALTER TABLE sale_events
+DROP CONSTRAINT IF EXISTS sale_events_event_type_check;
+
+ALTER TABLE sale_events
+ADD CONSTRAINT sale_events_event_type_check
+CHECK (event_type IN (
+  'order_placed', 'payment_made', 'payment_voided', 'returned', 'cancelled', 'status_change',
+  'quotation_created', 'quotation_sent', 'quotation_accepted', 'quotation_expired',
+  'order_confirmed', 'order_fulfilled'
+));
+
+-- 5. Indexes
+CREATE INDEX IF NOT EXISTS idx_sales_orders_document_type ON sales_orders(document_type);
+CREATE INDEX IF NOT EXISTS idx_sales_orders_status ON sales_orders(status);
+CREATE INDEX IF NOT EXISTS idx_sales_orders_customer_id ON sales_orders(customer_id);
+CREATE INDEX IF NOT EXISTS idx_sales_orders_expiry_date ON sales_orders(expiry_date);
+CREATE INDEX IF NOT EXISTS idx_sales_order_items_order_id ON sales_order_items(sales_order_id);
+CREATE INDEX IF NOT EXISTS idx_sales_sales_order_id ON sales(sales_order_id);
+CREATE INDEX IF NOT EXISTS idx_sale_events_sales_order_id ON sale_events(sales_order_id);
+
+-- 6. Stock reservations
+-- Reserves each line's outstanding quantity in the order's warehouse; if any line
+-- can't be reserved, none are
+CREATE OR REPLACE FUNCTION reserve_sales_order_stock(
+    p_sales_order_id TEXT
+) RETURNS VOID AS $$
+DECLARE
+    v_order sales_orders%ROWTYPE;
+    v_item sales_order_items%ROWTYPE;
+    v_quantity INTEGER;
+BEGIN
+    SELECT * INTO v_order
+    FROM sales_orders
+    WHERE id = p_sales_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_order.warehouse_id IS NULL THEN
+        RAISE EXCEPTION 'Sales order % has no warehouse to reserve stock in', p_sales_order_id;
+    END IF;
+
+    FOR v_item IN
+        SELECT * FROM sales_order_items
+        WHERE sales_order_id = p_sales_order_id
+        FOR UPDATE
+    LOOP
+        v_quantity := v_item.quantity - v_item.fulfilled_quantity - v_item.reserved_quantity;
+        CONTINUE WHEN v_quantity <= 0;
+
+        UPDATE product_warehouse_stock
+        SET reserved_stock = reserved_stock + v_quantity,
+            updated_at = NOW()
+        WHERE product_id = v_item.product_id
+          AND warehouse_id = v_order.warehouse_id
+          AND (
+            (v_item.variation_id IS NULL AND variation_id IS NULL) OR
+            (variation_id = v_item.variation_id)
+          )
+          AND current_stock - reserved_stock >= v_quantity;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Not enough available stock to reserve % of %', v_quantity, v_item.product_name;
+        END IF;
+
+        IF v_item.packaging_id IS NOT NULL THEN
+            UPDATE packaging_warehouse_stock
+            SET reserved_stock = reserved_stock + v_quantity,
+                updated_at = NOW()
+            WHERE packaging_id = v_item.packaging_id
+              AND warehouse_id = v_order.warehouse_id
+              AND (
+                (v_item.packaging_variation_id IS NULL AND variation_id IS NULL) OR
+                (variation_id = v_item.packaging_variation_id)
+              )
+              AND current_stock - reserved_stock >= v_quantity;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Not enough available packaging stock to reserve % of %', v_quantity, v_item.packaging_name;
+            END IF;
+        END IF;
+
+        UPDATE sales_order_items
+        SET reserved_quantity = reserved_quantity + v_quantity,
+            updated_at = NOW()
+        WHERE id = v_item.id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cancels a quotation or order, releasing exactly what its lines still have reserved
+CREATE OR REPLACE FUNCTION cancel_sales_order(
+    p_sales_order_id TEXT
+) RETURNS sales_orders AS $$
+DECLARE
+    v_order sales_orders%ROWTYPE;
+    v_item sales_order_items%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order
+    FROM sales_orders
+    WHERE id = p_sales_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sales order % not found', p_sales_order_id;
+    END IF;
+
+    FOR v_item IN
+        SELECT * FROM sales_order_items
+        WHERE sales_order_id = p_sales_order_id
+          AND reserved_quantity > 0
+        FOR UPDATE
+    LOOP
+        UPDATE product_warehouse_stock
+        SET reserved_stock = GREATEST(reserved_stock - v_item.reserved_quantity, 0),
+            updated_at = NOW()
+        WHERE product_id = v_item.product_id
+          AND warehouse_id = v_order.warehouse_id
+          AND (
+            (v_item.variation_id IS NULL AND variation_id IS NULL) OR
+            (variation_id = v_item.variation_id)
+          );
+
+        IF v_item.packaging_id IS NOT NULL THEN
+            UPDATE packaging_warehouse_stock
+            SET reserved_stock = GREATEST(reserved_stock - v_item.reserved_quantity, 0),
+                updated_at = NOW()
+            WHERE packaging_id = v_item.packaging_id
+              AND warehouse_id = v_order.warehouse_id
+              AND (
+                (v_item.packaging_variation_id IS NULL AND variation_id IS NULL) OR
+                (variation_id = v_item.packaging_variation_id)
+              );
+        END IF;
+
+        UPDATE sales_order_items
+        SET reserved_quantity = 0,
+            updated_at = NOW()
+        WHERE id = v_item.id;
+    END LOOP;
+
+    UPDATE sales_orders
+    SET status = 'cancelled',
+        updated_at = NOW()
+    WHERE id = p_sales_order_id
+    RETURNING * INTO v_order;
+
+    RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION reserve_sales_order_stock IS 'Reserves the outstanding stock of a sales order, all lines or none';
+COMMENT ON FUNCTION cancel_sales_order IS 'Cancels a quotation or sales order and releases its reserved stock';
+
+-- Success message
+SELECT 'Sales orders and quotations created successfully!' as message;
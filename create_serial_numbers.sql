@@ -0,0 +1,256 @@
+-- Serial numbers for individually tracked units
+-- Products flagged with track_serials are received, sold, transferred and returned by
+-- serial number, so every unit can be traced from the goods-received note that brought it
+-- in to the customer it went to. Each line of such a product names exactly as many serial
+-- numbers as its quantity:
+--   goods-received notes register the serials received (create_goods_received_notes.sql),
+--   post_sale marks the serials sold to the sale line (create_post_sale_function.sql),
+--   process_return only accepts serials sold on the line being returned
+--     (create_process_return_function.sql),
+--   transfer orders carry the serials sent and received (create_transfer_orders.sql).
+-- Quantities still move through update_warehouse_stock; serial_numbers records which
+-- units they are and serial_number_events keeps each unit's history. Purchase returns,
+-- stock counts and manual adjustments do not name serials.
+-- Errors carry a typed code in DETAIL for the calling function:
+--   INVALID_SERIAL
+-- Requires create_goods_received_notes.sql, create_transfer_orders.sql
+
+-- 1. Serial tracking per product
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS track_serials BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN products.track_serials IS 'Whether each unit of this product is received, sold and returned by serial number';
+
+-- 2. One row per unit: where it is now
+-- holder_id is the document the unit currently belongs to: the sale item it was sold on,
+-- or the transfer order it is travelling with
+CREATE TABLE IF NOT EXISTS serial_numbers (
+  id TEXT PRIMARY KEY DEFAULT 'SER' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variation_id TEXT REFERENCES product_variations(id) ON DELETE CASCADE,
+  serial_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'in_transit', 'sold', 'lost', 'removed')),
+  warehouse_id TEXT REFERENCES warehouses(id) ON DELETE SET NULL,
+  holder_id TEXT,
+  grn_item_id TEXT REFERENCES goods_received_note_items(id) ON DELETE SET NULL,
+  created_by TEXT NOT NULL DEFAULT 'system',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_serial_numbers_product_serial ON serial_numbers(product_id, serial_number);
+CREATE INDEX IF NOT EXISTS idx_serial_numbers_serial_number ON serial_numbers(serial_number);
+CREATE INDEX IF NOT EXISTS idx_serial_numbers_holder_id ON serial_numbers(holder_id);
+CREATE INDEX IF NOT EXISTS idx_serial_numbers_stock
+ON serial_numbers(product_id, variation_id, warehouse_id) WHERE status = 'in_stock';
+
+DROP TRIGGER IF EXISTS update_serial_numbers_updated_at ON serial_numbers;
+CREATE TRIGGER update_serial_numbers_updated_at
+  BEFORE UPDATE ON serial_numbers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. Unit history
+-- reference_id is the document behind the event: the GRN for receipts, the sale for
+-- sales, the return for returns and the transfer order for transfers
+CREATE TABLE IF NOT EXISTS serial_number_events (
+  id TEXT PRIMARY KEY DEFAULT 'SNE' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  serial_number_id TEXT NOT NULL REFERENCES serial_numbers(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'received',
+    'receipt_cancelled',
+    'sold',
+    'returned',
+    'transferred_out',
+    'transferred_in',
+    'lost_in_transit'
+  )),
+  warehouse_id TEXT REFERENCES warehouses(id) ON DELETE SET NULL,
+  reference_id TEXT,
+  notes TEXT,
+  created_by TEXT NOT NULL DEFAULT 'system',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_serial_number_events_serial_number_id ON serial_number_events(serial_number_id);
+CREATE INDEX IF NOT EXISTS idx_serial_number_events_reference_id ON serial_number_events(reference_id);
+
+-- 4. The serials named on receipt, sale and transfer lines, kept with the document
+ALTER TABLE goods_received_note_items
+ADD COLUMN IF NOT EXISTS serial_numbers TEXT[];
+
+ALTER TABLE sale_items
+ADD COLUMN IF NOT EXISTS serial_numbers TEXT[];
+
+ALTER TABLE transfer_order_items
+ADD COLUMN IF NOT EXISTS serial_numbers TEXT[];
+
+ALTER TABLE transfer_order_receipt_items
+ADD COLUMN IF NOT EXISTS serial_numbers TEXT[],
+ADD COLUMN IF NOT EXISTS discrepancy_serial_numbers TEXT[];
+
+-- 5. Serials named on a line: trimmed, exactly p_quantity of them and no repeats
+CREATE OR REPLACE FUNCTION parse_serial_numbers(
+    p_serials JSONB,
+    p_quantity INTEGER,
+    p_item_name TEXT
+) RETURNS TEXT[] AS $$
+DECLARE
+    v_serials TEXT[];
+BEGIN
+    SELECT COALESCE(array_agg(NULLIF(TRIM(value), '')), '{}')
+    INTO v_serials
+    FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(p_serials) = 'array' THEN p_serials ELSE '[]'::JSONB END
+    );
+
+    IF array_position(v_serials, NULL) IS NOT NULL THEN
+        RAISE EXCEPTION 'Serial numbers for % cannot be blank', p_item_name USING DETAIL = 'INVALID_SERIAL';
+    END IF;
+
+    IF COALESCE(array_length(v_serials, 1), 0) <> p_quantity THEN
+        RAISE EXCEPTION '% needs % serial numbers but % were given',
+            p_item_name, p_quantity, COALESCE(array_length(v_serials, 1), 0)
+            USING DETAIL = 'INVALID_SERIAL';
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT s) FROM unnest(v_serials) s) <> p_quantity THEN
+        RAISE EXCEPTION 'The same serial number is entered twice for %', p_item_name USING DETAIL = 'INVALID_SERIAL';
+    END IF;
+
+    RETURN v_serials;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Register received units in a warehouse. A serial whose earlier receipt was cancelled
+-- can be received again; any other serial already on record is rejected.
+CREATE OR REPLACE FUNCTION receive_serial_numbers(
+    p_product_id TEXT,
+    p_variation_id TEXT,
+    p_warehouse_id TEXT,
+    p_serials TEXT[],
+    p_grn_item_id TEXT,
+    p_reference_id TEXT,
+    p_created_by TEXT DEFAULT 'system',
+    p_notes TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+DECLARE
+    v_serial TEXT;
+    v_unit serial_numbers%ROWTYPE;
+BEGIN
+    FOREACH v_serial IN ARRAY p_serials
+    LOOP
+        SELECT * INTO v_unit
+        FROM serial_numbers
+        WHERE product_id = p_product_id
+          AND serial_number = v_serial
+        FOR UPDATE;
+
+        IF FOUND AND v_unit.status <> 'removed' THEN
+            RAISE EXCEPTION 'Serial number % is already recorded (%)', v_serial, replace(v_unit.status, '_', ' ')
+                USING DETAIL = 'INVALID_SERIAL';
+        END IF;
+
+        IF FOUND THEN
+            UPDATE serial_numbers
+            SET variation_id = p_variation_id,
+                status = 'in_stock',
+                warehouse_id = p_warehouse_id,
+                holder_id = NULL,
+                grn_item_id = p_grn_item_id
+            WHERE id = v_unit.id;
+        ELSE
+            INSERT INTO serial_numbers (
+                product_id,
+                variation_id,
+                serial_number,
+                status,
+                warehouse_id,
+                grn_item_id,
+                created_by
+            ) VALUES (
+                p_product_id,
+                p_variation_id,
+                v_serial,
+                'in_stock',
+                p_warehouse_id,
+                p_grn_item_id,
+                p_created_by
+            ) RETURNING * INTO v_unit;
+        END IF;
+
+        INSERT INTO serial_number_events (serial_number_id, event_type, warehouse_id, reference_id, notes, created_by)
+        VALUES (v_unit.id, 'received', p_warehouse_id, p_reference_id, p_notes, p_created_by);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 7. Move named units from one state to the next. Every serial has to be a unit of the
+-- item in the expected state: in stock in p_from_warehouse_id, or held by p_from_holder_id
+-- (the sale item it was sold on, the transfer order it travels with).
+CREATE OR REPLACE FUNCTION move_serial_numbers(
+    p_product_id TEXT,
+    p_variation_id TEXT,
+    p_serials TEXT[],
+    p_from_status TEXT,
+    p_from_warehouse_id TEXT,
+    p_from_holder_id TEXT,
+    p_to_status TEXT,
+    p_to_warehouse_id TEXT,
+    p_to_holder_id TEXT,
+    p_event_type TEXT,
+    p_reference_id TEXT,
+    p_created_by TEXT DEFAULT 'system',
+    p_notes TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+DECLARE
+    v_serial TEXT;
+    v_unit serial_numbers%ROWTYPE;
+BEGIN
+    FOREACH v_serial IN ARRAY p_serials
+    LOOP
+        SELECT * INTO v_unit
+        FROM serial_numbers
+        WHERE product_id = p_product_id
+          AND variation_id IS NOT DISTINCT FROM p_variation_id
+          AND serial_number = v_serial
+        FOR UPDATE;
+
+        IF NOT FOUND
+           OR v_unit.status <> p_from_status
+           OR (p_from_warehouse_id IS NOT NULL AND v_unit.warehouse_id IS DISTINCT FROM p_from_warehouse_id)
+           OR (p_from_holder_id IS NOT NULL AND v_unit.holder_id IS DISTINCT FROM p_from_holder_id) THEN
+            RAISE EXCEPTION 'Serial number % %', v_serial, CASE p_from_status
+                    WHEN 'in_stock' THEN 'is not in stock in this warehouse'
+                    WHEN 'sold' THEN 'was not sold on this sale line'
+                    WHEN 'in_transit' THEN 'is not in transit on this transfer'
+                    ELSE 'is not available'
+                END
+                USING DETAIL = 'INVALID_SERIAL';
+        END IF;
+
+        UPDATE serial_numbers
+        SET status = p_to_status,
+            warehouse_id = p_to_warehouse_id,
+            holder_id = p_to_holder_id
+        WHERE id = v_unit.id;
+
+        INSERT INTO serial_number_events (serial_number_id, event_type, warehouse_id, reference_id, notes, created_by)
+        VALUES (
+            v_unit.id,
+            p_event_type,
+            COALESCE(p_to_warehouse_id, v_unit.warehouse_id),
+            p_reference_id,
+            p_notes,
+            p_created_by
+        );
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION parse_serial_numbers IS 'Validates the serial numbers named on a line against its quantity';
+COMMENT ON FUNCTION receive_serial_numbers IS 'Registers received units by serial number in a warehouse';
+COMMENT ON FUNCTION move_serial_numbers IS 'Moves units by serial number between states and records the event';
+
+-- Success message
+SELECT 'Serial numbers created successfully!' as message;
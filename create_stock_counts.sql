@@ -0,0 +1,487 @@
+-- Physical stock count sessions
+-- A count session freezes the expected quantity of every product and/or packaging item
+-- in one warehouse. Counters enter what is actually on the shelf; in a blind count the
+-- expected quantities are hidden until counting is submitted.
+--
+-- Sessions move counting -> submitted -> posted (or cancelled).
+-- post_stock_count applies each approved variance as an 'adjustment' stock movement
+-- through update_warehouse_stock / update_packaging_warehouse_stock, moves the cost
+-- layers, and posts one shrinkage journal in ONE transaction:
+--   losses: Dr Inventory Shrinkage, Cr Inventory
+--   gains:  Dr Inventory, Cr Inventory Shrinkage
+-- The variance is applied as a delta, so sales made while the count was running are kept.
+-- Failures roll back every step and are reported as a typed error code:
+--   COUNT_NOT_FOUND, INVALID_COUNT, INVALID_STATUS, UNCOUNTED_LINES,
+--   STOCK_UPDATE_FAILED, JOURNAL_FAILED, PERIOD_LOCKED
+-- Requires create_inventory_valuation.sql, create_fiscal_periods.sql
+
+-- 1. Count session header
+CREATE TABLE IF NOT EXISTS stock_count_sessions (
+  id TEXT PRIMARY KEY DEFAULT 'SC' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  count_number TEXT NOT NULL UNIQUE,
+  warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  warehouse_name TEXT NOT NULL, -- Denormalized for performance
+  scope TEXT NOT NULL DEFAULT 'all' CHECK (scope IN ('all', 'products', 'packaging')),
+  blind_count BOOLEAN NOT NULL DEFAULT false,
+  count_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  status TEXT NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'posted', 'cancelled')),
+  total_lines INTEGER NOT NULL DEFAULT 0,
+  variance_quantity INTEGER NOT NULL DEFAULT 0,
+  variance_value DECIMAL(12,2) NOT NULL DEFAULT 0,
+  journal_entry_id TEXT,
+  notes TEXT,
+  submitted_at TIMESTAMPTZ,
+  submitted_by TEXT,
+  posted_at TIMESTAMPTZ,
+  posted_by TEXT,
+  cancelled_at TIMESTAMPTZ,
+  cancelled_by TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Count lines with the frozen expected quantity and unit cost
+CREATE TABLE IF NOT EXISTS stock_count_lines (
+  id TEXT PRIMARY KEY DEFAULT 'SCL' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  session_id TEXT NOT NULL REFERENCES stock_count_sessions(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('product', 'package')),
+  item_id TEXT NOT NULL, -- Can be product_id or packaging_id
+  variation_id TEXT,
+  item_name TEXT NOT NULL,
+  sku TEXT,
+  expected_quantity INTEGER NOT NULL,
+  unit_cost DECIMAL(12,4) NOT NULL DEFAULT 0,
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  variance_quantity INTEGER GENERATED ALWAYS AS (counted_quantity - expected_quantity) STORED,
+  approved BOOLEAN NOT NULL DEFAULT true,
+  posted_value DECIMAL(12,2),
+  notes TEXT,
+  counted_by TEXT,
+  counted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_count_sessions_warehouse_id ON stock_count_sessions(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_count_sessions_status ON stock_count_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_session_id ON stock_count_lines(session_id);
+
+-- Only one open count per warehouse at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_count_sessions_open_warehouse
+ON stock_count_sessions(warehouse_id)
+WHERE status IN ('counting', 'submitted');
+
+-- 3. Counts can only be edited while counting
+CREATE OR REPLACE FUNCTION guard_stock_count_lines()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_status TEXT;
+BEGIN
+    SELECT status INTO v_status FROM stock_count_sessions WHERE id = NEW.session_id;
+
+    IF v_status = 'counting' THEN
+        NEW.updated_at := NOW();
+        RETURN NEW;
+    END IF;
+
+    -- Once submitted only the approval (and the posted value) can change
+    IF v_status = 'submitted'
+       AND NEW.counted_quantity IS NOT DISTINCT FROM OLD.counted_quantity
+       AND NEW.expected_quantity = OLD.expected_quantity THEN
+        NEW.updated_at := NOW();
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Stock count % is % and its lines can no longer be changed', NEW.session_id, v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_guard_stock_count_lines ON stock_count_lines;
+CREATE TRIGGER trigger_guard_stock_count_lines
+  BEFORE UPDATE ON stock_count_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_stock_count_lines();
+
+-- 4. Start a count: create the session and freeze the expected quantities
+-- p_session: { warehouse_id, scope, blind_count, count_date, notes }
+CREATE OR REPLACE FUNCTION start_stock_count(
+    p_session JSONB,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_session_id TEXT;
+    v_warehouse_id TEXT;
+    v_warehouse_name TEXT;
+    v_scope TEXT;
+    v_total_lines INTEGER;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        v_warehouse_id := p_session->>'warehouse_id';
+        v_scope := COALESCE(p_session->>'scope', 'all');
+
+        SELECT name INTO v_warehouse_name FROM warehouses WHERE id = v_warehouse_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Warehouse % not found', v_warehouse_id USING DETAIL = 'INVALID_COUNT';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM stock_count_sessions
+            WHERE warehouse_id = v_warehouse_id AND status IN ('counting', 'submitted')
+        ) THEN
+            RAISE EXCEPTION '% already has a stock count in progress', v_warehouse_name USING DETAIL = 'INVALID_STATUS';
+        END IF;
+
+        INSERT INTO stock_count_sessions (
+            count_number,
+            warehouse_id,
+            warehouse_name,
+            scope,
+            blind_count,
+            count_date,
+            notes,
+            created_by
+        ) VALUES (
+            'SC-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+            v_warehouse_id,
+            v_warehouse_name,
+            v_scope,
+            COALESCE((p_session->>'blind_count')::BOOLEAN, false),
+            COALESCE((p_session->>'count_date')::DATE, CURRENT_DATE),
+            p_session->>'notes',
+            p_created_by
+        ) RETURNING id INTO v_session_id;
+
+        -- Expected quantities and unit costs as they stand right now
+        IF v_scope IN ('all', 'products') THEN
+            INSERT INTO stock_count_lines (session_id, item_type, item_id, variation_id, item_name, sku, expected_quantity, unit_cost)
+            SELECT
+                v_session_id,
+                'product',
+                pws.product_id,
+                pws.variation_id,
+                p.name,
+                COALESCE(pv.sku, p.sku),
+                pws.current_stock,
+                COALESCE(
+                    (SELECT CASE WHEN SUM(m.quantity) > 0 THEN SUM(m.total_cost) / SUM(m.quantity) END
+                     FROM inventory_cost_movements m
+                     WHERE m.item_type = 'product'
+                       AND m.item_id = pws.product_id
+                       AND m.warehouse_id = pws.warehouse_id
+                       AND m.variation_id IS NOT DISTINCT FROM pws.variation_id),
+                    pws.buying_price,
+                    0
+                )
+            FROM product_warehouse_stock pws
+            JOIN products p ON p.id = pws.product_id
+            LEFT JOIN product_variations pv ON pv.id = pws.variation_id
+            WHERE pws.warehouse_id = v_warehouse_id
+            ORDER BY p.name, pv.sku;
+        END IF;
+
+        IF v_scope IN ('all', 'packaging') THEN
+            INSERT INTO stock_count_lines (session_id, item_type, item_id, variation_id, item_name, sku, expected_quantity, unit_cost)
+            SELECT
+                v_session_id,
+                'package',
+                pws.packaging_id,
+                pws.variation_id,
+                pk.title,
+                COALESCE(pkv.sku, pk.sku),
+                pws.current_stock,
+                COALESCE(
+                    (SELECT CASE WHEN SUM(m.quantity) > 0 THEN SUM(m.total_cost) / SUM(m.quantity) END
+                     FROM inventory_cost_movements m
+                     WHERE m.item_type = 'package'
+                       AND m.item_id = pws.packaging_id
+                       AND m.warehouse_id = pws.warehouse_id
+                       AND m.variation_id IS NOT DISTINCT FROM pws.variation_id),
+                    pws.buying_price,
+                    0
+                )
+            FROM packaging_warehouse_stock pws
+            JOIN packaging pk ON pk.id = pws.packaging_id
+            LEFT JOIN packaging_variations pkv ON pkv.id = pws.variation_id
+            WHERE pws.warehouse_id = v_warehouse_id
+            ORDER BY pk.title, pkv.sku;
+        END IF;
+
+        SELECT COUNT(*) INTO v_total_lines FROM stock_count_lines WHERE session_id = v_session_id;
+
+        IF v_total_lines = 0 THEN
+            RAISE EXCEPTION '% has no stock to count', v_warehouse_name USING DETAIL = 'INVALID_COUNT';
+        END IF;
+
+        UPDATE stock_count_sessions
+        SET total_lines = v_total_lines
+        WHERE id = v_session_id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN ('INVALID_COUNT', 'INVALID_STATUS') THEN
+                v_error_code := 'INVALID_COUNT';
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_id', v_session_id,
+        'total_lines', v_total_lines
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Post the approved variances
+CREATE OR REPLACE FUNCTION post_stock_count(
+    p_session_id TEXT,
+    p_posted_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'INVALID_STATUS';
+    v_session stock_count_sessions%ROWTYPE;
+    v_line stock_count_lines%ROWTYPE;
+    v_uncounted INTEGER;
+    v_line_value DECIMAL;
+    v_losses DECIMAL := 0;
+    v_gains DECIMAL := 0;
+    v_variance_quantity INTEGER := 0;
+    v_inventory_account_id TEXT;
+    v_shrinkage_account_id TEXT;
+    v_journal_entry_id TEXT;
+    v_line_number INTEGER := 0;
+    v_description TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT * INTO v_session
+        FROM stock_count_sessions
+        WHERE id = p_session_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Stock count % not found', p_session_id USING DETAIL = 'COUNT_NOT_FOUND';
+        END IF;
+
+        IF v_session.status <> 'submitted' THEN
+            RAISE EXCEPTION 'Only submitted counts can be posted; % is %', v_session.count_number, v_session.status
+                USING DETAIL = 'INVALID_STATUS';
+        END IF;
+
+        SELECT COUNT(*) INTO v_uncounted
+        FROM stock_count_lines
+        WHERE session_id = v_session.id
+          AND approved
+          AND counted_quantity IS NULL;
+
+        IF v_uncounted > 0 THEN
+            RAISE EXCEPTION '% approved lines have no counted quantity', v_uncounted USING DETAIL = 'UNCOUNTED_LINES';
+        END IF;
+
+        v_description := 'Stock count ' || v_session.count_number || ' - ' || v_session.warehouse_name;
+
+        FOR v_line IN
+            SELECT *
+            FROM stock_count_lines
+            WHERE session_id = v_session.id
+              AND approved
+              AND variance_quantity <> 0
+            ORDER BY created_at, id
+        LOOP
+            v_stage := 'STOCK_UPDATE_FAILED';
+
+            IF v_line.item_type = 'product' THEN
+                PERFORM update_warehouse_stock(
+                    v_line.item_id,
+                    v_session.warehouse_id,
+                    v_line.variation_id,
+                    v_line.variance_quantity,
+                    'adjustment',
+                    v_session.id,
+                    v_description,
+                    p_posted_by,
+                    v_line.notes
+                );
+            ELSE
+                PERFORM update_packaging_warehouse_stock(
+                    v_line.item_id,
+                    v_session.warehouse_id,
+                    v_line.variation_id,
+                    v_line.variance_quantity,
+                    'adjustment',
+                    v_session.id,
+                    v_description,
+                    p_posted_by,
+                    v_line.notes
+                );
+            END IF;
+
+            -- Missing units leave at their layer cost, found units come in at the frozen cost
+            IF v_line.variance_quantity < 0 THEN
+                v_line_value := issue_inventory_cost(
+                    v_line.item_type,
+                    v_line.item_id,
+                    v_line.variation_id,
+                    v_session.warehouse_id,
+                    -v_line.variance_quantity,
+                    'adjustment',
+                    v_session.id,
+                    v_line.id,
+                    v_session.count_date
+                );
+                v_losses := v_losses + v_line_value;
+            ELSE
+                PERFORM receive_inventory_cost(
+                    v_line.item_type,
+                    v_line.item_id,
+                    v_line.variation_id,
+                    v_session.warehouse_id,
+                    v_line.variance_quantity,
+                    v_line.unit_cost,
+                    'adjustment',
+                    v_session.id,
+                    v_line.id,
+                    v_session.count_date
+                );
+                v_line_value := ROUND(v_line.variance_quantity * v_line.unit_cost, 2);
+                v_gains := v_gains + v_line_value;
+            END IF;
+
+            UPDATE stock_count_lines
+            SET posted_value = CASE WHEN v_line.variance_quantity < 0 THEN -v_line_value ELSE v_line_value END
+            WHERE id = v_line.id;
+
+            v_variance_quantity := v_variance_quantity + v_line.variance_quantity;
+        END LOOP;
+
+        -- Shrinkage journal
+        v_stage := 'JOURNAL_FAILED';
+        IF v_losses > 0 OR v_gains > 0 THEN
+            SELECT id INTO v_inventory_account_id FROM accounts WHERE account_name = 'Inventory' LIMIT 1;
+
+            SELECT id INTO v_shrinkage_account_id
+            FROM accounts
+            WHERE account_name = 'Inventory Shrinkage'
+            LIMIT 1;
+
+            IF v_shrinkage_account_id IS NULL THEN
+                INSERT INTO accounts (
+                    account_number,
+                    account_name,
+                    account_code,
+                    category_id,
+                    description
+                )
+                SELECT
+                    '5100',
+                    'Inventory Shrinkage',
+                    'SHRINK',
+                    id,
+                    'Stock lost, damaged or found in physical counts'
+                FROM account_categories
+                WHERE name = 'Expenses'
+                LIMIT 1
+                RETURNING id INTO v_shrinkage_account_id;
+            END IF;
+
+            IF v_inventory_account_id IS NULL OR v_shrinkage_account_id IS NULL THEN
+                RAISE EXCEPTION 'Inventory and Inventory Shrinkage accounts are required to post a stock count'
+                    USING DETAIL = 'JOURNAL_FAILED';
+            END IF;
+
+            -- The locked-period trigger raises PERIOD_LOCKED if the count date is locked
+            INSERT INTO journal_entries (
+                entry_number,
+                description,
+                reference_type,
+                reference_id,
+                entry_date,
+                total_amount,
+                status,
+                created_by
+            ) VALUES (
+                'JE-COUNT-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+                v_description,
+                'stock_count',
+                v_session.id,
+                v_session.count_date,
+                v_losses + v_gains,
+                'posted',
+                p_posted_by
+            ) RETURNING id INTO v_journal_entry_id;
+
+            IF v_losses > 0 THEN
+                INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit_amount, credit_amount)
+                VALUES
+                (v_journal_entry_id, v_line_number + 1, v_shrinkage_account_id, 'Stock missing in count ' || v_session.count_number, v_losses, 0),
+                (v_journal_entry_id, v_line_number + 2, v_inventory_account_id, 'Inventory written down', 0, v_losses);
+                v_line_number := v_line_number + 2;
+            END IF;
+
+            IF v_gains > 0 THEN
+                INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit_amount, credit_amount)
+                VALUES
+                (v_journal_entry_id, v_line_number + 1, v_inventory_account_id, 'Inventory found in count ' || v_session.count_number, v_gains, 0),
+                (v_journal_entry_id, v_line_number + 2, v_shrinkage_account_id, 'Stock surplus', 0, v_gains);
+            END IF;
+        END IF;
+
+        v_stage := 'INVALID_STATUS';
+        UPDATE stock_count_sessions
+        SET status = 'posted',
+            variance_quantity = v_variance_quantity,
+            variance_value = v_gains - v_losses,
+            journal_entry_id = v_journal_entry_id,
+            posted_at = NOW(),
+            posted_by = p_posted_by,
+            updated_at = NOW()
+        WHERE id = v_session.id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'COUNT_NOT_FOUND', 'INVALID_STATUS', 'UNCOUNTED_LINES',
+                'STOCK_UPDATE_FAILED', 'JOURNAL_FAILED', 'PERIOD_LOCKED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'session_id', v_session.id,
+        'variance_quantity', v_variance_quantity,
+        'variance_value', v_gains - v_losses,
+        'journal_entry_id', v_journal_entry_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION start_stock_count IS 'Opens a stock count session and freezes the expected quantities of a warehouse';
+COMMENT ON FUNCTION post_stock_count IS 'Posts approved stock count variances as adjustment movements with a shrinkage journal atomically';
+
+-- Success message
+SELECT 'Stock count sessions created successfully!' as message;
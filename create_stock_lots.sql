@@ -0,0 +1,354 @@
+-- Batch/lot numbers and expiry dates
+-- Products flagged with track_lots keep their warehouse stock split into lots. Each
+-- goods-received note line of such a product names the lot it received (and its expiry),
+-- sales draw on lots first expiry, first out unless the lots are picked by hand, and
+-- customer returns go back into the lots the sale line took them from.
+-- Every lot movement goes through update_warehouse_stock, so product_warehouse_stock
+-- stays the total; the stock_movements row it writes is tagged with the lot.
+-- Stock that was on hand before tracking started, or that is moved by transfers, counts
+-- and manual adjustments, is not attributed to a lot. Sales take from that untracked
+-- remainder only once the unexpired lots run out; expired lots are never picked.
+-- Errors carry a typed code in DETAIL for the calling function:
+--   INVALID_LOT, INSUFFICIENT_STOCK
+-- Requires create_goods_received_notes.sql
+
+-- 1. Lot tracking per product
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS track_lots BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN products.track_lots IS 'Whether stock of this product is received and issued by lot number and expiry date';
+
+-- 2. Lots: what is left of each lot in each warehouse
+CREATE TABLE IF NOT EXISTS stock_lots (
+  id TEXT PRIMARY KEY DEFAULT 'LOT' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variation_id TEXT REFERENCES product_variations(id) ON DELETE CASCADE,
+  warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  lot_number TEXT NOT NULL,
+  expiry_date DATE,
+  received_quantity INTEGER NOT NULL DEFAULT 0,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_by TEXT NOT NULL DEFAULT 'system',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One row per lot number of an item in a warehouse (simple products have no variation)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_lots_item_warehouse_lot
+ON stock_lots(product_id, COALESCE(variation_id, ''), warehouse_id, lot_number);
+
+CREATE INDEX IF NOT EXISTS idx_stock_lots_expiry_date ON stock_lots(expiry_date) WHERE quantity > 0;
+
+DROP TRIGGER IF EXISTS update_stock_lots_updated_at ON stock_lots;
+CREATE TRIGGER update_stock_lots_updated_at
+  BEFORE UPDATE ON stock_lots
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. The lot behind each stock movement, receipt line and sale line
+ALTER TABLE stock_movements
+ADD COLUMN IF NOT EXISTS lot_id TEXT REFERENCES stock_lots(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS lot_number TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_lot_id ON stock_movements(lot_id);
+
+ALTER TABLE goods_received_note_items
+ADD COLUMN IF NOT EXISTS lot_id TEXT REFERENCES stock_lots(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS lot_number TEXT,
+ADD COLUMN IF NOT EXISTS expiry_date DATE;
+
+-- A sale line can be filled from several lots; returns go back to the same lots
+CREATE TABLE IF NOT EXISTS sale_item_lots (
+  id TEXT PRIMARY KEY DEFAULT 'SIL' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  sale_item_id TEXT NOT NULL REFERENCES sale_items(id) ON DELETE CASCADE,
+  lot_id TEXT NOT NULL REFERENCES stock_lots(id) ON DELETE RESTRICT,
+  lot_number TEXT NOT NULL, -- Denormalized for performance
+  expiry_date DATE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  returned_quantity INTEGER NOT NULL DEFAULT 0 CHECK (returned_quantity >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (returned_quantity <= quantity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_item_lots_sale_item_id ON sale_item_lots(sale_item_id);
+CREATE INDEX IF NOT EXISTS idx_sale_item_lots_lot_id ON sale_item_lots(lot_id);
+
+-- 4. Move stock in or out of one lot
+CREATE OR REPLACE FUNCTION update_lot_stock(
+    p_lot_id TEXT,
+    p_quantity_change INTEGER,
+    p_movement_type TEXT,
+    p_reference_id TEXT,
+    p_reason TEXT,
+    p_created_by TEXT DEFAULT 'system',
+    p_notes TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+DECLARE
+    v_lot stock_lots%ROWTYPE;
+    v_new_stock INTEGER;
+BEGIN
+    SELECT * INTO v_lot
+    FROM stock_lots
+    WHERE id = p_lot_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lot % not found', p_lot_id USING DETAIL = 'INVALID_LOT';
+    END IF;
+
+    IF v_lot.quantity + p_quantity_change < 0 THEN
+        RAISE EXCEPTION 'Only % left in lot %', v_lot.quantity, v_lot.lot_number
+            USING DETAIL = 'INSUFFICIENT_STOCK';
+    END IF;
+
+    UPDATE stock_lots
+    SET quantity = quantity + p_quantity_change
+    WHERE id = v_lot.id;
+
+    PERFORM update_warehouse_stock(
+        v_lot.product_id,
+        v_lot.warehouse_id,
+        v_lot.variation_id,
+        p_quantity_change,
+        p_movement_type,
+        p_reference_id,
+        p_reason,
+        p_created_by,
+        p_notes
+    );
+
+    -- Tag the movement update_warehouse_stock just wrote: the latest untagged row for
+    -- this item and reference that ends at the stock level now on hand
+    SELECT current_stock INTO v_new_stock
+    FROM product_warehouse_stock
+    WHERE product_id = v_lot.product_id
+      AND warehouse_id = v_lot.warehouse_id
+      AND variation_id IS NOT DISTINCT FROM v_lot.variation_id;
+
+    UPDATE stock_movements
+    SET lot_id = v_lot.id,
+        lot_number = v_lot.lot_number
+    WHERE id = (
+        SELECT id
+        FROM stock_movements
+        WHERE product_id = v_lot.product_id
+          AND warehouse_id = v_lot.warehouse_id
+          AND variation_id IS NOT DISTINCT FROM v_lot.variation_id
+          AND reference_id IS NOT DISTINCT FROM p_reference_id
+          AND lot_id IS NULL
+          AND new_stock = v_new_stock
+        ORDER BY created_at DESC
+        LIMIT 1
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Put units into a lot, opening it on first receipt; returns the lot id
+CREATE OR REPLACE FUNCTION receive_stock_lot(
+    p_product_id TEXT,
+    p_variation_id TEXT,
+    p_warehouse_id TEXT,
+    p_lot_number TEXT,
+    p_expiry_date DATE,
+    p_quantity INTEGER,
+    p_movement_type TEXT,
+    p_reference_id TEXT,
+    p_reason TEXT,
+    p_created_by TEXT DEFAULT 'system',
+    p_notes TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+    v_lot stock_lots%ROWTYPE;
+BEGIN
+    IF NULLIF(TRIM(p_lot_number), '') IS NULL THEN
+        RAISE EXCEPTION 'A lot number is required for lot-tracked items' USING DETAIL = 'INVALID_LOT';
+    END IF;
+
+    SELECT * INTO v_lot
+    FROM stock_lots
+    WHERE product_id = p_product_id
+      AND variation_id IS NOT DISTINCT FROM p_variation_id
+      AND warehouse_id = p_warehouse_id
+      AND lot_number = TRIM(p_lot_number)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        INSERT INTO stock_lots (
+            product_id,
+            variation_id,
+            warehouse_id,
+            lot_number,
+            expiry_date,
+            created_by
+        ) VALUES (
+            p_product_id,
+            p_variation_id,
+            p_warehouse_id,
+            TRIM(p_lot_number),
+            p_expiry_date,
+            p_created_by
+        ) RETURNING * INTO v_lot;
+    ELSIF p_expiry_date IS NOT NULL AND v_lot.expiry_date IS DISTINCT FROM p_expiry_date THEN
+        IF v_lot.expiry_date IS NOT NULL THEN
+            RAISE EXCEPTION 'Lot % is already recorded with expiry date %', v_lot.lot_number, v_lot.expiry_date
+                USING DETAIL = 'INVALID_LOT';
+        END IF;
+
+        UPDATE stock_lots SET expiry_date = p_expiry_date WHERE id = v_lot.id;
+    END IF;
+
+    UPDATE stock_lots
+    SET received_quantity = received_quantity + p_quantity
+    WHERE id = v_lot.id;
+
+    PERFORM update_lot_stock(
+        v_lot.id,
+        p_quantity,
+        p_movement_type,
+        p_reference_id,
+        p_reason,
+        p_created_by,
+        p_notes
+    );
+
+    RETURN v_lot.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Take units out of lots: the lots picked by hand in p_lots ([{lot_id, quantity}]),
+-- otherwise first expiry, first out. Units beyond the unexpired lots come from the
+-- untracked remainder. Returns the lots drawn: [{lot_id, lot_number, expiry_date, quantity}]
+CREATE OR REPLACE FUNCTION issue_stock_lots(
+    p_product_id TEXT,
+    p_variation_id TEXT,
+    p_warehouse_id TEXT,
+    p_quantity INTEGER,
+    p_lots JSONB,
+    p_as_of DATE,
+    p_movement_type TEXT,
+    p_reference_id TEXT,
+    p_reason TEXT,
+    p_created_by TEXT DEFAULT 'system',
+    p_notes TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_remaining INTEGER := p_quantity;
+    v_allocations JSONB := '[]'::JSONB;
+    v_pick JSONB;
+    v_pick_quantity INTEGER;
+    v_lot stock_lots%ROWTYPE;
+    v_untracked INTEGER;
+BEGIN
+    IF p_lots IS NOT NULL AND jsonb_typeof(p_lots) = 'array' AND jsonb_array_length(p_lots) > 0 THEN
+        FOR v_pick IN SELECT * FROM jsonb_array_elements(p_lots)
+        LOOP
+            v_pick_quantity := COALESCE((v_pick->>'quantity')::INTEGER, 0);
+
+            SELECT * INTO v_lot
+            FROM stock_lots
+            WHERE id = v_pick->>'lot_id'
+              AND product_id = p_product_id
+              AND variation_id IS NOT DISTINCT FROM p_variation_id
+              AND warehouse_id = p_warehouse_id
+            FOR UPDATE;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Lot % does not hold this item in this warehouse', v_pick->>'lot_id'
+                    USING DETAIL = 'INVALID_LOT';
+            END IF;
+
+            IF v_pick_quantity <= 0 THEN
+                RAISE EXCEPTION 'Picked quantities must be greater than zero' USING DETAIL = 'INVALID_LOT';
+            END IF;
+
+            IF v_lot.expiry_date < p_as_of THEN
+                RAISE EXCEPTION 'Lot % expired on %', v_lot.lot_number, v_lot.expiry_date
+                    USING DETAIL = 'INVALID_LOT';
+            END IF;
+
+            PERFORM update_lot_stock(v_lot.id, -v_pick_quantity, p_movement_type, p_reference_id, p_reason, p_created_by, p_notes);
+
+            v_allocations := v_allocations || jsonb_build_object(
+                'lot_id', v_lot.id,
+                'lot_number', v_lot.lot_number,
+                'expiry_date', v_lot.expiry_date,
+                'quantity', v_pick_quantity
+            );
+            v_remaining := v_remaining - v_pick_quantity;
+        END LOOP;
+
+        IF v_remaining <> 0 THEN
+            RAISE EXCEPTION 'Picked lots add up to % but % are needed', p_quantity - v_remaining, p_quantity
+                USING DETAIL = 'INVALID_LOT';
+        END IF;
+
+        RETURN v_allocations;
+    END IF;
+
+    FOR v_lot IN
+        SELECT *
+        FROM stock_lots
+        WHERE product_id = p_product_id
+          AND variation_id IS NOT DISTINCT FROM p_variation_id
+          AND warehouse_id = p_warehouse_id
+          AND quantity > 0
+          AND (expiry_date IS NULL OR expiry_date >= p_as_of)
+        ORDER BY expiry_date NULLS LAST, created_at
+        FOR UPDATE
+    LOOP
+        EXIT WHEN v_remaining = 0;
+        v_pick_quantity := LEAST(v_lot.quantity, v_remaining);
+
+        PERFORM update_lot_stock(v_lot.id, -v_pick_quantity, p_movement_type, p_reference_id, p_reason, p_created_by, p_notes);
+
+        v_allocations := v_allocations || jsonb_build_object(
+            'lot_id', v_lot.id,
+            'lot_number', v_lot.lot_number,
+            'expiry_date', v_lot.expiry_date,
+            'quantity', v_pick_quantity
+        );
+        v_remaining := v_remaining - v_pick_quantity;
+    END LOOP;
+
+    IF v_remaining > 0 THEN
+        SELECT s.current_stock - COALESCE((
+            SELECT SUM(l.quantity)
+            FROM stock_lots l
+            WHERE l.product_id = p_product_id
+              AND l.variation_id IS NOT DISTINCT FROM p_variation_id
+              AND l.warehouse_id = p_warehouse_id
+        ), 0)
+        INTO v_untracked
+        FROM product_warehouse_stock s
+        WHERE s.product_id = p_product_id
+          AND s.warehouse_id = p_warehouse_id
+          AND s.variation_id IS NOT DISTINCT FROM p_variation_id;
+
+        IF COALESCE(v_untracked, 0) < v_remaining THEN
+            RAISE EXCEPTION 'Only % can be issued; the rest of the stock is in expired lots', p_quantity - v_remaining + GREATEST(COALESCE(v_untracked, 0), 0)
+                USING DETAIL = 'INSUFFICIENT_STOCK';
+        END IF;
+
+        PERFORM update_warehouse_stock(
+            p_product_id,
+            p_warehouse_id,
+            p_variation_id,
+            -v_remaining,
+            p_movement_type,
+            p_reference_id,
+            p_reason,
+            p_created_by,
+            p_notes
+        );
+    END IF;
+
+    RETURN v_allocations;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION update_lot_stock IS 'Moves stock in or out of one lot and tags the stock movement with it';
+COMMENT ON FUNCTION receive_stock_lot IS 'Receives units into a lot, opening the lot on its first receipt';
+COMMENT ON FUNCTION issue_stock_lots IS 'Issues units from hand-picked lots or first expiry, first out, and returns the lots drawn';
+
+-- Success message
+SELECT 'Stock lots created successfully!' as message;
@@ -0,0 +1,174 @@
+-- Supplier payables
+-- Suppliers get payment terms (days after the purchase date a bill falls due) and every
+-- purchase carries the due date those terms give. supplier_bill_balances gives the open
+-- balance of every purchase (the supplier bill) after payments, returns and refunds,
+-- which is what the payables ledger, statements and aging report are built from.
+-- suppliers.total_purchases and suppliers.total_spent are kept current by triggers on
+-- purchases and purchase_returns instead of being static.
+
+-- 1. Payment terms and due dates
+ALTER TABLE suppliers
+ADD COLUMN IF NOT EXISTS payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days >= 0);
+
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS due_date DATE;
+
+COMMENT ON COLUMN suppliers.payment_terms_days IS 'Days after the purchase date that a bill from this supplier falls due';
+COMMENT ON COLUMN purchases.due_date IS 'Date payment is due, from the supplier payment terms unless set explicitly';
+
+CREATE OR REPLACE FUNCTION set_purchase_due_date()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_terms INTEGER;
+BEGIN
+  -- An explicit due date is kept; a derived one follows the purchase date and supplier
+  IF TG_OP = 'UPDATE'
+     AND NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.due_date IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT payment_terms_days INTO v_terms
+  FROM suppliers
+  WHERE id = NEW.supplier_id;
+
+  NEW.due_date := NEW.purchase_date + COALESCE(v_terms, 0);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_purchase_due_date ON purchases;
+CREATE TRIGGER trigger_set_purchase_due_date
+  BEFORE INSERT OR UPDATE OF supplier_id, purchase_date ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION set_purchase_due_date();
+
+UPDATE purchases p
+SET due_date = p.purchase_date + s.payment_terms_days
+FROM suppliers s
+WHERE s.id = p.supplier_id
+  AND p.due_date IS NULL;
+
+-- 2. Open balance per supplier bill
+-- Payments and returns reduce what is owed; a completed refund is money the supplier
+-- paid back for a return, so it adds back to the balance. Rejected returns, void
+-- payments and cancelled purchases are ignored.
+CREATE OR REPLACE VIEW supplier_bill_balances AS
+SELECT
+  p.id AS purchase_id,
+  p.supplier_id,
+  p.supplier_name,
+  p.purchase_date,
+  p.due_date,
+  p.status,
+  p.total_amount,
+  COALESCE(pay.amount_paid, 0) AS amount_paid,
+  COALESCE(ret.amount_returned, 0) AS amount_returned,
+  COALESCE(ret.amount_refunded, 0) AS amount_refunded,
+  p.total_amount
+    - COALESCE(pay.amount_paid, 0)
+    - COALESCE(ret.amount_returned, 0)
+    + COALESCE(ret.amount_refunded, 0) AS outstanding_amount
+FROM purchases p
+LEFT JOIN (
+  SELECT purchase_id, SUM(amount) AS amount_paid
+  FROM purchase_payments
+  WHERE COALESCE(status, 'active') = 'active'
+  GROUP BY purchase_id
+) pay ON pay.purchase_id = p.id
+LEFT JOIN (
+  SELECT
+    pr.purchase_id,
+    SUM(pr.total_amount) AS amount_returned,
+    SUM(COALESCE(rt.amount_refunded, 0)) AS amount_refunded
+  FROM purchase_returns pr
+  LEFT JOIN (
+    SELECT return_id, SUM(refund_amount) AS amount_refunded
+    FROM refund_transactions
+    WHERE status = 'completed'
+    GROUP BY return_id
+  ) rt ON rt.return_id = pr.id
+  WHERE COALESCE(pr.status, 'pending') <> 'rejected'
+  GROUP BY pr.purchase_id
+) ret ON ret.purchase_id = p.id
+WHERE COALESCE(p.status, 'pending') <> 'cancelled';
+
+COMMENT ON VIEW supplier_bill_balances IS 'Open balance of each purchase after payments, supplier returns and refunds';
+
+-- 3. Supplier totals
+CREATE OR REPLACE FUNCTION refresh_supplier_totals(p_supplier_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_supplier_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE suppliers
+  SET
+    total_purchases = (
+      SELECT COUNT(*)
+      FROM purchases
+      WHERE supplier_id = p_supplier_id
+        AND COALESCE(status, 'pending') <> 'cancelled'
+    ),
+    total_spent = (
+      SELECT COALESCE(SUM(total_amount - amount_returned), 0)
+      FROM supplier_bill_balances
+      WHERE supplier_id = p_supplier_id
+    ),
+    updated_at = NOW()
+  WHERE id = p_supplier_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_supplier_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_supplier_totals(NEW.supplier_id);
+  END IF;
+
+  -- A purchase moved to another supplier must be taken off the old one too
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.supplier_id IS DISTINCT FROM NEW.supplier_id) THEN
+    PERFORM refresh_supplier_totals(OLD.supplier_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- purchase_returns has no supplier_id, so the supplier is found through the purchase
+CREATE OR REPLACE FUNCTION update_supplier_totals_from_return()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_supplier_totals(supplier_id)
+  FROM purchases
+  WHERE id = COALESCE(NEW.purchase_id, OLD.purchase_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_supplier_totals_purchases ON purchases;
+CREATE TRIGGER trigger_update_supplier_totals_purchases
+  AFTER INSERT OR DELETE OR UPDATE OF supplier_id, total_amount, status ON purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_supplier_totals();
+
+DROP TRIGGER IF EXISTS trigger_update_supplier_totals_returns ON purchase_returns;
+CREATE TRIGGER trigger_update_supplier_totals_returns
+  AFTER INSERT OR DELETE OR UPDATE OF total_amount, status ON purchase_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_supplier_totals_from_return();
+
+-- 4. Backfill existing suppliers
+SELECT refresh_supplier_totals(id) FROM suppliers;
+
+-- 5. Indexes for due-date lookups
+CREATE INDEX IF NOT EXISTS idx_purchases_due_date ON purchases(due_date);
+
+-- Success message
+SELECT 'Supplier payables created successfully!' as message;
@@ -0,0 +1,311 @@
+-- Tax codes
+-- A tax code (e.g. VAT 15%, Zero-rated) carries a rate and whether prices under it
+-- already include the tax. Products take the tax code set on them, or else the one on
+-- their category; items with neither are untaxed.
+-- Sales are taxed line by line: the cart spreads the sale-wide discount over the lines,
+-- then works out each line's taxable amount and tax, kept on sale_items:
+--   tax-exclusive  taxable_amount = line net of discounts,  tax = taxable_amount * rate
+--   tax-inclusive  tax = line net of discounts * rate / (100 + rate), taxable_amount = the rest
+-- The sale total adds the tax of tax-exclusive lines only. post_sale moves the sale's tax
+-- out of Sales Revenue into Output Tax (create_post_sale_function.sql).
+-- Purchase prices are entered before tax; each purchase line keeps its tax code, rate
+-- and tax, and the bill total includes the tax. Goods-received notes post the tax on the
+-- units received to Input Tax against Accounts Payable, and cancelling one reverses it
+-- (create_goods_received_notes.sql).
+-- get_tax_return summarises taxable sales, output tax, taxable purchases and input tax
+-- by tax code for any period, in taka, net of customer and supplier returns; the net
+-- amount due is output tax less input tax. A customer return takes its share of the
+-- line's tax back out of Output Tax (create_process_return_function.sql).
+-- Requires create_goods_received_notes.sql, create_sales_orders_tables.sql
+
+-- 1. Tax codes
+CREATE TABLE IF NOT EXISTS tax_codes (
+  id TEXT PRIMARY KEY DEFAULT 'TAXC' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  code TEXT NOT NULL CHECK (btrim(code) <> ''),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  rate DECIMAL(6,3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  price_includes_tax BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_codes_code ON tax_codes(lower(code));
+
+INSERT INTO tax_codes (id, code, name, rate, price_includes_tax) VALUES
+  ('TAXC_STANDARD', 'VAT15', 'VAT standard rate', 15, false),
+  ('TAXC_ZERO', 'ZERO', 'Zero-rated', 0, false)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Tax code of each product and category
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS tax_code_id TEXT REFERENCES tax_codes(id) ON DELETE SET NULL;
+
+ALTER TABLE categories
+ADD COLUMN IF NOT EXISTS tax_code_id TEXT REFERENCES tax_codes(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN products.tax_code_id IS 'Tax code of the product; NULL takes the category''s';
+
+-- 3. Tax on each sale, order and purchase line
+-- The rate is copied onto the line so later changes to the code leave it as it was charged
+ALTER TABLE sale_items
+ADD COLUMN IF NOT EXISTS tax_code_id TEXT REFERENCES tax_codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(6,3) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(12,2);
+
+ALTER TABLE sales_order_items
+ADD COLUMN IF NOT EXISTS tax_code_id TEXT REFERENCES tax_codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(6,3) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS tax DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE purchase_items
+ADD COLUMN IF NOT EXISTS tax_code_id TEXT REFERENCES tax_codes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(6,3) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0);
+
+ALTER TABLE purchases
+ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE goods_received_note_items
+ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE goods_received_notes
+ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN purchases.tax_amount IS 'Input tax on the purchase; included in total_amount';
+
+-- 4. Tax journal entries
+-- 'sale_tax':              Dr Sales Revenue,    Cr Output Tax
+-- 'sale_tax_reversal':     Dr Output Tax,       Cr Sales Returns (Sales Revenue if there is none)
+-- 'purchase_tax':          Dr Input Tax,        Cr Accounts Payable
+-- 'purchase_tax_reversal': Dr Accounts Payable, Cr Input Tax
+-- The Output Tax (liability) and Input Tax (asset) accounts are created when first needed.
+CREATE OR REPLACE FUNCTION create_tax_journal_entry(
+    p_reference_type TEXT,
+    p_reference_id TEXT,
+    p_description TEXT,
+    p_amount DECIMAL,
+    p_entry_date DATE DEFAULT CURRENT_DATE,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS TEXT AS $$
+DECLARE
+    v_journal_entry_id TEXT;
+    v_tax_account_id TEXT;
+    v_other_account_id TEXT;
+    v_is_sale BOOLEAN := p_reference_type IN ('sale_tax', 'sale_tax_reversal');
+    -- Purchase tax and a sale tax reversal debit the tax account; the others credit it
+    v_debit_tax BOOLEAN := p_reference_type IN ('purchase_tax', 'sale_tax_reversal');
+BEGIN
+    IF COALESCE(p_amount, 0) <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_is_sale THEN
+        SELECT id INTO v_tax_account_id FROM accounts WHERE account_name = 'Output Tax' LIMIT 1;
+
+        IF v_tax_account_id IS NULL THEN
+            INSERT INTO accounts (account_number, account_name, account_code, category_id, description)
+            SELECT '2110', 'Output Tax', 'OTAX', id, 'Tax charged on sales and owed to the tax authority'
+            FROM account_categories
+            WHERE type = 'liability'
+            LIMIT 1
+            RETURNING id INTO v_tax_account_id;
+        END IF;
+
+        SELECT id INTO v_other_account_id
+        FROM accounts
+        WHERE account_name IN ('Sales Revenue', 'Sales Returns')
+        ORDER BY (account_name = 'Sales Returns') = (p_reference_type = 'sale_tax_reversal') DESC
+        LIMIT 1;
+    ELSE
+        SELECT id INTO v_tax_account_id FROM accounts WHERE account_name = 'Input Tax' LIMIT 1;
+
+        IF v_tax_account_id IS NULL THEN
+            INSERT INTO accounts (account_number, account_name, account_code, category_id, description)
+            SELECT '1160', 'Input Tax', 'ITAX', id, 'Tax paid on purchases and reclaimable from the tax authority'
+            FROM account_categories
+            WHERE type = 'asset'
+            LIMIT 1
+            RETURNING id INTO v_tax_account_id;
+        END IF;
+
+        SELECT id INTO v_other_account_id FROM accounts WHERE account_name = 'Accounts Payable' LIMIT 1;
+    END IF;
+
+    IF v_tax_account_id IS NULL OR v_other_account_id IS NULL THEN
+        RAISE EXCEPTION 'Tax, Sales Revenue and Accounts Payable accounts are required to post tax';
+    END IF;
+
+    INSERT INTO journal_entries (
+        entry_number,
+        description,
+        reference_type,
+        reference_id,
+        entry_date,
+        total_amount,
+        status,
+        created_by
+    ) VALUES (
+        CASE p_reference_type
+            WHEN 'sale_tax' THEN 'JE-OTAX-'
+            WHEN 'sale_tax_reversal' THEN 'JE-OTAX-REV-'
+            WHEN 'purchase_tax_reversal' THEN 'JE-ITAX-REV-'
+            ELSE 'JE-ITAX-'
+        END || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+        p_description,
+        p_reference_type,
+        p_reference_id,
+        COALESCE(p_entry_date, CURRENT_DATE),
+        p_amount,
+        'posted',
+        p_created_by
+    ) RETURNING id INTO v_journal_entry_id;
+
+    INSERT INTO journal_entry_lines (
+        journal_entry_id,
+        line_number,
+        account_id,
+        description,
+        debit_amount,
+        credit_amount
+    ) VALUES
+    (
+        v_journal_entry_id,
+        1,
+        CASE WHEN v_debit_tax THEN v_tax_account_id ELSE v_other_account_id END,
+        CASE p_reference_type
+            WHEN 'sale_tax' THEN 'Tax included in sale'
+            WHEN 'sale_tax_reversal' THEN 'Output tax on returned goods'
+            WHEN 'purchase_tax_reversal' THEN 'Tax no longer owed to supplier'
+            ELSE 'Input tax on goods received'
+        END,
+        p_amount,
+        0
+    ),
+    (
+        v_journal_entry_id,
+        2,
+        CASE WHEN v_debit_tax THEN v_other_account_id ELSE v_tax_account_id END,
+        CASE p_reference_type
+            WHEN 'sale_tax' THEN 'Output tax on sale'
+            WHEN 'sale_tax_reversal' THEN 'Tax included in return'
+            WHEN 'purchase_tax_reversal' THEN 'Input tax reversed'
+            ELSE 'Tax owed to supplier'
+        END,
+        0,
+        p_amount
+    );
+
+    RETURN v_journal_entry_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. Tax return for a period, by tax code
+-- Sales count on their sale date unless cancelled; purchases count on the date their
+-- goods were received. Customer and supplier returns count, negatively, on their return
+-- date, at the returned share of the line they came from. Lines without a tax code are
+-- returned with a NULL tax_code_id.
+-- Foreign-currency documents are converted at their own exchange rate (create_currencies.sql).
+CREATE OR REPLACE FUNCTION get_tax_return(
+    p_from DATE,
+    p_to DATE
+) RETURNS TABLE (
+    tax_code_id TEXT,
+    code TEXT,
+    name TEXT,
+    rate DECIMAL,
+    taxable_sales DECIMAL,
+    output_tax DECIMAL,
+    taxable_purchases DECIMAL,
+    input_tax DECIMAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH sale_lines AS (
+        SELECT
+            si.tax_code_id,
+            COALESCE(si.taxable_amount, si.total, 0) * COALESCE(s.exchange_rate, 1) AS taxable,
+            COALESCE(si.tax, 0) * COALESCE(s.exchange_rate, 1) AS tax
+        FROM sale_items si
+        JOIN sales s ON s.id = si.sale_id
+        WHERE s.sale_date BETWEEN p_from AND p_to
+          AND COALESCE(s.status, 'completed') <> 'cancelled'
+    ),
+    sale_return_lines AS (
+        SELECT
+            si.tax_code_id,
+            -COALESCE(si.taxable_amount, si.total, 0) * ri.quantity / si.quantity * COALESCE(s.exchange_rate, 1) AS taxable,
+            -COALESCE(si.tax, 0) * ri.quantity / si.quantity * COALESCE(s.exchange_rate, 1) AS tax
+        FROM return_items ri
+        JOIN returns r ON r.id = ri.return_id
+        JOIN sale_items si ON si.id = ri.sale_item_id
+        JOIN sales s ON s.id = si.sale_id
+        WHERE r.return_date BETWEEN p_from AND p_to
+          AND COALESCE(s.status, 'completed') <> 'cancelled'
+    ),
+    purchase_lines AS (
+        SELECT
+            pi.tax_code_id,
+            gi.total * COALESCE(p.exchange_rate, 1) AS taxable,
+            gi.tax_amount * COALESCE(p.exchange_rate, 1) AS tax
+        FROM goods_received_note_items gi
+        JOIN goods_received_notes g ON g.id = gi.grn_id
+        JOIN purchases p ON p.id = g.purchase_id
+        JOIN purchase_items pi ON pi.id = gi.purchase_item_id
+        WHERE g.status = 'active'
+          AND g.received_date BETWEEN p_from AND p_to
+    ),
+    purchase_return_lines AS (
+        -- Supplier return lines name the item, not the purchase line, so take the
+        -- purchase's first line for that item and variation
+        SELECT
+            pi.tax_code_id,
+            -pri.total * COALESCE(p.exchange_rate, 1) AS taxable,
+            -pi.tax_amount * pri.quantity / pi.quantity * COALESCE(p.exchange_rate, 1) AS tax
+        FROM purchase_return_items pri
+        JOIN purchase_returns pr ON pr.id = pri.purchase_return_id
+        JOIN purchases p ON p.id = pr.purchase_id
+        JOIN LATERAL (
+            SELECT *
+            FROM purchase_items
+            WHERE purchase_id = pr.purchase_id
+              AND item_id = pri.item_id
+              AND variation_id IS NOT DISTINCT FROM pri.variation_id
+            ORDER BY created_at
+            LIMIT 1
+        ) pi ON true
+        WHERE COALESCE(pr.status, 'pending') <> 'rejected'
+          AND pr.return_date BETWEEN p_from AND p_to
+    ),
+    totals AS (
+        SELECT sl.tax_code_id, SUM(sl.taxable) AS taxable_sales, SUM(sl.tax) AS output_tax, 0::DECIMAL AS taxable_purchases, 0::DECIMAL AS input_tax
+        FROM (SELECT * FROM sale_lines UNION ALL SELECT * FROM sale_return_lines) sl
+        GROUP BY sl.tax_code_id
+        UNION ALL
+        SELECT pl.tax_code_id, 0, 0, SUM(pl.taxable), SUM(pl.tax)
+        FROM (SELECT * FROM purchase_lines UNION ALL SELECT * FROM purchase_return_lines) pl
+        GROUP BY pl.tax_code_id
+    )
+    SELECT
+        t.tax_code_id,
+        tc.code,
+        tc.name,
+        tc.rate,
+        ROUND(SUM(t.taxable_sales), 2),
+        ROUND(SUM(t.output_tax), 2),
+        ROUND(SUM(t.taxable_purchases), 2),
+        ROUND(SUM(t.input_tax), 2)
+    FROM totals t
+    LEFT JOIN tax_codes tc ON tc.id = t.tax_code_id
+    GROUP BY t.tax_code_id, tc.code, tc.name, tc.rate
+    ORDER BY tc.code NULLS LAST;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON TABLE tax_codes IS 'Tax rates that can be set on products and categories';
+COMMENT ON FUNCTION create_tax_journal_entry IS 'Posts or reverses output tax on a sale or input tax on goods received';
+COMMENT ON FUNCTION get_tax_return IS 'Taxable sales, output tax, taxable purchases and input tax by tax code for a period';
+
+-- Success message
+SELECT 'Tax codes created successfully!' as message;
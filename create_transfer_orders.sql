@@ -0,0 +1,793 @@
+-- Inter-warehouse transfer orders with an in-transit state
+-- A transfer order moves products and/or packaging from one warehouse to another in
+-- two steps instead of the instant transfer_stock_between_warehouses:
+--
+--   draft -> dispatched -> partially_received -> received   (or draft -> cancelled)
+--
+-- dispatch_transfer_order takes the stock out of the source warehouse as 'transfer'
+-- movements and issues its cost layers; from then until it is received the stock is in
+-- transit and belongs to no warehouse. receive_transfer_order books each receipt into the
+-- destination at the cost it left the source with. A receipt can be partial, and units
+-- that will never arrive (lost or damaged on the way) are recorded as a discrepancy with
+-- a reason and written off:
+--   Dr Inventory Shrinkage, Cr Inventory
+-- Lines of serial-tracked products name the units sent when the draft is saved; each
+-- receipt names the units that arrived and the units that were lost
+-- (create_serial_numbers.sql).
+-- Each RPC runs in ONE transaction. Failures roll back every step and are reported as
+-- a typed error code:
+--   TRANSFER_NOT_FOUND, INVALID_TRANSFER, INVALID_STATUS, INVALID_RECEIPT,
+--   INSUFFICIENT_STOCK, INVALID_SERIAL, STOCK_UPDATE_FAILED, JOURNAL_FAILED, PERIOD_LOCKED
+-- Requires create_inventory_valuation.sql, create_fiscal_periods.sql, create_serial_numbers.sql
+
+-- 1. Transfer order header
+CREATE TABLE IF NOT EXISTS transfer_orders (
+  id TEXT PRIMARY KEY DEFAULT 'TO' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  transfer_number TEXT NOT NULL UNIQUE,
+  from_warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  from_warehouse_name TEXT NOT NULL, -- Denormalized for performance
+  to_warehouse_id TEXT NOT NULL REFERENCES warehouses(id) ON DELETE RESTRICT,
+  to_warehouse_name TEXT NOT NULL, -- Denormalized for performance
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'dispatched', 'partially_received', 'received', 'cancelled')),
+  transfer_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  total_quantity INTEGER NOT NULL DEFAULT 0,
+  total_value DECIMAL(12,2) NOT NULL DEFAULT 0, -- Cost of the dispatched stock
+  received_quantity INTEGER NOT NULL DEFAULT 0,
+  discrepancy_quantity INTEGER NOT NULL DEFAULT 0,
+  discrepancy_value DECIMAL(12,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  dispatched_at TIMESTAMPTZ,
+  dispatched_by TEXT,
+  received_at TIMESTAMPTZ,
+  received_by TEXT,
+  cancelled_at TIMESTAMPTZ,
+  cancelled_by TEXT,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (from_warehouse_id <> to_warehouse_id)
+);
+
+-- 2. Transfer lines; unit_cost is set when the line is dispatched
+CREATE TABLE IF NOT EXISTS transfer_order_items (
+  id TEXT PRIMARY KEY DEFAULT 'TOI' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  transfer_order_id TEXT NOT NULL REFERENCES transfer_orders(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('product', 'package')),
+  item_id TEXT NOT NULL, -- Can be product_id or packaging_id
+  variation_id TEXT,
+  item_name TEXT NOT NULL,
+  sku TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(12,4) NOT NULL DEFAULT 0,
+  received_quantity INTEGER NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  discrepancy_quantity INTEGER NOT NULL DEFAULT 0 CHECK (discrepancy_quantity >= 0),
+  discrepancy_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (received_quantity + discrepancy_quantity <= quantity)
+);
+
+-- 3. Receipts against a dispatched transfer, one per delivery
+CREATE TABLE IF NOT EXISTS transfer_order_receipts (
+  id TEXT PRIMARY KEY DEFAULT 'TOR' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  transfer_order_id TEXT NOT NULL REFERENCES transfer_orders(id) ON DELETE CASCADE,
+  receipt_number TEXT NOT NULL UNIQUE,
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  received_quantity INTEGER NOT NULL DEFAULT 0,
+  discrepancy_quantity INTEGER NOT NULL DEFAULT 0,
+  discrepancy_value DECIMAL(12,2) NOT NULL DEFAULT 0,
+  journal_entry_id TEXT,
+  notes TEXT,
+  received_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS transfer_order_receipt_items (
+  id TEXT PRIMARY KEY DEFAULT 'TORI' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  receipt_id TEXT NOT NULL REFERENCES transfer_order_receipts(id) ON DELETE CASCADE,
+  transfer_order_item_id TEXT NOT NULL REFERENCES transfer_order_items(id) ON DELETE CASCADE,
+  received_quantity INTEGER NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  discrepancy_quantity INTEGER NOT NULL DEFAULT 0 CHECK (discrepancy_quantity >= 0),
+  discrepancy_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_orders_from_warehouse_id ON transfer_orders(from_warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_transfer_orders_to_warehouse_id ON transfer_orders(to_warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_transfer_orders_status ON transfer_orders(status);
+CREATE INDEX IF NOT EXISTS idx_transfer_order_items_transfer_order_id ON transfer_order_items(transfer_order_id);
+CREATE INDEX IF NOT EXISTS idx_transfer_order_receipts_transfer_order_id ON transfer_order_receipts(transfer_order_id);
+CREATE INDEX IF NOT EXISTS idx_transfer_order_receipt_items_receipt_id ON transfer_order_receipt_items(receipt_id);
+
+-- 4. Received transfers open cost layers in the destination warehouse
+ALTER TABLE inventory_cost_layers DROP CONSTRAINT IF EXISTS inventory_cost_layers_source_type_check;
+ALTER TABLE inventory_cost_layers ADD CONSTRAINT inventory_cost_layers_source_type_check
+CHECK (source_type IN ('opening', 'receipt', 'return', 'adjustment', 'transfer'));
+
+-- 5. Create or replace a draft transfer
+-- p_order: { id?, from_warehouse_id, to_warehouse_id, transfer_date, expected_date, notes,
+--            items: [{ item_type, item_id, variation_id, quantity, serial_numbers }] }
+-- Passing the id of an existing draft replaces its header and lines.
+CREATE OR REPLACE FUNCTION save_transfer_order(
+    p_order JSONB,
+    p_created_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_order_id TEXT := p_order->>'id';
+    v_transfer_number TEXT;
+    v_status TEXT;
+    v_from_warehouse_name TEXT;
+    v_to_warehouse_name TEXT;
+    v_item JSONB;
+    v_item_name TEXT;
+    v_sku TEXT;
+    v_track_serials BOOLEAN;
+    v_serials TEXT[];
+    v_total_quantity INTEGER := 0;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT name INTO v_from_warehouse_name FROM warehouses WHERE id = p_order->>'from_warehouse_id';
+        SELECT name INTO v_to_warehouse_name FROM warehouses WHERE id = p_order->>'to_warehouse_id';
+
+        IF v_from_warehouse_name IS NULL OR v_to_warehouse_name IS NULL THEN
+            RAISE EXCEPTION 'Both the source and destination warehouse are required' USING DETAIL = 'INVALID_TRANSFER';
+        END IF;
+
+        IF p_order->>'from_warehouse_id' = p_order->>'to_warehouse_id' THEN
+            RAISE EXCEPTION 'The source and destination warehouse must be different' USING DETAIL = 'INVALID_TRANSFER';
+        END IF;
+
+        IF jsonb_array_length(COALESCE(p_order->'items', '[]'::jsonb)) = 0 THEN
+            RAISE EXCEPTION 'A transfer needs at least one item' USING DETAIL = 'INVALID_TRANSFER';
+        END IF;
+
+        IF v_order_id IS NOT NULL THEN
+            SELECT status INTO v_status FROM transfer_orders WHERE id = v_order_id FOR UPDATE;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Transfer % not found', v_order_id USING DETAIL = 'TRANSFER_NOT_FOUND';
+            END IF;
+
+            IF v_status <> 'draft' THEN
+                RAISE EXCEPTION 'Only draft transfers can be edited; this one is %', v_status USING DETAIL = 'INVALID_STATUS';
+            END IF;
+
+            UPDATE transfer_orders
+            SET from_warehouse_id = p_order->>'from_warehouse_id',
+                from_warehouse_name = v_from_warehouse_name,
+                to_warehouse_id = p_order->>'to_warehouse_id',
+                to_warehouse_name = v_to_warehouse_name,
+                transfer_date = COALESCE((p_order->>'transfer_date')::DATE, transfer_date),
+                expected_date = (p_order->>'expected_date')::DATE,
+                notes = p_order->>'notes',
+                updated_at = NOW()
+            WHERE id = v_order_id
+            RETURNING transfer_number INTO v_transfer_number;
+
+            DELETE FROM transfer_order_items WHERE transfer_order_id = v_order_id;
+        ELSE
+            v_transfer_number := 'TRF-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text;
+
+            INSERT INTO transfer_orders (
+                transfer_number,
+                from_warehouse_id,
+                from_warehouse_name,
+                to_warehouse_id,
+                to_warehouse_name,
+                transfer_date,
+                expected_date,
+                notes,
+                created_by
+            ) VALUES (
+                v_transfer_number,
+                p_order->>'from_warehouse_id',
+                v_from_warehouse_name,
+                p_order->>'to_warehouse_id',
+                v_to_warehouse_name,
+                COALESCE((p_order->>'transfer_date')::DATE, CURRENT_DATE),
+                (p_order->>'expected_date')::DATE,
+                p_order->>'notes',
+                p_created_by
+            ) RETURNING id INTO v_order_id;
+        END IF;
+
+        FOR v_item IN SELECT * FROM jsonb_array_elements(p_order->'items')
+        LOOP
+            IF COALESCE((v_item->>'quantity')::INTEGER, 0) <= 0 THEN
+                RAISE EXCEPTION 'Transfer quantities must be greater than zero' USING DETAIL = 'INVALID_TRANSFER';
+            END IF;
+
+            v_track_serials := false;
+            v_serials := NULL;
+
+            IF v_item->>'item_type' = 'product' THEN
+                SELECT p.name, COALESCE(pv.sku, p.sku), p.track_serials INTO v_item_name, v_sku, v_track_serials
+                FROM products p
+                LEFT JOIN product_variations pv ON pv.id = v_item->>'variation_id'
+                WHERE p.id = v_item->>'item_id';
+            ELSE
+                SELECT pk.title, COALESCE(pkv.sku, pk.sku) INTO v_item_name, v_sku
+                FROM packaging pk
+                LEFT JOIN packaging_variations pkv ON pkv.id = v_item->>'variation_id'
+                WHERE pk.id = v_item->>'item_id';
+            END IF;
+
+            IF v_item_name IS NULL THEN
+                RAISE EXCEPTION 'Item % not found', v_item->>'item_id' USING DETAIL = 'INVALID_TRANSFER';
+            END IF;
+
+            -- Serial-tracked units are named now and checked against stock on dispatch
+            IF v_track_serials THEN
+                v_serials := parse_serial_numbers(v_item->'serial_numbers', (v_item->>'quantity')::INTEGER, v_item_name);
+            END IF;
+
+            INSERT INTO transfer_order_items (
+                transfer_order_id,
+                item_type,
+                item_id,
+                variation_id,
+                item_name,
+                sku,
+                quantity,
+                serial_numbers
+            ) VALUES (
+                v_order_id,
+                v_item->>'item_type',
+                v_item->>'item_id',
+                v_item->>'variation_id',
+                v_item_name,
+                v_sku,
+                (v_item->>'quantity')::INTEGER,
+                v_serials
+            );
+
+            v_total_quantity := v_total_quantity + (v_item->>'quantity')::INTEGER;
+            v_item_name := NULL;
+        END LOOP;
+
+        UPDATE transfer_orders
+        SET total_quantity = v_total_quantity
+        WHERE id = v_order_id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN ('TRANSFER_NOT_FOUND', 'INVALID_TRANSFER', 'INVALID_STATUS', 'INVALID_SERIAL') THEN
+                v_error_code := 'INVALID_TRANSFER';
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'transfer_order_id', v_order_id,
+        'transfer_number', v_transfer_number
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. Dispatch: take the stock out of the source warehouse; it is now in transit
+CREATE OR REPLACE FUNCTION dispatch_transfer_order(
+    p_transfer_order_id TEXT,
+    p_dispatched_by TEXT DEFAULT 'system',
+    p_dispatch_date DATE DEFAULT CURRENT_DATE
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'INVALID_STATUS';
+    v_order transfer_orders%ROWTYPE;
+    v_line transfer_order_items%ROWTYPE;
+    v_available INTEGER;
+    v_track_serials BOOLEAN;
+    v_line_cost DECIMAL;
+    v_total_value DECIMAL := 0;
+    v_reason TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT * INTO v_order
+        FROM transfer_orders
+        WHERE id = p_transfer_order_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Transfer % not found', p_transfer_order_id USING DETAIL = 'TRANSFER_NOT_FOUND';
+        END IF;
+
+        IF v_order.status <> 'draft' THEN
+            RAISE EXCEPTION 'Only draft transfers can be dispatched; % is %', v_order.transfer_number, v_order.status
+                USING DETAIL = 'INVALID_STATUS';
+        END IF;
+
+        v_reason := 'Transfer ' || v_order.transfer_number || ' to ' || v_order.to_warehouse_name || ' (in transit)';
+
+        FOR v_line IN
+            SELECT *
+            FROM transfer_order_items
+            WHERE transfer_order_id = v_order.id
+            ORDER BY created_at, id
+        LOOP
+            v_stage := 'STOCK_UPDATE_FAILED';
+
+            IF v_line.item_type = 'product' THEN
+                SELECT current_stock - reserved_stock INTO v_available
+                FROM product_warehouse_stock
+                WHERE product_id = v_line.item_id
+                  AND warehouse_id = v_order.from_warehouse_id
+                  AND variation_id IS NOT DISTINCT FROM v_line.variation_id
+                FOR UPDATE;
+            ELSE
+                SELECT current_stock - reserved_stock INTO v_available
+                FROM packaging_warehouse_stock
+                WHERE packaging_id = v_line.item_id
+                  AND warehouse_id = v_order.from_warehouse_id
+                  AND variation_id IS NOT DISTINCT FROM v_line.variation_id
+                FOR UPDATE;
+            END IF;
+
+            IF COALESCE(v_available, 0) < v_line.quantity THEN
+                RAISE EXCEPTION 'Insufficient stock for % in %. Available: %',
+                    v_line.item_name, v_order.from_warehouse_name, COALESCE(v_available, 0)
+                    USING DETAIL = 'INSUFFICIENT_STOCK';
+            END IF;
+
+            IF v_line.item_type = 'product' THEN
+                PERFORM update_warehouse_stock(
+                    v_line.item_id,
+                    v_order.from_warehouse_id,
+                    v_line.variation_id,
+                    -v_line.quantity,
+                    'transfer',
+                    v_order.id,
+                    v_reason,
+                    p_dispatched_by,
+                    v_order.notes
+                );
+
+                SELECT track_serials INTO v_track_serials FROM products WHERE id = v_line.item_id;
+
+                IF v_track_serials AND v_line.serial_numbers IS NULL THEN
+                    RAISE EXCEPTION 'Name the serial numbers of the % being sent before dispatching', v_line.item_name
+                        USING DETAIL = 'INVALID_SERIAL';
+                END IF;
+
+                IF v_line.serial_numbers IS NOT NULL THEN
+                    PERFORM move_serial_numbers(
+                        v_line.item_id,
+                        v_line.variation_id,
+                        v_line.serial_numbers,
+                        'in_stock',
+                        v_order.from_warehouse_id,
+                        NULL,
+                        'in_transit',
+                        NULL,
+                        v_order.id,
+                        'transferred_out',
+                        v_order.id,
+                        p_dispatched_by,
+                        v_reason
+                    );
+                END IF;
+            ELSE
+                PERFORM update_packaging_warehouse_stock(
+                    v_line.item_id,
+                    v_order.from_warehouse_id,
+                    v_line.variation_id,
+                    -v_line.quantity,
+                    'transfer',
+                    v_order.id,
+                    v_reason,
+                    p_dispatched_by,
+                    v_order.notes
+                );
+            END IF;
+
+            -- The units carry the cost they leave the source with to the destination
+            v_line_cost := issue_inventory_cost(
+                v_line.item_type,
+                v_line.item_id,
+                v_line.variation_id,
+                v_order.from_warehouse_id,
+                v_line.quantity,
+                'transfer',
+                v_order.id,
+                v_line.id,
+                p_dispatch_date
+            );
+
+            UPDATE transfer_order_items
+            SET unit_cost = v_line_cost / v_line.quantity,
+                updated_at = NOW()
+            WHERE id = v_line.id;
+
+            v_total_value := v_total_value + v_line_cost;
+        END LOOP;
+
+        v_stage := 'INVALID_STATUS';
+        UPDATE transfer_orders
+        SET status = 'dispatched',
+            total_value = ROUND(v_total_value, 2),
+            dispatched_at = NOW(),
+            dispatched_by = p_dispatched_by,
+            updated_at = NOW()
+        WHERE id = v_order.id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'TRANSFER_NOT_FOUND', 'INVALID_STATUS', 'INSUFFICIENT_STOCK', 'INVALID_SERIAL', 'STOCK_UPDATE_FAILED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'transfer_order_id', v_order.id,
+        'total_value', ROUND(v_total_value, 2)
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- 7. Receive (part of) a dispatched transfer into the destination warehouse
+-- p_receipt: { received_date, notes,
+--              items: [{ transfer_order_item_id, received_quantity, discrepancy_quantity, discrepancy_reason,
+--                         serial_numbers, discrepancy_serial_numbers }] }
+-- discrepancy_quantity is the number of units that will not arrive; they are written off.
+-- Serial-tracked lines name the units received and the units lost.
+CREATE OR REPLACE FUNCTION receive_transfer_order(
+    p_transfer_order_id TEXT,
+    p_receipt JSONB,
+    p_received_by TEXT DEFAULT 'system'
+) RETURNS JSONB AS $$
+DECLARE
+    v_stage TEXT := 'INVALID_STATUS';
+    v_order transfer_orders%ROWTYPE;
+    v_line transfer_order_items%ROWTYPE;
+    v_item JSONB;
+    v_receipt_id TEXT;
+    v_receipt_number TEXT;
+    v_received_date DATE;
+    v_received INTEGER;
+    v_discrepancy INTEGER;
+    v_serials TEXT[];
+    v_lost_serials TEXT[];
+    v_receipt_received INTEGER := 0;
+    v_receipt_discrepancy INTEGER := 0;
+    v_discrepancy_value DECIMAL := 0;
+    v_outstanding INTEGER;
+    v_reason TEXT;
+    v_inventory_account_id TEXT;
+    v_shrinkage_account_id TEXT;
+    v_journal_entry_id TEXT;
+    v_new_status TEXT;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        SELECT * INTO v_order
+        FROM transfer_orders
+        WHERE id = p_transfer_order_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Transfer % not found', p_transfer_order_id USING DETAIL = 'TRANSFER_NOT_FOUND';
+        END IF;
+
+        IF v_order.status NOT IN ('dispatched', 'partially_received') THEN
+            RAISE EXCEPTION 'Only dispatched transfers can be received; % is %', v_order.transfer_number, v_order.status
+                USING DETAIL = 'INVALID_STATUS';
+        END IF;
+
+        v_received_date := COALESCE((p_receipt->>'received_date')::DATE, CURRENT_DATE);
+        v_receipt_number := 'TRR-' || to_char(v_received_date, 'YYYYMMDD') || '-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text;
+        v_reason := 'Transfer ' || v_order.transfer_number || ' from ' || v_order.from_warehouse_name;
+
+        INSERT INTO transfer_order_receipts (
+            transfer_order_id,
+            receipt_number,
+            received_date,
+            notes,
+            received_by
+        ) VALUES (
+            v_order.id,
+            v_receipt_number,
+            v_received_date,
+            p_receipt->>'notes',
+            p_received_by
+        ) RETURNING id INTO v_receipt_id;
+
+        FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_receipt->'items', '[]'::jsonb))
+        LOOP
+            v_stage := 'INVALID_RECEIPT';
+            v_received := COALESCE((v_item->>'received_quantity')::INTEGER, 0);
+            v_discrepancy := COALESCE((v_item->>'discrepancy_quantity')::INTEGER, 0);
+
+            CONTINUE WHEN v_received = 0 AND v_discrepancy = 0;
+
+            SELECT * INTO v_line
+            FROM transfer_order_items
+            WHERE id = v_item->>'transfer_order_item_id'
+              AND transfer_order_id = v_order.id
+            FOR UPDATE;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Transfer line % not found', v_item->>'transfer_order_item_id' USING DETAIL = 'INVALID_RECEIPT';
+            END IF;
+
+            v_outstanding := v_line.quantity - v_line.received_quantity - v_line.discrepancy_quantity;
+
+            IF v_received < 0 OR v_discrepancy < 0 OR v_received + v_discrepancy > v_outstanding THEN
+                RAISE EXCEPTION 'Only % of % are still in transit', v_outstanding, v_line.item_name
+                    USING DETAIL = 'INVALID_RECEIPT';
+            END IF;
+
+            IF v_discrepancy > 0 AND NULLIF(TRIM(v_item->>'discrepancy_reason'), '') IS NULL THEN
+                RAISE EXCEPTION 'Give a reason for the % units of % that did not arrive', v_discrepancy, v_line.item_name
+                    USING DETAIL = 'INVALID_RECEIPT';
+            END IF;
+
+            v_serials := NULL;
+            v_lost_serials := NULL;
+
+            IF v_line.serial_numbers IS NOT NULL THEN
+                v_serials := parse_serial_numbers(COALESCE(v_item->'serial_numbers', '[]'::jsonb), v_received, v_line.item_name);
+                v_lost_serials := parse_serial_numbers(COALESCE(v_item->'discrepancy_serial_numbers', '[]'::jsonb), v_discrepancy, v_line.item_name);
+
+                PERFORM move_serial_numbers(
+                    v_line.item_id,
+                    v_line.variation_id,
+                    v_serials,
+                    'in_transit',
+                    NULL,
+                    v_order.id,
+                    'in_stock',
+                    v_order.to_warehouse_id,
+                    NULL,
+                    'transferred_in',
+                    v_order.id,
+                    p_received_by,
+                    v_reason
+                );
+
+                PERFORM move_serial_numbers(
+                    v_line.item_id,
+                    v_line.variation_id,
+                    v_lost_serials,
+                    'in_transit',
+                    NULL,
+                    v_order.id,
+                    'lost',
+                    NULL,
+                    NULL,
+                    'lost_in_transit',
+                    v_order.id,
+                    p_received_by,
+                    NULLIF(TRIM(v_item->>'discrepancy_reason'), '')
+                );
+            END IF;
+
+            IF v_received > 0 THEN
+                v_stage := 'STOCK_UPDATE_FAILED';
+
+                IF v_line.item_type = 'product' THEN
+                    PERFORM update_warehouse_stock(
+                        v_line.item_id,
+                        v_order.to_warehouse_id,
+                        v_line.variation_id,
+                        v_received,
+                        'transfer',
+                        v_order.id,
+                        v_reason,
+                        p_received_by,
+                        p_receipt->>'notes'
+                    );
+                ELSE
+                    PERFORM update_packaging_warehouse_stock(
+                        v_line.item_id,
+                        v_order.to_warehouse_id,
+                        v_line.variation_id,
+                        v_received,
+                        'transfer',
+                        v_order.id,
+                        v_reason,
+                        p_received_by,
+                        p_receipt->>'notes'
+                    );
+                END IF;
+
+                PERFORM receive_inventory_cost(
+                    v_line.item_type,
+                    v_line.item_id,
+                    v_line.variation_id,
+                    v_order.to_warehouse_id,
+                    v_received,
+                    v_line.unit_cost,
+                    'transfer',
+                    v_order.id,
+                    v_line.id,
+                    v_received_date
+                );
+            END IF;
+
+            INSERT INTO transfer_order_receipt_items (
+                receipt_id,
+                transfer_order_item_id,
+                received_quantity,
+                discrepancy_quantity,
+                discrepancy_reason,
+                serial_numbers,
+                discrepancy_serial_numbers
+            ) VALUES (
+                v_receipt_id,
+                v_line.id,
+                v_received,
+                v_discrepancy,
+                NULLIF(TRIM(v_item->>'discrepancy_reason'), ''),
+                v_serials,
+                v_lost_serials
+            );
+
+            UPDATE transfer_order_items
+            SET received_quantity = received_quantity + v_received,
+                discrepancy_quantity = discrepancy_quantity + v_discrepancy,
+                discrepancy_reason = CASE
+                    WHEN v_discrepancy > 0 THEN concat_ws('; ', discrepancy_reason, TRIM(v_item->>'discrepancy_reason'))
+                    ELSE discrepancy_reason
+                END,
+                updated_at = NOW()
+            WHERE id = v_line.id;
+
+            v_receipt_received := v_receipt_received + v_received;
+            v_receipt_discrepancy := v_receipt_discrepancy + v_discrepancy;
+            v_discrepancy_value := v_discrepancy_value + ROUND(v_discrepancy * v_line.unit_cost, 2);
+        END LOOP;
+
+        IF v_receipt_received = 0 AND v_receipt_discrepancy = 0 THEN
+            RAISE EXCEPTION 'Enter the quantities received' USING DETAIL = 'INVALID_RECEIPT';
+        END IF;
+
+        -- Units lost in transit left the source at cost and never reach the destination
+        v_stage := 'JOURNAL_FAILED';
+        IF v_discrepancy_value > 0 THEN
+            SELECT id INTO v_inventory_account_id FROM accounts WHERE account_name = 'Inventory' LIMIT 1;
+
+            SELECT id INTO v_shrinkage_account_id
+            FROM accounts
+            WHERE account_name = 'Inventory Shrinkage'
+            LIMIT 1;
+
+            IF v_shrinkage_account_id IS NULL THEN
+                INSERT INTO accounts (
+                    account_number,
+                    account_name,
+                    account_code,
+                    category_id,
+                    description
+                )
+                SELECT
+                    '5100',
+                    'Inventory Shrinkage',
+                    'SHRINK',
+                    id,
+                    'Stock lost, damaged or found in physical counts'
+                FROM account_categories
+                WHERE name = 'Expenses'
+                LIMIT 1
+                RETURNING id INTO v_shrinkage_account_id;
+            END IF;
+
+            IF v_inventory_account_id IS NULL OR v_shrinkage_account_id IS NULL THEN
+                RAISE EXCEPTION 'Inventory and Inventory Shrinkage accounts are required to write off a transfer discrepancy'
+                    USING DETAIL = 'JOURNAL_FAILED';
+            END IF;
+
+            -- The locked-period trigger raises PERIOD_LOCKED if the receipt date is locked
+            INSERT INTO journal_entries (
+                entry_number,
+                description,
+                reference_type,
+                reference_id,
+                entry_date,
+                total_amount,
+                status,
+                created_by
+            ) VALUES (
+                'JE-TRF-' || EXTRACT(EPOCH FROM clock_timestamp())::bigint::text,
+                'Transfer discrepancy ' || v_order.transfer_number || ' - ' || v_order.from_warehouse_name || ' to ' || v_order.to_warehouse_name,
+                'transfer_discrepancy',
+                v_order.id,
+                v_received_date,
+                v_discrepancy_value,
+                'posted',
+                p_received_by
+            ) RETURNING id INTO v_journal_entry_id;
+
+            INSERT INTO journal_entry_lines (journal_entry_id, line_number, account_id, description, debit_amount, credit_amount)
+            VALUES
+            (v_journal_entry_id, 1, v_shrinkage_account_id, 'Stock lost in transfer ' || v_order.transfer_number, v_discrepancy_value, 0),
+            (v_journal_entry_id, 2, v_inventory_account_id, 'Inventory written down', 0, v_discrepancy_value);
+        END IF;
+
+        v_stage := 'INVALID_STATUS';
+        UPDATE transfer_order_receipts
+        SET received_quantity = v_receipt_received,
+            discrepancy_quantity = v_receipt_discrepancy,
+            discrepancy_value = v_discrepancy_value,
+            journal_entry_id = v_journal_entry_id
+        WHERE id = v_receipt_id;
+
+        SELECT CASE
+            WHEN SUM(quantity - received_quantity - discrepancy_quantity) = 0 THEN 'received'
+            ELSE 'partially_received'
+        END INTO v_new_status
+        FROM transfer_order_items
+        WHERE transfer_order_id = v_order.id;
+
+        UPDATE transfer_orders
+        SET status = v_new_status,
+            received_quantity = received_quantity + v_receipt_received,
+            discrepancy_quantity = discrepancy_quantity + v_receipt_discrepancy,
+            discrepancy_value = discrepancy_value + v_discrepancy_value,
+            received_at = CASE WHEN v_new_status = 'received' THEN NOW() ELSE received_at END,
+            received_by = CASE WHEN v_new_status = 'received' THEN p_received_by ELSE received_by END,
+            updated_at = NOW()
+        WHERE id = v_order.id;
+    EXCEPTION
+        WHEN OTHERS THEN
+            -- Everything inside the block above has been rolled back at this point
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code NOT IN (
+                'TRANSFER_NOT_FOUND', 'INVALID_STATUS', 'INVALID_RECEIPT', 'INVALID_SERIAL',
+                'STOCK_UPDATE_FAILED', 'JOURNAL_FAILED', 'PERIOD_LOCKED'
+            ) THEN
+                v_error_code := v_stage;
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'transfer_order_id', v_order.id,
+        'receipt_id', v_receipt_id,
+        'status', v_new_status,
+        'discrepancy_value', v_discrepancy_value,
+        'journal_entry_id', v_journal_entry_id
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION save_transfer_order IS 'Creates a draft transfer order or replaces the lines of an existing draft';
+COMMENT ON FUNCTION dispatch_transfer_order IS 'Moves the stock of a draft transfer out of the source warehouse and into transit atomically';
+COMMENT ON FUNCTION receive_transfer_order IS 'Receives part or all of a dispatched transfer and writes off recorded discrepancies atomically';
+
+-- Success message
+SELECT 'Transfer orders created successfully!' as message;
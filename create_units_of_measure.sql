@@ -0,0 +1,175 @@
+-- Units of measure
+-- Every product is stocked in its base unit (e.g. pcs) and can also be bought and sold
+-- in alternate units that hold a whole number of base units (e.g. a carton of 12 pcs).
+-- Stock, reservations, returns and costs always count base units, so purchase, sale and
+-- sales order lines keep quantity and price in the base unit and record the unit they
+-- were entered in alongside:
+--   quantity in the unit used = quantity / unit_factor
+--   price per unit used       = price * unit_factor
+-- Purchase costs per base unit are kept to four decimals so a carton price divided by
+-- its contents multiplies back to the carton price.
+-- post_sale checks each line's unit against the product (create_post_sale_function.sql).
+-- Errors carry a typed code in DETAIL for the calling function:
+--   INVALID_UNIT
+-- Requires create_sales_orders_tables.sql, create_goods_received_notes.sql
+
+-- 1. Base unit per product
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS base_unit TEXT NOT NULL DEFAULT 'pcs';
+
+COMMENT ON COLUMN products.base_unit IS 'Unit the product is stocked in; alternate units are in product_units';
+
+-- 2. Alternate units
+-- conversion_factor is the number of base units in one of this unit
+CREATE TABLE IF NOT EXISTS product_units (
+  id TEXT PRIMARY KEY DEFAULT 'PUOM' || EXTRACT(EPOCH FROM NOW())::bigint::text || '_' || floor(random() * 1000000)::text,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  conversion_factor INTEGER NOT NULL CHECK (conversion_factor > 1),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_units_product_name ON product_units(product_id, lower(name));
+
+-- 3. Unit each line was entered in
+-- unit_name is NULL on lines entered before units of measure, which are in the base unit
+ALTER TABLE purchase_items
+ADD COLUMN IF NOT EXISTS unit_name TEXT,
+ADD COLUMN IF NOT EXISTS unit_factor INTEGER NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+ALTER TABLE sale_items
+ADD COLUMN IF NOT EXISTS unit_name TEXT,
+ADD COLUMN IF NOT EXISTS unit_factor INTEGER NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+ALTER TABLE sales_order_items
+ADD COLUMN IF NOT EXISTS unit_name TEXT,
+ADD COLUMN IF NOT EXISTS unit_factor INTEGER NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+-- A line entered in an alternate unit covers whole units of it
+ALTER TABLE purchase_items DROP CONSTRAINT IF EXISTS purchase_items_unit_quantity_check;
+ALTER TABLE purchase_items
+ADD CONSTRAINT purchase_items_unit_quantity_check CHECK (quantity % unit_factor = 0);
+
+ALTER TABLE sale_items DROP CONSTRAINT IF EXISTS sale_items_unit_quantity_check;
+ALTER TABLE sale_items
+ADD CONSTRAINT sale_items_unit_quantity_check CHECK (quantity % unit_factor = 0);
+
+ALTER TABLE sales_order_items DROP CONSTRAINT IF EXISTS sales_order_items_unit_quantity_check;
+ALTER TABLE sales_order_items
+ADD CONSTRAINT sales_order_items_unit_quantity_check CHECK (quantity % unit_factor = 0);
+
+-- 4. Base-unit purchase costs to four decimals
+ALTER TABLE purchase_items ALTER COLUMN purchase_price TYPE DECIMAL(14,4);
+ALTER TABLE purchase_return_items ALTER COLUMN purchase_price TYPE DECIMAL(14,4);
+ALTER TABLE goods_received_note_items ALTER COLUMN unit_cost TYPE DECIMAL(14,4);
+
+-- 5. Base units in one of a product's units, or NULL if the product has no such unit
+-- NULL or the base unit's own name gives 1
+CREATE OR REPLACE FUNCTION get_unit_factor(
+    p_product_id TEXT,
+    p_unit_name TEXT
+) RETURNS INTEGER AS $$
+    SELECT CASE
+        WHEN NULLIF(btrim(p_unit_name), '') IS NULL THEN 1
+        WHEN lower(btrim(p_unit_name)) = lower(p.base_unit) THEN 1
+        ELSE (
+            SELECT u.conversion_factor
+            FROM product_units u
+            WHERE u.product_id = p.id
+              AND lower(u.name) = lower(btrim(p_unit_name))
+        )
+    END
+    FROM products p
+    WHERE p.id = p_product_id;
+$$ LANGUAGE sql STABLE;
+
+-- 6. Replace a product's base unit and alternate units
+-- p_units: [{ name, conversion_factor }]
+-- Lines already entered keep the unit name and factor they were entered with
+CREATE OR REPLACE FUNCTION save_product_units(
+    p_product_id TEXT,
+    p_base_unit TEXT,
+    p_units JSONB
+) RETURNS JSONB AS $$
+DECLARE
+    v_base_unit TEXT := NULLIF(btrim(p_base_unit), '');
+    v_unit JSONB;
+    v_name TEXT;
+    v_factor INTEGER;
+    v_count INTEGER := 0;
+    v_error_code TEXT;
+    v_error_message TEXT;
+BEGIN
+    BEGIN
+        PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Product % not found', p_product_id USING DETAIL = 'INVALID_UNIT';
+        END IF;
+
+        IF v_base_unit IS NULL THEN
+            RAISE EXCEPTION 'A base unit is required' USING DETAIL = 'INVALID_UNIT';
+        END IF;
+
+        UPDATE products
+        SET base_unit = v_base_unit,
+            updated_at = NOW()
+        WHERE id = p_product_id;
+
+        DELETE FROM product_units WHERE product_id = p_product_id;
+
+        FOR v_unit IN SELECT * FROM jsonb_array_elements(COALESCE(p_units, '[]'::jsonb))
+        LOOP
+            v_name := NULLIF(btrim(v_unit->>'name'), '');
+            v_factor := (v_unit->>'conversion_factor')::INTEGER;
+
+            IF v_name IS NULL THEN
+                RAISE EXCEPTION 'Every unit needs a name' USING DETAIL = 'INVALID_UNIT';
+            END IF;
+
+            IF lower(v_name) = lower(v_base_unit) THEN
+                RAISE EXCEPTION '% is already the base unit', v_name USING DETAIL = 'INVALID_UNIT';
+            END IF;
+
+            IF COALESCE(v_factor, 0) <= 1 THEN
+                RAISE EXCEPTION 'One % must hold more than one %', v_name, v_base_unit USING DETAIL = 'INVALID_UNIT';
+            END IF;
+
+            INSERT INTO product_units (product_id, name, conversion_factor)
+            VALUES (p_product_id, v_name, v_factor);
+
+            v_count := v_count + 1;
+        END LOOP;
+    EXCEPTION
+        WHEN unique_violation THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', 'INVALID_UNIT',
+                'error_message', 'The same unit is listed twice'
+            );
+        WHEN OTHERS THEN
+            GET STACKED DIAGNOSTICS
+                v_error_code = PG_EXCEPTION_DETAIL,
+                v_error_message = MESSAGE_TEXT;
+
+            IF v_error_code IS NULL OR v_error_code <> 'INVALID_UNIT' THEN
+                v_error_code := 'INVALID_UNIT';
+            END IF;
+
+            RETURN jsonb_build_object(
+                'success', false,
+                'error_code', v_error_code,
+                'error_message', v_error_message
+            );
+    END;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'product_id', p_product_id,
+        'unit_count', v_count
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Success message
+SELECT 'Units of measure created successfully!' as message;
@@ -0,0 +1,427 @@
+"use client"
+
+import * as React from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeftRight, Edit, Plus, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import {
+  BASE_CURRENCY,
+  deleteExchangeRate,
+  getExchangeRates,
+  importExchangeRates,
+  parseExchangeRateCsv,
+  saveExchangeRate,
+  type ExchangeRate
+} from "@/lib/supabase/currencies"
+
+const ALL_CURRENCIES = 'all'
+
+interface RateForm {
+  currency: string
+  rate_date: string
+  rate: string
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+export default function ExchangeRatesPage() {
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+
+  const [rates, setRates] = React.useState<ExchangeRate[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [currencyFilter, setCurrencyFilter] = React.useState(ALL_CURRENCIES)
+  const [isRateDialogOpen, setIsRateDialogOpen] = React.useState(false)
+  const [editingRate, setEditingRate] = React.useState<ExchangeRate | null>(null)
+  const [deletingRate, setDeletingRate] = React.useState<ExchangeRate | null>(null)
+  const [formData, setFormData] = React.useState<RateForm>({ currency: '', rate_date: today(), rate: '' })
+  const [isImportDialogOpen, setIsImportDialogOpen] = React.useState(false)
+  const [csvText, setCsvText] = React.useState('')
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  const loadRates = React.useCallback(() => {
+    return getExchangeRates()
+      .then(setRates)
+      .catch(error => {
+        console.error('Error loading exchange rates:', error)
+        toast.error('Failed to load exchange rates')
+      })
+  }, [])
+
+  React.useEffect(() => {
+    loadRates().finally(() => setLoading(false))
+  }, [loadRates])
+
+  const currencies = React.useMemo(
+    () => Array.from(new Set(rates.map(rate => rate.currency))).sort(),
+    [rates]
+  )
+
+  // Latest rate per currency, for the summary cards
+  const latestRates = React.useMemo(
+    () => currencies.map(currency => rates.find(rate => rate.currency === currency)!),
+    [currencies, rates]
+  )
+
+  const filteredRates = currencyFilter === ALL_CURRENCIES
+    ? rates
+    : rates.filter(rate => rate.currency === currencyFilter)
+
+  const csvPreview = React.useMemo(() => parseExchangeRateCsv(csvText), [csvText])
+
+  const openRateDialog = (rate: ExchangeRate | null) => {
+    setEditingRate(rate)
+    setFormData(rate
+      ? { currency: rate.currency, rate_date: rate.rate_date, rate: String(rate.rate) }
+      : { currency: currencyFilter === ALL_CURRENCIES ? '' : currencyFilter, rate_date: today(), rate: '' })
+    setIsRateDialogOpen(true)
+  }
+
+  const handleSaveRate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const currency = formData.currency.trim().toUpperCase()
+    const rate = parseFloat(formData.rate)
+
+    if (!/^[A-Z]{3}$/.test(currency) || currency === BASE_CURRENCY) {
+      toast.error('Enter a three-letter foreign currency code, e.g. USD')
+      return
+    }
+    if (isNaN(rate) || rate <= 0) {
+      toast.error('Enter a rate above zero')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await saveExchangeRate({ currency, rate_date: formData.rate_date, rate }, editingRate?.id, currentUser)
+      await loadRates()
+      setIsRateDialogOpen(false)
+      toast.success(editingRate ? 'Exchange rate updated' : 'Exchange rate added')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the exchange rate')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setCsvText(await file.text())
+    e.target.value = ''
+  }
+
+  const handleImport = async () => {
+    if (csvPreview.errors.length > 0 || csvPreview.rates.length === 0) return
+
+    setIsSubmitting(true)
+    try {
+      const imported = await importExchangeRates(csvPreview.rates, currentUser)
+      await loadRates()
+      setIsImportDialogOpen(false)
+      setCsvText('')
+      toast.success(`${imported} exchange rate(s) imported`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import the exchange rates')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeleteRate = async () => {
+    if (!deletingRate) return
+
+    setIsSubmitting(true)
+    try {
+      await deleteExchangeRate(deletingRate.id)
+      setRates(rates.filter(rate => rate.id !== deletingRate.id))
+      setDeletingRate(null)
+      toast.success('Exchange rate deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete the exchange rate')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Exchange Rates</h1>
+          <p className="text-muted-foreground">
+            Taka per unit of each foreign currency, used to post foreign purchases, sales and payments
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import CSV
+          </Button>
+          <Button onClick={() => openRateDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rate
+          </Button>
+        </div>
+      </div>
+
+      {/* Latest rates */}
+      {latestRates.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-4">
+          {latestRates.map(rate => (
+            <Card key={rate.currency}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">1 {rate.currency}</CardTitle>
+                <ArrowLeftRight className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">৳{rate.rate.toLocaleString('en-BD', { maximumFractionDigits: 6 })}</div>
+                <p className="text-xs text-muted-foreground">Since {format(parseISO(rate.rate_date), 'dd MMM yyyy')}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Rates</CardTitle>
+            <CardDescription>A document uses the latest rate on or before its date unless another rate is entered on it</CardDescription>
+          </div>
+          <Select value={currencyFilter} onValueChange={setCurrencyFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CURRENCIES}>All currencies</SelectItem>
+              {currencies.map(currency => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 4 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : filteredRates.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <ArrowLeftRight className="mx-auto mb-2 h-8 w-8" />
+              No exchange rates yet. Add a rate or import them from a CSV file.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">Rate (৳)</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="w-[100px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRates.map(rate => (
+                  <TableRow key={rate.id}>
+                    <TableCell>{format(parseISO(rate.rate_date), 'dd MMM yyyy')}</TableCell>
+                    <TableCell className="font-mono font-medium">{rate.currency}</TableCell>
+                    <TableCell className="text-right">{rate.rate.toLocaleString('en-BD', { maximumFractionDigits: 6 })}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{rate.source === 'import' ? 'Imported' : 'Manual'}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openRateDialog(rate)} aria-label="Edit exchange rate">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setDeletingRate(rate)} aria-label="Delete exchange rate">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rate Dialog */}
+      <Dialog open={isRateDialogOpen} onOpenChange={setIsRateDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSaveRate}>
+            <DialogHeader>
+              <DialogTitle>{editingRate ? 'Edit Exchange Rate' : 'Add Exchange Rate'}</DialogTitle>
+              <DialogDescription>
+                Documents already posted keep the rate they were made at
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4 grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="rate-currency">Currency *</Label>
+                <Input
+                  id="rate-currency"
+                  placeholder="USD"
+                  maxLength={3}
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-date">Date *</Label>
+                <Input
+                  id="rate-date"
+                  type="date"
+                  value={formData.rate_date}
+                  onChange={(e) => setFormData({ ...formData, rate_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-value">Taka per unit *</Label>
+                <Input
+                  id="rate-value"
+                  type="number"
+                  min="0"
+                  step="0.000001"
+                  value={formData.rate}
+                  onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsRateDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : editingRate ? 'Save Changes' : 'Add Rate'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Dialog */}
+      <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Exchange Rates</DialogTitle>
+            <DialogDescription>
+              One rate per line as currency,date,rate (e.g. USD,2026-10-01,121.50). Rates already
+              entered for the same currency and date are replaced.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rate-file">CSV file</Label>
+              <Input id="rate-file" type="file" accept=".csv,text/csv,text/plain" onChange={handleFileSelected} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-csv">Or paste the rates</Label>
+              <Textarea
+                id="rate-csv"
+                rows={6}
+                className="font-mono text-sm"
+                placeholder={'currency,date,rate\nUSD,2026-10-01,121.50'}
+                value={csvText}
+                onChange={(e) => setCsvText(e.target.value)}
+              />
+            </div>
+            {csvText.trim() && (
+              <div className="text-sm">
+                <p className="text-muted-foreground">{csvPreview.rates.length} rate(s) ready to import</p>
+                {csvPreview.errors.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-red-600">
+                    {csvPreview.errors.slice(0, 5).map(error => (
+                      <li key={error}>{error}</li>
+                    ))}
+                    {csvPreview.errors.length > 5 && <li>and {csvPreview.errors.length - 5} more</li>}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsImportDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={isSubmitting || csvPreview.rates.length === 0 || csvPreview.errors.length > 0}
+            >
+              {isSubmitting ? 'Importing...' : 'Import Rates'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Rate Dialog */}
+      <AlertDialog open={!!deletingRate} onOpenChange={(open) => !open && setDeletingRate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this {deletingRate?.currency} rate?</AlertDialogTitle>
+            <AlertDialogDescription>
+              New documents dated {deletingRate ? format(parseISO(deletingRate.rate_date), 'dd MMM yyyy') : ''} will
+              use the previous rate. Posted documents are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteRate} disabled={isSubmitting}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
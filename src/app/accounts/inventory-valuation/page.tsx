@@ -0,0 +1,258 @@
+"use client"
+
+import * as React from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Boxes, Layers, Search, Warehouse } from "lucide-react"
+import { toast } from "sonner"
+import { getWarehouses, type DatabaseWarehouse } from "@/lib/supabase/queries"
+import { getCompanySettings } from "@/lib/supabase/company-settings"
+import {
+  getInventoryValuation,
+  INVENTORY_VALUATION_METHOD_LABELS,
+  type InventoryValuationMethod,
+  type InventoryValuationSummary
+} from "@/lib/supabase/inventory-valuation"
+
+const ALL_WAREHOUSES = 'all'
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function InventoryValuationPage() {
+  const [asOfDate, setAsOfDate] = React.useState<Date>(new Date())
+  const [warehouseId, setWarehouseId] = React.useState<string>(ALL_WAREHOUSES)
+  const [searchTerm, setSearchTerm] = React.useState('')
+  const [warehouses, setWarehouses] = React.useState<DatabaseWarehouse[]>([])
+  const [method, setMethod] = React.useState<InventoryValuationMethod | null>(null)
+  const [valuation, setValuation] = React.useState<InventoryValuationSummary | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    getWarehouses()
+      .then(setWarehouses)
+      .catch(error => console.error('Error loading warehouses:', error))
+    getCompanySettings()
+      .then(settings => setMethod(settings.inventory_valuation_method))
+      .catch(error => console.error('Error loading company settings:', error))
+  }, [])
+
+  const asOf = format(asOfDate, 'yyyy-MM-dd')
+
+  React.useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    getInventoryValuation(asOf, warehouseId === ALL_WAREHOUSES ? null : warehouseId)
+      .then(result => { if (!cancelled) setValuation(result) })
+      .catch(error => {
+        console.error('Error loading inventory valuation:', error)
+        toast.error('Failed to load the inventory valuation')
+      })
+      .finally(() => { if (!cancelled) setLoading(false) })
+
+    return () => { cancelled = true }
+  }, [asOf, warehouseId])
+
+  const filteredLines = React.useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    if (!valuation || !term) return valuation?.lines || []
+    return valuation.lines.filter(line =>
+      line.item_name.toLowerCase().includes(term) ||
+      (line.sku || '').toLowerCase().includes(term)
+    )
+  }, [valuation, searchTerm])
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Inventory Valuation</h1>
+        <p className="text-muted-foreground">
+          Stock on hand and its cost on any date, built from purchase receipts, sales and returns
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Inventory Value</CardTitle>
+            <Layers className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {loading || !valuation ? <Skeleton className="h-8 w-24" /> : formatCurrency(valuation.totalValue)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Units on Hand</CardTitle>
+            <Boxes className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {loading || !valuation ? <Skeleton className="h-8 w-24" /> : valuation.totalQuantity.toLocaleString()}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Valuation Method</CardTitle>
+            <Warehouse className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {method ? INVENTORY_VALUATION_METHOD_LABELS[method] : <Skeleton className="h-8 w-24" />}
+            </div>
+            <p className="text-xs text-muted-foreground">Change it on the Settings page</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 md:grid-cols-3 max-w-3xl">
+        <div className="space-y-2">
+          <Label>As of</Label>
+          <DatePicker date={asOfDate} onDateChange={(date) => date && setAsOfDate(date)} placeholder="Valuation date" />
+        </div>
+        <div className="space-y-2">
+          <Label>Warehouse</Label>
+          <Select value={warehouseId} onValueChange={setWarehouseId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_WAREHOUSES}>All warehouses</SelectItem>
+              {warehouses.map(warehouse => (
+                <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="valuation-search">Search</Label>
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="valuation-search"
+              placeholder="Item name or SKU"
+              className="pl-8"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* By warehouse */}
+      {valuation && valuation.byWarehouse.length > 1 && (
+        <div className="grid gap-4 md:grid-cols-3">
+          {valuation.byWarehouse.map(warehouse => (
+            <Card key={warehouse.warehouse_id}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">{warehouse.warehouse_name}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-xl font-bold">{formatCurrency(warehouse.value)}</div>
+                <p className="text-xs text-muted-foreground">{warehouse.quantity.toLocaleString()} units</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Items */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Items on Hand</CardTitle>
+          <CardDescription>
+            Quantity and cost per item and warehouse as of {format(asOfDate, 'dd MMM yyyy')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 8 }).map((_, index) => (
+                <Skeleton key={index} className="h-6 w-full" />
+              ))}
+            </div>
+          ) : filteredLines.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              No stock on hand for this date
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredLines.map(line => (
+                  <TableRow key={`${line.item_type}-${line.item_id}-${line.variation_id || 'base'}-${line.warehouse_id}`}>
+                    <TableCell>
+                      <div className="font-medium">{line.item_name}</div>
+                      {line.item_type === 'package' && <Badge variant="secondary" className="mt-1">Packaging</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{line.sku || '—'}</TableCell>
+                    <TableCell>{line.warehouse_name}</TableCell>
+                    <TableCell className={`text-right ${line.quantity < 0 ? 'text-red-600' : ''}`}>
+                      {line.quantity.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.unit_cost)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(line.total_value)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={3}>Total</TableCell>
+                  <TableCell className="text-right">
+                    {filteredLines.reduce((sum, line) => sum + line.quantity, 0).toLocaleString()}
+                  </TableCell>
+                  <TableCell />
+                  <TableCell className="text-right font-bold">
+                    {formatCurrency(filteredLines.reduce((sum, line) => sum + line.total_value, 0))}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,481 @@
+"use client"
+
+import * as React from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { CalendarCheck, CalendarClock, Lock, LockOpen, Plus, RotateCcw, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import { hasPermission } from "@/lib/supabase/users"
+import {
+  getFiscalPeriods,
+  createFiscalPeriod,
+  deleteFiscalPeriod,
+  closeFiscalPeriod,
+  reopenFiscalPeriod,
+  lockFiscalPeriod,
+  unlockFiscalPeriod,
+  getDefaultPeriod,
+  PERIOD_LOCK_OVERRIDE_PERMISSION,
+  type FiscalPeriod,
+  type FiscalPeriodStatus,
+  type FiscalPeriodType
+} from "@/lib/supabase/fiscal-periods"
+
+type PeriodAction = 'close' | 'reopen' | 'lock' | 'unlock' | 'delete'
+
+const STATUS_BADGES: Record<FiscalPeriodStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-green-100 text-green-800' },
+  closed: { label: 'Closed', className: 'bg-amber-100 text-amber-800' },
+  locked: { label: 'Locked', className: 'bg-gray-200 text-gray-800' }
+}
+
+const PERIOD_TYPE_LABELS: Record<FiscalPeriodType, string> = {
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year'
+}
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+// What each action does, shown in the confirmation dialog
+const describeAction = (action: PeriodAction, period: FiscalPeriod) => {
+  switch (action) {
+    case 'close':
+      return period.period_type === 'year'
+        ? `Closing ${period.name} posts a closing entry on ${formatShortDate(period.end_date)} that moves every revenue and expense balance for the year into Retained Earnings.`
+        : `${period.name} will be marked as reported. It stays open for postings until it is locked.`
+    case 'reopen':
+      return period.closing_entry_id
+        ? `${period.name} will be reopened and its closing entry removed. Close it again once corrections are posted.`
+        : `${period.name} will be reopened.`
+    case 'lock':
+      return `No journal entries, sales, purchases or expenses dated between ${formatShortDate(period.start_date)} and ${formatShortDate(period.end_date)} can be created or changed without the override permission.`
+    case 'unlock':
+      return `${period.name} will go back to closed and accept postings again.`
+    case 'delete':
+      return `${period.name} will be deleted. Transactions in its dates are not affected.`
+  }
+}
+
+const ACTION_LABELS: Record<PeriodAction, string> = {
+  close: 'Close Period',
+  reopen: 'Reopen Period',
+  lock: 'Lock Period',
+  unlock: 'Unlock Period',
+  delete: 'Delete Period'
+}
+
+export default function FiscalPeriodsPage() {
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+  const canOverride = user
+    ? hasPermission(user, PERIOD_LOCK_OVERRIDE_PERMISSION.module, PERIOD_LOCK_OVERRIDE_PERMISSION.action)
+    : false
+
+  const [periods, setPeriods] = React.useState<FiscalPeriod[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  const [isCreateOpen, setIsCreateOpen] = React.useState(false)
+  const [periodType, setPeriodType] = React.useState<FiscalPeriodType>('month')
+  const [startDate, setStartDate] = React.useState<Date>(new Date())
+  const [endDate, setEndDate] = React.useState<Date>(new Date())
+  const [name, setName] = React.useState('')
+  const [notes, setNotes] = React.useState('')
+
+  const [pendingAction, setPendingAction] = React.useState<{ action: PeriodAction; period: FiscalPeriod } | null>(null)
+
+  const loadPeriods = React.useCallback(async () => {
+    try {
+      setLoading(true)
+      setPeriods(await getFiscalPeriods())
+    } catch (error) {
+      console.error('Error loading fiscal periods:', error)
+      toast.error('Failed to load fiscal periods')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    loadPeriods()
+  }, [loadPeriods])
+
+  // Pre-fill a calendar month, quarter or year from the chosen start date
+  const applyDefaults = (type: FiscalPeriodType, start: Date) => {
+    const defaults = getDefaultPeriod(type, start)
+    setPeriodType(type)
+    setStartDate(parseISO(defaults.start_date))
+    setEndDate(parseISO(defaults.end_date))
+    setName(defaults.name)
+  }
+
+  const openCreateDialog = () => {
+    applyDefaults('month', new Date())
+    setNotes('')
+    setIsCreateOpen(true)
+  }
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Enter a name for the period')
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      await createFiscalPeriod({
+        name: name.trim(),
+        period_type: periodType,
+        start_date: format(startDate, 'yyyy-MM-dd'),
+        end_date: format(endDate, 'yyyy-MM-dd'),
+        notes: notes.trim() || undefined,
+        created_by: currentUser
+      })
+      toast.success(`${name.trim()} created`)
+      setIsCreateOpen(false)
+      await loadPeriods()
+    } catch (error) {
+      console.error('Error creating fiscal period:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create fiscal period')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return
+    const { action, period } = pendingAction
+
+    try {
+      setIsSubmitting(true)
+      switch (action) {
+        case 'close': {
+          const result = await closeFiscalPeriod(period.id, currentUser)
+          toast.success(result.closing_entry_id
+            ? `${period.name} closed. ${formatCurrency(result.net_income)} moved to Retained Earnings`
+            : `${period.name} closed`)
+          break
+        }
+        case 'reopen':
+          await reopenFiscalPeriod(period.id)
+          toast.success(`${period.name} reopened`)
+          break
+        case 'lock':
+          await lockFiscalPeriod(period.id, currentUser)
+          toast.success(`${period.name} locked`)
+          break
+        case 'unlock':
+          await unlockFiscalPeriod(period.id)
+          toast.success(`${period.name} unlocked`)
+          break
+        case 'delete':
+          await deleteFiscalPeriod(period.id)
+          toast.success(`${period.name} deleted`)
+          break
+      }
+      setPendingAction(null)
+      await loadPeriods()
+    } catch (error) {
+      console.error(`Error running ${action} on fiscal period:`, error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update fiscal period')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const counts = periods.reduce((acc, period) => {
+    acc[period.status] += 1
+    return acc
+  }, { open: 0, closed: 0, locked: 0 } as Record<FiscalPeriodStatus, number>)
+
+  const latestLock = periods
+    .filter(period => period.status === 'locked')
+    .reduce<string | null>((latest, period) => (!latest || period.end_date > latest ? period.end_date : latest), null)
+
+  const renderActions = (period: FiscalPeriod) => {
+    const request = (action: PeriodAction) => () => setPendingAction({ action, period })
+
+    switch (period.status) {
+      case 'open':
+        return (
+          <>
+            <Button size="sm" variant="outline" onClick={request('close')}>
+              <CalendarCheck className="h-4 w-4 mr-1" /> Close
+            </Button>
+            <Button size="sm" variant="ghost" onClick={request('delete')} aria-label="Delete period">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )
+      case 'closed':
+        return (
+          <>
+            <Button size="sm" variant="outline" onClick={request('lock')}>
+              <Lock className="h-4 w-4 mr-1" /> Lock
+            </Button>
+            <Button size="sm" variant="ghost" onClick={request('reopen')}>
+              <RotateCcw className="h-4 w-4 mr-1" /> Reopen
+            </Button>
+          </>
+        )
+      case 'locked':
+        return canOverride ? (
+          <Button size="sm" variant="ghost" onClick={request('unlock')}>
+            <LockOpen className="h-4 w-4 mr-1" /> Unlock
+          </Button>
+        ) : null
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Accounting Periods</h1>
+          <p className="text-muted-foreground">
+            Close reported periods, post year-end closing entries and lock periods against new postings
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Period
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Periods</CardTitle>
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : counts.open}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Closed Periods</CardTitle>
+            <CalendarCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : counts.closed}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Locked Through</CardTitle>
+            <Lock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {loading ? <Skeleton className="h-8 w-24" /> : latestLock ? formatShortDate(latestLock) : 'Nothing locked'}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fiscal Periods</CardTitle>
+          <CardDescription>
+            {canOverride
+              ? 'You can post into locked periods and unlock them.'
+              : 'Postings dated inside a locked period are refused.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Locked</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 4 }).map((_, index) => (
+                  <TableRow key={index}>
+                    {Array.from({ length: 7 }).map((__, cell) => (
+                      <TableCell key={cell}><Skeleton className="h-4 w-20" /></TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : periods.length > 0 ? (
+                periods.map(period => (
+                  <TableRow key={period.id}>
+                    <TableCell>
+                      <div className="font-medium">{period.name}</div>
+                      {period.closing_entry_id && (
+                        <div className="text-xs text-muted-foreground">Closing entry posted</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{PERIOD_TYPE_LABELS[period.period_type]}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatShortDate(period.start_date)} – {formatShortDate(period.end_date)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGES[period.status].className}>{STATUS_BADGES[period.status].label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {period.closed_at ? (
+                        <>
+                          <div>{format(parseISO(period.closed_at), 'dd MMM yyyy')}</div>
+                          <div className="text-xs text-muted-foreground">{period.closed_by}</div>
+                        </>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {period.locked_at ? (
+                        <>
+                          <div>{format(parseISO(period.locked_at), 'dd MMM yyyy')}</div>
+                          <div className="text-xs text-muted-foreground">{period.locked_by}</div>
+                        </>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">{renderActions(period)}</div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No fiscal periods yet. Create one to start closing and locking your books.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* New period */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Fiscal Period</DialogTitle>
+            <DialogDescription>
+              Periods of the same type cannot overlap. Months and quarters can sit inside a year.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={periodType} onValueChange={(value) => applyDefaults(value as FiscalPeriodType, startDate)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="month">Month</SelectItem>
+                    <SelectItem value="quarter">Quarter</SelectItem>
+                    <SelectItem value="year">Year</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="period-name">Name</Label>
+                <Input id="period-name" value={name} onChange={(event) => setName(event.target.value)} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Start date</Label>
+                <DatePicker date={startDate} onDateChange={(date) => date && applyDefaults(periodType, date)} placeholder="Start date" />
+              </div>
+              <div className="space-y-2">
+                <Label>End date</Label>
+                <DatePicker date={endDate} onDateChange={(date) => date && setEndDate(date)} placeholder="End date" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period-notes">Notes</Label>
+              <Textarea id="period-notes" value={notes} onChange={(event) => setNotes(event.target.value)} rows={2} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={isSubmitting}>
+              {isSubmitting ? 'Creating...' : 'Create Period'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm close, reopen, lock, unlock or delete */}
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => { if (!open) setPendingAction(null) }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction ? `${ACTION_LABELS[pendingAction.action]}?` : ''}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction && describeAction(pendingAction.action, pendingAction.period)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmAction} disabled={isSubmitting}>
+              {isSubmitting ? 'Working...' : pendingAction ? ACTION_LABELS[pendingAction.action] : ''}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+"use client"
+
+import * as React from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DatePicker } from "@/components/ui/date-picker"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertTriangle, TrendingUp, Scale, Banknote } from "lucide-react"
+import { toast } from "sonner"
+import { FinancialStatementTable, AccountDrilldownDialog } from "@/components/accounts"
+import type { StatementColumn, StatementRow } from "@/components/accounts/FinancialStatementTable"
+import type { AccountDrilldown } from "@/components/accounts/AccountDrilldownDialog"
+import {
+  getProfitAndLoss,
+  getBalanceSheetForPeriod,
+  getCashFlowStatement,
+  getCurrentMonthPeriod,
+  type ComparisonMode,
+  type ReportPeriod,
+  type StatementLine,
+  type ProfitAndLossStatement,
+  type BalanceSheet,
+  type CashFlowStatement
+} from "@/lib/supabase/financial-statements"
+
+type ReportTab = 'profit_loss' | 'balance_sheet' | 'cash_flow'
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd')
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const periodLabel = (period: ReportPeriod) => `${formatShortDate(period.from)} – ${formatShortDate(period.to)}`
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function FinancialStatementsPage() {
+  const defaultPeriod = React.useMemo(() => getCurrentMonthPeriod(), [])
+  const [fromDate, setFromDate] = React.useState<Date>(parseISO(defaultPeriod.from))
+  const [toDate, setToDate] = React.useState<Date>(parseISO(defaultPeriod.to))
+  const [comparison, setComparison] = React.useState<ComparisonMode>('previous_period')
+  const [activeTab, setActiveTab] = React.useState<ReportTab>('profit_loss')
+
+  const [profitAndLoss, setProfitAndLoss] = React.useState<ProfitAndLossStatement | null>(null)
+  const [balanceSheet, setBalanceSheet] = React.useState<BalanceSheet | null>(null)
+  const [cashFlow, setCashFlow] = React.useState<CashFlowStatement | null>(null)
+  const [loading, setLoading] = React.useState(true)
+  const [drilldown, setDrilldown] = React.useState<AccountDrilldown | null>(null)
+
+  const period = React.useMemo<ReportPeriod>(() => ({
+    from: toDateString(fromDate),
+    to: toDateString(toDate)
+  }), [fromDate, toDate])
+
+  React.useEffect(() => {
+    if (period.from > period.to) return
+    let cancelled = false
+    setLoading(true)
+
+    Promise.all([
+      getProfitAndLoss(period, comparison),
+      getBalanceSheetForPeriod(period, comparison),
+      getCashFlowStatement(period, comparison)
+    ])
+      .then(([pl, bs, cf]) => {
+        if (cancelled) return
+        setProfitAndLoss(pl)
+        setBalanceSheet(bs)
+        setCashFlow(cf)
+      })
+      .catch(error => {
+        console.error('Error loading financial statements:', error)
+        toast.error('Failed to load financial statements')
+      })
+      .finally(() => { if (!cancelled) setLoading(false) })
+
+    return () => { cancelled = true }
+  }, [period, comparison])
+
+  // Period statements drill into the period's entries without closing entries, as they are
+  // reported; the balance sheet into everything up to its date
+  const drillIntoPeriod = (statementPeriod: ReportPeriod, comparePeriod: ReportPeriod | null) =>
+    (line: StatementLine, column: StatementColumn) => {
+      const range = column === 'compare' ? comparePeriod : statementPeriod
+      if (!line.account_id || !range) return
+      setDrilldown({ accountId: line.account_id, accountName: line.label, from: range.from, to: range.to, includeClosing: false })
+    }
+
+  const drillIntoBalance = (asOf: string, compareAsOf: string | null) =>
+    (line: StatementLine, column: StatementColumn) => {
+      const date = column === 'compare' ? compareAsOf : asOf
+      if (!line.account_id || !date) return
+      setDrilldown({ accountId: line.account_id, accountName: line.label, from: null, to: date, includeClosing: true })
+    }
+
+  const profitAndLossRows: StatementRow[] = profitAndLoss ? [
+    { kind: 'section', section: profitAndLoss.revenue },
+    { kind: 'section', section: profitAndLoss.cost_of_sales },
+    { kind: 'total', label: 'Gross Profit', value: profitAndLoss.gross_profit },
+    { kind: 'section', section: profitAndLoss.operating_expenses },
+    { kind: 'total', label: 'Net Income', value: profitAndLoss.net_income, emphasis: true }
+  ] : []
+
+  const balanceSheetRows: StatementRow[] = balanceSheet ? [
+    { kind: 'section', section: balanceSheet.assets },
+    { kind: 'section', section: balanceSheet.liabilities },
+    { kind: 'section', section: balanceSheet.equity },
+    { kind: 'total', label: 'Total Liabilities and Equity', value: balanceSheet.total_liabilities_and_equity, emphasis: true }
+  ] : []
+
+  const cashFlowRows: StatementRow[] = cashFlow ? [
+    { kind: 'section', section: cashFlow.operating },
+    { kind: 'section', section: cashFlow.investing },
+    { kind: 'section', section: cashFlow.financing },
+    { kind: 'total', label: 'Net Change in Cash', value: cashFlow.net_change },
+    { kind: 'total', label: 'Cash at Beginning of Period', value: cashFlow.opening_cash },
+    { kind: 'total', label: 'Cash at End of Period', value: cashFlow.closing_cash, emphasis: true }
+  ] : []
+
+  const loadingTable = (
+    <div className="space-y-3">
+      {Array.from({ length: 8 }).map((_, index) => (
+        <Skeleton key={index} className="h-6 w-full" />
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Financial Statements</h1>
+        <p className="text-muted-foreground">
+          Profit and loss, balance sheet and cash flow from posted journal entries
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Net Income</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${(profitAndLoss?.net_income.amount || 0) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {loading || !profitAndLoss ? <Skeleton className="h-8 w-24" /> : formatCurrency(profitAndLoss.net_income.amount)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Assets</CardTitle>
+            <Scale className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {loading || !balanceSheet ? <Skeleton className="h-8 w-24" /> : formatCurrency(balanceSheet.assets.total)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Net Change in Cash</CardTitle>
+            <Banknote className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {loading || !cashFlow ? <Skeleton className="h-8 w-24" /> : formatCurrency(cashFlow.net_change.amount)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 md:grid-cols-3 max-w-3xl">
+        <div className="space-y-2">
+          <Label>From</Label>
+          <DatePicker date={fromDate} onDateChange={(date) => date && setFromDate(date)} placeholder="Start date" />
+        </div>
+        <div className="space-y-2">
+          <Label>To</Label>
+          <DatePicker date={toDate} onDateChange={(date) => date && setToDate(date)} placeholder="End date" />
+        </div>
+        <div className="space-y-2">
+          <Label>Compare with</Label>
+          <Select value={comparison} onValueChange={(value) => setComparison(value as ComparisonMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No comparison</SelectItem>
+              <SelectItem value="previous_period">Previous period</SelectItem>
+              <SelectItem value="previous_year">Same period last year</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {period.from > period.to && (
+        <p className="text-sm text-red-600">The start date must be on or before the end date.</p>
+      )}
+
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ReportTab)}>
+        <TabsList>
+          <TabsTrigger value="profit_loss">Profit &amp; Loss</TabsTrigger>
+          <TabsTrigger value="balance_sheet">Balance Sheet</TabsTrigger>
+          <TabsTrigger value="cash_flow">Cash Flow</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="profit_loss">
+          <Card>
+            <CardHeader>
+              <CardTitle>Profit and Loss</CardTitle>
+              <CardDescription>Income and expenses for {periodLabel(period)}. Click an amount to see its journal entries.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading || !profitAndLoss ? loadingTable : (
+                <FinancialStatementTable
+                  rows={profitAndLossRows}
+                  columnLabel={periodLabel(profitAndLoss.period)}
+                  compareLabel={profitAndLoss.comparison ? periodLabel(profitAndLoss.comparison) : null}
+                  onDrillDown={drillIntoPeriod(profitAndLoss.period, profitAndLoss.comparison)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="balance_sheet">
+          <Card>
+            <CardHeader>
+              <CardTitle>Balance Sheet</CardTitle>
+              <CardDescription>Assets, liabilities and equity as of {formatShortDate(period.to)}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loading || !balanceSheet ? loadingTable : (
+                <>
+                  {!balanceSheet.is_balanced && (
+                    <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                      <AlertTriangle className="h-4 w-4" />
+                      Assets do not equal liabilities and equity. Check for unbalanced journal entries.
+                    </div>
+                  )}
+                  <FinancialStatementTable
+                    rows={balanceSheetRows}
+                    columnLabel={`As of ${formatShortDate(balanceSheet.as_of)}`}
+                    compareLabel={balanceSheet.compare_as_of ? `As of ${formatShortDate(balanceSheet.compare_as_of)}` : null}
+                    onDrillDown={drillIntoBalance(balanceSheet.as_of, balanceSheet.compare_as_of)}
+                  />
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="cash_flow">
+          <Card>
+            <CardHeader>
+              <CardTitle>Cash Flow Statement</CardTitle>
+              <CardDescription>Indirect method for {periodLabel(period)}: net income adjusted for changes in balance sheet accounts</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading || !cashFlow ? loadingTable : (
+                <FinancialStatementTable
+                  rows={cashFlowRows}
+                  columnLabel={periodLabel(cashFlow.period)}
+                  compareLabel={cashFlow.comparison ? periodLabel(cashFlow.comparison) : null}
+                  onDrillDown={drillIntoPeriod(cashFlow.period, cashFlow.comparison)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <AccountDrilldownDialog drilldown={drilldown} onClose={() => setDrilldown(null)} />
+    </div>
+  )
+}
@@ -0,0 +1,280 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Edit, Percent, Plus } from "lucide-react"
+import { toast } from "sonner"
+import {
+  getTaxCodes,
+  saveTaxCode,
+  type TaxCode,
+  type TaxCodeInput,
+  type TaxCodeStatus
+} from "@/lib/supabase/tax-codes"
+
+const EMPTY_FORM: TaxCodeInput = {
+  code: '',
+  name: '',
+  rate: 0,
+  price_includes_tax: false,
+  status: 'active'
+}
+
+export default function TaxCodesPage() {
+  const [taxCodes, setTaxCodes] = React.useState<TaxCode[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false)
+  const [editingTaxCode, setEditingTaxCode] = React.useState<TaxCode | null>(null)
+  const [formData, setFormData] = React.useState<TaxCodeInput>(EMPTY_FORM)
+  const [rateInput, setRateInput] = React.useState('')
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  React.useEffect(() => {
+    getTaxCodes()
+      .then(setTaxCodes)
+      .catch(error => {
+        console.error('Error loading tax codes:', error)
+        toast.error('Failed to load tax codes')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const openDialog = (taxCode: TaxCode | null) => {
+    setEditingTaxCode(taxCode)
+    setFormData(taxCode
+      ? {
+          code: taxCode.code,
+          name: taxCode.name,
+          rate: taxCode.rate,
+          price_includes_tax: taxCode.price_includes_tax,
+          status: taxCode.status
+        }
+      : EMPTY_FORM)
+    setRateInput(taxCode ? String(taxCode.rate) : '')
+    setIsDialogOpen(true)
+  }
+
+  const handleSaveTaxCode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.code.trim() || !formData.name.trim()) {
+      toast.error('Code and name are required')
+      return
+    }
+
+    const rate = parseFloat(rateInput)
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast.error('Enter a rate between 0 and 100')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const saved = await saveTaxCode({ ...formData, rate }, editingTaxCode?.id)
+      const taxCode = { ...saved, rate: Number(saved.rate) }
+      setTaxCodes(editingTaxCode
+        ? taxCodes.map(existing => existing.id === taxCode.id ? taxCode : existing)
+        : [...taxCodes, taxCode].sort((a, b) => a.code.localeCompare(b.code)))
+      setIsDialogOpen(false)
+      toast.success(editingTaxCode ? 'Tax code updated' : 'Tax code created')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the tax code')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Tax Codes</h1>
+          <p className="text-muted-foreground">
+            Tax rates for products and categories, charged per line on sales and purchases
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Tax Code
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax Codes</CardTitle>
+          <CardDescription>Products use their own tax code, or else their category&apos;s</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : taxCodes.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <Percent className="mx-auto mb-2 h-8 w-8" />
+              No tax codes yet. Create one for each rate you charge.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Prices</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {taxCodes.map(taxCode => (
+                  <TableRow key={taxCode.id}>
+                    <TableCell className="font-mono font-medium">{taxCode.code}</TableCell>
+                    <TableCell>{taxCode.name}</TableCell>
+                    <TableCell className="text-right">{taxCode.rate}%</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {taxCode.price_includes_tax ? 'Tax included' : 'Tax added on top'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={taxCode.status === 'active' ? 'default' : 'secondary'}>
+                        {taxCode.status === 'active' ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end">
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(taxCode)} aria-label="Edit tax code">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Tax Code Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSaveTaxCode}>
+            <DialogHeader>
+              <DialogTitle>{editingTaxCode ? `Edit ${editingTaxCode.code}` : 'New Tax Code'}</DialogTitle>
+              <DialogDescription>
+                Changing the rate applies to new sales and purchases; posted lines keep the rate they were charged
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="grid gap-4 grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="tax-code-code">Code *</Label>
+                  <Input
+                    id="tax-code-code"
+                    placeholder="e.g. VAT15"
+                    value={formData.code}
+                    onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tax-code-rate">Rate (%) *</Label>
+                  <Input
+                    id="tax-code-rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.001"
+                    value={rateInput}
+                    onChange={(e) => setRateInput(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-code-name">Name *</Label>
+                <Input
+                  id="tax-code-name"
+                  placeholder="e.g. VAT standard rate"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="tax-code-inclusive">Prices include tax</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Tax is taken out of selling prices instead of being added to them
+                  </p>
+                </div>
+                <Switch
+                  id="tax-code-inclusive"
+                  checked={formData.price_includes_tax}
+                  onCheckedChange={(checked) => setFormData({ ...formData, price_includes_tax: checked })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-code-status">Status</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value) => setFormData({ ...formData, status: value as TaxCodeStatus })}
+                >
+                  <SelectTrigger id="tax-code-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="inactive">Inactive</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Inactive codes can&apos;t be chosen and are not charged on new sales
+                </p>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : editingTaxCode ? 'Save Changes' : 'Create Tax Code'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
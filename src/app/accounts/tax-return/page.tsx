@@ -0,0 +1,194 @@
+"use client"
+
+import * as React from "react"
+import { endOfMonth, format, startOfMonth } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Landmark, ShoppingCart, TrendingUp } from "lucide-react"
+import { toast } from "sonner"
+import { getTaxReturn, type TaxReturnRow } from "@/lib/supabase/tax-codes"
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function TaxReturnPage() {
+  const [fromDate, setFromDate] = React.useState<Date>(() => startOfMonth(new Date()))
+  const [toDate, setToDate] = React.useState<Date>(() => endOfMonth(new Date()))
+  const [rows, setRows] = React.useState<TaxReturnRow[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  const from = format(fromDate, 'yyyy-MM-dd')
+  const to = format(toDate, 'yyyy-MM-dd')
+
+  React.useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    getTaxReturn(from, to)
+      .then(result => { if (!cancelled) setRows(result) })
+      .catch(error => {
+        console.error('Error loading tax return:', error)
+        toast.error('Failed to load the tax return')
+      })
+      .finally(() => { if (!cancelled) setLoading(false) })
+
+    return () => { cancelled = true }
+  }, [from, to])
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      taxableSales: sum.taxableSales + row.taxable_sales,
+      outputTax: sum.outputTax + row.output_tax,
+      taxablePurchases: sum.taxablePurchases + row.taxable_purchases,
+      inputTax: sum.inputTax + row.input_tax
+    }),
+    { taxableSales: 0, outputTax: 0, taxablePurchases: 0, inputTax: 0 }
+  )
+  const netDue = totals.outputTax - totals.inputTax
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Tax Return</h1>
+        <p className="text-muted-foreground">
+          Tax collected on sales less tax paid on purchases received, for any period
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tax Collected</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {loading ? <Skeleton className="h-8 w-24" /> : formatCurrency(totals.outputTax)}
+            </div>
+            <p className="text-xs text-muted-foreground">On {formatCurrency(totals.taxableSales)} of sales</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tax Paid</CardTitle>
+            <ShoppingCart className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {loading ? <Skeleton className="h-8 w-24" /> : formatCurrency(totals.inputTax)}
+            </div>
+            <p className="text-xs text-muted-foreground">On {formatCurrency(totals.taxablePurchases)} of purchases</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{netDue < 0 ? 'Net Reclaimable' : 'Net Due'}</CardTitle>
+            <Landmark className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${netDue < 0 ? 'text-green-600' : ''}`}>
+              {loading ? <Skeleton className="h-8 w-24" /> : formatCurrency(Math.abs(netDue))}
+            </div>
+            <p className="text-xs text-muted-foreground">Tax collected less tax paid</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 md:grid-cols-3 max-w-3xl">
+        <div className="space-y-2">
+          <Label>From</Label>
+          <DatePicker date={fromDate} onDateChange={(date) => date && setFromDate(date)} placeholder="Start date" />
+        </div>
+        <div className="space-y-2">
+          <Label>To</Label>
+          <DatePicker date={toDate} onDateChange={(date) => date && setToDate(date)} placeholder="End date" />
+        </div>
+      </div>
+
+      {/* By tax code */}
+      <Card>
+        <CardHeader>
+          <CardTitle>By Tax Code</CardTitle>
+          <CardDescription>
+            Sales by sale date and purchases by date received, {format(fromDate, 'dd MMM yyyy')} to {format(toDate, 'dd MMM yyyy')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 4 }).map((_, index) => (
+                <Skeleton key={index} className="h-6 w-full" />
+              ))}
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              No sales or purchases received in this period
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tax Code</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Taxable Sales</TableHead>
+                  <TableHead className="text-right">Tax Collected</TableHead>
+                  <TableHead className="text-right">Taxable Purchases</TableHead>
+                  <TableHead className="text-right">Tax Paid</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.tax_code_id || 'untaxed'}>
+                    <TableCell>
+                      {row.tax_code_id ? (
+                        <>
+                          <div className="font-mono font-medium">{row.code}</div>
+                          <div className="text-xs text-muted-foreground">{row.name}</div>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Untaxed</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{row.rate === null ? '—' : `${row.rate}%`}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.taxable_sales)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.output_tax)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.taxable_purchases)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.input_tax)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.taxableSales)}</TableCell>
+                  <TableCell className="text-right font-bold">{formatCurrency(totals.outputTax)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.taxablePurchases)}</TableCell>
+                  <TableCell className="text-right font-bold">{formatCurrency(totals.inputTax)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import * as React from "react"
 import { motion } from 'framer-motion'
-import { ArrowLeft, TrendingUp, TrendingDown, Filter, Search, Package } from "lucide-react"
+import { ArrowLeft, TrendingUp, TrendingDown, Filter, Search, Package, ArrowLeftRight, ArrowRight } from "lucide-react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -24,6 +24,12 @@ import {
 } from "@/components/ui/table"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { type StockMovement } from "@/lib/types"
+import {
+  getTransferOrders,
+  TRANSFER_ORDER_STATUS_BADGE_CLASSES,
+  TRANSFER_ORDER_STATUS_LABELS,
+  type TransferOrder
+} from "@/lib/supabase/transfer-orders"
 
 export default function StockMovementsPage() {
   const [movements, setMovements] = React.useState<StockMovement[]>([])
@@ -31,6 +37,23 @@ export default function StockMovementsPage() {
   const [searchTerm, setSearchTerm] = React.useState("")
   const [filterType, setFilterType] = React.useState<string>("all")
   const [filterDirection, setFilterDirection] = React.useState<string>("all")
+  const [transfers, setTransfers] = React.useState<TransferOrder[]>([])
+
+  React.useEffect(() => {
+    getTransferOrders()
+      .then(setTransfers)
+      .catch(error => console.error('Error loading transfers:', error))
+  }, [])
+
+  // Transfers only show when they match the search and the type filter allows them
+  const filteredTransfers = transfers.filter(transfer => {
+    const term = searchTerm.toLowerCase()
+    const matchesSearch = transfer.transfer_number.toLowerCase().includes(term) ||
+                         transfer.from_warehouse_name.toLowerCase().includes(term) ||
+                         transfer.to_warehouse_name.toLowerCase().includes(term)
+
+    return matchesSearch && (filterType === "all" || filterType === "transfer")
+  })
 
   const filteredMovements = movements.filter(movement => {
     const matchesSearch = movement.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -65,6 +88,10 @@ export default function StockMovementsPage() {
         return 'bg-purple-100 text-purple-800'
       case 'sale':
         return 'bg-gray-100 text-gray-800'
+      case 'transfer':
+        return 'bg-cyan-100 text-cyan-800'
+      case 'assembly':
+        return 'bg-amber-100 text-amber-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -125,6 +152,8 @@ export default function StockMovementsPage() {
             <SelectItem value="return">Return</SelectItem>
             <SelectItem value="adjustment">Adjustment</SelectItem>
             <SelectItem value="sale">Sale</SelectItem>
+            <SelectItem value="transfer">Transfer</SelectItem>
+            <SelectItem value="assembly">Assembly</SelectItem>
           </SelectContent>
         </Select>
 
@@ -140,6 +169,76 @@ export default function StockMovementsPage() {
         </Select>
       </motion.div>
 
+      {/* Transfer Orders */}
+      {filteredTransfers.length > 0 && (
+        <motion.div
+          className="mb-6"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.6, delay: 0.25 }}
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ArrowLeftRight className="h-5 w-5" />
+                Transfer Orders
+              </CardTitle>
+              <CardDescription>
+                Stock leaves the source on dispatch and enters the destination as it is received
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Transfer</TableHead>
+                    <TableHead>Route</TableHead>
+                    <TableHead>Dispatched</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Missing</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredTransfers.map(transfer => (
+                    <TableRow key={transfer.id}>
+                      <TableCell>
+                        <Link href={`/warehouses/transfers/${transfer.id}`} className="font-mono text-sm text-primary hover:underline">
+                          {transfer.transfer_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 text-sm">
+                          {transfer.from_warehouse_name}
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          {transfer.to_warehouse_name}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {transfer.dispatched_at
+                          ? new Date(transfer.dispatched_at).toLocaleDateString('en-BD', { year: 'numeric', month: 'short', day: 'numeric' })
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={`text-xs ${TRANSFER_ORDER_STATUS_BADGE_CLASSES[transfer.status]}`}>
+                          {TRANSFER_ORDER_STATUS_LABELS[transfer.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{transfer.total_quantity}</TableCell>
+                      <TableCell className="text-right text-green-600">{transfer.received_quantity}</TableCell>
+                      <TableCell className={`text-right ${transfer.discrepancy_quantity > 0 ? 'text-red-600' : ''}`}>
+                        {transfer.discrepancy_quantity}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
       {/* Stock Movements Table */}
       <motion.div 
         initial={{ opacity: 0 }}
@@ -239,9 +338,17 @@ export default function StockMovementsPage() {
                       {/* Reference */}
                       <div className="hidden lg:block flex-shrink-0">
                         <div className="text-xs text-muted-foreground uppercase tracking-wide">Reference</div>
-                        <Badge variant="outline" className="text-xs mt-1">
-                          {movement.referenceId}
-                        </Badge>
+                        {movement.movementType === 'transfer' ? (
+                          <Link href={`/warehouses/transfers/${movement.referenceId}`}>
+                            <Badge variant="outline" className="text-xs mt-1 hover:bg-muted">
+                              {movement.referenceId}
+                            </Badge>
+                          </Link>
+                        ) : (
+                          <Badge variant="outline" className="text-xs mt-1">
+                            {movement.referenceId}
+                          </Badge>
+                        )}
                       </div>
                     </div>
 
@@ -256,6 +363,11 @@ export default function StockMovementsPage() {
                             Note: {movement.notes}
                           </div>
                         )}
+                        {movement.lotNumber && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Lot: {movement.lotNumber}
+                          </div>
+                        )}
                       </div>
 
                       {/* Created By */}
@@ -277,9 +389,17 @@ export default function StockMovementsPage() {
                       {/* Mobile Reference */}
                       <div className="lg:hidden">
                         <div className="text-xs text-muted-foreground uppercase tracking-wide">Reference</div>
-                        <Badge variant="outline" className="text-xs mt-1">
-                          {movement.referenceId}
-                        </Badge>
+                        {movement.movementType === 'transfer' ? (
+                          <Link href={`/warehouses/transfers/${movement.referenceId}`}>
+                            <Badge variant="outline" className="text-xs mt-1 hover:bg-muted">
+                              {movement.referenceId}
+                            </Badge>
+                          </Link>
+                        ) : (
+                          <Badge variant="outline" className="text-xs mt-1">
+                            {movement.referenceId}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                   </Card>
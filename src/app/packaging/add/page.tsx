@@ -51,10 +51,12 @@ import type {
   CreatePackagingAttributeData,
   UpdatePackagingAttributeData 
 } from "@/lib/supabase/mutations"
+import { BarcodeField, type BarcodeValidationState } from "@/components/BarcodeField"
 
 interface PackagingVariation {
   id: string
   sku: string
+  barcode: string
   attributeValues: { [attributeId: string]: string }
 }
 
@@ -65,6 +67,7 @@ interface PackagingForm {
   status: 'active' | 'inactive'
   // Simple packaging fields
   sku?: string
+  barcode?: string
   // Variable packaging fields
   selectedAttributes: string[]
   variations: PackagingVariation[]
@@ -72,6 +75,7 @@ interface PackagingForm {
 
 interface VariationForm {
   sku: string
+  barcode: string
   attributeValues: { [attributeId: string]: string }
 }
 
@@ -109,6 +113,16 @@ export default function AddPackagingPage() {
     isValid: null,
     message: ''
   })
+  const [barcodeValidation, setBarcodeValidation] = React.useState<BarcodeValidationState>({
+    isChecking: false,
+    isValid: null,
+    message: ''
+  })
+  const [variationBarcodeValidation, setVariationBarcodeValidation] = React.useState<BarcodeValidationState>({
+    isChecking: false,
+    isValid: null,
+    message: ''
+  })
   
   const [form, setForm] = React.useState<PackagingForm>({
     title: '',
@@ -121,6 +135,7 @@ export default function AddPackagingPage() {
 
   const [variationForm, setVariationForm] = React.useState<VariationForm>({
     sku: '',
+    barcode: '',
     attributeValues: {}
   })
 
@@ -249,6 +264,11 @@ export default function AddPackagingPage() {
       } else if (skuValidation.isChecking) {
         newErrors.push('Please wait for SKU validation to complete')
       }
+      if (barcodeValidation.isValid === false) {
+        newErrors.push(barcodeValidation.message || 'Barcode is not valid')
+      } else if (barcodeValidation.isChecking) {
+        newErrors.push('Please wait for barcode validation to complete')
+      }
     } else {
       if (form.selectedAttributes.length === 0) {
         newErrors.push('At least one attribute must be selected for variable packaging')
@@ -313,9 +333,11 @@ export default function AddPackagingPage() {
         type: form.type,
         status: form.status,
         sku: form.type === 'simple' ? form.sku : undefined,
+        barcode: form.type === 'simple' ? form.barcode?.trim() : undefined,
         selectedAttributes: form.type === 'variable' ? form.selectedAttributes : undefined,
         variations: form.type === 'variable' ? form.variations.map(v => ({
           sku: v.sku,
+          barcode: v.barcode,
           attributeValues: v.attributeValues
         })) : undefined
       }
@@ -371,6 +393,13 @@ export default function AddPackagingPage() {
       return
     }
 
+    if (variationBarcodeValidation.isChecking || variationBarcodeValidation.isValid === false) {
+      toast.error("Invalid barcode", {
+        description: variationBarcodeValidation.message || "Barcode validation is in progress"
+      })
+      return
+    }
+
     // Check if SKU already exists in other variations (exclude current editing variation)
     const existingSKU = form.variations.find((v, index) => 
       index !== editingVariationIndex &&
@@ -425,6 +454,7 @@ export default function AddPackagingPage() {
     const newVariation: PackagingVariation = {
       id: editingVariationIndex !== null ? form.variations[editingVariationIndex].id : `VAR_${Date.now()}`,
       sku: variationForm.sku,
+      barcode: variationForm.barcode.trim(),
       attributeValues: { ...variationForm.attributeValues }
     }
 
@@ -453,6 +483,7 @@ export default function AddPackagingPage() {
     
     setVariationForm({
       sku: variation.sku,
+      barcode: variation.barcode,
       attributeValues: { ...variation.attributeValues }
     })
     setEditingVariationIndex(index)
@@ -467,9 +498,11 @@ export default function AddPackagingPage() {
   const resetVariationForm = () => {
     setVariationForm({
       sku: '',
+      barcode: '',
       attributeValues: {}
     })
     setVariationSkuValidation({ isChecking: false, isValid: null, message: '' })
+    setVariationBarcodeValidation({ isChecking: false, isValid: null, message: '' })
     setEditingVariationIndex(null)
     setShowAddModal(false)
     setShowEditModal(false)
@@ -822,7 +855,7 @@ export default function AddPackagingPage() {
                           ? 'border-primary bg-primary/5 shadow-sm ring-1 ring-primary/20' 
                           : 'border-muted hover:border-muted-foreground/50 hover:shadow-sm'
                       }`}
-                      onClick={() => setForm({ ...form, type: 'variable', sku: '' })}
+                      onClick={() => setForm({ ...form, type: 'variable', sku: '', barcode: '' })}
                     >
                       <div className="flex items-start sm:items-center space-x-3">
                         <div className={`w-4 h-4 rounded-full border-2 mt-0.5 sm:mt-0 flex-shrink-0 ${
@@ -880,6 +913,15 @@ export default function AddPackagingPage() {
                     )}
                   </div>
                 )}
+
+                {form.type === 'simple' && (
+                  <BarcodeField
+                    id="barcode"
+                    value={form.barcode || ''}
+                    onChange={(barcode) => setForm({ ...form, barcode })}
+                    onValidationChange={setBarcodeValidation}
+                  />
+                )}
               </CardContent>
             </Card>
 
@@ -993,6 +1035,9 @@ export default function AddPackagingPage() {
                                         New
                                       </Badge>
                                     </div>
+                                    <div className="text-xs font-mono text-muted-foreground">
+                                      {variation.barcode || 'Barcode generated on save'}
+                                    </div>
                                   </TableCell>
                                   <TableCell>
                                     <div className="flex flex-wrap gap-1">
@@ -1167,6 +1212,16 @@ export default function AddPackagingPage() {
               )}
             </div>
 
+            <BarcodeField
+              id="add-barcode"
+              value={variationForm.barcode}
+              onChange={(barcode) => setVariationForm({ ...variationForm, barcode })}
+              otherBarcodes={form.variations
+                .filter((v, index) => index !== editingVariationIndex && v.barcode)
+                .map(v => v.barcode)}
+              onValidationChange={setVariationBarcodeValidation}
+            />
+
             {/* Attribute Values */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {form.selectedAttributes.map((attributeId) => {
@@ -1259,6 +1314,16 @@ export default function AddPackagingPage() {
               )}
             </div>
 
+            <BarcodeField
+              id="edit-barcode"
+              value={variationForm.barcode}
+              onChange={(barcode) => setVariationForm({ ...variationForm, barcode })}
+              otherBarcodes={form.variations
+                .filter((v, index) => index !== editingVariationIndex && v.barcode)
+                .map(v => v.barcode)}
+              onValidationChange={setVariationBarcodeValidation}
+            />
+
             {/* Attribute Values */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {form.selectedAttributes.map((attributeId) => {
@@ -57,10 +57,12 @@ import type {
   CreatePackagingAttributeData,
   UpdatePackagingAttributeData 
 } from "@/lib/supabase/mutations"
+import { BarcodeField, type BarcodeValidationState } from "@/components/BarcodeField"
 
 interface PackagingVariation {
   id: string
   sku: string
+  barcode: string
   attributeValues: { [attributeId: string]: string }
 }
 
@@ -71,6 +73,7 @@ interface PackagingForm {
   status: 'active' | 'inactive'
   // Simple packaging fields
   sku?: string
+  barcode?: string
   // Variable packaging fields
   selectedAttributes: string[]
   variations: PackagingVariation[]
@@ -78,6 +81,7 @@ interface PackagingForm {
 
 interface VariationForm {
   sku: string
+  barcode: string
   attributeValues: { [attributeId: string]: string }
 }
 
@@ -99,6 +103,16 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
   const [packaging, setPackaging] = React.useState<DatabasePackaging | null>(null)
   const [packagingAttributes, setPackagingAttributes] = React.useState<DatabasePackagingAttribute[]>([])
   const [formInitialized, setFormInitialized] = React.useState(false)
+  const [barcodeValidation, setBarcodeValidation] = React.useState<BarcodeValidationState>({
+    isChecking: false,
+    isValid: null,
+    message: ''
+  })
+  const [variationBarcodeValidation, setVariationBarcodeValidation] = React.useState<BarcodeValidationState>({
+    isChecking: false,
+    isValid: null,
+    message: ''
+  })
   
   const [form, setForm] = React.useState<PackagingForm>({
     title: '',
@@ -111,6 +125,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
 
   const [variationForm, setVariationForm] = React.useState<VariationForm>({
     sku: '',
+    barcode: '',
     attributeValues: {}
   })
 
@@ -154,6 +169,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
           const transformedVariations = packagingData.variations?.map(variation => ({
             id: variation.id,
             sku: variation.sku,
+            barcode: variation.barcode || '',
             attributeValues: variation.attribute_values?.reduce((acc, attr) => {
               acc[attr.attribute_id] = attr.value_id
               return acc
@@ -166,6 +182,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
             type: packagingData.type as 'simple' | 'variable',
             status: packagingData.status as 'active' | 'inactive',
             sku: packagingData.sku || '',
+            barcode: packagingData.barcode || '',
             selectedAttributes: packagingData.attributes || [],
             variations: transformedVariations
           })
@@ -193,6 +210,11 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
       if (!form.sku?.trim()) {
         newErrors.push('SKU is required for simple packaging')
       }
+      if (barcodeValidation.isValid === false) {
+        newErrors.push(barcodeValidation.message || 'Barcode is not valid')
+      } else if (barcodeValidation.isChecking) {
+        newErrors.push('Please wait for barcode validation to complete')
+      }
     } else {
       // Only require attributes if no variations exist yet
       if (form.selectedAttributes.length === 0 && form.variations.length === 0) {
@@ -245,6 +267,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
         .map(v => ({
           id: v.id,
           sku: v.sku,
+          barcode: v.barcode,
           attributeValues: v.attributeValues
         }))
 
@@ -253,6 +276,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
         .filter(v => v.id.startsWith('VAR')) // Only new variations with temporary IDs (VAR123456)
         .map(v => ({
           sku: v.sku,
+          barcode: v.barcode,
           attributeValues: v.attributeValues
         }))
       
@@ -265,6 +289,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
         description: form.description,
         status: form.status,
         sku: form.type === 'simple' ? form.sku : undefined,
+        barcode: form.type === 'simple' ? form.barcode?.trim() : undefined,
         selectedAttributes: form.type === 'variable' ? form.selectedAttributes : undefined,
         variations: existingVariations.length > 0 ? existingVariations : undefined,
         newVariations: newVariations.length > 0 ? newVariations : undefined
@@ -306,6 +331,13 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
       return
     }
 
+    if (variationBarcodeValidation.isChecking || variationBarcodeValidation.isValid === false) {
+      toast.error("Invalid barcode", {
+        description: variationBarcodeValidation.message || "Barcode validation is in progress"
+      })
+      return
+    }
+
     // Check if SKU already exists in other variations (exclude current editing variation)
     const existingSKU = form.variations.find((v, index) => 
       index !== editingVariationIndex &&
@@ -370,6 +402,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
             ? {
                 ...variation,
                 sku: variationForm.sku,
+                barcode: variationForm.barcode.trim(),
                 attributeValues: { ...variationForm.attributeValues }
               }
             : variation
@@ -382,6 +415,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
       const newVariation: PackagingVariation = {
         id: `VAR_${Date.now()}`,
         sku: variationForm.sku,
+        barcode: variationForm.barcode.trim(),
         attributeValues: { ...variationForm.attributeValues }
       }
 
@@ -407,6 +441,7 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
     
     setVariationForm({
       sku: variation.sku,
+      barcode: variation.barcode,
       attributeValues: { ...variation.attributeValues }
     })
     setEditingVariationIndex(index)
@@ -423,8 +458,10 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
   const resetVariationForm = () => {
     setVariationForm({
       sku: '',
+      barcode: '',
       attributeValues: {}
     })
+    setVariationBarcodeValidation({ isChecking: false, isValid: null, message: '' })
     setEditingVariationIndex(null)
     setShowAddModal(false)
     setShowEditModal(false)
@@ -831,6 +868,14 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
                       required
                     />
                   </div>
+
+                  <BarcodeField
+                    id="barcode"
+                    value={form.barcode || ''}
+                    onChange={(barcode) => setForm({ ...form, barcode })}
+                    excludeId={packagingId}
+                    onValidationChange={setBarcodeValidation}
+                  />
                   
                   <Alert className="border-blue-200 bg-blue-50">
                     <AlertDescription className="text-blue-800">
@@ -958,6 +1003,9 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
                                         </Badge>
                                       )}
                                     </div>
+                                    <div className="text-xs font-mono text-muted-foreground">
+                                      {variation.barcode || 'Barcode generated on save'}
+                                    </div>
                                   </TableCell>
                                   <TableCell>
                                     <div className="flex flex-wrap gap-1">
@@ -1106,6 +1154,16 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
               />
             </div>
 
+            <BarcodeField
+              id="add-barcode"
+              value={variationForm.barcode}
+              onChange={(barcode) => setVariationForm({ ...variationForm, barcode })}
+              otherBarcodes={form.variations
+                .filter((v, index) => index !== editingVariationIndex && v.barcode)
+                .map(v => v.barcode)}
+              onValidationChange={setVariationBarcodeValidation}
+            />
+
             {/* Attribute Values */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {form.selectedAttributes.map((attributeId) => {
@@ -1173,6 +1231,19 @@ export default function EditPackagingPage({ params }: { params: Promise<{ id: st
               />
             </div>
 
+            <BarcodeField
+              id="edit-barcode"
+              value={variationForm.barcode}
+              onChange={(barcode) => setVariationForm({ ...variationForm, barcode })}
+              excludeId={editingVariationIndex !== null && !form.variations[editingVariationIndex].id.startsWith('VAR')
+                ? form.variations[editingVariationIndex].id
+                : ''}
+              otherBarcodes={form.variations
+                .filter((v, index) => index !== editingVariationIndex && v.barcode)
+                .map(v => v.barcode)}
+              onValidationChange={setVariationBarcodeValidation}
+            />
+
             {/* Attribute Values */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {form.selectedAttributes.map((attributeId) => {
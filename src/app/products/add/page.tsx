@@ -7,6 +7,7 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import { Textarea } from "@/components/ui/textarea"
 import { Skeleton } from "@/components/ui/skeleton"
 import {
@@ -25,6 +26,9 @@ import {
   type CreateProductVariationData,
 } from "@/lib/supabase/mutations"
 import { toast } from "sonner"
+import { BarcodeField, type BarcodeValidationState } from "@/components/BarcodeField"
+import { TaxCodeSelect } from "@/components/TaxCodeSelect"
+import { getTaxCodes, type TaxCode } from "@/lib/supabase/tax-codes"
 
 // Import our new hooks
 import { useAddProductData } from '@/lib/hooks/useAddProductData'
@@ -39,6 +43,8 @@ import {
 
 // Import existing UI components
 import { 
+  BundleComponentsEditor,
+  UnitsOfMeasureEditor,
   ProductTypeSelector,
   VariationProductFields
 } from '@/components/products/forms'
@@ -89,6 +95,17 @@ export default function AddProductPage() {
   const [isLoading, setIsLoading] = React.useState(false)
   const [showMediaManager, setShowMediaManager] = React.useState(false)
   const [selectedImage, setSelectedImage] = React.useState<MediaItem | null>(null)
+  const [barcodeValidation, setBarcodeValidation] = React.useState<BarcodeValidationState | null>(null)
+  const [taxCodes, setTaxCodes] = React.useState<TaxCode[]>([])
+
+  React.useEffect(() => {
+    getTaxCodes()
+      .then(setTaxCodes)
+      .catch(error => {
+        console.error('Error loading tax codes:', error)
+        toast.error('Failed to load tax codes')
+      })
+  }, [])
 
   // Debounced SKU validation
   useDebounceSkuValidation(
@@ -128,32 +145,45 @@ export default function AddProductPage() {
       return
     }
 
+    if (productForm.form.type !== 'variation' && barcodeValidation?.isValid === false) {
+      toast.error('Error', { description: barcodeValidation.message })
+      return
+    }
+
     setIsLoading(true)
     try {
       const productData: CreateProductData = {
         name: productForm.form.name,
         description: productForm.form.description,
         category_id: productForm.form.categoryId || undefined,
+        tax_code_id: productForm.form.taxCodeId || undefined,
         status: productForm.form.status,
         type: productForm.form.type,
         sku: productForm.form.sku,
+        barcode: productForm.form.type !== 'variation' ? productForm.form.barcode : undefined,
         price: productForm.form.sellingPrice,
-        image_url: selectedImage?.url
+        image_url: selectedImage?.url,
+        track_lots: productForm.form.trackLots,
+        track_serials: productForm.form.trackSerials
       }
 
       if (productForm.form.type === 'simple') {
         // Create simple product
-        await createCompleteProduct(productData)
+        await createCompleteProduct(productData, undefined, undefined, undefined, productForm.form.productUnits)
+      } else if (productForm.form.type === 'bundle') {
+        // Create bundle product with its components
+        await createCompleteProduct(productData, undefined, undefined, productForm.form.bundleComponents, productForm.form.productUnits)
       } else {
         // Create variation product with variations
         const variations: CreateProductVariationData[] = productForm.form.variations.map(variation => ({
           product_id: '', // Will be set by the backend
           sku: variation.sku,
+          barcode: variation.barcode,
           price: variation.price,
           attribute_values: variation.attributeValues
         }))
 
-        await createCompleteProduct(productData, variations, productForm.form.selectedAttributes)
+        await createCompleteProduct(productData, variations, productForm.form.selectedAttributes, undefined, productForm.form.productUnits)
       }
 
       toast.success('Success', {
@@ -342,6 +372,49 @@ export default function AddProductPage() {
                         </Select>
                         </div>
                         </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="tax-code">Tax code</Label>
+                      <TaxCodeSelect
+                        id="tax-code"
+                        value={productForm.form.taxCodeId}
+                        onChange={productForm.updateTaxCode}
+                        codes={taxCodes}
+                        noneLabel="Use the category's tax code"
+                      />
+                    </div>
+
+                    {productForm.form.type !== 'bundle' && (
+                    <>
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <Label htmlFor="track-lots">Track lots &amp; expiry</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Receive stock by lot number and expiry date, and sell the earliest expiry first
+                        </p>
+                      </div>
+                      <Switch
+                        id="track-lots"
+                        checked={productForm.form.trackLots}
+                        onCheckedChange={productForm.updateTrackLots}
+                      />
+                    </div>
+
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <Label htmlFor="track-serials">Track serial numbers</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Record the serial number of every unit received, sold, transferred and returned
+                        </p>
+                      </div>
+                      <Switch
+                        id="track-serials"
+                        checked={productForm.form.trackSerials}
+                        onCheckedChange={productForm.updateTrackSerials}
+                      />
+                    </div>
+                    </>
+                    )}
                       </div>
                 </CardContent>
               </Card>
@@ -355,8 +428,8 @@ export default function AddProductPage() {
               />
                 </div>
 
-            {/* Simple Product Fields */}
-            {productForm.form.type === 'simple' && (
+            {/* Simple and Bundle Product Fields */}
+            {productForm.form.type !== 'variation' && (
               <div>
               <Card>
                 <CardHeader>
@@ -423,11 +496,36 @@ export default function AddProductPage() {
                       />
                     </div>
                   </div>
+
+                  <BarcodeField
+                    id="barcode"
+                    value={productForm.form.barcode || ''}
+                    onChange={productForm.updateBarcode}
+                    onValidationChange={setBarcodeValidation}
+                  />
                 </CardContent>
               </Card>
               </div>
             )}
 
+            {/* Bundle Components */}
+            {productForm.form.type === 'bundle' && (
+              <div>
+                <BundleComponentsEditor
+                  value={productForm.form.bundleComponents}
+                  onChange={productForm.updateBundleComponents}
+                />
+              </div>
+            )}
+
+            {/* Units of Measure */}
+            <div>
+              <UnitsOfMeasureEditor
+                value={productForm.form.productUnits}
+                onChange={productForm.updateProductUnits}
+              />
+            </div>
+
             {/* Variation Product Fields */}
             {productForm.form.type === 'variation' && (
               <div className="space-y-6">
@@ -566,7 +664,7 @@ export default function AddProductPage() {
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Type:</span>
                     <Badge variant="outline">
-                      {productForm.form.type === 'simple' ? 'Simple Product' : 'Variation Product'}
+                      {productForm.form.type === 'simple' ? 'Simple Product' : productForm.form.type === 'bundle' ? 'Bundle' : 'Variation Product'}
                   </Badge>
                 </div>
                   <div className="flex justify-between text-sm">
@@ -575,7 +673,7 @@ export default function AddProductPage() {
                       {productForm.form.status}
                     </Badge>
                     </div>
-                  {productForm.form.type === 'simple' && productForm.form.sellingPrice && (
+                  {productForm.form.type !== 'variation' && productForm.form.sellingPrice && (
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Price:</span>
                       <span className="font-medium">${productForm.form.sellingPrice.toFixed(2)}</span>
@@ -587,6 +685,12 @@ export default function AddProductPage() {
                       <span className="font-medium">{productForm.form.variations.length}</span>
                     </div>
                   )}
+                  {productForm.form.type === 'bundle' && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Components:</span>
+                      <span className="font-medium">{productForm.form.bundleComponents.length}</span>
+                    </div>
+                  )}
                   {productForm.form.categoryId && (
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Category:</span>
@@ -614,6 +718,7 @@ export default function AddProductPage() {
             id: `temp-${Date.now()}`,
             productId: '',
             sku: variationData.sku,
+            barcode: variationData.barcode,
             price: variationData.price || 0,
             buyingPrice: 0,
             stock: 0,
@@ -638,6 +743,7 @@ export default function AddProductPage() {
             const updatedVariation: ProductVariation = {
               ...productForm.form.variations[variationManagement.editingIndex],
               sku: variationData.sku,
+              barcode: variationData.barcode,
               price: variationData.price || 0,
               attributeValues: variationData.attributeValues
             }
@@ -43,6 +43,8 @@ import {
   type UpdateCategoryData 
 } from "@/lib/supabase/mutations"
 import { DeleteCategoryModal } from "@/components/products/DeleteCategoryModal"
+import { TaxCodeSelect } from "@/components/TaxCodeSelect"
+import { getTaxCodes, type TaxCode } from "@/lib/supabase/tax-codes"
 import { toast } from "sonner"
 
 interface Category {
@@ -51,6 +53,7 @@ interface Category {
   slug: string
   description?: string
   parent_id?: string
+  tax_code_id?: string | null
   status: 'active' | 'inactive'
   created_at: string
   updated_at: string
@@ -60,6 +63,8 @@ interface CategoryForm {
   name: string
   description: string
   parentId: string
+  // Tax code for products in the category that have none of their own
+  taxCodeId: string
 }
 
 // Deduplication cache for API calls
@@ -140,22 +145,32 @@ export default function CategoriesPage() {
   const [categoryToDelete, setCategoryToDelete] = React.useState<Category | null>(null)
   const [isDeleting, setIsDeleting] = React.useState(false)
   
+  const [taxCodes, setTaxCodes] = React.useState<TaxCode[]>([])
+  
   const [form, setForm] = React.useState<CategoryForm>({
     name: '',
     description: '',
-    parentId: ''
+    parentId: '',
+    taxCodeId: ''
   })
 
   // Load data on mount
   React.useEffect(() => {
     loadCategories()
+    getTaxCodes()
+      .then(setTaxCodes)
+      .catch(error => {
+        console.error('Error loading tax codes:', error)
+        toast.error('Failed to load tax codes')
+      })
   }, [])
 
   const resetForm = () => {
     setForm({
       name: '',
       description: '',
-      parentId: ''
+      parentId: '',
+      taxCodeId: ''
     })
     setEditingCategory(null)
     setErrors([])
@@ -171,7 +186,8 @@ export default function CategoriesPage() {
     setForm({
       name: category.name,
       description: category.description || '',
-      parentId: category.parent_id || ''
+      parentId: category.parent_id || '',
+      taxCodeId: category.tax_code_id || ''
     })
     setIsDialogOpen(true)
   }
@@ -212,6 +228,7 @@ export default function CategoriesPage() {
           slug: form.name.toLowerCase().replace(/\s+/g, '-'),
           description: form.description || undefined,
           parent_id: form.parentId || undefined,
+          tax_code_id: form.taxCodeId || undefined,
           status: editingCategory.status
         }
         
@@ -224,6 +241,7 @@ export default function CategoriesPage() {
           slug: form.name.toLowerCase().replace(/\s+/g, '-'),
           description: form.description || undefined,
           parent_id: form.parentId || undefined,
+          tax_code_id: form.taxCodeId || undefined,
           status: 'active'
         }
         
@@ -455,6 +473,20 @@ export default function CategoriesPage() {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="taxCodeId">Tax Code</Label>
+                  <TaxCodeSelect
+                    id="taxCodeId"
+                    value={form.taxCodeId}
+                    onChange={(taxCodeId) => setForm({ ...form, taxCodeId })}
+                    codes={taxCodes}
+                    noneLabel="None (untaxed)"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Products in this category use it unless they have their own tax code
+                  </p>
+                </div>
+
                 {errors.length > 0 && (
                   <Alert variant="destructive">
                     <AlertDescription>
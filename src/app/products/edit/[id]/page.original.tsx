@@ -101,7 +101,7 @@ interface ProductForm {
   name: string
   description: string
   categoryId?: string
-  type: 'simple' | 'variation'
+  type: 'simple' | 'variation' | 'bundle'
   status: 'active' | 'inactive'
   image?: File
   sku?: string
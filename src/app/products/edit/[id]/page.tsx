@@ -52,6 +52,9 @@ import {
   type CreateAttributeValueData
 } from "@/lib/supabase/mutations"
 import { toast } from "sonner"
+import { BarcodeField, type BarcodeValidationState } from "@/components/BarcodeField"
+import { TaxCodeSelect } from "@/components/TaxCodeSelect"
+import { getTaxCodes, type TaxCode } from "@/lib/supabase/tax-codes"
 import type { Product, ProductVariation } from "@/lib/types"
 
 // Import existing hooks for data management
@@ -69,9 +72,13 @@ import {
 
 // Import form components
 import { 
+  BundleComponentsEditor,
+  UnitsOfMeasureEditor,
   ProductTypeSelector, 
   VariationProductFields 
 } from '@/components/products/forms'
+import { getBundleComponents } from '@/lib/supabase/product-bundles'
+import { getProductUnits } from '@/lib/supabase/units-of-measure'
 
 // Import variation components
 import { VariationsTable } from '@/components/products/variations'
@@ -152,6 +159,8 @@ export default function EditProductPage() {
   const [errors, setErrors] = React.useState<string[]>([])
   const [product, setProduct] = React.useState<Product | null>(null)
   const [deletedVariationIds, setDeletedVariationIds] = React.useState<string[]>([])
+  const [barcodeValidation, setBarcodeValidation] = React.useState<BarcodeValidationState | null>(null)
+  const [taxCodes, setTaxCodes] = React.useState<TaxCode[]>([])
   
   // Use business logic hooks
   const productForm = useProductForm(product || undefined)
@@ -167,6 +176,46 @@ export default function EditProductPage() {
     }
   }, [databaseProduct, initializeForm])
 
+  React.useEffect(() => {
+    getTaxCodes()
+      .then(setTaxCodes)
+      .catch(error => {
+        console.error('Error loading tax codes:', error)
+        toast.error('Failed to load tax codes')
+      })
+  }, [])
+
+  // Load the components of a bundle
+  const { updateBundleComponents } = productForm
+  React.useEffect(() => {
+    if (databaseProduct?.type !== 'bundle') return
+
+    getBundleComponents(productId)
+      .then(components => updateBundleComponents(components.map(component => ({
+        component_type: component.component_type,
+        component_id: component.component_id,
+        component_variation_id: component.component_variation_id,
+        quantity: component.quantity
+      }))))
+      .catch(error => {
+        console.error('Error loading bundle components:', error)
+        toast.error('Failed to load the bundle components')
+      })
+  }, [databaseProduct, productId, updateBundleComponents])
+
+  // Load the base unit and alternate units
+  const { updateProductUnits } = productForm
+  React.useEffect(() => {
+    if (!databaseProduct) return
+
+    getProductUnits(productId)
+      .then(updateProductUnits)
+      .catch(error => {
+        console.error('Error loading units of measure:', error)
+        toast.error('Failed to load the units of measure')
+      })
+  }, [databaseProduct, productId, updateProductUnits])
+
   // Debounced SKU validation
   useDebounceSkuValidation(
     productForm.form.sku,
@@ -335,6 +384,49 @@ export default function EditProductPage() {
                     </Select>
                   </div>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="tax-code">Tax code</Label>
+                  <TaxCodeSelect
+                    id="tax-code"
+                    value={productForm.form.taxCodeId}
+                    onChange={productForm.updateTaxCode}
+                    codes={taxCodes}
+                    noneLabel="Use the category's tax code"
+                  />
+                </div>
+
+                {productForm.form.type !== 'bundle' && (
+                <>
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="track-lots">Track lots &amp; expiry</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Receive stock by lot number and expiry date, and sell the earliest expiry first
+                    </p>
+                  </div>
+                  <Switch
+                    id="track-lots"
+                    checked={productForm.form.trackLots}
+                    onCheckedChange={productForm.updateTrackLots}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="track-serials">Track serial numbers</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Record the serial number of every unit received, sold, transferred and returned
+                    </p>
+                  </div>
+                  <Switch
+                    id="track-serials"
+                    checked={productForm.form.trackSerials}
+                    onCheckedChange={productForm.updateTrackSerials}
+                  />
+                </div>
+                </>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -344,10 +436,11 @@ export default function EditProductPage() {
             value={productForm.form.type}
             onChange={productForm.updateType}
             disabled={!productForm.canChangeType}
+            showBundle={productForm.form.type === 'bundle'}
           />
 
           {/* Product Type Specific Fields */}
-          {productForm.form.type === 'simple' && (
+          {productForm.form.type !== 'variation' && (
             <Card>
               <CardHeader>
                 <CardTitle>Product Details</CardTitle>
@@ -411,10 +504,32 @@ export default function EditProductPage() {
                     />
                   </div>
                 </div>
+
+                <BarcodeField
+                  id="barcode"
+                  value={productForm.form.barcode || ''}
+                  onChange={productForm.updateBarcode}
+                  excludeId={productId}
+                  onValidationChange={setBarcodeValidation}
+                />
               </CardContent>
             </Card>
           )}
 
+          {/* Bundle Components */}
+          {productForm.form.type === 'bundle' && (
+            <BundleComponentsEditor
+              value={productForm.form.bundleComponents}
+              onChange={productForm.updateBundleComponents}
+            />
+          )}
+
+          {/* Units of Measure */}
+          <UnitsOfMeasureEditor
+            value={productForm.form.productUnits}
+            onChange={productForm.updateProductUnits}
+          />
+
           {/* Variation Product Fields */}
           {productForm.form.type === 'variation' && (
             <>
@@ -443,6 +558,10 @@ export default function EditProductPage() {
         <div className="space-y-6">
           <ActionButtons 
             onSave={async () => {
+              if (productForm.form.type !== 'variation' && barcodeValidation?.isValid === false) {
+                toast.error(barcodeValidation.message)
+                return
+              }
               if (validateForm(productForm.form)) {
                 try {
                   const updateData: UpdateProductData = {
@@ -450,11 +569,15 @@ export default function EditProductPage() {
                     name: productForm.form.name,
                     description: productForm.form.description,
                     category_id: productForm.form.categoryId,
+                    tax_code_id: productForm.form.taxCodeId || undefined,
                     type: productForm.form.type,
                     status: productForm.form.status,
                     sku: productForm.form.sku,
+                    barcode: productForm.form.type !== 'variation' ? productForm.form.barcode : undefined,
                     price: productForm.form.sellingPrice,
-                    parent_sku: productForm.form.parentSku
+                    parent_sku: productForm.form.parentSku,
+                    track_lots: productForm.form.trackLots,
+                    track_serials: productForm.form.trackSerials
                   }
 
                   const variationUpdates: UpdateProductVariationData[] = productForm.form.variations
@@ -462,6 +585,7 @@ export default function EditProductPage() {
                     .map(v => ({
                       id: v.id,
                       sku: v.sku,
+                      barcode: v.barcode,
                       price: v.price,
                       attribute_values: v.attributeValues
                     }))
@@ -471,6 +595,7 @@ export default function EditProductPage() {
                     .map(v => ({
                       product_id: productId,
                       sku: v.sku,
+                      barcode: v.barcode,
                       price: v.price,
                       attribute_values: v.attributeValues
                     }))
@@ -479,7 +604,9 @@ export default function EditProductPage() {
                     updateData,
                     variationUpdates,
                     newVariations,
-                    productForm.form.selectedAttributes
+                    productForm.form.selectedAttributes,
+                    productForm.form.type === 'bundle' ? productForm.form.bundleComponents : undefined,
+                    productForm.form.productUnits
                   )
                   toast.success('Product updated successfully')
                   productForm.showSuccessMessage()
@@ -515,6 +642,7 @@ export default function EditProductPage() {
             id: `temp-${Date.now()}`,
             productId: productId,
             sku: variationData.sku,
+            barcode: variationData.barcode,
             price: variationData.price || 0,
             buyingPrice: 0,
             stock: 0,
@@ -539,6 +667,7 @@ export default function EditProductPage() {
             const updatedVariation: ProductVariation = {
               ...productForm.form.variations[variationManagement.editingIndex],
               sku: variationData.sku,
+              barcode: variationData.barcode,
               price: variationData.price || 0,
               attributeValues: variationData.attributeValues
             }
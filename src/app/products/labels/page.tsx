@@ -0,0 +1,178 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Printer, Search, X } from "lucide-react"
+import { toast } from "sonner"
+import { BarcodeScanInput } from "@/components/BarcodeScanInput"
+import { getBarcodeItemKey, getBarcodeItems, type BarcodeItem } from "@/lib/supabase/barcodes"
+
+export default function BarcodeLabelsPage() {
+  const [items, setItems] = React.useState<BarcodeItem[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [searchTerm, setSearchTerm] = React.useState('')
+  // Labels to print per item key
+  const [quantities, setQuantities] = React.useState<Record<string, number>>({})
+
+  React.useEffect(() => {
+    getBarcodeItems()
+      .then(setItems)
+      .catch(error => {
+        console.error('Error loading barcode items:', error)
+        toast.error('Failed to load items with barcodes')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const filteredItems = React.useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    if (!term) return items
+    return items.filter(item =>
+      item.name.toLowerCase().includes(term) ||
+      (item.sku && item.sku.toLowerCase().includes(term)) ||
+      item.barcode.includes(term)
+    )
+  }, [items, searchTerm])
+
+  const setQuantity = (key: string, quantity: number) => {
+    setQuantities(prev => {
+      const next = { ...prev }
+      if (quantity > 0) {
+        next[key] = quantity
+      } else {
+        delete next[key]
+      }
+      return next
+    })
+  }
+
+  // Each scan adds one more label for the scanned item
+  const handleScan = (item: BarcodeItem) => {
+    const key = getBarcodeItemKey(item)
+    setQuantity(key, (quantities[key] || 0) + 1)
+  }
+
+  const selectedKeys = Object.keys(quantities)
+  const totalLabels = selectedKeys.reduce((sum, key) => sum + quantities[key], 0)
+
+  const printParams = new URLSearchParams()
+  selectedKeys.forEach(key => printParams.append('label', `${key}*${quantities[key]}`))
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Barcode Labels</h1>
+          <p className="text-muted-foreground">
+            Choose how many labels to print for each product, variation and packaging
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {selectedKeys.length > 0 && (
+            <Button variant="outline" onClick={() => setQuantities({})}>
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
+          {totalLabels > 0 ? (
+            <Button asChild>
+              <Link href={`/products/labels/print?${printParams.toString()}`} target="_blank">
+                <Printer className="h-4 w-4 mr-2" />
+                Print {totalLabels} {totalLabels === 1 ? 'Label' : 'Labels'}
+              </Link>
+            </Button>
+          ) : (
+            <Button disabled>
+              <Printer className="h-4 w-4 mr-2" />
+              Print Labels
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+          <CardDescription>Scan an item to add one label for it, or enter the quantities below</CardDescription>
+          <div className="flex flex-col sm:flex-row gap-2 pt-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, SKU or barcode"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <BarcodeScanInput onScan={handleScan} className="sm:w-56" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : filteredItems.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              {searchTerm.trim() ? 'No items match this search' : 'No active items have a barcode yet'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead className="w-32 text-right">Labels</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredItems.map(item => {
+                  const key = getBarcodeItemKey(item)
+                  return (
+                    <TableRow key={key} className={quantities[key] ? 'bg-muted/50' : ''}>
+                      <TableCell>
+                        <div className="font-medium">{item.name}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{item.sku || '—'}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{item.item_type === 'product' ? 'Product' : 'Packaging'}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{item.barcode}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          value={quantities[key] || ''}
+                          onChange={(e) => setQuantity(key, Math.max(0, parseInt(e.target.value) || 0))}
+                          placeholder="0"
+                          className="w-20 ml-auto text-right"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
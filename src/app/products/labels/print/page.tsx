@@ -0,0 +1,102 @@
+"use client"
+
+import * as React from "react"
+import { useSearchParams } from "next/navigation"
+import PrintButton from "@/components/sales/PrintButton"
+import { Barcode } from "@/components/Barcode"
+import { getBarcodeItemKey, getBarcodeItems, type BarcodeItem } from "@/lib/supabase/barcodes"
+
+const formatCurrency = (amount: number) => {
+  return '৳' + new Intl.NumberFormat('en-BD', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount)
+}
+
+// Labels arrive as repeated `label=<item key>*<quantity>` parameters
+function parseLabelParams(values: string[]): Map<string, number> {
+  const quantities = new Map<string, number>()
+  values.forEach(value => {
+    const separator = value.lastIndexOf('*')
+    if (separator === -1) return
+    const quantity = parseInt(value.slice(separator + 1))
+    if (quantity > 0) quantities.set(value.slice(0, separator), quantity)
+  })
+  return quantities
+}
+
+function LabelSheet() {
+  const searchParams = useSearchParams()
+  const [items, setItems] = React.useState<BarcodeItem[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const labelParams = searchParams.getAll('label').join('\n')
+
+  React.useEffect(() => {
+    getBarcodeItems()
+      .then(setItems)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load items with barcodes'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  // One entry per printed label, in the order the items were chosen
+  const labels = React.useMemo(() => {
+    const quantities = parseLabelParams(labelParams ? labelParams.split('\n') : [])
+    const byKey = new Map(items.map(item => [getBarcodeItemKey(item), item]))
+    const result: { key: string; item: BarcodeItem }[] = []
+    quantities.forEach((quantity, key) => {
+      const item = byKey.get(key)
+      if (!item) return
+      for (let copy = 0; copy < quantity; copy++) {
+        result.push({ key: `${key}#${copy}`, item })
+      }
+    })
+    return result
+  }, [items, labelParams])
+
+  if (loading) {
+    return <div className="p-10 text-center text-gray-600">Loading labels...</div>
+  }
+
+  if (error) {
+    return <div className="p-10 text-center text-red-600">{error}</div>
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <div className="mx-auto max-w-4xl py-6 print:py-0 flex items-center justify-between print:hidden">
+        <span className="text-sm text-gray-600">
+          {labels.length} {labels.length === 1 ? 'label' : 'labels'}
+        </span>
+        <PrintButton />
+      </div>
+
+      {labels.length === 0 ? (
+        <div className="mx-auto max-w-4xl bg-white p-10 shadow text-center text-gray-600">
+          No labels were chosen. Pick items and quantities on the Barcode Labels page.
+        </div>
+      ) : (
+        <div className="mx-auto max-w-4xl bg-white p-6 shadow print:shadow-none print:p-0 grid grid-cols-3 gap-2">
+          {labels.map(({ key, item }) => (
+            <div key={key} className="border border-dashed border-gray-300 p-2 flex flex-col items-center text-center break-inside-avoid">
+              <div className="text-xs font-medium text-gray-900 truncate w-full" title={item.name}>{item.name}</div>
+              <Barcode value={item.barcode} height={36} moduleWidth={1.2} />
+              {item.price !== null && (
+                <div className="text-sm font-bold text-gray-900">{formatCurrency(item.price)}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function BarcodeLabelsPrintPage() {
+  return (
+    <React.Suspense fallback={<div className="p-10 text-center text-gray-600">Loading labels...</div>}>
+      <LabelSheet />
+    </React.Suspense>
+  )
+}
@@ -204,7 +204,7 @@ export default function ProductsPage() {
   const [isLoading, setIsLoading] = React.useState(true)
   const [searchTerm, setSearchTerm] = React.useState("")
   const [selectedStatuses, setSelectedStatuses] = React.useState<string[]>(['active', 'inactive'])
-  const [selectedTypes, setSelectedTypes] = React.useState<string[]>(['simple', 'variation'])
+  const [selectedTypes, setSelectedTypes] = React.useState<string[]>(['simple', 'variation', 'bundle'])
   const [currentPage, setCurrentPage] = React.useState(1)
   const [itemsPerPage, setItemsPerPage] = React.useState(10)
   
@@ -543,6 +543,18 @@ export default function ProductsPage() {
             >
               Variation
             </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={selectedTypes.includes('bundle')}
+              onCheckedChange={(checked) => {
+                if (checked) {
+                  setSelectedTypes([...selectedTypes, 'bundle'])
+                } else {
+                  setSelectedTypes(selectedTypes.filter(t => t !== 'bundle'))
+                }
+              }}
+            >
+              Bundle
+            </DropdownMenuCheckboxItem>
           </DropdownMenuContent>
         </DropdownMenu>
 
@@ -587,14 +599,14 @@ export default function ProductsPage() {
                           <div className="text-sm text-muted-foreground">
                             {product.sku}
                             <span className="sm:hidden ml-2">
-                              • {product.type === 'simple' ? 'Simple' : `Variation (${product.variations?.length || 0})`}
+                              • {product.type === 'simple' ? 'Simple' : product.type === 'bundle' ? 'Bundle' : `Variation (${product.variations?.length || 0})`}
                             </span>
                           </div>
                         </div>
                       </TableCell>
                       <TableCell className="hidden sm:table-cell">
                         <Badge variant="outline" className="text-xs">
-                          {product.type === 'simple' ? 'Simple' : 'Variation'}
+                          {product.type === 'simple' ? 'Simple' : product.type === 'bundle' ? 'Bundle' : 'Variation'}
                         </Badge>
                         {product.type === 'variation' && (
                           <div className="text-xs text-muted-foreground mt-1">
@@ -2,7 +2,7 @@
 
 import * as React from "react"
 import { useRouter } from 'next/navigation'
-import { ArrowLeft, Package, Truck, Calendar, User, MapPin, FileText, CheckCircle, Clock, Box } from "lucide-react"
+import { ArrowLeft, Package, Truck, Calendar, User, MapPin, FileText, CheckCircle, Clock, Box, ArrowLeftRight } from "lucide-react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -19,7 +19,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { getPurchaseById, getPurchaseTimeline, getPurchaseWithPayments, calculateNetPaymentAmount, calculatePaymentStatus, calculateCompletePaymentStatus, type PurchaseWithItems, type PurchaseEvent } from "@/lib/supabase/purchases"
 import { PurchaseTimeline } from "@/components/PurchaseTimeline"
 import PurchasePaymentHistory from "@/components/PurchasePaymentHistory"
+import GoodsReceivedNotes from "@/components/GoodsReceivedNotes"
 import { toast } from "sonner"
+import { formatUnitQuantity, toUnitPrice } from "@/lib/supabase/units-of-measure"
+import { getCurrencySymbol, isBaseCurrency, toBaseAmount } from "@/lib/supabase/currencies"
 
 interface PurchaseDetailsPageProps {
   params: Promise<{
@@ -282,8 +285,9 @@ export default function PurchaseDetailsPage({ params }: PurchaseDetailsPageProps
     }
   }
 
+  // Amounts are in the purchase currency
   const formatCurrency = (amount: number) => {
-    return '৳ ' + new Intl.NumberFormat('en-BD', {
+    return getCurrencySymbol(purchase?.currency) + ' ' + new Intl.NumberFormat('en-BD', {
       minimumFractionDigits: 0,
     }).format(amount)
   }
@@ -455,7 +459,10 @@ export default function PurchaseDetailsPage({ params }: PurchaseDetailsPageProps
                         <div className="flex items-center gap-6">
                           <div className="text-center">
                             <div className="text-xs text-muted-foreground mb-1">Ordered</div>
-                            <div className="font-semibold text-gray-900">{item.quantity}</div>
+                            <div className="font-semibold text-gray-900">{formatUnitQuantity(item.quantity, item.unit_factor, item.unit_name)}</div>
+                            {item.unit_factor > 1 && (
+                              <div className="text-xs text-muted-foreground">{item.quantity} in base unit</div>
+                            )}
                           </div>
                           <div className="text-center">
                             <div className="text-xs text-muted-foreground mb-1">Received</div>
@@ -493,7 +500,10 @@ export default function PurchaseDetailsPage({ params }: PurchaseDetailsPageProps
                         <div className="flex items-center gap-6">
                           <div className="text-right">
                             <div className="text-xs text-muted-foreground mb-1">Unit Price</div>
-                            <div className="font-semibold text-gray-900">{formatCurrency(Number(item.purchase_price))}</div>
+                            <div className="font-semibold text-gray-900">{formatCurrency(toUnitPrice(Number(item.purchase_price), item.unit_factor))}</div>
+                            {item.unit_name && item.unit_factor > 1 && (
+                              <div className="text-xs text-muted-foreground">per {item.unit_name}</div>
+                            )}
                           </div>
                           <div className="text-right">
                             <div className="text-xs text-muted-foreground mb-1">Total</div>
@@ -609,6 +619,11 @@ export default function PurchaseDetailsPage({ params }: PurchaseDetailsPageProps
                       <div className="text-xl font-bold text-gray-900">
                         {formatCurrency(Number(purchase.total_amount))}
                       </div>
+                      {Number(purchase.tax_amount || 0) > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          Including {formatCurrency(Number(purchase.tax_amount))} tax
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -645,6 +660,11 @@ export default function PurchaseDetailsPage({ params }: PurchaseDetailsPageProps
             </Card>
           )}
 
+          {/* Goods-Received Notes */}
+          {purchase.status !== 'pending' && (
+            <GoodsReceivedNotes purchaseId={purchase.id} onReceiptUpdate={fetchPurchaseData} />
+          )}
+
           {/* Return Window Information */}
           {(purchase.status === 'received' || purchase.status === 'partially_received') && (
             <Card>
@@ -1025,6 +1045,19 @@ export default function PurchaseDetailsPage({ params }: PurchaseDetailsPageProps
                 </div>
                 <p className="font-medium">{purchase.warehouse_name}</p>
               </div>
+
+              {!isBaseCurrency(purchase.currency) && (
+                <div className="border-t pt-4 space-y-2">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <ArrowLeftRight className="h-4 w-4" />
+                    <span>Currency</span>
+                  </div>
+                  <p className="font-medium">{purchase.currency} at ৳{Number(purchase.exchange_rate)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    ৳{toBaseAmount(Number(purchase.total_amount), purchase.exchange_rate).toLocaleString()} in taka
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -2,7 +2,7 @@
 
 import * as React from "react"
 import { useRouter } from 'next/navigation'
-import { ArrowLeft, Package, CheckCircle, AlertTriangle, Save, X, RotateCcw, Box } from "lucide-react"
+import { ArrowLeft, Package, CheckCircle, AlertTriangle, Save, X, RotateCcw, Box, ClipboardCheck } from "lucide-react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -12,7 +12,27 @@ import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { getPurchaseById, updatePurchaseReceipt, type PurchaseWithItems } from "@/lib/supabase/purchases"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { getPurchaseById, getWarehouses, updatePurchaseReceipt, cancelPurchase, GOODS_RECEIVED_NOTE_ERROR_MESSAGES, type PurchaseWithItems, type DatabasePurchaseItem, type DatabaseWarehouse } from "@/lib/supabase/purchases"
+import { getLotTrackedProductIds } from "@/lib/supabase/stock-lots"
+import { getSerialTrackedProductIds } from "@/lib/supabase/serial-numbers"
+import { SerialNumberInput } from "@/components/SerialNumberInput"
+import { BarcodeScanInput } from "@/components/BarcodeScanInput"
+import { type BarcodeItem } from "@/lib/supabase/barcodes"
 import { logPurchaseUpdate } from "@/lib/supabase/activity-logger"
 import { toast } from "sonner"
 
@@ -33,6 +53,20 @@ interface ReceiptItem {
   purchasePrice: number
   total: number
   variationId?: string
+  // Lot-tracked products name the lot (and its expiry) they are received into
+  trackLots: boolean
+  lotNumber: string
+  expiryDate: string
+  // Serial-tracked products name the serial of each unit received
+  trackSerials: boolean
+  serialNumbers: string[]
+}
+
+const formatDateValue = (date: Date) => {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
 }
 
 export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
@@ -46,6 +80,15 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
   const [notes, setNotes] = React.useState('')
   const [receiptItems, setReceiptItems] = React.useState<ReceiptItem[]>([])
   const [hasUserMadeChanges, setHasUserMadeChanges] = React.useState(false)
+  const [showCancelDialog, setShowCancelDialog] = React.useState(false)
+  const [cancelReason, setCancelReason] = React.useState('')
+  const [isCancelling, setIsCancelling] = React.useState(false)
+
+  // Goods-received note details
+  const [warehouses, setWarehouses] = React.useState<DatabaseWarehouse[]>([])
+  const [receivedDate, setReceivedDate] = React.useState(formatDateValue(new Date()))
+  const [receivedBy, setReceivedBy] = React.useState('admin') // In a real app, this would come from the authenticated user
+  const [warehouseId, setWarehouseId] = React.useState('')
 
   // Enhanced deduplication protection against React Strict Mode
   const initialLoadTriggered = React.useRef(false)
@@ -56,12 +99,26 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
       setLoading(true)
       
       // The getPurchaseById function now uses the global apiCache for deduplication
-      const purchaseData = await getPurchaseById(resolvedParams.id)
+      const [purchaseData, warehouseData] = await Promise.all([
+        getPurchaseById(resolvedParams.id),
+        getWarehouses()
+      ])
       
       console.log('✅ Purchase data fetched successfully')
       setPurchase(purchaseData)
+      setWarehouses(warehouseData)
       
       if (purchaseData) {
+        setWarehouseId(purchaseData.warehouse_id)
+
+        const productIds = purchaseData.items
+          .filter((item: DatabasePurchaseItem) => item.item_type === 'product')
+          .map((item: DatabasePurchaseItem) => item.item_id)
+        const [lotTracked, serialTracked] = await Promise.all([
+          getLotTrackedProductIds(productIds),
+          getSerialTrackedProductIds(productIds)
+        ])
+
         const items: ReceiptItem[] = purchaseData.items.map(item => {
           const currentNetReceived = item.received_quantity - item.returned_quantity
           return {
@@ -74,7 +131,12 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
             newReceivedQuantity: null, // empty by default
             purchasePrice: Number(item.purchase_price),
             total: Number(item.total),
-            variationId: item.variation_id || undefined
+            variationId: item.variation_id || undefined,
+            trackLots: item.item_type === 'product' && lotTracked.has(item.item_id),
+            lotNumber: '',
+            expiryDate: '',
+            trackSerials: item.item_type === 'product' && serialTracked.has(item.item_id),
+            serialNumbers: []
           }
         })
         setReceiptItems(items)
@@ -376,6 +438,10 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
     )
   }
 
+  const updateLineDetails = (index: number, changes: Partial<Pick<ReceiptItem, 'lotNumber' | 'expiryDate' | 'serialNumbers'>>) => {
+    setReceiptItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item))
+  }
+
   const updateReceivedQuantity = (itemId: string, itemType: 'product' | 'package', variationId: string | undefined, quantity: number) => {
     setReceiptItems(prev => 
       prev.map(item => {
@@ -405,6 +471,28 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
     setHasUserMadeChanges(true);
   }
 
+  // Each scan receives one more unit of the matching line
+  const handleBarcodeScan = (scanned: BarcodeItem) => {
+    const item = receiptItems.find(i =>
+      i.itemId === scanned.item_id &&
+      i.itemType === scanned.item_type &&
+      (i.variationId || null) === scanned.variation_id
+    )
+    if (!item) {
+      toast.error(`${scanned.name} is not on this purchase`)
+      return
+    }
+
+    const currentReceived = item.newReceivedQuantity ?? item.previouslyReceived
+    if (currentReceived >= item.orderedQuantity) {
+      toast.error(`All ${item.orderedQuantity} of ${item.itemName} are already received`)
+      return
+    }
+
+    updateReceivedQuantity(item.itemId, item.itemType, item.variationId, currentReceived - item.previouslyReceived + 1)
+    toast.success(`${item.itemName}: ${currentReceived + 1}/${item.orderedQuantity} received`)
+  }
+
   const markAllAsReceived = () => {
     setReceiptItems(prev => 
       prev.map(item => ({
@@ -415,14 +503,35 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
     setHasUserMadeChanges(true)
   }
 
-  const markAllAsCancelled = () => {
-    setReceiptItems(prev => 
-      prev.map(item => ({
-        ...item,
-        newReceivedQuantity: 0
-      }))
-    )
-    setHasUserMadeChanges(true)
+  const closeCancelDialog = () => {
+    if (!isCancelling) {
+      setShowCancelDialog(false)
+      setCancelReason('')
+    }
+  }
+
+  // Cancels the whole purchase; only offered while nothing has been received on it
+  const handleCancelPurchase = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!purchase) return
+
+    setIsCancelling(true)
+    try {
+      const result = await cancelPurchase(purchase.id, cancelReason.trim() || undefined, receivedBy.trim() || 'admin')
+
+      if (!result.success) {
+        toast.error(GOODS_RECEIVED_NOTE_ERROR_MESSAGES[result.error_code], {
+          description: result.error_message
+        })
+        return
+      }
+
+      toast.success(`Purchase ${purchase.id} cancelled`)
+      setShowCancelDialog(false)
+      router.push(`/purchases/${purchase.id}`)
+    } finally {
+      setIsCancelling(false)
+    }
   }
 
   const resetToOriginal = () => {
@@ -468,11 +577,47 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
       newErrors.push('Received quantities cannot be less than returned quantities')
     }
 
+    // Lot-tracked items need the lot they are received into
+    const missingLots = receiptItems.filter(item =>
+      item.trackLots &&
+      item.newReceivedQuantity !== null &&
+      item.newReceivedQuantity > item.previouslyReceived &&
+      !item.lotNumber.trim()
+    )
+
+    if (missingLots.length > 0) {
+      newErrors.push(`Enter a lot number for ${missingLots.map(item => item.itemName).join(', ')}`)
+    }
+
+    // Serial-tracked items need one serial number per unit received
+    const serialMismatches = receiptItems.filter(item =>
+      item.trackSerials &&
+      item.newReceivedQuantity !== null &&
+      item.newReceivedQuantity > item.previouslyReceived &&
+      item.serialNumbers.length !== item.newReceivedQuantity - item.previouslyReceived
+    )
+
+    if (serialMismatches.length > 0) {
+      newErrors.push(`Scan one serial number per unit received for ${serialMismatches.map(item => item.itemName).join(', ')}`)
+    }
+
     // Check if user has made any changes
     if (!hasUserMadeChanges) {
       newErrors.push('Please make at least one change to update the receipt')
     }
 
+    if (!receivedDate) {
+      newErrors.push('Please select the date the goods were received')
+    }
+
+    if (!receivedBy.trim()) {
+      newErrors.push('Please enter who received the goods')
+    }
+
+    if (!warehouseId) {
+      newErrors.push('Please select the receiving warehouse')
+    }
+
     setErrors(newErrors)
     return newErrors.length === 0
   }
@@ -535,13 +680,23 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
 
         return {
           itemId: dbItem.id,
-          receivedQuantity: item.newReceivedQuantity as number // Already filtered to be non-null
+          receivedQuantity: item.newReceivedQuantity as number, // Already filtered to be non-null
+          lotNumber: item.trackLots ? item.lotNumber.trim() : undefined,
+          expiryDate: item.trackLots ? item.expiryDate || null : undefined,
+          serialNumbers: item.trackSerials ? item.serialNumbers : undefined
         }
       })
 
-      // Use the new wrapper function that includes timeline logging
-      console.log('Updating purchase receipt with timeline logging...')
-      await updatePurchaseReceipt(purchase.id, itemUpdates)
+      // Record the increase on each line as one goods-received note
+      console.log('Recording goods-received note...')
+      const warehouse = warehouses.find(w => w.id === warehouseId)
+      const grnId = await updatePurchaseReceipt(purchase.id, itemUpdates, {
+        receivedDate,
+        receivedBy: receivedBy.trim(),
+        warehouseId,
+        warehouseName: warehouse?.name,
+        notes: notes.trim() || undefined
+      })
 
       // Log the purchase receipt update activity
       await logPurchaseUpdate(
@@ -549,6 +704,7 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
         purchase.supplier_name,
         { 
           action: 'receipt_update',
+          grn_id: grnId,
           items_updated: changedItems.length 
         },
         { 
@@ -562,15 +718,18 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
         console.warn('Failed to log receipt update:', error)
       })
 
-      toast.success(`Successfully updated ${changedItems.length} item(s)!`)
+      toast.success(grnId
+        ? `Goods-received note ${grnId} recorded for ${changedItems.length} item(s)!`
+        : `Successfully updated ${changedItems.length} item(s)!`)
       
       // Redirect back to purchase details
       router.push(`/purchases/${purchase.id}`)
       
     } catch (error) {
       console.error('Error updating receipt:', error)
-      toast.error('Failed to update receipt. Please try again.')
-      setErrors(['Failed to update receipt. Please try again.'])
+      const message = error instanceof Error ? error.message : 'Failed to update receipt. Please try again.'
+      toast.error(message)
+      setErrors([message])
     } finally {
       setIsLoading(false)
     }
@@ -623,15 +782,12 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
     // Total received will be the new total (cumulative)
     const totalReceived = receiptItems.reduce((sum, item) => sum + (item.newReceivedQuantity || item.previouslyReceived), 0)
     
-    // Check if user has made changes and all items are now 0
-    const allCancelled = hasUserMadeChanges && receiptItems.every(item => (item.newReceivedQuantity || item.previouslyReceived) === 0)
-    
     // Check if no changes have been made and all items are still at their original values
     const allPending = !hasUserMadeChanges && receiptItems.every(item => 
       item.newReceivedQuantity === null
     )
     
-    return { totalOrdered, totalReceived, allCancelled, allPending }
+    return { totalOrdered, totalReceived, allPending }
   }
 
   const getItemsSummary = () => {
@@ -725,6 +881,55 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
+            {/* Goods-Received Note Details */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Goods-Received Note
+                </CardTitle>
+                <CardDescription>
+                  This delivery is recorded as its own receipt and can be cancelled on its own later
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="received-date">Received Date *</Label>
+                    <DatePicker
+                      date={receivedDate ? new Date(receivedDate) : undefined}
+                      onDateChange={(date) => setReceivedDate(date ? formatDateValue(date) : '')}
+                      placeholder="Select received date"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="received-by">Received By *</Label>
+                    <Input
+                      id="received-by"
+                      value={receivedBy}
+                      onChange={(e) => setReceivedBy(e.target.value)}
+                      placeholder="Name of the receiver"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="warehouse">Warehouse *</Label>
+                    <Select value={warehouseId} onValueChange={setWarehouseId}>
+                      <SelectTrigger id="warehouse">
+                        <SelectValue placeholder="Select warehouse" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {warehouses.map((warehouse) => (
+                          <SelectItem key={warehouse.id} value={warehouse.id}>
+                            {warehouse.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Receipt Items */}
             <Card>
               <CardHeader>
@@ -733,8 +938,9 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
                   Update Item Receipts
                 </CardTitle>
                 <CardDescription>
-                  Enter the received quantities for each product and package
+                  Enter the received quantities for each product and package, or scan each unit
                 </CardDescription>
+                <BarcodeScanInput onScan={handleBarcodeScan} placeholder="Scan to receive one unit" className="mt-2" />
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
@@ -773,6 +979,16 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
                                     {variation}
                                   </Badge>
                                 )}
+                                {item.trackLots && (
+                                  <Badge variant="outline" className="text-xs">
+                                    Lot-tracked
+                                  </Badge>
+                                )}
+                                {item.trackSerials && (
+                                  <Badge variant="outline" className="text-xs">
+                                    Serial-tracked
+                                  </Badge>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -868,6 +1084,44 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
                             </div>
                           </div>
                         </div>
+
+                        {/* Third Row - Lot details for lot-tracked items being received */}
+                        {item.trackLots && item.newReceivedQuantity !== null && item.newReceivedQuantity > item.previouslyReceived && (
+                          <div className="grid grid-cols-2 gap-4 mt-3 pt-3 border-t">
+                            <div className="space-y-1">
+                              <Label htmlFor={`lot-${index}`} className="text-xs text-muted-foreground">
+                                Lot Number *
+                              </Label>
+                              <Input
+                                id={`lot-${index}`}
+                                value={item.lotNumber}
+                                onChange={(e) => updateLineDetails(index, { lotNumber: e.target.value })}
+                                placeholder="e.g. LOT-2024-031"
+                                className="h-9"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label className="text-xs text-muted-foreground">Expiry Date</Label>
+                              <DatePicker
+                                date={item.expiryDate ? new Date(item.expiryDate) : undefined}
+                                onDateChange={(date) => updateLineDetails(index, { expiryDate: date ? formatDateValue(date) : '' })}
+                                placeholder="No expiry"
+                              />
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Serial numbers for serial-tracked items being received */}
+                        {item.trackSerials && item.newReceivedQuantity !== null && item.newReceivedQuantity > item.previouslyReceived && (
+                          <div className="space-y-1 mt-3 pt-3 border-t">
+                            <Label className="text-xs text-muted-foreground">Serial Numbers *</Label>
+                            <SerialNumberInput
+                              value={item.serialNumbers}
+                              onChange={(serialNumbers) => updateLineDetails(index, { serialNumbers })}
+                              expectedCount={item.newReceivedQuantity - item.previouslyReceived}
+                            />
+                          </div>
+                        )}
                       </div>
                     )
                   })}
@@ -949,16 +1203,16 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
                    Mark All as Received
                  </Button>
                  
-                 {/* Show Cancel All Items only for pending and partially received purchases */}
-                 {(purchase.status === 'pending' || purchase.status === 'partially_received') && (
+                 {/* Cancelling the purchase is only offered while nothing has been received; later receipts are undone by cancelling their GRN */}
+                 {purchase.status === 'pending' && purchase.items.every(item => item.received_quantity === 0) && (
                    <Button
                      type="button"
-                     onClick={markAllAsCancelled}
+                     onClick={() => setShowCancelDialog(true)}
                      variant="outline"
                      className="w-full"
                    >
                      <X className="mr-2 h-4 w-4" />
-                     Cancel All Items
+                     Cancel Purchase
                    </Button>
                  )}
                  
@@ -1085,7 +1339,6 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
                 <div className="flex justify-between">
                   <span className="text-sm">Will Be Received:</span>
                   <span className={`font-medium ${
-                    progress.allCancelled ? 'text-red-600' : 
                     progress.totalReceived === progress.totalOrdered ? 'text-green-600' : 
                     progress.totalReceived > 0 ? 'text-blue-600' : 'text-yellow-600'
                   }`}>
@@ -1104,17 +1357,13 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
                   <div className="border-t pt-4">
                     <div className="text-sm text-muted-foreground mb-2">New Status Preview:</div>
                     <Badge variant="secondary" className={`text-xs ${
-                      progress.allCancelled || (hasUserMadeChanges && progress.totalReceived === 0)
-                        ? 'bg-red-100 text-red-800'
-                        : progress.totalReceived === progress.totalOrdered
+                      progress.totalReceived === progress.totalOrdered
                         ? 'bg-green-100 text-green-800'
                         : progress.totalReceived > 0
                         ? 'bg-blue-100 text-blue-800'
                         : 'bg-yellow-100 text-yellow-800'
                     }`}>
-                      {progress.allCancelled || (hasUserMadeChanges && progress.totalReceived === 0)
-                        ? 'cancelled'
-                        : progress.totalReceived === progress.totalOrdered
+                      {progress.totalReceived === progress.totalOrdered
                         ? 'received'
                         : progress.totalReceived > 0
                         ? 'partially received'
@@ -1156,6 +1405,55 @@ export default function UpdateReceiptPage({ params }: UpdateReceiptPageProps) {
           </div>
         </div>
       </form>
+
+      <Dialog open={showCancelDialog} onOpenChange={(open) => { if (!open) closeCancelDialog() }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-orange-600" />
+              Cancel Purchase
+            </DialogTitle>
+            <DialogDescription>
+              Nothing has been received on {purchase.id}. Once cancelled it can no longer receive goods.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCancelPurchase} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="cancel-purchase-reason">
+                Reason <span className="text-gray-500">(Optional)</span>
+              </Label>
+              <Textarea
+                id="cancel-purchase-reason"
+                placeholder="Why is this purchase being cancelled?"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                rows={3}
+                className="resize-none"
+              />
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={closeCancelDialog}
+                disabled={isCancelling}
+              >
+                Keep Purchase
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1 bg-black hover:bg-gray-800 text-white"
+                disabled={isCancelling}
+              >
+                {isCancelling ? 'Cancelling...' : 'Cancel Purchase'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 } 
\ No newline at end of file
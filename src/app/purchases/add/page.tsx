@@ -40,6 +40,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { DatePicker } from "@/components/ui/date-picker"
 
 // Custom hooks and utilities
+import { TaxCodeSelect } from "@/components/TaxCodeSelect"
 import { usePurchaseFormData, useItemSelection, usePurchaseForm } from "@/hooks/purchases"
 import { useCurrentUser } from "@/hooks/useCurrentUser"
 import { 
@@ -49,6 +50,8 @@ import {
   filterProducts, 
   filterPackages 
 } from "@/lib/purchases/add-purchase-utils"
+import { getUnitOptions } from "@/lib/supabase/units-of-measure"
+import { getCurrencySymbol, isBaseCurrency } from "@/lib/supabase/currencies"
 
 // Type imports
 import { 
@@ -92,10 +95,15 @@ export default function CreatePurchasePage() {
   const {
     form,
     isLoading,
+    taxCodes,
+    currencies,
     setForm,
     updateItemQuantity,
     updateItemPrice,
+    updateItemTaxCode,
+    updateItemUnit,
     removeItem,
+    selectSupplier,
     handleSubmit,
     getItemNameById,
     addSelectedItemsToPurchase: addItemsToForm
@@ -107,7 +115,12 @@ export default function CreatePurchasePage() {
   // Data loading is now handled by usePurchaseFormData hook
 
   const selectedSupplier = suppliers.find(s => s.id === form.supplierId)
-  const totalAmount = form.items.reduce((sum, item) => sum + item.total, 0)
+  // Prices are before tax; the tax of each line is added on top
+  const subtotalAmount = form.items.reduce((sum, item) => sum + item.total, 0)
+  const taxAmount = form.items.reduce((sum, item) => sum + item.taxAmount, 0)
+  const totalAmount = subtotalAmount + taxAmount
+  // Prices and totals are in the purchase currency
+  const currencySymbol = getCurrencySymbol(form.currency)
 
   // Filter products and packages using utility functions
   const filteredProducts = filterProducts(products, searchTerm)
@@ -115,7 +128,7 @@ export default function CreatePurchasePage() {
 
   // Helper function to add selected items to purchase
   const addSelectedItemsToPurchase = () => {
-    addItemsToForm(selectedItems)
+    addItemsToForm(selectedItems, products)
     setSelectedItems([])
     setIsModalOpen(false)
   }
@@ -319,7 +332,7 @@ export default function CreatePurchasePage() {
                     <Label htmlFor="supplier">Supplier *</Label>
                     <Select 
                       value={form.supplierId} 
-                      onValueChange={(value) => setForm({ ...form, supplierId: value })}
+                      onValueChange={(value) => selectSupplier(value, suppliers)}
                     >
                       <SelectTrigger>
                         <SelectValue placeholder="Select a supplier" />
@@ -373,7 +386,38 @@ export default function CreatePurchasePage() {
                       placeholder="Select purchase date"
                     />
                   </div>
-                  <div></div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="currency">Currency</Label>
+                      <Select
+                        value={form.currency}
+                        onValueChange={(value) => setForm({ ...form, currency: value })}
+                      >
+                        <SelectTrigger id="currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from(new Set([...currencies, form.currency])).map((currency) => (
+                            <SelectItem key={currency} value={currency}>
+                              {currency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="exchange-rate">Rate (৳ per unit)</Label>
+                      <Input
+                        id="exchange-rate"
+                        type="number"
+                        step="0.000001"
+                        min="0.000001"
+                        value={form.exchangeRate}
+                        onChange={(e) => setForm({ ...form, exchangeRate: e.target.value })}
+                        disabled={isBaseCurrency(form.currency)}
+                      />
+                    </div>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -407,6 +451,8 @@ export default function CreatePurchasePage() {
                     {form.items.map((item, index) => {
                       // Extract base name and variation details using utility function
                       const { baseName, variation } = getItemDisplayInfo(item.itemName)
+                      const product = item.itemType === 'product' ? products.find((p: DatabaseProduct) => p.id === item.itemId) : undefined
+                      const unitOptions = product ? getUnitOptions(product.base_unit, product.product_units) : []
 
                       return (
                         <div key={`${item.itemId}-${item.itemType}-${item.variationId || 'simple'}-${index}`} 
@@ -434,6 +480,33 @@ export default function CreatePurchasePage() {
 
                             {/* Quantity & Price Controls */}
                             <div className="flex items-center gap-4">
+                              {/* Unit */}
+                              {unitOptions.length > 1 && (
+                                <div className="text-center">
+                                  <Label htmlFor={`unit-${index}`} className="text-xs text-muted-foreground block mb-1">
+                                    Unit
+                                  </Label>
+                                  <Select
+                                    value={String(item.unitFactor || 1)}
+                                    onValueChange={(value) => {
+                                      const unit = unitOptions.find(option => String(option.factor) === value)
+                                      if (unit) updateItemUnit(index, unit.name, unit.factor)
+                                    }}
+                                  >
+                                    <SelectTrigger id={`unit-${index}`} className="w-32 h-9">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {unitOptions.map(unit => (
+                                        <SelectItem key={unit.name} value={String(unit.factor)}>
+                                          {unit.factor > 1 ? `${unit.name} (${unit.factor} ${unitOptions[0].name})` : unit.name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              )}
+
                               {/* Quantity */}
                               <div className="text-center">
                                 <Label htmlFor={`qty-${index}`} className="text-xs text-muted-foreground block mb-1">
@@ -453,10 +526,10 @@ export default function CreatePurchasePage() {
                               {/* Unit Price */}
                               <div className="text-center">
                                 <Label htmlFor={`price-${index}`} className="text-xs text-muted-foreground block mb-1">
-                                  Unit Price (BDT)
+                                  {item.unitName ? `Price per ${item.unitName}` : 'Unit Price (BDT)'}
                                 </Label>
                                 <div className="relative">
-                                  <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-muted-foreground">৳</span>
+                                  <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-muted-foreground">{currencySymbol}</span>
                                   <Input
                                     id={`price-${index}`}
                                     type="number"
@@ -470,12 +543,32 @@ export default function CreatePurchasePage() {
                                 </div>
                               </div>
 
+                              {/* Tax */}
+                              <div className="text-center">
+                                <Label htmlFor={`tax-${index}`} className="text-xs text-muted-foreground block mb-1">
+                                  Tax
+                                </Label>
+                                <TaxCodeSelect
+                                  id={`tax-${index}`}
+                                  value={item.taxCodeId || ''}
+                                  onChange={(taxCodeId) => updateItemTaxCode(index, taxCodeId)}
+                                  codes={taxCodes}
+                                  noneLabel="No tax"
+                                  className="w-32 h-9"
+                                />
+                              </div>
+
                               {/* Total */}
                               <div className="text-center min-w-[80px]">
                                 <div className="text-xs text-muted-foreground mb-1">Total</div>
                                 <div className="font-semibold text-lg text-gray-900">
-                                  {formatCurrency(item.total)}
+                                  {formatCurrency(item.total, currencySymbol)}
                                 </div>
+                                {item.taxAmount > 0 && (
+                                  <div className="text-xs text-muted-foreground">
+                                    + {formatCurrency(item.taxAmount, currencySymbol)} tax
+                                  </div>
+                                )}
                               </div>
 
                               {/* Remove Button */}
@@ -508,7 +601,7 @@ export default function CreatePurchasePage() {
                         <div className="text-right">
                           <div className="text-sm text-muted-foreground">Grand Total</div>
                           <div className="text-xl font-bold text-gray-900">
-                            {formatCurrency(totalAmount)}
+                            {formatCurrency(totalAmount, currencySymbol)}
                           </div>
                         </div>
                       </div>
@@ -555,9 +648,17 @@ export default function CreatePurchasePage() {
                     <span>Total Quantity:</span>
                     <span>{form.items.reduce((sum, item) => sum + item.quantity, 0)}</span>
                   </div>
+                  <div className="flex justify-between text-sm mt-2 pt-2 border-t">
+                    <span>Subtotal:</span>
+                    <span>{formatCurrency(subtotalAmount, currencySymbol)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span>Tax:</span>
+                    <span>{formatCurrency(taxAmount, currencySymbol)}</span>
+                  </div>
                   <div className="flex justify-between text-lg font-semibold mt-2 pt-2 border-t">
                     <span>Total Amount:</span>
-                    <span>{formatCurrency(totalAmount)}</span>
+                    <span>{formatCurrency(totalAmount, currencySymbol)}</span>
                   </div>
                 </div>
               </CardContent>
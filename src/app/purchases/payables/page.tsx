@@ -0,0 +1,214 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Label } from "@/components/ui/label"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Search, Eye, Building, Wallet, AlertTriangle, CalendarClock } from "lucide-react"
+import { toast } from "sonner"
+import {
+  getPayablesAging,
+  emptyPayablesAging,
+  addPayablesAging,
+  type PayablesAgingReport
+} from "@/lib/supabase/purchases"
+import { AGING_BUCKETS } from "@/lib/utils/aging"
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function PayablesAgingPage() {
+  const [asOf, setAsOf] = React.useState<Date>(new Date())
+  const [report, setReport] = React.useState<PayablesAgingReport | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [searchTerm, setSearchTerm] = React.useState("")
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      try {
+        setIsLoading(true)
+        const data = await getPayablesAging(asOf)
+        if (!cancelled) setReport(data)
+      } catch (error) {
+        console.error('Error loading payables aging:', error)
+        toast.error('Failed to load payables aging')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [asOf])
+
+  const rows = (report?.rows || []).filter(row =>
+    row.supplier_name.toLowerCase().includes(searchTerm.toLowerCase())
+  )
+  const totals = rows.reduce((sum, row) => addPayablesAging(sum, row.aging), emptyPayablesAging())
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Payables Aging</h1>
+        <p className="text-muted-foreground">
+          What is owed to suppliers, by how long each bill has been past its due date; foreign-currency bills in taka at their purchase rate
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Payable</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-24" /> : formatCurrency(totals.total)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Not Yet Due</CardTitle>
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-24" /> : formatCurrency(totals.not_due)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-24" /> : formatCurrency(totals.overdue.total)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 md:grid-cols-2 max-w-2xl">
+        <div className="space-y-2">
+          <Label htmlFor="search">Search</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="search"
+              placeholder="Search suppliers..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>As of</Label>
+          <DatePicker date={asOf} onDateChange={(date) => setAsOf(date || new Date())} placeholder="Today" />
+        </div>
+      </div>
+
+      <Card>
+        <div className="overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[180px]">Supplier</TableHead>
+                <TableHead className="min-w-[80px]">Bills</TableHead>
+                <TableHead className="min-w-[110px]">Next Due</TableHead>
+                <TableHead className="text-right min-w-[120px]">Not Yet Due</TableHead>
+                {AGING_BUCKETS.map(bucket => (
+                  <TableHead key={bucket.key} className="text-right min-w-[120px]">{bucket.label}</TableHead>
+                ))}
+                <TableHead className="text-right min-w-[120px]">Total</TableHead>
+                <TableHead className="text-right min-w-[80px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 5 }).map((_, index) => (
+                  <TableRow key={index}>
+                    {Array.from({ length: 10 }).map((__, cell) => (
+                      <TableCell key={cell}><Skeleton className="h-4 w-20" /></TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : rows.length > 0 ? (
+                <>
+                  {rows.map(row => (
+                    <TableRow key={row.supplier_id}>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <Building className="h-4 w-4 text-muted-foreground" />
+                          <span className="font-medium">{row.supplier_name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{row.bill_count}</TableCell>
+                      <TableCell>{new Date(row.next_due_date).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        {row.aging.not_due > 0 ? formatCurrency(row.aging.not_due) : '—'}
+                      </TableCell>
+                      {AGING_BUCKETS.map(bucket => (
+                        <TableCell
+                          key={bucket.key}
+                          className={`text-right ${row.aging.overdue[bucket.key] > 0 ? 'text-red-600 font-medium' : ''}`}
+                        >
+                          {row.aging.overdue[bucket.key] > 0 ? formatCurrency(row.aging.overdue[bucket.key]) : '—'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold">{formatCurrency(row.aging.total)}</TableCell>
+                      <TableCell className="text-right">
+                        <Link href={`/purchases/suppliers/${row.supplier_id}`}>
+                          <Button variant="outline" size="sm">
+                            <Eye className="h-4 w-4 mr-1" />
+                            View
+                          </Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-semibold">
+                    <TableCell>Total</TableCell>
+                    <TableCell>{rows.reduce((sum, row) => sum + row.bill_count, 0)}</TableCell>
+                    <TableCell />
+                    <TableCell className="text-right">{formatCurrency(totals.not_due)}</TableCell>
+                    {AGING_BUCKETS.map(bucket => (
+                      <TableCell key={bucket.key} className="text-right">{formatCurrency(totals.overdue[bucket.key])}</TableCell>
+                    ))}
+                    <TableCell className="text-right">{formatCurrency(totals.total)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </>
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground">
+                    No outstanding payables
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  )
+}
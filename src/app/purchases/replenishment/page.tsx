@@ -0,0 +1,560 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/components/ui/tabs"
+import { Loader2, PackageSearch, Save, ShoppingCart, Trash2, Truck, Wallet } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import { getWarehouses, type DatabaseWarehouse } from "@/lib/supabase/queries"
+import { getSuppliers, type DatabaseSupplier } from "@/lib/supabase/purchases"
+import {
+  createReplenishmentPurchases,
+  deleteReorderPoint,
+  getReplenishmentItemKey,
+  getReplenishmentSuggestions,
+  saveReorderPoint,
+  DEFAULT_VELOCITY_DAYS,
+  type ReplenishmentSuggestion
+} from "@/lib/supabase/replenishment"
+
+const VELOCITY_WINDOWS = [14, 30, 60, 90]
+const NO_SUPPLIER = 'none'
+
+interface OrderEdit {
+  selected: boolean
+  quantity: number
+  supplier_id: string | null
+}
+
+interface SettingEdit {
+  reorder_point: string
+  max_stock: string
+  preferred_supplier_id: string | null
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function ReplenishmentPage() {
+  const { user } = useCurrentUser()
+
+  const [warehouses, setWarehouses] = React.useState<DatabaseWarehouse[]>([])
+  const [suppliers, setSuppliers] = React.useState<DatabaseSupplier[]>([])
+  const [warehouseId, setWarehouseId] = React.useState('')
+  const [velocityDays, setVelocityDays] = React.useState(DEFAULT_VELOCITY_DAYS)
+  const [onlyToReorder, setOnlyToReorder] = React.useState(true)
+  const [searchTerm, setSearchTerm] = React.useState('')
+  const [suggestions, setSuggestions] = React.useState<ReplenishmentSuggestion[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [orderEdits, setOrderEdits] = React.useState<Record<string, OrderEdit>>({})
+  const [settingEdits, setSettingEdits] = React.useState<Record<string, SettingEdit>>({})
+  const [isCreating, setIsCreating] = React.useState(false)
+  const [savingKey, setSavingKey] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    getWarehouses()
+      .then(data => {
+        setWarehouses(data)
+        if (data.length > 0) setWarehouseId(current => current || data[0].id)
+      })
+      .catch(error => console.error('Error loading warehouses:', error))
+    getSuppliers()
+      .then(setSuppliers)
+      .catch(error => console.error('Error loading suppliers:', error))
+  }, [])
+
+  const loadSuggestions = React.useCallback(async () => {
+    if (!warehouseId) return
+    try {
+      setLoading(true)
+      const rows = await getReplenishmentSuggestions(warehouseId, velocityDays)
+      setSuggestions(rows)
+      setOrderEdits(Object.fromEntries(rows.map(row => [
+        getReplenishmentItemKey(row),
+        { selected: row.suggested_quantity > 0 && !!row.supplier_id, quantity: row.suggested_quantity, supplier_id: row.supplier_id }
+      ])))
+      setSettingEdits({})
+    } catch (error) {
+      console.error('Error loading replenishment suggestions:', error)
+      toast.error('Failed to calculate replenishment suggestions')
+    } finally {
+      setLoading(false)
+    }
+  }, [warehouseId, velocityDays])
+
+  React.useEffect(() => {
+    loadSuggestions()
+  }, [loadSuggestions])
+
+  const supplierName = (supplierId: string | null) =>
+    suppliers.find(supplier => supplier.id === supplierId)?.name || null
+
+  const term = searchTerm.trim().toLowerCase()
+  const matchesSearch = (row: ReplenishmentSuggestion) =>
+    !term || row.item_name.toLowerCase().includes(term) || (row.sku || '').toLowerCase().includes(term)
+
+  const suggestionRows = suggestions.filter(row => matchesSearch(row) && (!onlyToReorder || row.suggested_quantity > 0))
+  const settingRows = suggestions.filter(matchesSearch)
+
+  const selectedLines = suggestions.filter(row => {
+    const edit = orderEdits[getReplenishmentItemKey(row)]
+    return edit?.selected && edit.quantity > 0
+  })
+  const selectedCost = selectedLines.reduce(
+    (sum, row) => sum + orderEdits[getReplenishmentItemKey(row)].quantity * row.unit_price,
+    0
+  )
+  const selectedSuppliers = new Set(selectedLines.map(row => orderEdits[getReplenishmentItemKey(row)].supplier_id))
+  const toReorder = suggestions.filter(row => row.suggested_quantity > 0).length
+
+  const updateOrder = (key: string, changes: Partial<OrderEdit>) => {
+    setOrderEdits(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }))
+  }
+
+  const getSettingEdit = (row: ReplenishmentSuggestion): SettingEdit =>
+    settingEdits[getReplenishmentItemKey(row)] || {
+      reorder_point: row.reorder_point !== null ? String(row.reorder_point) : '',
+      max_stock: row.max_stock !== null ? String(row.max_stock) : '',
+      preferred_supplier_id: row.reorder_point_id ? row.supplier_id : null
+    }
+
+  const updateSetting = (row: ReplenishmentSuggestion, changes: Partial<SettingEdit>) => {
+    const key = getReplenishmentItemKey(row)
+    setSettingEdits(prev => ({ ...prev, [key]: { ...getSettingEdit(row), ...changes } }))
+  }
+
+  const handleSaveSetting = async (row: ReplenishmentSuggestion) => {
+    const key = getReplenishmentItemKey(row)
+    const edit = getSettingEdit(row)
+
+    if (!/^\d+$/.test(edit.reorder_point) || (edit.max_stock && !/^\d+$/.test(edit.max_stock))) {
+      toast.error('Reorder point and maximum must be whole numbers')
+      return
+    }
+
+    try {
+      setSavingKey(key)
+      await saveReorderPoint({
+        id: row.reorder_point_id,
+        item_type: row.item_type,
+        item_id: row.item_id,
+        variation_id: row.variation_id,
+        warehouse_id: warehouseId,
+        reorder_point: parseInt(edit.reorder_point),
+        max_stock: edit.max_stock ? parseInt(edit.max_stock) : null,
+        preferred_supplier_id: edit.preferred_supplier_id
+      }, user?.name || 'system')
+      toast.success(`Reorder point saved for ${row.item_name}`)
+      await loadSuggestions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the reorder point')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const handleRemoveSetting = async (row: ReplenishmentSuggestion) => {
+    if (!row.reorder_point_id) return
+    const key = getReplenishmentItemKey(row)
+
+    try {
+      setSavingKey(key)
+      await deleteReorderPoint(row.reorder_point_id)
+      toast.success(`Reorder point removed for ${row.item_name}`)
+      await loadSuggestions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove the reorder point')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const handleCreatePurchases = async () => {
+    const warehouse = warehouses.find(w => w.id === warehouseId)
+    if (!warehouse || selectedLines.length === 0) return
+
+    const missingSupplier = selectedLines.find(row => !orderEdits[getReplenishmentItemKey(row)].supplier_id)
+    if (missingSupplier) {
+      toast.error(`Choose a supplier for ${missingSupplier.item_name}`)
+      return
+    }
+
+    try {
+      setIsCreating(true)
+      const purchases = await createReplenishmentPurchases(
+        { id: warehouse.id, name: warehouse.name },
+        selectedLines.map(row => {
+          const edit = orderEdits[getReplenishmentItemKey(row)]
+          return {
+            item_type: row.item_type,
+            item_id: row.item_id,
+            variation_id: row.variation_id,
+            item_name: row.item_name,
+            supplier_id: edit.supplier_id!,
+            supplier_name: supplierName(edit.supplier_id) || row.supplier_name || '',
+            quantity: edit.quantity,
+            unit_price: row.unit_price
+          }
+        }),
+        user?.id || 'system'
+      )
+      toast.success(`Created ${purchases.length} purchase order${purchases.length !== 1 ? 's' : ''}`)
+      await loadSuggestions()
+    } catch (error) {
+      console.error('Error creating replenishment purchases:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create purchase orders')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Replenishment</h1>
+          <p className="text-muted-foreground">
+            What to buy for each warehouse, from reorder points, stock on order and recent sales
+          </p>
+        </div>
+        <Button onClick={handleCreatePurchases} disabled={isCreating || selectedLines.length === 0}>
+          {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShoppingCart className="h-4 w-4 mr-2" />}
+          Create Purchases ({selectedSuppliers.size})
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Items to Reorder</CardTitle>
+            <PackageSearch className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : toReorder}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Selected Suppliers</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{selectedSuppliers.size}</div>
+            <p className="text-xs text-muted-foreground">{selectedLines.length} lines selected</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Estimated Cost</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(selectedCost)}</div>
+            <p className="text-xs text-muted-foreground">At the last purchase price</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 md:grid-cols-4 items-end">
+        <div className="space-y-2">
+          <Label>Warehouse</Label>
+          <Select value={warehouseId} onValueChange={setWarehouseId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select warehouse" />
+            </SelectTrigger>
+            <SelectContent>
+              {warehouses.map(warehouse => (
+                <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Sales velocity from</Label>
+          <Select value={String(velocityDays)} onValueChange={(value) => setVelocityDays(parseInt(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VELOCITY_WINDOWS.map(days => (
+                <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="replenishment-search">Search</Label>
+          <Input
+            id="replenishment-search"
+            placeholder="Item name or SKU"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch id="only-to-reorder" checked={onlyToReorder} onCheckedChange={setOnlyToReorder} />
+          <Label htmlFor="only-to-reorder">Only items to reorder</Label>
+        </div>
+      </div>
+
+      <Tabs defaultValue="suggestions">
+        <TabsList>
+          <TabsTrigger value="suggestions">Suggestions</TabsTrigger>
+          <TabsTrigger value="settings">Reorder Points</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="suggestions">
+          <Card>
+            <CardHeader>
+              <CardTitle>Suggested Purchases</CardTitle>
+              <CardDescription>
+                Selected lines become one pending purchase per supplier. Adjust quantities or suppliers before creating them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 6 }).map((_, index) => (
+                    <Skeleton key={index} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : suggestionRows.length === 0 ? (
+                <div className="py-12 text-center text-muted-foreground">
+                  {onlyToReorder ? 'Nothing needs reordering in this warehouse' : 'No items found'}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]" />
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Available</TableHead>
+                      <TableHead className="text-right">On Order</TableHead>
+                      <TableHead className="text-right">Sold / Day</TableHead>
+                      <TableHead className="text-right">Min / Max</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead className="w-[110px] text-right">Order Qty</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suggestionRows.map(row => {
+                      const key = getReplenishmentItemKey(row)
+                      const edit = orderEdits[key]
+                      if (!edit) return null
+                      return (
+                        <TableRow key={key}>
+                          <TableCell>
+                            <Checkbox
+                              checked={edit.selected}
+                              onCheckedChange={(checked) => updateOrder(key, { selected: checked === true })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{row.item_name}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{row.sku || '—'}</div>
+                            {row.item_type === 'package' && <Badge variant="secondary" className="mt-1">Packaging</Badge>}
+                          </TableCell>
+                          <TableCell className={`text-right ${row.available_stock <= 0 ? 'text-red-600 font-medium' : ''}`}>
+                            {row.available_stock}
+                          </TableCell>
+                          <TableCell className="text-right">{row.on_order || '—'}</TableCell>
+                          <TableCell className="text-right">
+                            {row.daily_velocity.toFixed(2)}
+                            <div className="text-xs text-muted-foreground">{row.units_sold} in {velocityDays}d</div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.reorder_point_id ? `${row.reorder_point} / ${row.max_stock ?? '—'}` : (
+                              <span className="text-xs text-muted-foreground">From velocity</span>
+                            )}
+                            {row.lead_time_days !== null && (
+                              <div className="text-xs text-muted-foreground">{row.lead_time_days}d lead time</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={edit.supplier_id || NO_SUPPLIER}
+                              onValueChange={(value) => updateOrder(key, { supplier_id: value === NO_SUPPLIER ? null : value })}
+                            >
+                              <SelectTrigger className="w-[180px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_SUPPLIER}>Choose supplier</SelectItem>
+                                {suppliers.map(supplier => (
+                                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={0}
+                              value={edit.quantity}
+                              onChange={(e) => updateOrder(key, { quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                              className="text-right"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(edit.quantity * row.unit_price)}</TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="settings">
+          <Card>
+            <CardHeader>
+              <CardTitle>Reorder Points</CardTitle>
+              <CardDescription>
+                Reorder when available plus on-order stock falls to the minimum, up to the maximum. Without a maximum,{' '}
+                {velocityDays} days of sales are added on top. Supplier lead times are set on the{' '}
+                <Link href="/purchases/suppliers" className="text-primary hover:underline">suppliers page</Link>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 6 }).map((_, index) => (
+                    <Skeleton key={index} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : settingRows.length === 0 ? (
+                <div className="py-12 text-center text-muted-foreground">No items stocked in this warehouse</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">On Hand</TableHead>
+                      <TableHead className="w-[110px] text-right">Min</TableHead>
+                      <TableHead className="w-[110px] text-right">Max</TableHead>
+                      <TableHead>Preferred Supplier</TableHead>
+                      <TableHead className="w-[100px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {settingRows.map(row => {
+                      const key = getReplenishmentItemKey(row)
+                      const edit = getSettingEdit(row)
+                      const isDirty = key in settingEdits
+                      return (
+                        <TableRow key={key}>
+                          <TableCell>
+                            <div className="font-medium">{row.item_name}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{row.sku || '—'}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{row.current_stock}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={0}
+                              value={edit.reorder_point}
+                              placeholder="—"
+                              onChange={(e) => updateSetting(row, { reorder_point: e.target.value })}
+                              className="text-right"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={0}
+                              value={edit.max_stock}
+                              placeholder="—"
+                              onChange={(e) => updateSetting(row, { max_stock: e.target.value })}
+                              className="text-right"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={edit.preferred_supplier_id || NO_SUPPLIER}
+                              onValueChange={(value) => updateSetting(row, { preferred_supplier_id: value === NO_SUPPLIER ? null : value })}
+                            >
+                              <SelectTrigger className="w-[200px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_SUPPLIER}>Last supplier used</SelectItem>
+                                {suppliers.map(supplier => (
+                                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleSaveSetting(row)}
+                                disabled={!isDirty || savingKey === key}
+                              >
+                                {savingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                              </Button>
+                              {row.reorder_point_id && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleRemoveSetting(row)}
+                                  disabled={savingKey === key}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
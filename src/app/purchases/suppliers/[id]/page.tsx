@@ -0,0 +1,181 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ArrowLeft, Building, Mail, Phone, MapPin, Calendar, Clock, ShoppingBag, DollarSign, Truck } from "lucide-react"
+import { getSupplierById, type DatabaseSupplier } from "@/lib/supabase/purchases"
+import SupplierPayables from "@/components/SupplierPayables"
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function SupplierDetailPage() {
+  const params = useParams()
+  const supplierId = params.id as string
+
+  const [supplier, setSupplier] = React.useState<DatabaseSupplier | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    const loadSupplier = async () => {
+      try {
+        setSupplier(await getSupplierById(supplierId))
+      } catch (error) {
+        console.error('Error loading supplier:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (supplierId) loadSupplier()
+  }, [supplierId])
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-6 p-6">
+        <Skeleton className="h-9 w-64" />
+        <div className="grid gap-6 md:grid-cols-3">
+          <Skeleton className="h-48 md:col-span-2" />
+          <Skeleton className="h-48" />
+        </div>
+        <Skeleton className="h-96" />
+      </div>
+    )
+  }
+
+  if (!supplier) {
+    return (
+      <div className="flex-1 space-y-6 p-6">
+        <div className="text-center py-12">
+          <h1 className="text-2xl font-bold mb-4">Supplier Not Found</h1>
+          <Link href="/purchases/suppliers">
+            <Button>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Suppliers
+            </Button>
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link href="/purchases/suppliers">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{supplier.name}</h1>
+          <p className="text-muted-foreground">
+            Supplier details and account balance
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {/* Supplier Information */}
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building className="h-5 w-5" />
+              Supplier Information
+              <Badge variant="secondary" className={supplier.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                {supplier.status}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Email</label>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <p>{supplier.email || '-'}</p>
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Phone</label>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <Phone className="h-4 w-4 text-muted-foreground" />
+                    <p>{supplier.phone || '-'}</p>
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Address</label>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    <p>{supplier.address || '-'}</p>
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Payment Terms</label>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    <p>{supplier.payment_terms_days ? `Net ${supplier.payment_terms_days} days` : 'Due on receipt'}</p>
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Lead Time</label>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <Truck className="h-4 w-4 text-muted-foreground" />
+                    <p>{supplier.lead_time_days != null ? `${supplier.lead_time_days} days` : '-'}</p>
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Supplier since</label>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    <p>{supplier.join_date ? new Date(supplier.join_date).toLocaleDateString('en-BD') : '-'}</p>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Supplier Stats */}
+        <div className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Spent</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(Number(supplier.total_spent || 0))}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Purchases</CardTitle>
+              <ShoppingBag className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{supplier.total_purchases || 0}</div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Payables */}
+      <SupplierPayables supplierId={supplier.id} />
+    </div>
+  )
+}
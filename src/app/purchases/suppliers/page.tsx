@@ -1,7 +1,8 @@
 "use client"
 
 import * as React from "react"
-import { Search, Plus, Edit, Building, Mail, Phone, MapPin, Users, Calendar } from "lucide-react"
+import Link from "next/link"
+import { Search, Plus, Edit, Building, Mail, Phone, MapPin, Users, Clock, ShoppingBag, Wallet, BarChart3, Truck, Coins } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
@@ -33,7 +34,7 @@ import {
 } from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { getSuppliers, type DatabaseSupplier } from "@/lib/supabase/purchases"
+import { getSuppliers, getPayablesAging, type DatabaseSupplier, type PayablesAging } from "@/lib/supabase/purchases"
 import { createSupplier, updateSupplier, type CreateSupplierData, type UpdateSupplierData } from "@/lib/supabase/mutations"
 import { toast } from "sonner"
 
@@ -43,12 +44,16 @@ interface SupplierForm {
   phone: string
   address: string
   status: 'active' | 'inactive'
+  payment_terms_days: string
+  lead_time_days: string
+  currency: string
 }
 
 export default function SuppliersPage() {
   const [searchTerm, setSearchTerm] = React.useState("")
   const [statusFilter, setStatusFilter] = React.useState<'all' | 'active' | 'inactive'>('all')
   const [suppliers, setSuppliers] = React.useState<DatabaseSupplier[]>([])
+  const [balances, setBalances] = React.useState<Record<string, PayablesAging>>({})
   const [filteredSuppliers, setFilteredSuppliers] = React.useState<DatabaseSupplier[]>([])
   const [isLoading, setIsLoading] = React.useState(true)
   
@@ -65,22 +70,34 @@ export default function SuppliersPage() {
     email: '',
     phone: '',
     address: '',
-    status: 'active'
+    status: 'active',
+    payment_terms_days: '30',
+    lead_time_days: '',
+    currency: 'BDT'
   })
   const [editForm, setEditForm] = React.useState<SupplierForm>({
     name: '',
     email: '',
     phone: '',
     address: '',
-    status: 'active'
+    status: 'active',
+    payment_terms_days: '30',
+    lead_time_days: '',
+    currency: 'BDT'
   })
 
+  // Open balance per supplier from the payables ledger
+  const loadBalances = async () => {
+    const report = await getPayablesAging()
+    setBalances(Object.fromEntries(report.rows.map(row => [row.supplier_id, row.aging])))
+  }
+
   // Load suppliers from Supabase
   React.useEffect(() => {
     const loadSuppliers = async () => {
       try {
         setIsLoading(true)
-        const data = await getSuppliers()
+        const [data] = await Promise.all([getSuppliers(), loadBalances()])
         setSuppliers(data)
       } catch (error) {
         console.error('Error loading suppliers:', error)
@@ -138,6 +155,9 @@ export default function SuppliersPage() {
     if (!form.name.trim()) newErrors.push('Supplier name is required')
     if (form.email && !isValidEmail(form.email)) newErrors.push('Please enter a valid email address')
     if (!form.status) newErrors.push('Status is required')
+    if (!/^\d+$/.test(form.payment_terms_days)) newErrors.push('Payment terms must be a whole number of days')
+    if (form.lead_time_days && !/^\d+$/.test(form.lead_time_days)) newErrors.push('Lead time must be a whole number of days')
+    if (!/^[A-Z]{3}$/.test(form.currency)) newErrors.push('Currency must be a three-letter code such as BDT or USD')
 
     setErrors(newErrors)
     return newErrors.length === 0
@@ -154,7 +174,10 @@ export default function SuppliersPage() {
       email: '',
       phone: '',
       address: '',
-      status: 'active'
+      status: 'active',
+      payment_terms_days: '30',
+      lead_time_days: '',
+      currency: 'BDT'
     })
     setErrors([])
   }
@@ -172,7 +195,10 @@ export default function SuppliersPage() {
         email: addForm.email || undefined,
         phone: addForm.phone || undefined,
         address: addForm.address || undefined,
-        status: addForm.status
+        status: addForm.status,
+        payment_terms_days: parseInt(addForm.payment_terms_days),
+        lead_time_days: addForm.lead_time_days ? parseInt(addForm.lead_time_days) : null,
+        currency: addForm.currency
       }
 
       await createSupplier(supplierData)
@@ -180,7 +206,7 @@ export default function SuppliersPage() {
       toast.success('Supplier created successfully!')
       
       // Reload suppliers
-      const updatedSuppliers = await getSuppliers()
+      const [updatedSuppliers] = await Promise.all([getSuppliers(), loadBalances()])
       setSuppliers(updatedSuppliers)
       
       // Close modal and reset form
@@ -210,7 +236,10 @@ export default function SuppliersPage() {
         email: editForm.email || undefined,
         phone: editForm.phone || undefined,
         address: editForm.address || undefined,
-        status: editForm.status
+        status: editForm.status,
+        payment_terms_days: parseInt(editForm.payment_terms_days),
+        lead_time_days: editForm.lead_time_days ? parseInt(editForm.lead_time_days) : null,
+        currency: editForm.currency
       }
 
       await updateSupplier(supplierData)
@@ -218,7 +247,7 @@ export default function SuppliersPage() {
       toast.success('Supplier updated successfully!')
       
       // Reload suppliers
-      const updatedSuppliers = await getSuppliers()
+      const [updatedSuppliers] = await Promise.all([getSuppliers(), loadBalances()])
       setSuppliers(updatedSuppliers)
       
       // Close modal
@@ -241,7 +270,10 @@ export default function SuppliersPage() {
       email: supplier.email || '',
       phone: supplier.phone || '',
       address: supplier.address || '',
-      status: supplier.status
+      status: supplier.status,
+      payment_terms_days: String(supplier.payment_terms_days ?? 30),
+      lead_time_days: supplier.lead_time_days != null ? String(supplier.lead_time_days) : '',
+      currency: supplier.currency || 'BDT'
     })
     setErrors([])
     setIsEditModalOpen(true)
@@ -250,25 +282,19 @@ export default function SuppliersPage() {
   const getSupplierStats = () => {
     const activeSuppliers = suppliers.filter(s => s.status === 'active').length
     const inactiveSuppliers = suppliers.filter(s => s.status === 'inactive').length
+    const payables = Object.values(balances)
     
     return {
       total: suppliers.length,
       active: activeSuppliers,
-      inactive: inactiveSuppliers
+      inactive: inactiveSuppliers,
+      totalPurchases: suppliers.reduce((sum, s) => sum + (s.total_purchases || 0), 0),
+      totalSpent: suppliers.reduce((sum, s) => sum + Number(s.total_spent || 0), 0),
+      outstanding: payables.reduce((sum, aging) => sum + aging.total, 0),
+      overdue: payables.reduce((sum, aging) => sum + aging.overdue.total, 0)
     }
   }
 
-  const getLatestJoinDate = () => {
-    if (suppliers.length === 0) return '-'
-    const validDates = suppliers
-      .filter(s => s.join_date)
-      .map(s => new Date(s.join_date))
-      .sort((a, b) => b.getTime() - a.getTime())
-    
-    if (validDates.length === 0) return '-'
-    return validDates[0].toLocaleDateString('en-BD')
-  }
-
   const stats = getSupplierStats()
 
   // Skeleton loading screen
@@ -391,6 +417,56 @@ export default function SuppliersPage() {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="add-payment-terms">Payment Terms (days) *</Label>
+                  <div className="relative">
+                    <Clock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      id="add-payment-terms"
+                      type="number"
+                      min="0"
+                      value={addForm.payment_terms_days}
+                      onChange={(e) => setAddForm(prev => ({ ...prev, payment_terms_days: e.target.value }))}
+                      placeholder="30"
+                      className="pl-10 md:w-1/2"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">Purchases from this supplier fall due this many days after the purchase date</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="add-lead-time">Lead Time (days)</Label>
+                  <div className="relative">
+                    <Truck className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      id="add-lead-time"
+                      type="number"
+                      min="0"
+                      value={addForm.lead_time_days}
+                      onChange={(e) => setAddForm(prev => ({ ...prev, lead_time_days: e.target.value }))}
+                      placeholder="Optional"
+                      className="pl-10 md:w-1/2"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">Days from ordering until goods arrive; used for replenishment suggestions</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="add-currency">Currency</Label>
+                  <div className="relative">
+                    <Coins className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      id="add-currency"
+                      maxLength={3}
+                      value={addForm.currency}
+                      onChange={(e) => setAddForm(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                      placeholder="BDT"
+                      className="pl-10 md:w-1/2"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">Purchases from this supplier are made in this currency, and their statement is shown in it</p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="add-address">Address</Label>
                   <div className="relative">
@@ -436,6 +512,52 @@ export default function SuppliersPage() {
         </div>
       </div>
 
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-4 mb-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Suppliers</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.active}</div>
+            <p className="text-xs text-muted-foreground">{stats.total} in total</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Spent</CardTitle>
+            <ShoppingBag className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(stats.totalSpent)}</div>
+            <p className="text-xs text-muted-foreground">across {stats.totalPurchases} purchases</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Payables Outstanding</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(stats.outstanding)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${stats.overdue > 0 ? 'text-red-600' : ''}`}>{formatCurrency(stats.overdue)}</div>
+            <Link href="/purchases/payables" className="text-xs text-muted-foreground hover:underline inline-flex items-center gap-1">
+              <BarChart3 className="h-3 w-3" />
+              View aging report
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Filters */}
       <div className="mb-6 flex flex-col sm:flex-row gap-4">
         <div className="relative flex-1">
@@ -466,12 +588,16 @@ export default function SuppliersPage() {
         </p>
       </div>
 
-      <div className="rounded-md border bg-white">
+      <div className="rounded-md border bg-white overflow-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Supplier</TableHead>
                     <TableHead>Contact</TableHead>
+                    <TableHead>Terms</TableHead>
+                    <TableHead className="text-right">Purchases</TableHead>
+                    <TableHead className="text-right">Total Spent</TableHead>
+                    <TableHead className="text-right">Balance Due</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Join Date</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -480,7 +606,7 @@ export default function SuppliersPage() {
                 <TableBody>
                   {filteredSuppliers.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center py-8">
+                      <TableCell colSpan={9} className="text-center py-8">
                         <div className="text-muted-foreground">
                           {suppliers.length === 0 ? 'No suppliers found. Add your first supplier!' : 'No suppliers match your search criteria.'}
                         </div>
@@ -491,7 +617,9 @@ export default function SuppliersPage() {
                       <TableRow key={supplier.id}>
                         <TableCell>
                           <div>
-                            <div className="font-medium">{supplier.name}</div>
+                            <Link href={`/purchases/suppliers/${supplier.id}`} className="font-medium hover:underline">
+                              {supplier.name}
+                            </Link>
                             {supplier.address && (
                               <div className="text-sm text-muted-foreground">{supplier.address}</div>
                             )}
@@ -513,6 +641,19 @@ export default function SuppliersPage() {
                             )}
                           </div>
                         </TableCell>
+                        <TableCell>
+                          {supplier.payment_terms_days ? `Net ${supplier.payment_terms_days}` : 'Due on receipt'}
+                        </TableCell>
+                        <TableCell className="text-right">{supplier.total_purchases || 0}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(supplier.total_spent))}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="font-medium">{formatCurrency(balances[supplier.id]?.total || 0)}</div>
+                          {(balances[supplier.id]?.overdue.total || 0) > 0 && (
+                            <div className="text-xs text-red-600">
+                              {formatCurrency(balances[supplier.id].overdue.total)} overdue
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Badge variant="secondary" className={`text-xs ${getStatusColor(supplier.status)}`}>
                             {supplier.status || 'inactive'}
@@ -613,6 +754,56 @@ export default function SuppliersPage() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="edit-payment-terms">Payment Terms (days) *</Label>
+              <div className="relative">
+                <Clock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="edit-payment-terms"
+                  type="number"
+                  min="0"
+                  value={editForm.payment_terms_days}
+                  onChange={(e) => setEditForm(prev => ({ ...prev, payment_terms_days: e.target.value }))}
+                  placeholder="30"
+                  className="pl-10 md:w-1/2"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">Purchases from this supplier fall due this many days after the purchase date</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-lead-time">Lead Time (days)</Label>
+              <div className="relative">
+                <Truck className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="edit-lead-time"
+                  type="number"
+                  min="0"
+                  value={editForm.lead_time_days}
+                  onChange={(e) => setEditForm(prev => ({ ...prev, lead_time_days: e.target.value }))}
+                  placeholder="Optional"
+                  className="pl-10 md:w-1/2"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">Days from ordering until goods arrive; used for replenishment suggestions</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-currency">Currency</Label>
+              <div className="relative">
+                <Coins className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="edit-currency"
+                  maxLength={3}
+                  value={editForm.currency}
+                  onChange={(e) => setEditForm(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                  placeholder="BDT"
+                  className="pl-10 md:w-1/2"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">Purchases from this supplier are made in this currency, and their statement is shown in it</p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="edit-address">Address</Label>
               <div className="relative">
@@ -33,20 +33,28 @@ import {
   AlertTriangle
 } from "lucide-react"
 import { DatePicker } from "@/components/ui/date-picker"
-import { getSaleById, createReturn, getCustomerById, type SaleWithItems } from "@/lib/supabase/sales-client"
+import { getSaleById, processReturn, getCustomerById, PROCESS_RETURN_ERROR_MESSAGES, type SaleWithItems } from "@/lib/supabase/sales-client"
 import { apiCache } from "@/lib/supabase/cache"
+import { getHeldSerialNumbers } from "@/lib/supabase/serial-numbers"
+import { SerialNumberInput } from "@/components/SerialNumberInput"
 import { toast } from "sonner"
 
 interface ReturnItem {
+  saleItemId: string
   productId: string
   productName: string
   originalQuantity: number
   returnQuantity: number
   price: number
+  // What each unit is credited at: its share of the line after discounts, with tax
+  refundPrice: number
   maxReturnQty: number
   productVariationId?: string
   packagingId?: string
   packagingVariationId?: string
+  // Serial-tracked lines: the serials still out with the customer, and those coming back
+  soldSerials?: string[]
+  returnSerials: string[]
 }
 
 function ReturnsPageContent() {
@@ -103,17 +111,32 @@ function ReturnsPageContent() {
           const initialReturnItems: ReturnItem[] = saleData.sale.sale_items
             ?.filter((item: any) => (item.returned_quantity || 0) < item.quantity) // Only include items that can still be returned
             .map((item: any) => ({
+              saleItemId: item.id,
               productId: item.product_id || '', // Handle null case
               productName: item.product_name,
             originalQuantity: item.quantity,
             returnQuantity: 0,
             price: item.price,
+              refundPrice: ((item.taxable_amount ?? item.total ?? item.price * item.quantity) + (item.tax || 0)) / item.quantity,
               maxReturnQty: item.quantity - (item.returned_quantity || 0), // Maximum returnable quantity
               productVariationId: item.variation_id || undefined,
               packagingId: item.packaging_id || undefined,
-              packagingVariationId: item.packaging_variation_id || undefined
+              packagingVariationId: item.packaging_variation_id || undefined,
+              soldSerials: item.serial_numbers ? [] : undefined,
+              returnSerials: []
           }))
             .filter((item: ReturnItem) => item.productId) || [] // Filter out items with empty productId
+
+          // Units sold by serial number are returned by serial number
+          const serialItemIds = initialReturnItems
+            .filter(item => item.soldSerials)
+            .map(item => item.saleItemId)
+          if (serialItemIds.length > 0) {
+            const heldSerials = await getHeldSerialNumbers(serialItemIds, 'sold')
+            initialReturnItems.forEach(item => {
+              if (item.soldSerials) item.soldSerials = heldSerials[item.saleItemId] || []
+            })
+          }
         
         setReturnItems(initialReturnItems)
         } else {
@@ -138,17 +161,30 @@ function ReturnsPageContent() {
   }, [saleId])
 
   // Handle quantity updates
-  const updateReturnQuantity = (productId: string, quantity: number) => {
+  const updateReturnQuantity = (saleItemId: string, quantity: number) => {
     setReturnItems(prev => prev.map(item => 
-      item.productId === productId 
+      item.saleItemId === saleItemId 
         ? { ...item, returnQuantity: Math.max(0, Math.min(quantity, item.maxReturnQty)) }
         : item
     ))
   }
 
+  // The quantity of a serial-tracked line is the number of serials picked
+  const updateReturnSerials = (saleItemId: string, serials: string[]) => {
+    setReturnItems(prev => prev.map(item => 
+      item.saleItemId === saleItemId 
+        ? {
+            ...item,
+            returnSerials: serials.slice(0, item.maxReturnQty),
+            returnQuantity: Math.min(serials.length, item.maxReturnQty)
+          }
+        : item
+    ))
+  }
+
   // Calculate totals
   const totalReturnAmount = returnItems.reduce((sum, item) => 
-    sum + (item.returnQuantity * item.price), 0
+    sum + (item.returnQuantity * item.refundPrice), 0
   )
   
   const totalReturnItems = returnItems.reduce((sum, item) => 
@@ -194,16 +230,14 @@ function ReturnsPageContent() {
         total_amount: totalReturnAmount,
         reason: returnReason,
         return_date: returnDate, // Use the user-selected date
-        status: 'pending' as const
+        status: 'completed' as const
       }
 
+      // Each line is matched to its exact sale item so variations of one product stay separate
       const returnItemsData = itemsToReturn.map(item => ({
-        product_id: item.productId,
-        product_name: item.productName,
-        variation_id: item.productVariationId || null,
-            quantity: item.returnQuantity,
-            price: item.price,
-            total: item.returnQuantity * item.price
+        sale_item_id: item.saleItemId,
+        quantity: item.returnQuantity,
+        serial_numbers: item.soldSerials ? item.returnSerials : undefined
       }))
 
       console.log('📝 Return data to submit:', returnData)
@@ -212,7 +246,14 @@ function ReturnsPageContent() {
       // Test database connection and table structure
       console.log('🔍 Testing database connection...')
       
-      await createReturn(returnData, returnItemsData)
+      const result = await processReturn(returnData, returnItemsData)
+
+      if (!result.success) {
+        const errorMessage = `${PROCESS_RETURN_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`
+        setAlertMessage({ type: 'error', message: errorMessage })
+        toast.error(errorMessage)
+        return
+      }
       
       // Invalidate cache to ensure fresh data on next visit
       if (saleId) {
@@ -433,12 +474,12 @@ function ReturnsPageContent() {
                   </TableHeader>
                   <TableBody>
                     {returnItems.map((item) => {
-                      const saleItem = sale?.sale_items.find(si => si.product_id === item.productId)
+                      const saleItem = sale?.sale_items.find(si => si.id === item.saleItemId)
                       const alreadyReturned = saleItem?.returned_quantity || 0
                       const remainingQty = item.maxReturnQty - item.returnQuantity // Reactive remaining quantity
                       
                       return (
-                        <TableRow key={item.productId}>
+                        <TableRow key={item.saleItemId}>
                           <TableCell className="font-medium">
                             <div className="space-y-1">
                               <p className="font-medium">{item.productName}</p>
@@ -461,11 +502,23 @@ function ReturnsPageContent() {
                           </TableCell>
                           <TableCell>৳{item.price.toFixed(2)}</TableCell>
                           <TableCell>
+                            {item.soldSerials ? (
+                              <div className="w-64">
+                                <SerialNumberInput
+                                  value={item.returnSerials}
+                                  onChange={(serials) => updateReturnSerials(item.saleItemId, serials)}
+                                  available={item.soldSerials}
+                                  availableLabel="Sold on this line - click to return"
+                                  disabled={isSubmitting}
+                                  placeholder="Scan the returned units"
+                                />
+                              </div>
+                            ) : (
                             <div className="flex items-center space-x-2">
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => updateReturnQuantity(item.productId, item.returnQuantity - 1)}
+                                onClick={() => updateReturnQuantity(item.saleItemId, item.returnQuantity - 1)}
                                 disabled={item.returnQuantity <= 0 || isSubmitting}
                                 className="h-8 w-8 p-0"
                               >
@@ -476,24 +529,25 @@ function ReturnsPageContent() {
                                 min="0"
                                 max={item.maxReturnQty}
                                 value={item.returnQuantity}
-                                onChange={(e) => updateReturnQuantity(item.productId, parseInt(e.target.value) || 0)}
+                                onChange={(e) => updateReturnQuantity(item.saleItemId, parseInt(e.target.value) || 0)}
                                 className="w-16 text-center"
                                 disabled={isSubmitting}
                               />
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => updateReturnQuantity(item.productId, item.returnQuantity + 1)}
+                                onClick={() => updateReturnQuantity(item.saleItemId, item.returnQuantity + 1)}
                                 disabled={item.returnQuantity >= item.maxReturnQty || isSubmitting}
                                 className="h-8 w-8 p-0"
                               >
                                 <Plus className="h-3 w-3" />
                               </Button>
                             </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             <span className="font-medium">
-                              ৳{(item.returnQuantity * item.price).toFixed(2)}
+                              ৳{(item.returnQuantity * item.refundPrice).toFixed(2)}
                             </span>
                           </TableCell>
                         </TableRow>
@@ -27,9 +27,13 @@ import {
   TrendingUp,
   RotateCcw,
   Tag,
-  Percent
+  Percent,
+  Printer
 } from "lucide-react"
 import { getSaleById } from "@/lib/supabase/sales-client"
+import { formatUnitQuantity, toUnitPrice } from "@/lib/supabase/units-of-measure"
+import { getSalePromotions, type AppliedPromotion } from "@/lib/supabase/promotions"
+import { getCurrencySymbol, isBaseCurrency, toBaseAmount } from "@/lib/supabase/currencies"
 import { SaleWithItems, Customer } from "@/lib/supabase/types"
 
 // Cache and request deduplication for sale details
@@ -93,6 +97,14 @@ export default function SaleDetailPage() {
   const [customer, setCustomer] = React.useState<Customer | null>(null)
   const [loading, setLoading] = React.useState(true)
   const [error, setError] = React.useState<string | null>(null)
+  const [promotions, setPromotions] = React.useState<AppliedPromotion[]>([])
+
+  // Promotions applied to the sale; their discounts are already in the figures above
+  React.useEffect(() => {
+    getSalePromotions(saleId)
+      .then(setPromotions)
+      .catch(error => console.error('Error loading sale promotions:', error))
+  }, [saleId])
 
   React.useEffect(() => {
     async function fetchSaleData() {
@@ -339,6 +351,8 @@ export default function SaleDetailPage() {
   const totalItems = sale.sale_items?.reduce((acc: number, item) => acc + item.quantity, 0) || 0
   const totalReturnedItems = sale.sale_items?.reduce((acc: number, item) => acc + (item.returned_quantity || 0), 0) || 0
   const profit = sale.profit || 0
+  // Sale amounts are in the sale currency
+  const currencySymbol = getCurrencySymbol(sale.currency)
 
   // Check if sale is fully returned (all items returned)
   const isFullyReturned = sale.status === 'returned'
@@ -366,6 +380,12 @@ export default function SaleDetailPage() {
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          <Link href={`/sales/${sale.id}/print`} target="_blank">
+            <Button variant="outline">
+              <Printer className="mr-2 h-4 w-4" />
+              Invoice
+            </Button>
+          </Link>
           {canReturn && (
             <Link href={`/returns?saleId=${sale.id}`}>
               <Button>
@@ -477,7 +497,7 @@ export default function SaleDetailPage() {
               {/* Subtotal */}
               <div className="flex justify-between text-sm">
                 <span>Subtotal:</span>
-                <span className="font-medium">৳{sale.subtotal.toFixed(2)}</span>
+                <span className="font-medium">{currencySymbol}{sale.subtotal.toFixed(2)}</span>
               </div>
               
               {/* Item-level discounts summary */}
@@ -485,7 +505,7 @@ export default function SaleDetailPage() {
                 <div className="flex justify-between text-sm text-green-600">
                   <span>Item Discounts:</span>
                   <span className="font-medium">
-                    -৳{sale.sale_items.reduce((sum, item) => sum + (item.discount || 0), 0).toFixed(2)}
+                    -{currencySymbol}{sale.sale_items.reduce((sum, item) => sum + (item.discount || 0), 0).toFixed(2)}
                   </span>
                 </div>
               )}
@@ -495,25 +515,40 @@ export default function SaleDetailPage() {
                 <div className="flex justify-between text-sm">
                   <span>Total Discount:</span>
                   <span className="font-medium text-green-600">
-                    -৳{sale.total_discount.toFixed(2)}
+                    -{currencySymbol}{sale.total_discount.toFixed(2)}
                   </span>
                 </div>
               )}
               
+              {promotions.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">Promotions applied (included above)</p>
+                  {promotions.map(promotion => (
+                    <div key={promotion.promotion_id || promotion.name} className="flex justify-between text-xs text-green-600">
+                      <span>
+                        {promotion.name}
+                        {promotion.coupon_code && ` (${promotion.coupon_code})`}
+                      </span>
+                      <span>-{currencySymbol}{promotion.discount_amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              
               {/* After Discount - only show if there are any discounts */}
               {sale.after_discount !== sale.subtotal && (
                 <div className="flex justify-between text-sm">
                   <span>After Discount:</span>
-                  <span className="font-medium">৳{sale.after_discount.toFixed(2)}</span>
+                  <span className="font-medium">{currencySymbol}{sale.after_discount.toFixed(2)}</span>
                 </div>
               )}
               
-              {/* Item-level taxes summary */}
+              {/* Item-level taxes summary; tax-inclusive lines carry theirs in the prices */}
               {sale.sale_items?.some(item => item.tax && item.tax > 0) && (
                 <div className="flex justify-between text-sm text-blue-600">
                   <span>Item Taxes:</span>
                   <span className="font-medium">
-                    +৳{sale.sale_items.reduce((sum, item) => sum + (item.tax || 0), 0).toFixed(2)}
+                    {currencySymbol}{sale.sale_items.reduce((sum, item) => sum + (item.tax || 0), 0).toFixed(2)}
                   </span>
                 </div>
               )}
@@ -522,15 +557,21 @@ export default function SaleDetailPage() {
               {sale.tax_rate && sale.tax_rate > 0 && (
                 <div className="flex justify-between text-sm">
                   <span>Tax ({sale.tax_rate}%):</span>
-                  <span className="font-medium text-blue-600">+৳{sale.tax_amount?.toFixed(2)}</span>
+                  <span className="font-medium text-blue-600">+{currencySymbol}{sale.tax_amount?.toFixed(2)}</span>
                 </div>
               )}
               
               {/* Total Amount */}
               <div className="flex justify-between items-center text-lg font-bold border-t pt-3 mt-3">
                 <span>Total:</span>
-                <span className="text-green-600">৳{sale.total_amount.toFixed(2)}</span>
+                <span className="text-green-600">{currencySymbol}{sale.total_amount.toFixed(2)}</span>
               </div>
+              {!isBaseCurrency(sale.currency) && (
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>{sale.currency} at ৳{Number(sale.exchange_rate)}</span>
+                  <span>৳{toBaseAmount(sale.total_amount, sale.exchange_rate).toFixed(2)}</span>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -684,19 +725,19 @@ export default function SaleDetailPage() {
                       <div className="text-center">
                         <div className="text-xs text-muted-foreground mb-1">Quantity</div>
                         <div className={`font-semibold text-sm ${isFullyReturnedItem ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
-                          {item.quantity}
+                          {formatUnitQuantity(item.quantity, item.unit_factor, item.unit_name)}
                         </div>
                       </div>
                       <div className="text-center">
                         <div className="text-xs text-muted-foreground mb-1">Unit Price</div>
                         <div className={`font-semibold text-sm ${isFullyReturnedItem ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
-                          ৳{item.price.toFixed(2)}
+                          {currencySymbol}{toUnitPrice(item.price, item.unit_factor).toFixed(2)}
                         </div>
                       </div>
                       <div className="text-center">
                         <div className="text-xs text-muted-foreground mb-1">Total</div>
                         <div className={`font-semibold text-sm ${isFullyReturnedItem ? 'text-gray-500 line-through' : 'text-green-600'}`}>
-                        ৳{(item.total || 0).toFixed(2)}
+                        {currencySymbol}{(item.total || 0).toFixed(2)}
                         </div>
                       </div>
                     </div>
@@ -717,7 +758,7 @@ export default function SaleDetailPage() {
               </p>
             </div>
             <div className="text-right space-y-1">
-              <p className="text-2xl font-bold">৳{sale.total_amount.toFixed(2)}</p>
+              <p className="text-2xl font-bold">{currencySymbol}{sale.total_amount.toFixed(2)}</p>
               <p className="text-sm text-muted-foreground">Grand Total</p>
             </div>
           </div>
@@ -0,0 +1,160 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import PrintButton from "@/components/sales/PrintButton"
+import DocumentLetterhead from "@/components/sales/DocumentLetterhead"
+import { getInvoiceDocument } from "@/lib/supabase/documents"
+
+interface InvoicePrintPageProps {
+  params: Promise<{ id: string }>
+}
+
+const formatCurrency = (amount: number) => {
+  return '৳' + new Intl.NumberFormat('en-BD', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount)
+}
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-BD', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+const formatPaymentMethod = (method: string) => {
+  return method.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+}
+
+// The page title becomes the file name when the invoice is saved as a PDF
+export async function generateMetadata({ params }: InvoicePrintPageProps): Promise<Metadata> {
+  const { id } = await params
+  return { title: `Invoice ${id}` }
+}
+
+export default async function InvoicePrintPage({ params }: InvoicePrintPageProps) {
+  const { id } = await params
+  const invoice = await getInvoiceDocument(id)
+
+  if (!invoice) notFound()
+
+  const { company, sale, customer, lines, payments } = invoice
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <div className="mx-auto max-w-3xl py-6 print:py-0 flex justify-end print:hidden">
+        <PrintButton />
+      </div>
+
+      <div className="mx-auto max-w-3xl bg-white p-10 shadow print:shadow-none print:p-0 text-sm text-gray-900">
+        <DocumentLetterhead company={company} title="INVOICE">
+          <div className="mt-1"># {sale.id}</div>
+          <div className="text-gray-600">Date: {formatDate(sale.sale_date)}</div>
+          {sale.salesperson && <div className="text-gray-600">Salesperson: {sale.salesperson}</div>}
+          {invoice.balance_due <= 0 && (
+            <div className="mt-2 inline-block border-2 border-green-700 px-2 py-0.5 font-bold text-green-700">PAID</div>
+          )}
+        </DocumentLetterhead>
+
+        {/* Customer */}
+        <div className="py-6">
+          <div className="text-xs uppercase text-gray-500 mb-1">Bill to</div>
+          <div className="font-semibold">{customer?.name || sale.customer_name}</div>
+          {customer?.company && <div className="text-gray-600">{customer.company}</div>}
+          {customer?.address && <div className="text-gray-600">{customer.address}</div>}
+          {customer?.phone && <div className="text-gray-600">{customer.phone}</div>}
+          {customer?.email && <div className="text-gray-600">{customer.email}</div>}
+        </div>
+
+        {/* Lines */}
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b-2 border-gray-800 text-left">
+              <th className="py-2">#</th>
+              <th className="py-2">Item</th>
+              <th className="py-2 text-right">Qty</th>
+              <th className="py-2 text-right">Unit Price</th>
+              <th className="py-2 text-right">Discount</th>
+              <th className="py-2 text-right">Tax</th>
+              <th className="py-2 text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line, index) => (
+              <tr key={line.id} className="border-b">
+                <td className="py-2 align-top">{index + 1}</td>
+                <td className="py-2">
+                  <div className="font-medium">{line.product_name}</div>
+                  {line.variation_name && <div className="text-xs text-gray-600">{line.variation_name}</div>}
+                  {line.packaging_name && <div className="text-xs text-gray-500">Packaging: {line.packaging_name}</div>}
+                  {line.returned_quantity > 0 && (
+                    <div className="text-xs text-gray-500">{line.returned_quantity} of {line.quantity} returned</div>
+                  )}
+                </td>
+                <td className="py-2 text-right align-top">{line.quantity}{line.unit_name ? ` ${line.unit_name}` : ''}</td>
+                <td className="py-2 text-right align-top">
+                  {formatCurrency(line.price)}
+                  {line.unit_name && <div className="text-xs text-gray-500">per {line.unit_name}</div>}
+                </td>
+                <td className="py-2 text-right align-top">{line.discount > 0 ? formatCurrency(line.discount) : '—'}</td>
+                <td className="py-2 text-right align-top">{line.tax > 0 ? formatCurrency(line.tax) : '—'}</td>
+                <td className="py-2 text-right align-top">{formatCurrency(line.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Totals */}
+        <div className="mt-6 ml-auto w-64 space-y-1">
+          <div className="flex justify-between"><span>Subtotal</span><span>{formatCurrency(sale.subtotal)}</span></div>
+          {sale.total_discount > 0 && (
+            <div className="flex justify-between"><span>Discount</span><span>-{formatCurrency(sale.total_discount)}</span></div>
+          )}
+          {sale.tax_amount > 0 && (
+            <div className="flex justify-between"><span>{sale.tax_rate ? `Tax (${sale.tax_rate}%)` : 'Tax'}</span><span>{formatCurrency(sale.tax_amount)}</span></div>
+          )}
+          <div className="flex justify-between border-t-2 border-gray-800 pt-2 text-base font-bold">
+            <span>Total</span><span>{formatCurrency(sale.total_amount)}</span>
+          </div>
+          <div className="flex justify-between"><span>Paid</span><span>-{formatCurrency(invoice.amount_paid)}</span></div>
+          {invoice.amount_returned > 0 && (
+            <div className="flex justify-between"><span>Returned</span><span>-{formatCurrency(invoice.amount_returned)}</span></div>
+          )}
+          <div className="flex justify-between border-t pt-2 font-semibold">
+            <span>Balance Due</span><span>{formatCurrency(invoice.balance_due)}</span>
+          </div>
+        </div>
+
+        {/* Payment history */}
+        <div className="mt-8">
+          <div className="text-xs uppercase text-gray-500 mb-2">Payment history</div>
+          {payments.length > 0 ? (
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-1">Date</th>
+                  <th className="py-1">Method</th>
+                  <th className="py-1">Notes</th>
+                  <th className="py-1 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {payments.map(payment => (
+                  <tr key={payment.id} className="border-b">
+                    <td className="py-1">{formatDate(payment.payment_date)}</td>
+                    <td className="py-1">{formatPaymentMethod(payment.payment_method)}</td>
+                    <td className="py-1 text-gray-600">{payment.notes || ''}</td>
+                    <td className="py-1 text-right">{formatCurrency(payment.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-600">No payments recorded.</p>
+          )}
+        </div>
+
+        <div className="mt-12 border-t pt-4 text-xs text-gray-500 whitespace-pre-line">
+          {company.invoice_footer || 'Thank you for your business.'}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -31,6 +31,7 @@ import {
 } from "lucide-react"
 import { type Customer } from "@/lib/supabase/types"
 import { getCustomerById } from "@/lib/supabase/sales-client"
+import CustomerReceivables from "@/components/sales/CustomerReceivables"
 
 export default function CustomerDetailPage() {
   const params = useParams()
@@ -342,6 +343,9 @@ export default function CustomerDetailPage() {
         </div>
       </div>
 
+      {/* Receivables */}
+      <CustomerReceivables customerId={customer.id} />
+
       {/* Order History */}
       <Card>
         <CardHeader>
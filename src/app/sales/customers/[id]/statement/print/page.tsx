@@ -0,0 +1,146 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import PrintButton from "@/components/sales/PrintButton"
+import DocumentLetterhead from "@/components/sales/DocumentLetterhead"
+import { getStatementDocument } from "@/lib/supabase/documents"
+import { AGING_BUCKETS } from "@/lib/utils/aging"
+import { BASE_CURRENCY, getCurrencySymbol } from "@/lib/supabase/currencies"
+
+interface StatementPrintPageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ from?: string; to?: string }>
+}
+
+const formatCurrency = (amount: number, currency: string = BASE_CURRENCY) => {
+  return getCurrencySymbol(currency) + new Intl.NumberFormat('en-BD', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount)
+}
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-BD', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+// Only YYYY-MM-DD dates are used to bound the statement
+const parseDateParam = (value?: string) => {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined
+}
+
+export async function generateMetadata({ params }: StatementPrintPageProps): Promise<Metadata> {
+  const { id } = await params
+  return { title: `Statement ${id}` }
+}
+
+export default async function StatementPrintPage({ params, searchParams }: StatementPrintPageProps) {
+  const { id } = await params
+  const query = await searchParams
+  const from = parseDateParam(query.from)
+  const to = parseDateParam(query.to)
+
+  const statementDocument = await getStatementDocument(id, from, to)
+
+  if (!statementDocument) notFound()
+
+  const { company, customer, statement, aging } = statementDocument
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <div className="mx-auto max-w-3xl py-6 print:py-0 flex justify-end print:hidden">
+        <PrintButton />
+      </div>
+
+      <div className="mx-auto max-w-3xl bg-white p-10 shadow print:shadow-none print:p-0 text-sm text-gray-900">
+        <DocumentLetterhead company={company} title="STATEMENT">
+          <div className="mt-1 text-gray-600">Date: {formatDate(new Date().toISOString())}</div>
+          <div className="text-gray-600">
+            Period: {from ? formatDate(from) : 'Beginning'} – {to ? formatDate(to) : 'Today'}
+          </div>
+        </DocumentLetterhead>
+
+        {/* Customer */}
+        <div className="py-6 flex items-start justify-between">
+          <div>
+            <div className="text-xs uppercase text-gray-500 mb-1">Statement for</div>
+            <div className="font-semibold">{customer.name}</div>
+            {customer.company && <div className="text-gray-600">{customer.company}</div>}
+            {customer.address && <div className="text-gray-600">{customer.address}</div>}
+            {customer.phone && <div className="text-gray-600">{customer.phone}</div>}
+            {customer.email && <div className="text-gray-600">{customer.email}</div>}
+          </div>
+          <div className="text-right">
+            <div className="text-xs uppercase text-gray-500 mb-1">Balance</div>
+            <div className="text-xl font-bold">{formatCurrency(statement.closing_balance, statement.currency)}</div>
+          </div>
+        </div>
+
+        {/* Activity */}
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b-2 border-gray-800 text-left">
+              <th className="py-2">Date</th>
+              <th className="py-2">Description</th>
+              <th className="py-2 text-right">Debit</th>
+              <th className="py-2 text-right">Credit</th>
+              <th className="py-2 text-right">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b">
+              <td className="py-2" colSpan={4}>Opening balance</td>
+              <td className="py-2 text-right">{formatCurrency(statement.opening_balance, statement.currency)}</td>
+            </tr>
+            {statement.entries.length > 0 ? (
+              statement.entries.map(entry => (
+                <tr key={`${entry.type}-${entry.reference}`} className="border-b">
+                  <td className="py-2 whitespace-nowrap">{formatDate(entry.date)}</td>
+                  <td className="py-2">{entry.description}</td>
+                  <td className="py-2 text-right">{entry.debit > 0 ? formatCurrency(entry.debit, statement.currency) : ''}</td>
+                  <td className="py-2 text-right">{entry.credit > 0 ? formatCurrency(entry.credit, statement.currency) : ''}</td>
+                  <td className="py-2 text-right">{formatCurrency(entry.balance, statement.currency)}</td>
+                </tr>
+              ))
+            ) : (
+              <tr className="border-b">
+                <td className="py-2 text-gray-600" colSpan={5}>No activity in this period.</td>
+              </tr>
+            )}
+            <tr className="border-t-2 border-gray-800 font-bold">
+              <td className="py-2" colSpan={2}>Closing balance</td>
+              <td className="py-2 text-right">{formatCurrency(statement.total_debits, statement.currency)}</td>
+              <td className="py-2 text-right">{formatCurrency(statement.total_credits, statement.currency)}</td>
+              <td className="py-2 text-right">{formatCurrency(statement.closing_balance, statement.currency)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        {/* Aging */}
+        <div className="mt-8">
+          <div className="text-xs uppercase text-gray-500 mb-2">Amount due by age (as of today)</div>
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b text-right">
+                {AGING_BUCKETS.map(bucket => (
+                  <th key={bucket.key} className="py-1">{bucket.label}</th>
+                ))}
+                <th className="py-1">Total Due</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="text-right">
+                {AGING_BUCKETS.map(bucket => (
+                  <td key={bucket.key} className="py-1">{formatCurrency(aging[bucket.key], statement.currency)}</td>
+                ))}
+                <td className="py-1 font-semibold">{formatCurrency(aging.total, statement.currency)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-12 border-t pt-4 text-xs text-gray-500 whitespace-pre-line">
+          {company.invoice_footer || 'Thank you for your business.'}
+        </div>
+      </div>
+    </div>
+  )
+}
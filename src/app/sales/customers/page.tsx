@@ -25,6 +25,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -56,7 +63,8 @@ import {
   ChevronRight,
   MoreHorizontal,
   Building2,
-  MapPin
+  MapPin,
+  Tags
 } from "lucide-react"
 import { 
   getCustomers, 
@@ -65,18 +73,27 @@ import {
   deleteCustomer, 
   type Customer 
 } from "@/lib/supabase/sales-client"
+import { getPriceLists, type PriceListSummary } from "@/lib/supabase/price-lists"
+import { BASE_CURRENCY, getCurrencies } from "@/lib/supabase/currencies"
 import { toast } from "sonner"
 
+// Select value for customers sold at product prices
+const NO_PRICE_LIST = 'none'
+
 interface CustomerFormData {
   name: string
   email: string
   phone: string
   company: string
   address: string
+  priceListId: string
+  currency: string
 }
 
 export default function CustomersPage() {
   const [customers, setCustomers] = React.useState<Customer[]>([])
+  const [priceLists, setPriceLists] = React.useState<PriceListSummary[]>([])
+  const [currencies, setCurrencies] = React.useState<string[]>([BASE_CURRENCY])
   const [isLoading, setIsLoading] = React.useState(true)
   const [searchTerm, setSearchTerm] = React.useState("")
   const [isAddDialogOpen, setIsAddDialogOpen] = React.useState(false)
@@ -94,7 +111,9 @@ export default function CustomersPage() {
     email: '',
     phone: '',
     company: '',
-    address: ''
+    address: '',
+    priceListId: NO_PRICE_LIST,
+    currency: BASE_CURRENCY
   })
 
   // Fetch customers data
@@ -117,6 +136,24 @@ export default function CustomersPage() {
     fetchCustomers()
   }, [])
 
+  // Price lists customers can be assigned to
+  React.useEffect(() => {
+    getPriceLists()
+      .then(setPriceLists)
+      .catch(error => {
+        console.error('Error fetching price lists:', error)
+        toast.error('Failed to load price lists')
+      })
+    getCurrencies()
+      .then(setCurrencies)
+      .catch(error => {
+        console.error('Error fetching currencies:', error)
+      })
+  }, [])
+
+  const getPriceListName = (priceListId: string | null) =>
+    priceLists.find(priceList => priceList.id === priceListId)?.name
+
   const filteredCustomers = customers.filter(customer => {
     const matchesSearch = customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (customer.email || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -142,7 +179,9 @@ export default function CustomersPage() {
       email: '',
       phone: '',
       company: '',
-      address: ''
+      address: '',
+      priceListId: NO_PRICE_LIST,
+      currency: BASE_CURRENCY
     })
   }
 
@@ -161,6 +200,8 @@ export default function CustomersPage() {
         phone: formData.phone || null,
         company: formData.company || null,
         address: formData.address || null,
+        price_list_id: formData.priceListId === NO_PRICE_LIST ? null : formData.priceListId,
+        currency: formData.currency,
         status: 'active'
       })
       
@@ -194,7 +235,9 @@ export default function CustomersPage() {
         email: formData.email || null,
         phone: formData.phone || null,
         company: formData.company || null,
-        address: formData.address || null
+        address: formData.address || null,
+        price_list_id: formData.priceListId === NO_PRICE_LIST ? null : formData.priceListId,
+        currency: formData.currency
       })
       
       // Import apiCache to invalidate the cache
@@ -246,7 +289,9 @@ export default function CustomersPage() {
       email: customer.email || '',
       phone: customer.phone || '',
       company: customer.company || '',
-      address: customer.address || ''
+      address: customer.address || '',
+      priceListId: customer.price_list_id || NO_PRICE_LIST,
+      currency: customer.currency || BASE_CURRENCY
     })
     setIsEditDialogOpen(true)
   }
@@ -439,6 +484,43 @@ export default function CustomersPage() {
                     onChange={(e) => setFormData({ ...formData, address: e.target.value })}
                   />
                 </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="add-price-list" className="text-right">Price List</Label>
+                  <Select
+                    value={formData.priceListId}
+                    onValueChange={(value) => setFormData({ ...formData, priceListId: value })}
+                  >
+                    <SelectTrigger id="add-price-list" className="col-span-3">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PRICE_LIST}>Product prices</SelectItem>
+                      {priceLists.map(priceList => (
+                        <SelectItem key={priceList.id} value={priceList.id}>
+                          {priceList.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="add-currency" className="text-right">Currency</Label>
+                  <Select
+                    value={formData.currency}
+                    onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                  >
+                    <SelectTrigger id="add-currency" className="col-span-3">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([...currencies, formData.currency])).map(currency => (
+                        <SelectItem key={currency} value={currency}>
+                          {currency}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
@@ -567,6 +649,12 @@ export default function CustomersPage() {
                               {customer.company}
                             </div>
                           )}
+                          {getPriceListName(customer.price_list_id) && (
+                            <div className="text-sm text-muted-foreground flex items-center">
+                              <Tags className="mr-1 h-3 w-3" />
+                              {getPriceListName(customer.price_list_id)}
+                            </div>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -770,6 +858,43 @@ export default function CustomersPage() {
                   onChange={(e) => setFormData({ ...formData, address: e.target.value })}
                 />
               </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="edit-price-list" className="text-right">Price List</Label>
+                <Select
+                  value={formData.priceListId}
+                  onValueChange={(value) => setFormData({ ...formData, priceListId: value })}
+                >
+                  <SelectTrigger id="edit-price-list" className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PRICE_LIST}>Product prices</SelectItem>
+                    {priceLists.map(priceList => (
+                      <SelectItem key={priceList.id} value={priceList.id}>
+                        {priceList.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="edit-currency" className="text-right">Currency</Label>
+                <Select
+                  value={formData.currency}
+                  onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                >
+                  <SelectTrigger id="edit-currency" className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(new Set([...currencies, formData.currency])).map(currency => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
@@ -0,0 +1,467 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ArrowLeft, Printer, Send, CheckCircle, XCircle, Truck, User, Warehouse, Calendar, FileText } from "lucide-react"
+import { toast } from "sonner"
+import { SalesOrderTimeline } from "@/components/SalesOrderTimeline"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import { getPaymentMethodAccounts } from "@/lib/supabase/accounts-client"
+import { getSalePaymentMethodForAccountType, POST_SALE_ERROR_MESSAGES, type SaleEvent } from "@/lib/supabase/sales-client"
+import { invalidateSalesCache } from "@/lib/hooks/useSalesData"
+import { formatUnitQuantity, toUnitPrice } from "@/lib/supabase/units-of-measure"
+import type { AccountWithCategory } from "@/lib/supabase/types/accounting"
+import {
+  getSalesOrderById,
+  getSalesOrderTimeline,
+  getSalesForOrder,
+  markQuotationSent,
+  convertQuotationToOrder,
+  fulfilSalesOrder,
+  cancelSalesOrder,
+  isQuotationExpired,
+  getOutstandingQuantity,
+  SALES_ORDER_STATUS_LABELS,
+  SALES_ORDER_STATUS_COLORS,
+  type SalesOrderWithItems
+} from "@/lib/supabase/sales-orders"
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+type OrderSale = Awaited<ReturnType<typeof getSalesForOrder>>[number]
+
+export default function SalesOrderDetailPage() {
+  const params = useParams()
+  const router = useRouter()
+  const id = params.id as string
+  const { user } = useCurrentUser()
+  const createdBy = user?.name || 'system'
+
+  const [salesOrder, setSalesOrder] = React.useState<SalesOrderWithItems | null>(null)
+  const [timeline, setTimeline] = React.useState<SaleEvent[]>([])
+  const [sales, setSales] = React.useState<OrderSale[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [working, setWorking] = React.useState(false)
+
+  // Delivery dialog state
+  const [deliverOpen, setDeliverOpen] = React.useState(false)
+  const [deliverQuantities, setDeliverQuantities] = React.useState<Record<string, number>>({})
+  const [paymentAccounts, setPaymentAccounts] = React.useState<AccountWithCategory[]>([])
+  const [paymentAccountId, setPaymentAccountId] = React.useState('none')
+
+  // Cancel dialog state
+  const [cancelOpen, setCancelOpen] = React.useState(false)
+  const [cancelReason, setCancelReason] = React.useState('')
+
+  const load = React.useCallback(async () => {
+    try {
+      const order = await getSalesOrderById(id)
+      setSalesOrder(order)
+      if (order) {
+        const [events, orderSales] = await Promise.all([
+          getSalesOrderTimeline(id),
+          order.document_type === 'order' ? getSalesForOrder(id) : Promise.resolve([])
+        ])
+        setTimeline(events)
+        setSales(orderSales)
+      }
+    } catch (error) {
+      console.error('Error loading sales order:', error)
+      toast.error('Failed to load sales order')
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  React.useEffect(() => {
+    load()
+  }, [load])
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setWorking(true)
+      await action()
+      toast.success(successMessage)
+      await load()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Action failed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleConvert = async () => {
+    try {
+      setWorking(true)
+      const order = await convertQuotationToOrder(id, createdBy)
+      toast.success(`Sales order ${order.id} created and stock reserved`)
+      router.push(`/sales/orders/${order.id}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to convert quotation')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const openDeliverDialog = async () => {
+    if (!salesOrder) return
+    setDeliverQuantities(Object.fromEntries(
+      salesOrder.sales_order_items.map(item => [item.id, getOutstandingQuantity(item)])
+    ))
+    setPaymentAccountId('none')
+    setDeliverOpen(true)
+    if (paymentAccounts.length === 0) {
+      try {
+        setPaymentAccounts(await getPaymentMethodAccounts())
+      } catch (error) {
+        console.error('Error loading payment methods:', error)
+      }
+    }
+  }
+
+  const handleDeliver = async () => {
+    if (!salesOrder) return
+
+    const account = paymentAccounts.find(a => a.id === paymentAccountId)
+    try {
+      setWorking(true)
+      const result = await fulfilSalesOrder(
+        salesOrder.id,
+        Object.entries(deliverQuantities).map(([sales_order_item_id, quantity]) => ({ sales_order_item_id, quantity })),
+        account ? {
+          account_id: account.id,
+          payment_method: getSalePaymentMethodForAccountType(account.payment_method_type)
+        } : null,
+        createdBy
+      )
+
+      if (!result.success) {
+        toast.error(`${POST_SALE_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+        return
+      }
+
+      invalidateSalesCache()
+      toast.success(`Sale ${result.sale_id} posted`)
+      setDeliverOpen(false)
+      await load()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to deliver order')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-6 p-6">
+        <Skeleton className="h-9 w-64" />
+        <div className="grid gap-6 md:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, index) => <Skeleton key={index} className="h-32" />)}
+        </div>
+        <Skeleton className="h-64" />
+      </div>
+    )
+  }
+
+  if (!salesOrder) {
+    return (
+      <div className="flex-1 space-y-6 p-6">
+        <Link href="/sales/orders">
+          <Button variant="ghost" size="sm"><ArrowLeft className="h-4 w-4 mr-2" />Back</Button>
+        </Link>
+        <p className="text-muted-foreground">Sales order not found.</p>
+      </div>
+    )
+  }
+
+  const isQuotation = salesOrder.document_type === 'quotation'
+  const expired = isQuotationExpired(salesOrder)
+  const status = expired ? 'expired' : salesOrder.status
+  const canSend = isQuotation && !expired && salesOrder.status === 'draft'
+  const canConvert = isQuotation && !expired && ['draft', 'sent'].includes(salesOrder.status)
+  const canDeliver = !isQuotation && ['open', 'partially_fulfilled'].includes(salesOrder.status)
+  const canCancel = isQuotation ? canConvert : canDeliver
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/sales/orders">
+            <Button variant="ghost" size="sm"><ArrowLeft className="h-4 w-4" /></Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              {isQuotation ? 'Quotation' : 'Sales Order'} {salesOrder.id}
+              <Badge className={SALES_ORDER_STATUS_COLORS[status as keyof typeof SALES_ORDER_STATUS_COLORS] || ''}>
+                {SALES_ORDER_STATUS_LABELS[status as keyof typeof SALES_ORDER_STATUS_LABELS] || status}
+              </Badge>
+            </h1>
+            {salesOrder.quotation_id && (
+              <p className="text-muted-foreground">
+                From quotation <Link href={`/sales/orders/${salesOrder.quotation_id}`} className="underline">{salesOrder.quotation_id}</Link>
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Link href={`/sales/orders/${salesOrder.id}/print`} target="_blank">
+            <Button variant="outline" size="sm"><Printer className="h-4 w-4 mr-2" />Print</Button>
+          </Link>
+          {canSend && (
+            <Button variant="outline" size="sm" disabled={working} onClick={() => runAction(() => markQuotationSent(salesOrder.id, createdBy), 'Quotation marked as sent')}>
+              <Send className="h-4 w-4 mr-2" />Mark as Sent
+            </Button>
+          )}
+          {canConvert && (
+            <Button size="sm" disabled={working} onClick={handleConvert}>
+              <CheckCircle className="h-4 w-4 mr-2" />Convert to Order
+            </Button>
+          )}
+          {canDeliver && (
+            <Button size="sm" disabled={working} onClick={openDeliverDialog}>
+              <Truck className="h-4 w-4 mr-2" />Deliver
+            </Button>
+          )}
+          {canCancel && (
+            <Button variant="outline" size="sm" disabled={working} onClick={() => setCancelOpen(true)} className="text-red-600">
+              <XCircle className="h-4 w-4 mr-2" />Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2"><User className="h-4 w-4" />Customer</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-lg font-semibold">{salesOrder.customer_name}</div>
+            {salesOrder.customer_id && (
+              <Link href={`/sales/customers/${salesOrder.customer_id}`} className="text-sm text-muted-foreground underline">View customer</Link>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2"><Warehouse className="h-4 w-4" />Warehouse</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-lg font-semibold">{salesOrder.warehouse_name || '—'}</div>
+            {!isQuotation && <p className="text-sm text-muted-foreground">Stock for outstanding lines is reserved here</p>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2"><Calendar className="h-4 w-4" />Dates</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm space-y-1">
+            <div>{isQuotation ? 'Quoted' : 'Ordered'}: {new Date(salesOrder.order_date).toLocaleDateString()}</div>
+            {isQuotation && salesOrder.expiry_date && (
+              <div className={expired ? 'text-red-600 font-medium' : ''}>
+                Valid until: {new Date(salesOrder.expiry_date).toLocaleDateString()}
+              </div>
+            )}
+            {salesOrder.salesperson && <div className="text-muted-foreground">By {salesOrder.salesperson}</div>}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Lines */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><FileText className="h-5 w-5" />Items</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Packaging</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                {!isQuotation && <TableHead className="text-right">Reserved</TableHead>}
+                {!isQuotation && <TableHead className="text-right">Delivered</TableHead>}
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Discount</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {salesOrder.sales_order_items.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{item.product_name}</TableCell>
+                  <TableCell>{item.packaging_name || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {formatUnitQuantity(item.quantity, item.unit_factor, item.unit_name)}
+                    {item.unit_factor > 1 && <div className="text-xs text-muted-foreground">{item.quantity} in base unit</div>}
+                  </TableCell>
+                  {!isQuotation && <TableCell className="text-right">{item.reserved_quantity}</TableCell>}
+                  {!isQuotation && <TableCell className="text-right">{item.fulfilled_quantity}</TableCell>}
+                  <TableCell className="text-right">{formatCurrency(toUnitPrice(item.price, item.unit_factor))}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.discount || 0)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(item.total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="mt-6 ml-auto max-w-xs space-y-2 text-sm">
+            <div className="flex justify-between"><span>Subtotal</span><span>{formatCurrency(salesOrder.subtotal)}</span></div>
+            {(salesOrder.total_discount || 0) > 0 && (
+              <div className="flex justify-between text-red-600"><span>Discount</span><span>-{formatCurrency(salesOrder.total_discount || 0)}</span></div>
+            )}
+            {(salesOrder.tax_amount || 0) > 0 && (
+              <div className="flex justify-between"><span>{salesOrder.tax_rate ? `Tax (${salesOrder.tax_rate}%)` : 'Tax'}</span><span>{formatCurrency(salesOrder.tax_amount || 0)}</span></div>
+            )}
+            <div className="flex justify-between border-t pt-2 text-base font-bold"><span>Total</span><span>{formatCurrency(salesOrder.total_amount)}</span></div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {!isQuotation && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Deliveries</CardTitle>
+              <CardDescription>Sales posted against this order</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sales.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing delivered yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sale</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sales.map(sale => (
+                      <TableRow key={sale.id}>
+                        <TableCell><Link href={`/sales/${sale.id}`} className="underline">{sale.id}</Link></TableCell>
+                        <TableCell>{sale.sale_date ? new Date(sale.sale_date).toLocaleDateString() : '—'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(sale.total_amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+        <SalesOrderTimeline events={timeline} />
+      </div>
+
+      {/* Deliver dialog */}
+      <Dialog open={deliverOpen} onOpenChange={setDeliverOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Deliver Order</DialogTitle>
+            <DialogDescription>Enter the quantities being delivered now. A sale is posted for them and their reservation is used up.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {salesOrder.sales_order_items.filter(item => getOutstandingQuantity(item) > 0).map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{item.product_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {item.packaging_name ? `${item.packaging_name} • ` : ''}{getOutstandingQuantity(item)} outstanding
+                    {item.unit_factor > 1 ? ` • ${item.unit_factor} per ${item.unit_name}` : ''}
+                  </div>
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={getOutstandingQuantity(item)}
+                  className="w-24"
+                  value={deliverQuantities[item.id] ?? 0}
+                  onChange={(e) => setDeliverQuantities({
+                    ...deliverQuantities,
+                    [item.id]: Math.min(getOutstandingQuantity(item), Math.max(0, parseInt(e.target.value) || 0))
+                  })}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label>Payment received now</Label>
+              <Select value={paymentAccountId} onValueChange={setPaymentAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No payment" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No payment (on account)</SelectItem>
+                  {paymentAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.account_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeliverOpen(false)} disabled={working}>Cancel</Button>
+            <Button onClick={handleDeliver} disabled={working || Object.values(deliverQuantities).every(quantity => quantity <= 0)}>
+              {working ? 'Posting...' : 'Post Sale'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel dialog */}
+      <Dialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {isQuotation ? 'Quotation' : 'Order'}</DialogTitle>
+            <DialogDescription>
+              {isQuotation ? 'The quotation can no longer be converted.' : 'Any stock still reserved for this order is released.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancelReason">Reason</Label>
+            <Textarea id="cancelReason" value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelOpen(false)} disabled={working}>Back</Button>
+            <Button
+              variant="destructive"
+              disabled={working}
+              onClick={async () => {
+                await runAction(() => cancelSalesOrder(salesOrder.id, cancelReason || undefined, createdBy), `${isQuotation ? 'Quotation' : 'Order'} cancelled`)
+                setCancelOpen(false)
+              }}
+            >
+              Cancel {isQuotation ? 'Quotation' : 'Order'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
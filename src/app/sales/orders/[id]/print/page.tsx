@@ -0,0 +1,148 @@
+"use client"
+
+import * as React from "react"
+import { useParams } from "next/navigation"
+import { Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { getCustomerById, type Customer } from "@/lib/supabase/sales-client"
+import { getSalesOrderById, isQuotationExpired, type SalesOrderWithItems } from "@/lib/supabase/sales-orders"
+import { formatUnitQuantity, toUnitPrice } from "@/lib/supabase/units-of-measure"
+import { getCompanySettings, DEFAULT_COMPANY_SETTINGS, type CompanySettings } from "@/lib/supabase/company-settings"
+import DocumentLetterhead from "@/components/sales/DocumentLetterhead"
+
+const formatCurrency = (amount: number) => {
+  return '৳' + new Intl.NumberFormat('en-BD', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount)
+}
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-BD', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+export default function PrintSalesOrderPage() {
+  const params = useParams()
+  const id = params.id as string
+
+  const [salesOrder, setSalesOrder] = React.useState<SalesOrderWithItems | null>(null)
+  const [customer, setCustomer] = React.useState<Customer | null>(null)
+  const [company, setCompany] = React.useState<CompanySettings>(DEFAULT_COMPANY_SETTINGS)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    async function load() {
+      try {
+        const [order, settings] = await Promise.all([getSalesOrderById(id), getCompanySettings()])
+        setSalesOrder(order)
+        setCompany(settings)
+        if (order?.customer_id) {
+          setCustomer(await getCustomerById(order.customer_id))
+        }
+      } catch (error) {
+        console.error('Error loading document for print:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [id])
+
+  if (loading) {
+    return <div className="p-8 text-muted-foreground">Loading...</div>
+  }
+
+  if (!salesOrder) {
+    return <div className="p-8 text-muted-foreground">Document not found.</div>
+  }
+
+  const isQuotation = salesOrder.document_type === 'quotation'
+  const title = isQuotation ? 'QUOTATION' : 'SALES ORDER'
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <div className="mx-auto max-w-3xl py-6 print:py-0 flex justify-end print:hidden">
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      <div className="mx-auto max-w-3xl bg-white p-10 shadow print:shadow-none print:p-0 text-sm text-gray-900">
+        {/* Letterhead */}
+        <DocumentLetterhead company={company} title={title}>
+          <div className="mt-1"># {salesOrder.id}</div>
+          <div className="text-gray-600">Date: {formatDate(salesOrder.order_date)}</div>
+          {isQuotation && salesOrder.expiry_date && (
+            <div className="text-gray-600">Valid until: {formatDate(salesOrder.expiry_date)}</div>
+          )}
+        </DocumentLetterhead>
+
+        {/* Customer */}
+        <div className="py-6">
+          <div className="text-xs uppercase text-gray-500 mb-1">{isQuotation ? 'Prepared for' : 'Customer'}</div>
+          <div className="font-semibold">{salesOrder.customer_name}</div>
+          {customer?.address && <div className="text-gray-600">{customer.address}</div>}
+          {customer?.phone && <div className="text-gray-600">{customer.phone}</div>}
+          {customer?.email && <div className="text-gray-600">{customer.email}</div>}
+        </div>
+
+        {/* Lines */}
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b-2 border-gray-800 text-left">
+              <th className="py-2">#</th>
+              <th className="py-2">Item</th>
+              <th className="py-2 text-right">Qty</th>
+              <th className="py-2 text-right">Unit Price</th>
+              <th className="py-2 text-right">Discount</th>
+              <th className="py-2 text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {salesOrder.sales_order_items.map((item, index) => (
+              <tr key={item.id} className="border-b">
+                <td className="py-2 align-top">{index + 1}</td>
+                <td className="py-2">
+                  <div className="font-medium">{item.product_name}</div>
+                  {item.packaging_name && <div className="text-xs text-gray-500">Packaging: {item.packaging_name}</div>}
+                </td>
+                <td className="py-2 text-right align-top">{formatUnitQuantity(item.quantity, item.unit_factor, item.unit_name)}</td>
+                <td className="py-2 text-right align-top">{formatCurrency(toUnitPrice(item.price, item.unit_factor))}</td>
+                <td className="py-2 text-right align-top">{(item.discount || 0) > 0 ? formatCurrency(item.discount || 0) : '—'}</td>
+                <td className="py-2 text-right align-top">{formatCurrency(item.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Totals */}
+        <div className="mt-6 ml-auto w-64 space-y-1">
+          <div className="flex justify-between"><span>Subtotal</span><span>{formatCurrency(salesOrder.subtotal)}</span></div>
+          {(salesOrder.total_discount || 0) > 0 && (
+            <div className="flex justify-between"><span>Discount</span><span>-{formatCurrency(salesOrder.total_discount || 0)}</span></div>
+          )}
+          {(salesOrder.tax_amount || 0) > 0 && (
+            <div className="flex justify-between"><span>{salesOrder.tax_rate ? `Tax (${salesOrder.tax_rate}%)` : 'Tax'}</span><span>{formatCurrency(salesOrder.tax_amount || 0)}</span></div>
+          )}
+          <div className="flex justify-between border-t-2 border-gray-800 pt-2 text-base font-bold">
+            <span>Total</span><span>{formatCurrency(salesOrder.total_amount)}</span>
+          </div>
+        </div>
+
+        {salesOrder.notes && (
+          <div className="mt-8">
+            <div className="text-xs uppercase text-gray-500 mb-1">Notes</div>
+            <p className="whitespace-pre-line">{salesOrder.notes}</p>
+          </div>
+        )}
+
+        <div className="mt-12 border-t pt-4 text-xs text-gray-500">
+          {isQuotation
+            ? `Prices are valid${salesOrder.expiry_date ? ` until ${formatDate(salesOrder.expiry_date)}` : ''} and subject to stock availability at the time of order.${isQuotationExpired(salesOrder) ? ' This quotation has expired.' : ''}`
+            : 'Thank you for your order.'}
+        </div>
+      </div>
+    </div>
+  )
+}
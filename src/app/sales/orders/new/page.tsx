@@ -0,0 +1,11 @@
+'use client'
+
+import AddSale from '@/components/sales/AddSale'
+
+export default function NewQuotationPage() {
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      <AddSale documentType="quotation" />
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Plus, Search, Eye, FileText, ClipboardList, Clock, CheckCircle, UserCheck } from "lucide-react"
+import { toast } from "sonner"
+import {
+  getSalesOrders,
+  expireQuotations,
+  isQuotationExpired,
+  getOutstandingQuantity,
+  SALES_ORDER_STATUS_LABELS,
+  SALES_ORDER_STATUS_COLORS,
+  type SalesDocumentType,
+  type SalesOrderWithItems
+} from "@/lib/supabase/sales-orders"
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function SalesOrdersPage() {
+  const [documentType, setDocumentType] = React.useState<SalesDocumentType>('quotation')
+  const [documents, setDocuments] = React.useState<SalesOrderWithItems[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [searchTerm, setSearchTerm] = React.useState("")
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      try {
+        setIsLoading(true)
+        // Lapsed quotations are marked expired before they are listed
+        if (documentType === 'quotation') {
+          await expireQuotations()
+        }
+        const data = await getSalesOrders(documentType)
+        if (!cancelled) setDocuments(data)
+      } catch (error) {
+        console.error('Error loading sales orders:', error)
+        toast.error(documentType === 'quotation' ? 'Failed to load quotations' : 'Failed to load sales orders')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [documentType])
+
+  const filteredDocuments = documents.filter(salesOrder => {
+    const term = searchTerm.toLowerCase()
+    return salesOrder.id.toLowerCase().includes(term) || salesOrder.customer_name.toLowerCase().includes(term)
+  })
+
+  const isQuotations = documentType === 'quotation'
+  const openCount = documents.filter(salesOrder =>
+    isQuotations ? ['draft', 'sent'].includes(salesOrder.status) && !isQuotationExpired(salesOrder) : ['open', 'partially_fulfilled'].includes(salesOrder.status)
+  ).length
+  const openValue = documents
+    .filter(salesOrder => isQuotations ? ['draft', 'sent'].includes(salesOrder.status) && !isQuotationExpired(salesOrder) : ['open', 'partially_fulfilled'].includes(salesOrder.status))
+    .reduce((sum, salesOrder) => sum + salesOrder.total_amount, 0)
+  const closedCount = documents.filter(salesOrder => salesOrder.status === (isQuotations ? 'accepted' : 'fulfilled')).length
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Quotations & Orders</h1>
+          <p className="text-muted-foreground">
+            Quote customers, confirm orders to reserve stock, and deliver them as sales
+          </p>
+        </div>
+        <Link href="/sales/orders/new">
+          <Button size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Quotation
+          </Button>
+        </Link>
+      </div>
+
+      <Tabs value={documentType} onValueChange={(value) => setDocumentType(value as SalesDocumentType)}>
+        <TabsList>
+          <TabsTrigger value="quotation">Quotations</TabsTrigger>
+          <TabsTrigger value="order">Sales Orders</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{isQuotations ? 'Open Quotations' : 'Open Orders'}</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-12" /> : openCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{isQuotations ? 'Quoted Value' : 'Undelivered Value'}</CardTitle>
+            {isQuotations ? <FileText className="h-4 w-4 text-muted-foreground" /> : <ClipboardList className="h-4 w-4 text-muted-foreground" />}
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-24" /> : formatCurrency(openValue)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{isQuotations ? 'Accepted' : 'Fulfilled'}</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-12" /> : closedCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Search */}
+      <div className="space-y-2 max-w-md">
+        <Label htmlFor="search">Search</Label>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            id="search"
+            placeholder={isQuotations ? 'Search quotations...' : 'Search orders...'}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      <Card>
+        <div className="overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[120px]">{isQuotations ? 'Quotation' : 'Order'}</TableHead>
+                <TableHead className="min-w-[150px]">Customer</TableHead>
+                <TableHead className="min-w-[100px]">Date</TableHead>
+                <TableHead className="min-w-[100px]">{isQuotations ? 'Valid Until' : 'Outstanding'}</TableHead>
+                <TableHead className="min-w-[120px]">Amount</TableHead>
+                <TableHead className="min-w-[140px]">Status</TableHead>
+                <TableHead className="text-right min-w-[80px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 5 }).map((_, index) => (
+                  <TableRow key={index}>
+                    {Array.from({ length: 7 }).map((__, cell) => (
+                      <TableCell key={cell}><Skeleton className="h-4 w-20" /></TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : filteredDocuments.length > 0 ? (
+                filteredDocuments.map((salesOrder) => {
+                  const status = isQuotationExpired(salesOrder) ? 'expired' : salesOrder.status
+                  const outstanding = salesOrder.sales_order_items.reduce((sum, item) => sum + getOutstandingQuantity(item), 0)
+
+                  return (
+                    <TableRow key={salesOrder.id}>
+                      <TableCell className="font-medium">{salesOrder.id}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <UserCheck className="h-4 w-4 text-muted-foreground" />
+                          <span>{salesOrder.customer_name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{new Date(salesOrder.order_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {isQuotations
+                          ? (salesOrder.expiry_date ? new Date(salesOrder.expiry_date).toLocaleDateString() : '—')
+                          : `${outstanding} units`}
+                      </TableCell>
+                      <TableCell className="font-medium">{formatCurrency(salesOrder.total_amount)}</TableCell>
+                      <TableCell>
+                        <Badge className={`w-fit ${SALES_ORDER_STATUS_COLORS[status as keyof typeof SALES_ORDER_STATUS_COLORS] || ''}`}>
+                          {SALES_ORDER_STATUS_LABELS[status as keyof typeof SALES_ORDER_STATUS_LABELS] || status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Link href={`/sales/orders/${salesOrder.id}`}>
+                          <Button variant="outline" size="sm">
+                            <Eye className="h-4 w-4 mr-1" />
+                            View
+                          </Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {isQuotations ? 'No quotations found' : 'No sales orders found'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "sonner"
+import { PriceListForm } from "@/components/sales/PriceListForm"
+import { getPriceList, type PriceListWithItems } from "@/lib/supabase/price-lists"
+
+export default function EditPriceListPage() {
+  const params = useParams()
+  const id = params.id as string
+  const router = useRouter()
+
+  const [priceList, setPriceList] = React.useState<PriceListWithItems | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    getPriceList(id)
+      .then(setPriceList)
+      .catch(error => {
+        console.error('Error loading price list:', error)
+        toast.error('Failed to load the price list')
+      })
+      .finally(() => setLoading(false))
+  }, [id])
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/sales/price-lists">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{priceList?.name || 'Price List'}</h1>
+          <p className="text-muted-foreground">
+            Changes apply to new sales; posted sales keep the prices they were sold at
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : !priceList ? (
+        <div className="py-12 text-center text-muted-foreground">This price list could not be found</div>
+      ) : (
+        <PriceListForm
+          priceList={priceList}
+          onSaved={() => router.push('/sales/price-lists')}
+          onCancel={() => router.push('/sales/price-lists')}
+        />
+      )}
+    </div>
+  )
+}
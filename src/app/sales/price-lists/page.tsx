@@ -0,0 +1,255 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Edit, Plus, Tags, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import {
+  createPriceList,
+  deletePriceList,
+  getPriceLists,
+  type PriceListSummary
+} from "@/lib/supabase/price-lists"
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+export default function PriceListsPage() {
+  const router = useRouter()
+  const [priceLists, setPriceLists] = React.useState<PriceListSummary[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [isAddDialogOpen, setIsAddDialogOpen] = React.useState(false)
+  const [deletingPriceList, setDeletingPriceList] = React.useState<PriceListSummary | null>(null)
+  const [name, setName] = React.useState('')
+  const [description, setDescription] = React.useState('')
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  React.useEffect(() => {
+    getPriceLists()
+      .then(setPriceLists)
+      .catch(error => {
+        console.error('Error loading price lists:', error)
+        toast.error('Failed to load price lists')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleAddPriceList = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) {
+      toast.error('Price list name is required')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const priceList = await createPriceList({ name: name.trim(), description: description.trim() || null })
+      toast.success('Price list created')
+      router.push(`/sales/price-lists/${priceList.id}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create the price list')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeletePriceList = async () => {
+    if (!deletingPriceList) return
+
+    setIsSubmitting(true)
+    try {
+      await deletePriceList(deletingPriceList.id)
+
+      // Customers on the list now buy at product prices
+      const { apiCache } = await import('@/lib/supabase/cache')
+      apiCache.invalidate('all-customers')
+
+      setPriceLists(priceLists.filter(priceList => priceList.id !== deletingPriceList.id))
+      setDeletingPriceList(null)
+      toast.success('Price list deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete the price list')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Price Lists</h1>
+          <p className="text-muted-foreground">
+            Selling prices per customer group, with quantity breaks and validity dates
+          </p>
+        </div>
+        <Button onClick={() => setIsAddDialogOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Price List
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Price Lists</CardTitle>
+          <CardDescription>Sales to a customer use the prices on their list and the product price for anything else</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : priceLists.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <Tags className="mx-auto mb-2 h-8 w-8" />
+              No price lists yet. Create one for each group of customers you price differently.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Prices</TableHead>
+                  <TableHead className="text-right">Customers</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="w-[100px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {priceLists.map(priceList => (
+                  <TableRow key={priceList.id}>
+                    <TableCell>
+                      <Link href={`/sales/price-lists/${priceList.id}`} className="font-medium text-primary hover:underline">
+                        {priceList.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{priceList.description || '—'}</TableCell>
+                    <TableCell className="text-right">{priceList.item_count}</TableCell>
+                    <TableCell className="text-right">{priceList.customer_count}</TableCell>
+                    <TableCell>{formatShortDate(priceList.updated_at)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/sales/price-lists/${priceList.id}`} aria-label="Edit price list">
+                            <Edit className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeletingPriceList(priceList)}
+                          aria-label="Delete price list"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Price List Dialog */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleAddPriceList}>
+            <DialogHeader>
+              <DialogTitle>New Price List</DialogTitle>
+              <DialogDescription>
+                Name the list, then add its prices
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="add-price-list-name">Name *</Label>
+                <Input
+                  id="add-price-list-name"
+                  placeholder="e.g. Wholesale"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="add-price-list-description">Description</Label>
+                <Textarea
+                  id="add-price-list-description"
+                  rows={2}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Creating...' : 'Create Price List'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Price List Dialog */}
+      <AlertDialog open={!!deletingPriceList} onOpenChange={(open) => !open && setDeletingPriceList(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingPriceList?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its prices are removed and its {deletingPriceList?.customer_count || 0} customer(s) will buy at
+              product prices. Posted sales are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeletePriceList} disabled={isSubmitting}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { ArrowLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { toast } from "sonner"
+import { PromotionForm } from "@/components/sales/PromotionForm"
+import {
+  getPromotion,
+  getPromotionSales,
+  type Promotion,
+  type PromotionSale
+} from "@/lib/supabase/promotions"
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function EditPromotionPage() {
+  const params = useParams()
+  const id = params.id as string
+  const router = useRouter()
+
+  const [promotion, setPromotion] = React.useState<Promotion | null>(null)
+  const [sales, setSales] = React.useState<PromotionSale[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    Promise.all([getPromotion(id), getPromotionSales(id)])
+      .then(([promotionData, salesData]) => {
+        setPromotion(promotionData)
+        setSales(salesData)
+      })
+      .catch(error => {
+        console.error('Error loading promotion:', error)
+        toast.error('Failed to load the promotion')
+      })
+      .finally(() => setLoading(false))
+  }, [id])
+
+  const totalDiscount = sales.reduce((sum, sale) => sum + sale.discount_amount, 0)
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/sales/promotions">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{promotion?.name || 'Promotion'}</h1>
+          <p className="text-muted-foreground">
+            Changes apply to new sales; posted sales keep the discount they were given
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : !promotion ? (
+        <div className="py-12 text-center text-muted-foreground">This promotion could not be found</div>
+      ) : (
+        <>
+          <PromotionForm
+            promotion={promotion}
+            onSaved={() => router.push('/sales/promotions')}
+            onCancel={() => router.push('/sales/promotions')}
+          />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Sales</CardTitle>
+              <CardDescription>
+                Applied to {sales.length} sale(s) for a total discount of {formatCurrency(totalDiscount)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sales.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">
+                  This promotion has not been applied to a sale yet
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sale</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Coupon</TableHead>
+                      <TableHead className="text-right">Sale Total</TableHead>
+                      <TableHead className="text-right">Discount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sales.map(sale => (
+                      <TableRow key={sale.sale_id}>
+                        <TableCell>
+                          <Link href={`/sales/${sale.sale_id}`} className="font-medium text-primary hover:underline">
+                            {sale.sale_id}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{sale.sale_date ? format(parseISO(sale.sale_date), 'dd MMM yyyy') : '—'}</TableCell>
+                        <TableCell>{sale.customer_name}</TableCell>
+                        <TableCell className="font-mono text-sm">{sale.coupon_code || '—'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(sale.total_amount)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(sale.discount_amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
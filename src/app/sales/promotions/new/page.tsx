@@ -0,0 +1,37 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { PromotionForm } from "@/components/sales/PromotionForm"
+
+export default function NewPromotionPage() {
+  const router = useRouter()
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/sales/promotions">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">New Promotion</h1>
+          <p className="text-muted-foreground">
+            Active promotions are applied to matching sales automatically
+          </p>
+        </div>
+      </div>
+
+      <PromotionForm
+        onSaved={() => router.push('/sales/promotions')}
+        onCancel={() => router.push('/sales/promotions')}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { BadgePercent, Edit, Plus, Receipt, Ticket } from "lucide-react"
+import { toast } from "sonner"
+import {
+  PROMOTION_TYPE_LABELS,
+  getPromotions,
+  type PromotionWithUsage
+} from "@/lib/supabase/promotions"
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const describeDiscount = (promotion: PromotionWithUsage) => {
+  const amount = promotion.discount_type === 'percentage'
+    ? `${promotion.discount_value}%`
+    : formatCurrency(promotion.discount_value)
+
+  switch (promotion.promotion_type) {
+    case 'category_discount':
+      return promotion.discount_type === 'percentage' ? `${amount} off` : `${amount} off per unit`
+    case 'buy_x_get_y':
+      return `Buy ${promotion.buy_quantity} get ${promotion.get_quantity} at ${amount} off`
+    case 'spend_threshold':
+      return `${amount} off over ${formatCurrency(promotion.min_spend || 0)}`
+  }
+}
+
+const describeValidity = (promotion: PromotionWithUsage) => {
+  if (promotion.valid_from && promotion.valid_to) {
+    return `${formatShortDate(promotion.valid_from)} – ${formatShortDate(promotion.valid_to)}`
+  }
+  if (promotion.valid_from) return `From ${formatShortDate(promotion.valid_from)}`
+  if (promotion.valid_to) return `Until ${formatShortDate(promotion.valid_to)}`
+  return 'Always'
+}
+
+export default function PromotionsPage() {
+  const [promotions, setPromotions] = React.useState<PromotionWithUsage[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    getPromotions()
+      .then(setPromotions)
+      .catch(error => {
+        console.error('Error loading promotions:', error)
+        toast.error('Failed to load promotions')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const totalUses = promotions.reduce((sum, promotion) => sum + promotion.usage_count, 0)
+  const totalCost = promotions.reduce((sum, promotion) => sum + promotion.discount_total, 0)
+  const activeCount = promotions.filter(promotion => promotion.status === 'active').length
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Promotions</h1>
+          <p className="text-muted-foreground">
+            Discounts and coupons applied automatically at the sale screen, and what each has cost
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/sales/promotions/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New Promotion
+          </Link>
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Promotions</CardTitle>
+            <BadgePercent className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-16" /> : activeCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Sales with Promotions</CardTitle>
+            <Receipt className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-16" /> : totalUses}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Discount Given</CardTitle>
+            <Ticket className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-24" /> : formatCurrency(totalCost)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>Cost is the discount each promotion gave across the sales it was applied to</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : promotions.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              <BadgePercent className="mx-auto mb-2 h-8 w-8" />
+              No promotions yet. Create one to discount sales automatically.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Coupon</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead className="text-right">Uses</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotions.map(promotion => (
+                  <TableRow key={promotion.id}>
+                    <TableCell>
+                      <Link href={`/sales/promotions/${promotion.id}`} className="font-medium text-primary hover:underline">
+                        {promotion.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{PROMOTION_TYPE_LABELS[promotion.promotion_type]}</TableCell>
+                    <TableCell>{describeDiscount(promotion)}</TableCell>
+                    <TableCell className="font-mono text-sm">{promotion.coupon_code || '—'}</TableCell>
+                    <TableCell>{describeValidity(promotion)}</TableCell>
+                    <TableCell className="text-right">
+                      {promotion.usage_count}
+                      {promotion.usage_limit && (
+                        <span className="text-muted-foreground"> / {promotion.usage_limit}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(promotion.discount_total)}</TableCell>
+                    <TableCell>
+                      <Badge variant={promotion.status === 'active' ? 'default' : 'secondary'}>
+                        {promotion.status === 'active' ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={`/sales/promotions/${promotion.id}`} aria-label="Edit promotion">
+                          <Edit className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
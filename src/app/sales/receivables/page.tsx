@@ -0,0 +1,206 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Label } from "@/components/ui/label"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Search, Eye, UserCheck, Wallet, AlertTriangle, Users } from "lucide-react"
+import { toast } from "sonner"
+import { getReceivablesAging, type ReceivablesAgingReport } from "@/lib/supabase/receivables"
+import { AGING_BUCKETS, emptyAgingBuckets, addAgingBuckets } from "@/lib/utils/aging"
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function ReceivablesAgingPage() {
+  const [asOf, setAsOf] = React.useState<Date>(new Date())
+  const [report, setReport] = React.useState<ReceivablesAgingReport | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [searchTerm, setSearchTerm] = React.useState("")
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      try {
+        setIsLoading(true)
+        const data = await getReceivablesAging(asOf)
+        if (!cancelled) setReport(data)
+      } catch (error) {
+        console.error('Error loading receivables aging:', error)
+        toast.error('Failed to load receivables aging')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [asOf])
+
+  const rows = (report?.rows || []).filter(row =>
+    row.customer_name.toLowerCase().includes(searchTerm.toLowerCase())
+  )
+  const totals = rows.reduce((sum, row) => addAgingBuckets(sum, row.buckets), emptyAgingBuckets())
+  const overdueTotal = totals.days_31_60 + totals.days_61_90 + totals.days_over_90
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Receivables Aging</h1>
+        <p className="text-muted-foreground">
+          What customers still owe, by how long each invoice has been open
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Outstanding</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-24" /> : formatCurrency(totals.total)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Over 30 Days</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-24" /> : formatCurrency(overdueTotal)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Customers Owing</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{isLoading ? <Skeleton className="h-8 w-12" /> : rows.length}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 md:grid-cols-2 max-w-2xl">
+        <div className="space-y-2">
+          <Label htmlFor="search">Search</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="search"
+              placeholder="Search customers..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>As of</Label>
+          <DatePicker date={asOf} onDateChange={(date) => setAsOf(date || new Date())} placeholder="Today" />
+        </div>
+      </div>
+
+      <Card>
+        <div className="overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[180px]">Customer</TableHead>
+                <TableHead className="min-w-[80px]">Invoices</TableHead>
+                {AGING_BUCKETS.map(bucket => (
+                  <TableHead key={bucket.key} className="text-right min-w-[120px]">{bucket.label}</TableHead>
+                ))}
+                <TableHead className="text-right min-w-[120px]">Total</TableHead>
+                <TableHead className="text-right min-w-[80px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 5 }).map((_, index) => (
+                  <TableRow key={index}>
+                    {Array.from({ length: 8 }).map((__, cell) => (
+                      <TableCell key={cell}><Skeleton className="h-4 w-20" /></TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : rows.length > 0 ? (
+                <>
+                  {rows.map(row => (
+                    <TableRow key={row.customer_id || row.customer_name}>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <UserCheck className="h-4 w-4 text-muted-foreground" />
+                          <span className="font-medium">{row.customer_name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{row.invoice_count}</TableCell>
+                      {AGING_BUCKETS.map(bucket => (
+                        <TableCell
+                          key={bucket.key}
+                          className={`text-right ${bucket.key === 'days_over_90' && row.buckets[bucket.key] > 0 ? 'text-red-600 font-medium' : ''}`}
+                        >
+                          {row.buckets[bucket.key] > 0 ? formatCurrency(row.buckets[bucket.key]) : '—'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold">{formatCurrency(row.buckets.total)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.customer_id ? (
+                          <Link href={`/sales/customers/${row.customer_id}`}>
+                            <Button variant="outline" size="sm">
+                              <Eye className="h-4 w-4 mr-1" />
+                              View
+                            </Button>
+                          </Link>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Walk-in</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-semibold">
+                    <TableCell>Total</TableCell>
+                    <TableCell>{rows.reduce((sum, row) => sum + row.invoice_count, 0)}</TableCell>
+                    {AGING_BUCKETS.map(bucket => (
+                      <TableCell key={bucket.key} className="text-right">{formatCurrency(totals[bucket.key])}</TableCell>
+                    ))}
+                    <TableCell className="text-right">{formatCurrency(totals.total)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </>
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    No outstanding receivables
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  )
+}
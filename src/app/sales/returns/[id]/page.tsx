@@ -165,6 +165,7 @@ export default function ReturnDetailPage() {
       case 'pending':
         return <Clock className="h-5 w-5 text-yellow-600" />
       case 'approved':
+      case 'completed':
         return <CheckCircle className="h-5 w-5 text-green-600" />
       case 'rejected':
         return <XCircle className="h-5 w-5 text-red-600" />
@@ -178,6 +179,7 @@ export default function ReturnDetailPage() {
       case 'pending':
         return 'secondary'
       case 'approved':
+      case 'completed':
         return 'default'
       case 'rejected':
         return 'destructive'
@@ -128,6 +128,7 @@ function ReturnsPageContent() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'approved':
+      case 'completed':
         return 'bg-green-100 text-green-800'
       case 'pending':
         return 'bg-yellow-100 text-yellow-800'
@@ -318,12 +319,12 @@ function ReturnsPageContent() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Approved Returns</CardTitle>
+            <CardTitle className="text-sm font-medium">Completed Returns</CardTitle>
             <CheckCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {filteredReturns.filter(r => r.status === 'approved').length}
+              {filteredReturns.filter(r => r.status === 'approved' || r.status === 'completed').length}
             </div>
             <p className="text-xs text-muted-foreground">
               successfully processed
@@ -351,7 +352,7 @@ function ReturnsPageContent() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              ৳{filteredReturns.reduce((sum, r) => sum + (r.total_amount || 0), 0).toFixed(2)}
+              ৳{filteredReturns.reduce((sum, r) => sum + (r.base_total_amount ?? r.total_amount ?? 0), 0).toFixed(2)}
             </div>
             <p className="text-xs text-muted-foreground">
               refund amount
@@ -519,7 +520,7 @@ function ReturnsPageContent() {
                                       </div>
                                       <div className="flex items-center gap-4">
                                         <div className="text-right">
-                                          <div className="font-medium text-sm">{formatCurrency(item.price * item.quantity)}</div>
+                                          <div className="font-medium text-sm">{formatCurrency(item.total)}</div>
                                           <div className="text-xs text-muted-foreground">
                                             {formatCurrency(item.price)} each
                                           </div>
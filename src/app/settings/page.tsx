@@ -52,6 +52,16 @@ import {
   Loader2
 } from "lucide-react"
 import { fixAllPurchaseStatuses } from '@/lib/supabase/purchases'
+import {
+  getCompanySettings,
+  updateCompanySettings,
+  DEFAULT_COMPANY_SETTINGS,
+  type CompanySettings
+} from '@/lib/supabase/company-settings'
+import {
+  INVENTORY_VALUATION_METHOD_LABELS,
+  type InventoryValuationMethod
+} from '@/lib/supabase/inventory-valuation'
 import { UserProfileSettings } from '@/components/settings/user-profile-settings'
 
 export default function SettingsPage() {
@@ -69,8 +79,10 @@ export default function SettingsPage() {
     loginAttempts: "5"
   })
 
+  const [company, setCompany] = React.useState<CompanySettings>(DEFAULT_COMPANY_SETTINGS)
+  const [isSaving, setIsSaving] = React.useState(false)
+
   const [general, setGeneral] = React.useState({
-    companyName: "ERP Company Ltd",
     timezone: "Asia/Dhaka",
     dateFormat: "DD/MM/YYYY",
     currency: "BDT",
@@ -117,9 +129,32 @@ export default function SettingsPage() {
     checkAccounts()
   }, []) // No dependencies to prevent re-runs
 
-  const handleSave = () => {
-    // Placeholder for save functionality
-    console.log("Settings saved")
+  // Company details are stored; they are printed on invoices and statements
+  React.useEffect(() => {
+    getCompanySettings()
+      .then(setCompany)
+      .catch(error => console.error('Error loading company settings:', error))
+  }, [])
+
+  const handleSave = async () => {
+    if (!company.company_name.trim()) {
+      toast.error("Company name is required")
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      setCompany(await updateCompanySettings({
+        ...company,
+        company_name: company.company_name.trim()
+      }))
+      toast.success("Settings saved")
+    } catch (error) {
+      console.error("Failed to save settings:", error)
+      toast.error("Failed to save settings")
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const handleInitializeAccounts = async () => {
@@ -177,7 +212,6 @@ export default function SettingsPage() {
         case 'settings':
           // Reset all settings to defaults
           setGeneral({
-            companyName: "ERP Company Ltd",
             timezone: "Asia/Dhaka",
             dateFormat: "DD/MM/YYYY",
             currency: "BDT",
@@ -280,8 +314,8 @@ export default function SettingsPage() {
             Manage your system preferences and configuration
           </p>
         </div>
-        <Button onClick={handleSave} suppressHydrationWarning>
-          <Save className="mr-2 h-4 w-4" />
+        <Button onClick={handleSave} disabled={isSaving} suppressHydrationWarning>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
           Save Changes
         </Button>
       </div>
@@ -313,11 +347,86 @@ export default function SettingsPage() {
                   <Label htmlFor="companyName">Company Name</Label>
                   <Input 
                     id="companyName" 
-                    value={general.companyName}
-                    onChange={(e) => setGeneral({...general, companyName: e.target.value})}
+                    value={company.company_name}
+                    onChange={(e) => setCompany({...company, company_name: e.target.value})}
                     suppressHydrationWarning
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="companyAddress">Address</Label>
+                  <Textarea
+                    id="companyAddress"
+                    rows={2}
+                    value={company.address || ''}
+                    onChange={(e) => setCompany({...company, address: e.target.value || null})}
+                  />
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="companyPhone">Phone</Label>
+                    <Input
+                      id="companyPhone"
+                      value={company.phone || ''}
+                      onChange={(e) => setCompany({...company, phone: e.target.value || null})}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="companyEmail">Email</Label>
+                    <Input
+                      id="companyEmail"
+                      type="email"
+                      value={company.email || ''}
+                      onChange={(e) => setCompany({...company, email: e.target.value || null})}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="companyWebsite">Website</Label>
+                    <Input
+                      id="companyWebsite"
+                      value={company.website || ''}
+                      onChange={(e) => setCompany({...company, website: e.target.value || null})}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="companyTaxNumber">Tax / VAT Number</Label>
+                    <Input
+                      id="companyTaxNumber"
+                      value={company.tax_number || ''}
+                      onChange={(e) => setCompany({...company, tax_number: e.target.value || null})}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceFooter">Invoice Footer</Label>
+                  <Textarea
+                    id="invoiceFooter"
+                    rows={2}
+                    placeholder="Printed at the bottom of invoices"
+                    value={company.invoice_footer || ''}
+                    onChange={(e) => setCompany({...company, invoice_footer: e.target.value || null})}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="valuationMethod">Inventory Valuation Method</Label>
+                  <Select
+                    value={company.inventory_valuation_method}
+                    onValueChange={(value) => setCompany({...company, inventory_valuation_method: value as InventoryValuationMethod})}
+                  >
+                    <SelectTrigger id="valuationMethod" suppressHydrationWarning>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(INVENTORY_VALUATION_METHOD_LABELS) as InventoryValuationMethod[]).map(method => (
+                        <SelectItem key={method} value={method}>
+                          {INVENTORY_VALUATION_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Used to cost each sale from the purchase receipts. A change applies to sales posted afterwards.
+                  </p>
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="timezone">Timezone</Label>
                   <Select value={general.timezone} onValueChange={(value: string) => setGeneral({...general, timezone: value})}>
@@ -41,7 +41,10 @@ import {
 } from "@/lib/supabase/accounts-client"
 import type { JournalEntryWithLines, AccountWithCategory } from "@/lib/supabase/types"
 import TransactionLayoutTable from '@/components/transactions/TransactionLayoutTable'
+import JournalEntryReversalDialog, { type ReversalMode } from '@/components/transactions/JournalEntryReversalDialog'
+import type { TransactionJournalEntry } from '@/components/transactions/types'
 import { transformTransactionData } from '@/components/transactions/utils'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
 
 // Global data cache and request deduplication to prevent multiple API calls
 const dataCache = {
@@ -93,6 +96,8 @@ export default function TransactionsPage() {
   
   // UI state
   const [isAddTransactionDialogOpen, setIsAddTransactionDialogOpen] = React.useState(false)
+  const [reversal, setReversal] = React.useState<{ entry: TransactionJournalEntry; mode: ReversalMode } | null>(null)
+  const { user } = useCurrentUser()
 
   // Form states
   const [newTransaction, setNewTransaction] = React.useState<Partial<CreateJournalEntryData>>({
@@ -321,6 +326,13 @@ export default function TransactionsPage() {
     }
   }
 
+  // Reversals and corrections post new entries, so reload the list afterwards
+  const handleReversalCompleted = async () => {
+    setReversal(null)
+    dataCache.lastFetch = 0
+    await loadTransactionsData(true)
+  }
+
   const updateTransactionLine = React.useCallback((index: number, field: string, value: any) => {
     setNewTransaction(prev => ({
       ...prev,
@@ -552,8 +564,21 @@ export default function TransactionsPage() {
           <p className="text-sm">Start by recording your first journal entry using the button above.</p>
         </div>
       ) : (
-        <TransactionLayoutTable transactions={transformTransactionData(journalEntries)} />
+        <TransactionLayoutTable
+          transactions={transformTransactionData(journalEntries)}
+          onReverse={(entry) => setReversal({ entry, mode: 'reverse' })}
+          onCorrect={(entry) => setReversal({ entry, mode: 'correct' })}
+        />
       )}
+
+      <JournalEntryReversalDialog
+        entry={reversal?.entry ?? null}
+        mode={reversal?.mode ?? 'reverse'}
+        accounts={accounts}
+        createdBy={user?.name || 'system'}
+        onClose={() => setReversal(null)}
+        onCompleted={handleReversalCompleted}
+      />
     </div>
   )
 } 
\ No newline at end of file
@@ -42,11 +42,20 @@ import {
   Trash2,
   TrendingUp,
   TrendingDown,
-  Activity
+  Activity,
+  ArrowLeftRight,
+  ArrowRight,
+  Plus
 } from "lucide-react"
 import { getWarehouseById, type DatabaseWarehouse } from "@/lib/supabase/queries"
 import { updateWarehouse, deleteWarehouse, type UpdateWarehouseData } from "@/lib/supabase/mutations"
 import { createClient } from "@/lib/supabase/client"
+import {
+  getTransferOrders,
+  TRANSFER_ORDER_STATUS_BADGE_CLASSES,
+  TRANSFER_ORDER_STATUS_LABELS,
+  type TransferOrder
+} from "@/lib/supabase/transfer-orders"
 
 // Global cache and request deduplication for warehouse data
 let warehouseCache: {
@@ -290,6 +299,7 @@ export default function WarehouseDetailsPage({ params }: WarehouseDetailsPagePro
   const [isSubmitting, setIsSubmitting] = React.useState(false)
   const [isDeleting, setIsDeleting] = React.useState(false)
   const [confirmDeleteOpen, setConfirmDeleteOpen] = React.useState(false)
+  const [transfers, setTransfers] = React.useState<TransferOrder[]>([])
   const [formData, setFormData] = React.useState({
     name: '',
     location: '',
@@ -321,6 +331,13 @@ export default function WarehouseDetailsPage({ params }: WarehouseDetailsPagePro
     loadData()
   }, [resolvedParams.id])
 
+  // Transfers leaving or arriving at this warehouse
+  React.useEffect(() => {
+    getTransferOrders(resolvedParams.id)
+      .then(setTransfers)
+      .catch(error => console.error('❌ Error loading transfers:', error))
+  }, [resolvedParams.id])
+
   // Set form data when warehouse is loaded
   React.useEffect(() => {
     if (warehouse) {
@@ -897,6 +914,87 @@ export default function WarehouseDetailsPage({ params }: WarehouseDetailsPagePro
         </div>
       </div>
 
+      {/* Transfers */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5" />
+              Transfers ({transfers.length})
+            </CardTitle>
+            <CardDescription>
+              Stock transfers leaving or arriving at this warehouse
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/warehouses/transfers/new?from=${resolvedParams.id}`}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Transfer
+            </Link>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {transfers.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transfer</TableHead>
+                  <TableHead>Direction</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">In Transit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.map(transfer => {
+                  const isOutgoing = transfer.from_warehouse_id === resolvedParams.id
+                  const inTransit = transfer.status === 'dispatched' || transfer.status === 'partially_received'
+                    ? transfer.total_quantity - transfer.received_quantity - transfer.discrepancy_quantity
+                    : 0
+                  return (
+                    <TableRow key={transfer.id}>
+                      <TableCell>
+                        <Link href={`/warehouses/transfers/${transfer.id}`} className="font-mono text-sm text-primary hover:underline">
+                          {transfer.transfer_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {isOutgoing ? (
+                          <span className="flex items-center gap-1 text-red-600"><TrendingDown className="h-4 w-4" /> Outgoing</span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-green-600"><TrendingUp className="h-4 w-4" /> Incoming</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {transfer.from_warehouse_name}
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          {transfer.to_warehouse_name}
+                        </div>
+                      </TableCell>
+                      <TableCell>{new Date(transfer.transfer_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge className={TRANSFER_ORDER_STATUS_BADGE_CLASSES[transfer.status]}>
+                          {TRANSFER_ORDER_STATUS_LABELS[transfer.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{transfer.total_quantity}</TableCell>
+                      <TableCell className="text-right font-medium text-blue-600">{inTransit || '-'}</TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No transfers for this warehouse yet.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Products in Warehouse */}
       <Card>
         <CardHeader>
@@ -0,0 +1,169 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ArrowLeft } from "lucide-react"
+import { toast } from "sonner"
+import { getAssemblyOrder, type AssemblyOrderWithItems } from "@/lib/supabase/assembly-orders"
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function AssemblyDetailPage() {
+  const params = useParams()
+  const id = params.id as string
+
+  const [order, setOrder] = React.useState<AssemblyOrderWithItems | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    getAssemblyOrder(id)
+      .then(setOrder)
+      .catch(error => {
+        console.error('Error loading assembly:', error)
+        toast.error('Failed to load the assembly')
+      })
+      .finally(() => setLoading(false))
+  }, [id])
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    )
+  }
+
+  if (!order) {
+    return (
+      <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/warehouses/assembly">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div className="py-12 text-center text-muted-foreground">This assembly could not be found</div>
+      </div>
+    )
+  }
+
+  const items = [...(order.items || [])].sort((a, b) =>
+    b.item_type.localeCompare(a.item_type) || a.item_name.localeCompare(b.item_name)
+  )
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/warehouses/assembly">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight font-mono">{order.assembly_number}</h1>
+          <p className="text-muted-foreground">
+            {order.bom_name} · {order.warehouse_name} · {formatShortDate(order.assembly_date)} · by {order.created_by}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Output</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{order.output_quantity}</div>
+            <p className="text-xs text-muted-foreground">
+              {order.output_name} from {order.batches} batch{order.batches !== 1 ? 'es' : ''}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Unit Cost</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(Number(order.unit_cost))}</div>
+            <p className="text-xs text-muted-foreground">Rolled into the output&apos;s buying price</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Total Cost</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(Number(order.total_cost))}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Inputs Consumed</CardTitle>
+          <CardDescription>Issued from {order.warehouse_name} at their inventory cost</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.item_name}</div>
+                    {item.item_type === 'package' && <Badge variant="secondary" className="mt-1">Packaging</Badge>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{item.sku || '—'}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(Number(item.unit_cost))}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(Number(item.total_cost))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4}>Total</TableCell>
+                <TableCell className="text-right">{formatCurrency(Number(order.total_cost))}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+          {order.notes && <p className="text-sm text-muted-foreground mt-4">{order.notes}</p>}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { ArrowLeft, Factory } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "sonner"
+import { BillOfMaterialsForm } from "@/components/warehouses/BillOfMaterialsForm"
+import { getBillOfMaterials, type BillOfMaterialsWithItems } from "@/lib/supabase/assembly-orders"
+
+export default function EditBillOfMaterialsPage() {
+  const params = useParams()
+  const id = params.id as string
+  const router = useRouter()
+
+  const [bom, setBom] = React.useState<BillOfMaterialsWithItems | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    getBillOfMaterials(id)
+      .then(setBom)
+      .catch(error => {
+        console.error('Error loading bill of materials:', error)
+        toast.error('Failed to load the bill of materials')
+      })
+      .finally(() => setLoading(false))
+  }, [id])
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/warehouses/assembly">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{bom?.name || 'Bill of Materials'}</h1>
+            <p className="text-muted-foreground">
+              Changes apply to future assemblies; posted assemblies keep what they consumed
+            </p>
+          </div>
+        </div>
+        {bom?.status === 'active' && (
+          <Button asChild>
+            <Link href={`/warehouses/assembly/new?bom=${bom.id}`}>
+              <Factory className="h-4 w-4 mr-2" />
+              Assemble
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : !bom ? (
+        <div className="py-12 text-center text-muted-foreground">This bill of materials could not be found</div>
+      ) : (
+        <BillOfMaterialsForm
+          bom={bom}
+          onSaved={() => router.push('/warehouses/assembly')}
+          onCancel={() => router.push('/warehouses/assembly')}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { BillOfMaterialsForm } from "@/components/warehouses/BillOfMaterialsForm"
+
+export default function NewBillOfMaterialsPage() {
+  const router = useRouter()
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/warehouses/assembly">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">New Bill of Materials</h1>
+          <p className="text-muted-foreground">
+            Describe one batch: the finished units it makes and the products and packaging it uses
+          </p>
+        </div>
+      </div>
+
+      <BillOfMaterialsForm
+        onSaved={() => router.push('/warehouses/assembly')}
+        onCancel={() => router.push('/warehouses/assembly')}
+      />
+    </div>
+  )
+}
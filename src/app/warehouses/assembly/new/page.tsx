@@ -0,0 +1,278 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { format } from "date-fns"
+import { ArrowLeft, Factory, Loader2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import { getWarehouses, type DatabaseWarehouse } from "@/lib/supabase/queries"
+import { getTransferableStock } from "@/lib/supabase/transfer-orders"
+import {
+  ASSEMBLY_ERROR_MESSAGES,
+  getAssemblyItemKey,
+  getBillsOfMaterials,
+  postAssemblyOrder,
+  type BillOfMaterialsWithItems
+} from "@/lib/supabase/assembly-orders"
+
+function NewAssemblyContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+
+  const [boms, setBoms] = React.useState<BillOfMaterialsWithItems[]>([])
+  const [warehouses, setWarehouses] = React.useState<DatabaseWarehouse[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [bomId, setBomId] = React.useState(searchParams.get('bom') || '')
+  const [warehouseId, setWarehouseId] = React.useState('')
+  const [batches, setBatches] = React.useState(1)
+  const [assemblyDate, setAssemblyDate] = React.useState<Date>(new Date())
+  const [notes, setNotes] = React.useState('')
+  const [availableStock, setAvailableStock] = React.useState<Record<string, number>>({})
+  const [stockLoading, setStockLoading] = React.useState(false)
+  const [isPosting, setIsPosting] = React.useState(false)
+
+  React.useEffect(() => {
+    Promise.all([getBillsOfMaterials(), getWarehouses()])
+      .then(([bomList, warehouseList]) => {
+        setBoms(bomList.filter(bom => bom.status === 'active'))
+        setWarehouses(warehouseList)
+      })
+      .catch(error => {
+        console.error('Error loading bills of materials:', error)
+        toast.error('Failed to load bills of materials')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  React.useEffect(() => {
+    if (!warehouseId) {
+      setAvailableStock({})
+      return
+    }
+
+    let cancelled = false
+    setStockLoading(true)
+
+    getTransferableStock(warehouseId)
+      .then(items => {
+        if (cancelled) return
+        setAvailableStock(Object.fromEntries(items.map(item => [getAssemblyItemKey(item), item.available_stock])))
+      })
+      .catch(error => {
+        console.error('Error loading warehouse stock:', error)
+        toast.error('Failed to load stock for the warehouse')
+      })
+      .finally(() => { if (!cancelled) setStockLoading(false) })
+
+    return () => { cancelled = true }
+  }, [warehouseId])
+
+  const bom = boms.find(candidate => candidate.id === bomId)
+  const requirements = (bom?.items || []).map(input => {
+    const required = input.quantity * batches
+    const available = availableStock[getAssemblyItemKey(input)] || 0
+    return { input, required, available, short: Math.max(required - available, 0) }
+  })
+  const shortLines = requirements.filter(line => line.short > 0)
+  const canPost = !!bom && !!warehouseId && batches > 0 && !stockLoading && shortLines.length === 0
+
+  const handlePost = async () => {
+    if (!bom || !warehouseId) {
+      toast.error('Select a bill of materials and a warehouse')
+      return
+    }
+    if (!(batches > 0)) {
+      toast.error('Enter how many batches to make')
+      return
+    }
+
+    try {
+      setIsPosting(true)
+      const result = await postAssemblyOrder({
+        bom_id: bom.id,
+        warehouse_id: warehouseId,
+        batches,
+        assembly_date: format(assemblyDate, 'yyyy-MM-dd'),
+        notes: notes.trim() || undefined
+      }, currentUser)
+
+      if (!result.success) {
+        toast.error(`${ASSEMBLY_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+        return
+      }
+
+      toast.success(`Assembly ${result.assembly_number} posted: ${result.output_quantity} × ${bom.output_name}`)
+      router.push(`/warehouses/assembly/${result.assembly_order_id}`)
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/warehouses/assembly">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">New Assembly</h1>
+          <p className="text-muted-foreground">
+            Consume the inputs and produce the finished units in one warehouse, in one step
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Assembly</CardTitle>
+          <CardDescription>
+            {bom ? `One batch makes ${bom.output_quantity} × ${bom.output_name}` : 'Choose what to make and where'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Bill of materials *</Label>
+            <Select value={bomId} onValueChange={setBomId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue placeholder={loading ? 'Loading...' : 'Select a bill of materials'} />
+              </SelectTrigger>
+              <SelectContent>
+                {boms.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Warehouse *</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select warehouse" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouses.map(warehouse => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assembly-batches">Batches *</Label>
+            <Input
+              id="assembly-batches"
+              type="number"
+              min={1}
+              value={batches || ''}
+              onChange={(e) => setBatches(parseInt(e.target.value) || 0)}
+            />
+            {bom && batches > 0 && (
+              <p className="text-xs text-muted-foreground">Makes {bom.output_quantity * batches} units</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Assembly date</Label>
+            <DatePicker date={assemblyDate} onDateChange={(date) => date && setAssemblyDate(date)} placeholder="Assembly date" />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="assembly-notes">Notes</Label>
+            <Textarea id="assembly-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Inputs</CardTitle>
+          <CardDescription>
+            {!bom || !warehouseId
+              ? 'Select a bill of materials and a warehouse to check stock'
+              : shortLines.length > 0
+                ? `${shortLines.length} input${shortLines.length !== 1 ? 's are' : ' is'} short in this warehouse`
+                : 'The warehouse has enough of every input'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!bom ? (
+            <div className="py-8 text-center text-muted-foreground">No bill of materials selected</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">Per Batch</TableHead>
+                  <TableHead className="text-right">Required</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requirements.map(({ input, required, available, short }) => (
+                  <TableRow key={input.id}>
+                    <TableCell>
+                      <div className="font-medium">{input.item_name}</div>
+                      {input.item_type === 'package' && <Badge variant="secondary" className="mt-1">Packaging</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{input.sku || '—'}</TableCell>
+                    <TableCell className="text-right">{input.quantity}</TableCell>
+                    <TableCell className="text-right">{required}</TableCell>
+                    <TableCell className={`text-right ${warehouseId && short > 0 ? 'text-red-600 font-medium' : ''}`}>
+                      {!warehouseId ? '—' : stockLoading ? '...' : available}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => router.push('/warehouses/assembly')}>
+          Cancel
+        </Button>
+        <Button onClick={handlePost} disabled={!canPost || isPosting}>
+          {isPosting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Factory className="mr-2 h-4 w-4" />}
+          Post Assembly
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default function NewAssemblyPage() {
+  return (
+    <React.Suspense fallback={<div>Loading...</div>}>
+      <NewAssemblyContent />
+    </React.Suspense>
+  )
+}
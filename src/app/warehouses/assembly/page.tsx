@@ -0,0 +1,243 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ClipboardList, Factory, Layers, Plus } from "lucide-react"
+import { toast } from "sonner"
+import {
+  getAssemblyOrders,
+  getBillsOfMaterials,
+  type AssemblyOrder,
+  type BillOfMaterialsWithItems
+} from "@/lib/supabase/assembly-orders"
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function AssemblyPage() {
+  const [orders, setOrders] = React.useState<AssemblyOrder[]>([])
+  const [boms, setBoms] = React.useState<BillOfMaterialsWithItems[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    Promise.all([getAssemblyOrders(), getBillsOfMaterials()])
+      .then(([orderList, bomList]) => {
+        setOrders(orderList)
+        setBoms(bomList)
+      })
+      .catch(error => {
+        console.error('Error loading assemblies:', error)
+        toast.error('Failed to load assemblies')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const activeBoms = boms.filter(bom => bom.status === 'active').length
+  const unitsMade = orders.reduce((sum, order) => sum + order.output_quantity, 0)
+  const valueMade = orders.reduce((sum, order) => sum + Number(order.total_cost || 0), 0)
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Assembly</h1>
+          <p className="text-muted-foreground">
+            Repack bulk products into retail units from a bill of materials
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/warehouses/assembly/boms/new">
+              <Plus className="h-4 w-4 mr-2" />
+              New Bill of Materials
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/warehouses/assembly/new">
+              <Factory className="h-4 w-4 mr-2" />
+              New Assembly
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Bills of Materials</CardTitle>
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : activeBoms}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Assemblies</CardTitle>
+            <Factory className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : orders.length}</div>
+            <p className="text-xs text-muted-foreground">{unitsMade.toLocaleString()} units made</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Cost Rolled Up</CardTitle>
+            <Layers className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-24" /> : formatCurrency(valueMade)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="orders">
+        <TabsList>
+          <TabsTrigger value="orders">Assemblies</TabsTrigger>
+          <TabsTrigger value="boms">Bills of Materials</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            <CardHeader>
+              <CardTitle>Assembly Orders</CardTitle>
+              <CardDescription>Each assembly consumed its inputs and produced its output in one warehouse</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 5 }).map((_, index) => (
+                    <Skeleton key={index} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : orders.length === 0 ? (
+                <div className="py-12 text-center text-muted-foreground">
+                  No assemblies yet. Post one to turn inputs into finished stock.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Assembly</TableHead>
+                      <TableHead>Output</TableHead>
+                      <TableHead>Warehouse</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                      <TableHead className="text-right">Total Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {orders.map(order => (
+                      <TableRow key={order.id}>
+                        <TableCell>
+                          <Link href={`/warehouses/assembly/${order.id}`} className="font-mono text-sm text-primary hover:underline">
+                            {order.assembly_number}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{order.output_name}</div>
+                          <div className="text-xs text-muted-foreground">{order.bom_name}</div>
+                        </TableCell>
+                        <TableCell>{order.warehouse_name}</TableCell>
+                        <TableCell>{formatShortDate(order.assembly_date)}</TableCell>
+                        <TableCell className="text-right">{order.output_quantity}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(order.unit_cost))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(order.total_cost))}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="boms">
+          <Card>
+            <CardHeader>
+              <CardTitle>Bills of Materials</CardTitle>
+              <CardDescription>What one batch makes and what it consumes</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 5 }).map((_, index) => (
+                    <Skeleton key={index} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : boms.length === 0 ? (
+                <div className="py-12 text-center text-muted-foreground">
+                  No bills of materials yet. Create one for each product you repack.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Makes</TableHead>
+                      <TableHead className="text-right">Units per Batch</TableHead>
+                      <TableHead className="text-right">Inputs</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-[120px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {boms.map(bom => (
+                      <TableRow key={bom.id}>
+                        <TableCell>
+                          <Link href={`/warehouses/assembly/boms/${bom.id}`} className="font-medium text-primary hover:underline">
+                            {bom.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{bom.output_name}</TableCell>
+                        <TableCell className="text-right">{bom.output_quantity}</TableCell>
+                        <TableCell className="text-right">{bom.items?.length || 0}</TableCell>
+                        <TableCell>
+                          <Badge variant={bom.status === 'active' ? 'default' : 'secondary'}>
+                            {bom.status === 'active' ? 'Active' : 'Inactive'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {bom.status === 'active' && (
+                            <Button variant="outline" size="sm" asChild>
+                              <Link href={`/warehouses/assembly/new?bom=${bom.id}`}>Assemble</Link>
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+"use client"
+
+import * as React from "react"
+import { differenceInCalendarDays, format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertTriangle, CalendarClock, Layers } from "lucide-react"
+import { toast } from "sonner"
+import { getWarehouses, type DatabaseWarehouse } from "@/lib/supabase/queries"
+import {
+  DEFAULT_EXPIRY_WARNING_DAYS,
+  getLotExpiryStatus,
+  getStockLots,
+  LOT_EXPIRY_STATUS_BADGE_CLASSES,
+  LOT_EXPIRY_STATUS_LABELS,
+  type StockLotWithItem
+} from "@/lib/supabase/stock-lots"
+
+const ALL = 'all'
+const EXPIRY_WINDOWS = [7, 30, 60, 90]
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+export default function StockLotsPage() {
+  const [lots, setLots] = React.useState<StockLotWithItem[]>([])
+  const [warehouses, setWarehouses] = React.useState<DatabaseWarehouse[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [warehouseId, setWarehouseId] = React.useState(ALL)
+  const [expiryWindow, setExpiryWindow] = React.useState(String(DEFAULT_EXPIRY_WARNING_DAYS))
+  const [searchTerm, setSearchTerm] = React.useState('')
+
+  const warningDays = expiryWindow === ALL ? DEFAULT_EXPIRY_WARNING_DAYS : parseInt(expiryWindow)
+
+  React.useEffect(() => {
+    getWarehouses()
+      .then(setWarehouses)
+      .catch(error => console.error('Error loading warehouses:', error))
+  }, [])
+
+  React.useEffect(() => {
+    setLoading(true)
+    getStockLots({
+      warehouseId: warehouseId === ALL ? null : warehouseId,
+      withinDays: expiryWindow === ALL ? null : parseInt(expiryWindow)
+    })
+      .then(setLots)
+      .catch(error => {
+        console.error('Error loading stock lots:', error)
+        toast.error('Failed to load stock lots')
+      })
+      .finally(() => setLoading(false))
+  }, [warehouseId, expiryWindow])
+
+  const term = searchTerm.trim().toLowerCase()
+  const filteredLots = lots.filter(lot =>
+    !term ||
+    lot.lot_number.toLowerCase().includes(term) ||
+    lot.product_name.toLowerCase().includes(term) ||
+    (lot.sku || '').toLowerCase().includes(term)
+  )
+
+  const expiredLots = filteredLots.filter(lot => getLotExpiryStatus(lot.expiry_date, warningDays) === 'expired')
+  const expiringLots = filteredLots.filter(lot => getLotExpiryStatus(lot.expiry_date, warningDays) === 'expiring')
+  const unitsIn = (list: StockLotWithItem[]) => list.reduce((sum, lot) => sum + lot.quantity, 0)
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Lots &amp; Expiry</h1>
+        <p className="text-muted-foreground">
+          Stock of lot-tracked products by lot, with the lots that have expired or expire soon
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Expired</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{unitsIn(expiredLots)}</div>
+            <p className="text-xs text-muted-foreground">units in {expiredLots.length} lots, not sellable</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Expiring Soon</CardTitle>
+            <CalendarClock className="h-4 w-4 text-orange-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{unitsIn(expiringLots)}</div>
+            <p className="text-xs text-muted-foreground">units in {expiringLots.length} lots within {warningDays} days</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Lots Shown</CardTitle>
+            <Layers className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{filteredLots.length}</div>
+            <p className="text-xs text-muted-foreground">{unitsIn(filteredLots)} units on hand</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Warehouse</Label>
+          <Select value={warehouseId} onValueChange={setWarehouseId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All warehouses</SelectItem>
+              {warehouses.map(warehouse => (
+                <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Expiring within</Label>
+          <Select value={expiryWindow} onValueChange={setExpiryWindow}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_WINDOWS.map(days => (
+                <SelectItem key={days} value={String(days)}>{days} days (and expired)</SelectItem>
+              ))}
+              <SelectItem value={ALL}>All lots</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lot-search">Search</Label>
+          <Input
+            id="lot-search"
+            placeholder="Lot number, product or SKU"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lots</CardTitle>
+          <CardDescription>
+            Earliest expiry first. Sales pick from these lots in the same order unless lots are chosen on the sale.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : filteredLots.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              {expiryWindow === ALL ? 'No lots with stock on hand' : `No lots expire within ${expiryWindow} days`}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Expiry</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredLots.map(lot => {
+                  const status = getLotExpiryStatus(lot.expiry_date, warningDays)
+                  const daysLeft = lot.expiry_date
+                    ? differenceInCalendarDays(parseISO(lot.expiry_date), new Date())
+                    : null
+                  return (
+                    <TableRow key={lot.id}>
+                      <TableCell className="font-mono text-sm">{lot.lot_number}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{lot.product_name}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{lot.sku || '—'}</div>
+                      </TableCell>
+                      <TableCell>{lot.warehouse_name}</TableCell>
+                      <TableCell>
+                        {lot.expiry_date ? (
+                          <>
+                            <div>{formatShortDate(lot.expiry_date)}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {daysLeft !== null && daysLeft < 0
+                                ? `${Math.abs(daysLeft)} days ago`
+                                : `in ${daysLeft} days`}
+                            </div>
+                          </>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{lot.quantity}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{lot.received_quantity}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={LOT_EXPIRY_STATUS_BADGE_CLASSES[status]}>
+                          {LOT_EXPIRY_STATUS_LABELS[status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import * as React from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { History, ScanLine } from "lucide-react"
+import { toast } from "sonner"
+import {
+  getSerialNumberHistory,
+  searchSerialNumbers,
+  SERIAL_NUMBER_EVENT_LABELS,
+  SERIAL_NUMBER_STATUS_BADGE_CLASSES,
+  SERIAL_NUMBER_STATUS_LABELS,
+  type SerialNumberEvent,
+  type SerialNumberWithItem
+} from "@/lib/supabase/serial-numbers"
+
+const formatDateTime = (date: string) => format(parseISO(date), 'dd MMM yyyy, HH:mm')
+
+export default function SerialNumbersPage() {
+  const [searchTerm, setSearchTerm] = React.useState('')
+  const [results, setResults] = React.useState<SerialNumberWithItem[]>([])
+  const [searching, setSearching] = React.useState(false)
+  const [selected, setSelected] = React.useState<SerialNumberWithItem | null>(null)
+  const [history, setHistory] = React.useState<SerialNumberEvent[]>([])
+  const [historyLoading, setHistoryLoading] = React.useState(false)
+
+  // Search as the user types or scans, once the input settles
+  React.useEffect(() => {
+    const term = searchTerm.trim()
+    if (!term) {
+      setResults([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      setSearching(true)
+      searchSerialNumbers(term)
+        .then(units => {
+          if (cancelled) return
+          setResults(units)
+          // A scan that matches exactly one unit opens its history straight away
+          const exact = units.filter(unit => unit.serial_number.toLowerCase() === term.toLowerCase())
+          if (exact.length === 1) setSelected(exact[0])
+        })
+        .catch(error => {
+          console.error('Error searching serial numbers:', error)
+          toast.error('Failed to search serial numbers')
+        })
+        .finally(() => { if (!cancelled) setSearching(false) })
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchTerm])
+
+  React.useEffect(() => {
+    if (!selected) {
+      setHistory([])
+      return
+    }
+
+    setHistoryLoading(true)
+    getSerialNumberHistory(selected.id)
+      .then(setHistory)
+      .catch(error => {
+        console.error('Error loading serial number history:', error)
+        toast.error('Failed to load the history of this unit')
+      })
+      .finally(() => setHistoryLoading(false))
+  }, [selected])
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Serial Numbers</h1>
+        <p className="text-muted-foreground">
+          Find a unit of a serial-tracked product and see where it is and everything that happened to it
+        </p>
+      </div>
+
+      <div className="max-w-md space-y-2">
+        <Label htmlFor="serial-search">Serial number</Label>
+        <div className="relative">
+          <ScanLine className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            id="serial-search"
+            placeholder="Scan or type a serial number"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-8"
+            autoFocus
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-5">
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle>Units</CardTitle>
+            <CardDescription>Up to 50 serial numbers containing the search text</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {searching ? (
+              <div className="space-y-3">
+                {Array.from({ length: 4 }).map((_, index) => (
+                  <Skeleton key={index} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : results.length === 0 ? (
+              <div className="py-12 text-center text-muted-foreground">
+                {searchTerm.trim() ? 'No serial numbers match this search' : 'Scan or type a serial number to look it up'}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Serial</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(unit => (
+                    <TableRow
+                      key={unit.id}
+                      onClick={() => setSelected(unit)}
+                      className={`cursor-pointer ${selected?.id === unit.id ? 'bg-muted' : ''}`}
+                    >
+                      <TableCell className="font-mono text-sm">{unit.serial_number}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{unit.product_name}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{unit.sku || '—'}</div>
+                      </TableCell>
+                      <TableCell>{unit.warehouse_name || '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={SERIAL_NUMBER_STATUS_BADGE_CLASSES[unit.status]}>
+                          {SERIAL_NUMBER_STATUS_LABELS[unit.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              History
+            </CardTitle>
+            <CardDescription>
+              {selected ? `${selected.serial_number} · ${selected.product_name}` : 'Select a unit to see its history'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!selected ? null : historyLoading ? (
+              <div className="space-y-3">
+                {Array.from({ length: 3 }).map((_, index) => (
+                  <Skeleton key={index} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No events recorded for this unit</p>
+            ) : (
+              <ol className="relative border-l pl-4 space-y-4">
+                {history.map(event => (
+                  <li key={event.id}>
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                    <div className="font-medium text-sm">{SERIAL_NUMBER_EVENT_LABELS[event.event_type]}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDateTime(event.created_at)} · {event.created_by}
+                      {event.warehouse_name ? ` · ${event.warehouse_name}` : ''}
+                    </div>
+                    {event.reference_id && (
+                      <div className="text-xs font-mono text-muted-foreground">{event.reference_id}</div>
+                    )}
+                    {event.notes && <p className="text-xs mt-1">{event.notes}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,456 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, CheckCircle, EyeOff, Loader2, RotateCcw, Save, Search, Send, XCircle } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import {
+  getStockCountSession,
+  saveStockCountLines,
+  submitStockCount,
+  reopenStockCount,
+  cancelStockCount,
+  postStockCount,
+  getLineVarianceValue,
+  STOCK_COUNT_ERROR_MESSAGES,
+  STOCK_COUNT_STATUS_LABELS,
+  type StockCountLine,
+  type StockCountLineUpdate,
+  type StockCountWithLines
+} from "@/lib/supabase/stock-counts"
+
+type CountAction = 'submit' | 'reopen' | 'post' | 'cancel'
+
+const ACTION_LABELS: Record<CountAction, string> = {
+  submit: 'Submit Count',
+  reopen: 'Send Back for Recount',
+  post: 'Post Variances',
+  cancel: 'Cancel Count'
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+const varianceClass = (value: number) => (value < 0 ? 'text-red-600' : value > 0 ? 'text-green-600' : '')
+
+export default function StockCountDetailPage() {
+  const params = useParams()
+  const id = params.id as string
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+
+  const [session, setSession] = React.useState<StockCountWithLines | null>(null)
+  const [loading, setLoading] = React.useState(true)
+  const [working, setWorking] = React.useState(false)
+  const [edits, setEdits] = React.useState<Record<string, Omit<StockCountLineUpdate, 'id'>>>({})
+  const [searchTerm, setSearchTerm] = React.useState('')
+  const [variancesOnly, setVariancesOnly] = React.useState(false)
+  const [pendingAction, setPendingAction] = React.useState<CountAction | null>(null)
+
+  const load = React.useCallback(async () => {
+    try {
+      setSession(await getStockCountSession(id))
+      setEdits({})
+    } catch (error) {
+      console.error('Error loading stock count:', error)
+      toast.error('Failed to load the stock count')
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  React.useEffect(() => {
+    load()
+  }, [load])
+
+  // Lines with unsaved edits applied on top
+  const lines = React.useMemo<StockCountLine[]>(() => (session?.lines || []).map(line => {
+    const edit = edits[line.id]
+    if (!edit) return line
+    const merged = { ...line, ...edit } as StockCountLine
+    merged.variance_quantity = merged.counted_quantity === null || merged.counted_quantity === undefined
+      ? null
+      : merged.counted_quantity - merged.expected_quantity
+    return merged
+  }), [session, edits])
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    )
+  }
+
+  if (!session) {
+    return (
+      <div className="flex-1 px-4 sm:px-6 lg:px-8 py-6 text-center text-muted-foreground">
+        Stock count not found. <Link href="/warehouses/stock-counts" className="text-primary hover:underline">Back to stock counts</Link>
+      </div>
+    )
+  }
+
+  const isCounting = session.status === 'counting'
+  const isSubmitted = session.status === 'submitted'
+  const hideExpected = session.blind_count && isCounting
+  const hasUnsavedEdits = Object.keys(edits).length > 0
+
+  const counted = lines.filter(line => line.counted_quantity !== null).length
+  const approvedVariances = lines.filter(line => line.approved && (line.variance_quantity || 0) !== 0)
+  const losses = approvedVariances.reduce((sum, line) => sum + Math.min(getLineVarianceValue(line), 0), 0)
+  const gains = approvedVariances.reduce((sum, line) => sum + Math.max(getLineVarianceValue(line), 0), 0)
+
+  const term = searchTerm.trim().toLowerCase()
+  const visibleLines = lines.filter(line =>
+    (!term || line.item_name.toLowerCase().includes(term) || (line.sku || '').toLowerCase().includes(term)) &&
+    (!variancesOnly || hideExpected || (line.variance_quantity || 0) !== 0)
+  )
+
+  const updateLine = (lineId: string, changes: Omit<StockCountLineUpdate, 'id'>) => {
+    setEdits(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }))
+  }
+
+  const saveEdits = async () => {
+    if (!hasUnsavedEdits) return
+    await saveStockCountLines(
+      session.id,
+      Object.entries(edits).map(([lineId, changes]) => ({ id: lineId, ...changes })),
+      currentUser
+    )
+  }
+
+  const handleSave = async () => {
+    try {
+      setWorking(true)
+      await saveEdits()
+      toast.success('Counts saved')
+      await load()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save counts')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return
+
+    try {
+      setWorking(true)
+      switch (pendingAction) {
+        case 'submit':
+          await saveEdits()
+          await submitStockCount(session.id, currentUser)
+          toast.success('Count submitted for approval')
+          break
+        case 'reopen':
+          await reopenStockCount(session.id)
+          toast.success('Count sent back for recounting')
+          break
+        case 'cancel':
+          await cancelStockCount(session.id, session.status, currentUser)
+          toast.success('Count cancelled')
+          break
+        case 'post': {
+          await saveEdits()
+          const result = await postStockCount(session.id, currentUser)
+          if (!result.success) {
+            toast.error(`${STOCK_COUNT_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+            return
+          }
+          toast.success(`Variances posted. Net ${formatCurrency(result.variance_value)}`)
+          break
+        }
+      }
+      setPendingAction(null)
+      await load()
+    } catch (error) {
+      console.error(`Error running ${pendingAction} on stock count:`, error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update the stock count')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const describeAction = (action: CountAction) => {
+    switch (action) {
+      case 'submit':
+        return counted < lines.length
+          ? `${lines.length - counted} lines have no count yet. They must be counted or left unapproved before posting.`
+          : 'Counting is finished. Expected quantities and variances will be shown for approval.'
+      case 'reopen':
+        return 'The counted quantities can be edited again. Approvals are kept.'
+      case 'cancel':
+        return 'The count is cancelled and nothing is posted. Stock stays as it is.'
+      case 'post':
+        return `${approvedVariances.length} approved variances are posted as stock adjustments in ${session.warehouse_name}, with a shrinkage entry for ${formatCurrency(Math.abs(losses))} lost and ${formatCurrency(gains)} found.`
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="icon" asChild>
+            <Link href="/warehouses/stock-counts" aria-label="Back to stock counts">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              {session.count_number}
+              <Badge variant="outline">{STOCK_COUNT_STATUS_LABELS[session.status]}</Badge>
+            </h1>
+            <p className="text-muted-foreground">
+              {session.warehouse_name} · {format(parseISO(session.count_date), 'dd MMM yyyy')}
+              {session.blind_count && ' · Blind count'}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {isCounting && (
+            <>
+              <Button variant="outline" onClick={handleSave} disabled={working || !hasUnsavedEdits}>
+                <Save className="h-4 w-4 mr-2" /> Save Counts
+              </Button>
+              <Button onClick={() => setPendingAction('submit')} disabled={working}>
+                <Send className="h-4 w-4 mr-2" /> Submit
+              </Button>
+            </>
+          )}
+          {isSubmitted && (
+            <>
+              <Button variant="outline" onClick={() => setPendingAction('reopen')} disabled={working}>
+                <RotateCcw className="h-4 w-4 mr-2" /> Recount
+              </Button>
+              <Button onClick={() => setPendingAction('post')} disabled={working}>
+                <CheckCircle className="h-4 w-4 mr-2" /> Post Variances
+              </Button>
+            </>
+          )}
+          {(isCounting || isSubmitted) && (
+            <Button variant="ghost" onClick={() => setPendingAction('cancel')} disabled={working}>
+              <XCircle className="h-4 w-4 mr-2" /> Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Counted</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{counted} / {lines.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Lines with Variance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{hideExpected ? <EyeOff className="h-6 w-6 text-muted-foreground" /> : approvedVariances.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Shrinkage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">
+              {hideExpected ? <EyeOff className="h-6 w-6 text-muted-foreground" /> : formatCurrency(Math.abs(losses))}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Surplus</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">
+              {hideExpected ? <EyeOff className="h-6 w-6 text-muted-foreground" /> : formatCurrency(gains)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {session.status === 'posted' && session.journal_entry_id && (
+        <p className="text-sm text-muted-foreground">
+          Posted by {session.posted_by} on {session.posted_at ? format(parseISO(session.posted_at), 'dd MMM yyyy HH:mm') : '—'}.
+          Shrinkage entry recorded on the <Link href="/transactions" className="text-primary hover:underline">Transactions</Link> page.
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Count Sheet</CardTitle>
+          <CardDescription>
+            {hideExpected
+              ? 'Enter the quantity found on the shelf for each item. Expected quantities are hidden for this blind count.'
+              : 'Expected quantities were frozen when the count started. Variances are valued at the cost at that time.'}
+          </CardDescription>
+          <div className="flex flex-wrap items-center gap-4 pt-2">
+            <div className="relative w-full max-w-xs">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Item name or SKU"
+                className="pl-8"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            {!hideExpected && (
+              <div className="flex items-center gap-2">
+                <Switch id="variances-only" checked={variancesOnly} onCheckedChange={setVariancesOnly} />
+                <Label htmlFor="variances-only">Variances only</Label>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {isSubmitted && <TableHead className="w-10">Post</TableHead>}
+                <TableHead>Item</TableHead>
+                <TableHead>SKU</TableHead>
+                {!hideExpected && <TableHead className="text-right">Expected</TableHead>}
+                <TableHead className="text-right w-32">Counted</TableHead>
+                {!hideExpected && <TableHead className="text-right">Variance</TableHead>}
+                {!hideExpected && <TableHead className="text-right">Value</TableHead>}
+                <TableHead>Notes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLines.map(line => {
+                const value = session.status === 'posted' && line.posted_value !== null
+                  ? Number(line.posted_value)
+                  : getLineVarianceValue(line)
+
+                return (
+                  <TableRow key={line.id} className={!line.approved ? 'opacity-50' : ''}>
+                    {isSubmitted && (
+                      <TableCell>
+                        <Checkbox
+                          checked={line.approved}
+                          onCheckedChange={(checked) => updateLine(line.id, { approved: checked === true })}
+                          aria-label={`Post the variance for ${line.item_name}`}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <div className="font-medium">{line.item_name}</div>
+                      {line.item_type === 'package' && <Badge variant="secondary" className="mt-1">Packaging</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{line.sku || '—'}</TableCell>
+                    {!hideExpected && <TableCell className="text-right">{line.expected_quantity}</TableCell>}
+                    <TableCell className="text-right">
+                      {isCounting ? (
+                        <Input
+                          type="number"
+                          min={0}
+                          className="text-right"
+                          value={line.counted_quantity ?? ''}
+                          onChange={(e) => updateLine(line.id, {
+                            counted_quantity: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0)
+                          })}
+                        />
+                      ) : (
+                        line.counted_quantity ?? '—'
+                      )}
+                    </TableCell>
+                    {!hideExpected && (
+                      <TableCell className={`text-right font-medium ${varianceClass(line.variance_quantity || 0)}`}>
+                        {line.variance_quantity === null ? '—' : line.variance_quantity > 0 ? `+${line.variance_quantity}` : line.variance_quantity}
+                      </TableCell>
+                    )}
+                    {!hideExpected && (
+                      <TableCell className={`text-right ${varianceClass(value)}`}>
+                        {line.variance_quantity ? formatCurrency(value) : '—'}
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      {isCounting || isSubmitted ? (
+                        <Input
+                          placeholder="e.g., Damaged"
+                          value={line.notes || ''}
+                          onChange={(e) => updateLine(line.id, { notes: e.target.value || null })}
+                        />
+                      ) : (
+                        <span className="text-sm text-muted-foreground">{line.notes || ''}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+          {visibleLines.length === 0 && (
+            <div className="py-8 text-center text-muted-foreground">No lines match</div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Confirm actions */}
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => { if (!open) setPendingAction(null) }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction ? ACTION_LABELS[pendingAction] : ''}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingAction ? describeAction(pendingAction) : ''}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleConfirmAction()
+              }}
+              disabled={working}
+            >
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction ? ACTION_LABELS[pendingAction] : ''}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,334 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ClipboardCheck, ClipboardList, Loader2, Plus, TrendingDown } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import { getWarehouses, type DatabaseWarehouse } from "@/lib/supabase/queries"
+import {
+  getStockCountSessions,
+  startStockCount,
+  STOCK_COUNT_ERROR_MESSAGES,
+  STOCK_COUNT_STATUS_LABELS,
+  type StockCountScope,
+  type StockCountSession,
+  type StockCountStatus
+} from "@/lib/supabase/stock-counts"
+
+const STATUS_BADGE_CLASSES: Record<StockCountStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  submitted: 'bg-amber-100 text-amber-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-200 text-gray-800'
+}
+
+const SCOPE_LABELS: Record<StockCountScope, string> = {
+  all: 'Products and packaging',
+  products: 'Products only',
+  packaging: 'Packaging only'
+}
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function StockCountsPage() {
+  const router = useRouter()
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+
+  const [sessions, setSessions] = React.useState<StockCountSession[]>([])
+  const [warehouses, setWarehouses] = React.useState<DatabaseWarehouse[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  const [isStartOpen, setIsStartOpen] = React.useState(false)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [warehouseId, setWarehouseId] = React.useState('')
+  const [scope, setScope] = React.useState<StockCountScope>('all')
+  const [blindCount, setBlindCount] = React.useState(true)
+  const [countDate, setCountDate] = React.useState<Date>(new Date())
+  const [notes, setNotes] = React.useState('')
+
+  const loadSessions = React.useCallback(async () => {
+    try {
+      setLoading(true)
+      setSessions(await getStockCountSessions())
+    } catch (error) {
+      console.error('Error loading stock counts:', error)
+      toast.error('Failed to load stock counts')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    loadSessions()
+    getWarehouses()
+      .then(setWarehouses)
+      .catch(error => console.error('Error loading warehouses:', error))
+  }, [loadSessions])
+
+  // Warehouses that already have a count running can't start another
+  const busyWarehouses = new Set(
+    sessions.filter(session => session.status === 'counting' || session.status === 'submitted').map(session => session.warehouse_id)
+  )
+
+  const openStartDialog = () => {
+    setWarehouseId('')
+    setScope('all')
+    setBlindCount(true)
+    setCountDate(new Date())
+    setNotes('')
+    setIsStartOpen(true)
+  }
+
+  const handleStart = async () => {
+    if (!warehouseId) {
+      toast.error('Select the warehouse to count')
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      const result = await startStockCount({
+        warehouse_id: warehouseId,
+        scope,
+        blind_count: blindCount,
+        count_date: format(countDate, 'yyyy-MM-dd'),
+        notes: notes.trim() || undefined
+      }, currentUser)
+
+      if (!result.success) {
+        toast.error(`${STOCK_COUNT_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+        return
+      }
+
+      toast.success(`Stock count started with ${result.total_lines} lines`)
+      setIsStartOpen(false)
+      router.push(`/warehouses/stock-counts/${result.session_id}`)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inProgress = sessions.filter(session => session.status === 'counting').length
+  const awaitingApproval = sessions.filter(session => session.status === 'submitted').length
+  const postedThisYear = sessions
+    .filter(session => session.status === 'posted' && session.count_date.startsWith(String(new Date().getFullYear())))
+    .reduce((sum, session) => sum + Number(session.variance_value || 0), 0)
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Stock Counts</h1>
+          <p className="text-muted-foreground">
+            Count each warehouse against frozen expected quantities and post the approved variances
+          </p>
+        </div>
+        <Button onClick={openStartDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Start Count
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Counting</CardTitle>
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : inProgress}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Approval</CardTitle>
+            <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : awaitingApproval}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Net Variance This Year</CardTitle>
+            <TrendingDown className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${postedThisYear < 0 ? 'text-red-600' : ''}`}>
+              {loading ? <Skeleton className="h-8 w-24" /> : formatCurrency(postedThisYear)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Count Sessions</CardTitle>
+          <CardDescription>Open a session to enter counts, review variances or post them</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              No stock counts yet. Start one to count a warehouse.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Count</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map(session => (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <Link href={`/warehouses/stock-counts/${session.id}`} className="font-mono text-sm text-primary hover:underline">
+                        {session.count_number}
+                      </Link>
+                      {session.blind_count && <Badge variant="outline" className="ml-2">Blind</Badge>}
+                    </TableCell>
+                    <TableCell>{session.warehouse_name}</TableCell>
+                    <TableCell>{formatShortDate(session.count_date)}</TableCell>
+                    <TableCell>{SCOPE_LABELS[session.scope]}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGE_CLASSES[session.status]}>{STOCK_COUNT_STATUS_LABELS[session.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{session.total_lines}</TableCell>
+                    <TableCell className={`text-right ${Number(session.variance_value) < 0 ? 'text-red-600' : ''}`}>
+                      {session.status === 'posted' ? formatCurrency(Number(session.variance_value)) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Start dialog */}
+      <Dialog open={isStartOpen} onOpenChange={setIsStartOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Start Stock Count</DialogTitle>
+            <DialogDescription>
+              The warehouse&apos;s current quantities are frozen as the expected quantities for this count.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label>Warehouse *</Label>
+              <Select value={warehouseId} onValueChange={setWarehouseId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.map(warehouse => (
+                    <SelectItem key={warehouse.id} value={warehouse.id} disabled={busyWarehouses.has(warehouse.id)}>
+                      {warehouse.name}{busyWarehouses.has(warehouse.id) ? ' (count in progress)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Count</Label>
+                <Select value={scope} onValueChange={(value) => setScope(value as StockCountScope)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SCOPE_LABELS) as StockCountScope[]).map(option => (
+                      <SelectItem key={option} value={option}>{SCOPE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Count date</Label>
+                <DatePicker date={countDate} onDateChange={(date) => date && setCountDate(date)} placeholder="Count date" />
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="blind-count">Blind count</Label>
+                <p className="text-xs text-muted-foreground">Hide expected quantities from counters until the count is submitted</p>
+              </div>
+              <Switch id="blind-count" checked={blindCount} onCheckedChange={setBlindCount} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="count-notes">Notes</Label>
+              <Textarea id="count-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsStartOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleStart} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start Count
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
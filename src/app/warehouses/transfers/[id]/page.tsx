@@ -0,0 +1,618 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, ArrowRight, Edit, Loader2, PackageCheck, Send, XCircle } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import { getWarehouses, type DatabaseWarehouse } from "@/lib/supabase/queries"
+import { TransferOrderForm } from "@/components/warehouses/TransferOrderForm"
+import { SerialNumberInput } from "@/components/SerialNumberInput"
+import { getHeldSerialNumbers } from "@/lib/supabase/serial-numbers"
+import {
+  getTransferOrder,
+  dispatchTransferOrder,
+  receiveTransferOrder,
+  cancelTransferOrder,
+  getInTransitQuantity,
+  TRANSFER_ORDER_ERROR_MESSAGES,
+  TRANSFER_ORDER_STATUS_BADGE_CLASSES,
+  TRANSFER_ORDER_STATUS_LABELS,
+  type TransferOrderWithDetails
+} from "@/lib/supabase/transfer-orders"
+
+type TransferAction = 'dispatch' | 'cancel'
+
+const ACTION_LABELS: Record<TransferAction, string> = {
+  dispatch: 'Dispatch Transfer',
+  cancel: 'Cancel Transfer'
+}
+
+interface ReceiptLineInput {
+  received_quantity: number
+  discrepancy_quantity: number
+  discrepancy_reason: string
+  // Serial-tracked lines: the units still in transit, split into arrived and missing
+  in_transit_serials?: string[]
+  serial_numbers: string[]
+  discrepancy_serial_numbers: string[]
+}
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function TransferDetailPage() {
+  const params = useParams()
+  const id = params.id as string
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+
+  const [transfer, setTransfer] = React.useState<TransferOrderWithDetails | null>(null)
+  const [warehouses, setWarehouses] = React.useState<DatabaseWarehouse[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [working, setWorking] = React.useState(false)
+  const [isEditing, setIsEditing] = React.useState(false)
+  const [pendingAction, setPendingAction] = React.useState<TransferAction | null>(null)
+
+  const [isReceiveOpen, setIsReceiveOpen] = React.useState(false)
+  const [receivedDate, setReceivedDate] = React.useState<Date>(new Date())
+  const [receiptNotes, setReceiptNotes] = React.useState('')
+  const [receiptLines, setReceiptLines] = React.useState<Record<string, ReceiptLineInput>>({})
+
+  const load = React.useCallback(async () => {
+    try {
+      setTransfer(await getTransferOrder(id))
+    } catch (error) {
+      console.error('Error loading transfer:', error)
+      toast.error('Failed to load the transfer')
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  React.useEffect(() => {
+    load()
+    getWarehouses()
+      .then(setWarehouses)
+      .catch(error => console.error('Error loading warehouses:', error))
+  }, [load])
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    )
+  }
+
+  if (!transfer) {
+    return (
+      <div className="flex-1 px-4 sm:px-6 lg:px-8 py-6 text-center text-muted-foreground">
+        Transfer not found. <Link href="/warehouses/transfers" className="text-primary hover:underline">Back to transfers</Link>
+      </div>
+    )
+  }
+
+  const isDraft = transfer.status === 'draft'
+  const canReceive = transfer.status === 'dispatched' || transfer.status === 'partially_received'
+  const inTransit = transfer.items.reduce((sum, item) => sum + (isDraft ? 0 : getInTransitQuantity(item)), 0)
+  const itemsById = new Map(transfer.items.map(item => [item.id, item]))
+
+  const openReceiveDialog = async () => {
+    let inTransitSerials: string[] = []
+    if (transfer.items.some(item => item.serial_numbers)) {
+      try {
+        inTransitSerials = (await getHeldSerialNumbers([transfer.id], 'in_transit'))[transfer.id] || []
+      } catch (error) {
+        console.error('Error loading serial numbers:', error)
+        toast.error('Failed to load the serial numbers in transit')
+        return
+      }
+    }
+
+    // Default to receiving everything still in transit
+    setReceiptLines(Object.fromEntries(transfer.items.map(item => {
+      const serials = item.serial_numbers
+        ? inTransitSerials.filter(serial => item.serial_numbers!.includes(serial))
+        : undefined
+      return [
+        item.id,
+        {
+          received_quantity: getInTransitQuantity(item),
+          discrepancy_quantity: 0,
+          discrepancy_reason: '',
+          in_transit_serials: serials,
+          serial_numbers: serials || [],
+          discrepancy_serial_numbers: []
+        }
+      ]
+    })))
+    setReceivedDate(new Date())
+    setReceiptNotes('')
+    setIsReceiveOpen(true)
+  }
+
+  const updateReceiptLine = (itemId: string, changes: Partial<ReceiptLineInput>) => {
+    setReceiptLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }))
+  }
+
+  // A serial marked as arrived is no longer missing, and the other way round
+  const updateReceiptSerials = (itemId: string, arrived: string[], missing: string[]) => {
+    updateReceiptLine(itemId, {
+      serial_numbers: arrived,
+      discrepancy_serial_numbers: missing,
+      received_quantity: arrived.length,
+      discrepancy_quantity: missing.length
+    })
+  }
+
+  const handleReceive = async () => {
+    for (const item of transfer.items) {
+      const line = receiptLines[item.id]
+      if (!line) continue
+      if (line.received_quantity + line.discrepancy_quantity > getInTransitQuantity(item)) {
+        toast.error(`Only ${getInTransitQuantity(item)} of ${item.item_name} are still in transit`)
+        return
+      }
+      if (line.discrepancy_quantity > 0 && !line.discrepancy_reason.trim()) {
+        toast.error(`Give a reason for the missing ${item.item_name}`)
+        return
+      }
+    }
+
+    try {
+      setWorking(true)
+      const result = await receiveTransferOrder(transfer.id, {
+        received_date: format(receivedDate, 'yyyy-MM-dd'),
+        notes: receiptNotes.trim() || undefined,
+        items: Object.entries(receiptLines)
+          .filter(([, line]) => line.received_quantity > 0 || line.discrepancy_quantity > 0)
+          .map(([itemId, line]) => ({
+            transfer_order_item_id: itemId,
+            received_quantity: line.received_quantity,
+            discrepancy_quantity: line.discrepancy_quantity,
+            discrepancy_reason: line.discrepancy_reason.trim() || undefined,
+            serial_numbers: line.in_transit_serials ? line.serial_numbers : undefined,
+            discrepancy_serial_numbers: line.in_transit_serials ? line.discrepancy_serial_numbers : undefined
+          }))
+      }, currentUser)
+
+      if (!result.success) {
+        toast.error(`${TRANSFER_ORDER_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+        return
+      }
+
+      toast.success(result.status === 'received' ? 'Transfer fully received' : 'Receipt recorded; the rest is still in transit')
+      if (result.discrepancy_value > 0) {
+        toast.info(`${formatCurrency(result.discrepancy_value)} written off to Inventory Shrinkage`)
+      }
+      setIsReceiveOpen(false)
+      await load()
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return
+
+    try {
+      setWorking(true)
+      if (pendingAction === 'dispatch') {
+        const result = await dispatchTransferOrder(transfer.id, currentUser)
+        if (!result.success) {
+          toast.error(`${TRANSFER_ORDER_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+          return
+        }
+        toast.success(`Transfer dispatched from ${transfer.from_warehouse_name}`)
+      } else {
+        await cancelTransferOrder(transfer.id, currentUser)
+        toast.success('Transfer cancelled')
+      }
+      setPendingAction(null)
+      await load()
+    } catch (error) {
+      console.error(`Error running ${pendingAction} on transfer:`, error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update the transfer')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const describeAction = (action: TransferAction) => {
+    switch (action) {
+      case 'dispatch':
+        return `${transfer.total_quantity} units leave ${transfer.from_warehouse_name} now and stay in transit until they are received at ${transfer.to_warehouse_name}.`
+      case 'cancel':
+        return 'The draft is cancelled. No stock has moved.'
+    }
+  }
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="icon" asChild>
+            <Link href="/warehouses/transfers" aria-label="Back to transfers">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              {transfer.transfer_number}
+              <Badge className={TRANSFER_ORDER_STATUS_BADGE_CLASSES[transfer.status]}>
+                {TRANSFER_ORDER_STATUS_LABELS[transfer.status]}
+              </Badge>
+            </h1>
+            <p className="text-muted-foreground flex items-center gap-2">
+              <Link href={`/warehouses/${transfer.from_warehouse_id}`} className="hover:underline">{transfer.from_warehouse_name}</Link>
+              <ArrowRight className="h-3 w-3" />
+              <Link href={`/warehouses/${transfer.to_warehouse_id}`} className="hover:underline">{transfer.to_warehouse_name}</Link>
+              <span>· {formatShortDate(transfer.transfer_date)}</span>
+              {transfer.expected_date && <span>· Expected {formatShortDate(transfer.expected_date)}</span>}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {isDraft && !isEditing && (
+            <>
+              <Button variant="outline" onClick={() => setIsEditing(true)} disabled={working}>
+                <Edit className="h-4 w-4 mr-2" /> Edit
+              </Button>
+              <Button onClick={() => setPendingAction('dispatch')} disabled={working}>
+                <Send className="h-4 w-4 mr-2" /> Dispatch
+              </Button>
+              <Button variant="ghost" onClick={() => setPendingAction('cancel')} disabled={working}>
+                <XCircle className="h-4 w-4 mr-2" /> Cancel
+              </Button>
+            </>
+          )}
+          {canReceive && (
+            <Button onClick={openReceiveDialog} disabled={working}>
+              <PackageCheck className="h-4 w-4 mr-2" /> Receive
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <TransferOrderForm
+          warehouses={warehouses}
+          transfer={transfer}
+          onSaved={async () => {
+            setIsEditing(false)
+            await load()
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <>
+          {/* Stats Cards */}
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Units</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{transfer.total_quantity}</div>
+                {!isDraft && transfer.status !== 'cancelled' && (
+                  <p className="text-xs text-muted-foreground">{formatCurrency(Number(transfer.total_value))} at cost</p>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">In Transit</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-blue-600">{inTransit}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Received</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-600">{transfer.received_quantity}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Discrepancy</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${transfer.discrepancy_quantity > 0 ? 'text-red-600' : ''}`}>
+                  {transfer.discrepancy_quantity}
+                </div>
+                {transfer.discrepancy_quantity > 0 && (
+                  <p className="text-xs text-muted-foreground">{formatCurrency(Number(transfer.discrepancy_value))} written off</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Lines */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+              <CardDescription>
+                {transfer.notes || 'Quantities sent, received and recorded as missing per line'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Missing</TableHead>
+                    <TableHead className="text-right">In Transit</TableHead>
+                    <TableHead>Discrepancy Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfer.items.map(item => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.item_name}</div>
+                        {item.item_type === 'package' && <Badge variant="secondary" className="mt-1">Packaging</Badge>}
+                        {item.serial_numbers && (
+                          <div className="font-mono text-xs text-muted-foreground">S/N {item.serial_numbers.join(', ')}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{item.sku || '—'}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{isDraft ? '—' : formatCurrency(Number(item.unit_cost))}</TableCell>
+                      <TableCell className="text-right text-green-600">{item.received_quantity}</TableCell>
+                      <TableCell className={`text-right ${item.discrepancy_quantity > 0 ? 'text-red-600' : ''}`}>
+                        {item.discrepancy_quantity}
+                      </TableCell>
+                      <TableCell className="text-right text-blue-600">{isDraft ? '—' : getInTransitQuantity(item)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{item.discrepancy_reason || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Receipts */}
+          {transfer.receipts.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Receipts</CardTitle>
+                <CardDescription>Each delivery booked into {transfer.to_warehouse_name}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {transfer.receipts.map(receipt => (
+                  <div key={receipt.id} className="rounded-lg border p-4 space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div>
+                        <span className="font-mono text-sm">{receipt.receipt_number}</span>
+                        <span className="text-sm text-muted-foreground"> · {formatShortDate(receipt.received_date)} · {receipt.received_by}</span>
+                      </div>
+                      <div className="flex gap-2">
+                        <Badge variant="outline" className="text-green-600">{receipt.received_quantity} received</Badge>
+                        {receipt.discrepancy_quantity > 0 && (
+                          <Badge variant="outline" className="text-red-600">
+                            {receipt.discrepancy_quantity} missing · {formatCurrency(Number(receipt.discrepancy_value))}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <ul className="text-sm text-muted-foreground space-y-1">
+                      {receipt.items.map(line => (
+                        <li key={line.id}>
+                          {itemsById.get(line.transfer_order_item_id)?.item_name}: {line.received_quantity} received
+                          {line.discrepancy_quantity > 0 && `, ${line.discrepancy_quantity} missing (${line.discrepancy_reason})`}
+                          {line.discrepancy_serial_numbers?.length ? ` - missing S/N ${line.discrepancy_serial_numbers.join(', ')}` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                    {receipt.notes && <p className="text-sm">{receipt.notes}</p>}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {/* Receive dialog */}
+      <Dialog open={isReceiveOpen} onOpenChange={setIsReceiveOpen}>
+        <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Receive at {transfer.to_warehouse_name}</DialogTitle>
+            <DialogDescription>
+              Enter what arrived. Units that will not arrive can be recorded as missing with a reason; they are written off at cost.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">In Transit</TableHead>
+                  <TableHead className="w-[110px] text-right">Received</TableHead>
+                  <TableHead className="w-[110px] text-right">Missing</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfer.items.filter(item => getInTransitQuantity(item) > 0).map(item => {
+                  const line = receiptLines[item.id]
+                  if (!line) return null
+                  const serials = line.in_transit_serials
+                  return (
+                    <React.Fragment key={item.id}>
+                    <TableRow>
+                      <TableCell className="font-medium">{item.item_name}</TableCell>
+                      <TableCell className="text-right">{getInTransitQuantity(item)}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={getInTransitQuantity(item)}
+                          value={line.received_quantity}
+                          onChange={(e) => updateReceiptLine(item.id, { received_quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                          disabled={!!serials}
+                          className="text-right"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={getInTransitQuantity(item)}
+                          value={line.discrepancy_quantity}
+                          onChange={(e) => updateReceiptLine(item.id, { discrepancy_quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                          disabled={!!serials}
+                          className="text-right"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          placeholder={line.discrepancy_quantity > 0 ? 'Required' : ''}
+                          value={line.discrepancy_reason}
+                          onChange={(e) => updateReceiptLine(item.id, { discrepancy_reason: e.target.value })}
+                          disabled={line.discrepancy_quantity === 0}
+                        />
+                      </TableCell>
+                    </TableRow>
+                    {serials && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="bg-muted/30">
+                          <div className="grid gap-4 md:grid-cols-2">
+                            <div className="space-y-1">
+                              <Label className="text-xs text-muted-foreground">Arrived</Label>
+                              <SerialNumberInput
+                                value={line.serial_numbers}
+                                onChange={(arrived) => updateReceiptSerials(
+                                  item.id,
+                                  arrived,
+                                  line.discrepancy_serial_numbers.filter(serial => !arrived.includes(serial))
+                                )}
+                                available={serials.filter(serial => !line.discrepancy_serial_numbers.includes(serial))}
+                                availableLabel="In transit - click to mark as arrived"
+                                placeholder="Scan the units that arrived"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label className="text-xs text-muted-foreground">Missing</Label>
+                              <SerialNumberInput
+                                value={line.discrepancy_serial_numbers}
+                                onChange={(missing) => updateReceiptSerials(
+                                  item.id,
+                                  line.serial_numbers.filter(serial => !missing.includes(serial)),
+                                  missing
+                                )}
+                                available={serials.filter(serial => !line.serial_numbers.includes(serial))}
+                                availableLabel="Not marked as arrived - click to record as missing"
+                                placeholder="Scan the units that will not arrive"
+                              />
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    </React.Fragment>
+                  )
+                })}
+              </TableBody>
+            </Table>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Received date</Label>
+                <DatePicker date={receivedDate} onDateChange={(date) => date && setReceivedDate(date)} placeholder="Received date" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receipt-notes">Notes</Label>
+                <Textarea id="receipt-notes" rows={2} value={receiptNotes} onChange={(e) => setReceiptNotes(e.target.value)} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReceiveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={working}>
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Receipt
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm actions */}
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => { if (!open) setPendingAction(null) }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction ? ACTION_LABELS[pendingAction] : ''}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingAction ? describeAction(pendingAction) : ''}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleConfirmAction()
+              }}
+              disabled={working}
+            >
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction ? ACTION_LABELS[pendingAction] : ''}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
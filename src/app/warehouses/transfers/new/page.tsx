@@ -0,0 +1,67 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getWarehouses, type DatabaseWarehouse } from "@/lib/supabase/queries"
+import { TransferOrderForm } from "@/components/warehouses/TransferOrderForm"
+
+function NewTransferContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [warehouses, setWarehouses] = React.useState<DatabaseWarehouse[] | null>(null)
+
+  React.useEffect(() => {
+    getWarehouses()
+      .then(setWarehouses)
+      .catch(error => {
+        console.error('Error loading warehouses:', error)
+        setWarehouses([])
+      })
+  }, [])
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/warehouses/transfers">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">New Transfer</h1>
+          <p className="text-muted-foreground">
+            Plan a stock transfer between warehouses; it stays a draft until it is dispatched
+          </p>
+        </div>
+      </div>
+
+      {warehouses === null ? (
+        <div className="space-y-4">
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : (
+        <TransferOrderForm
+          warehouses={warehouses}
+          defaultFromWarehouseId={searchParams.get('from') || undefined}
+          onSaved={(transferOrderId) => router.push(`/warehouses/transfers/${transferOrderId}`)}
+          onCancel={() => router.push('/warehouses/transfers')}
+        />
+      )}
+    </div>
+  )
+}
+
+export default function NewTransferPage() {
+  return (
+    <React.Suspense fallback={<div>Loading...</div>}>
+      <NewTransferContent />
+    </React.Suspense>
+  )
+}
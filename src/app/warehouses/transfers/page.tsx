@@ -0,0 +1,204 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertTriangle, ArrowRight, FileText, Plus, Truck } from "lucide-react"
+import { toast } from "sonner"
+import {
+  getTransferOrders,
+  TRANSFER_ORDER_STATUS_BADGE_CLASSES,
+  TRANSFER_ORDER_STATUS_LABELS,
+  type TransferOrder,
+  type TransferOrderStatus
+} from "@/lib/supabase/transfer-orders"
+
+const formatShortDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export default function TransfersPage() {
+  const [transfers, setTransfers] = React.useState<TransferOrder[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [statusFilter, setStatusFilter] = React.useState<string>('all')
+
+  React.useEffect(() => {
+    getTransferOrders()
+      .then(setTransfers)
+      .catch(error => {
+        console.error('Error loading transfers:', error)
+        toast.error('Failed to load transfers')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const filteredTransfers = statusFilter === 'all'
+    ? transfers
+    : transfers.filter(transfer => transfer.status === statusFilter)
+
+  const drafts = transfers.filter(transfer => transfer.status === 'draft').length
+  const inTransit = transfers.filter(transfer => transfer.status === 'dispatched' || transfer.status === 'partially_received')
+  const inTransitQuantity = inTransit.reduce(
+    (sum, transfer) => sum + transfer.total_quantity - transfer.received_quantity - transfer.discrepancy_quantity,
+    0
+  )
+  const discrepancyValue = transfers.reduce((sum, transfer) => sum + Number(transfer.discrepancy_value || 0), 0)
+
+  return (
+    <div className="flex-1 space-y-6 px-4 sm:px-6 lg:px-8 py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Transfers</h1>
+          <p className="text-muted-foreground">
+            Move stock between warehouses and track it while it is in transit
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/warehouses/transfers/new">
+            <Plus className="h-4 w-4 mr-2" />
+            New Transfer
+          </Link>
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Drafts</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : drafts}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">In Transit</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{loading ? <Skeleton className="h-8 w-12" /> : inTransit.length}</div>
+            <p className="text-xs text-muted-foreground">{inTransitQuantity.toLocaleString()} units on the way</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Discrepancies Written Off</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${discrepancyValue > 0 ? 'text-red-600' : ''}`}>
+              {loading ? <Skeleton className="h-8 w-24" /> : formatCurrency(discrepancyValue)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Transfer Orders</CardTitle>
+            <CardDescription>Open a transfer to dispatch it or record what arrived</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {(Object.keys(TRANSFER_ORDER_STATUS_LABELS) as TransferOrderStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{TRANSFER_ORDER_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : filteredTransfers.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              {transfers.length === 0 ? 'No transfers yet. Create one to move stock between warehouses.' : 'No transfers with this status'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transfer</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredTransfers.map(transfer => (
+                  <TableRow key={transfer.id}>
+                    <TableCell>
+                      <Link href={`/warehouses/transfers/${transfer.id}`} className="font-mono text-sm text-primary hover:underline">
+                        {transfer.transfer_number}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {transfer.from_warehouse_name}
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        {transfer.to_warehouse_name}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatShortDate(transfer.transfer_date)}</TableCell>
+                    <TableCell>
+                      <Badge className={TRANSFER_ORDER_STATUS_BADGE_CLASSES[transfer.status]}>
+                        {TRANSFER_ORDER_STATUS_LABELS[transfer.status]}
+                      </Badge>
+                      {transfer.discrepancy_quantity > 0 && (
+                        <Badge variant="outline" className="ml-2 text-red-600">{transfer.discrepancy_quantity} short</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{transfer.total_quantity}</TableCell>
+                    <TableCell className="text-right">{transfer.received_quantity}</TableCell>
+                    <TableCell className="text-right">
+                      {transfer.status === 'draft' || transfer.status === 'cancelled' ? '—' : formatCurrency(Number(transfer.total_value))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
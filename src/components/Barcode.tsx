@@ -0,0 +1,65 @@
+"use client"
+
+import * as React from "react"
+import { encodeBarcode } from "@/lib/utils/barcode"
+
+interface BarcodeProps {
+  value: string
+  // Height of the bars in pixels
+  height?: number
+  // Width of one module in pixels
+  moduleWidth?: number
+  showText?: boolean
+  className?: string
+}
+
+// Quiet zone on each side, in modules
+const QUIET_ZONE = 10
+
+export function Barcode({ value, height = 40, moduleWidth = 1.5, showText = true, className }: BarcodeProps) {
+  const modules = React.useMemo(() => encodeBarcode(value), [value])
+
+  // One rect per run of bars
+  const bars: { x: number; width: number }[] = []
+  let index = 0
+  while (index < modules.length) {
+    if (modules[index] === '1') {
+      const start = index
+      while (modules[index] === '1') index++
+      bars.push({ x: start, width: index - start })
+    } else {
+      index++
+    }
+  }
+
+  const width = (modules.length + QUIET_ZONE * 2) * moduleWidth
+  const textHeight = showText ? 12 : 0
+
+  return (
+    <svg
+      className={className}
+      width={width}
+      height={height + textHeight}
+      viewBox={`0 0 ${width} ${height + textHeight}`}
+      role="img"
+      aria-label={`Barcode ${value}`}
+    >
+      <rect width={width} height={height + textHeight} fill="#fff" />
+      {bars.map(bar => (
+        <rect
+          key={bar.x}
+          x={(bar.x + QUIET_ZONE) * moduleWidth}
+          y={0}
+          width={bar.width * moduleWidth}
+          height={height}
+          fill="#000"
+        />
+      ))}
+      {showText && (
+        <text x={width / 2} y={height + 10} textAnchor="middle" fontSize={10} fontFamily="monospace">
+          {value}
+        </text>
+      )}
+    </svg>
+  )
+}
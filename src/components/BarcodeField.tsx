@@ -0,0 +1,135 @@
+"use client"
+
+import * as React from "react"
+import { Loader2, Wand2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { generateEan13, getBarcodeFormat, getBarcodeFormatError } from "@/lib/utils/barcode"
+import { validateBarcode } from "@/lib/utils/barcodeValidation"
+
+export interface BarcodeValidationState {
+  isChecking: boolean
+  isValid: boolean | null  // null = empty or unknown, true = valid, false = invalid
+  message: string
+}
+
+interface BarcodeFieldProps {
+  id: string
+  value: string
+  onChange: (barcode: string) => void
+  // ID of the product, variation or packaging being edited, so its own barcode is not a clash
+  excludeId?: string
+  // Barcodes of other unsaved rows on the same form, e.g. sibling variations
+  otherBarcodes?: string[]
+  onValidationChange?: (state: BarcodeValidationState) => void
+  disabled?: boolean
+}
+
+const EMPTY_STATE: BarcodeValidationState = { isChecking: false, isValid: null, message: '' }
+
+export function BarcodeField({
+  id,
+  value,
+  onChange,
+  excludeId = '',
+  otherBarcodes = [],
+  onValidationChange,
+  disabled = false
+}: BarcodeFieldProps) {
+  const [validation, setValidation] = React.useState<BarcodeValidationState>(EMPTY_STATE)
+  const otherBarcodesKey = otherBarcodes.join('\n')
+
+  // Format first, then sibling rows, then the database once typing settles
+  React.useEffect(() => {
+    const barcode = value.trim()
+    if (!barcode) {
+      setValidation(EMPTY_STATE)
+      return
+    }
+
+    const formatError = getBarcodeFormatError(barcode)
+    if (formatError) {
+      setValidation({ isChecking: false, isValid: false, message: formatError })
+      return
+    }
+
+    if (otherBarcodesKey.split('\n').includes(barcode)) {
+      setValidation({ isChecking: false, isValid: false, message: 'Barcode already used by another variation' })
+      return
+    }
+
+    let cancelled = false
+    setValidation({ isChecking: true, isValid: null, message: 'Checking barcode...' })
+
+    const timer = setTimeout(() => {
+      validateBarcode(barcode, excludeId)
+        .then(exists => {
+          if (cancelled) return
+          setValidation(exists
+            ? { isChecking: false, isValid: false, message: 'Barcode already used by another item' }
+            : { isChecking: false, isValid: true, message: `${getBarcodeFormat(barcode) === 'EAN13' ? 'EAN-13' : 'Code128'} barcode is available` })
+        })
+        .catch(error => {
+          if (cancelled) return
+          setValidation({ isChecking: false, isValid: null, message: error instanceof Error ? error.message : 'Could not validate barcode' })
+        })
+    }, 500)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [value, excludeId, otherBarcodesKey])
+
+  React.useEffect(() => {
+    onValidationChange?.(validation)
+  }, [validation, onValidationChange])
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Barcode</Label>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Input
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Scan, type, or leave empty to generate"
+            disabled={disabled}
+            className={`font-mono ${
+              validation.isValid === false
+                ? 'border-red-500 focus-visible:ring-red-500'
+                : validation.isValid === true
+                  ? 'border-green-500 focus-visible:ring-green-500'
+                  : ''
+            }`}
+          />
+          {validation.isChecking && (
+            <Loader2 className="absolute right-2 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => onChange(generateEan13())}
+          disabled={disabled}
+          title="Generate an EAN-13"
+          aria-label="Generate an EAN-13"
+        >
+          <Wand2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {validation.message ? (
+        <p className={`text-xs ${
+          validation.isValid === false ? 'text-red-600' : validation.isValid === true ? 'text-green-600' : 'text-muted-foreground'
+        }`}>
+          {validation.message}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">13 digits print as EAN-13, anything else as Code128</p>
+      )}
+    </div>
+  )
+}
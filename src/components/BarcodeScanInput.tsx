@@ -0,0 +1,74 @@
+"use client"
+
+import * as React from "react"
+import { Loader2, ScanLine } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { toast } from "sonner"
+import { findItemByBarcode, type BarcodeItem } from "@/lib/supabase/barcodes"
+
+interface BarcodeScanInputProps {
+  // Called with the item behind each scanned barcode
+  onScan: (item: BarcodeItem) => void
+  disabled?: boolean
+  placeholder?: string
+  className?: string
+  autoFocus?: boolean
+}
+
+// Scanners type the barcode and press Enter; the input clears and keeps focus for the next scan
+export function BarcodeScanInput({
+  onScan,
+  disabled = false,
+  placeholder = 'Scan a barcode',
+  className,
+  autoFocus = false
+}: BarcodeScanInputProps) {
+  const [value, setValue] = React.useState('')
+  const [looking, setLooking] = React.useState(false)
+  const inputRef = React.useRef<HTMLInputElement>(null)
+
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return
+    e.preventDefault()
+
+    const barcode = value.trim()
+    if (!barcode || looking) return
+
+    setLooking(true)
+    try {
+      const item = await findItemByBarcode(barcode)
+      if (item) {
+        onScan(item)
+      } else {
+        toast.error(`No item has the barcode ${barcode}`)
+      }
+    } catch (error) {
+      console.error('Error scanning barcode:', error)
+      toast.error('Failed to look up the barcode')
+    } finally {
+      setValue('')
+      setLooking(false)
+      inputRef.current?.focus()
+    }
+  }
+
+  return (
+    <div className={`relative ${className || ''}`}>
+      {looking ? (
+        <Loader2 className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground animate-spin" />
+      ) : (
+        <ScanLine className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      )}
+      <Input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoFocus={autoFocus}
+        className="pl-8 font-mono"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import * as React from "react"
+import { ClipboardCheck, Calendar, User, MapPin, Package, Box, XCircle, AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  getGoodsReceivedNotes,
+  cancelGoodsReceivedNote,
+  GOODS_RECEIVED_NOTE_ERROR_MESSAGES
+} from "@/lib/supabase/purchases"
+import { type GoodsReceivedNoteWithItems } from "@/lib/supabase/purchases-types"
+import { toast } from "sonner"
+
+interface GoodsReceivedNotesProps {
+  purchaseId: string
+  onReceiptUpdate: () => void
+}
+
+const formatCurrency = (amount: number) => {
+  return '৳ ' + new Intl.NumberFormat('en-BD', {
+    minimumFractionDigits: 0,
+  }).format(amount)
+}
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-BD', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+export default function GoodsReceivedNotes({ purchaseId, onReceiptUpdate }: GoodsReceivedNotesProps) {
+  const [notes, setNotes] = React.useState<GoodsReceivedNoteWithItems[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [selectedNote, setSelectedNote] = React.useState<GoodsReceivedNoteWithItems | null>(null)
+  const [cancelReason, setCancelReason] = React.useState('')
+  const [isCancelling, setIsCancelling] = React.useState(false)
+
+  const fetchNotes = React.useCallback(async () => {
+    try {
+      setLoading(true)
+      setNotes(await getGoodsReceivedNotes(purchaseId))
+    } catch (error) {
+      console.error('Error fetching goods-received notes:', error)
+      toast.error('Failed to load goods-received notes')
+    } finally {
+      setLoading(false)
+    }
+  }, [purchaseId])
+
+  React.useEffect(() => {
+    fetchNotes()
+  }, [fetchNotes])
+
+  const closeCancelDialog = () => {
+    if (!isCancelling) {
+      setSelectedNote(null)
+      setCancelReason('')
+    }
+  }
+
+  const handleCancel = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedNote) return
+
+    setIsCancelling(true)
+    try {
+      const result = await cancelGoodsReceivedNote(
+        purchaseId,
+        selectedNote.id,
+        cancelReason.trim() || undefined,
+        'admin' // In a real app, this would come from the authenticated user
+      )
+
+      if (!result.success) {
+        toast.error(GOODS_RECEIVED_NOTE_ERROR_MESSAGES[result.error_code], {
+          description: result.error_message
+        })
+        return
+      }
+
+      toast.success(`Goods-received note ${selectedNote.id} cancelled`)
+      setSelectedNote(null)
+      setCancelReason('')
+      await fetchNotes()
+      onReceiptUpdate()
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Goods-Received Notes
+        </CardTitle>
+        <CardDescription>
+          Each delivery received against this purchase
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-20 bg-gray-100 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : notes.length === 0 ? (
+          <div className="text-center py-6">
+            <Package className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">No goods have been received yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {notes.map((note) => {
+              const isCancelled = note.status === 'cancelled'
+
+              return (
+                <div key={note.id} className={`border rounded-lg p-4 ${isCancelled ? 'bg-gray-50' : 'bg-white'}`}>
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`font-medium ${isCancelled ? 'text-gray-500 line-through' : 'text-gray-900'}`}>{note.id}</span>
+                        <Badge variant="secondary" className={isCancelled ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>
+                          {isCancelled ? 'cancelled' : 'received'}
+                        </Badge>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1"><Calendar className="h-3 w-3" />{formatDate(note.received_date)}</span>
+                        <span className="flex items-center gap-1"><User className="h-3 w-3" />{note.received_by}</span>
+                        <span className="flex items-center gap-1"><MapPin className="h-3 w-3" />{note.warehouse_name}</span>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className={`font-semibold ${isCancelled ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                        {formatCurrency(Number(note.total_amount))}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{note.total_quantity} items</div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    {note.items.map((line) => (
+                      <div key={line.id}>
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="flex items-center gap-2 text-gray-700">
+                            {line.item_type === 'package'
+                              ? <Package className="h-3 w-3 text-purple-600" />
+                              : <Box className="h-3 w-3 text-blue-600" />}
+                            {line.item_name}
+                            {line.lot_number && (
+                              <span className="text-xs text-muted-foreground">
+                                Lot {line.lot_number}{line.expiry_date ? ` · exp. ${formatDate(line.expiry_date)}` : ''}
+                              </span>
+                            )}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {line.quantity} × {formatCurrency(Number(line.unit_cost))}
+                          </span>
+                        </div>
+                        {line.serial_numbers && line.serial_numbers.length > 0 && (
+                          <p className="pl-5 font-mono text-xs text-muted-foreground">
+                            S/N {line.serial_numbers.join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {note.notes && (
+                    <p className="text-xs text-muted-foreground mt-3">{note.notes}</p>
+                  )}
+
+                  {isCancelled ? (
+                    <p className="text-xs text-red-600 mt-3">
+                      Cancelled{note.cancelled_at ? ` on ${formatDate(note.cancelled_at)}` : ''}{note.cancelled_by ? ` by ${note.cancelled_by}` : ''}
+                      {note.cancel_reason ? ` - ${note.cancel_reason}` : ''}
+                    </p>
+                  ) : (
+                    <div className="flex justify-end mt-3">
+                      <Button variant="outline" size="sm" onClick={() => setSelectedNote(note)}>
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Cancel Receipt
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={selectedNote !== null} onOpenChange={(open) => { if (!open) closeCancelDialog() }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-orange-600" />
+              Cancel Goods Receipt
+            </DialogTitle>
+            <DialogDescription>
+              The received items are taken back out of stock and the receipt journal entry is reversed.
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedNote && (
+            <form onSubmit={handleCancel} className="space-y-4">
+              <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-orange-800">{selectedNote.id}</span>
+                  <span className="text-lg font-bold text-orange-900">
+                    {formatCurrency(Number(selectedNote.total_amount))}
+                  </span>
+                </div>
+                <p className="text-xs text-orange-700 mt-2">
+                  {selectedNote.total_quantity} items will be removed from {selectedNote.warehouse_name}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cancel-reason">
+                  Reason <span className="text-gray-500">(Optional)</span>
+                </Label>
+                <Textarea
+                  id="cancel-reason"
+                  placeholder="Why is this receipt being cancelled?"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  rows={3}
+                  className="resize-none"
+                />
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={closeCancelDialog}
+                  disabled={isCancelling}
+                >
+                  Keep Receipt
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1 bg-black hover:bg-gray-800 text-white"
+                  disabled={isCancelling}
+                >
+                  {isCancelling ? 'Cancelling...' : 'Cancel Receipt'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
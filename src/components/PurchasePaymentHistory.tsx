@@ -36,6 +36,7 @@ import VoidPaymentModal from "./VoidPaymentModal"
 import RefundConfirmationModal from "./RefundConfirmationModal"
 import { toast } from "sonner"
 import { createClient } from "@/lib/supabase/client"
+import { getCurrencySymbol, isBaseCurrency } from "@/lib/supabase/currencies"
 
 interface PurchasePaymentHistoryProps {
   purchaseId: string
@@ -208,8 +209,9 @@ export default function PurchasePaymentHistory({
     }
   }
 
+  // Amounts are in the purchase currency
   const formatCurrency = (amount: number) => {
-    return '৳ ' + new Intl.NumberFormat('en-BD', {
+    return getCurrencySymbol(purchase.currency) + ' ' + new Intl.NumberFormat('en-BD', {
       minimumFractionDigits: 0,
     }).format(amount)
   }
@@ -435,6 +437,14 @@ export default function PurchasePaymentHistory({
                           {payment.status === 'void' && (
                             <span className="text-xs text-red-500">VOIDED</span>
                           )}
+                          {!isBaseCurrency(payment.currency) && (
+                            <span className="text-xs text-muted-foreground">
+                              at ৳{Number(payment.exchange_rate)}
+                              {Number(payment.exchange_difference || 0) !== 0 && (
+                                ` · ${Number(payment.exchange_difference) > 0 ? 'gain' : 'loss'} ৳${Math.abs(Number(payment.exchange_difference)).toLocaleString()}`
+                              )}
+                            </span>
+                          )}
                         </div>
                       </div>
                     </TableCell>
@@ -2,7 +2,7 @@
 
 import * as React from "react"
 import { motion } from 'framer-motion'
-import { X, CreditCard, Calendar, DollarSign, FileText } from "lucide-react"
+import { X, CreditCard, Calendar, DollarSign, FileText, ArrowLeftRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -22,6 +22,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { createPurchasePayment, PAYMENT_METHODS, calculateNetPaymentAmount, calculatePaymentStatus, type CreatePurchasePaymentData, type PurchaseWithItems } from "@/lib/supabase/purchases"
+import { calculateExchangeDifference, getCurrencySymbol, getExchangeRate, isBaseCurrency, toBaseAmount } from "@/lib/supabase/currencies"
 import { toast } from "sonner"
 
 interface PurchasePaymentModalProps {
@@ -52,6 +53,26 @@ export default function PurchasePaymentModal({
     payment_date: new Date().toISOString().split('T')[0],
     notes: ''
   })
+  const [exchangeRate, setExchangeRate] = React.useState('')
+
+  // Foreign-currency purchases are paid in their own currency at the rate on the payment date
+  const currency = purchase.currency || 'BDT'
+  const isForeign = !isBaseCurrency(currency)
+  const purchaseRate = Number(purchase.exchange_rate || 1)
+
+  React.useEffect(() => {
+    if (!isOpen || !isForeign) return
+    let cancelled = false
+
+    getExchangeRate(currency, formData.payment_date)
+      .then(rate => { if (!cancelled) setExchangeRate(String(rate ?? purchaseRate)) })
+      .catch(error => {
+        console.error('Error loading exchange rate:', error)
+        if (!cancelled) setExchangeRate(String(purchaseRate))
+      })
+
+    return () => { cancelled = true }
+  }, [isOpen, isForeign, currency, formData.payment_date, purchaseRate])
 
   // Calculate net payment amounts
   const netAmounts = calculateNetPaymentAmount(purchase)
@@ -75,7 +96,13 @@ export default function PurchasePaymentModal({
     }
 
     if (amount > maxPayment) {
-      toast.error(`Payment amount cannot exceed remaining balance of ৳${maxPayment.toLocaleString()}`)
+      toast.error(`Payment amount cannot exceed remaining balance of ${formatCurrency(maxPayment)}`)
+      return
+    }
+
+    const rate = isForeign ? parseFloat(exchangeRate) : 1
+    if (isNaN(rate) || rate <= 0) {
+      toast.error('Please enter a valid exchange rate')
       return
     }
 
@@ -87,13 +114,14 @@ export default function PurchasePaymentModal({
         amount: amount,
         payment_method: formData.payment_method as any,
         payment_date: formData.payment_date,
+        exchange_rate: rate,
         notes: formData.notes || undefined,
         created_by: 'admin' // TODO: Replace with actual user
       }
 
       await createPurchasePayment(paymentData)
       
-      toast.success(`Payment of ৳${amount.toLocaleString()} recorded successfully!`)
+      toast.success(`Payment of ${formatCurrency(amount)} recorded successfully!`)
       
       // Reset form
       setFormData({
@@ -108,18 +136,28 @@ export default function PurchasePaymentModal({
       
     } catch (error) {
       console.error('Error creating payment:', error)
-      toast.error('Failed to record payment. Please try again.')
+      // Nothing was saved; the message says which step failed
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment. Please try again.')
     } finally {
       setIsLoading(false)
     }
   }
 
+  const currencySymbol = getCurrencySymbol(currency)
+
   const formatCurrency = (amount: number) => {
-    return '৳ ' + new Intl.NumberFormat('en-BD', {
+    return currencySymbol + ' ' + new Intl.NumberFormat('en-BD', {
       minimumFractionDigits: 0,
     }).format(amount)
   }
 
+  // Taka value of this payment and the gain or loss against the purchase rate
+  const paymentAmount = parseFloat(formData.amount) || 0
+  const paymentRate = parseFloat(exchangeRate) || 0
+  const exchangeDifference = isForeign && paymentRate > 0
+    ? calculateExchangeDifference(paymentAmount, purchaseRate, paymentRate, 'payable')
+    : 0
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
@@ -233,7 +271,7 @@ export default function PurchasePaymentModal({
                         onClick={() => setFormData(prev => ({ ...prev, amount: amount.toString() }))}
                         className="text-sm h-7 px-3"
                       >
-                        ৳{(amount / 1000)}k
+                        {currencySymbol}{(amount / 1000)}k
                       </Button>
                     )
                   ))}
@@ -282,6 +320,33 @@ export default function PurchasePaymentModal({
               />
             </div>
 
+            {/* Exchange Rate */}
+            {isForeign && (
+              <div className="space-y-2">
+                <Label htmlFor="exchange_rate" className="flex items-center gap-2">
+                  <ArrowLeftRight className="h-4 w-4" />
+                  Exchange Rate (৳ per {currency}) *
+                </Label>
+                <Input
+                  id="exchange_rate"
+                  type="number"
+                  step="0.000001"
+                  min="0.000001"
+                  value={exchangeRate}
+                  onChange={(e) => setExchangeRate(e.target.value)}
+                  className="text-right"
+                />
+                <p className="text-sm text-gray-500">
+                  Purchased at {purchaseRate} · Pays ৳{toBaseAmount(paymentAmount, paymentRate).toLocaleString()}
+                  {exchangeDifference !== 0 && (
+                    <span className={exchangeDifference > 0 ? 'text-green-600' : 'text-red-600'}>
+                      {' '}· Exchange {exchangeDifference > 0 ? 'gain' : 'loss'} ৳{Math.abs(exchangeDifference).toLocaleString()}
+                    </span>
+                  )}
+                </p>
+              </div>
+            )}
+
             {/* Notes */}
             <div className="space-y-2">
               <Label htmlFor="notes" className="flex items-center gap-2">
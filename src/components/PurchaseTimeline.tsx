@@ -45,6 +45,8 @@ export function PurchaseTimeline({ events, isLoading }: PurchaseTimelineProps) {
       case 'partial_receipt':
       case 'full_receipt':
         return <Package className="h-4 w-4 text-white" />
+      case 'receipt_cancelled':
+        return <X className="h-4 w-4 text-white" />
       case 'partial_return':
       case 'full_return':
         return <RotateCcw className="h-4 w-4 text-white" />
@@ -69,6 +71,8 @@ export function PurchaseTimeline({ events, isLoading }: PurchaseTimelineProps) {
         return 'bg-green-600'
       case 'full_receipt':
         return 'bg-green-700'
+      case 'receipt_cancelled':
+        return 'bg-orange-700'
       case 'partial_return':
         return 'bg-orange-600'
       case 'full_return':
@@ -95,6 +99,8 @@ export function PurchaseTimeline({ events, isLoading }: PurchaseTimelineProps) {
           return 'bg-blue-100 text-blue-800'
         case 'full_receipt':
           return 'bg-green-100 text-green-800'
+        case 'receipt_cancelled':
+          return 'bg-orange-100 text-orange-800'
         case 'partial_return':
           return 'bg-orange-100 text-orange-800'
         case 'full_return':
@@ -120,6 +126,8 @@ export function PurchaseTimeline({ events, isLoading }: PurchaseTimelineProps) {
           return 'Partially Received'
         case 'full_receipt':
           return 'Received'
+        case 'receipt_cancelled':
+          return 'Receipt Cancelled'
         case 'partial_return':
           return 'Partially Returned'
         case 'full_return':
@@ -2,7 +2,7 @@
 
 import * as React from "react"
 import { motion } from 'framer-motion'
-import { X, CreditCard, Calendar, DollarSign, FileText } from "lucide-react"
+import { X, CreditCard, Calendar, DollarSign, FileText, ArrowLeftRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -26,10 +26,13 @@ import {
   type SaleWithItems, 
   createSalePayment, 
   calculateSalePaymentStatus,
-  SALE_PAYMENT_METHODS,
+  getSalePaymentMethodForAccountType,
   type CreateSalePaymentData,
   type SalePayment
 } from "@/lib/supabase/sales-client"
+import { getPaymentMethodAccounts } from "@/lib/supabase/accounts-client"
+import type { AccountWithCategory } from "@/lib/supabase/types/accounting"
+import { calculateExchangeDifference, getCurrencySymbol, getExchangeRate, isBaseCurrency, toBaseAmount } from "@/lib/supabase/currencies"
 
 interface SalePaymentModalProps {
   isOpen: boolean
@@ -55,10 +58,42 @@ export default function SalePaymentModal({
   const [isLoading, setIsLoading] = React.useState(false)
   const [formData, setFormData] = React.useState({
     amount: '',
-    payment_method: '',
+    account_id: '',
     payment_date: new Date().toISOString().split('T')[0],
     notes: ''
   })
+  const [paymentAccounts, setPaymentAccounts] = React.useState<AccountWithCategory[]>([])
+  const [exchangeRate, setExchangeRate] = React.useState('')
+
+  // Foreign-currency sales are paid in their own currency at the rate on the payment date
+  const currency = sale.currency || 'BDT'
+  const isForeign = !isBaseCurrency(currency)
+  const saleRate = Number(sale.exchange_rate || 1)
+
+  React.useEffect(() => {
+    if (!isOpen || paymentAccounts.length > 0) return
+    let cancelled = false
+
+    getPaymentMethodAccounts()
+      .then(accounts => { if (!cancelled) setPaymentAccounts(accounts) })
+      .catch(error => console.error('Error loading payment methods:', error))
+
+    return () => { cancelled = true }
+  }, [isOpen, paymentAccounts.length])
+
+  React.useEffect(() => {
+    if (!isOpen || !isForeign) return
+    let cancelled = false
+
+    getExchangeRate(currency, formData.payment_date)
+      .then(rate => { if (!cancelled) setExchangeRate(String(rate ?? saleRate)) })
+      .catch(error => {
+        console.error('Error loading exchange rate:', error)
+        if (!cancelled) setExchangeRate(String(saleRate))
+      })
+
+    return () => { cancelled = true }
+  }, [isOpen, isForeign, currency, formData.payment_date, saleRate])
 
   // Calculate payment status and amounts
   const paymentStatus = calculateSalePaymentStatus(sale, amountPaid)
@@ -68,7 +103,7 @@ export default function SalePaymentModal({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!formData.amount || !formData.payment_method || !formData.payment_date) {
+    if (!formData.amount || !formData.account_id || !formData.payment_date) {
       toast.error('Please fill in all required fields')
       return
     }
@@ -80,30 +115,40 @@ export default function SalePaymentModal({
     }
 
     if (amount > maxPayment + 1) { // Allow slight overpayment
-      toast.error(`Payment amount cannot exceed remaining balance of ৳${maxPayment.toLocaleString()}`)
+      toast.error(`Payment amount cannot exceed remaining balance of ${formatCurrency(maxPayment)}`)
       return
     }
 
+    const rate = isForeign ? parseFloat(exchangeRate) : 1
+    if (isNaN(rate) || rate <= 0) {
+      toast.error('Please enter a valid exchange rate')
+      return
+    }
+
+    const account = paymentAccounts.find(a => a.id === formData.account_id)
+
     setIsLoading(true)
     
     try {
       const paymentData: CreateSalePaymentData = {
         sale_id: saleId,
         amount: amount,
-        payment_method: formData.payment_method as any,
+        payment_method: getSalePaymentMethodForAccountType(account?.payment_method_type),
+        account_id: formData.account_id,
         payment_date: formData.payment_date,
+        exchange_rate: rate,
         notes: formData.notes || undefined,
         created_by: 'admin' // TODO: Replace with actual user
       }
 
       await createSalePayment(paymentData)
       
-      toast.success(`Payment of ৳${amount.toLocaleString()} recorded successfully!`)
+      toast.success(`Payment of ${formatCurrency(amount)} recorded successfully!`)
       
       // Reset form
       setFormData({
         amount: '',
-        payment_method: '',
+        account_id: '',
         payment_date: new Date().toISOString().split('T')[0],
         notes: ''
       })
@@ -113,18 +158,28 @@ export default function SalePaymentModal({
       
     } catch (error) {
       console.error('Error creating payment:', error)
-      toast.error('Failed to record payment. Please try again.')
+      // Nothing was saved; the message says which step failed
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment. Please try again.')
     } finally {
       setIsLoading(false)
     }
   }
 
+  const currencySymbol = getCurrencySymbol(currency)
+
   const formatCurrency = (amount: number) => {
-    return '৳ ' + new Intl.NumberFormat('en-BD', {
+    return currencySymbol + ' ' + new Intl.NumberFormat('en-BD', {
       minimumFractionDigits: 0,
     }).format(amount)
   }
 
+  // Taka value of this payment and the gain or loss against the sale rate
+  const paymentAmount = parseFloat(formData.amount) || 0
+  const paymentRate = parseFloat(exchangeRate) || 0
+  const exchangeDifference = isForeign && paymentRate > 0
+    ? calculateExchangeDifference(paymentAmount, saleRate, paymentRate, 'receivable')
+    : 0
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
@@ -198,22 +253,22 @@ export default function SalePaymentModal({
 
             {/* Payment Method */}
             <div className="space-y-2">
-              <Label htmlFor="payment_method" className="flex items-center gap-2">
+              <Label htmlFor="account_id" className="flex items-center gap-2">
                 <CreditCard className="h-4 w-4" />
                 Payment Method *
               </Label>
               <Select 
-                value={formData.payment_method} 
-                onValueChange={(value) => setFormData(prev => ({ ...prev, payment_method: value }))}
+                value={formData.account_id} 
+                onValueChange={(value) => setFormData(prev => ({ ...prev, account_id: value }))}
                 required
               >
                 <SelectTrigger suppressHydrationWarning>
                   <SelectValue placeholder="Select payment method" />
                 </SelectTrigger>
                 <SelectContent suppressHydrationWarning>
-                  {SALE_PAYMENT_METHODS.map((method) => (
-                    <SelectItem key={method.value} value={method.value}>
-                      {method.label}
+                  {paymentAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.account_name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -236,6 +291,33 @@ export default function SalePaymentModal({
               />
             </div>
 
+            {/* Exchange Rate */}
+            {isForeign && (
+              <div className="space-y-2">
+                <Label htmlFor="exchange_rate" className="flex items-center gap-2">
+                  <ArrowLeftRight className="h-4 w-4" />
+                  Exchange Rate (৳ per {currency}) *
+                </Label>
+                <Input
+                  id="exchange_rate"
+                  type="number"
+                  step="0.000001"
+                  min="0.000001"
+                  value={exchangeRate}
+                  onChange={(e) => setExchangeRate(e.target.value)}
+                  className="text-right"
+                />
+                <p className="text-sm text-gray-500">
+                  Sold at {saleRate} · Receives ৳{toBaseAmount(paymentAmount, paymentRate).toLocaleString()}
+                  {exchangeDifference !== 0 && (
+                    <span className={exchangeDifference > 0 ? 'text-green-600' : 'text-red-600'}>
+                      {' '}· Exchange {exchangeDifference > 0 ? 'gain' : 'loss'} ৳{Math.abs(exchangeDifference).toLocaleString()}
+                    </span>
+                  )}
+                </p>
+              </div>
+            )}
+
             {/* Notes */}
             <div className="space-y-2">
               <Label htmlFor="notes" className="flex items-center gap-2">
@@ -264,7 +346,7 @@ export default function SalePaymentModal({
               </Button>
               <Button
                 type="submit"
-                disabled={isLoading || !formData.amount || !formData.payment_method}
+                disabled={isLoading || !formData.amount || !formData.account_id}
                 className="min-w-[100px]"
               >
                 {isLoading ? (
@@ -0,0 +1,166 @@
+import * as React from "react"
+import { motion } from "framer-motion"
+import { Calendar, FileText, Send, CheckCircle, Clock, X, AlertTriangle, Package, Lock } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { type SaleEvent } from "@/lib/supabase/sales-client"
+import { SALES_ORDER_STATUS_LABELS } from "@/lib/supabase/sales-orders"
+
+interface SalesOrderTimelineProps {
+  events: SaleEvent[]
+  isLoading?: boolean
+}
+
+export function SalesOrderTimeline({ events, isLoading }: SalesOrderTimelineProps) {
+  const header = (
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <Calendar className="h-5 w-5" />
+        Timeline
+      </CardTitle>
+      <CardDescription>From quotation to delivery</CardDescription>
+    </CardHeader>
+  )
+
+  if (isLoading) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="flex items-start gap-4 animate-pulse">
+                <div className="w-8 h-8 bg-gray-300 rounded-full"></div>
+                <div className="flex-1">
+                  <div className="h-4 bg-gray-300 rounded w-1/3 mb-2"></div>
+                  <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const getEventIcon = (eventType: SaleEvent['event_type']) => {
+    switch (eventType) {
+      case 'quotation_created':
+        return <FileText className="h-4 w-4 text-white" />
+      case 'quotation_sent':
+        return <Send className="h-4 w-4 text-white" />
+      case 'quotation_accepted':
+        return <CheckCircle className="h-4 w-4 text-white" />
+      case 'order_confirmed':
+        return <Lock className="h-4 w-4 text-white" />
+      case 'order_fulfilled':
+        return <Package className="h-4 w-4 text-white" />
+      case 'quotation_expired':
+        return <Clock className="h-4 w-4 text-white" />
+      case 'cancelled':
+        return <X className="h-4 w-4 text-white" />
+      default:
+        return <Clock className="h-4 w-4 text-white" />
+    }
+  }
+
+  const getEventColor = (eventType: SaleEvent['event_type']) => {
+    switch (eventType) {
+      case 'quotation_created':
+        return 'bg-blue-600'
+      case 'quotation_sent':
+        return 'bg-indigo-600'
+      case 'quotation_accepted':
+      case 'order_confirmed':
+        return 'bg-green-600'
+      case 'order_fulfilled':
+        return 'bg-green-700'
+      case 'quotation_expired':
+        return 'bg-gray-500'
+      case 'cancelled':
+        return 'bg-red-600'
+      default:
+        return 'bg-gray-600'
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-BD', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    })
+  }
+
+  if (events.length === 0) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <div className="text-center py-8">
+            <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-muted-foreground">No timeline events found</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      {header}
+      <CardContent>
+        <div className="space-y-6 relative">
+          {/* Timeline line */}
+          <div className="absolute left-4 top-6 bottom-6 w-px bg-gray-200"></div>
+
+          {events.map((event, index) => (
+            <motion.div
+              key={event.id}
+              className="flex items-start gap-4 relative"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.4, delay: index * 0.1 }}
+            >
+              <div className={`w-8 h-8 ${getEventColor(event.event_type)} rounded-full flex items-center justify-center relative z-10 flex-shrink-0`}>
+                {getEventIcon(event.event_type)}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between mb-2">
+                  <div className="flex-1">
+                    <h4 className="font-medium text-gray-900 mb-1">{event.event_title}</h4>
+                    {event.event_description && (
+                      <p className="text-sm text-muted-foreground mb-2">
+                        {event.event_description}
+                      </p>
+                    )}
+                  </div>
+                  {event.new_status && (
+                    <div className="flex-shrink-0 ml-4">
+                      <Badge variant="secondary" className="text-xs">
+                        {SALES_ORDER_STATUS_LABELS[event.new_status as keyof typeof SALES_ORDER_STATUS_LABELS] || event.new_status}
+                      </Badge>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(event.event_date)}
+                  </p>
+                  {event.created_by && event.created_by !== 'system' && (
+                    <div className="text-xs text-muted-foreground">
+                      by {event.created_by}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
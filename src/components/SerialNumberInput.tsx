@@ -0,0 +1,129 @@
+"use client"
+
+import * as React from "react"
+import { ScanLine, X } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { parseSerialNumberInput } from "@/lib/supabase/serial-numbers"
+
+interface SerialNumberInputProps {
+  value: string[]
+  onChange: (serials: string[]) => void
+  // Number of serials the line needs; shown as a counter when set
+  expectedCount?: number
+  // Serials that can be picked with a click (e.g. the units in stock); others can still be scanned
+  available?: string[]
+  availableLabel?: string
+  disabled?: boolean
+  placeholder?: string
+}
+
+export function SerialNumberInput({
+  value,
+  onChange,
+  expectedCount,
+  available,
+  availableLabel = 'In stock - click to pick',
+  disabled = false,
+  placeholder = 'Scan or type a serial number and press Enter'
+}: SerialNumberInputProps) {
+  const [draft, setDraft] = React.useState('')
+
+  const addSerials = (text: string) => {
+    const serials = parseSerialNumberInput(text).filter(serial => !value.includes(serial))
+    if (serials.length > 0) {
+      onChange([...value, ...Array.from(new Set(serials))])
+    }
+    setDraft('')
+  }
+
+  const removeSerial = (serial: string) => {
+    onChange(value.filter(existing => existing !== serial))
+  }
+
+  const toggleSerial = (serial: string) => {
+    if (value.includes(serial)) {
+      removeSerial(serial)
+    } else {
+      onChange([...value, serial])
+    }
+  }
+
+  const availableSet = available ? new Set(available) : null
+  const countMatches = expectedCount === undefined || value.length === expectedCount
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <ScanLine className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={draft}
+          placeholder={placeholder}
+          disabled={disabled}
+          className="pl-8"
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              addSerials(draft)
+            }
+          }}
+          onPaste={(e) => {
+            const text = e.clipboardData.getData('text')
+            if (parseSerialNumberInput(text).length > 1) {
+              e.preventDefault()
+              addSerials(text)
+            }
+          }}
+          onBlur={() => draft.trim() && addSerials(draft)}
+        />
+      </div>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(serial => (
+            <Badge
+              key={serial}
+              variant="secondary"
+              className={`font-mono text-xs gap-1 ${availableSet && !availableSet.has(serial) ? 'bg-orange-100 text-orange-800' : ''}`}
+              title={availableSet && !availableSet.has(serial) ? 'Not in the list to pick from' : undefined}
+            >
+              {serial}
+              {!disabled && (
+                <button type="button" onClick={() => removeSerial(serial)} aria-label={`Remove ${serial}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {expectedCount !== undefined && (
+        <p className={`text-xs ${countMatches ? 'text-green-600' : 'text-orange-600'}`}>
+          {value.length} of {expectedCount} serial number{expectedCount !== 1 ? 's' : ''}
+        </p>
+      )}
+
+      {available && available.length > 0 && !disabled && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">{availableLabel}</p>
+          <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+            {available.map(serial => (
+              <button
+                key={serial}
+                type="button"
+                onClick={() => toggleSerial(serial)}
+                className={`rounded border px-2 py-0.5 font-mono text-xs ${
+                  value.includes(serial) ? 'border-primary bg-primary text-primary-foreground' : 'hover:bg-muted'
+                }`}
+              >
+                {serial}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
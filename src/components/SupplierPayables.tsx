@@ -0,0 +1,289 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { Wallet, FileText, BarChart3, Eye } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { DatePicker } from "@/components/ui/date-picker"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  getSupplierOpenBills,
+  getSupplierStatement,
+  calculatePayablesAging,
+  convertBillsToCurrency,
+  type OpenBill,
+  type SupplierStatement
+} from "@/lib/supabase/purchases"
+import { AGING_BUCKETS } from "@/lib/utils/aging"
+import { BASE_CURRENCY, formatMoney } from "@/lib/supabase/currencies"
+import { toast } from "sonner"
+
+interface SupplierPayablesProps {
+  supplierId: string
+}
+
+const formatCurrency = (amount: number, currency: string = BASE_CURRENCY) => {
+  return formatMoney(amount, currency)
+}
+
+const toDateString = (date?: Date) => {
+  return date ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}` : undefined
+}
+
+const ENTRY_TYPE_COLORS = {
+  bill: 'bg-blue-100 text-blue-800',
+  payment: 'bg-green-100 text-green-800',
+  return: 'bg-orange-100 text-orange-800',
+  refund: 'bg-purple-100 text-purple-800'
+}
+
+export default function SupplierPayables({ supplierId }: SupplierPayablesProps) {
+  const [bills, setBills] = React.useState<OpenBill[]>([])
+  const [statement, setStatement] = React.useState<SupplierStatement | null>(null)
+  const [fromDate, setFromDate] = React.useState<Date | undefined>()
+  const [toDate, setToDate] = React.useState<Date | undefined>()
+  const [loading, setLoading] = React.useState(true)
+  const [statementLoading, setStatementLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    getSupplierOpenBills(supplierId)
+      .then(data => { if (!cancelled) setBills(data) })
+      .catch(error => {
+        console.error('Error loading open bills:', error)
+        toast.error('Failed to load open bills')
+      })
+      .finally(() => { if (!cancelled) setLoading(false) })
+
+    return () => { cancelled = true }
+  }, [supplierId])
+
+  React.useEffect(() => {
+    let cancelled = false
+    setStatementLoading(true)
+
+    getSupplierStatement(supplierId, toDateString(fromDate), toDateString(toDate))
+      .then(data => { if (!cancelled) setStatement(data) })
+      .catch(error => {
+        console.error('Error loading supplier statement:', error)
+        toast.error('Failed to load supplier statement')
+      })
+      .finally(() => { if (!cancelled) setStatementLoading(false) })
+
+    return () => { cancelled = true }
+  }, [supplierId, fromDate, toDate])
+
+  // Balances are shown in the statement's currency; each bill in its own
+  const currency = statement?.currency || bills[0]?.currency || BASE_CURRENCY
+  const aging = calculatePayablesAging(convertBillsToCurrency(bills, currency))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Payables
+          </CardTitle>
+          <CardDescription>
+            Unpaid bills and account activity with this supplier
+          </CardDescription>
+        </div>
+        <Link href="/purchases/payables">
+          <Button variant="outline" size="sm">
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Aging Report
+          </Button>
+        </Link>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Aging summary */}
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-6">
+          <div className="border rounded-lg p-4 bg-gray-50">
+            <div className="text-sm text-muted-foreground">Balance Due</div>
+            <div className="text-xl font-bold">{loading ? <Skeleton className="h-7 w-24" /> : formatCurrency(aging.total, currency)}</div>
+          </div>
+          <div className="border rounded-lg p-4">
+            <div className="text-sm text-muted-foreground">Not yet due</div>
+            <div className="text-xl font-bold">{loading ? <Skeleton className="h-7 w-20" /> : formatCurrency(aging.not_due, currency)}</div>
+          </div>
+          {AGING_BUCKETS.map(bucket => (
+            <div key={bucket.key} className="border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground">{bucket.label} overdue</div>
+              <div className={`text-xl font-bold ${aging.overdue[bucket.key] > 0 ? 'text-red-600' : ''}`}>
+                {loading ? <Skeleton className="h-7 w-20" /> : formatCurrency(aging.overdue[bucket.key], currency)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Tabs defaultValue="open">
+          <TabsList>
+            <TabsTrigger value="open">Open Bills ({bills.length})</TabsTrigger>
+            <TabsTrigger value="statement">Statement</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="open">
+            <div className="overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Purchase</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Returned</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    Array.from({ length: 3 }).map((_, index) => (
+                      <TableRow key={index}>
+                        {Array.from({ length: 8 }).map((__, cell) => (
+                          <TableCell key={cell}><Skeleton className="h-4 w-16" /></TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  ) : bills.length > 0 ? (
+                    bills.map(bill => (
+                      <TableRow key={bill.purchase_id}>
+                        <TableCell className="font-medium">{bill.purchase_id}</TableCell>
+                        <TableCell>{new Date(bill.purchase_date).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <div>{new Date(bill.due_date).toLocaleDateString()}</div>
+                          {bill.is_overdue && (
+                            <Badge variant="outline" className="border-red-300 text-red-700 mt-1">
+                              {bill.days_overdue} days overdue
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(bill.total_amount, bill.currency)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(bill.amount_paid, bill.currency)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(bill.amount_returned - bill.amount_refunded, bill.currency)}</TableCell>
+                        <TableCell className="text-right font-semibold">{formatCurrency(bill.outstanding_amount, bill.currency)}</TableCell>
+                        <TableCell className="text-right">
+                          <Link href={`/purchases/${bill.purchase_id}`}>
+                            <Button variant="outline" size="sm">
+                              <Eye className="h-4 w-4 mr-1" />
+                              View
+                            </Button>
+                          </Link>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No unpaid bills
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="statement" className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3 max-w-2xl">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <DatePicker date={fromDate} onDateChange={setFromDate} placeholder="Beginning" />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <DatePicker date={toDate} onDateChange={setToDate} placeholder="Today" />
+              </div>
+              {(fromDate || toDate) && (
+                <div className="flex items-end">
+                  <Button variant="ghost" size="sm" onClick={() => { setFromDate(undefined); setToDate(undefined) }}>
+                    Clear dates
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statementLoading || !statement ? (
+                    Array.from({ length: 4 }).map((_, index) => (
+                      <TableRow key={index}>
+                        {Array.from({ length: 6 }).map((__, cell) => (
+                          <TableCell key={cell}><Skeleton className="h-4 w-16" /></TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <>
+                      <TableRow className="bg-gray-50">
+                        <TableCell colSpan={5} className="font-medium">Opening balance</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(statement.opening_balance, statement.currency)}</TableCell>
+                      </TableRow>
+                      {statement.entries.length > 0 ? (
+                        statement.entries.map(entry => (
+                          <TableRow key={`${entry.type}-${entry.reference}`}>
+                            <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                            <TableCell>
+                              <Badge className={ENTRY_TYPE_COLORS[entry.type]}>{entry.type}</Badge>
+                            </TableCell>
+                            <TableCell>
+                              <Link href={`/purchases/${entry.purchase_id}`} className="hover:underline">
+                                {entry.description}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="text-right">{entry.debit > 0 ? formatCurrency(entry.debit, statement.currency) : ''}</TableCell>
+                            <TableCell className="text-right">{entry.credit > 0 ? formatCurrency(entry.credit, statement.currency) : ''}</TableCell>
+                            <TableCell className="text-right font-medium">{formatCurrency(entry.balance, statement.currency)}</TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center text-muted-foreground">
+                            <FileText className="h-4 w-4 inline mr-2" />
+                            No activity in this period
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      <TableRow className="bg-gray-50 font-semibold">
+                        <TableCell colSpan={3}>Closing balance</TableCell>
+                        <TableCell className="text-right">{formatCurrency(statement.total_debits, statement.currency)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(statement.total_credits, statement.currency)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(statement.closing_balance, statement.currency)}</TableCell>
+                      </TableRow>
+                    </>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
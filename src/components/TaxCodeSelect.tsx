@@ -0,0 +1,50 @@
+"use client"
+
+import * as React from "react"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { formatTaxCode, type TaxCode } from "@/lib/supabase/tax-codes"
+
+const NO_TAX_CODE = 'none'
+
+interface TaxCodeSelectProps {
+  id?: string
+  // Tax code id, or empty for none
+  value: string
+  onChange: (taxCodeId: string) => void
+  codes: TaxCode[]
+  // What no tax code means where the select is used, e.g. "Use the category's"
+  noneLabel: string
+  disabled?: boolean
+  className?: string
+}
+
+// Inactive codes are only listed while selected, so existing settings still show
+export function TaxCodeSelect({ id, value, onChange, codes, noneLabel, disabled = false, className }: TaxCodeSelectProps) {
+  const options = codes.filter(code => code.status === 'active' || code.id === value)
+
+  return (
+    <Select
+      value={value || NO_TAX_CODE}
+      onValueChange={(selected) => onChange(selected === NO_TAX_CODE ? '' : selected)}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TAX_CODE}>{noneLabel}</SelectItem>
+        {options.map(code => (
+          <SelectItem key={code.id} value={code.id}>
+            {formatTaxCode(code)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
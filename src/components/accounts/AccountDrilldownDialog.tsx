@@ -0,0 +1,144 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { format, parseISO } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { toast } from "sonner"
+import { getAccountEntries, type AccountEntryLine } from "@/lib/supabase/financial-statements"
+
+export interface AccountDrilldown {
+  accountId: string
+  accountName: string
+  from: string | null
+  to: string
+  // Whether year-end closing entries count, as in the statement drilled from
+  includeClosing: boolean
+}
+
+interface AccountDrilldownDialogProps {
+  drilldown: AccountDrilldown | null
+  onClose: () => void
+}
+
+const formatAmount = (amount: number) => {
+  return amount > 0 ? `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : ''
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy')
+
+export function AccountDrilldownDialog({ drilldown, onClose }: AccountDrilldownDialogProps) {
+  const [entries, setEntries] = React.useState<AccountEntryLine[]>([])
+  const [loading, setLoading] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!drilldown) return
+    let cancelled = false
+    setLoading(true)
+
+    getAccountEntries(drilldown.accountId, drilldown.from, drilldown.to, drilldown.includeClosing)
+      .then(data => { if (!cancelled) setEntries(data) })
+      .catch(error => {
+        console.error('Error loading account entries:', error)
+        toast.error('Failed to load journal entries')
+      })
+      .finally(() => { if (!cancelled) setLoading(false) })
+
+    return () => { cancelled = true }
+  }, [drilldown])
+
+  const totalDebits = entries.reduce((sum, entry) => sum + entry.debit, 0)
+  const totalCredits = entries.reduce((sum, entry) => sum + entry.credit, 0)
+
+  return (
+    <Dialog open={drilldown !== null} onOpenChange={(open) => { if (!open) onClose() }}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{drilldown?.accountName}</DialogTitle>
+          <DialogDescription>
+            {drilldown && (drilldown.from
+              ? `Journal entries from ${formatDate(drilldown.from)} to ${formatDate(drilldown.to)}`
+              : `All journal entries up to ${formatDate(drilldown.to)}`)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Entry</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead className="text-right">Debit</TableHead>
+              <TableHead className="text-right">Credit</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 4 }).map((_, index) => (
+                <TableRow key={index}>
+                  {Array.from({ length: 6 }).map((__, cell) => (
+                    <TableCell key={cell}><Skeleton className="h-4 w-16" /></TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : entries.length > 0 ? (
+              <>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(entry.entry_date)}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <Link href="/transactions" className="hover:underline">{entry.entry_number}</Link>
+                    </TableCell>
+                    <TableCell>
+                      <div>{entry.entry_description}</div>
+                      {entry.description && entry.description !== entry.entry_description && (
+                        <div className="text-xs text-muted-foreground">{entry.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {entry.reference_type && (
+                        <Badge variant="outline" className="text-xs">
+                          {entry.reference_type}{entry.reference_id ? ` ${entry.reference_id}` : ''}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(entry.debit)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(entry.credit)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-gray-50 font-semibold">
+                  <TableCell colSpan={4}>Total ({entries.length} lines)</TableCell>
+                  <TableCell className="text-right">{formatAmount(totalDebits)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(totalCredits)}</TableCell>
+                </TableRow>
+              </>
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No journal entries in this range
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import * as React from "react"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { StatementAmount, StatementLine, StatementSection } from "@/lib/supabase/financial-statements"
+
+export type StatementRow =
+  | { kind: 'section'; section: StatementSection }
+  | { kind: 'total'; label: string; value: StatementAmount; emphasis?: boolean }
+
+export type StatementColumn = 'current' | 'compare'
+
+interface FinancialStatementTableProps {
+  rows: StatementRow[]
+  columnLabel: string
+  compareLabel: string | null
+  onDrillDown?: (line: StatementLine, column: StatementColumn) => void
+}
+
+// Negative figures are shown in brackets, as on printed statements
+const formatAmount = (amount: number) => {
+  const formatted = `৳${Math.abs(amount).toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+  return amount < -0.005 ? `(${formatted})` : formatted
+}
+
+export function FinancialStatementTable({ rows, columnLabel, compareLabel, onDrillDown }: FinancialStatementTableProps) {
+  const hasComparison = compareLabel !== null
+  const columnCount = hasComparison ? 4 : 2
+
+  const renderAmounts = (value: StatementAmount, line?: StatementLine) => {
+    // Only account lines have journal entries behind them
+    const drillDown = onDrillDown && line?.account_id
+      ? (column: StatementColumn) => onDrillDown(line, column)
+      : null
+    const cell = (amount: number, column: StatementColumn) => (
+      drillDown ? (
+        <button type="button" className="hover:underline text-blue-700" onClick={() => drillDown(column)}>
+          {formatAmount(amount)}
+        </button>
+      ) : formatAmount(amount)
+    )
+
+    return (
+      <>
+        <TableCell className="text-right whitespace-nowrap">{cell(value.amount, 'current')}</TableCell>
+        {hasComparison && (
+          <>
+            <TableCell className="text-right whitespace-nowrap">{cell(value.compare_amount || 0, 'compare')}</TableCell>
+            <TableCell className="text-right whitespace-nowrap text-muted-foreground">
+              {formatAmount(value.amount - (value.compare_amount || 0))}
+            </TableCell>
+          </>
+        )}
+      </>
+    )
+  }
+
+  return (
+    <div className="overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[240px]">Account</TableHead>
+            <TableHead className="text-right min-w-[140px]">{columnLabel}</TableHead>
+            {hasComparison && (
+              <>
+                <TableHead className="text-right min-w-[140px]">{compareLabel}</TableHead>
+                <TableHead className="text-right min-w-[120px]">Change</TableHead>
+              </>
+            )}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, index) => row.kind === 'section' ? (
+            <React.Fragment key={`${row.section.title}-${index}`}>
+              <TableRow className="bg-gray-50">
+                <TableCell colSpan={columnCount} className="font-semibold">{row.section.title}</TableCell>
+              </TableRow>
+              {row.section.lines.length > 0 ? (
+                row.section.lines.map(line => (
+                  <TableRow key={line.account_id || line.label}>
+                    <TableCell className="pl-8">
+                      {line.account_number && <span className="text-muted-foreground mr-2">{line.account_number}</span>}
+                      {line.label}
+                    </TableCell>
+                    {renderAmounts(line, line)}
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="pl-8 text-muted-foreground">No activity</TableCell>
+                </TableRow>
+              )}
+              <TableRow className="font-medium">
+                <TableCell>Total {row.section.title}</TableCell>
+                {renderAmounts({ amount: row.section.total, compare_amount: row.section.compare_total })}
+              </TableRow>
+            </React.Fragment>
+          ) : (
+            <TableRow
+              key={`${row.label}-${index}`}
+              className={row.emphasis ? 'border-t-2 border-gray-800 font-bold' : 'font-semibold'}
+            >
+              <TableCell>{row.label}</TableCell>
+              {renderAmounts(row.value)}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -2,4 +2,6 @@ export { AccountsHeader } from './AccountsHeader'
 export { FinancialSummaryCards } from './FinancialSummaryCards'
 export { AccountCard } from './AccountCard'
 export { AccountsLoadingSkeleton } from './AccountsLoadingSkeleton'
-export * from './modals' 
\ No newline at end of file
+export { FinancialStatementTable } from './FinancialStatementTable'
+export { AccountDrilldownDialog } from './AccountDrilldownDialog'
+export * from './modals'
\ No newline at end of file
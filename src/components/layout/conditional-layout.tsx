@@ -14,9 +14,12 @@ export function ConditionalLayout({ children }: ConditionalLayoutProps) {
   
   // Check if current path is an auth route
   const isAuthRoute = authRoutes.some(route => pathname.startsWith(route))
+
+  // Printable documents (e.g. /sales/orders/[id]/print) render on a blank page
+  const isPrintRoute = pathname.endsWith('/print')
   
-  // If it's an auth route, render children without sidebar
-  if (isAuthRoute) {
+  // If it's an auth or print route, render children without sidebar
+  if (isAuthRoute || isPrintRoute) {
     return <>{children}</>
   }
   
@@ -35,9 +35,23 @@ import {
   Receipt,
   Shield,
   FileText,
+  CalendarCheck,
+  ClipboardCheck,
+  ArrowLeftRight,
+  Layers,
   Activity,
   PanelLeft,
-  PanelLeftClose
+  PanelLeftClose,
+  Wallet,
+  PackageSearch,
+  CalendarClock,
+  ScanLine,
+  Factory,
+  Barcode,
+  Tags,
+  BadgePercent,
+  Percent,
+  Landmark
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
@@ -68,7 +82,18 @@ interface NavItem {
 
 const navigation: NavItem[] = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
-  { name: 'Warehouses', href: '/warehouses', icon: Warehouse },
+  { 
+    name: 'Warehouses', 
+    href: '/warehouses', 
+    icon: Warehouse,
+    submenu: [
+      { name: 'Transfers', href: '/warehouses/transfers', icon: ArrowLeftRight },
+      { name: 'Stock Counts', href: '/warehouses/stock-counts', icon: ClipboardCheck },
+      { name: 'Lots & Expiry', href: '/warehouses/lots', icon: CalendarClock },
+      { name: 'Serial Numbers', href: '/warehouses/serials', icon: ScanLine },
+      { name: 'Assembly', href: '/warehouses/assembly', icon: Factory },
+    ]
+  },
   { 
     name: 'Products', 
     href: '/products', 
@@ -77,6 +102,7 @@ const navigation: NavItem[] = [
       { name: 'Add Product', href: '/products/add', icon: Package },
       { name: 'Attributes', href: '/products/attributes', icon: Settings },
       { name: 'Categories', href: '/products/categories', icon: BookOpen },
+      { name: 'Barcode Labels', href: '/products/labels', icon: Barcode },
     ]
   },
   { 
@@ -95,6 +121,8 @@ const navigation: NavItem[] = [
     submenu: [
       { name: 'Create Purchase', href: '/purchases/add', icon: ShoppingCart },
       { name: 'Suppliers', href: '/purchases/suppliers', icon: UserPlus },
+      { name: 'Replenishment', href: '/purchases/replenishment', icon: PackageSearch },
+      { name: 'Payables Aging', href: '/purchases/payables', icon: Wallet },
     ]
   },
   { 
@@ -111,8 +139,12 @@ const navigation: NavItem[] = [
     icon: DollarSign,
     submenu: [
       { name: 'New Sale', href: '/sales/new', icon: ShoppingCart },
+      { name: 'Quotations & Orders', href: '/sales/orders', icon: FileText },
       { name: 'Customers', href: '/sales/customers', icon: UserCheck },
+      { name: 'Price Lists', href: '/sales/price-lists', icon: Tags },
+      { name: 'Promotions', href: '/sales/promotions', icon: BadgePercent },
       { name: 'Returns', href: '/sales/returns', icon: RotateCcw },
+      { name: 'Receivables Aging', href: '/sales/receivables', icon: Wallet },
     ]
   },
   { 
@@ -131,6 +163,12 @@ const navigation: NavItem[] = [
     submenu: [
       { name: 'Chart of Accounts', href: '/accounts', icon: BookOpen },
       { name: 'Transactions', href: '/transactions', icon: CreditCard },
+      { name: 'Financial Statements', href: '/accounts/reports', icon: FileText },
+      { name: 'Inventory Valuation', href: '/accounts/inventory-valuation', icon: Layers },
+      { name: 'Tax Codes', href: '/accounts/tax-codes', icon: Percent },
+      { name: 'Tax Return', href: '/accounts/tax-return', icon: Landmark },
+      { name: 'Exchange Rates', href: '/accounts/exchange-rates', icon: ArrowLeftRight },
+      { name: 'Accounting Periods', href: '/accounts/periods', icon: CalendarCheck },
     ]
   },
   { 
@@ -398,8 +436,10 @@ export function Sidebar({ children }: SidebarProps) {
                 (item.name === 'Sales' && pathname.startsWith('/returns')) ||
                 // Purchases specific logic
                 (item.name === 'Purchases' && pathname.startsWith('/purchases/') && !pathname.includes('/add') && !pathname.includes('/suppliers')) ||
+                // Warehouse detail pages
+                (item.name === 'Warehouses' && pathname.startsWith('/warehouses/')) ||
                 // Products specific logic
-                (item.name === 'Products' && pathname.startsWith('/products/') && !pathname.includes('/add') && !pathname.includes('/attributes') && !pathname.includes('/categories')) ||
+                (item.name === 'Products' && pathname.startsWith('/products/') && !pathname.includes('/add') && !pathname.includes('/attributes') && !pathname.includes('/categories') && !pathname.includes('/labels')) ||
                 // Logs specific logic
                 (item.name === 'Logs' && pathname.startsWith('/logs/') && !pathname.includes('/activity'))
                 : false
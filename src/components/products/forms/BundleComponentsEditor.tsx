@@ -0,0 +1,190 @@
+'use client'
+
+import React from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from 'sonner'
+import {
+  getBundleComponentKey,
+  getBundleComponentOptions,
+  type BundleComponentInput,
+  type BundleComponentOption
+} from '@/lib/supabase/product-bundles'
+
+interface BundleComponentsEditorProps {
+  value: BundleComponentInput[]
+  onChange: (components: BundleComponentInput[]) => void
+  disabled?: boolean
+}
+
+export function BundleComponentsEditor({ value, onChange, disabled = false }: BundleComponentsEditorProps) {
+  const [options, setOptions] = React.useState<BundleComponentOption[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [selectedKey, setSelectedKey] = React.useState('')
+  const [quantity, setQuantity] = React.useState(1)
+
+  React.useEffect(() => {
+    getBundleComponentOptions()
+      .then(setOptions)
+      .catch(error => {
+        console.error('Error loading bundle component options:', error)
+        toast.error('Failed to load the items that can go into a bundle')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const optionsByKey = React.useMemo(
+    () => new Map(options.map(option => [getBundleComponentKey(option), option])),
+    [options]
+  )
+  const usedKeys = new Set(value.map(getBundleComponentKey))
+
+  const handleAdd = () => {
+    const option = optionsByKey.get(selectedKey)
+    if (!option || quantity <= 0) return
+
+    onChange([
+      ...value,
+      {
+        component_type: option.component_type,
+        component_id: option.component_id,
+        component_variation_id: option.component_variation_id,
+        quantity
+      }
+    ])
+    setSelectedKey('')
+    setQuantity(1)
+  }
+
+  const handleQuantityChange = (index: number, newQuantity: number) => {
+    onChange(value.map((component, i) => i === index ? { ...component, quantity: newQuantity } : component))
+  }
+
+  const handleRemove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bundle Components</CardTitle>
+        <CardDescription>
+          Products and packaging in one bundle. Selling a bundle takes these from the sale&apos;s
+          warehouse, and returning it puts them back.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-[1fr_6rem_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="bundle-component">Item</Label>
+            <Select value={selectedKey} onValueChange={setSelectedKey} disabled={disabled || loading}>
+              <SelectTrigger id="bundle-component">
+                <SelectValue placeholder={loading ? 'Loading items...' : 'Select a product or packaging'} />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(option => {
+                  const key = getBundleComponentKey(option)
+                  return (
+                    <SelectItem key={key} value={key} disabled={usedKeys.has(key)}>
+                      {option.name}
+                      {option.component_type === 'package' ? ' · Packaging' : ''}
+                    </SelectItem>
+                  )
+                })}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bundle-component-quantity">Qty</Label>
+            <Input
+              id="bundle-component-quantity"
+              type="number"
+              min="1"
+              value={quantity}
+              onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+              disabled={disabled}
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={handleAdd} disabled={disabled || !selectedKey || quantity <= 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+
+        {value.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            No components yet. A bundle needs at least one.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="w-28">Qty per bundle</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.map((component, index) => {
+                const key = getBundleComponentKey(component)
+                const option = optionsByKey.get(key)
+                return (
+                  <TableRow key={key}>
+                    <TableCell>
+                      <div className="font-medium">{option?.name || component.component_id}</div>
+                      {option?.sku && <div className="text-xs text-muted-foreground font-mono">{option.sku}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{component.component_type === 'package' ? 'Packaging' : 'Product'}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={component.quantity}
+                        onChange={(e) => handleQuantityChange(index, Math.max(parseInt(e.target.value) || 1, 1))}
+                        disabled={disabled}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(index)}
+                        disabled={disabled}
+                        aria-label="Remove component"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,28 +1,30 @@
 'use client'
 
-import { Package, GitBranch } from 'lucide-react'
+import { Package, GitBranch, Gift } from 'lucide-react'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Label } from '@/components/ui/label'
 import { Card } from '@/components/ui/card'
 
 interface ProductTypeSelectorProps {
-  value: 'simple' | 'variation'
-  onChange: (value: 'simple' | 'variation') => void
+  value: 'simple' | 'variation' | 'bundle'
+  onChange: (value: 'simple' | 'variation' | 'bundle') => void
   disabled?: boolean
+  // Bundles are chosen when the product is created; editing only shows the card for a bundle
+  showBundle?: boolean
 }
 
-export function ProductTypeSelector({ value, onChange, disabled = false }: ProductTypeSelectorProps) {
+export function ProductTypeSelector({ value, onChange, disabled = false, showBundle = true }: ProductTypeSelectorProps) {
   return (
     <Card>
       <div className="p-6">
         <h3 className="text-lg font-medium">Product Type</h3>
         <p className="text-sm text-muted-foreground mt-1">
-          Choose whether this is a simple product or a variation product with multiple options
+          Choose whether this is a simple product, a variation product with multiple options, or a bundle of other items
         </p>
         <RadioGroup
           value={value}
           onValueChange={disabled ? undefined : onChange}
-          className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4"
+          className={`mt-4 grid grid-cols-1 gap-4 ${showBundle ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}
           suppressHydrationWarning
           disabled={disabled}
         >
@@ -59,6 +61,25 @@ export function ProductTypeSelector({ value, onChange, disabled = false }: Produ
               </div>
             </Card>
           </Label>
+
+          {showBundle && (
+          <Label htmlFor="bundle-product" className={`block ${disabled ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}`} suppressHydrationWarning>
+            <Card className={`p-4 border transition-all h-full ${value === 'bundle' ? 'border-black' : ''} ${disabled ? 'opacity-60' : 'hover:border-black'}`} suppressHydrationWarning>
+              <div className="flex items-start gap-4">
+                <RadioGroupItem value="bundle" id="bundle-product" className="mt-1" suppressHydrationWarning/>
+                <div className="grid gap-1.5">
+                    <div className="font-semibold flex items-center gap-2">
+                      <Gift className="h-4 w-4" />
+                      Bundle
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      A kit sold as one item, stocked through the products and packaging it contains
+                    </p>
+                </div>
+              </div>
+            </Card>
+          </Label>
+          )}
         </RadioGroup>
       </div>
     </Card>
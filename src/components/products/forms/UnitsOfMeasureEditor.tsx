@@ -0,0 +1,149 @@
+'use client'
+
+import React from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { ProductUnitsInput } from '@/lib/supabase/units-of-measure'
+
+interface UnitsOfMeasureEditorProps {
+  value: ProductUnitsInput
+  onChange: (productUnits: ProductUnitsInput) => void
+  disabled?: boolean
+}
+
+export function UnitsOfMeasureEditor({ value, onChange, disabled = false }: UnitsOfMeasureEditorProps) {
+  const [name, setName] = React.useState('')
+  const [factor, setFactor] = React.useState(12)
+
+  const baseUnit = value.base_unit.trim()
+  const usedNames = new Set([baseUnit, ...value.units.map(unit => unit.name)].map(unitName => unitName.trim().toLowerCase()))
+  const trimmedName = name.trim()
+  const canAdd = trimmedName !== '' && factor > 1 && !usedNames.has(trimmedName.toLowerCase())
+
+  const handleAdd = () => {
+    if (!canAdd) return
+
+    onChange({ ...value, units: [...value.units, { name: trimmedName, conversion_factor: factor }] })
+    setName('')
+    setFactor(12)
+  }
+
+  const handleFactorChange = (index: number, newFactor: number) => {
+    onChange({
+      ...value,
+      units: value.units.map((unit, i) => i === index ? { ...unit, conversion_factor: newFactor } : unit)
+    })
+  }
+
+  const handleRemove = (index: number) => {
+    onChange({ ...value, units: value.units.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Units of Measure</CardTitle>
+        <CardDescription>
+          Stock is always counted in the base unit. Add larger units, such as a carton, to buy
+          and sell in them as well.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="base-unit">Base Unit</Label>
+          <Input
+            id="base-unit"
+            value={value.base_unit}
+            onChange={(e) => onChange({ ...value, base_unit: e.target.value })}
+            placeholder="e.g. pcs, kg, bottle"
+            className="max-w-xs"
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="grid grid-cols-[1fr_8rem_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="unit-name">Alternate Unit</Label>
+            <Input
+              id="unit-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. carton"
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="unit-factor">{baseUnit || 'Base units'} each</Label>
+            <Input
+              id="unit-factor"
+              type="number"
+              min="2"
+              value={factor}
+              onChange={(e) => setFactor(parseInt(e.target.value) || 0)}
+              disabled={disabled}
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={handleAdd} disabled={disabled || !canAdd}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+
+        {value.units.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            Bought and sold in {baseUnit || 'the base unit'} only.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Unit</TableHead>
+                <TableHead className="w-40">{baseUnit || 'Base units'} per unit</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.units.map((unit, index) => (
+                <TableRow key={unit.name}>
+                  <TableCell className="font-medium">{unit.name}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="2"
+                      value={unit.conversion_factor}
+                      onChange={(e) => handleFactorChange(index, Math.max(parseInt(e.target.value) || 2, 2))}
+                      disabled={disabled}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(index)}
+                      disabled={disabled}
+                      aria-label="Remove unit"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
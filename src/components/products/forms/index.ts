@@ -1,4 +1,6 @@
 export { BasicProductForm } from './BasicProductForm'
 export { SimpleProductFields } from './SimpleProductFields'
 export { ProductTypeSelector } from './ProductTypeSelector'
-export { VariationProductFields } from './VariationProductFields'
\ No newline at end of file
+export { VariationProductFields } from './VariationProductFields'
+export { BundleComponentsEditor } from './BundleComponentsEditor'
+export { UnitsOfMeasureEditor } from './UnitsOfMeasureEditor'
\ No newline at end of file
@@ -25,10 +25,12 @@ import type {
   DatabaseProductVariation 
 } from '@/lib/hooks/useProductData'
 import { safeParsePrice } from '@/lib/utils/productTransforms'
+import { BarcodeField, type BarcodeValidationState } from '@/components/BarcodeField'
 
 // Interface for the variation data that gets submitted
 interface VariationSubmitData {
   sku: string
+  barcode?: string
   price?: number
   attributeValues: { [attributeId: string]: string }
 }
@@ -37,6 +39,7 @@ interface VariationSubmitData {
 interface ExistingVariation {
   id: string
   sku: string
+  barcode?: string
   price: number
   attributeValues: { [attributeId: string]: string }
 }
@@ -60,6 +63,8 @@ export function AddVariationModal({
 }: AddVariationModalProps) {
   // Local form state
   const [sku, setSku] = React.useState('')
+  const [barcode, setBarcode] = React.useState('')
+  const [barcodeValidation, setBarcodeValidation] = React.useState<BarcodeValidationState | null>(null)
   const [price, setPrice] = React.useState<number | undefined>(undefined)
   const [attributeValues, setAttributeValues] = React.useState<{ [attributeId: string]: string }>({})
   
@@ -71,6 +76,7 @@ export function AddVariationModal({
   React.useEffect(() => {
     if (open) {
       setSku('')
+      setBarcode('')
       setPrice(undefined)
       setAttributeValues({})
       setSkuError(null)
@@ -120,6 +126,16 @@ export function AddVariationModal({
       return
     }
 
+    if (barcodeValidation?.isChecking) {
+      setFormError('Please wait for barcode validation to complete')
+      return
+    }
+
+    if (barcodeValidation?.isValid === false) {
+      setFormError(barcodeValidation.message)
+      return
+    }
+
     // Check if all selected attributes have values
     for (const attributeId of selectedAttributes) {
       if (!attributeValues[attributeId]) {
@@ -144,6 +160,7 @@ export function AddVariationModal({
     // Submit the variation
     onSubmit({
       sku: sku.trim(),
+      barcode: barcode.trim(),
       price,
       attributeValues
     })
@@ -203,6 +220,16 @@ export function AddVariationModal({
                 placeholder="0.00"
               />
             </div>
+
+            <div className="md:col-span-2">
+              <BarcodeField
+                id="add-variation-barcode"
+                value={barcode}
+                onChange={setBarcode}
+                otherBarcodes={existingVariations.map(variation => variation.barcode || '').filter(Boolean)}
+                onValidationChange={setBarcodeValidation}
+              />
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
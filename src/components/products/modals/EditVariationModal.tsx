@@ -25,10 +25,12 @@ import type {
   DatabaseProductVariation 
 } from '@/lib/hooks/useProductData'
 import { safeParsePrice } from '@/lib/utils/productTransforms'
+import { BarcodeField, type BarcodeValidationState } from '@/components/BarcodeField'
 
 // Interface for the variation data that gets submitted
 interface VariationSubmitData {
   sku: string
+  barcode?: string
   price?: number
   attributeValues: { [attributeId: string]: string }
 }
@@ -37,6 +39,7 @@ interface VariationSubmitData {
 interface Variation {
   id: string
   sku: string
+  barcode?: string
   price: number
   attributeValues: { [attributeId: string]: string }
 }
@@ -74,6 +77,8 @@ export function EditVariationModal({
 }: EditVariationModalProps) {
   // Local form state
   const [sku, setSku] = React.useState('')
+  const [barcode, setBarcode] = React.useState('')
+  const [barcodeValidation, setBarcodeValidation] = React.useState<BarcodeValidationState | null>(null)
   const [price, setPrice] = React.useState<number | undefined>(undefined)
   const [attributeValues, setAttributeValues] = React.useState<{ [attributeId: string]: string }>({})
   
@@ -85,6 +90,7 @@ export function EditVariationModal({
   React.useEffect(() => {
     if (open && variation) {
       setSku(variation.sku || '')
+      setBarcode(variation.barcode || '')
       setPrice(variation.price)
       setAttributeValues(variation.attributeValues || {})
       setSkuError(null)
@@ -92,6 +98,7 @@ export function EditVariationModal({
     } else if (open) {
       // Reset form if no variation is provided
       setSku('')
+      setBarcode('')
       setPrice(undefined)
       setAttributeValues({})
       setSkuError(null)
@@ -150,6 +157,16 @@ export function EditVariationModal({
       return
     }
 
+    if (barcodeValidation?.isChecking) {
+      setFormError('Please wait for barcode validation to complete')
+      return
+    }
+
+    if (barcodeValidation?.isValid === false) {
+      setFormError(barcodeValidation.message)
+      return
+    }
+
     // Check if all selected attributes have values
     for (const attributeId of selectedAttributes) {
       if (!attributeValues[attributeId]) {
@@ -177,6 +194,7 @@ export function EditVariationModal({
     // Submit the variation
     onSubmit({
       sku: sku.trim(),
+      barcode: barcode.trim(),
       price,
       attributeValues
     })
@@ -236,6 +254,20 @@ export function EditVariationModal({
                 placeholder="0.00"
               />
             </div>
+
+            <div className="md:col-span-2">
+              <BarcodeField
+                id="edit-variation-barcode"
+                value={barcode}
+                onChange={setBarcode}
+                excludeId={variation?.id}
+                otherBarcodes={existingVariations
+                  .filter((_, index) => index !== editingIndex)
+                  .map(existingVariation => existingVariation.barcode || '')
+                  .filter(Boolean)}
+                onValidationChange={setBarcodeValidation}
+              />
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
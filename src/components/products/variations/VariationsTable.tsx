@@ -102,6 +102,9 @@ export function VariationsTable({
                     <TableRow key={variation.id || `temp-${index}`}>
                       <TableCell>
                         <span className="font-medium">{variation.sku}</span>
+                        <div className="text-xs text-muted-foreground font-mono">
+                          {variation.barcode || 'Barcode generated on save'}
+                        </div>
                       </TableCell>
                       <TableCell>
                         <div className="flex flex-wrap gap-1">
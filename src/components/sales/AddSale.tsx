@@ -17,10 +17,11 @@
 'use client'
 
 import React, { useState, useMemo, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { ShoppingCart, Plus, Minus, AlertCircle, ArrowLeft, Percent, DollarSign, Box, Gift } from 'lucide-react'
+import { ShoppingCart, FileText, Plus, Minus, AlertCircle, ArrowLeft, Percent, DollarSign, Box, Gift } from 'lucide-react'
 import { toast } from 'sonner'
 
 import { Button } from '@/components/ui/button'
@@ -32,6 +33,7 @@ import { Switch } from '@/components/ui/switch'
 // Import Supabase functions for customers and products
 import { type Customer } from '@/lib/supabase/sales-client'
 import { useAddSaleData } from '@/lib/hooks/useAddSaleData'
+import { type BarcodeItem } from '@/lib/supabase/barcodes'
 
 // Import modal components
 import { 
@@ -39,11 +41,13 @@ import {
   VariationSelectionModal,
   PackagingSelectionModal,
   PackagingVariationSelectionModal,
-  DiscountModal
+  DiscountModal,
+  LotSelectionModal,
+  SerialSelectionModal
 } from './modals'
 
 // Import ProductGrid, CartSidebar, SaleForm, and SaleSuccessPage components
-import { ProductGrid, CartSidebar, SaleForm, SaleSuccessPage } from './add-sale'
+import { ProductGrid, CartSidebar, SaleForm, SaleSuccessPage, TenderPanel } from './add-sale'
 
 // Import types
 import { 
@@ -60,9 +64,14 @@ import { useCartManagement, type DiscountType, type SaleItem, type CartItem } fr
 
 // Import real Supabase functions
 import { getPackagingByWarehouse } from '@/lib/supabase/sales-client'
+import { getPriceList } from '@/lib/supabase/price-lists'
+import { getActivePromotions } from '@/lib/supabase/promotions'
+import { getTaxSetup } from '@/lib/supabase/tax-codes'
+import { BASE_CURRENCY, getCurrencySymbol, getExchangeRate, isBaseCurrency } from '@/lib/supabase/currencies'
 
 // Import sale submission hook
 import { useSaleSubmission } from '@/hooks/sales/useSaleSubmission'
+import { useSplitTender } from '@/hooks/sales/useSplitTender'
 
 // Payment methods - now loaded from accounts marked as payment methods
 
@@ -83,7 +92,6 @@ const saleSchema = z.object({
   })).min(1, 'At least one item is required'),
   totalDiscount: z.number().min(0, 'Total discount cannot be negative'),
   totalDiscountType: z.enum(['percentage', 'fixed']),
-  taxRate: z.number().min(0).max(100, 'Tax rate cannot exceed 100%'),
 })
 
 type SaleFormData = z.infer<typeof saleSchema>
@@ -104,9 +112,22 @@ interface AddSaleProps {
   editMode?: boolean
   existingSale?: Sale
   saleId?: string
+  // 'quotation' saves the cart as a quotation instead of posting a sale
+  documentType?: 'sale' | 'quotation'
 }
 
-export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps) {
+// Quotations are valid for 30 days unless the user picks another date
+function defaultQuotationExpiry(): string {
+  const expiry = new Date()
+  expiry.setDate(expiry.getDate() + 30)
+  return expiry.toISOString().split('T')[0]
+}
+
+export default function AddSale({ editMode, existingSale, saleId, documentType = 'sale' }: AddSaleProps) {
+  const router = useRouter()
+  const isQuotation = documentType === 'quotation'
+  const [expiryDate, setExpiryDate] = useState(defaultQuotationExpiry)
+
   // Use the optimized data hook instead of duplicated loading logic
   const {
     customers,
@@ -132,11 +153,12 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
     onSubmit,
     onSubmitError,
     handleCompleteSale,
+    saveQuotation,
     startNewSale,
     handleCustomerAdded,
     showAlert,
     setValidationAttempted
-  } = useSaleSubmission({ customers, warehouses, clearCache })
+  } = useSaleSubmission({ customers, warehouses, paymentMethodAccounts, clearCache })
 
 
 
@@ -197,6 +219,12 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
   
   // Discount modal state
   const [showDiscountModal, setShowDiscountModal] = useState(false)
+
+  // Lot picking modal state
+  const [itemForLots, setItemForLots] = useState<CartItem | null>(null)
+
+  // Serial number modal state
+  const [itemForSerials, setItemForSerials] = useState<CartItem | null>(null)
   
 
 
@@ -210,7 +238,6 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
       items: [],
       totalDiscount: 0,
       totalDiscountType: 'percentage',
-      taxRate: 0,
     }
   })
 
@@ -221,24 +248,125 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
   const {
     cart,
     cartItems,
-    calculations: { subtotal, totalDiscountAmount, afterDiscount, taxAmount, grandTotal: cartTotal },
+    calculations,
     totalDiscount,
     totalDiscountType,
-    taxRate,
     setTotalDiscount,
     setTotalDiscountType,
-    setTaxRate,
+    setTaxSetup,
+    priceList,
+    setPriceList,
+    setPriceDate,
+    exchangeRate,
+    setExchangeRate,
+    appliedPromotions,
+    orderPromotionDiscount,
+    couponCodes,
+    setPromotions,
+    applyCoupon,
+    removeCoupon,
     addToCart,
     updateCartItemQuantity,
     removeFromCart,
     updateItemDiscount,
     updateItemDiscountType,
     toggleFreeGift,
+    setItemLots,
+    setItemSerials,
+    setItemUnit,
     clearCart,
     getAvailableStock,
     isCartEmpty,
     totalItemsInCart
   } = cartManagement
+  const { subtotal, totalDiscountAmount, afterDiscount, taxAmount, grandTotal: cartTotal, lineTaxes } = calculations
+
+  // Tenders taken at the counter; the selected payment method takes what the others leave
+  const splitTender = useSplitTender(cartTotal, selectedPaymentMethod, paymentMethodAccounts)
+
+  // Price the cart from the selected customer's price list, as valid on the sale date
+  const selectedPriceListId = customers.find(c => c.id === selectedCustomer)?.price_list_id || null
+  useEffect(() => {
+    if (!selectedPriceListId) {
+      setPriceList(null)
+      return
+    }
+
+    let cancelled = false
+    getPriceList(selectedPriceListId)
+      .then(list => {
+        if (!cancelled) setPriceList(list)
+      })
+      .catch(error => {
+        console.error('Error loading price list:', error)
+        toast.error('Failed to load the customer\'s price list; using product prices')
+        if (!cancelled) setPriceList(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedPriceListId, setPriceList])
+
+  const saleDate = watch('saleDate')
+  useEffect(() => {
+    if (saleDate) setPriceDate(saleDate)
+  }, [saleDate, setPriceDate])
+
+  // Sell in the customer's currency at the rate on the sale date; without a rate, in taka
+  const customerCurrency = customers.find(c => c.id === selectedCustomer)?.currency || BASE_CURRENCY
+  const [saleCurrency, setSaleCurrency] = useState(BASE_CURRENCY)
+  useEffect(() => {
+    if (isBaseCurrency(customerCurrency) || !saleDate) {
+      setSaleCurrency(BASE_CURRENCY)
+      setExchangeRate(1)
+      return
+    }
+
+    let cancelled = false
+    getExchangeRate(customerCurrency, saleDate)
+      .then(rate => {
+        if (cancelled) return
+        if (rate === null) {
+          toast.error(`No ${customerCurrency} exchange rate on or before the sale date; selling in taka`)
+        }
+        setSaleCurrency(rate === null ? BASE_CURRENCY : customerCurrency)
+        setExchangeRate(rate ?? 1)
+      })
+      .catch(error => {
+        console.error('Error loading exchange rate:', error)
+        toast.error(`Failed to load the ${customerCurrency} exchange rate; selling in taka`)
+        if (!cancelled) {
+          setSaleCurrency(BASE_CURRENCY)
+          setExchangeRate(1)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [customerCurrency, saleDate, setExchangeRate])
+  const currencySymbol = getCurrencySymbol(saleCurrency)
+
+  // Active promotions are applied to the cart as it changes
+  useEffect(() => {
+    getActivePromotions()
+      .then(setPromotions)
+      .catch(error => {
+        console.error('Error loading promotions:', error)
+        toast.error('Failed to load promotions')
+      })
+  }, [setPromotions])
+
+  // Line taxes follow each product's or category's tax code
+  useEffect(() => {
+    getTaxSetup()
+      .then(setTaxSetup)
+      .catch(error => {
+        console.error('Error loading tax codes:', error)
+        toast.error('Failed to load tax codes; sales will be untaxed')
+      })
+  }, [setTaxSetup])
 
   // Handle Complete Sale button click
   const handleCompleteSaleClick = async () => {
@@ -246,11 +374,33 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
       warehouseId: selectedWarehouse,
       customerId: selectedCustomer,
       paymentMethod: selectedPaymentMethod,
+      payments: splitTender.payments,
       saleDate: watch('saleDate'), // Use the user-selected date from the form
       items: cart,
       totalDiscount,
-      totalDiscountType,
-      taxRate
+      totalDiscountType
+    }
+
+    if (isQuotation) {
+      const result = await saveQuotation(formData, cartItems, {
+        subtotal,
+        totalDiscountAmount,
+        taxAmount,
+        grandTotal: cartTotal,
+        lineTaxes,
+        currency: saleCurrency,
+        exchangeRate
+      }, expiryDate)
+
+      if (result.success && result.quotationId) {
+        router.push(`/sales/orders/${result.quotationId}`)
+      }
+      return
+    }
+
+    if (splitTender.tenderError) {
+      showAlert('error', splitTender.tenderError)
+      return
     }
     
     await handleCompleteSale(
@@ -264,7 +414,11 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
         subtotal,
         totalDiscountAmount,
         taxAmount,
-        grandTotal: cartTotal
+        grandTotal: cartTotal,
+        promotions: appliedPromotions,
+        lineTaxes,
+        currency: saleCurrency,
+        exchangeRate
       }
     )
   }
@@ -295,6 +449,38 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
       setSelectedProductForPackaging(product)
       setSelectedVariationForPackaging(null)
       setShowPackagingModal(true)
+    } else if (product.type === 'bundle') {
+      // Bundles carry their packaging as components, so they go straight into the cart
+      addToCart(product.id, '')
+    }
+  }
+
+  // A scanned product goes through the same packaging step as a clicked one
+  const handleBarcodeScan = (item: BarcodeItem) => {
+    if (item.item_type === 'package') {
+      toast.error(`${item.name} is packaging`, {
+        description: 'Scan the product, then choose its packaging'
+      })
+      return
+    }
+
+    const product = products.find(p => p.id === item.item_id)
+    if (!product) {
+      toast.error(`${item.name} is not available in this warehouse`)
+      return
+    }
+
+    if (product.type === 'variation') {
+      const variation = product.variations?.find((v: ProductVariation) => v.id === item.variation_id)
+      if (!variation) {
+        toast.error(`${item.name} is not available in this warehouse`)
+        return
+      }
+      setSelectedProductForPackaging(product)
+      setSelectedVariationForPackaging(variation)
+      setShowPackagingModal(true)
+    } else {
+      handleProductClick(product)
     }
   }
 
@@ -335,11 +521,16 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
       setSelectedCustomer,
       setSelectedPaymentMethod
     )
+    splitTender.resetTenders()
   }
 
   const printReceipt = () => {
     const selectedCustomerData = customers.find(c => c.id === selectedCustomer)
-    const selectedPaymentMethodData = paymentMethodAccounts.find(account => account.id === selectedPaymentMethod)
+    const paymentLines = (saleResult.payments || []).map(payment => {
+      const account = paymentMethodAccounts.find(a => a.id === payment.account_id)
+      return `<div>${account?.account_name || 'Payment'}: ${currencySymbol}${payment.amount.toFixed(2)}</div>`
+    }).join('')
+    const changeDue = saleResult.changeDue || 0
     
     const receiptContent = `
       <!DOCTYPE html>
@@ -363,7 +554,9 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
           <div class="company-info">Phone: +880 1234-567890</div>
         </div>
           <div>Date: ${new Date().toLocaleDateString()}</div>
-        <div>Total: ৳${(saleResult.revenue || 0).toFixed(2)}</div>
+        <div>Total: ${currencySymbol}${(saleResult.revenue || 0).toFixed(2)}</div>
+        ${paymentLines}
+        ${changeDue > 0 ? `<div>Change: ${currencySymbol}${changeDue.toFixed(2)}</div>` : ''}
       </body>
       </html>
     `
@@ -383,22 +576,16 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
     return (
       <SaleSuccessPage
         saleResult={saleResult}
-        calculations={{
-          subtotal,
-          totalDiscountAmount,
-          afterDiscount,
-          taxAmount,
-          grandTotal: cartTotal
-        }}
+        calculations={calculations}
         totalDiscount={totalDiscount}
         totalDiscountType={totalDiscountType}
-        taxRate={taxRate}
         selectedCustomer={selectedCustomer}
         selectedPaymentMethod={selectedPaymentMethod}
         customers={customers}
         paymentMethodAccounts={paymentMethodAccounts}
         onStartNewSale={startNewSaleLocal}
         onPrintReceipt={printReceipt}
+        currencySymbol={currencySymbol}
       />
     )
   }
@@ -409,13 +596,15 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
-            <ShoppingCart className="h-8 w-8" />
-            {editMode && existingSale ? `Edit Sale #${existingSale.id}` : 'New Sale'}
+            {isQuotation ? <FileText className="h-8 w-8" /> : <ShoppingCart className="h-8 w-8" />}
+            {editMode && existingSale ? `Edit Sale #${existingSale.id}` : isQuotation ? 'New Quotation' : 'New Sale'}
           </h1>
           <p className="text-muted-foreground">
             {editMode && existingSale 
               ? `Modify sale details and products • Customer: ${existingSale.customerName}`
-              : 'Select a warehouse, add products to cart, and process the sale'
+              : isQuotation
+                ? 'Select a warehouse and customer, add products, and save a quotation to send'
+                : 'Select a warehouse, add products to cart, and process the sale'
             }
           </p>
         </div>
@@ -442,6 +631,9 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
               onCustomerChange={setSelectedCustomer}
               onPaymentMethodChange={setSelectedPaymentMethod}
               onShowAddCustomerModal={() => setShowAddCustomerModal(true)}
+              documentType={documentType}
+              expiryDate={expiryDate}
+              onExpiryDateChange={setExpiryDate}
             />
 
             {/* Product Grid */}
@@ -452,6 +644,7 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
               cart={cart}
               onProductClick={handleProductClick}
               getAvailableStock={getAvailableStock}
+              onBarcodeScan={handleBarcodeScan}
             />
           </div>
         </div>
@@ -461,29 +654,45 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
           cartItems={cartItems}
           isCartEmpty={isCartEmpty}
           selectedWarehouse={selectedWarehouse}
-          calculations={{
-            subtotal,
-            totalDiscountAmount,
-            afterDiscount,
-            taxAmount,
-            grandTotal: cartTotal
-          }}
+          calculations={calculations}
           totalDiscount={totalDiscount}
           totalDiscountType={totalDiscountType}
-          taxRate={taxRate}
+          priceListName={priceList?.name}
+          currencySymbol={currencySymbol}
+          appliedPromotions={appliedPromotions}
+          orderPromotionDiscount={orderPromotionDiscount}
+          couponCodes={couponCodes}
+          onApplyCoupon={applyCoupon}
+          onRemoveCoupon={removeCoupon}
           form={{ handleSubmit, control, formState: { errors }, setValue, watch, reset }}
-          onSubmit={(data) => onSubmit(data, cartItems, {
+          onSubmit={(data) => onSubmit({ ...data, payments: splitTender.payments }, cartItems, {
             subtotal,
             totalDiscountAmount,
             taxAmount,
-            grandTotal: cartTotal
+            grandTotal: cartTotal,
+            promotions: appliedPromotions,
+            lineTaxes,
+            currency: saleCurrency,
+            exchangeRate
           })}
           onSubmitError={onSubmitError}
           updateCartItemQuantity={updateCartItemQuantity}
+          setItemUnit={setItemUnit}
           toggleFreeGift={toggleFreeGift}
           getAvailableStock={getAvailableStock}
+          onPickLots={isQuotation ? undefined : setItemForLots}
+          onPickSerials={isQuotation ? undefined : setItemForSerials}
           onShowDiscountModal={() => setShowDiscountModal(true)}
           onCompleteSale={handleCompleteSaleClick}
+          completeLabel={isQuotation ? 'Save Quotation' : 'Complete Sale'}
+          paymentPanel={isQuotation ? undefined : (
+            <TenderPanel
+              splitTender={splitTender}
+              primaryAccountId={selectedPaymentMethod}
+              accounts={paymentMethodAccounts}
+              currencySymbol={currencySymbol}
+            />
+          )}
           isSubmitting={isSubmitting}
         />
       </div>
@@ -514,6 +723,32 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
         onPackagingSelect={handlePackagingSelect}
       />
 
+      {/* Lot Selection Modal */}
+      <LotSelectionModal
+        isOpen={!!itemForLots}
+        onClose={() => setItemForLots(null)}
+        item={itemForLots}
+        warehouseId={selectedWarehouse}
+        onLotsSelect={(lots) => {
+          if (itemForLots) {
+            setItemLots(itemForLots.productId, lots, itemForLots.variationId, itemForLots.packagingId, itemForLots.packagingVariationId)
+          }
+        }}
+      />
+
+      {/* Serial Number Modal */}
+      <SerialSelectionModal
+        isOpen={!!itemForSerials}
+        onClose={() => setItemForSerials(null)}
+        item={itemForSerials}
+        warehouseId={selectedWarehouse}
+        onSerialsSelect={(serialNumbers) => {
+          if (itemForSerials) {
+            setItemSerials(itemForSerials.productId, serialNumbers, itemForSerials.variationId, itemForSerials.packagingId, itemForSerials.packagingVariationId)
+          }
+        }}
+      />
+
       {/* Discount Modal */}
       <DiscountModal
         isOpen={showDiscountModal}
@@ -525,12 +760,12 @@ export default function AddSale({ editMode, existingSale, saleId }: AddSaleProps
         setTotalDiscount={setTotalDiscount}
         totalDiscountType={totalDiscountType}
         setTotalDiscountType={setTotalDiscountType}
-        taxRate={taxRate}
-        setTaxRate={setTaxRate}
         subtotal={subtotal}
         totalDiscountAmount={totalDiscountAmount}
         afterDiscount={afterDiscount}
         taxAmount={taxAmount}
+        grandTotal={cartTotal}
+        currencySymbol={currencySymbol}
       />
     </div>
   )
@@ -0,0 +1,28 @@
+import * as React from "react"
+import type { CompanySettings } from "@/lib/supabase/company-settings"
+
+interface DocumentLetterheadProps {
+  company: CompanySettings
+  title: string
+  children?: React.ReactNode
+}
+
+// Company block on the left, document title and reference details on the right
+export default function DocumentLetterhead({ company, title, children }: DocumentLetterheadProps) {
+  return (
+    <div className="flex items-start justify-between border-b pb-6">
+      <div>
+        <div className="text-xl font-bold tracking-wide">{company.company_name}</div>
+        {company.address && <div className="text-gray-600 whitespace-pre-line">{company.address}</div>}
+        {company.phone && <div className="text-gray-600">Phone: {company.phone}</div>}
+        {company.email && <div className="text-gray-600">{company.email}</div>}
+        {company.website && <div className="text-gray-600">{company.website}</div>}
+        {company.tax_number && <div className="text-gray-600">Tax No: {company.tax_number}</div>}
+      </div>
+      <div className="text-right">
+        <div className="text-2xl font-bold">{title}</div>
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,320 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import {
+  PRICE_LIST_ERROR_MESSAGES,
+  getPriceListItemKey,
+  getPriceListProductOptions,
+  savePriceListItems,
+  updatePriceList,
+  type PriceListProductOption,
+  type PriceListWithItems
+} from "@/lib/supabase/price-lists"
+
+// One price row; an item can have several rows for its quantity breaks and date ranges
+interface PriceListLine {
+  rowId: number
+  key: string
+  option: PriceListProductOption
+  minQuantity: number
+  price: number
+  validFrom: string
+  validTo: string
+}
+
+interface PriceListFormProps {
+  priceList: PriceListWithItems
+  onSaved: () => void
+  onCancel?: () => void
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 2
+  }).format(amount)
+}
+
+export function PriceListForm({ priceList, onSaved, onCancel }: PriceListFormProps) {
+  const [name, setName] = React.useState(priceList.name)
+  const [description, setDescription] = React.useState(priceList.description || '')
+  const [options, setOptions] = React.useState<PriceListProductOption[]>([])
+  const [optionsLoading, setOptionsLoading] = React.useState(true)
+  const [selectedKey, setSelectedKey] = React.useState('')
+  const [lines, setLines] = React.useState<PriceListLine[]>([])
+  const [isSaving, setIsSaving] = React.useState(false)
+  const nextRowId = React.useRef(0)
+
+  React.useEffect(() => {
+    getPriceListProductOptions()
+      .then(items => {
+        setOptions(items)
+
+        const optionsByKey = new Map(items.map(item => [getPriceListItemKey(item), item]))
+        setLines(priceList.items.flatMap(item => {
+          const key = getPriceListItemKey(item)
+          const option = optionsByKey.get(key)
+          // Prices for products that are no longer active are dropped on save
+          if (!option) return []
+          return [{
+            rowId: nextRowId.current++,
+            key,
+            option,
+            minQuantity: item.min_quantity,
+            price: item.price,
+            validFrom: item.valid_from || '',
+            validTo: item.valid_to || ''
+          }]
+        }))
+      })
+      .catch(error => {
+        console.error('Error loading price list products:', error)
+        toast.error('Failed to load products')
+      })
+      .finally(() => setOptionsLoading(false))
+  }, [priceList])
+
+  const addLine = () => {
+    const option = options.find(item => getPriceListItemKey(item) === selectedKey)
+    if (!option) return
+    // A further row for an item already on the list starts as its next quantity break
+    const existing = lines.filter(line => line.key === selectedKey)
+    const minQuantity = existing.length > 0 ? Math.max(...existing.map(line => line.minQuantity)) + 1 : 1
+    setLines(current => [...current, {
+      rowId: nextRowId.current++,
+      key: selectedKey,
+      option,
+      minQuantity,
+      price: option.price,
+      validFrom: '',
+      validTo: ''
+    }])
+    setSelectedKey('')
+  }
+
+  const updateLine = (rowId: number, changes: Partial<PriceListLine>) => {
+    setLines(current => current.map(line => line.rowId === rowId ? { ...line, ...changes } : line))
+  }
+
+  const removeLine = (rowId: number) => {
+    setLines(current => current.filter(line => line.rowId !== rowId))
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Give the price list a name')
+      return
+    }
+    const invalidQuantity = lines.find(line => !(line.minQuantity > 0))
+    if (invalidQuantity) {
+      toast.error(`Enter a minimum quantity for ${invalidQuantity.option.name}`)
+      return
+    }
+    const invalidPrice = lines.find(line => !(line.price >= 0))
+    if (invalidPrice) {
+      toast.error(`Enter a price for ${invalidPrice.option.name}`)
+      return
+    }
+    const invalidDates = lines.find(line => line.validFrom && line.validTo && line.validTo < line.validFrom)
+    if (invalidDates) {
+      toast.error(`The price for ${invalidDates.option.name} ends before it starts`)
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await updatePriceList(priceList.id, { name: name.trim(), description: description.trim() || null })
+
+      const result = await savePriceListItems(priceList.id, lines.map(line => ({
+        product_id: line.option.product_id,
+        variation_id: line.option.variation_id,
+        min_quantity: line.minQuantity,
+        price: line.price,
+        valid_from: line.validFrom || null,
+        valid_to: line.validTo || null
+      })))
+
+      if (!result.success) {
+        toast.error(`${PRICE_LIST_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+        return
+      }
+
+      toast.success('Price list saved')
+      onSaved()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the price list')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+          <CardDescription>Customers are assigned a price list on the Customers page</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="price-list-name">Name *</Label>
+            <Input
+              id="price-list-name"
+              placeholder="e.g. Wholesale"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price-list-description">Description</Label>
+            <Textarea
+              id="price-list-description"
+              rows={1}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Prices</CardTitle>
+          <CardDescription>
+            Prices are per base unit. A line gets the price with the highest minimum quantity it
+            reaches that is valid on the sale date; items not listed sell at their product price.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={selectedKey} onValueChange={setSelectedKey} disabled={optionsLoading}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={optionsLoading ? 'Loading products...' : 'Select a product or variation'} />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(option => {
+                  const key = getPriceListItemKey(option)
+                  return (
+                    <SelectItem key={key} value={key}>
+                      {option.name}
+                    </SelectItem>
+                  )
+                })}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={addLine} disabled={!selectedKey}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Price
+            </Button>
+          </div>
+
+          {lines.length === 0 ? (
+            <div className="py-8 text-center text-muted-foreground">
+              No prices yet. Customers on this list pay the product price for everything.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Product Price</TableHead>
+                  <TableHead className="w-[120px] text-right">Min Qty</TableHead>
+                  <TableHead className="w-[140px] text-right">Price</TableHead>
+                  <TableHead className="w-[160px]">Valid From</TableHead>
+                  <TableHead className="w-[160px]">Valid To</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => (
+                  <TableRow key={line.rowId}>
+                    <TableCell>
+                      <div className="font-medium">{line.option.name}</div>
+                      <div className="text-xs text-muted-foreground">per {line.option.base_unit}</div>
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatCurrency(line.option.price)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={1}
+                        value={line.minQuantity || ''}
+                        onChange={(e) => updateLine(line.rowId, { minQuantity: parseInt(e.target.value) || 0 })}
+                        className="text-right"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={Number.isNaN(line.price) ? '' : line.price}
+                        onChange={(e) => updateLine(line.rowId, { price: parseFloat(e.target.value) })}
+                        className="text-right"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="date"
+                        value={line.validFrom}
+                        onChange={(e) => updateLine(line.rowId, { validFrom: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="date"
+                        value={line.validTo}
+                        onChange={(e) => updateLine(line.rowId, { validTo: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => removeLine(line.rowId)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={isSaving || optionsLoading}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Price List
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+"use client"
+
+import { Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+// Opens the browser print dialog; choosing "Save as PDF" there gives the PDF copy,
+// named after the page title.
+export default function PrintButton() {
+  return (
+    <Button size="sm" onClick={() => window.print()}>
+      <Printer className="h-4 w-4 mr-2" />
+      Print / Save PDF
+    </Button>
+  )
+}
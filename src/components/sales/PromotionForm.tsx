@@ -0,0 +1,373 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import { getCategories, type DatabaseCategory } from "@/lib/supabase/queries"
+import {
+  getPriceListItemKey,
+  getPriceListProductOptions,
+  type PriceListProductOption
+} from "@/lib/supabase/price-lists"
+import {
+  PROMOTION_TYPE_LABELS,
+  savePromotion,
+  type Promotion,
+  type PromotionDiscountType,
+  type PromotionType
+} from "@/lib/supabase/promotions"
+
+interface PromotionFormProps {
+  // Promotion being edited; omitted when creating a new one
+  promotion?: Promotion
+  onSaved: (promotionId: string) => void
+  onCancel?: () => void
+}
+
+// Parse an optional whole-number field; blank means no value
+const parseOptionalInt = (value: string) => value.trim() === '' ? null : parseInt(value)
+const parseOptionalNumber = (value: string) => value.trim() === '' ? null : parseFloat(value)
+
+export function PromotionForm({ promotion, onSaved, onCancel }: PromotionFormProps) {
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+
+  const [name, setName] = React.useState(promotion?.name || '')
+  const [description, setDescription] = React.useState(promotion?.description || '')
+  const [promotionType, setPromotionType] = React.useState<PromotionType>(promotion?.promotion_type || 'category_discount')
+  const [discountType, setDiscountType] = React.useState<PromotionDiscountType>(promotion?.discount_type || 'percentage')
+  const [discountValue, setDiscountValue] = React.useState(promotion ? String(promotion.discount_value) : '')
+  const [categoryId, setCategoryId] = React.useState(promotion?.category_id || '')
+  const [buyKey, setBuyKey] = React.useState(
+    promotion?.buy_product_id ? getPriceListItemKey({ product_id: promotion.buy_product_id, variation_id: promotion.buy_variation_id }) : ''
+  )
+  const [buyQuantity, setBuyQuantity] = React.useState(promotion?.buy_quantity ? String(promotion.buy_quantity) : '')
+  const [getKey, setGetKey] = React.useState(
+    promotion?.get_product_id ? getPriceListItemKey({ product_id: promotion.get_product_id, variation_id: promotion.get_variation_id }) : ''
+  )
+  const [getQuantity, setGetQuantity] = React.useState(promotion?.get_quantity ? String(promotion.get_quantity) : '')
+  const [minSpend, setMinSpend] = React.useState(promotion?.min_spend ? String(promotion.min_spend) : '')
+  const [couponCode, setCouponCode] = React.useState(promotion?.coupon_code || '')
+  const [validFrom, setValidFrom] = React.useState(promotion?.valid_from || '')
+  const [validTo, setValidTo] = React.useState(promotion?.valid_to || '')
+  const [usageLimit, setUsageLimit] = React.useState(promotion?.usage_limit ? String(promotion.usage_limit) : '')
+  const [perCustomerLimit, setPerCustomerLimit] = React.useState(promotion?.per_customer_limit ? String(promotion.per_customer_limit) : '')
+  const [active, setActive] = React.useState(promotion ? promotion.status === 'active' : true)
+  const [categories, setCategories] = React.useState<DatabaseCategory[]>([])
+  const [products, setProducts] = React.useState<PriceListProductOption[]>([])
+  const [optionsLoading, setOptionsLoading] = React.useState(true)
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    Promise.all([getCategories(), getPriceListProductOptions()])
+      .then(([categoryList, productList]) => {
+        setCategories(categoryList)
+        setProducts(productList)
+      })
+      .catch(error => {
+        console.error('Error loading promotion options:', error)
+        toast.error('Failed to load categories and products')
+      })
+      .finally(() => setOptionsLoading(false))
+  }, [])
+
+  const findProduct = (key: string) => products.find(product => getPriceListItemKey(product) === key)
+
+  const handleSave = async () => {
+    const value = parseFloat(discountValue)
+    const buy = findProduct(buyKey)
+    const get = findProduct(getKey)
+
+    if (!name.trim()) {
+      toast.error('Give the promotion a name')
+      return
+    }
+    if (!(value > 0) || (discountType === 'percentage' && value > 100)) {
+      toast.error(discountType === 'percentage' ? 'Enter a percentage between 0 and 100' : 'Enter the amount off')
+      return
+    }
+    if (promotionType === 'category_discount' && !categoryId) {
+      toast.error('Select the category the discount applies to')
+      return
+    }
+    if (promotionType === 'buy_x_get_y' && (!buy || !get || !(parseInt(buyQuantity) > 0) || !(parseInt(getQuantity) > 0))) {
+      toast.error('Select what must be bought and what is given, with their quantities')
+      return
+    }
+    if (promotionType === 'spend_threshold' && !(parseFloat(minSpend) > 0)) {
+      toast.error('Enter the spend the sale must reach')
+      return
+    }
+    if (validFrom && validTo && validTo < validFrom) {
+      toast.error('The promotion ends before it starts')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const saved = await savePromotion({
+        name: name.trim(),
+        description: description.trim() || null,
+        promotion_type: promotionType,
+        discount_type: discountType,
+        discount_value: value,
+        category_id: promotionType === 'category_discount' ? categoryId : null,
+        buy_product_id: promotionType === 'buy_x_get_y' && buy ? buy.product_id : null,
+        buy_variation_id: promotionType === 'buy_x_get_y' && buy ? buy.variation_id : null,
+        buy_quantity: promotionType === 'buy_x_get_y' ? parseInt(buyQuantity) : null,
+        get_product_id: promotionType === 'buy_x_get_y' && get ? get.product_id : null,
+        get_variation_id: promotionType === 'buy_x_get_y' && get ? get.variation_id : null,
+        get_quantity: promotionType === 'buy_x_get_y' ? parseInt(getQuantity) : null,
+        min_spend: promotionType === 'spend_threshold' ? parseOptionalNumber(minSpend) : null,
+        coupon_code: couponCode.trim() || null,
+        valid_from: validFrom || null,
+        valid_to: validTo || null,
+        usage_limit: parseOptionalInt(usageLimit),
+        per_customer_limit: parseOptionalInt(perCustomerLimit),
+        status: active ? 'active' : 'inactive'
+      }, currentUser, promotion?.id)
+
+      toast.success(promotion ? 'Promotion updated' : 'Promotion created')
+      onSaved(saved.id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the promotion')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderProductSelect = (id: string, value: string, onChange: (key: string) => void) => (
+    <Select value={value} onValueChange={onChange} disabled={optionsLoading}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={optionsLoading ? 'Loading products...' : 'Select a product or variation'} />
+      </SelectTrigger>
+      <SelectContent>
+        {products.map(product => {
+          const key = getPriceListItemKey(product)
+          return (
+            <SelectItem key={key} value={key}>
+              {product.name}
+            </SelectItem>
+          )
+        })}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Promotion</CardTitle>
+          <CardDescription>What the promotion gives and when it applies</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="promotion-name">Name *</Label>
+            <Input
+              id="promotion-name"
+              placeholder="e.g. Eid sale 10% off beverages"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="promotion-type">Type *</Label>
+            <Select
+              value={promotionType}
+              onValueChange={(value) => setPromotionType(value as PromotionType)}
+              disabled={!!promotion}
+            >
+              <SelectTrigger id="promotion-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(type => (
+                  <SelectItem key={type} value={type}>{PROMOTION_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {promotionType === 'category_discount' && (
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="promotion-category">Category *</Label>
+              <Select value={categoryId} onValueChange={setCategoryId} disabled={optionsLoading}>
+                <SelectTrigger id="promotion-category">
+                  <SelectValue placeholder={optionsLoading ? 'Loading categories...' : 'Select a category'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {promotionType === 'buy_x_get_y' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-buy">Buy *</Label>
+                {renderProductSelect('promotion-buy', buyKey, setBuyKey)}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-buy-quantity">Buy quantity *</Label>
+                <Input
+                  id="promotion-buy-quantity"
+                  type="number"
+                  min={1}
+                  value={buyQuantity}
+                  onChange={(e) => setBuyQuantity(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-get">Get *</Label>
+                {renderProductSelect('promotion-get', getKey, setGetKey)}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-get-quantity">Get quantity *</Label>
+                <Input
+                  id="promotion-get-quantity"
+                  type="number"
+                  min={1}
+                  value={getQuantity}
+                  onChange={(e) => setGetQuantity(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          {promotionType === 'spend_threshold' && (
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="promotion-min-spend">Minimum spend (৳) *</Label>
+              <Input
+                id="promotion-min-spend"
+                type="number"
+                min={0}
+                step="0.01"
+                value={minSpend}
+                onChange={(e) => setMinSpend(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="promotion-discount-type">Discount *</Label>
+            <Select value={discountType} onValueChange={(value) => setDiscountType(value as PromotionDiscountType)}>
+              <SelectTrigger id="promotion-discount-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percentage">Percentage off</SelectItem>
+                <SelectItem value="fixed">
+                  {promotionType === 'spend_threshold' ? 'Fixed amount off the sale' : 'Fixed amount off each unit'}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="promotion-discount-value">
+              {discountType === 'percentage' ? 'Percentage *' : 'Amount (৳) *'}
+            </Label>
+            <Input
+              id="promotion-discount-value"
+              type="number"
+              min={0}
+              step="0.01"
+              value={discountValue}
+              onChange={(e) => setDiscountValue(e.target.value)}
+            />
+            {promotionType === 'buy_x_get_y' && (
+              <p className="text-xs text-muted-foreground">Off each unit given; 100% makes them free</p>
+            )}
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="promotion-description">Description</Label>
+            <Textarea id="promotion-description" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Validity and Limits</CardTitle>
+          <CardDescription>Leave a field blank for no limit</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="promotion-coupon">Coupon code</Label>
+            <Input
+              id="promotion-coupon"
+              placeholder="Applies automatically when blank"
+              value={couponCode}
+              onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+            />
+          </div>
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="promotion-active">Active</Label>
+              <p className="text-xs text-muted-foreground">Inactive promotions are never applied</p>
+            </div>
+            <Switch id="promotion-active" checked={active} onCheckedChange={setActive} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="promotion-valid-from">Valid from</Label>
+            <Input id="promotion-valid-from" type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="promotion-valid-to">Valid to</Label>
+            <Input id="promotion-valid-to" type="date" value={validTo} onChange={(e) => setValidTo(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="promotion-usage-limit">Total uses</Label>
+            <Input
+              id="promotion-usage-limit"
+              type="number"
+              min={1}
+              value={usageLimit}
+              onChange={(e) => setUsageLimit(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="promotion-per-customer-limit">Uses per customer</Label>
+            <Input
+              id="promotion-per-customer-limit"
+              type="number"
+              min={1}
+              value={perCustomerLimit}
+              onChange={(e) => setPerCustomerLimit(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {promotion ? 'Save Changes' : 'Create Promotion'}
+        </Button>
+      </div>
+    </div>
+  )
+}
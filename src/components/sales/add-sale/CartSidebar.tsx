@@ -3,15 +3,18 @@
 import React from 'react'
 import { UseFormReturn } from 'react-hook-form'
 import { motion } from 'framer-motion'
-import { ShoppingCart, Plus, Minus, Percent, Gift } from 'lucide-react'
+import { ShoppingCart, Plus, Minus, Percent, Gift, Layers, ScanLine, Ticket, X } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
 import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 
 import { type CartItem, type DiscountType, type CartCalculations } from '@/hooks/sales/useCartManagement'
 import { type ProductVariation } from '@/lib/types'
+import { type AppliedPromotion } from '@/lib/supabase/promotions'
 
 export interface CartSidebarProps {
   // Cart data
@@ -23,7 +26,17 @@ export interface CartSidebarProps {
   calculations: CartCalculations
   totalDiscount: number
   totalDiscountType: DiscountType
-  taxRate: number
+  // Name of the selected customer's price list, when the cart is priced from one
+  priceListName?: string
+  // Symbol of the sale currency the amounts are in
+  currencySymbol?: string
+
+  // Promotions applied to the cart and coupon entry
+  appliedPromotions?: AppliedPromotion[]
+  orderPromotionDiscount?: number
+  couponCodes?: string[]
+  onApplyCoupon?: (code: string) => boolean
+  onRemoveCoupon?: (code: string) => void
   
   // Form handling
   form: UseFormReturn<any>
@@ -33,11 +46,17 @@ export interface CartSidebarProps {
   // Cart actions
   updateCartItemQuantity: (productId: string, quantity: number, variationId?: string, packagingId?: string, packagingVariationId?: string) => void
   toggleFreeGift: (productId: string, variationId?: string, packagingId?: string, packagingVariationId?: string) => void
+  setItemUnit?: (productId: string, unitName: string, unitFactor: number, variationId?: string, packagingId?: string, packagingVariationId?: string) => void
   getAvailableStock: (product: any, variationId?: string) => number
+  onPickLots?: (item: CartItem) => void
+  onPickSerials?: (item: CartItem) => void
   
   // Modal and discount actions
   onShowDiscountModal: () => void
   onCompleteSale: () => void
+  completeLabel?: string
+  // Tenders taken for the sale, shown above the complete button
+  paymentPanel?: React.ReactNode
   
   // Loading and submission state
   isSubmitting: boolean
@@ -50,18 +69,43 @@ export function CartSidebar({
   calculations,
   totalDiscount,
   totalDiscountType,
-  taxRate,
+  priceListName,
+  currencySymbol = '৳',
+  appliedPromotions = [],
+  orderPromotionDiscount = 0,
+  couponCodes = [],
+  onApplyCoupon,
+  onRemoveCoupon,
   form,
   onSubmit,
   onSubmitError,
   updateCartItemQuantity,
   toggleFreeGift,
+  setItemUnit,
   getAvailableStock,
+  onPickLots,
+  onPickSerials,
   onShowDiscountModal,
   onCompleteSale,
+  completeLabel = 'Complete Sale',
+  paymentPanel,
   isSubmitting
 }: CartSidebarProps) {
   const { subtotal, totalDiscountAmount, afterDiscount, taxAmount, grandTotal: cartTotal } = calculations
+  const [couponCode, setCouponCode] = React.useState('')
+  const [couponError, setCouponError] = React.useState('')
+  // Manual order discount, without the spend threshold promotions included in the total
+  const manualDiscountAmount = (totalDiscountAmount || 0) - orderPromotionDiscount
+
+  const handleApplyCoupon = () => {
+    if (!onApplyCoupon || !couponCode.trim()) return
+    if (onApplyCoupon(couponCode)) {
+      setCouponCode('')
+      setCouponError('')
+    } else {
+      setCouponError(`${couponCode.trim()} is not a current coupon code`)
+    }
+  }
 
   // Helper function to get attribute value display
   const getAttributeValueDisplay = (attributeId: string, valueId: string) => {
@@ -119,6 +163,7 @@ export function CartSidebar({
           </CardTitle>
           <CardDescription>
             {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'} in cart
+            {priceListName && ` · ${priceListName} prices`}
           </CardDescription>
         </CardHeader>
         <CardContent className="flex flex-col h-[calc(100%-6rem)] pt-3 pl-6 pr-6">
@@ -146,24 +191,87 @@ export function CartSidebar({
                             </p>
                           )}
                           <p className="text-xs text-muted-foreground">
+                            {!item.isFreeGift && item.unitPrice !== item.listUnitPrice && (
+                              <span className="line-through mr-1">{currencySymbol}{item.listUnitPrice.toFixed(2)}</span>
+                            )}
                             {item.isFreeGift 
                               ? 'FREE each' 
-                              : `৳${(item.variation ? item.variation.price : item.product.price || 0).toFixed(2)} each`
+                              : `${currencySymbol}${item.unitPrice.toFixed(2)} per ${item.unitName || item.product.baseUnit || 'unit'}`
                             }
                           </p>
+                          {setItemUnit && (item.product.units?.length || 0) > 1 && (
+                            <Select
+                              value={String(item.unitFactor || 1)}
+                              onValueChange={(value) => {
+                                const unit = item.product.units?.find(option => String(option.factor) === value)
+                                if (unit) {
+                                  setItemUnit(item.productId, unit.name, unit.factor, item.variationId, item.packagingId, item.packagingVariationId)
+                                }
+                              }}
+                              disabled={isSubmitting}
+                            >
+                              <SelectTrigger className="mt-1 h-7 w-36 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {item.product.units?.map(unit => (
+                                  <SelectItem
+                                    key={unit.name}
+                                    value={String(unit.factor)}
+                                    disabled={item.quantity * unit.factor > getAvailableStock(item.product, item.variationId)}
+                                  >
+                                    {unit.factor > 1 ? `${unit.name} (${unit.factor} ${item.product.baseUnit || 'pcs'})` : unit.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
                           {/* Packaging Information */}
-                          <p className="text-xs text-blue-600">
-                            📦 {item.packaging.title}
-                            {item.packagingVariation && ` (${item.packagingVariation.sku})`}
-                          </p>
+                          {item.packaging && (
+                            <p className="text-xs text-blue-600">
+                              📦 {item.packaging.title}
+                              {item.packagingVariation && ` (${item.packagingVariation.sku})`}
+                            </p>
+                          )}
+                          {item.product.trackLots && onPickLots && (
+                            <button
+                              type="button"
+                              onClick={() => onPickLots(item)}
+                              disabled={isSubmitting}
+                              className="flex items-center gap-1 text-xs text-amber-700 hover:underline"
+                            >
+                              <Layers className="h-3 w-3" />
+                              {item.lots?.length
+                                ? `${item.lots.length} lot${item.lots.length !== 1 ? 's' : ''} picked`
+                                : 'Lots: first expiry first'}
+                            </button>
+                          )}
+                          {item.product.trackSerials && onPickSerials && (
+                            <button
+                              type="button"
+                              onClick={() => onPickSerials(item)}
+                              disabled={isSubmitting}
+                              className={`flex items-center gap-1 text-xs hover:underline ${
+                                (item.serialNumbers?.length || 0) === item.baseQuantity ? 'text-green-700' : 'text-red-600'
+                              }`}
+                            >
+                              <ScanLine className="h-3 w-3" />
+                              {`${item.serialNumbers?.length || 0} of ${item.baseQuantity} serial numbers`}
+                            </button>
+                          )}
                           {item.discount > 0 && (
                             <p className="text-xs text-green-600">
                               {item.discountType === 'percentage' 
                                 ? `${item.discount}% discount applied`
-                                : `৳${item.discount.toFixed(2)} discount applied`
+                                : `${currencySymbol}${item.discount.toFixed(2)} discount applied`
                               }
                             </p>
                           )}
+                          {item.promotionDiscount > 0 && (
+                            <p className="text-xs text-green-600">
+                              Promotion: -{currencySymbol}{item.promotionDiscount.toFixed(2)}
+                            </p>
+                          )}
                           {/* Free Gift Toggle */}
                           <div className="flex items-center gap-2 mt-1">
                             <Switch
@@ -183,7 +291,7 @@ export function CartSidebar({
                         </div>
                         <div className="flex flex-col items-end gap-1">
                           <Badge variant={item.product.type === 'variation' ? 'secondary' : 'default'} className="text-xs">
-                            {item.product.type === 'variation' ? 'VAR' : 'SIMPLE'}
+                            {item.product.type === 'variation' ? 'VAR' : item.product.type === 'bundle' ? 'BUNDLE' : 'SIMPLE'}
                           </Badge>
                         </div>
                       </div>
@@ -202,26 +310,27 @@ export function CartSidebar({
                           </Button>
                           <span className="font-medium text-sm min-w-[2rem] text-center">
                             {item.quantity}
+                            {item.unitName && <span className="ml-1 text-xs text-muted-foreground">{item.unitName}</span>}
                           </span>
                           <Button
                             type="button"
                             variant="outline"
                             size="sm"
                             onClick={() => updateCartItemQuantity(item.productId, item.quantity + 1, item.variationId, item.packagingId, item.packagingVariationId)}
-                            disabled={item.quantity >= getAvailableStock(item.product, item.variationId) || isSubmitting}
+                            disabled={(item.quantity + 1) * (item.unitFactor || 1) > getAvailableStock(item.product, item.variationId) || isSubmitting}
                             className="h-8 w-8 p-0"
                           >
                             <Plus className="h-3 w-3" />
                           </Button>
                         </div>
                         <div className="text-right">
-                          {item.discount > 0 && !item.isFreeGift && (
+                          {(item.discount > 0 || item.promotionDiscount > 0) && !item.isFreeGift && (
                             <div className="text-xs text-muted-foreground line-through">
-                              ৳{(item.originalTotal || 0).toFixed(2)}
+                              {currencySymbol}{(item.originalTotal || 0).toFixed(2)}
                             </div>
                           )}
                           <span className={`font-bold text-sm ${item.isFreeGift ? 'text-green-600' : ''}`}>
-                            {item.isFreeGift ? 'FREE' : `৳${(item.total || 0).toFixed(2)}`}
+                            {item.isFreeGift ? 'FREE' : `${currencySymbol}${(item.total || 0).toFixed(2)}`}
                           </span>
                         </div>
                       </div>
@@ -234,7 +343,7 @@ export function CartSidebar({
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
                       <span>Subtotal:</span>
-                      <span>৳{(subtotal || 0).toFixed(2)}</span>
+                      <span>{currencySymbol}{(subtotal || 0).toFixed(2)}</span>
                     </div>
                     
                     {/* Add Discount Trigger */}
@@ -246,7 +355,7 @@ export function CartSidebar({
                         style={{ textDecoration: 'underline', textDecorationStyle: 'dotted' }}
                       >
                         <Percent className="h-3 w-3" />
-                        Add Discount & Tax
+                        Add Discount
                       </button>
                     </div>
                     
@@ -255,30 +364,104 @@ export function CartSidebar({
                         <span>
                           Discount ({totalDiscountType === 'percentage' 
                             ? `${totalDiscount}%` 
-                            : `৳${totalDiscount.toFixed(2)}`
+                            : `${currencySymbol}${totalDiscount.toFixed(2)}`
                           }):
                         </span>
-                        <span>-৳{(totalDiscountAmount || 0).toFixed(2)}</span>
+                        <span>-{currencySymbol}{manualDiscountAmount.toFixed(2)}</span>
+                      </div>
+                    )}
+
+                    {/* Promotions and coupons */}
+                    {onApplyCoupon && (
+                      <div className="space-y-1">
+                        <div className="flex gap-2">
+                          <Input
+                            value={couponCode}
+                            onChange={(e) => {
+                              setCouponCode(e.target.value)
+                              setCouponError('')
+                            }}
+                            onKeyDown={(e) => {
+                              // Enter applies the coupon instead of submitting the sale
+                              if (e.key === 'Enter') {
+                                e.preventDefault()
+                                handleApplyCoupon()
+                              }
+                            }}
+                            placeholder="Coupon code"
+                            className="h-8 text-sm"
+                            disabled={isSubmitting}
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            onClick={handleApplyCoupon}
+                            disabled={!couponCode.trim() || isSubmitting}
+                          >
+                            <Ticket className="h-3 w-3 mr-1" />
+                            Apply
+                          </Button>
+                        </div>
+                        {couponError && <p className="text-xs text-red-600">{couponError}</p>}
+                        {couponCodes.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {couponCodes.map(code => (
+                              <Badge key={code} variant="secondary" className="text-xs">
+                                {code}
+                                {onRemoveCoupon && (
+                                  <button
+                                    type="button"
+                                    onClick={() => onRemoveCoupon(code)}
+                                    className="ml-1"
+                                    aria-label={`Remove coupon ${code}`}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                )}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Line promotions are already in the subtotal; spend thresholds come off after it */}
+                    {appliedPromotions.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-xs text-muted-foreground">Promotions applied</p>
+                        {appliedPromotions.map(promotion => (
+                          <div key={promotion.promotion_id} className="flex justify-between text-xs text-green-600">
+                            <span className="flex items-center gap-1">
+                              <Gift className="h-3 w-3" />
+                              {promotion.name}
+                            </span>
+                            <span>-{currencySymbol}{promotion.discount_amount.toFixed(2)}</span>
+                          </div>
+                        ))}
                       </div>
                     )}
                     
                     <div className="flex justify-between text-sm">
                       <span>After Discount:</span>
-                      <span>৳{(afterDiscount || 0).toFixed(2)}</span>
+                      <span>{currencySymbol}{(afterDiscount || 0).toFixed(2)}</span>
                     </div>
                     
-                    {taxRate > 0 && (
+                    {taxAmount > 0 && (
                       <div className="flex justify-between text-sm text-blue-600">
-                        <span>Tax ({taxRate}%):</span>
-                        <span>+৳{(taxAmount || 0).toFixed(2)}</span>
+                        <span>Tax:</span>
+                        <span>{currencySymbol}{taxAmount.toFixed(2)}</span>
                       </div>
                     )}
                   </div>
                   
                   <div className="flex justify-between items-center text-xl font-bold border-t pt-2">
                     <span>Total:</span>
-                    <span>৳{(cartTotal || 0).toFixed(2)}</span>
+                    <span>{currencySymbol}{(cartTotal || 0).toFixed(2)}</span>
                   </div>
+
+                  {paymentPanel}
                   
                   <Button
                     type="button"
@@ -287,7 +470,7 @@ export function CartSidebar({
                     disabled={isCartEmpty || isSubmitting}
                     onClick={onCompleteSale}
                   >
-                    {isSubmitting ? 'Processing...' : 'Complete Sale'}
+                    {isSubmitting ? 'Processing...' : completeLabel}
                   </Button>
                 </div>
               </>
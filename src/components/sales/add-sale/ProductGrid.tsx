@@ -9,8 +9,10 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 
+import { BarcodeScanInput } from '@/components/BarcodeScanInput'
 import { type Product } from '@/lib/types'
 import { type CartItem } from '@/hooks/sales/useCartManagement'
+import { type BarcodeItem } from '@/lib/supabase/barcodes'
 
 interface ProductGridProps {
   selectedWarehouse: string
@@ -19,6 +21,7 @@ interface ProductGridProps {
   cart: CartItem[]
   onProductClick: (product: Product) => void
   getAvailableStock: (product: Product, variationId?: string) => number
+  onBarcodeScan?: (item: BarcodeItem) => void
 }
 
 export function ProductGrid({
@@ -27,7 +30,8 @@ export function ProductGrid({
   loadingProducts,
   cart,
   onProductClick,
-  getAvailableStock
+  getAvailableStock,
+  onBarcodeScan
 }: ProductGridProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [gridColumns, setGridColumns] = useState(3)
@@ -89,14 +93,19 @@ export function ProductGrid({
   return (
     <div className="space-y-4">
       {/* Product Search */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-        <Input
-          placeholder="Search products by name, SKU, or description..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-10"
-        />
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            placeholder="Search products by name, SKU, or description..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        {onBarcodeScan && (
+          <BarcodeScanInput onScan={onBarcodeScan} className="sm:w-56" />
+        )}
       </div>
 
       {/* Products Grid */}
@@ -147,7 +156,7 @@ export function ProductGrid({
                         SKU: {product.sku || 'N/A'}
                       </p>
                       <div className="flex justify-between items-center">
-                        {product.type === 'simple' ? (
+                        {product.type !== 'variation' ? (
                         <span className="font-bold text-lg">
                           ৳{(product.price || 0).toFixed(2)}
                         </span>
@@ -157,11 +166,11 @@ export function ProductGrid({
                           </span>
                         )}
                         <Badge variant={product.type === 'variation' ? 'secondary' : 'default'}>
-                          {product.type === 'variation' ? 'Variable' : 'Simple'}
+                          {product.type === 'variation' ? 'Variable' : product.type === 'bundle' ? 'Bundle' : 'Simple'}
                         </Badge>
                       </div>
                       <div className="flex justify-between items-center text-xs">
-                        {product.type === 'simple' ? (
+                        {product.type !== 'variation' ? (
                           <span className={getAvailableStock(product) > 0 ? 'text-green-600' : 'text-red-600'}>
                             Stock: {getAvailableStock(product)}
                             {selectedWarehouse && (product as any).warehouse_stock !== undefined && (
@@ -186,7 +195,7 @@ export function ProductGrid({
                         type="button"
                         className="w-full mt-3"
                       onClick={() => onProductClick(product)}
-                      disabled={product.type === 'simple' && getAvailableStock(product) === 0}
+                      disabled={product.type !== 'variation' && getAvailableStock(product) === 0}
                         size="sm"
                     >
                       {product.type === 'variation' ? (
@@ -28,7 +28,6 @@ export interface SaleFormData {
   }>
   totalDiscount: number
   totalDiscountType: 'percentage' | 'fixed'
-  taxRate: number
 }
 
 interface SaleFormProps {
@@ -56,6 +55,20 @@ interface SaleFormProps {
   onCustomerChange: (customerId: string) => void
   onPaymentMethodChange: (paymentMethodId: string) => void
   onShowAddCustomerModal: () => void
+
+  // Quotations take a validity date instead of a payment method
+  documentType?: 'sale' | 'quotation'
+  expiryDate?: string
+  onExpiryDateChange?: (date: string) => void
+}
+
+// Format a picked date as YYYY-MM-DD without shifting it to UTC
+function formatPickedDate(date?: Date): string {
+  if (!date) return ''
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
 }
 
 export function SaleForm({
@@ -73,8 +86,14 @@ export function SaleForm({
   onWarehouseChange,
   onCustomerChange,
   onPaymentMethodChange,
-  onShowAddCustomerModal
+  onShowAddCustomerModal,
+  documentType = 'sale',
+  expiryDate,
+  onExpiryDateChange
 }: SaleFormProps) {
+  const isQuotation = documentType === 'quotation'
+
+
   return (
     <div className="space-y-6">
       {/* Warehouse and Customer Selection */}
@@ -167,28 +186,18 @@ export function SaleForm({
         </div>
       </div>
 
-      {/* Sale Date and Payment Method */}
+      {/* Sale Date and Payment Method (or validity date for quotations) */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="saleDate">Sale Date *</Label>
+          <Label htmlFor="saleDate">{isQuotation ? 'Quotation Date *' : 'Sale Date *'}</Label>
           <Controller
             name="saleDate"
             control={control}
             render={({ field }) => (
               <DatePicker
                 date={field.value ? new Date(field.value) : undefined}
-                onDateChange={(date) => {
-                  if (date) {
-                    const year = date.getFullYear()
-                    const month = String(date.getMonth() + 1).padStart(2, '0')
-                    const day = String(date.getDate()).padStart(2, '0')
-                    const formattedDate = `${year}-${month}-${day}`
-                    field.onChange(formattedDate)
-                  } else {
-                    field.onChange('')
-                  }
-                }}
-                placeholder="Select sale date"
+                onDateChange={(date) => field.onChange(formatPickedDate(date))}
+                placeholder={isQuotation ? 'Select quotation date' : 'Select sale date'}
               />
             )}
           />
@@ -197,6 +206,19 @@ export function SaleForm({
           )}
         </div>
 
+        {isQuotation ? (
+          <div className="space-y-2">
+            <Label htmlFor="expiryDate">Valid Until *</Label>
+            <DatePicker
+              date={expiryDate ? new Date(expiryDate) : undefined}
+              onDateChange={(date) => onExpiryDateChange?.(formatPickedDate(date))}
+              placeholder="Select expiry date"
+            />
+            {validationAttempted && !expiryDate && (
+              <p className="text-sm text-red-500">Please select an expiry date</p>
+            )}
+          </div>
+        ) : (
         <div className="space-y-2">
           <Label htmlFor="paymentMethod">Payment Method *</Label>
           <Controller
@@ -236,6 +258,7 @@ export function SaleForm({
             <p className="text-sm text-red-500">{errors.paymentMethod.message}</p>
           )}
         </div>
+        )}
       </div>
     </div>
   )
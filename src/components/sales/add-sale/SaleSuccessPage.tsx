@@ -5,7 +5,7 @@ import { motion } from 'framer-motion'
 import { CheckCircle, Plus, Receipt } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
-import { type Customer } from '@/lib/supabase/sales-client'
+import { type Customer, type PostSalePaymentInput } from '@/lib/supabase/sales-client'
 import { type DiscountType, type CartCalculations } from '@/hooks/sales/useCartManagement'
 
 // Sale result interface
@@ -16,6 +16,9 @@ interface SaleResult {
   revenue?: number
   profit?: number
   items?: any[]
+  // Tenders the sale was paid with and the cash change given
+  payments?: PostSalePaymentInput[]
+  changeDue?: number
 }
 
 // Props for the SaleSuccessPage component
@@ -24,13 +27,14 @@ interface SaleSuccessPageProps {
   calculations: CartCalculations
   totalDiscount: number
   totalDiscountType: DiscountType
-  taxRate: number
   selectedCustomer: string
   selectedPaymentMethod: string
   customers: Customer[]
-  paymentMethodAccounts: Array<{ id: string; name: string }>
+  paymentMethodAccounts: Array<{ id: string; account_name: string }>
   onStartNewSale: () => void
   onPrintReceipt?: () => void
+  // Symbol of the sale currency the amounts are in
+  currencySymbol?: string
 }
 
 export default function SaleSuccessPage({
@@ -38,15 +42,19 @@ export default function SaleSuccessPage({
   calculations,
   totalDiscount,
   totalDiscountType,
-  taxRate,
   selectedCustomer,
   selectedPaymentMethod,
   customers,
   paymentMethodAccounts,
   onStartNewSale,
-  onPrintReceipt
+  onPrintReceipt,
+  currencySymbol = '৳'
 }: SaleSuccessPageProps) {
   const { subtotal, totalDiscountAmount, taxAmount } = calculations
+  const payments = saleResult.payments || []
+  const changeDue = saleResult.changeDue || 0
+  const getAccountName = (accountId: string) =>
+    paymentMethodAccounts.find(account => account.id === accountId)?.account_name || 'Payment'
 
   const handlePrintReceipt = () => {
     if (onPrintReceipt) {
@@ -56,7 +64,9 @@ export default function SaleSuccessPage({
 
     // Default print receipt implementation
     const selectedCustomerData = customers.find(c => c.id === selectedCustomer)
-    const selectedPaymentMethodData = paymentMethodAccounts.find(account => account.id === selectedPaymentMethod)
+    const paymentLines = payments.length > 0
+      ? payments.map(payment => `<div>${getAccountName(payment.account_id)}: ${currencySymbol}${payment.amount.toFixed(2)}</div>`).join('')
+      : `<div>Payment: ${getAccountName(selectedPaymentMethod)}</div>`
     
     const receiptContent = `
       <!DOCTYPE html>
@@ -81,8 +91,9 @@ export default function SaleSuccessPage({
         </div>
         <div>Date: ${new Date().toLocaleDateString()}</div>
         <div>Customer: ${selectedCustomerData?.name || 'N/A'}</div>
-        <div>Payment: ${selectedPaymentMethodData?.name || 'N/A'}</div>
-        <div>Total: ৳${(saleResult.revenue || 0).toFixed(2)}</div>
+        <div>Total: ${currencySymbol}${(saleResult.revenue || 0).toFixed(2)}</div>
+        ${paymentLines}
+        ${changeDue > 0 ? `<div>Change: ${currencySymbol}${changeDue.toFixed(2)}</div>` : ''}
       </body>
       </html>
     `
@@ -146,30 +157,49 @@ export default function SaleSuccessPage({
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>Subtotal:</span>
-                  <span className="font-medium">৳{(subtotal || 0).toFixed(2)}</span>
+                  <span className="font-medium">{currencySymbol}{(subtotal || 0).toFixed(2)}</span>
                 </div>
                 
                 {totalDiscount > 0 && (
                   <div className="flex justify-between text-sm">
                     <span>Discount ({totalDiscountType === 'percentage' 
                       ? `${totalDiscount}%` 
-                      : `৳${totalDiscount.toFixed(2)}`
+                      : `${currencySymbol}${totalDiscount.toFixed(2)}`
                     }):</span>
-                    <span className="font-medium text-green-600">-৳{(totalDiscountAmount || 0).toFixed(2)}</span>
+                    <span className="font-medium text-green-600">-{currencySymbol}{(totalDiscountAmount || 0).toFixed(2)}</span>
                   </div>
                 )}
                 
-                {taxRate > 0 && (
+                {taxAmount > 0 && (
                   <div className="flex justify-between text-sm">
-                    <span>Tax ({taxRate}%):</span>
-                    <span className="font-medium text-blue-600">+৳{(taxAmount || 0).toFixed(2)}</span>
+                    <span>Tax:</span>
+                    <span className="font-medium text-blue-600">{currencySymbol}{taxAmount.toFixed(2)}</span>
                   </div>
                 )}
                 
                 <div className="flex justify-between items-center text-lg font-bold border-t pt-2 mt-3">
                   <span>Total:</span>
-                  <span className="text-green-600">৳{(saleResult.revenue || 0).toFixed(2)}</span>
+                  <span className="text-green-600">{currencySymbol}{(saleResult.revenue || 0).toFixed(2)}</span>
                 </div>
+
+                {payments.map((payment, index) => (
+                  <div key={index} className="flex justify-between text-sm">
+                    <span>
+                      {getAccountName(payment.account_id)}
+                      {payment.amount_tendered !== undefined && payment.amount_tendered > payment.amount && (
+                        <span className="text-muted-foreground"> ({currencySymbol}{payment.amount_tendered.toFixed(2)} received)</span>
+                      )}
+                    </span>
+                    <span className="font-medium">{currencySymbol}{payment.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+
+                {changeDue > 0 && (
+                  <div className="flex justify-between text-base font-bold">
+                    <span>Change Due:</span>
+                    <span>{currencySymbol}{changeDue.toFixed(2)}</span>
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
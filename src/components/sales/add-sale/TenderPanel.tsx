@@ -0,0 +1,142 @@
+'use client'
+
+import React from 'react'
+import { Plus, Wallet, X } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+import { type SplitTender, type TenderAccount } from '@/hooks/sales/useSplitTender'
+
+export interface TenderPanelProps {
+  splitTender: SplitTender
+  // Payment method chosen on the sale form; it takes what the other tenders leave
+  primaryAccountId: string
+  accounts: TenderAccount[]
+  currencySymbol?: string
+}
+
+export function TenderPanel({
+  splitTender,
+  primaryAccountId,
+  accounts,
+  currencySymbol = '৳'
+}: TenderPanelProps) {
+  const {
+    tenders,
+    primaryAmount,
+    primaryReceived,
+    changeDue,
+    tenderError,
+    isCashAccount,
+    setPrimaryReceived,
+    addTender,
+    updateTender,
+    removeTender
+  } = splitTender
+  const primaryAccount = accounts.find(account => account.id === primaryAccountId)
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium flex items-center gap-1">
+          <Wallet className="h-4 w-4" />
+          Payment
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={accounts.length === 0}
+          onClick={addTender}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Split
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-sm">
+          <span className="truncate pr-2">{primaryAccount?.account_name || 'Select payment method'}</span>
+          <span>{currencySymbol}{primaryAmount.toFixed(2)}</span>
+        </div>
+        {primaryAccount && isCashAccount(primaryAccount.id) && primaryAmount > 0 && (
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Cash received"
+            value={primaryReceived}
+            onChange={(e) => setPrimaryReceived(e.target.value)}
+            className="h-8 text-sm"
+          />
+        )}
+      </div>
+
+      {tenders.map((tender, index) => (
+        <div key={index} className="space-y-1 rounded-md border p-2">
+          <div className="flex items-center gap-2">
+            <Select
+              value={tender.accountId}
+              onValueChange={(value) => updateTender(index, { accountId: value })}
+            >
+              <SelectTrigger className="h-8 text-sm flex-1">
+                <SelectValue placeholder="Payment method" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>
+                    <span className="truncate">{account.account_name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              value={tender.amount}
+              onChange={(e) => updateTender(index, { amount: e.target.value })}
+              className="h-8 w-24 text-sm"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => removeTender(index)}
+              aria-label="Remove payment"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          {isCashAccount(tender.accountId) && (
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Cash received"
+              value={tender.received}
+              onChange={(e) => updateTender(index, { received: e.target.value })}
+              className="h-8 text-sm"
+            />
+          )}
+        </div>
+      ))}
+
+      {changeDue > 0 && (
+        <div className="flex justify-between text-sm font-medium text-green-600">
+          <span>Change Due:</span>
+          <span>{currencySymbol}{changeDue.toFixed(2)}</span>
+        </div>
+      )}
+
+      {tenderError && (
+        <p className="text-xs text-red-500">{tenderError}</p>
+      )}
+    </div>
+  )
+}
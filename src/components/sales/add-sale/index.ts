@@ -1,5 +1,6 @@
 export { ProductGrid } from './ProductGrid'
 export { CartSidebar } from './CartSidebar'
 export { SaleForm } from './SaleForm'
+export { TenderPanel } from './TenderPanel'
 export { default as SaleSuccessPage } from './SaleSuccessPage'
 export type { SaleFormData } from './SaleForm'
\ No newline at end of file
@@ -29,6 +29,8 @@ interface CartItem {
     attributeValues: Record<string, string>
   }
   quantity: number
+  // Price of one of the unit the line is sold in
+  unitPrice: number
   originalTotal: number
   discount: number
   discountType: DiscountType
@@ -46,12 +48,14 @@ interface DiscountModalProps {
   setTotalDiscount: (value: number) => void
   totalDiscountType: DiscountType
   setTotalDiscountType: (value: DiscountType) => void
-  taxRate: number
-  setTaxRate: (value: number) => void
   subtotal: number
   totalDiscountAmount: number
   afterDiscount: number
+  // Tax from the lines' tax codes
   taxAmount: number
+  grandTotal: number
+  // Symbol of the sale currency the amounts are in
+  currencySymbol?: string
 }
 
 export default function DiscountModal({
@@ -64,12 +68,12 @@ export default function DiscountModal({
   setTotalDiscount,
   totalDiscountType,
   setTotalDiscountType,
-  taxRate,
-  setTaxRate,
   subtotal,
   totalDiscountAmount,
   afterDiscount,
-  taxAmount
+  taxAmount,
+  grandTotal,
+  currencySymbol = '৳'
 }: DiscountModalProps) {
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -77,10 +81,10 @@ export default function DiscountModal({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Percent className="h-5 w-5" />
-            Discounts & Tax
+            Discounts
           </DialogTitle>
           <DialogDescription>
-            Manage item discounts, total discount, and tax settings
+            Manage item discounts and the total discount; tax follows each product&apos;s tax code
           </DialogDescription>
         </DialogHeader>
         
@@ -112,7 +116,7 @@ export default function DiscountModal({
                       </p>
                     )}
                     <p className="text-xs text-muted-foreground">
-                      ৳{(item.variation ? item.variation.price : item.product.price || 0).toFixed(2)} × {item.quantity} = ৳{item.originalTotal.toFixed(2)}
+                      {currencySymbol}{item.unitPrice.toFixed(2)} × {item.quantity} = {currencySymbol}{item.originalTotal.toFixed(2)}
                     </p>
                   </div>
                   
@@ -145,13 +149,13 @@ export default function DiscountModal({
                       value={item.discount}
                       onChange={(e) => updateItemDiscount(item.productId, parseFloat(e.target.value) || 0, item.variationId)}
                       className="h-8 text-xs"
-                      placeholder={item.discountType === 'percentage' ? '0%' : '৳0'}
+                      placeholder={item.discountType === 'percentage' ? '0%' : `${currencySymbol}0`}
                     />
                   </div>
                   
                   {item.discount > 0 && (
                     <div className="text-xs text-green-600 bg-green-50 p-2 rounded">
-                      Discount: -৳{item.discountAmount.toFixed(2)} | Final: ৳{item.total.toFixed(2)}
+                      Discount: -{currencySymbol}{item.discountAmount.toFixed(2)} | Final: {currencySymbol}{item.total.toFixed(2)}
                     </div>
                   )}
                 </div>
@@ -191,33 +195,16 @@ export default function DiscountModal({
                 value={totalDiscount}
                 onChange={(e) => setTotalDiscount(parseFloat(e.target.value) || 0)}
                 className="h-8 text-xs"
-                placeholder={totalDiscountType === 'percentage' ? 'Total %' : '৳ Total'}
+                placeholder={totalDiscountType === 'percentage' ? 'Total %' : `${currencySymbol} Total`}
               />
             </div>
           </div>
 
-          {/* Tax */}
-          <div className="space-y-3 border-t pt-4">
-            <h3 className="font-medium text-sm">Tax Rate</h3>
-            <div className="flex items-center space-x-2">
-              <Input
-                type="number"
-                min="0"
-                max="100"
-                value={taxRate}
-                onChange={(e) => setTaxRate(parseFloat(e.target.value) || 0)}
-                className="h-8 text-xs flex-1"
-                placeholder="Tax %"
-              />
-              <span className="text-xs text-muted-foreground">%</span>
-            </div>
-          </div>
-
           {/* Summary */}
           <div className="space-y-2 border-t pt-4 bg-muted/30 p-3 rounded">
             <div className="flex justify-between text-xs">
               <span>Items Total:</span>
-              <span>৳{subtotal.toFixed(2)}</span>
+              <span>{currencySymbol}{subtotal.toFixed(2)}</span>
             </div>
             
             {totalDiscount > 0 && (
@@ -225,28 +212,28 @@ export default function DiscountModal({
                 <span>
                   Total Discount ({totalDiscountType === 'percentage' 
                     ? `${totalDiscount}%` 
-                    : `৳${totalDiscount.toFixed(2)}`
+                    : `${currencySymbol}${totalDiscount.toFixed(2)}`
                   }):
                 </span>
-                <span>-৳{totalDiscountAmount.toFixed(2)}</span>
+                <span>-{currencySymbol}{totalDiscountAmount.toFixed(2)}</span>
               </div>
             )}
             
             <div className="flex justify-between text-xs">
               <span>After Discount:</span>
-              <span>৳{afterDiscount.toFixed(2)}</span>
+              <span>{currencySymbol}{afterDiscount.toFixed(2)}</span>
             </div>
             
-            {taxRate > 0 && (
+            {taxAmount > 0 && (
               <div className="flex justify-between text-xs text-blue-600">
-                <span>Tax ({taxRate}%):</span>
-                <span>+৳{taxAmount.toFixed(2)}</span>
+                <span>Tax:</span>
+                <span>{currencySymbol}{taxAmount.toFixed(2)}</span>
               </div>
             )}
             
             <div className="flex justify-between text-sm font-bold border-t pt-2">
               <span>Final Total:</span>
-              <span>৳{(afterDiscount + taxAmount).toFixed(2)}</span>
+              <span>{currencySymbol}{grandTotal.toFixed(2)}</span>
             </div>
           </div>
         </div>
@@ -0,0 +1,155 @@
+'use client'
+
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Layers, Loader2 } from 'lucide-react'
+
+import { type CartItem } from '@/hooks/sales/useCartManagement'
+import {
+  getAvailableLots,
+  getLotExpiryStatus,
+  LOT_EXPIRY_STATUS_BADGE_CLASSES,
+  LOT_EXPIRY_STATUS_LABELS,
+  type SaleItemLotSelection,
+  type StockLot
+} from '@/lib/supabase/stock-lots'
+
+interface LotSelectionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  item: CartItem | null
+  warehouseId: string
+  // undefined picks the lots first expiry, first out when the sale is posted
+  onLotsSelect: (lots: SaleItemLotSelection[] | undefined) => void
+}
+
+export default function LotSelectionModal({
+  isOpen,
+  onClose,
+  item,
+  warehouseId,
+  onLotsSelect
+}: LotSelectionModalProps) {
+  const [lots, setLots] = React.useState<StockLot[]>([])
+  const [picks, setPicks] = React.useState<Record<string, number>>({})
+  const [loading, setLoading] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!isOpen || !item || !warehouseId) return
+
+    setLoading(true)
+    setPicks(Object.fromEntries((item.lots || []).map(lot => [lot.lot_id, lot.quantity])))
+    getAvailableLots(item.productId, item.variationId, warehouseId)
+      .then(setLots)
+      .catch(error => {
+        console.error('Error loading lots:', error)
+        setLots([])
+      })
+      .finally(() => setLoading(false))
+  }, [isOpen, item, warehouseId])
+
+  if (!item) return null
+
+  const picked = Object.values(picks).reduce((sum, quantity) => sum + quantity, 0)
+
+  const handleSave = () => {
+    onLotsSelect(
+      Object.entries(picks)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([lot_id, quantity]) => ({ lot_id, quantity }))
+    )
+    onClose()
+  }
+
+  const handleUseFefo = () => {
+    onLotsSelect(undefined)
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Pick Lots
+          </DialogTitle>
+          <DialogDescription>
+            {item.product.name}: choose which lots the {item.baseQuantity} units come from, or leave it to
+            first expiry, first out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Loading lots...
+            </div>
+          ) : lots.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No unexpired lots of this item in the selected warehouse
+            </p>
+          ) : (
+            lots.map(lot => {
+              const status = getLotExpiryStatus(lot.expiry_date)
+              return (
+                <div key={lot.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <div className="font-medium text-sm">{lot.lot_number}</div>
+                    <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      <span>{lot.expiry_date ? `Expires ${lot.expiry_date}` : 'No expiry'}</span>
+                      <Badge variant="secondary" className={`${LOT_EXPIRY_STATUS_BADGE_CLASSES[status]} text-xs px-1 py-0`}>
+                        {LOT_EXPIRY_STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">{lot.quantity} available</div>
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={lot.quantity}
+                    value={picks[lot.id] || ''}
+                    placeholder="0"
+                    onChange={(e) => {
+                      const quantity = Math.min(Math.max(parseInt(e.target.value) || 0, 0), lot.quantity)
+                      setPicks(prev => ({ ...prev, [lot.id]: quantity }))
+                    }}
+                    className="w-20 h-9 text-center"
+                  />
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        <div className="flex items-center justify-between text-sm pt-2">
+          <span className="text-muted-foreground">Picked</span>
+          <span className={picked === item.baseQuantity ? 'font-medium text-green-600' : 'font-medium text-orange-600'}>
+            {picked} of {item.baseQuantity}
+          </span>
+        </div>
+
+        <div className="flex gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={handleUseFefo} className="flex-1">
+            First Expiry First
+          </Button>
+          <Button onClick={handleSave} disabled={picked !== item.baseQuantity} className="flex-1">
+            Use These Lots
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export { LotSelectionModal }
@@ -0,0 +1,113 @@
+'use client'
+
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2, ScanLine } from 'lucide-react'
+
+import { type CartItem } from '@/hooks/sales/useCartManagement'
+import { SerialNumberInput } from '@/components/SerialNumberInput'
+import { getAvailableSerialNumbers } from '@/lib/supabase/serial-numbers'
+
+interface SerialSelectionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  item: CartItem | null
+  warehouseId: string
+  // The cart line quantity becomes the number of serials chosen
+  onSerialsSelect: (serialNumbers: string[]) => void
+}
+
+export default function SerialSelectionModal({
+  isOpen,
+  onClose,
+  item,
+  warehouseId,
+  onSerialsSelect
+}: SerialSelectionModalProps) {
+  const [available, setAvailable] = React.useState<string[]>([])
+  const [serials, setSerials] = React.useState<string[]>([])
+  const [loading, setLoading] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!isOpen || !item || !warehouseId) return
+
+    setLoading(true)
+    setSerials(item.serialNumbers || [])
+    getAvailableSerialNumbers(item.productId, item.variationId, warehouseId)
+      .then(setAvailable)
+      .catch(error => {
+        console.error('Error loading serial numbers:', error)
+        setAvailable([])
+      })
+      .finally(() => setLoading(false))
+  }, [isOpen, item, warehouseId])
+
+  if (!item) return null
+
+  const notInStock = serials.filter(serial => !available.includes(serial))
+
+  const handleSave = () => {
+    onSerialsSelect(serials)
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Serial Numbers
+          </DialogTitle>
+          <DialogDescription>
+            {item.product.name}: scan or pick the serial number of each unit sold. The quantity on the
+            sale follows the number of serials.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto pr-1">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Loading serial numbers...
+            </div>
+          ) : (
+            <SerialNumberInput
+              value={serials}
+              onChange={setSerials}
+              available={available}
+            />
+          )}
+          {!loading && available.length === 0 && (
+            <p className="pt-2 text-sm text-muted-foreground">
+              No units of this item in stock in the selected warehouse
+            </p>
+          )}
+          {notInStock.length > 0 && (
+            <p className="pt-2 text-sm text-orange-600">
+              {notInStock.length} serial number{notInStock.length !== 1 ? 's are' : ' is'} not in stock in this warehouse
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading || serials.length === 0 || notInStock.length > 0} className="flex-1">
+            Use {serials.length} Serial{serials.length !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export { SerialSelectionModal }
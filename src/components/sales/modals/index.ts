@@ -2,4 +2,6 @@ export { AddCustomerModal, default as AddCustomerModalDefault } from './AddCusto
 export { VariationSelectionModal, default as VariationSelectionModalDefault } from './VariationSelectionModal'
 export { PackagingSelectionModal, default as PackagingSelectionModalDefault } from './PackagingSelectionModal'
 export { PackagingVariationSelectionModal, default as PackagingVariationSelectionModalDefault } from './PackagingVariationSelectionModal'
-export { DiscountModal, default as DiscountModalDefault } from './DiscountModal'
\ No newline at end of file
+export { DiscountModal, default as DiscountModalDefault } from './DiscountModal'
+export { LotSelectionModal, default as LotSelectionModalDefault } from './LotSelectionModal'
+export { SerialSelectionModal, default as SerialSelectionModalDefault } from './SerialSelectionModal'
\ No newline at end of file
@@ -0,0 +1,259 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2, Plus, RotateCcw } from 'lucide-react'
+import { toast } from "sonner"
+import {
+  reverseJournalEntry,
+  correctJournalEntry,
+  JOURNAL_REVERSAL_ERROR_MESSAGES,
+  type CreateJournalEntryData,
+  type JournalReversalResult
+} from "@/lib/supabase/accounts-client"
+import type { AccountWithCategory } from "@/lib/supabase/types/accounting"
+import type { TransactionJournalEntry } from './types'
+import { formatCurrency } from './utils'
+
+export type ReversalMode = 'reverse' | 'correct'
+
+interface JournalEntryReversalDialogProps {
+  entry: TransactionJournalEntry | null
+  mode: ReversalMode
+  accounts: AccountWithCategory[]
+  createdBy: string
+  onClose: () => void
+  onCompleted: (result: Extract<JournalReversalResult, { success: true }>) => void
+}
+
+type EntryLine = CreateJournalEntryData['lines'][number]
+
+export default function JournalEntryReversalDialog({
+  entry,
+  mode,
+  accounts,
+  createdBy,
+  onClose,
+  onCompleted
+}: JournalEntryReversalDialogProps) {
+  const [reversalDate, setReversalDate] = useState<Date>(new Date())
+  const [reason, setReason] = useState('')
+  const [description, setDescription] = useState('')
+  const [lines, setLines] = useState<EntryLine[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Start each correction from a copy of the original lines
+  useEffect(() => {
+    if (!entry) return
+    setReversalDate(new Date())
+    setReason('')
+    setDescription(entry.description)
+    setLines(entry.journal_entry_lines.map(line => ({
+      account_id: line.account_id,
+      description: line.description,
+      debit_amount: line.debit_amount,
+      credit_amount: line.credit_amount
+    })))
+  }, [entry])
+
+  const totalDebits = lines.reduce((sum, line) => sum + (line.debit_amount || 0), 0)
+  const totalCredits = lines.reduce((sum, line) => sum + (line.credit_amount || 0), 0)
+  const isBalanced = Math.abs(totalDebits - totalCredits) <= 0.01 && totalDebits > 0
+
+  const updateLine = (index: number, updates: Partial<EntryLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...updates } : line)))
+  }
+
+  const handleSubmit = async () => {
+    if (!entry) return
+
+    if (!reason.trim()) {
+      toast.error('Please give a reason for the reversal.')
+      return
+    }
+
+    if (mode === 'correct') {
+      if (!description.trim() || lines.some(line => !line.account_id)) {
+        toast.error('Please fill in the description and an account for each line.')
+        return
+      }
+      if (!isBalanced) {
+        toast.error('Debits must equal credits in the corrected entry.')
+        return
+      }
+    }
+
+    const options = {
+      reversal_date: format(reversalDate, 'yyyy-MM-dd'),
+      reason: reason.trim(),
+      created_by: createdBy
+    }
+
+    try {
+      setIsSubmitting(true)
+      const result = mode === 'correct'
+        ? await correctJournalEntry(entry.id, {
+            description: description.trim(),
+            entry_date: options.reversal_date,
+            lines: lines.filter(line => (line.debit_amount || 0) > 0 || (line.credit_amount || 0) > 0)
+          }, options)
+        : await reverseJournalEntry(entry.id, options)
+
+      if (!result.success) {
+        toast.error(`${JOURNAL_REVERSAL_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+        return
+      }
+
+      toast.success(mode === 'correct' ? 'Entry reversed and corrected entry posted.' : 'Reversing entry posted.')
+      onCompleted(result)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={(open) => { if (!open) onClose() }}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="w-5 h-5" />
+            {mode === 'correct' ? 'Correct Journal Entry' : 'Reverse Journal Entry'}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === 'correct'
+              ? 'The original entry is reversed and the corrected entry is posted on the same date. Both stay in the ledger.'
+              : `A mirror entry of ${entry ? formatCurrency(entry.total_amount) : ''} is posted and linked to the original. Nothing is deleted.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {entry && (
+          <div className="grid gap-4 py-2">
+            <div className="rounded-lg bg-gray-50 p-3 text-sm">
+              <div className="font-mono text-xs text-muted-foreground">{entry.entry_number}</div>
+              <div className="font-medium">{entry.description}</div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{mode === 'correct' ? 'Posting date' : 'Reversal date'}</Label>
+                <DatePicker date={reversalDate} onDateChange={(date) => date && setReversalDate(date)} placeholder="Date" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reversal-reason">Reason *</Label>
+                <Textarea
+                  id="reversal-reason"
+                  rows={2}
+                  placeholder="e.g., Posted to the wrong expense account"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {mode === 'correct' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="correction-description">Description *</Label>
+                  <Input
+                    id="correction-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Corrected Lines *</Label>
+                  {lines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center p-3 border rounded">
+                      <div className="col-span-4">
+                        <Select value={line.account_id || ''} onValueChange={(value) => updateLine(index, { account_id: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select account *" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {accounts.map(account => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {account.account_number} - {account.account_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="col-span-3">
+                        <Input
+                          type="number"
+                          placeholder="Debit"
+                          step="0.01"
+                          value={line.debit_amount || ''}
+                          onChange={(e) => updateLine(index, { debit_amount: parseFloat(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div className="col-span-3">
+                        <Input
+                          type="number"
+                          placeholder="Credit"
+                          step="0.01"
+                          value={line.credit_amount || ''}
+                          onChange={(e) => updateLine(index, { credit_amount: parseFloat(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        {lines.length > 2 && (
+                          <Button variant="outline" size="sm" onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}>
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <Button
+                      variant="outline"
+                      onClick={() => setLines(prev => [...prev, { account_id: '', debit_amount: 0, credit_amount: 0 }])}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Line
+                    </Button>
+                    <span className={`text-sm ${isBalanced ? 'text-green-700' : 'text-red-600'}`}>
+                      Debits {formatCurrency(totalDebits)} / Credits {formatCurrency(totalCredits)}
+                    </span>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {mode === 'correct' ? 'Reverse and Post Correction' : 'Post Reversal'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -48,12 +48,14 @@ import {
   ChevronRight,
   ChevronsLeft,
   ChevronsRight,
-  CalendarIcon
+  CalendarIcon,
+  RotateCcw,
+  PencilLine
 } from 'lucide-react'
 import { TransactionJournalEntry, TransactionLayoutProps } from '@/components/transactions/types'
-import { formatCurrency, formatDate, getReferenceDisplay } from './utils'
+import { formatCurrency, formatDate, getReferenceDisplay, getEntryStatusLabel, canReverseEntry } from './utils'
 
-export default function TransactionLayoutTable({ transactions }: TransactionLayoutProps) {
+export default function TransactionLayoutTable({ transactions, onReverse, onCorrect }: TransactionLayoutProps) {
   const [selectedTransaction, setSelectedTransaction] = useState<TransactionJournalEntry | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
   
@@ -77,7 +79,7 @@ export default function TransactionLayoutTable({ transactions }: TransactionLayo
       filtered = filtered.filter(transaction =>
         transaction.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
         getReferenceDisplay(transaction.reference_type, transaction.reference_id).toLowerCase().includes(searchTerm.toLowerCase()) ||
-        transaction.status.toLowerCase().includes(searchTerm.toLowerCase())
+        getEntryStatusLabel(transaction).toLowerCase().includes(searchTerm.toLowerCase())
       )
     }
 
@@ -233,6 +235,9 @@ export default function TransactionLayoutTable({ transactions }: TransactionLayo
     setPendingCustomDateRange(dateRange)
   }
 
+  const linkedEntryNumber = (entryId: string) =>
+    transactions.find(transaction => transaction.id === entryId)?.entry_number || entryId
+
   const openModal = (transaction: TransactionJournalEntry) => {
     setSelectedTransaction(transaction)
     setIsModalOpen(true)
@@ -556,10 +561,10 @@ export default function TransactionLayoutTable({ transactions }: TransactionLayo
                       </TableCell>
                       <TableCell>
                         <Badge 
-                          variant={transaction.status === 'posted' ? 'default' : 'secondary'}
+                          variant={getEntryStatusLabel(transaction) === 'posted' ? 'default' : 'secondary'}
                           className="text-xs"
                         >
-                          {transaction.status}
+                          {getEntryStatusLabel(transaction)}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-center">
@@ -645,8 +650,8 @@ export default function TransactionLayoutTable({ transactions }: TransactionLayo
                   <div className="flex items-start justify-between mb-3">
                     <div className="space-y-2 flex-1">
                       <div className="flex items-center gap-3">
-                        <Badge variant={selectedTransaction.status === 'posted' ? 'default' : 'secondary'}>
-                          {selectedTransaction.status}
+                        <Badge variant={getEntryStatusLabel(selectedTransaction) === 'posted' ? 'default' : 'secondary'}>
+                          {getEntryStatusLabel(selectedTransaction)}
                         </Badge>
                         <span className="text-sm text-muted-foreground font-mono">
                           {getReferenceDisplay(selectedTransaction.reference_type, selectedTransaction.reference_id)}
@@ -671,6 +676,24 @@ export default function TransactionLayoutTable({ transactions }: TransactionLayo
                   </div>
                 </div>
 
+                {/* Reversal links */}
+                {(selectedTransaction.reversed_by_entry_id || selectedTransaction.reverses_entry_id || selectedTransaction.corrects_entry_id) && (
+                  <div className="bg-amber-50 p-4 rounded-lg border border-amber-200 text-sm space-y-1">
+                    {selectedTransaction.reversed_by_entry_id && (
+                      <div>Reversed by {linkedEntryNumber(selectedTransaction.reversed_by_entry_id)}</div>
+                    )}
+                    {selectedTransaction.reverses_entry_id && (
+                      <div>Reverses {linkedEntryNumber(selectedTransaction.reverses_entry_id)}</div>
+                    )}
+                    {selectedTransaction.corrects_entry_id && (
+                      <div>Corrected entry replacing {linkedEntryNumber(selectedTransaction.corrects_entry_id)}</div>
+                    )}
+                    {selectedTransaction.reversal_reason && (
+                      <div className="text-muted-foreground">Reason: {selectedTransaction.reversal_reason}</div>
+                    )}
+                  </div>
+                )}
+
                 {/* Journal Entry Details - Table Format */}
                 <div className="space-y-4">
                   <h4 className="font-semibold text-gray-900">Journal Entry Lines</h4>
@@ -753,6 +776,24 @@ export default function TransactionLayoutTable({ transactions }: TransactionLayo
                     </span>
                   </div>
                 </div>
+
+                {/* Posted entries are never edited; they are reversed or corrected */}
+                {canReverseEntry(selectedTransaction) && (onReverse || onCorrect) && (
+                  <div className="flex justify-end gap-2">
+                    {onReverse && (
+                      <Button variant="outline" onClick={() => { setIsModalOpen(false); onReverse(selectedTransaction) }}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Reverse Entry
+                      </Button>
+                    )}
+                    {onCorrect && (
+                      <Button onClick={() => { setIsModalOpen(false); onCorrect(selectedTransaction) }}>
+                        <PencilLine className="w-4 h-4 mr-2" />
+                        Correct Entry
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
             </>
           )}
@@ -1,11 +1,16 @@
 export interface TransactionJournalEntry {
   id: string
+  entry_number: string
   description: string
   reference_type: string | null
   reference_id: string | null
   entry_date: string
   total_amount: number
   status: string
+  reverses_entry_id: string | null
+  reversed_by_entry_id: string | null
+  corrects_entry_id: string | null
+  reversal_reason: string | null
   journal_entry_lines: Array<{
     id: string
     account_id: string
@@ -20,4 +25,6 @@ export interface TransactionJournalEntry {
 
 export interface TransactionLayoutProps {
   transactions: TransactionJournalEntry[]
+  onReverse?: (transaction: TransactionJournalEntry) => void
+  onCorrect?: (transaction: TransactionJournalEntry) => void
 } 
\ No newline at end of file
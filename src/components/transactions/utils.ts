@@ -4,12 +4,17 @@ import { TransactionJournalEntry } from './types'
 export function transformTransactionData(entries: JournalEntryWithLines[]): TransactionJournalEntry[] {
   return entries.map(entry => ({
     id: entry.id,
+    entry_number: entry.entry_number,
     description: entry.description || 'No description',
     reference_type: entry.reference_type,
     reference_id: entry.reference_id,
     entry_date: entry.entry_date,
     total_amount: entry.total_amount || 0,
     status: entry.status || 'unknown',
+    reverses_entry_id: entry.reverses_entry_id ?? null,
+    reversed_by_entry_id: entry.reversed_by_entry_id ?? null,
+    corrects_entry_id: entry.corrects_entry_id ?? null,
+    reversal_reason: entry.reversal_reason ?? null,
     journal_entry_lines: (entry.journal_entry_lines || []).map(line => ({
       id: line.id || '',
       account_id: line.account_id || '',
@@ -59,4 +64,20 @@ export function getReferenceDisplay(refType: string | null, refId: string | null
   
   // For other cases, use the standard format
   return `#${prefix}-${refId}`
-} 
\ No newline at end of file
+} 
+
+// Reversed entries and their mirrors stay posted; the label shows how they are linked
+export function getEntryStatusLabel(entry: TransactionJournalEntry): string {
+  if (entry.reversed_by_entry_id) return 'reversed'
+  if (entry.reverses_entry_id) return 'reversal'
+  if (entry.corrects_entry_id) return 'correction'
+  return entry.status
+}
+
+// Only posted entries that are not reversals, closing entries or already reversed can be reversed
+export function canReverseEntry(entry: TransactionJournalEntry): boolean {
+  return entry.status === 'posted' &&
+    !entry.reversed_by_entry_id &&
+    !entry.reverses_entry_id &&
+    entry.reference_type !== 'period_close'
+}
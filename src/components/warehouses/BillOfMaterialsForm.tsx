@@ -0,0 +1,314 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import {
+  ASSEMBLY_ERROR_MESSAGES,
+  getAssemblyItemKey,
+  getAssemblyItemOptions,
+  saveBillOfMaterials,
+  type AssemblyItemOption,
+  type BillOfMaterialsWithItems
+} from "@/lib/supabase/assembly-orders"
+
+interface BillOfMaterialsLine {
+  key: string
+  option: AssemblyItemOption
+  quantity: number
+}
+
+interface BillOfMaterialsFormProps {
+  // Bill being edited; omitted when creating a new one
+  bom?: BillOfMaterialsWithItems
+  onSaved: (bomId: string) => void
+  onCancel?: () => void
+}
+
+export function BillOfMaterialsForm({ bom, onSaved, onCancel }: BillOfMaterialsFormProps) {
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+
+  const [name, setName] = React.useState(bom?.name || '')
+  const [outputKey, setOutputKey] = React.useState(
+    bom ? getAssemblyItemKey({ item_type: 'product', item_id: bom.output_product_id, variation_id: bom.output_variation_id }) : ''
+  )
+  const [outputQuantity, setOutputQuantity] = React.useState(bom?.output_quantity || 1)
+  const [active, setActive] = React.useState(bom ? bom.status === 'active' : true)
+  const [notes, setNotes] = React.useState(bom?.notes || '')
+  const [options, setOptions] = React.useState<AssemblyItemOption[]>([])
+  const [optionsLoading, setOptionsLoading] = React.useState(true)
+  const [selectedKey, setSelectedKey] = React.useState('')
+  const [lines, setLines] = React.useState<BillOfMaterialsLine[]>([])
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    getAssemblyItemOptions()
+      .then(items => {
+        setOptions(items)
+
+        const optionsByKey = new Map(items.map(item => [getAssemblyItemKey(item), item]))
+        setLines((bom?.items || []).map(input => {
+          const key = getAssemblyItemKey(input)
+          const option = optionsByKey.get(key) || {
+            item_type: input.item_type,
+            item_id: input.item_id,
+            variation_id: input.variation_id,
+            name: input.item_name,
+            sku: input.sku
+          }
+          return { key, option, quantity: input.quantity }
+        }))
+      })
+      .catch(error => {
+        console.error('Error loading assembly items:', error)
+        toast.error('Failed to load products and packaging')
+      })
+      .finally(() => setOptionsLoading(false))
+  }, [bom])
+
+  const productOptions = options.filter(option => option.item_type === 'product')
+  const lineKeys = new Set(lines.map(line => line.key))
+  const availableToAdd = options.filter(option => {
+    const key = getAssemblyItemKey(option)
+    return key !== outputKey && !lineKeys.has(key)
+  })
+
+  const addLine = () => {
+    const option = options.find(item => getAssemblyItemKey(item) === selectedKey)
+    if (!option) return
+    setLines(current => [...current, { key: selectedKey, option, quantity: 1 }])
+    setSelectedKey('')
+  }
+
+  const updateQuantity = (key: string, quantity: number) => {
+    setLines(current => current.map(line => line.key === key ? { ...line, quantity } : line))
+  }
+
+  const removeLine = (key: string) => {
+    setLines(current => current.filter(line => line.key !== key))
+  }
+
+  const handleSave = async () => {
+    const output = productOptions.find(option => getAssemblyItemKey(option) === outputKey)
+
+    if (!name.trim()) {
+      toast.error('Give the bill of materials a name')
+      return
+    }
+    if (!output) {
+      toast.error('Select the product this bill makes')
+      return
+    }
+    if (!(outputQuantity > 0)) {
+      toast.error('Enter how many units one batch makes')
+      return
+    }
+    if (lines.length === 0) {
+      toast.error('Add at least one input')
+      return
+    }
+    const invalidLine = lines.find(line => !(line.quantity > 0))
+    if (invalidLine) {
+      toast.error(`Enter a quantity for ${invalidLine.option.name}`)
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const result = await saveBillOfMaterials({
+        id: bom?.id,
+        name: name.trim(),
+        output_product_id: output.item_id,
+        output_variation_id: output.variation_id,
+        output_quantity: outputQuantity,
+        status: active ? 'active' : 'inactive',
+        notes: notes.trim() || undefined,
+        items: lines.map(line => ({
+          item_type: line.option.item_type,
+          item_id: line.option.item_id,
+          variation_id: line.option.variation_id,
+          quantity: line.quantity
+        }))
+      }, currentUser)
+
+      if (!result.success) {
+        toast.error(`${ASSEMBLY_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+        return
+      }
+
+      toast.success(bom ? 'Bill of materials updated' : 'Bill of materials created')
+      onSaved(result.bom_id)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Output</CardTitle>
+          <CardDescription>The finished product or variation, and how many units one batch makes</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="bom-name">Name *</Label>
+            <Input
+              id="bom-name"
+              placeholder="e.g. Rice 25kg sack into 1kg packs"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Makes *</Label>
+            <Select value={outputKey} onValueChange={setOutputKey} disabled={optionsLoading}>
+              <SelectTrigger>
+                <SelectValue placeholder={optionsLoading ? 'Loading products...' : 'Select the finished product'} />
+              </SelectTrigger>
+              <SelectContent>
+                {productOptions.map(option => {
+                  const key = getAssemblyItemKey(option)
+                  return (
+                    <SelectItem key={key} value={key} disabled={lineKeys.has(key)}>
+                      {option.name}
+                    </SelectItem>
+                  )
+                })}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bom-output-quantity">Units per batch *</Label>
+            <Input
+              id="bom-output-quantity"
+              type="number"
+              min={1}
+              value={outputQuantity || ''}
+              onChange={(e) => setOutputQuantity(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="bom-active">Active</Label>
+              <p className="text-xs text-muted-foreground">Only active bills can be used for new assemblies</p>
+            </div>
+            <Switch id="bom-active" checked={active} onCheckedChange={setActive} />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="bom-notes">Notes</Label>
+            <Textarea id="bom-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Inputs per batch</CardTitle>
+          <CardDescription>
+            Products and packaging one batch consumes. Lot- and serial-tracked products and bundles cannot be used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={selectedKey} onValueChange={setSelectedKey} disabled={optionsLoading}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={optionsLoading ? 'Loading items...' : 'Select a product or packaging input'} />
+              </SelectTrigger>
+              <SelectContent>
+                {availableToAdd.map(option => {
+                  const key = getAssemblyItemKey(option)
+                  return (
+                    <SelectItem key={key} value={key}>
+                      {option.name}{option.item_type === 'package' ? ' - Packaging' : ''}
+                    </SelectItem>
+                  )
+                })}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={addLine} disabled={!selectedKey}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+
+          {lines.length === 0 ? (
+            <div className="py-8 text-center text-muted-foreground">No inputs added yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="w-[140px] text-right">Qty per batch</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => (
+                  <TableRow key={line.key}>
+                    <TableCell>
+                      <div className="font-medium">{line.option.name}</div>
+                      {line.option.item_type === 'package' && <Badge variant="secondary" className="mt-1">Packaging</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{line.option.sku || '—'}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={1}
+                        value={line.quantity || ''}
+                        onChange={(e) => updateQuantity(line.key, parseInt(e.target.value) || 0)}
+                        className="text-right"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => removeLine(line.key)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {bom ? 'Save Changes' : 'Create Bill of Materials'}
+        </Button>
+      </div>
+    </div>
+  )
+}
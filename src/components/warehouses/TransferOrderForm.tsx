@@ -0,0 +1,368 @@
+"use client"
+
+import * as React from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { useCurrentUser } from "@/hooks/useCurrentUser"
+import { SerialNumberInput } from "@/components/SerialNumberInput"
+import { getAvailableSerialNumbers } from "@/lib/supabase/serial-numbers"
+import { type DatabaseWarehouse } from "@/lib/supabase/queries"
+import {
+  getTransferableStock,
+  saveTransferOrder,
+  TRANSFER_ORDER_ERROR_MESSAGES,
+  type TransferableStockItem,
+  type TransferOrderWithDetails
+} from "@/lib/supabase/transfer-orders"
+
+interface TransferLine {
+  key: string
+  item: TransferableStockItem
+  quantity: number
+  // Serial-tracked lines: the units sent, which set the quantity
+  serialNumbers: string[]
+}
+
+interface TransferOrderFormProps {
+  warehouses: DatabaseWarehouse[]
+  // Draft being edited; omitted when creating a new transfer
+  transfer?: TransferOrderWithDetails
+  defaultFromWarehouseId?: string
+  onSaved: (transferOrderId: string) => void
+  onCancel?: () => void
+}
+
+const getStockKey = (item: { item_type: string; item_id: string; variation_id: string | null }) =>
+  `${item.item_type}-${item.item_id}-${item.variation_id || 'base'}`
+
+// Units in stock at the source for each serial-tracked line, by line key
+const loadAvailableSerials = async (warehouseId: string, lines: TransferLine[]) => {
+  const results = await Promise.all(lines.filter(line => line.item.track_serials).map(line =>
+    getAvailableSerialNumbers(line.item.item_id, line.item.variation_id, warehouseId)
+      .then(serials => [line.key, serials] as const)
+  ))
+  return Object.fromEntries(results) as Record<string, string[]>
+}
+
+export function TransferOrderForm({ warehouses, transfer, defaultFromWarehouseId, onSaved, onCancel }: TransferOrderFormProps) {
+  const { user } = useCurrentUser()
+  const currentUser = user?.name || 'system'
+
+  const [fromWarehouseId, setFromWarehouseId] = React.useState(transfer?.from_warehouse_id || defaultFromWarehouseId || '')
+  const [toWarehouseId, setToWarehouseId] = React.useState(transfer?.to_warehouse_id || '')
+  const [transferDate, setTransferDate] = React.useState<Date>(transfer ? parseISO(transfer.transfer_date) : new Date())
+  const [expectedDate, setExpectedDate] = React.useState<Date | undefined>(
+    transfer?.expected_date ? parseISO(transfer.expected_date) : undefined
+  )
+  const [notes, setNotes] = React.useState(transfer?.notes || '')
+  const [stock, setStock] = React.useState<TransferableStockItem[]>([])
+  const [stockLoading, setStockLoading] = React.useState(false)
+  const [selectedStockKey, setSelectedStockKey] = React.useState('')
+  const [lines, setLines] = React.useState<TransferLine[]>([])
+  const [availableSerials, setAvailableSerials] = React.useState<Record<string, string[]>>({})
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!fromWarehouseId) {
+      setStock([])
+      return
+    }
+
+    let cancelled = false
+    setStockLoading(true)
+    setAvailableSerials({})
+
+    getTransferableStock(fromWarehouseId)
+      .then(items => {
+        if (cancelled) return
+        setStock(items)
+
+        // Keep the draft's lines when it is opened for editing in its own warehouse
+        const draftLines = transfer && transfer.from_warehouse_id === fromWarehouseId ? transfer.items : []
+        const loadedLines = draftLines.map(line => {
+          const key = getStockKey(line)
+          const item = items.find(stockItem => getStockKey(stockItem) === key) || {
+            item_type: line.item_type,
+            item_id: line.item_id,
+            variation_id: line.variation_id,
+            item_name: line.item_name,
+            sku: line.sku,
+            available_stock: 0,
+            track_serials: !!line.serial_numbers
+          }
+          return { key, item, quantity: line.quantity, serialNumbers: line.serial_numbers || [] }
+        })
+        setLines(loadedLines)
+
+        loadAvailableSerials(fromWarehouseId, loadedLines)
+          .then(serials => { if (!cancelled) setAvailableSerials(serials) })
+          .catch(error => console.error('Error loading serial numbers:', error))
+      })
+      .catch(error => {
+        console.error('Error loading warehouse stock:', error)
+        toast.error('Failed to load stock for the source warehouse')
+      })
+      .finally(() => { if (!cancelled) setStockLoading(false) })
+
+    return () => { cancelled = true }
+  }, [fromWarehouseId, transfer])
+
+  const lineKeys = new Set(lines.map(line => line.key))
+  const availableToAdd = stock.filter(item => !lineKeys.has(getStockKey(item)))
+
+  const addLine = () => {
+    const item = stock.find(stockItem => getStockKey(stockItem) === selectedStockKey)
+    if (!item) return
+    const line = { key: selectedStockKey, item, quantity: item.track_serials ? 0 : 1, serialNumbers: [] }
+    setLines(current => [...current, line])
+    setSelectedStockKey('')
+
+    if (item.track_serials) {
+      loadAvailableSerials(fromWarehouseId, [line])
+        .then(serials => setAvailableSerials(current => ({ ...current, ...serials })))
+        .catch(error => console.error('Error loading serial numbers:', error))
+    }
+  }
+
+  const updateQuantity = (key: string, quantity: number) => {
+    setLines(current => current.map(line => line.key === key ? { ...line, quantity } : line))
+  }
+
+  const updateSerials = (key: string, serialNumbers: string[]) => {
+    setLines(current => current.map(line => line.key === key ? { ...line, serialNumbers, quantity: serialNumbers.length } : line))
+  }
+
+  const removeLine = (key: string) => {
+    setLines(current => current.filter(line => line.key !== key))
+  }
+
+  const handleSave = async () => {
+    if (!fromWarehouseId || !toWarehouseId) {
+      toast.error('Select the source and destination warehouse')
+      return
+    }
+    if (fromWarehouseId === toWarehouseId) {
+      toast.error('The source and destination warehouse must be different')
+      return
+    }
+    if (lines.length === 0) {
+      toast.error('Add at least one item to transfer')
+      return
+    }
+    const invalidLine = lines.find(line => !(line.quantity > 0) || line.quantity > line.item.available_stock)
+    if (invalidLine) {
+      toast.error(invalidLine.item.track_serials
+        ? `Scan between 1 and ${invalidLine.item.available_stock} serial numbers for ${invalidLine.item.item_name}`
+        : `Enter a quantity between 1 and ${invalidLine.item.available_stock} for ${invalidLine.item.item_name}`)
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const result = await saveTransferOrder({
+        id: transfer?.id,
+        from_warehouse_id: fromWarehouseId,
+        to_warehouse_id: toWarehouseId,
+        transfer_date: format(transferDate, 'yyyy-MM-dd'),
+        expected_date: expectedDate ? format(expectedDate, 'yyyy-MM-dd') : null,
+        notes: notes.trim() || undefined,
+        items: lines.map(line => ({
+          item_type: line.item.item_type,
+          item_id: line.item.item_id,
+          variation_id: line.item.variation_id,
+          quantity: line.quantity,
+          serial_numbers: line.item.track_serials ? line.serialNumbers : undefined
+        }))
+      }, currentUser)
+
+      if (!result.success) {
+        toast.error(`${TRANSFER_ORDER_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+        return
+      }
+
+      toast.success(transfer ? 'Transfer updated' : `Transfer ${result.transfer_number} saved as a draft`)
+      onSaved(result.transfer_order_id)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const totalQuantity = lines.reduce((sum, line) => sum + (line.quantity || 0), 0)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Route</CardTitle>
+          <CardDescription>Stock leaves the source when the transfer is dispatched</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>From warehouse *</Label>
+            <Select value={fromWarehouseId} onValueChange={setFromWarehouseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select source" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouses.map(warehouse => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>To warehouse *</Label>
+            <Select value={toWarehouseId} onValueChange={setToWarehouseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select destination" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouses.map(warehouse => (
+                  <SelectItem key={warehouse.id} value={warehouse.id} disabled={warehouse.id === fromWarehouseId}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Transfer date</Label>
+            <DatePicker date={transferDate} onDateChange={(date) => date && setTransferDate(date)} placeholder="Transfer date" />
+          </div>
+          <div className="space-y-2">
+            <Label>Expected arrival</Label>
+            <DatePicker date={expectedDate} onDateChange={setExpectedDate} placeholder="Optional" />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="transfer-notes">Notes</Label>
+            <Textarea id="transfer-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+          <CardDescription>
+            {totalQuantity} unit{totalQuantity !== 1 ? 's' : ''} across {lines.length} line{lines.length !== 1 ? 's' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={selectedStockKey} onValueChange={setSelectedStockKey} disabled={!fromWarehouseId || stockLoading}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={
+                  !fromWarehouseId ? 'Select the source warehouse first' : stockLoading ? 'Loading stock...' : 'Select an item to add'
+                } />
+              </SelectTrigger>
+              <SelectContent>
+                {availableToAdd.map(item => (
+                  <SelectItem key={getStockKey(item)} value={getStockKey(item)}>
+                    {item.item_name}{item.sku ? ` (${item.sku})` : ''}{item.item_type === 'package' ? ' - Packaging' : ''} · {item.available_stock} available
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={addLine} disabled={!selectedStockKey}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+
+          {lines.length === 0 ? (
+            <div className="py-8 text-center text-muted-foreground">No items added yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                  <TableHead className="w-[140px] text-right">Quantity</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => (
+                  <React.Fragment key={line.key}>
+                  <TableRow>
+                    <TableCell>
+                      <div className="font-medium">{line.item.item_name}</div>
+                      {line.item.item_type === 'package' && <Badge variant="secondary" className="mt-1">Packaging</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{line.item.sku || '—'}</TableCell>
+                    <TableCell className="text-right">{line.item.available_stock}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={1}
+                        max={line.item.available_stock}
+                        value={line.quantity || ''}
+                        onChange={(e) => updateQuantity(line.key, parseInt(e.target.value) || 0)}
+                        disabled={line.item.track_serials}
+                        className={`text-right ${line.quantity > line.item.available_stock ? 'border-red-500' : ''}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => removeLine(line.key)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {line.item.track_serials && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="bg-muted/30">
+                        <SerialNumberInput
+                          value={line.serialNumbers}
+                          onChange={(serialNumbers) => updateSerials(line.key, serialNumbers)}
+                          available={availableSerials[line.key]}
+                          placeholder="Scan the serial number of each unit sent"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {transfer ? 'Save Changes' : 'Save Draft'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -8,6 +8,10 @@ import {
   type CreatePurchaseData,
   type CreatePurchaseItemData
 } from '@/lib/supabase/purchases'
+import { toBasePrice } from '@/lib/supabase/units-of-measure'
+import { getTaxSetup, resolveTaxCode, type TaxCode, type TaxSetup } from '@/lib/supabase/tax-codes'
+import { BASE_CURRENCY, getCurrencies, getExchangeRate, isBaseCurrency } from '@/lib/supabase/currencies'
+import { type DatabaseProduct } from '@/lib/supabase/queries'
 import { logPurchaseCreate } from '@/lib/supabase/activity-logger'
 import { useCurrentUser } from '@/hooks/useCurrentUser'
 
@@ -17,14 +21,26 @@ interface PurchaseItem {
   itemName: string
   quantity: number
   purchasePrice: number
+  // Before tax
   total: number
   variationId?: string
+  // Unit the quantity and price are in and the base units in one of it; unset for the base unit
+  unitName?: string
+  unitFactor?: number
+  // Tax code of the line, defaulting to the product's or its category's, and the tax on total
+  taxCodeId?: string
+  taxRate: number
+  taxAmount: number
 }
 
 interface PurchaseForm {
   supplierId: string
   warehouse: string
   date: string
+  // Prices are entered in this currency; it defaults to the supplier's
+  currency: string
+  // Taka per unit of the currency, suggested from the rate on the purchase date
+  exchangeRate: string
   items: PurchaseItem[]
 }
 
@@ -41,6 +57,8 @@ export interface UsePurchaseFormReturn {
   // Form state
   form: PurchaseForm
   isLoading: boolean
+  taxCodes: TaxCode[]
+  currencies: string[]
   
   // Setters
   setForm: React.Dispatch<React.SetStateAction<PurchaseForm>>
@@ -48,14 +66,23 @@ export interface UsePurchaseFormReturn {
   
   // Methods
   validateForm: () => boolean
-  addSelectedItemsToPurchase: (selectedItems: SelectedItem[]) => void
+  addSelectedItemsToPurchase: (selectedItems: SelectedItem[], products: DatabaseProduct[]) => void
   updateItemQuantity: (index: number, quantity: string) => void
   updateItemPrice: (index: number, price: string) => void
+  updateItemTaxCode: (index: number, taxCodeId: string) => void
+  updateItemUnit: (index: number, unitName: string, unitFactor: number) => void
   removeItem: (index: number) => void
+  selectSupplier: (supplierId: string, suppliers: DatabaseSupplier[]) => void
   handleSubmit: (e: React.FormEvent, suppliers: DatabaseSupplier[], warehouses: DatabaseWarehouse[]) => Promise<void>
   getItemNameById: (id: string, type: 'product' | 'package', products: any[], packages: any[]) => string
 }
 
+// Purchase prices are entered before tax, so the tax is always added on top
+const withTax = (item: PurchaseItem): PurchaseItem => ({
+  ...item,
+  taxAmount: Math.round(item.total * item.taxRate) / 100
+})
+
 export function usePurchaseForm(): UsePurchaseFormReturn {
   const router = useRouter()
   const [isLoading, setIsLoading] = React.useState(false)
@@ -65,8 +92,50 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
     supplierId: '',
     warehouse: '',
     date: new Date().toISOString().split('T')[0],
+    currency: BASE_CURRENCY,
+    exchangeRate: '1',
     items: []
   })
+  const [taxSetup, setTaxSetup] = React.useState<TaxSetup>({ codes: [], categoryTaxCodes: {} })
+  const [currencies, setCurrencies] = React.useState<string[]>([BASE_CURRENCY])
+
+  React.useEffect(() => {
+    getTaxSetup()
+      .then(setTaxSetup)
+      .catch(error => {
+        console.error('Error loading tax codes:', error)
+        toast.error('Failed to load tax codes')
+      })
+    getCurrencies()
+      .then(setCurrencies)
+      .catch(error => {
+        console.error('Error loading currencies:', error)
+      })
+  }, [])
+
+  // Suggest the latest rate on or before the purchase date whenever either changes
+  React.useEffect(() => {
+    if (isBaseCurrency(form.currency)) {
+      setForm(prev => ({ ...prev, exchangeRate: '1' }))
+      return
+    }
+    if (!form.date) return
+
+    let cancelled = false
+    getExchangeRate(form.currency, form.date)
+      .then(rate => {
+        if (cancelled) return
+        setForm(prev => ({ ...prev, exchangeRate: rate === null ? '' : String(rate) }))
+        if (rate === null) {
+          toast.warning(`No ${form.currency} exchange rate on or before this date; enter one`)
+        }
+      })
+      .catch(error => {
+        console.error('Error loading exchange rate:', error)
+      })
+
+    return () => { cancelled = true }
+  }, [form.currency, form.date])
 
   const validateForm = () => {
     if (!form.supplierId) {
@@ -81,6 +150,10 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
       toast.error('Please select a date')
       return false
     }
+    if (!isBaseCurrency(form.currency) && !(parseFloat(form.exchangeRate) > 0)) {
+      toast.error(`Please enter the ${form.currency} exchange rate`)
+      return false
+    }
     if (form.items.length === 0) {
       toast.error('Please add at least one item')
       return false
@@ -101,16 +174,23 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
     return true
   }
 
-  const addSelectedItemsToPurchase = (selectedItems: SelectedItem[]) => {
-    const newItems: PurchaseItem[] = selectedItems.map(selected => ({
-      itemId: selected.id,
-      itemType: selected.type,
-      itemName: selected.name,
-      quantity: 1,
-      purchasePrice: 0,
-      total: 0,
-      variationId: selected.variationId,
-    }))
+  const addSelectedItemsToPurchase = (selectedItems: SelectedItem[], products: DatabaseProduct[]) => {
+    const newItems: PurchaseItem[] = selectedItems.map(selected => {
+      const product = selected.type === 'product' ? products.find(p => p.id === selected.id) : undefined
+      const taxCode = product ? resolveTaxCode(taxSetup, product.tax_code_id, product.category_id) : null
+      return {
+        itemId: selected.id,
+        itemType: selected.type,
+        itemName: selected.name,
+        quantity: 1,
+        purchasePrice: 0,
+        total: 0,
+        variationId: selected.variationId,
+        taxCodeId: taxCode?.id,
+        taxRate: taxCode ? Number(taxCode.rate) : 0,
+        taxAmount: 0
+      }
+    })
 
     setForm(prev => ({
       ...prev,
@@ -126,7 +206,7 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
       ...prev,
       items: prev.items.map((item, i) => 
         i === index 
-          ? { ...item, quantity: qty, total: qty * item.purchasePrice }
+          ? withTax({ ...item, quantity: qty, total: qty * item.purchasePrice })
           : item
       )
     }))
@@ -138,12 +218,46 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
       ...prev,
       items: prev.items.map((item, i) => 
         i === index 
-          ? { ...item, purchasePrice, total: item.quantity * purchasePrice }
+          ? withTax({ ...item, purchasePrice, total: item.quantity * purchasePrice })
           : item
       )
     }))
   }
 
+  const updateItemTaxCode = (index: number, taxCodeId: string) => {
+    const taxCode = taxSetup.codes.find(code => code.id === taxCodeId)
+    setForm(prev => ({
+      ...prev,
+      items: prev.items.map((item, i) => 
+        i === index 
+          ? withTax({ ...item, taxCodeId: taxCode?.id, taxRate: taxCode ? Number(taxCode.rate) : 0 })
+          : item
+      )
+    }))
+  }
+
+  // Quantity and price stay as entered and are read in the new unit
+  const updateItemUnit = (index: number, unitName: string, unitFactor: number) => {
+    setForm(prev => ({
+      ...prev,
+      items: prev.items.map((item, i) => 
+        i === index 
+          ? { ...item, unitName: unitFactor > 1 ? unitName : undefined, unitFactor: unitFactor > 1 ? unitFactor : undefined }
+          : item
+      )
+    }))
+  }
+
+  // Purchases from a supplier are in the supplier's currency unless changed
+  const selectSupplier = (supplierId: string, suppliers: DatabaseSupplier[]) => {
+    const supplier = suppliers.find(s => s.id === supplierId)
+    setForm(prev => ({
+      ...prev,
+      supplierId,
+      currency: supplier?.currency || BASE_CURRENCY
+    }))
+  }
+
   const removeItem = (index: number) => {
     setForm(prev => ({
       ...prev,
@@ -178,23 +292,31 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
         warehouse_id: form.warehouse,
         warehouse_name: selectedWarehouse.name,
         purchase_date: form.date,
+        currency: form.currency,
+        exchange_rate: isBaseCurrency(form.currency) ? 1 : parseFloat(form.exchangeRate),
         created_by: user?.id || 'unknown' // Use authenticated user ID
       }
 
+      // Stock and costs are kept in the base unit
       const items: CreatePurchaseItemData[] = form.items.map(item => ({
         item_id: item.itemId,
         item_type: item.itemType,
         item_name: item.itemName,
         variation_id: item.variationId,
-        quantity: item.quantity,
-        purchase_price: item.purchasePrice,
-        total: item.total
+        quantity: item.quantity * (item.unitFactor || 1),
+        purchase_price: toBasePrice(item.purchasePrice, item.unitFactor),
+        unit_name: item.unitName,
+        unit_factor: item.unitFactor,
+        total: item.total,
+        tax_code_id: item.taxCodeId,
+        tax_rate: item.taxRate,
+        tax_amount: item.taxAmount
       }))
 
       const createdPurchase = await createPurchase(purchaseData, items)
       
       // Log the purchase creation activity
-      const totalAmount = form.items.reduce((sum, item) => sum + item.total, 0)
+      const totalAmount = form.items.reduce((sum, item) => sum + item.total + item.taxAmount, 0)
       await logPurchaseCreate(
         createdPurchase.id,
         selectedSupplier.name,
@@ -202,7 +324,8 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
         {
           items: form.items.length,
           warehouse: selectedWarehouse.name,
-          date: form.date
+          date: form.date,
+          currency: form.currency
         }
       ).catch(error => {
         console.warn('Failed to log purchase creation:', error)
@@ -233,6 +356,8 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
     // Form state
     form,
     isLoading,
+    taxCodes: taxSetup.codes,
+    currencies,
     
     // Setters
     setForm,
@@ -243,7 +368,10 @@ export function usePurchaseForm(): UsePurchaseFormReturn {
     addSelectedItemsToPurchase,
     updateItemQuantity,
     updateItemPrice,
+    updateItemTaxCode,
+    updateItemUnit,
     removeItem,
+    selectSupplier,
     handleSubmit,
     getItemNameById
   }
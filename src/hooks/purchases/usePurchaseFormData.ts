@@ -54,7 +54,8 @@ export function usePurchaseFormData(): UsePurchaseFormDataReturn {
       setData({
         suppliers,
         warehouses,
-        products,
+        // Bundles are bought as their components
+        products: products.filter(product => product.type !== 'bundle'),
         packaging
       })
     } catch (err) {
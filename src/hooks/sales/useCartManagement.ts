@@ -1,5 +1,9 @@
 import { useState, useMemo, useCallback } from 'react'
 import { type Product, type ProductVariation, type Packaging, type PackagingVariation } from '@/lib/types'
+import { type SaleItemLotSelection } from '@/lib/supabase/stock-lots'
+import { resolvePriceListItem, type PriceListWithItems } from '@/lib/supabase/price-lists'
+import { applyPromotions, type AppliedPromotion, type PromotionWithUsage } from '@/lib/supabase/promotions'
+import { calculateLineTaxes, resolveTaxCode, type LineTax, type TaxSetup } from '@/lib/supabase/tax-codes'
 
 // Discount type enum
 export type DiscountType = 'percentage' | 'fixed'
@@ -11,29 +15,55 @@ export interface SaleItem {
   quantity: number
   discount: number
   discountType: DiscountType
+  // Empty for bundles, which carry their packaging as components
   packagingId: string
   packagingVariationId?: string
   isFreeGift: boolean
+  // Lots picked by hand for lot-tracked products; otherwise first expiry, first out
+  lots?: SaleItemLotSelection[]
+  // Serial numbers of the units sold, one per base unit, for serial-tracked products
+  serialNumbers?: string[]
+  // Unit the quantity is counted in and the base units in one of it; unset for the base unit
+  unitName?: string
+  unitFactor?: number
 }
 
 // Extended cart item with calculated values
 export interface CartItem extends SaleItem {
   product: Product
   variation?: ProductVariation
-  packaging: Packaging
+  packaging?: Packaging
   packagingVariation?: PackagingVariation
+  // Quantity in the product's base unit, as stock is counted
+  baseQuantity: number
+  // Customer price per base unit: the price list's where it has one, else the product's
+  basePrice: number
+  // Product or variation price of one of the unit the line is sold in
+  listUnitPrice: number
+  // Price of one of the unit the line is sold in
+  unitPrice: number
   originalTotal: number
   discountAmount: number
+  // Discount the line gets from promotions, on top of its manual discount
+  promotionDiscount: number
   total: number
 }
 
+// Key of a cart line, unique per product, variation and packaging
+export function getCartItemKey(item: Pick<SaleItem, 'productId' | 'variationId' | 'packagingId' | 'packagingVariationId'>): string {
+  return `${item.productId}-${item.variationId || 'simple'}-${item.packagingId}-${item.packagingVariationId || 'simple'}`
+}
+
 // Cart calculations
 export interface CartCalculations {
   subtotal: number
   totalDiscountAmount: number
   afterDiscount: number
+  // All tax on the sale; tax-inclusive lines carry theirs inside afterDiscount
   taxAmount: number
   grandTotal: number
+  // Tax of each line, by cart item key
+  lineTaxes: Record<string, LineTax>
 }
 
 // Hook parameters
@@ -54,12 +84,35 @@ export interface UseCartManagementReturn {
   // Discount and tax state
   totalDiscount: number
   totalDiscountType: DiscountType
-  taxRate: number
+  taxSetup: TaxSetup
+
+  // Customer pricing state
+  priceList: PriceListWithItems | null
+  // Taka per unit of the sale currency; 1 for sales in taka
+  exchangeRate: number
+
+  // Promotions applied to the cart and the coupon codes entered
+  appliedPromotions: AppliedPromotion[]
+  // Part of totalDiscountAmount that comes from spend threshold promotions
+  orderPromotionDiscount: number
+  couponCodes: string[]
   
   // Discount and tax setters
   setTotalDiscount: (discount: number) => void
   setTotalDiscountType: (type: DiscountType) => void
-  setTaxRate: (rate: number) => void
+  // Tax codes and category defaults the line taxes are worked out from
+  setTaxSetup: (setup: TaxSetup) => void
+
+  // Customer pricing setters; the date (yyyy-MM-dd) picks the prices valid on the sale date
+  setPriceList: (priceList: PriceListWithItems | null) => void
+  setPriceDate: (date: string) => void
+  // Prices, price lists and promotions are in taka; cart amounts are converted at this rate
+  setExchangeRate: (rate: number) => void
+
+  // Promotions the cart can apply, and coupon entry; applyCoupon is false for unknown codes
+  setPromotions: (promotions: PromotionWithUsage[]) => void
+  applyCoupon: (code: string) => boolean
+  removeCoupon: (code: string) => void
   
   // Cart operations
   addToCart: (productId: string, packagingId: string, variationId?: string, packagingVariationId?: string) => void
@@ -68,6 +121,9 @@ export interface UseCartManagementReturn {
   updateItemDiscount: (productId: string, discount: number, variationId?: string) => void
   updateItemDiscountType: (productId: string, discountType: DiscountType, variationId?: string) => void
   toggleFreeGift: (productId: string, variationId?: string, packagingId?: string, packagingVariationId?: string) => void
+  setItemLots: (productId: string, lots: SaleItemLotSelection[] | undefined, variationId?: string, packagingId?: string, packagingVariationId?: string) => void
+  setItemSerials: (productId: string, serialNumbers: string[], variationId?: string, packagingId?: string, packagingVariationId?: string) => void
+  setItemUnit: (productId: string, unitName: string, unitFactor: number, variationId?: string, packagingId?: string, packagingVariationId?: string) => void
   clearCart: () => void
   
   // Utility functions
@@ -83,10 +139,22 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
   // Discount and tax state
   const [totalDiscount, setTotalDiscount] = useState(0)
   const [totalDiscountType, setTotalDiscountType] = useState<DiscountType>('percentage')
-  const [taxRate, setTaxRate] = useState(0)
+  const [taxSetup, setTaxSetup] = useState<TaxSetup>({ codes: [], categoryTaxCodes: {} })
+
+  // Customer pricing state
+  const [priceList, setPriceList] = useState<PriceListWithItems | null>(null)
+  const [priceDate, setPriceDate] = useState(() => new Date().toISOString().split('T')[0])
+  const [exchangeRate, setExchangeRate] = useState(1)
 
-  // Calculate cart items with product details
-  const cartItems = useMemo(() => {
+  // Promotion state
+  const [promotions, setPromotions] = useState<PromotionWithUsage[]>([])
+  const [couponCodes, setCouponCodes] = useState<string[]>([])
+
+  // Calculate cart items with product details, then apply promotions across the cart.
+  // Both are worked out in taka and the lines converted to the sale currency at the end;
+  // fixed discounts are entered in the sale currency.
+  const { cartItems, promotionResult } = useMemo(() => {
+    const rate = exchangeRate > 0 ? exchangeRate : 1
     const items: CartItem[] = []
     
     cart.forEach(item => {
@@ -94,19 +162,27 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
       if (!product) return
       
       const variation = item.variationId ? product.variations?.find((v: any) => v.id === item.variationId) : undefined
-      const foundPackaging = packaging.find((p: Packaging) => p.id === item.packagingId)
-      if (!foundPackaging) return // Skip if packaging not found
-      const packagingVariation = item.packagingVariationId ? foundPackaging.variations?.find((v: any) => v.id === item.packagingVariationId) : undefined
+      const foundPackaging = item.packagingId ? packaging.find((p: Packaging) => p.id === item.packagingId) : undefined
+      if (item.packagingId && !foundPackaging) return // Skip if packaging not found
+      const packagingVariation = item.packagingVariationId ? foundPackaging?.variations?.find((v: PackagingVariation) => v.id === item.packagingVariationId) : undefined
       
+      // Prices are per base unit; a line sold by the carton costs a carton's worth
+      const unitFactor = item.unitFactor || 1
+      const baseQuantity = item.quantity * unitFactor
+      const productPrice = variation ? Number(variation.price) : Number(product.price || 0)
+      const priceListItem = priceList
+        ? resolvePriceListItem(priceList.items, item.productId, item.variationId, baseQuantity, priceDate)
+        : null
+      const basePrice = priceListItem ? priceListItem.price : productPrice
       // If marked as free gift, set price to 0
-      const price = item.isFreeGift ? 0 : (variation ? Number(variation.price) : Number(product.price || 0))
-      const originalTotal = price * item.quantity
+      const unitPrice = item.isFreeGift ? 0 : basePrice * unitFactor
+      const originalTotal = unitPrice * item.quantity
       
       let discountAmount = 0
       if (item.discountType === 'percentage') {
         discountAmount = (originalTotal * item.discount) / 100
       } else {
-        discountAmount = item.discount
+        discountAmount = item.discount * rate
       }
       
       const total = originalTotal - discountAmount
@@ -117,14 +193,62 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
         variation,
         packaging: foundPackaging,
         packagingVariation,
+        baseQuantity,
+        basePrice,
+        listUnitPrice: productPrice * unitFactor,
+        unitPrice,
         originalTotal,
         discountAmount,
+        promotionDiscount: 0,
         total
       })
     })
-    
-    return items
-  }, [cart, products, packaging])
+
+    const result = applyPromotions(
+      promotions,
+      items.map(item => ({
+        key: getCartItemKey(item),
+        productId: item.productId,
+        variationId: item.variationId,
+        categoryId: item.product.categoryId,
+        baseQuantity: item.baseQuantity,
+        basePrice: item.isFreeGift ? 0 : item.basePrice,
+        total: Math.max(item.total, 0)
+      })),
+      priceDate,
+      couponCodes
+    )
+
+    const toSaleCurrency = (amount: number) => rate === 1 ? amount : Math.round((amount / rate) * 100) / 100
+
+    return {
+      cartItems: items.map(item => {
+        const promotionDiscount = toSaleCurrency(result.lineDiscounts[getCartItemKey(item)] || 0)
+        if (rate === 1) {
+          return { ...item, promotionDiscount, total: item.total - promotionDiscount }
+        }
+
+        const unitPrice = toSaleCurrency(item.unitPrice)
+        const originalTotal = unitPrice * item.quantity
+        const discountAmount = item.discountType === 'fixed' ? item.discount : toSaleCurrency(item.discountAmount)
+        return {
+          ...item,
+          basePrice: toSaleCurrency(item.basePrice),
+          listUnitPrice: toSaleCurrency(item.listUnitPrice),
+          unitPrice,
+          originalTotal,
+          discountAmount,
+          promotionDiscount,
+          total: originalTotal - discountAmount - promotionDiscount
+        }
+      }),
+      promotionResult: {
+        ...result,
+        applied: result.applied.map(promotion => ({ ...promotion, discount_amount: toSaleCurrency(promotion.discount_amount) })),
+        orderDiscount: toSaleCurrency(result.orderDiscount)
+      }
+    }
+  }, [cart, products, packaging, priceList, priceDate, exchangeRate, promotions, couponCodes])
 
   // Calculate totals and create calculations object
   const calculations = useMemo((): CartCalculations => {
@@ -136,19 +260,33 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
     } else {
       totalDiscountAmount = totalDiscount
     }
+    // Spend threshold promotions come off the whole sale with the manual discount
+    totalDiscountAmount += promotionResult.orderDiscount
     
     const afterDiscount = subtotal - totalDiscountAmount
-    const taxAmount = (afterDiscount * taxRate) / 100
-    const grandTotal = afterDiscount + taxAmount
+
+    // Each line is taxed at its product's or category's tax code, after its share of
+    // the sale-wide discount; only tax-exclusive lines add to the total
+    const taxes = calculateLineTaxes(
+      taxSetup.codes,
+      cartItems.map(item => ({
+        key: getCartItemKey(item),
+        taxCodeId: resolveTaxCode(taxSetup, item.product.taxCodeId, item.product.categoryId)?.id || null,
+        total: item.total
+      })),
+      totalDiscountAmount
+    )
+    const grandTotal = afterDiscount + taxes.addedTax
 
     return {
       subtotal,
       totalDiscountAmount,
       afterDiscount,
-      taxAmount,
-      grandTotal
+      taxAmount: taxes.taxAmount,
+      grandTotal,
+      lineTaxes: taxes.lines
     }
-  }, [cartItems, totalDiscount, totalDiscountType, taxRate])
+  }, [cartItems, promotionResult, totalDiscount, totalDiscountType, taxSetup])
 
   // Cart operations
   const addToCart = useCallback((productId: string, packagingId: string, variationId?: string, packagingVariationId?: string) => {
@@ -189,7 +327,12 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
         item.variationId === variationId &&
         item.packagingId === packagingId &&
         item.packagingVariationId === packagingVariationId
-          ? { ...item, quantity }
+          ? {
+              ...item,
+              quantity,
+              lots: undefined, // Picked lots no longer add up
+              serialNumbers: item.serialNumbers?.slice(0, quantity * (item.unitFactor || 1))
+            }
           : item
       ))
     }
@@ -231,10 +374,77 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
     ))
   }, [])
 
+  const setItemLots = useCallback((productId: string, lots: SaleItemLotSelection[] | undefined, variationId?: string, packagingId?: string, packagingVariationId?: string) => {
+    setCart(prev => prev.map(item => 
+      item.productId === productId && 
+      item.variationId === variationId &&
+      item.packagingId === packagingId &&
+      item.packagingVariationId === packagingVariationId
+        ? { ...item, lots }
+        : item
+    ))
+  }, [])
+
+  // The line quantity follows the number of serials scanned, falling back to the base
+  // unit when they don't make up whole units of the line's unit
+  const setItemSerials = useCallback((productId: string, serialNumbers: string[], variationId?: string, packagingId?: string, packagingVariationId?: string) => {
+    setCart(prev => prev.map(item => {
+      if (!(item.productId === productId && 
+        item.variationId === variationId &&
+        item.packagingId === packagingId &&
+        item.packagingVariationId === packagingVariationId)) {
+        return item
+      }
+      if (serialNumbers.length === 0) return { ...item, serialNumbers }
+
+      const unitFactor = item.unitFactor || 1
+      const wholeUnits = serialNumbers.length % unitFactor === 0
+      return {
+        ...item,
+        serialNumbers,
+        quantity: wholeUnits ? serialNumbers.length / unitFactor : serialNumbers.length,
+        unitName: wholeUnits ? item.unitName : undefined,
+        unitFactor: wholeUnits ? item.unitFactor : undefined,
+        lots: serialNumbers.length !== item.quantity * unitFactor ? undefined : item.lots
+      }
+    }))
+  }, [])
+
+  // Switching unit keeps the number of units, so 2 pcs become 2 cartons
+  const setItemUnit = useCallback((productId: string, unitName: string, unitFactor: number, variationId?: string, packagingId?: string, packagingVariationId?: string) => {
+    setCart(prev => prev.map(item => 
+      item.productId === productId && 
+      item.variationId === variationId &&
+      item.packagingId === packagingId &&
+      item.packagingVariationId === packagingVariationId
+        ? {
+            ...item,
+            unitName: unitFactor > 1 ? unitName : undefined,
+            unitFactor: unitFactor > 1 ? unitFactor : undefined,
+            lots: undefined, // Picked lots no longer add up
+            serialNumbers: item.serialNumbers?.slice(0, item.quantity * unitFactor)
+          }
+        : item
+    ))
+  }, [])
+
+  const applyCoupon = useCallback((code: string): boolean => {
+    const normalized = code.trim().toLowerCase()
+    const known = promotions.some(promotion => promotion.coupon_code?.toLowerCase() === normalized)
+    if (known) {
+      setCouponCodes(prev => prev.some(existing => existing.toLowerCase() === normalized) ? prev : [...prev, code.trim()])
+    }
+    return known
+  }, [promotions])
+
+  const removeCoupon = useCallback((code: string) => {
+    setCouponCodes(prev => prev.filter(existing => existing !== code))
+  }, [])
+
   const clearCart = useCallback(() => {
     setCart([])
     setTotalDiscount(0)
-    setTaxRate(0)
+    setCouponCodes([])
   }, [])
 
   // Utility functions
@@ -248,7 +458,7 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
     if (product.type === 'variation' && variationId) {
       const variation = product.variations?.find(v => v.id === variationId)
       return variation ? variation.stock : 0
-    } else if (product.type === 'simple') {
+    } else if (product.type !== 'variation') {
       return product.stock || 0
     }
     return 0
@@ -269,12 +479,31 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
     // Discount and tax state
     totalDiscount,
     totalDiscountType,
-    taxRate,
+    taxSetup,
+
+    // Customer pricing state
+    priceList,
+    exchangeRate,
+
+    // Promotion state
+    appliedPromotions: promotionResult.applied,
+    orderPromotionDiscount: promotionResult.orderDiscount,
+    couponCodes,
     
     // Discount and tax setters
     setTotalDiscount,
     setTotalDiscountType,
-    setTaxRate,
+    setTaxSetup,
+
+    // Customer pricing setters
+    setPriceList,
+    setPriceDate,
+    setExchangeRate,
+
+    // Promotion setters
+    setPromotions,
+    applyCoupon,
+    removeCoupon,
     
     // Cart operations
     addToCart,
@@ -283,6 +512,9 @@ export function useCartManagement({ products, packaging }: UseCartManagementPara
     updateItemDiscount,
     updateItemDiscountType,
     toggleFreeGift,
+    setItemLots,
+    setItemSerials,
+    setItemUnit,
     clearCart,
     
     // Utility functions
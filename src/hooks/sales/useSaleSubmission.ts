@@ -2,30 +2,51 @@
 
 import { useState } from 'react'
 import { toast } from 'sonner'
-import { createSale } from '@/lib/supabase/sales-client'
+import {
+  postSale,
+  calculateChangeDue,
+  getSalePaymentMethodForAccountType,
+  POST_SALE_ERROR_MESSAGES,
+  type PostSaleErrorCode,
+  type PostSalePaymentInput
+} from '@/lib/supabase/sales-client'
+import { createQuotation } from '@/lib/supabase/sales-orders'
 import { invalidateSalesCache } from '@/lib/hooks/useSalesData'
 import { useCurrentUser } from '@/hooks/useCurrentUser'
-import { type CartItem } from '@/hooks/sales/useCartManagement'
+import { getCartItemKey, type CartItem } from '@/hooks/sales/useCartManagement'
+import { type AppliedPromotion } from '@/lib/supabase/promotions'
+import { type LineTax } from '@/lib/supabase/tax-codes'
+import { BASE_CURRENCY, getCurrencySymbol, isBaseCurrency, toBaseAmount } from '@/lib/supabase/currencies'
 
 // Types
 interface SaleFormData {
   warehouseId: string
   customerId: string
   paymentMethod: string
+  // Tenders when the customer splits the payment; otherwise the total is paid by paymentMethod
+  payments?: PostSalePaymentInput[]
   saleDate: string
   items: any[]
   totalDiscount: number
   totalDiscountType: 'percentage' | 'fixed'
-  taxRate: number
 }
 
 interface SaleResult {
   success: boolean
   message: string
+  errorCode?: PostSaleErrorCode
   saleId?: string
   revenue?: number
   profit?: number
   items?: CartItem[]
+  payments?: PostSalePaymentInput[]
+  changeDue?: number
+}
+
+interface QuotationResult {
+  success: boolean
+  message: string
+  quotationId?: string
 }
 
 interface SaleTotals {
@@ -33,11 +54,30 @@ interface SaleTotals {
   totalDiscountAmount: number
   taxAmount: number
   grandTotal: number
+  // Promotions whose discounts are included above
+  promotions?: AppliedPromotion[]
+  // Tax of each line, by cart item key
+  lineTaxes: Record<string, LineTax>
+  // Currency the amounts above are in and its rate in taka; taka when unset
+  currency?: string
+  exchangeRate?: number
+}
+
+// Tax columns of a sale or quotation line; lines the cart has no tax for are untaxed
+function getLineTaxFields(item: CartItem, lineTaxes: Record<string, LineTax>) {
+  const lineTax = lineTaxes[getCartItemKey(item)]
+  return {
+    tax_code_id: lineTax?.taxCodeId || null,
+    tax_rate: lineTax?.taxRate || 0,
+    taxable_amount: lineTax ? lineTax.taxableAmount : item.total,
+    tax: lineTax?.tax || 0
+  }
 }
 
 interface Customer {
   id: string
   name: string
+  price_list_id?: string | null
 }
 
 interface Warehouse {
@@ -45,15 +85,22 @@ interface Warehouse {
   name: string
 }
 
+interface PaymentMethodAccount {
+  id: string
+  payment_method_type: string | null
+}
+
 interface UseSaleSubmissionProps {
   customers: Customer[]
   warehouses: Warehouse[]
+  paymentMethodAccounts: PaymentMethodAccount[]
   clearCache: () => void
 }
 
 export function useSaleSubmission({ 
   customers, 
   warehouses, 
+  paymentMethodAccounts,
   clearCache 
 }: UseSaleSubmissionProps) {
   const { user } = useCurrentUser()
@@ -88,7 +135,7 @@ export function useSaleSubmission({
       for (const cartItem of cartItems) {
         const availableStock = cartItem.variation ? cartItem.variation.stock : cartItem.product.stock || 0
 
-        if (cartItem.quantity > availableStock) {
+        if (cartItem.baseQuantity > availableStock) {
           const itemName = cartItem.variation 
             ? `${cartItem.product.name} (${cartItem.variation.sku})`
             : cartItem.product.name
@@ -99,6 +146,17 @@ export function useSaleSubmission({
         }
       }
 
+      // Serial-tracked lines need one serial number per base unit
+      const missingSerials = cartItems.find(item =>
+        item.product.trackSerials && (item.serialNumbers?.length || 0) !== item.baseQuantity
+      )
+      if (missingSerials) {
+        return {
+          success: false,
+          message: `Scan ${missingSerials.baseQuantity} serial number${missingSerials.baseQuantity !== 1 ? 's' : ''} for ${missingSerials.product.name}`
+        }
+      }
+
       // Get customer and warehouse details for required fields
       const customer = customers.find((c: any) => c.id === saleData.customerId)
       const warehouse = warehouses.find((w: any) => w.id === saleData.warehouseId)
@@ -115,10 +173,14 @@ export function useSaleSubmission({
         after_discount: totals.subtotal - totals.totalDiscountAmount,
         total_discount: totals.totalDiscountAmount,
         total_discount_type: saleData.totalDiscountType,
-        tax_rate: saleData.taxRate,
+        // Tax is charged per line at each line's rate
+        tax_rate: null,
         tax_amount: totals.taxAmount,
         total_amount: totals.grandTotal,
-        status: 'completed'
+        status: 'completed',
+        price_list_id: customer?.price_list_id || null,
+        currency: totals.currency || BASE_CURRENCY,
+        exchange_rate: totals.exchangeRate || 1
       }
 
       // Check for duplicate cart items
@@ -146,44 +208,82 @@ export function useSaleSubmission({
 
       // Prepare sale items (now including packaging fields)
       // Note: We don't include 'id' field - let the database auto-generate it
+      // Quantities and prices go in the base unit, with the unit the line was sold in;
+      // prices are the customer's, from their price list where it has one
       const saleItems = uniqueCartItems.map((item, index) => ({
         product_id: item.productId,
         product_name: item.product.name,
         variation_id: item.variationId || null,
-        packaging_id: item.packagingId,
-        packaging_name: item.packaging.title,
+        packaging_id: item.packagingId || null,
+        packaging_name: item.packaging?.title || null,
         packaging_variation_id: item.packagingVariationId || null,
-        quantity: item.quantity,
-        price: item.variation?.price || item.product.price || 0,
-        discount: item.discountAmount,
+        quantity: item.baseQuantity,
+        price: item.basePrice,
+        unit_name: item.unitName || item.product.baseUnit || null,
+        unit_factor: item.unitFactor || 1,
+        discount: item.discountAmount + item.promotionDiscount,
         total: item.total,
-        tax: 0 // TODO: Add per-item tax calculation if needed
+        ...getLineTaxFields(item, totals.lineTaxes),
+        lots: item.lots,
+        serial_numbers: item.serialNumbers
       }))
 
       console.log('📝 Sale record to create:', saleRecord)
       console.log('📦 Sale items to create:', saleItems)
       console.log('📊 Number of sale items:', saleItems.length)
 
-      // Create the sale using Supabase
-      const newSale = await createSale(saleRecord, saleItems)
+      // Payments collected at the counter: the tenders given, or the whole total with the
+      // selected payment method account
+      const paymentAccount = paymentMethodAccounts.find(account => account.id === saleData.paymentMethod)
+      const checkoutPayments: PostSalePaymentInput[] = saleData.payments?.length
+        ? saleData.payments.map(payment => ({ ...payment, payment_date: saleData.saleDate }))
+        : paymentAccount ? [{
+            account_id: paymentAccount.id,
+            amount: totals.grandTotal,
+            payment_method: getSalePaymentMethodForAccountType(paymentAccount.payment_method_type),
+            payment_date: saleData.saleDate
+          }] : []
+
+      const paidTotal = checkoutPayments.reduce((sum, payment) => sum + payment.amount, 0)
+      if (paidTotal - totals.grandTotal > 0.005) {
+        return {
+          success: false,
+          message: 'The payments come to more than the sale total'
+        }
+      }
+
+      // Post sale, items, stock, payments and journal entries in one transaction
+      const postResult = await postSale(saleRecord, saleItems, checkoutPayments, user?.name || 'system', totals.promotions)
 
-      console.log('✅ Sale created successfully:', newSale)
+      if (!postResult.success) {
+        return {
+          success: false,
+          errorCode: postResult.error_code,
+          message: `${POST_SALE_ERROR_MESSAGES[postResult.error_code]}. ${postResult.error_message}`
+        }
+      }
+
+      console.log('✅ Sale posted successfully:', postResult)
 
       // Invalidate sales cache so the sales page shows fresh data
       invalidateSalesCache()
 
       // Calculate profit
       const totalExpense = cartItems.reduce((sum, item) => 
-        sum + ((item.variation ? item.variation.buyingPrice : item.product.buyingPrice || 0) * item.quantity), 0)
-      const profit = totals.grandTotal - totalExpense
+        sum + ((item.variation ? item.variation.buyingPrice : item.product.buyingPrice || 0) * item.baseQuantity), 0)
+      // Costs are in taka, so profit is too
+      const profit = toBaseAmount(totals.grandTotal, totals.exchangeRate) - totalExpense
+      const currencySymbol = getCurrencySymbol(totals.currency)
 
       return {
         success: true,
-        message: `Sale #${newSale.id} completed successfully! Revenue: ৳${totals.grandTotal.toFixed(2)}, Profit: ৳${profit.toFixed(2)}`,
-        saleId: newSale.id,
+        message: `Sale #${postResult.sale_id} completed successfully! Revenue: ${currencySymbol}${totals.grandTotal.toFixed(2)}, Profit: ৳${profit.toFixed(2)}`,
+        saleId: postResult.sale_id,
         revenue: totals.grandTotal,
         profit: profit,
-        items: cartItems
+        items: cartItems,
+        payments: checkoutPayments,
+        changeDue: calculateChangeDue(checkoutPayments)
       }
     } catch (error) {
       console.error('❌ Error creating sale:', error)
@@ -214,6 +314,92 @@ export function useSaleSubmission({
     }
   }
 
+  // Save the cart as a quotation; no stock, payment or journal entries are touched
+  const saveQuotation = async (
+    saleData: SaleFormData,
+    cartItems: CartItem[],
+    totals: SaleTotals,
+    expiryDate: string
+  ): Promise<QuotationResult> => {
+    setValidationAttempted(true)
+
+    if (!saleData.warehouseId) {
+      showAlert('error', 'Please select a warehouse')
+      return { success: false, message: 'Please select a warehouse' }
+    }
+
+    if (!saleData.customerId) {
+      showAlert('error', 'Please select a customer')
+      return { success: false, message: 'Please select a customer' }
+    }
+
+    if (!expiryDate || expiryDate < saleData.saleDate) {
+      showAlert('error', 'The expiry date must be on or after the quotation date')
+      return { success: false, message: 'Invalid expiry date' }
+    }
+
+    if (cartItems.length === 0) {
+      showAlert('error', 'Please add at least one item to the cart')
+      return { success: false, message: 'Cart is empty' }
+    }
+
+    // Quotations and sales orders are kept in taka
+    if (!isBaseCurrency(totals.currency)) {
+      showAlert('error', `Quotations are in taka; this customer is invoiced in ${totals.currency}`)
+      return { success: false, message: 'Quotations are in taka' }
+    }
+
+    try {
+      setIsSubmitting(true)
+
+      const customer = customers.find(c => c.id === saleData.customerId)
+      const warehouse = warehouses.find(w => w.id === saleData.warehouseId)
+
+      const quotation = await createQuotation(
+        {
+          customer_id: saleData.customerId,
+          customer_name: customer?.name || 'Unknown Customer',
+          warehouse_id: saleData.warehouseId,
+          warehouse_name: warehouse?.name || 'Unknown Warehouse',
+          order_date: saleData.saleDate,
+          expiry_date: expiryDate,
+          salesperson: user?.name || 'System User',
+          subtotal: totals.subtotal,
+          total_discount: totals.totalDiscountAmount,
+          total_discount_type: saleData.totalDiscountType,
+          tax_rate: null,
+          tax_amount: totals.taxAmount,
+          total_amount: totals.grandTotal
+        },
+        cartItems.map(item => ({
+          product_id: item.productId,
+          product_name: item.product.name,
+          variation_id: item.variationId || null,
+          packaging_id: item.packagingId || null,
+          packaging_name: item.packaging?.title || null,
+          packaging_variation_id: item.packagingVariationId || null,
+          quantity: item.baseQuantity,
+          price: item.basePrice,
+          unit_name: item.unitName || item.product.baseUnit || null,
+          unit_factor: item.unitFactor || 1,
+          discount: item.discountAmount + item.promotionDiscount,
+          total: item.total,
+          ...getLineTaxFields(item, totals.lineTaxes)
+        })),
+        user?.name || 'system'
+      )
+
+      showAlert('success', `Quotation ${quotation.id} saved`)
+      return { success: true, message: 'Quotation saved', quotationId: quotation.id }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save quotation'
+      showAlert('error', message)
+      return { success: false, message }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   // Manual validation check
   const validateForm = (
     selectedWarehouse: string,
@@ -377,6 +563,7 @@ export function useSaleSubmission({
     onSubmit,
     onSubmitError,
     handleCompleteSale,
+    saveQuotation,
     startNewSale,
     handleCustomerAdded,
     showAlert,
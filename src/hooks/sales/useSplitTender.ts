@@ -0,0 +1,137 @@
+import { useState, useMemo, useCallback } from 'react'
+import {
+  calculateChangeDue,
+  getSalePaymentMethodForAccountType,
+  type PostSalePaymentInput
+} from '@/lib/supabase/sales-client'
+
+// Payment-method account a tender can be paid into
+export interface TenderAccount {
+  id: string
+  account_name: string
+  payment_method_type: string | null
+}
+
+// A further tender as typed at the counter, e.g. the card part of a cash and card payment
+export interface TenderEntry {
+  accountId: string
+  amount: string
+  // Cash handed over, to work out the change; blank when it is exact
+  received: string
+}
+
+export interface SplitTender {
+  // Tenders besides the selected payment method, which takes whatever they leave
+  tenders: TenderEntry[]
+  primaryAmount: number
+  primaryReceived: string
+  // Payments to post with the sale, one per tender with an amount
+  payments: PostSalePaymentInput[]
+  changeDue: number
+  // Why the tenders can't be taken as they stand, if they can't
+  tenderError: string | null
+  isCashAccount: (accountId: string) => boolean
+  setPrimaryReceived: (received: string) => void
+  addTender: () => void
+  updateTender: (index: number, changes: Partial<TenderEntry>) => void
+  removeTender: (index: number) => void
+  resetTenders: () => void
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+// Blank or unreadable amounts count as nothing
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value)
+  return isNaN(amount) || amount < 0 ? 0 : roundMoney(amount)
+}
+
+export function useSplitTender(
+  grandTotal: number,
+  primaryAccountId: string,
+  accounts: TenderAccount[]
+): SplitTender {
+  const [tenders, setTenders] = useState<TenderEntry[]>([])
+  const [primaryReceived, setPrimaryReceived] = useState('')
+
+  const isCashAccount = useCallback((accountId: string) => {
+    const account = accounts.find(a => a.id === accountId)
+    return !!account && getSalePaymentMethodForAccountType(account.payment_method_type) === 'cash'
+  }, [accounts])
+
+  const { primaryAmount, payments, changeDue, tenderError } = useMemo(() => {
+    const otherTotal = roundMoney(tenders.reduce((sum, tender) => sum + parseAmount(tender.amount), 0))
+    const primaryAmount = roundMoney(Math.max(grandTotal - otherTotal, 0))
+
+    const entries = [
+      { accountId: primaryAccountId, amount: primaryAmount, received: primaryReceived },
+      ...tenders.map(tender => ({ ...tender, amount: parseAmount(tender.amount) }))
+    ]
+
+    const payments: PostSalePaymentInput[] = entries
+      .filter(entry => entry.accountId && entry.amount > 0)
+      .map(entry => {
+        const account = accounts.find(a => a.id === entry.accountId)
+        const paymentMethod = getSalePaymentMethodForAccountType(account?.payment_method_type)
+        const received = parseAmount(entry.received)
+        return {
+          account_id: entry.accountId,
+          amount: entry.amount,
+          payment_method: paymentMethod,
+          ...(paymentMethod === 'cash' && received > 0 ? { amount_tendered: received } : {})
+        }
+      })
+
+    let tenderError: string | null = null
+    if (otherTotal > grandTotal) {
+      tenderError = 'The split payments come to more than the sale total'
+    } else if (tenders.some(tender => !tender.accountId && parseAmount(tender.amount) > 0)) {
+      tenderError = 'Choose a payment method for each split payment'
+    } else {
+      const shortCash = payments.find(payment =>
+        payment.amount_tendered !== undefined && payment.amount_tendered < payment.amount)
+      if (shortCash) {
+        tenderError = `Cash received of ${shortCash.amount_tendered?.toFixed(2)} is less than the ${shortCash.amount.toFixed(2)} due in cash`
+      }
+    }
+
+    return { primaryAmount, payments, changeDue: calculateChangeDue(payments), tenderError }
+  }, [grandTotal, primaryAccountId, primaryReceived, tenders, accounts])
+
+  // A new tender starts on the first account not already taking part of the payment
+  const addTender = useCallback(() => {
+    setTenders(prev => {
+      const used = new Set([primaryAccountId, ...prev.map(tender => tender.accountId)])
+      const account = accounts.find(a => !used.has(a.id))
+      return [...prev, { accountId: account?.id || '', amount: '', received: '' }]
+    })
+  }, [accounts, primaryAccountId])
+
+  const updateTender = useCallback((index: number, changes: Partial<TenderEntry>) => {
+    setTenders(prev => prev.map((tender, i) => i === index ? { ...tender, ...changes } : tender))
+  }, [])
+
+  const removeTender = useCallback((index: number) => {
+    setTenders(prev => prev.filter((_, i) => i !== index))
+  }, [])
+
+  const resetTenders = useCallback(() => {
+    setTenders([])
+    setPrimaryReceived('')
+  }, [])
+
+  return {
+    tenders,
+    primaryAmount,
+    primaryReceived,
+    payments,
+    changeDue,
+    tenderError,
+    isCashAccount,
+    setPrimaryReceived,
+    addTender,
+    updateTender,
+    removeTender,
+    resetTenders
+  }
+}
@@ -134,6 +134,7 @@ export async function getRefundTransactions(returnId: string): Promise<RefundTra
       payment_id: transaction.original_payment_id,
       amount: transaction.refund_amount,
       method: transaction.refund_method,
+      payment_date: transaction.processed_at || transaction.created_at,
       status: transaction.status,
       failure_reason: transaction.failure_reason,
       bank_reference: transaction.bank_reference,
@@ -322,6 +323,7 @@ export async function getAllRefundTransactions(): Promise<{
       payment_id: transaction.original_payment_id,
       amount: transaction.refund_amount,
       method: transaction.refund_method,
+      payment_date: transaction.processed_at || transaction.created_at,
       status: transaction.status,
       failure_reason: transaction.failure_reason,
       bank_reference: transaction.bank_reference,
@@ -2,35 +2,50 @@
 
 import { useState, useCallback, useMemo } from 'react'
 import type { ProductVariation } from '@/lib/types'
+import type { BundleComponentInput } from '@/lib/supabase/product-bundles'
+import { DEFAULT_BASE_UNIT, type ProductUnitsInput } from '@/lib/supabase/units-of-measure'
 
 interface ProductForm {
   name: string
   description: string
   categoryId: string
-  type: 'simple' | 'variation'
+  // Empty to take the category's tax code
+  taxCodeId: string
+  type: 'simple' | 'variation' | 'bundle'
   status: 'active' | 'inactive'
   image?: File
   sku?: string
+  barcode?: string
   sellingPrice?: number
   buyingPrice?: number
   stock?: number
+  trackLots: boolean
+  trackSerials: boolean
   selectedAttributes: string[]
   variations: ProductVariation[]
+  bundleComponents: BundleComponentInput[]
+  productUnits: ProductUnitsInput
 }
 
 const defaultForm: ProductForm = {
   name: '',
   description: '',
   categoryId: '',
+  taxCodeId: '',
   type: 'simple',
   status: 'active',
   image: undefined,
   sku: '',
+  barcode: '',
   sellingPrice: undefined,
   buyingPrice: undefined,
   stock: undefined,
+  trackLots: false,
+  trackSerials: false,
   selectedAttributes: [],
-  variations: []
+  variations: [],
+  bundleComponents: [],
+  productUnits: { base_unit: DEFAULT_BASE_UNIT, units: [] }
 }
 
 export function useAddProductForm() {
@@ -50,11 +65,15 @@ export function useAddProductForm() {
     setForm(prev => ({ ...prev, categoryId }))
   }, [])
 
+  const updateTaxCode = useCallback((taxCodeId: string) => {
+    setForm(prev => ({ ...prev, taxCodeId }))
+  }, [])
+
   const updateStatus = useCallback((status: 'active' | 'inactive') => {
     setForm(prev => ({ ...prev, status }))
   }, [])
 
-  const updateType = useCallback((type: 'simple' | 'variation') => {
+  const updateType = useCallback((type: 'simple' | 'variation' | 'bundle') => {
     setForm(prev => {
       const updated = { ...prev, type }
       
@@ -62,6 +81,7 @@ export function useAddProductForm() {
       if (type === 'variation') {
         // Clear simple product fields
         updated.sku = ''
+        updated.barcode = ''
         updated.sellingPrice = undefined
         updated.buyingPrice = undefined
         updated.stock = undefined
@@ -70,6 +90,14 @@ export function useAddProductForm() {
         updated.selectedAttributes = []
         updated.variations = []
       }
+
+      if (type === 'bundle') {
+        // Bundles are stocked through their components
+        updated.trackLots = false
+        updated.trackSerials = false
+      } else {
+        updated.bundleComponents = []
+      }
       
       return updated
     })
@@ -79,6 +107,18 @@ export function useAddProductForm() {
     setForm(prev => ({ ...prev, sku }))
   }, [])
 
+  const updateBarcode = useCallback((barcode: string) => {
+    setForm(prev => ({ ...prev, barcode }))
+  }, [])
+
+  const updateTrackLots = useCallback((trackLots: boolean) => {
+    setForm(prev => ({ ...prev, trackLots }))
+  }, [])
+
+  const updateTrackSerials = useCallback((trackSerials: boolean) => {
+    setForm(prev => ({ ...prev, trackSerials }))
+  }, [])
+
   const updatePrice = useCallback((sellingPrice: number | undefined) => {
     setForm(prev => ({ ...prev, sellingPrice }))
   }, [])
@@ -126,6 +166,16 @@ export function useAddProductForm() {
     }))
   }, [])
 
+  // Bundle product methods
+  const updateBundleComponents = useCallback((bundleComponents: BundleComponentInput[]) => {
+    setForm(prev => ({ ...prev, bundleComponents }))
+  }, [])
+
+  // Units of measure methods
+  const updateProductUnits = useCallback((productUnits: ProductUnitsInput) => {
+    setForm(prev => ({ ...prev, productUnits }))
+  }, [])
+
   // Computed properties
   const canAddVariations = useMemo(() => {
     return form.selectedAttributes.length > 0
@@ -161,10 +211,14 @@ export function useAddProductForm() {
     updateName,
     updateDescription,
     updateCategory,
+    updateTaxCode,
     updateStatus,
     updateType,
     updateSku,
+    updateBarcode,
     updatePrice,
+    updateTrackLots,
+    updateTrackSerials,
     updateBuyingPrice,
     updateStock,
     updateImage,
@@ -174,6 +228,12 @@ export function useAddProductForm() {
     addVariation,
     updateVariation,
     deleteVariation,
+
+    // Bundle methods
+    updateBundleComponents,
+
+    // Units of measure methods
+    updateProductUnits,
     
     // Computed properties
     canAddVariations,
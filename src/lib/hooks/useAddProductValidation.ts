@@ -4,6 +4,8 @@ import { useState, useCallback, useEffect } from 'react'
 import { toast } from 'sonner'
 import { checkSkuExists } from '@/lib/supabase/mutations'
 import type { ProductVariation } from '@/lib/types'
+import type { BundleComponentInput } from '@/lib/supabase/product-bundles'
+import type { ProductUnitsInput } from '@/lib/supabase/units-of-measure'
 
 interface ValidationState {
   isChecking: boolean
@@ -16,7 +18,7 @@ interface ProductForm {
   name: string
   description: string
   categoryId: string
-  type: 'simple' | 'variation'
+  type: 'simple' | 'variation' | 'bundle'
   status: 'active' | 'inactive'
   image?: File
   sku?: string
@@ -25,6 +27,8 @@ interface ProductForm {
   stock?: number
   selectedAttributes: string[]
   variations: ProductVariation[]
+  bundleComponents: BundleComponentInput[]
+  productUnits: ProductUnitsInput
 }
 
 export function useAddProductValidation() {
@@ -120,10 +124,10 @@ export function useAddProductValidation() {
     if (!form.name.trim()) newErrors.push('Product name is required')
     if (!form.categoryId) newErrors.push('Category is required')
 
-    if (form.type === 'simple') {
+    if (form.type === 'simple' || form.type === 'bundle') {
       // Simple product validation
       if (!form.sku?.trim()) {
-        newErrors.push('SKU is required for simple products')
+        newErrors.push(`SKU is required for ${form.type} products`)
       } else if (skuValidation.isValid === false) {
         newErrors.push(skuValidation.message || 'SKU is not valid')
       } else if (skuValidation.isChecking) {
@@ -132,6 +136,9 @@ export function useAddProductValidation() {
       if (!form.sellingPrice || form.sellingPrice <= 0) {
         newErrors.push('Selling price must be greater than 0')
       }
+      if (form.type === 'bundle' && form.bundleComponents.length === 0) {
+        newErrors.push('At least one component must be added to a bundle')
+      }
     } else {
       // Variation product validation
       if (form.selectedAttributes.length === 0 && form.variations.length === 0) {
@@ -142,6 +149,10 @@ export function useAddProductValidation() {
       }
     }
 
+    if (!form.productUnits.base_unit.trim()) {
+      newErrors.push('A base unit is required')
+    }
+
     // Show all errors in a single toast if there are any
     if (newErrors.length > 0) {
       if (newErrors.length === 1) {
@@ -178,15 +189,15 @@ export function useAddProductValidation() {
   }
 }
 
-// Debounced SKU validation hook for simple products
+// Debounced SKU validation hook for simple and bundle products
 export function useDebounceSkuValidation(
   sku: string | undefined,
-  type: 'simple' | 'variation',
+  type: 'simple' | 'variation' | 'bundle',
   validateSku: (sku: string, isVariation: boolean) => Promise<void>,
   delay = 500
 ) {
   useEffect(() => {
-    if (type === 'simple' && sku && sku.trim()) {
+    if (type !== 'variation' && sku && sku.trim()) {
       const timer = setTimeout(() => {
         validateSku(sku, false)
       }, delay)
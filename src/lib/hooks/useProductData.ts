@@ -10,6 +10,7 @@ interface VariationQueryResult {
   id: string
   product_id: string
   sku: string
+  barcode?: string
   price?: number
   created_at: string
   updated_at: string
@@ -25,6 +26,7 @@ interface DatabaseProductVariation {
   id: string
   product_id: string
   sku: string
+  barcode?: string
   price?: number
   created_at: string
   updated_at: string
@@ -65,13 +67,17 @@ interface DatabaseProduct {
   id: string
   name: string
   sku?: string
+  barcode?: string
   description: string
   price?: number
   category_id?: string
+  tax_code_id?: string
   status: 'active' | 'inactive'
-  type: 'simple' | 'variation'
+  type: 'simple' | 'variation' | 'bundle'
   image_url?: string
   parent_sku?: string
+  track_lots?: boolean
+  track_serials?: boolean
   created_at: string
   updated_at: string
   category?: { id: string; name: string; slug: string }
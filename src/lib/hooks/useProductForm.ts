@@ -2,32 +2,46 @@
 
 import { useState, useCallback, useEffect } from 'react'
 import type { Product, ProductVariation } from '@/lib/types'
+import type { BundleComponentInput } from '@/lib/supabase/product-bundles'
+import { DEFAULT_BASE_UNIT, type ProductUnitsInput } from '@/lib/supabase/units-of-measure'
 
 interface ProductForm {
   name: string
   description: string
   categoryId?: string
-  type: 'simple' | 'variation'
+  // Empty to take the category's tax code
+  taxCodeId: string
+  type: 'simple' | 'variation' | 'bundle'
   status: 'active' | 'inactive'
   image?: File
   sku?: string
+  barcode?: string
   sellingPrice?: number
   buyingPrice?: number
   stock?: number
   boughtQuantity?: number
   parentSku?: string
+  trackLots: boolean
+  trackSerials: boolean
   selectedAttributes: string[]
   variations: ProductVariation[]
+  bundleComponents: BundleComponentInput[]
+  productUnits: ProductUnitsInput
 }
 
 const defaultForm: ProductForm = {
   name: '',
   description: '',
   categoryId: '',
+  taxCodeId: '',
   type: 'simple',
   status: 'active',
+  trackLots: false,
+  trackSerials: false,
   selectedAttributes: [],
-  variations: []
+  variations: [],
+  bundleComponents: [],
+  productUnits: { base_unit: DEFAULT_BASE_UNIT, units: [] }
 }
 
 export function useProductForm(initialProduct?: Product) {
@@ -40,18 +54,25 @@ export function useProductForm(initialProduct?: Product) {
       name: product.name,
       description: product.description,
       categoryId: product.categoryId || '',
+      taxCodeId: product.taxCodeId || '',
       type: product.type,
       status: product.status,
       sku: product.sku,
+      barcode: product.barcode || '',
       sellingPrice: product.price,
       buyingPrice: product.buyingPrice,
       stock: product.stock,
       boughtQuantity: product.boughtQuantity,
       parentSku: product.parentSku,
+      trackLots: product.trackLots || false,
+      trackSerials: product.trackSerials || false,
       selectedAttributes: product.attributes || [],
-      variations: product.variations || []
+      variations: product.variations || [],
+      bundleComponents: [],
+      productUnits: { base_unit: DEFAULT_BASE_UNIT, units: [] }
     }
-    setForm(formData)
+    // Bundle components and units are loaded separately and survive a re-initialisation
+    setForm(prev => ({ ...formData, bundleComponents: prev.bundleComponents, productUnits: prev.productUnits }))
   }, [])
 
   // Form field updaters
@@ -74,11 +95,15 @@ export function useProductForm(initialProduct?: Product) {
     updateField('categoryId', categoryId)
   }, [updateField])
 
-  const updateType = useCallback((type: 'simple' | 'variation') => {
+  const updateTaxCode = useCallback((taxCodeId: string) => {
+    updateField('taxCodeId', taxCodeId)
+  }, [updateField])
+
+  const updateType = useCallback((type: 'simple' | 'variation' | 'bundle') => {
     updateField('type', type)
     // Clear SKU and price when switching to variation type
     if (type === 'variation') {
-      setForm(prev => ({ ...prev, sku: '', sellingPrice: undefined }))
+      setForm(prev => ({ ...prev, sku: '', barcode: '', sellingPrice: undefined }))
     }
   }, [updateField])
 
@@ -90,6 +115,18 @@ export function useProductForm(initialProduct?: Product) {
     updateField('sku', sku)
   }, [updateField])
 
+  const updateBarcode = useCallback((barcode: string) => {
+    updateField('barcode', barcode)
+  }, [updateField])
+
+  const updateTrackLots = useCallback((trackLots: boolean) => {
+    updateField('trackLots', trackLots)
+  }, [updateField])
+
+  const updateTrackSerials = useCallback((trackSerials: boolean) => {
+    updateField('trackSerials', trackSerials)
+  }, [updateField])
+
   const updatePrice = useCallback((price: number | undefined) => {
     updateField('sellingPrice', price)
   }, [updateField])
@@ -126,6 +163,16 @@ export function useProductForm(initialProduct?: Product) {
     }))
   }, [])
 
+  // Bundle component management
+  const updateBundleComponents = useCallback((bundleComponents: BundleComponentInput[]) => {
+    updateField('bundleComponents', bundleComponents)
+  }, [updateField])
+
+  // Units of measure management
+  const updateProductUnits = useCallback((productUnits: ProductUnitsInput) => {
+    updateField('productUnits', productUnits)
+  }, [updateField])
+
   // Success message management
   const showSuccessMessage = useCallback(() => {
     setShowSuccess(true)
@@ -134,7 +181,7 @@ export function useProductForm(initialProduct?: Product) {
 
   // Form validation helpers
   const hasVariations = form.variations.length > 0
-  const canChangeType = !hasVariations
+  const canChangeType = !hasVariations && form.type !== 'bundle'
   const canChangeAttributes = !hasVariations
   const canAddVariations = form.type === 'variation' && form.selectedAttributes.length > 0
 
@@ -154,10 +201,14 @@ export function useProductForm(initialProduct?: Product) {
     updateName,
     updateDescription,
     updateCategory,
+    updateTaxCode,
     updateType,
     updateStatus,
     updateSku,
+    updateBarcode,
     updatePrice,
+    updateTrackLots,
+    updateTrackSerials,
     
     // Attribute management
     toggleAttribute,
@@ -166,6 +217,12 @@ export function useProductForm(initialProduct?: Product) {
     addVariation,
     updateVariation,
     removeVariation,
+
+    // Bundle component management
+    updateBundleComponents,
+
+    // Units of measure management
+    updateProductUnits,
     
     // Utility functions
     initializeForm,
@@ -4,6 +4,8 @@ import { useState, useCallback, useEffect } from 'react'
 import { toast } from 'sonner'
 import { validateSku as validateSkuUnique } from '@/lib/utils/skuValidation'
 import type { ProductVariation } from '@/lib/types'
+import type { BundleComponentInput } from '@/lib/supabase/product-bundles'
+import type { ProductUnitsInput } from '@/lib/supabase/units-of-measure'
 
 interface ValidationState {
   isChecking: boolean
@@ -16,7 +18,7 @@ interface ProductForm {
   name: string
   description: string
   categoryId?: string
-  type: 'simple' | 'variation'
+  type: 'simple' | 'variation' | 'bundle'
   status: 'active' | 'inactive'
   image?: File
   sku?: string
@@ -27,6 +29,8 @@ interface ProductForm {
   parentSku?: string
   selectedAttributes: string[]
   variations: ProductVariation[]
+  bundleComponents: BundleComponentInput[]
+  productUnits: ProductUnitsInput
 }
 
 interface VariationForm {
@@ -130,15 +134,18 @@ export function useProductValidation(productId: string) {
 
     if (!form.name.trim()) newErrors.push('Product name is required')
 
-    if (form.type === 'simple') {
+    if (form.type === 'simple' || form.type === 'bundle') {
       if (!form.sku?.trim()) {
-        newErrors.push('SKU is required for simple products')
+        newErrors.push(`SKU is required for ${form.type} products`)
       } else if (skuValidation.isValid === false) {
         newErrors.push(skuValidation.message || 'SKU is not valid')
       } else if (skuValidation.isChecking) {
         newErrors.push('Please wait for SKU validation to complete')
       }
       if (!form.sellingPrice || form.sellingPrice <= 0) newErrors.push('Selling price must be greater than 0')
+      if (form.type === 'bundle' && form.bundleComponents.length === 0) {
+        newErrors.push('At least one component must be added to a bundle')
+      }
     } else {
       // Only require attributes if no variations exist yet
       if (form.selectedAttributes.length === 0 && form.variations.length === 0) {
@@ -147,6 +154,10 @@ export function useProductValidation(productId: string) {
       if (form.variations.length === 0) newErrors.push('At least one variation must be created')
     }
 
+    if (!form.productUnits.base_unit.trim()) {
+      newErrors.push('A base unit is required')
+    }
+
     // Show all errors in a single toast if there are any
     if (newErrors.length > 0) {
       if (newErrors.length === 1) {
@@ -198,7 +209,7 @@ export function useProductValidation(productId: string) {
 // Debounced SKU validation hooks
 export function useDebounceSkuValidation(
   sku: string | undefined,
-  type: 'simple' | 'variation',
+  type: 'simple' | 'variation' | 'bundle',
   validateSku: (sku: string, isVariation: boolean, excludeId?: string, variations?: ProductVariation[], currentEditingIndex?: number) => Promise<void>,
   formInitialized: boolean,
   variations: ProductVariation[] = [],
@@ -206,7 +217,7 @@ export function useDebounceSkuValidation(
   delay = 500
 ) {
   useEffect(() => {
-    if (type === 'simple' && sku && formInitialized) {
+    if (type !== 'variation' && sku && formInitialized) {
       const timer = setTimeout(() => {
         validateSku(sku, false)
       }, delay)
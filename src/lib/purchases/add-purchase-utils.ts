@@ -1,10 +1,10 @@
 import { type DatabasePackaging, type DatabaseProduct } from '@/lib/supabase/queries'
 
 /**
- * Format currency amount in BDT
+ * Format currency amount in BDT, or in the purchase currency when its symbol is given
  */
-export const formatCurrency = (amount: number): string => {
-  return '৳ ' + new Intl.NumberFormat('en-BD', {
+export const formatCurrency = (amount: number, symbol: string = '৳'): string => {
+  return symbol + ' ' + new Intl.NumberFormat('en-BD', {
     minimumFractionDigits: 0,
   }).format(amount)
 }
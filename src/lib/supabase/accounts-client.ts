@@ -1,4 +1,5 @@
 import { createClient } from './client'
+import { assertPeriodOpen } from './fiscal-periods'
 import type { 
   Account, 
   AccountCategory, 
@@ -275,6 +276,9 @@ export async function createJournalEntry(entryData: CreateJournalEntryData): Pro
   if (Math.abs(totalDebits - totalCredits) > 0.01) {
     throw new Error('Debits must equal credits in journal entry')
   }
+
+  // Refuse dates inside a locked accounting period
+  await assertPeriodOpen(entryData.entry_date, 'Journal entry')
   
   // Generate entry number
   const timestamp = Date.now()
@@ -319,9 +323,136 @@ export async function createJournalEntry(entryData: CreateJournalEntryData): Pro
     throw linesError
   }
 
+  invalidateJournalEntriesCache()
   return journalEntry.id
 }
 
+// Error codes returned by the reverse_journal_entry and correct_journal_entry functions
+export type JournalReversalErrorCode =
+  | 'ENTRY_NOT_FOUND'
+  | 'ALREADY_REVERSED'
+  | 'CANNOT_REVERSE'
+  | 'INVALID_REPLACEMENT'
+  | 'PERIOD_LOCKED'
+  | 'REVERSAL_FAILED'
+  | 'REPLACEMENT_FAILED'
+  | 'NETWORK_ERROR'
+
+export type JournalReversalResult =
+  | {
+      success: true
+      reversal_entry_id: string
+      replacement_entry_id: string | null
+    }
+  | {
+      success: false
+      error_code: JournalReversalErrorCode
+      error_message: string
+    }
+
+// User-facing messages for each reversal error code
+export const JOURNAL_REVERSAL_ERROR_MESSAGES: Record<JournalReversalErrorCode, string> = {
+  ENTRY_NOT_FOUND: 'The journal entry no longer exists',
+  ALREADY_REVERSED: 'This journal entry has already been reversed',
+  CANNOT_REVERSE: 'This journal entry cannot be reversed',
+  INVALID_REPLACEMENT: 'The corrected entry is not valid',
+  PERIOD_LOCKED: 'The reversal date falls in a locked accounting period',
+  REVERSAL_FAILED: 'The reversing entry could not be posted',
+  REPLACEMENT_FAILED: 'The corrected entry could not be posted',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+export interface ReverseJournalEntryOptions {
+  reversal_date?: string
+  reason?: string
+  created_by: string
+}
+
+// Journal entries changed, so drop the cached list
+function invalidateJournalEntriesCache() {
+  cache.delete('journal_entries_with_lines')
+}
+
+async function runJournalReversal(
+  rpcName: 'reverse_journal_entry' | 'correct_journal_entry',
+  params: Record<string, unknown>
+): Promise<JournalReversalResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(rpcName, params)
+
+  if (error) {
+    console.error(`❌ ${rpcName} RPC error:`, error)
+    return {
+      success: false,
+      error_code: 'NETWORK_ERROR',
+      error_message: error.message || 'Failed to reverse journal entry'
+    }
+  }
+
+  const result = data as JournalReversalResult
+
+  if (result.success) {
+    invalidateJournalEntriesCache()
+  } else {
+    console.error(`❌ Journal reversal rolled back (${result.error_code}):`, result.error_message)
+  }
+
+  return result
+}
+
+// Reverse a posted entry: a mirror entry is posted on the reversal date (today by default)
+// and linked to the original, which is marked as reversed. Nothing is edited or deleted.
+export async function reverseJournalEntry(
+  entryId: string,
+  options: ReverseJournalEntryOptions
+): Promise<JournalReversalResult> {
+  return runJournalReversal('reverse_journal_entry', {
+    p_entry_id: entryId,
+    p_reversal_date: options.reversal_date || new Date().toISOString().split('T')[0],
+    p_reason: options.reason || null,
+    p_created_by: options.created_by
+  })
+}
+
+// Correct a posted entry: reverse it and post the replacement in one transaction.
+// The replacement keeps the original's reference and is linked back to it.
+export async function correctJournalEntry(
+  entryId: string,
+  replacement: Pick<CreateJournalEntryData, 'description' | 'entry_date' | 'lines'>,
+  options: ReverseJournalEntryOptions
+): Promise<JournalReversalResult> {
+  const totalDebits = replacement.lines.reduce((sum, line) => sum + (line.debit_amount || 0), 0)
+  const totalCredits = replacement.lines.reduce((sum, line) => sum + (line.credit_amount || 0), 0)
+
+  if (Math.abs(totalDebits - totalCredits) > 0.01) {
+    return {
+      success: false,
+      error_code: 'INVALID_REPLACEMENT',
+      error_message: 'Debits must equal credits in journal entry'
+    }
+  }
+
+  const reversalDate = options.reversal_date || new Date().toISOString().split('T')[0]
+
+  return runJournalReversal('correct_journal_entry', {
+    p_entry_id: entryId,
+    p_replacement: {
+      description: replacement.description,
+      entry_date: replacement.entry_date || reversalDate,
+      lines: replacement.lines.map(line => ({
+        account_id: line.account_id,
+        description: line.description || null,
+        debit_amount: line.debit_amount || 0,
+        credit_amount: line.credit_amount || 0
+      }))
+    },
+    p_reversal_date: reversalDate,
+    p_reason: options.reason || null,
+    p_created_by: options.created_by
+  })
+}
+
 // Get journal entries with lines
 export async function getJournalEntriesWithLines(): Promise<JournalEntryWithLines[]> {
   return withDeduplication('journal_entries_with_lines', async () => {
@@ -443,13 +574,15 @@ export async function getFinancialSummary(): Promise<{
   })
 }
 
-// Auto-create journal entries for sales
+// Auto-create journal entries for sales. When the cost of the goods sold is known
+// (sale_items.cost_amount), the matching Cost of Goods Sold / Inventory entry is posted too.
 export async function createSaleJournalEntry(
   saleId: string,
   customerName: string,
   totalAmount: number,
   saleDate: string,
-  createdBy: string
+  createdBy: string,
+  costAmount: number = 0
 ): Promise<string> {
   const supabase = createClient()
   
@@ -475,6 +608,24 @@ export async function createSaleJournalEntry(
       throw new Error(`Failed to create sale journal entry: ${errorMessage}`)
   }
 
+  if (costAmount > 0) {
+    const { error: cogsError } = await supabase
+      .rpc('create_cogs_journal_entry', {
+        p_reference_type: 'sale_cogs',
+        p_reference_id: saleId,
+        p_description: `Cost of goods sold - ${customerName} (Sale: ${saleId})`,
+        p_amount: costAmount,
+        p_entry_date: saleDate,
+        p_created_by: createdBy
+      })
+
+    if (cogsError) {
+      console.error('Error creating cost of goods sold entry:', cogsError)
+      throw new Error(`Failed to create cost of goods sold entry: ${cogsError.message}`)
+    }
+  }
+
+  invalidateJournalEntriesCache()
   return data
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
@@ -0,0 +1,312 @@
+/**
+ * Assembly Orders Module
+ *
+ * Repacks bulk stock into finished units. A bill of materials names the product or
+ * variation it makes, how many units one batch makes, and the products and packaging one
+ * batch consumes. post_assembly_order runs a number of batches in one warehouse: the
+ * inputs leave as 'assembly' movements, the output arrives at the cost of its inputs,
+ * and the output's buying price becomes the weighted average of old and new stock.
+ */
+
+import { createClient } from './client'
+import { apiCache } from './cache'
+import { getBundleComponentOptions } from './product-bundles'
+
+export type AssemblyItemType = 'product' | 'package'
+
+export type BillOfMaterialsStatus = 'active' | 'inactive'
+
+export interface BillOfMaterials {
+  id: string
+  name: string
+  output_product_id: string
+  output_variation_id: string | null
+  output_name: string
+  output_quantity: number
+  status: BillOfMaterialsStatus
+  notes: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+export interface BillOfMaterialsItem {
+  id: string
+  bom_id: string
+  item_type: AssemblyItemType
+  item_id: string
+  variation_id: string | null
+  item_name: string
+  sku: string | null
+  // Units one batch consumes
+  quantity: number
+}
+
+export interface BillOfMaterialsWithItems extends BillOfMaterials {
+  items: BillOfMaterialsItem[]
+}
+
+export interface AssemblyOrder {
+  id: string
+  assembly_number: string
+  bom_id: string
+  bom_name: string
+  warehouse_id: string
+  warehouse_name: string
+  output_product_id: string
+  output_variation_id: string | null
+  output_name: string
+  batches: number
+  output_quantity: number
+  total_cost: number
+  unit_cost: number
+  assembly_date: string
+  notes: string | null
+  created_by: string
+  created_at: string
+}
+
+export interface AssemblyOrderItem {
+  id: string
+  assembly_order_id: string
+  item_type: AssemblyItemType
+  item_id: string
+  variation_id: string | null
+  item_name: string
+  sku: string | null
+  quantity: number
+  unit_cost: number
+  total_cost: number
+}
+
+export interface AssemblyOrderWithItems extends AssemblyOrder {
+  items: AssemblyOrderItem[]
+}
+
+// A product or packaging item that can be an input or, for products, the output
+export interface AssemblyItemOption {
+  item_type: AssemblyItemType
+  item_id: string
+  variation_id: string | null
+  name: string
+  sku: string | null
+}
+
+export interface SaveBillOfMaterialsData {
+  id?: string
+  name: string
+  output_product_id: string
+  output_variation_id: string | null
+  output_quantity: number
+  status?: BillOfMaterialsStatus
+  notes?: string
+  items: Array<{
+    item_type: AssemblyItemType
+    item_id: string
+    variation_id: string | null
+    quantity: number
+  }>
+}
+
+export interface PostAssemblyOrderData {
+  bom_id: string
+  warehouse_id: string
+  batches: number
+  assembly_date?: string
+  notes?: string
+}
+
+// Error codes returned by save_bill_of_materials and post_assembly_order
+export type AssemblyErrorCode =
+  | 'BOM_NOT_FOUND'
+  | 'INVALID_BOM'
+  | 'INVALID_ASSEMBLY'
+  | 'INSUFFICIENT_STOCK'
+  | 'INSUFFICIENT_PACKAGING_STOCK'
+  | 'STOCK_UPDATE_FAILED'
+  | 'NETWORK_ERROR'
+
+type AssemblyFailure = {
+  success: false
+  error_code: AssemblyErrorCode
+  error_message: string
+}
+
+export type SaveBillOfMaterialsResult =
+  | { success: true; bom_id: string }
+  | AssemblyFailure
+
+export type PostAssemblyOrderResult =
+  | {
+      success: true
+      assembly_order_id: string
+      assembly_number: string
+      output_quantity: number
+      total_cost: number
+      unit_cost: number
+    }
+  | AssemblyFailure
+
+// User-facing messages for each assembly error code
+export const ASSEMBLY_ERROR_MESSAGES: Record<AssemblyErrorCode, string> = {
+  BOM_NOT_FOUND: 'The bill of materials could not be found',
+  INVALID_BOM: 'The bill of materials could not be saved',
+  INVALID_ASSEMBLY: 'The assembly could not be posted',
+  INSUFFICIENT_STOCK: 'The warehouse does not have enough of a product input',
+  INSUFFICIENT_PACKAGING_STOCK: 'The warehouse does not have enough of a packaging input',
+  STOCK_UPDATE_FAILED: 'Stock could not be updated for this assembly',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+// Key that identifies an item, e.g. for select values and stock lookups
+export function getAssemblyItemKey(item: { item_type: AssemblyItemType; item_id: string; variation_id: string | null }): string {
+  return `${item.item_type}:${item.item_id}:${item.variation_id || ''}`
+}
+
+function invalidateAssemblyCaches(bomId?: string) {
+  apiCache.invalidateByPattern('bills-of-materials')
+  apiCache.invalidateByPattern('assembly-orders')
+  if (bomId) {
+    apiCache.invalidate(`bill-of-materials-${bomId}`)
+  }
+}
+
+export async function getBillsOfMaterials(): Promise<BillOfMaterialsWithItems[]> {
+  return apiCache.get('bills-of-materials', async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('bills_of_materials')
+      .select('*, items:bill_of_material_items(*)')
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching bills of materials:', error)
+      throw new Error('Failed to fetch bills of materials')
+    }
+
+    return (data || []) as BillOfMaterialsWithItems[]
+  })
+}
+
+export async function getBillOfMaterials(bomId: string): Promise<BillOfMaterialsWithItems | null> {
+  return apiCache.get(`bill-of-materials-${bomId}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('bills_of_materials')
+      .select('*, items:bill_of_material_items(*)')
+      .eq('id', bomId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching bill of materials:', error)
+      throw new Error('Failed to fetch the bill of materials')
+    }
+
+    if (!data) return null
+
+    const bom = data as BillOfMaterialsWithItems
+    bom.items = [...(bom.items || [])].sort((a, b) =>
+      b.item_type.localeCompare(a.item_type) || a.item_name.localeCompare(b.item_name)
+    )
+    return bom
+  })
+}
+
+// Assemblies, newest first
+export async function getAssemblyOrders(): Promise<AssemblyOrder[]> {
+  return apiCache.get('assembly-orders', async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('assembly_orders')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching assembly orders:', error)
+      throw new Error('Failed to fetch assembly orders')
+    }
+
+    return (data || []) as AssemblyOrder[]
+  })
+}
+
+export async function getAssemblyOrder(assemblyOrderId: string): Promise<AssemblyOrderWithItems | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('assembly_orders')
+    .select('*, items:assembly_order_items(*)')
+    .eq('id', assemblyOrderId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching assembly order:', error)
+    throw new Error('Failed to fetch the assembly order')
+  }
+
+  return data as AssemblyOrderWithItems | null
+}
+
+// Products and packaging that can go into or come out of an assembly. The same rules as
+// bundle components apply: no bundles and no lot- or serial-tracked products.
+export async function getAssemblyItemOptions(): Promise<AssemblyItemOption[]> {
+  const options = await getBundleComponentOptions()
+
+  return options.map(option => ({
+    item_type: option.component_type,
+    item_id: option.component_id,
+    variation_id: option.component_variation_id,
+    name: option.name,
+    sku: option.sku
+  }))
+}
+
+// Create a bill of materials, or replace an existing one when data.id is set
+export async function saveBillOfMaterials(data: SaveBillOfMaterialsData, createdBy: string): Promise<SaveBillOfMaterialsResult> {
+  const supabase = createClient()
+
+  const { data: result, error } = await supabase.rpc('save_bill_of_materials', {
+    p_bom: data,
+    p_created_by: createdBy
+  })
+
+  if (error) {
+    console.error('❌ save_bill_of_materials RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to save the bill of materials' }
+  }
+
+  if ((result as SaveBillOfMaterialsResult).success) {
+    invalidateAssemblyCaches(data.id)
+  }
+
+  return result as SaveBillOfMaterialsResult
+}
+
+export async function postAssemblyOrder(order: PostAssemblyOrderData, createdBy: string): Promise<PostAssemblyOrderResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('post_assembly_order', {
+    p_order: order,
+    p_created_by: createdBy
+  })
+
+  if (error) {
+    console.error('❌ post_assembly_order RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to post the assembly' }
+  }
+
+  const result = data as PostAssemblyOrderResult
+
+  if (result.success) {
+    invalidateAssemblyCaches()
+    apiCache.invalidate('products-all')
+    apiCache.invalidate('packaging-all')
+  } else {
+    console.error(`❌ Assembly rolled back (${result.error_code}):`, result.error_message)
+  }
+
+  return result
+}
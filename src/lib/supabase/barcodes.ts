@@ -0,0 +1,124 @@
+/**
+ * Barcodes Module
+ *
+ * Looks up the item behind a scanned barcode and lists the items labels can be printed
+ * for. Barcodes live on products (simple and bundle), product variations, packaging
+ * (simple) and packaging variations; create_barcodes.sql fills empty ones and keeps them
+ * unique across all four, so a scan resolves to exactly one item.
+ */
+
+import { createClient } from './client'
+
+export type BarcodeItemType = 'product' | 'package'
+
+// The item a barcode belongs to
+export interface BarcodeItem {
+  item_type: BarcodeItemType
+  item_id: string
+  variation_id: string | null
+  name: string
+  sku: string | null
+  barcode: string
+  // Selling price; null for packaging
+  price: number | null
+}
+
+// Key that identifies an item, e.g. for label quantities
+export function getBarcodeItemKey(item: Pick<BarcodeItem, 'item_type' | 'item_id' | 'variation_id'>): string {
+  return `${item.item_type}:${item.item_id}:${item.variation_id || ''}`
+}
+
+// The item a scanned barcode belongs to, or null when no item has it
+export async function findItemByBarcode(barcode: string): Promise<BarcodeItem | null> {
+  const value = barcode.trim()
+  if (!value) return null
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('find_item_by_barcode', {
+    p_barcode: value
+  })
+
+  if (error) {
+    console.error('Error looking up barcode:', error)
+    throw new Error('Failed to look up the barcode')
+  }
+
+  const [item] = (data || []) as BarcodeItem[]
+  return item ? { ...item, price: item.price === null ? null : Number(item.price) } : null
+}
+
+// Every active item with a barcode, products first, for printing labels
+export async function getBarcodeItems(): Promise<BarcodeItem[]> {
+  const supabase = createClient()
+
+  const [productResult, packagingResult] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, sku, barcode, price, type, product_variations(id, sku, barcode, price)')
+      .eq('status', 'active')
+      .order('name'),
+    supabase
+      .from('packaging')
+      .select('id, title, sku, barcode, type, packaging_variations(id, sku, barcode)')
+      .eq('status', 'active')
+      .order('title')
+  ])
+
+  if (productResult.error || packagingResult.error) {
+    console.error('Error fetching barcode items:', productResult.error || packagingResult.error)
+    throw new Error('Failed to load items with barcodes')
+  }
+
+  type ProductBarcodeRow = {
+    id: string
+    name: string
+    sku: string | null
+    barcode: string | null
+    price: number | null
+    type: string
+    product_variations: { id: string; sku: string; barcode: string | null; price: number }[] | null
+  }
+  type PackagingBarcodeRow = {
+    id: string
+    title: string
+    sku: string | null
+    barcode: string | null
+    type: string
+    packaging_variations: { id: string; sku: string; barcode: string | null }[] | null
+  }
+
+  const products = ((productResult.data || []) as ProductBarcodeRow[]).flatMap((row): BarcodeItem[] =>
+    row.type === 'variation'
+      ? (row.product_variations || []).filter(variation => variation.barcode).map(variation => ({
+          item_type: 'product',
+          item_id: row.id,
+          variation_id: variation.id,
+          name: `${row.name} (${variation.sku})`,
+          sku: variation.sku,
+          barcode: variation.barcode!,
+          price: Number(variation.price)
+        }))
+      : row.barcode
+        ? [{ item_type: 'product', item_id: row.id, variation_id: null, name: row.name, sku: row.sku, barcode: row.barcode, price: Number(row.price || 0) }]
+        : []
+  )
+
+  const packaging = ((packagingResult.data || []) as PackagingBarcodeRow[]).flatMap((row): BarcodeItem[] =>
+    row.type === 'variable'
+      ? (row.packaging_variations || []).filter(variation => variation.barcode).map(variation => ({
+          item_type: 'package',
+          item_id: row.id,
+          variation_id: variation.id,
+          name: `${row.title} (${variation.sku})`,
+          sku: variation.sku,
+          barcode: variation.barcode!,
+          price: null
+        }))
+      : row.barcode
+        ? [{ item_type: 'package', item_id: row.id, variation_id: null, name: row.title, sku: row.sku, barcode: row.barcode, price: null }]
+        : []
+  )
+
+  return [...products, ...packaging]
+}
@@ -0,0 +1,77 @@
+/**
+ * Company Settings Module
+ *
+ * The single company_settings row holds the details printed in the letterhead
+ * of invoices and statements, and the inventory valuation method used to cost
+ * sales. It is edited from the Settings page.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from './client'
+import { apiCache } from './cache'
+import type { InventoryValuationMethod } from './inventory-valuation'
+
+export interface CompanySettings {
+  company_name: string
+  address: string | null
+  phone: string | null
+  email: string | null
+  website: string | null
+  tax_number: string | null
+  invoice_footer: string | null
+  inventory_valuation_method: InventoryValuationMethod
+}
+
+export type UpdateCompanySettingsData = Partial<CompanySettings>
+
+// Used until the settings row has been saved (or if it cannot be read)
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  company_name: 'ERP STORE',
+  address: '123 Business St, Dhaka',
+  phone: '+880 1234-567890',
+  email: null,
+  website: null,
+  tax_number: null,
+  invoice_footer: 'Thank you for your business.',
+  inventory_valuation_method: 'fifo'
+}
+
+const COMPANY_SETTINGS_COLUMNS = 'company_name, address, phone, email, website, tax_number, invoice_footer, inventory_valuation_method'
+
+// Read the settings with any client, so server-rendered documents can share it
+export async function fetchCompanySettings(supabase: SupabaseClient): Promise<CompanySettings> {
+  const { data, error } = await supabase
+    .from('company_settings')
+    .select(COMPANY_SETTINGS_COLUMNS)
+    .eq('id', 'default')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching company settings:', error)
+    return DEFAULT_COMPANY_SETTINGS
+  }
+
+  return (data as CompanySettings | null) || DEFAULT_COMPANY_SETTINGS
+}
+
+export async function getCompanySettings(): Promise<CompanySettings> {
+  return apiCache.get('company-settings', () => fetchCompanySettings(createClient()))
+}
+
+export async function updateCompanySettings(updates: UpdateCompanySettingsData): Promise<CompanySettings> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('company_settings')
+    .upsert({ id: 'default', ...updates })
+    .select(COMPANY_SETTINGS_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('Error updating company settings:', error)
+    throw new Error('Failed to update company settings')
+  }
+
+  apiCache.invalidate('company-settings')
+  return data as CompanySettings
+}
@@ -0,0 +1,253 @@
+/**
+ * Currencies Module
+ *
+ * The books are kept in taka (BASE_CURRENCY). Purchases, sales and their payments keep
+ * their amounts in the currency they were made in, with the exchange rate (taka per unit)
+ * on that document, and every journal posted for them is converted to taka.
+ * exchange_rates holds one rate per currency per day, entered by hand or imported from
+ * CSV; getExchangeRate suggests the rate for a new document from the latest one on or
+ * before its date. A purchase paid at a different rate from the one it was bought at
+ * posts the difference as a realised exchange gain or loss (calculateExchangeDifference).
+ */
+
+import { createClient } from './client'
+
+export const BASE_CURRENCY = 'BDT'
+
+export type ExchangeRateSource = 'manual' | 'import'
+
+export interface ExchangeRateInput {
+  // ISO 4217 code, e.g. USD
+  currency: string
+  // yyyy-MM-dd
+  rate_date: string
+  // Taka per one unit of the currency
+  rate: number
+}
+
+export interface ExchangeRate extends ExchangeRateInput {
+  id: string
+  source: ExchangeRateSource
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Result of reading an exchange-rate CSV file; errors name the line they were found on
+export interface ExchangeRateCsvResult {
+  rates: ExchangeRateInput[]
+  errors: string[]
+}
+
+const CURRENCY_CODE = /^[A-Z]{3}$/
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+export function isBaseCurrency(currency: string | null | undefined): boolean {
+  return !currency || currency === BASE_CURRENCY
+}
+
+// Taka value of an amount in another currency, to the paisa
+export function toBaseAmount(amount: number, exchangeRate: number | null | undefined): number {
+  return roundMoney(amount * (exchangeRate || 1))
+}
+
+// Realised gain (positive) or loss (negative) in taka when an amount is settled at a
+// different rate from the one it was booked at. A payable costs less taka when the rate
+// falls; a receivable brings in more taka when the rate rises.
+export function calculateExchangeDifference(
+  amount: number,
+  bookedRate: number,
+  settledRate: number,
+  side: 'payable' | 'receivable'
+): number {
+  const difference = toBaseAmount(amount, bookedRate) - toBaseAmount(amount, settledRate)
+  return roundMoney(side === 'payable' ? difference : -difference)
+}
+
+// Amount with its currency symbol, e.g. "৳1,200.00" or "US$1,200.00"
+export function formatMoney(amount: number, currency: string = BASE_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2
+    }).format(amount)
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`
+  }
+}
+
+// Symbol shown before amounts typed in a currency, e.g. "৳" or "$"
+export function getCurrencySymbol(currency: string = BASE_CURRENCY): string {
+  try {
+    const parts = new Intl.NumberFormat('en-BD', {
+      style: 'currency',
+      currency,
+      currencyDisplay: 'narrowSymbol'
+    }).formatToParts(0)
+    return parts.find(part => part.type === 'currency')?.value || currency
+  } catch {
+    return currency
+  }
+}
+
+// Reads "currency,date,rate" lines, e.g. "USD,2026-10-01,121.50". A header line and blank
+// lines are skipped; dates are yyyy-MM-dd and rates are taka per unit.
+export function parseExchangeRateCsv(text: string): ExchangeRateCsvResult {
+  const result: ExchangeRateCsvResult = { rates: [], errors: [] }
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim()
+    if (!trimmed) return
+
+    const [currencyField = '', dateField = '', rateField = ''] = trimmed.split(',').map(field => field.trim().replace(/^"|"$/g, ''))
+    if (index === 0 && currencyField.toLowerCase() === 'currency') return
+
+    const currency = currencyField.toUpperCase()
+    const rate = Number(rateField)
+    const lineNumber = index + 1
+
+    if (!CURRENCY_CODE.test(currency) || currency === BASE_CURRENCY) {
+      result.errors.push(`Line ${lineNumber}: "${currencyField}" is not a foreign currency code`)
+    } else if (!ISO_DATE.test(dateField) || isNaN(Date.parse(dateField))) {
+      result.errors.push(`Line ${lineNumber}: "${dateField}" is not a yyyy-MM-dd date`)
+    } else if (!rateField || isNaN(rate) || rate <= 0) {
+      result.errors.push(`Line ${lineNumber}: "${rateField}" is not a rate above zero`)
+    } else {
+      result.rates.push({ currency, rate_date: dateField, rate })
+    }
+  })
+
+  return result
+}
+
+// Exchange rates, newest first, optionally for one currency
+export async function getExchangeRates(currency?: string): Promise<ExchangeRate[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('exchange_rates')
+    .select('*')
+    .order('rate_date', { ascending: false })
+    .order('currency')
+
+  if (currency) {
+    query = query.eq('currency', currency)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching exchange rates:', error)
+    throw new Error('Failed to load the exchange rates')
+  }
+
+  return ((data || []) as ExchangeRate[]).map(rate => ({ ...rate, rate: Number(rate.rate) }))
+}
+
+// Currencies that documents can be made in: taka and every currency with a rate
+export async function getCurrencies(): Promise<string[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('currency')
+
+  if (error) {
+    console.error('Error fetching currencies:', error)
+    throw new Error('Failed to load the currencies')
+  }
+
+  const foreign = Array.from(new Set(((data || []) as { currency: string }[]).map(row => row.currency))).sort()
+  return [BASE_CURRENCY, ...foreign]
+}
+
+// Latest rate for a currency on or before a date (yyyy-MM-dd); 1 for taka, null if none
+export async function getExchangeRate(currency: string, date: string): Promise<number | null> {
+  if (isBaseCurrency(currency)) return 1
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_exchange_rate', { p_currency: currency, p_date: date })
+
+  if (error) {
+    console.error('Error fetching exchange rate:', error)
+    throw new Error(`Failed to load the ${currency} exchange rate`)
+  }
+
+  return data === null ? null : Number(data)
+}
+
+// Adds a rate by hand, or corrects one when an id is given
+export async function saveExchangeRate(rate: ExchangeRateInput, rateId?: string, createdBy?: string): Promise<ExchangeRate> {
+  const supabase = createClient()
+
+  const payload = { ...rate, currency: rate.currency.trim().toUpperCase() }
+  const { data, error } = rateId
+    ? await supabase
+        .from('exchange_rates')
+        .update({ ...payload, updated_at: new Date().toISOString() })
+        .eq('id', rateId)
+        .select()
+        .single()
+    : await supabase
+        .from('exchange_rates')
+        .insert({ ...payload, source: 'manual', created_by: createdBy || null })
+        .select()
+        .single()
+
+  if (error) {
+    console.error('Error saving exchange rate:', error)
+    throw new Error(error.code === '23505'
+      ? `There is already a ${payload.currency} rate for ${payload.rate_date}`
+      : 'Failed to save the exchange rate')
+  }
+
+  return { ...(data as ExchangeRate), rate: Number((data as ExchangeRate).rate) }
+}
+
+// Imports rates read from CSV; a rate for a currency and date that already exists is replaced
+export async function importExchangeRates(rates: ExchangeRateInput[], createdBy?: string): Promise<number> {
+  if (rates.length === 0) return 0
+
+  const supabase = createClient()
+
+  // The last line for a currency and date wins, as it would if imported one at a time
+  const unique = new Map(rates.map(rate => [`${rate.currency}-${rate.rate_date}`, rate]))
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .upsert(
+      Array.from(unique.values()).map(rate => ({
+        ...rate,
+        source: 'import',
+        created_by: createdBy || null,
+        updated_at: new Date().toISOString()
+      })),
+      { onConflict: 'currency,rate_date' }
+    )
+    .select('id')
+
+  if (error) {
+    console.error('Error importing exchange rates:', error)
+    throw new Error('Failed to import the exchange rates')
+  }
+
+  return (data || []).length
+}
+
+export async function deleteExchangeRate(rateId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('exchange_rates')
+    .delete()
+    .eq('id', rateId)
+
+  if (error) {
+    console.error('Error deleting exchange rate:', error)
+    throw new Error('Failed to delete the exchange rate')
+  }
+}
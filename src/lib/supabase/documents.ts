@@ -0,0 +1,330 @@
+/**
+ * Printable Documents Module
+ *
+ * Server-side loaders for the documents we hand to customers: the sale invoice
+ * and the customer statement. Both are rendered on the server under a /print
+ * route and carry the company details from company_settings.
+ */
+
+import { createClient } from './server'
+import { fetchCompanySettings, type CompanySettings } from './company-settings'
+import { BASE_CURRENCY, toBaseAmount } from './currencies'
+import { fetchCustomerStatement, type CustomerStatement } from './receivables'
+import { formatVariationDisplayName } from './transforms'
+import { toUnitPrice, toUnitQuantity } from './units-of-measure'
+import { calculateAging, type AgingBuckets } from '@/lib/utils/aging'
+
+// Balances below half a paisa are treated as settled
+const SETTLED_THRESHOLD = 0.005
+
+export interface DocumentCustomer {
+  id: string
+  name: string
+  company: string | null
+  address: string | null
+  phone: string | null
+  email: string | null
+}
+
+export interface InvoiceLine {
+  id: string
+  product_name: string
+  variation_name: string | null
+  packaging_name: string | null
+  // Quantities and price are in the unit the line was sold in
+  unit_name: string | null
+  quantity: number
+  returned_quantity: number
+  price: number
+  discount: number
+  tax: number
+  total: number
+}
+
+export interface InvoicePayment {
+  id: string
+  payment_date: string
+  payment_method: string
+  amount: number
+  notes: string | null
+}
+
+export interface InvoiceDocument {
+  company: CompanySettings
+  sale: {
+    id: string
+    sale_date: string
+    status: string | null
+    customer_name: string
+    salesperson: string | null
+    warehouse_name: string | null
+    subtotal: number
+    total_discount: number
+    tax_rate: number
+    tax_amount: number
+    total_amount: number
+  }
+  customer: DocumentCustomer | null
+  lines: InvoiceLine[]
+  payments: InvoicePayment[]
+  amount_paid: number
+  amount_returned: number
+  balance_due: number
+}
+
+export interface StatementDocument {
+  company: CompanySettings
+  customer: DocumentCustomer
+  statement: CustomerStatement
+  aging: AgingBuckets
+}
+
+interface AttributeLabelRow {
+  attribute_values?: { label: string | null } | null
+  packaging_attribute_values?: { label: string | null } | null
+}
+
+interface InvoiceItemRow {
+  id: string
+  product_name: string
+  variation_id: string | null
+  packaging_name: string | null
+  quantity: number
+  returned_quantity: number | null
+  price: number
+  discount: number | null
+  tax: number | null
+  total: number
+  unit_name: string | null
+  unit_factor: number | null
+  products?: {
+    base_unit?: string | null
+    product_variations?: {
+      id: string
+      sku: string
+      product_variation_attributes?: AttributeLabelRow[]
+    }[]
+  } | null
+  packaging?: { title: string } | null
+  packaging_variations?: {
+    sku: string
+    packaging_variation_attributes?: AttributeLabelRow[]
+  } | null
+}
+
+interface InvoiceSaleRow {
+  id: string
+  sale_date: string
+  status: string | null
+  customer_id: string | null
+  customer_name: string
+  salesperson: string | null
+  warehouse_name: string | null
+  subtotal: number | null
+  total_discount: number | null
+  tax_rate: number | null
+  tax_amount: number | null
+  total_amount: number
+  sale_items: InvoiceItemRow[]
+}
+
+async function fetchCustomer(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  customerId: string
+): Promise<DocumentCustomer | null> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('id, name, company, address, phone, email')
+    .eq('id', customerId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching customer for document:', error)
+    return null
+  }
+
+  return data as DocumentCustomer | null
+}
+
+function toInvoiceLine(item: InvoiceItemRow): InvoiceLine {
+  const variation = item.variation_id
+    ? item.products?.product_variations?.find(v => v.id === item.variation_id)
+    : undefined
+
+  const packagingVariation = item.packaging_variations
+  const packagingTitle = item.packaging?.title || item.packaging_name
+  const packagingAttributes = packagingVariation
+    ? formatVariationDisplayName(
+        (packagingVariation.packaging_variation_attributes || []).map(attr => attr.packaging_attribute_values?.label || ''),
+        packagingVariation.sku
+      )
+    : null
+
+  return {
+    id: item.id,
+    product_name: item.product_name,
+    variation_name: variation
+      ? formatVariationDisplayName(
+          (variation.product_variation_attributes || []).map(attr => attr.attribute_values?.label || ''),
+          variation.sku
+        )
+      : null,
+    packaging_name: packagingTitle
+      ? `${packagingTitle}${packagingAttributes ? ` (${packagingAttributes})` : ''}`
+      : null,
+    unit_name: item.unit_name || item.products?.base_unit || null,
+    quantity: toUnitQuantity(Number(item.quantity), item.unit_factor),
+    returned_quantity: toUnitQuantity(Number(item.returned_quantity || 0), item.unit_factor),
+    price: toUnitPrice(Number(item.price), item.unit_factor),
+    discount: Number(item.discount || 0),
+    tax: Number(item.tax || 0),
+    total: Number(item.total)
+  }
+}
+
+// Everything printed on a sale invoice, or null if the sale does not exist
+export async function getInvoiceDocument(saleId: string): Promise<InvoiceDocument | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('sales')
+    .select(`
+      id, sale_date, status, customer_id, customer_name, salesperson, warehouse_name,
+      subtotal, total_discount, tax_rate, tax_amount, total_amount,
+      sale_items (
+        id, product_name, variation_id, packaging_name, quantity, returned_quantity,
+        price, discount, tax, total, unit_name, unit_factor,
+        products (
+          base_unit,
+          product_variations (
+            id,
+            sku,
+            product_variation_attributes (
+              attribute_values (label)
+            )
+          )
+        ),
+        packaging (title),
+        packaging_variations (
+          sku,
+          packaging_variation_attributes (
+            packaging_attribute_values (label)
+          )
+        )
+      )
+    `)
+    .eq('id', saleId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching sale for invoice:', error)
+    throw new Error('Failed to load invoice')
+  }
+  if (!data) return null
+
+  const sale = data as unknown as InvoiceSaleRow
+
+  const [paymentsResult, returnsResult, customer, company] = await Promise.all([
+    supabase
+      .from('sale_payments')
+      .select('id, payment_date, payment_method, amount, notes')
+      .eq('sale_id', saleId)
+      .eq('status', 'active')
+      .order('payment_date', { ascending: true }),
+    supabase
+      .from('returns')
+      .select('total_amount')
+      .eq('sale_id', saleId)
+      .neq('status', 'rejected'),
+    sale.customer_id ? fetchCustomer(supabase, sale.customer_id) : Promise.resolve(null),
+    fetchCompanySettings(supabase)
+  ])
+
+  if (paymentsResult.error || returnsResult.error) {
+    console.error('Error fetching invoice payments:', paymentsResult.error || returnsResult.error)
+    throw new Error('Failed to load invoice')
+  }
+
+  const payments = ((paymentsResult.data || []) as InvoicePayment[]).map(payment => ({
+    ...payment,
+    amount: Number(payment.amount)
+  }))
+  const amountPaid = payments.reduce((sum, payment) => sum + payment.amount, 0)
+  const amountReturned = ((returnsResult.data || []) as { total_amount: number }[])
+    .reduce((sum, ret) => sum + Number(ret.total_amount), 0)
+  const balanceDue = Number(sale.total_amount) - amountPaid - amountReturned
+
+  return {
+    company,
+    sale: {
+      id: sale.id,
+      sale_date: sale.sale_date,
+      status: sale.status,
+      customer_name: sale.customer_name,
+      salesperson: sale.salesperson,
+      warehouse_name: sale.warehouse_name,
+      subtotal: Number(sale.subtotal || 0),
+      total_discount: Number(sale.total_discount || 0),
+      tax_rate: Number(sale.tax_rate || 0),
+      tax_amount: Number(sale.tax_amount || 0),
+      total_amount: Number(sale.total_amount)
+    },
+    customer,
+    lines: (sale.sale_items || []).map(toInvoiceLine),
+    payments,
+    amount_paid: amountPaid,
+    amount_returned: amountReturned,
+    balance_due: Math.abs(balanceDue) < SETTLED_THRESHOLD ? 0 : balanceDue
+  }
+}
+
+// Statement for the period plus today's aging of what is still open, or null for an unknown customer
+export async function getStatementDocument(
+  customerId: string,
+  from?: string,
+  to?: string
+): Promise<StatementDocument | null> {
+  const supabase = await createClient()
+
+  const customer = await fetchCustomer(supabase, customerId)
+  if (!customer) return null
+
+  const [statement, company, openResult] = await Promise.all([
+    fetchCustomerStatement(supabase, customerId, from, to),
+    fetchCompanySettings(supabase),
+    supabase
+      .from('customer_invoice_balances')
+      .select('sale_date, outstanding_amount, currency, exchange_rate')
+      .eq('customer_id', customerId)
+      .gt('outstanding_amount', SETTLED_THRESHOLD)
+  ])
+
+  if (openResult.error) {
+    console.error('Error fetching open invoices for statement:', openResult.error)
+    throw new Error('Failed to load customer statement')
+  }
+
+  const openInvoices = (openResult.data || []) as {
+    sale_date: string
+    outstanding_amount: number
+    currency: string | null
+    exchange_rate: number | null
+  }[]
+
+  // Aged in the statement's currency; invoices in any other are converted to taka
+  const inStatementCurrency = (invoice: typeof openInvoices[number]) => {
+    return (invoice.currency || BASE_CURRENCY) === statement.currency
+      ? Number(invoice.outstanding_amount)
+      : toBaseAmount(Number(invoice.outstanding_amount), invoice.exchange_rate)
+  }
+
+  return {
+    company,
+    customer,
+    statement,
+    aging: calculateAging(
+      openInvoices.map(invoice => ({ date: invoice.sale_date, amount: inStatementCurrency(invoice) })),
+      new Date()
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { createClient } from './client'
 import type { Database } from './types'
 import { createExpenseJournalEntry } from './accounts-client'
+import { assertPeriodOpen } from './fiscal-periods'
 
 export type ExpenseType = Database['public']['Tables']['expense_types']['Row']
 export type Expense = Database['public']['Tables']['expenses']['Row'] & {
@@ -231,6 +232,9 @@ export async function getExpenses() {
 
 export async function createExpense(expense: ExpenseInsert) {
   const supabase = createClient()
+
+  // Refuse dates inside a locked accounting period
+  await assertPeriodOpen(expense.expense_date, 'Expense')
   
   const { data, error } = await supabase
     .from('expenses')
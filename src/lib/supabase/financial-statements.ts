@@ -0,0 +1,513 @@
+/**
+ * Financial Statements Module
+ *
+ * Profit and loss, balance sheet and indirect-method cash flow statements built
+ * from posted journal_entry_lines through the get_account_activity function.
+ * Each statement can carry a comparison column (previous period or the same
+ * period last year), and every account line can be drilled into to list the
+ * journal entries behind it.
+ */
+
+import { differenceInCalendarDays, format, parseISO, subDays, subYears } from 'date-fns'
+import { createClient } from './client'
+import { apiCache } from './cache'
+
+export type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense'
+
+export type ComparisonMode = 'none' | 'previous_period' | 'previous_year'
+
+export type CashFlowSection = 'cash' | 'operating' | 'investing' | 'financing' | 'income'
+
+// Inclusive date range, YYYY-MM-DD
+export interface ReportPeriod {
+  from: string
+  to: string
+}
+
+// Debits and credits of one account over a date range (row of get_account_activity)
+export interface AccountActivity {
+  account_id: string
+  account_number: string
+  account_name: string
+  account_code: string | null
+  account_type: AccountType
+  is_payment_method: boolean
+  total_debits: number
+  total_credits: number
+}
+
+export interface StatementAmount {
+  amount: number
+  compare_amount: number | null
+}
+
+// One line of a statement; account_id is null for computed lines such as net income
+export interface StatementLine extends StatementAmount {
+  account_id: string | null
+  account_number: string | null
+  label: string
+}
+
+export interface StatementSection {
+  title: string
+  lines: StatementLine[]
+  total: number
+  compare_total: number | null
+}
+
+export interface ProfitAndLossStatement {
+  period: ReportPeriod
+  comparison: ReportPeriod | null
+  revenue: StatementSection
+  cost_of_sales: StatementSection
+  gross_profit: StatementAmount
+  operating_expenses: StatementSection
+  net_income: StatementAmount
+}
+
+export interface BalanceSheet {
+  as_of: string
+  compare_as_of: string | null
+  assets: StatementSection
+  liabilities: StatementSection
+  equity: StatementSection
+  total_liabilities_and_equity: StatementAmount
+  is_balanced: boolean
+}
+
+export interface CashFlowStatement {
+  period: ReportPeriod
+  comparison: ReportPeriod | null
+  operating: StatementSection
+  investing: StatementSection
+  financing: StatementSection
+  net_change: StatementAmount
+  opening_cash: StatementAmount
+  closing_cash: StatementAmount
+}
+
+// A journal line behind a statement figure
+export interface AccountEntryLine {
+  id: string
+  journal_entry_id: string
+  entry_number: string
+  entry_date: string
+  entry_description: string
+  reference_type: string | null
+  reference_id: string | null
+  description: string | null
+  debit: number
+  credit: number
+}
+
+// Raw row of get_account_activity (numerics may arrive as strings)
+interface AccountActivityRow {
+  account_id: string
+  account_number: string
+  account_name: string
+  account_code: string | null
+  account_type: AccountType
+  is_payment_method: boolean
+  total_debits: number | string
+  total_credits: number | string
+}
+
+interface AccountEntryRow {
+  id: string
+  description: string | null
+  debit_amount: number | string | null
+  credit_amount: number | string | null
+  journal_entries: {
+    id: string
+    entry_number: string
+    entry_date: string
+    description: string
+    reference_type: string | null
+    reference_id: string | null
+  }
+}
+
+// Accounts numbered from here up are non-current (default chart: 1500 Equipment)
+const NON_CURRENT_ASSET_FROM = 1500
+// Liabilities numbered from here up are long-term borrowing, i.e. financing
+const NON_CURRENT_LIABILITY_FROM = 2500
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd')
+
+const accountNumberValue = (account: AccountActivity) => Number.parseInt(account.account_number, 10) || 0
+
+// Balance in the account's normal direction: debit for assets and expenses, credit otherwise
+export function getNaturalBalance(account: AccountActivity): number {
+  return account.account_type === 'asset' || account.account_type === 'expense'
+    ? account.total_debits - account.total_credits
+    : account.total_credits - account.total_debits
+}
+
+// Cash and bank accounts are the payment method accounts (plus the default Cash account)
+export function isCashAccount(account: AccountActivity): boolean {
+  return account.account_type === 'asset' && (account.is_payment_method || account.account_code === 'CASH')
+}
+
+// Where an account's movement shows on the cash flow statement.
+// Follows the chart of accounts numbering: current assets and liabilities are
+// working capital (operating), fixed assets are investing, and long-term
+// liabilities and equity are financing.
+export function getCashFlowSection(account: AccountActivity): CashFlowSection {
+  switch (account.account_type) {
+    case 'revenue':
+    case 'expense':
+      return 'income'
+    case 'asset':
+      if (isCashAccount(account)) return 'cash'
+      return accountNumberValue(account) >= NON_CURRENT_ASSET_FROM ? 'investing' : 'operating'
+    case 'liability':
+      return accountNumberValue(account) >= NON_CURRENT_LIABILITY_FROM ? 'financing' : 'operating'
+    default:
+      return 'financing'
+  }
+}
+
+// Cost of sales accounts are the 5xxx expense accounts; 6xxx are operating expenses
+function isCostOfSales(account: AccountActivity): boolean {
+  return account.account_type === 'expense' && account.account_number.startsWith('5')
+}
+
+// The period to compare against, or null when no comparison is wanted
+export function getComparisonPeriod(period: ReportPeriod, mode: ComparisonMode): ReportPeriod | null {
+  const from = parseISO(period.from)
+  const to = parseISO(period.to)
+
+  if (mode === 'previous_year') {
+    return { from: toDateString(subYears(from, 1)), to: toDateString(subYears(to, 1)) }
+  }
+
+  if (mode === 'previous_period') {
+    const days = differenceInCalendarDays(to, from) + 1
+    const previousTo = subDays(from, 1)
+    return { from: toDateString(subDays(previousTo, days - 1)), to: toDateString(previousTo) }
+  }
+
+  return null
+}
+
+// Debits and credits per active account; a null `from` gives balances as of `to`.
+// Income for a period leaves out year-end closing entries (includeClosing false),
+// otherwise a closed year would show no revenue or expenses.
+export async function getAccountActivity(
+  from: string | null,
+  to: string,
+  includeClosing: boolean = true
+): Promise<AccountActivity[]> {
+  return apiCache.get(`accounts-activity-${from || 'start'}-${to}${includeClosing ? '' : '-unclosed'}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase.rpc('get_account_activity', {
+      p_from: from,
+      p_to: to,
+      p_include_closing: includeClosing
+    })
+
+    if (error) {
+      console.error('Error fetching account activity:', error)
+      throw new Error('Failed to fetch account activity')
+    }
+
+    return ((data || []) as AccountActivityRow[]).map(row => ({
+      ...row,
+      total_debits: Number(row.total_debits),
+      total_credits: Number(row.total_credits)
+    }))
+  })
+}
+
+// Build a section from the accounts that pass `include`, matching comparison rows by account.
+// Accounts with nothing in either column are left out.
+function buildSection(
+  title: string,
+  rows: AccountActivity[],
+  compareRows: AccountActivity[] | null,
+  include: (account: AccountActivity) => boolean,
+  amountOf: (account: AccountActivity) => number
+): StatementSection {
+  const compareById = new Map((compareRows || []).filter(include).map(row => [row.account_id, row]))
+  const seen = new Set<string>()
+  const lines: StatementLine[] = []
+
+  for (const row of rows.filter(include)) {
+    seen.add(row.account_id)
+    const compare = compareById.get(row.account_id)
+    lines.push({
+      account_id: row.account_id,
+      account_number: row.account_number,
+      label: row.account_name,
+      amount: amountOf(row),
+      compare_amount: compareRows ? (compare ? amountOf(compare) : 0) : null
+    })
+  }
+
+  // Accounts that only had activity in the comparison period
+  for (const compare of compareById.values()) {
+    if (seen.has(compare.account_id)) continue
+    lines.push({
+      account_id: compare.account_id,
+      account_number: compare.account_number,
+      label: compare.account_name,
+      amount: 0,
+      compare_amount: amountOf(compare)
+    })
+  }
+
+  const visible = lines
+    .filter(line => Math.abs(line.amount) >= 0.005 || Math.abs(line.compare_amount || 0) >= 0.005)
+    .sort((a, b) => (a.account_number || '').localeCompare(b.account_number || ''))
+
+  return withTotals(title, visible, compareRows !== null)
+}
+
+function withTotals(title: string, lines: StatementLine[], hasComparison: boolean): StatementSection {
+  return {
+    title,
+    lines,
+    total: lines.reduce((sum, line) => sum + line.amount, 0),
+    compare_total: hasComparison ? lines.reduce((sum, line) => sum + (line.compare_amount || 0), 0) : null
+  }
+}
+
+function combine(
+  a: StatementAmount,
+  b: StatementAmount,
+  op: (x: number, y: number) => number
+): StatementAmount {
+  return {
+    amount: op(a.amount, b.amount),
+    compare_amount: a.compare_amount === null || b.compare_amount === null ? null : op(a.compare_amount, b.compare_amount)
+  }
+}
+
+const sectionAmount = (section: StatementSection): StatementAmount => ({
+  amount: section.total,
+  compare_amount: section.compare_total
+})
+
+// Revenue less expenses (credits less debits over all income statement accounts)
+function netIncomeOf(rows: AccountActivity[]): number {
+  return rows
+    .filter(row => getCashFlowSection(row) === 'income')
+    .reduce((sum, row) => sum + row.total_credits - row.total_debits, 0)
+}
+
+// Profit and loss for a period
+export async function getProfitAndLoss(
+  period: ReportPeriod,
+  mode: ComparisonMode = 'none'
+): Promise<ProfitAndLossStatement> {
+  const comparison = getComparisonPeriod(period, mode)
+  const [rows, compareRows] = await Promise.all([
+    getAccountActivity(period.from, period.to, false),
+    comparison ? getAccountActivity(comparison.from, comparison.to, false) : Promise.resolve(null)
+  ])
+
+  const revenue = buildSection('Revenue', rows, compareRows, row => row.account_type === 'revenue', getNaturalBalance)
+  const costOfSales = buildSection('Cost of Sales', rows, compareRows, isCostOfSales, getNaturalBalance)
+  const operatingExpenses = buildSection(
+    'Operating Expenses',
+    rows,
+    compareRows,
+    row => row.account_type === 'expense' && !isCostOfSales(row),
+    getNaturalBalance
+  )
+
+  const grossProfit = combine(sectionAmount(revenue), sectionAmount(costOfSales), (x, y) => x - y)
+
+  return {
+    period,
+    comparison,
+    revenue,
+    cost_of_sales: costOfSales,
+    gross_profit: grossProfit,
+    operating_expenses: operatingExpenses,
+    net_income: combine(grossProfit, sectionAmount(operatingExpenses), (x, y) => x - y)
+  }
+}
+
+// Balance sheet as of a date. Income not yet closed to retained earnings is shown
+// in equity as current earnings so the statement balances.
+export async function getBalanceSheet(asOf: string, compareAsOf: string | null = null): Promise<BalanceSheet> {
+  const [rows, compareRows] = await Promise.all([
+    getAccountActivity(null, asOf),
+    compareAsOf ? getAccountActivity(null, compareAsOf) : Promise.resolve(null)
+  ])
+
+  const assets = buildSection('Assets', rows, compareRows, row => row.account_type === 'asset', getNaturalBalance)
+  const liabilities = buildSection('Liabilities', rows, compareRows, row => row.account_type === 'liability', getNaturalBalance)
+  const equityAccounts = buildSection('Equity', rows, compareRows, row => row.account_type === 'equity', getNaturalBalance)
+
+  const equity = withTotals('Equity', [
+    ...equityAccounts.lines,
+    {
+      account_id: null,
+      account_number: null,
+      label: 'Current earnings',
+      amount: netIncomeOf(rows),
+      compare_amount: compareRows ? netIncomeOf(compareRows) : null
+    }
+  ], compareRows !== null)
+
+  const totalLiabilitiesAndEquity = combine(sectionAmount(liabilities), sectionAmount(equity), (x, y) => x + y)
+
+  return {
+    as_of: asOf,
+    compare_as_of: compareAsOf,
+    assets,
+    liabilities,
+    equity,
+    total_liabilities_and_equity: totalLiabilitiesAndEquity,
+    is_balanced: Math.abs(assets.total - totalLiabilitiesAndEquity.amount) < 0.01
+  }
+}
+
+// Balance sheet as of the end of a period, compared with the end of the comparison period
+export async function getBalanceSheetForPeriod(period: ReportPeriod, mode: ComparisonMode = 'none'): Promise<BalanceSheet> {
+  return getBalanceSheet(period.to, getComparisonPeriod(period, mode)?.to ?? null)
+}
+
+// Cash flow statement for a period using the indirect method: net income adjusted by
+// the change in every non-cash balance sheet account. A rise in an asset uses cash and
+// a rise in a liability or equity provides it, so each account contributes its
+// credits less debits for the period.
+// Closing entries are left out: they move no cash and would count net income twice.
+export async function getCashFlowStatement(
+  period: ReportPeriod,
+  mode: ComparisonMode = 'none'
+): Promise<CashFlowStatement> {
+  const comparison = getComparisonPeriod(period, mode)
+  const dayBefore = (date: string) => toDateString(subDays(parseISO(date), 1))
+
+  const [rows, compareRows, openingRows, compareOpeningRows] = await Promise.all([
+    getAccountActivity(period.from, period.to, false),
+    comparison ? getAccountActivity(comparison.from, comparison.to, false) : Promise.resolve(null),
+    getAccountActivity(null, dayBefore(period.from)),
+    comparison ? getAccountActivity(null, dayBefore(comparison.from)) : Promise.resolve(null)
+  ])
+
+  const cashEffect = (row: AccountActivity) => row.total_credits - row.total_debits
+
+  const workingCapital = buildSection(
+    'Operating Activities',
+    rows,
+    compareRows,
+    row => getCashFlowSection(row) === 'operating',
+    cashEffect
+  )
+  const operating = withTotals('Operating Activities', [
+    {
+      account_id: null,
+      account_number: null,
+      label: 'Net income',
+      amount: netIncomeOf(rows),
+      compare_amount: compareRows ? netIncomeOf(compareRows) : null
+    },
+    ...workingCapital.lines.map(line => ({ ...line, label: `Change in ${line.label}` }))
+  ], compareRows !== null)
+
+  const investing = buildSection('Investing Activities', rows, compareRows, row => getCashFlowSection(row) === 'investing', cashEffect)
+  const financing = buildSection('Financing Activities', rows, compareRows, row => getCashFlowSection(row) === 'financing', cashEffect)
+
+  const netChange = combine(
+    combine(sectionAmount(operating), sectionAmount(investing), (x, y) => x + y),
+    sectionAmount(financing),
+    (x, y) => x + y
+  )
+
+  const cashBalance = (balances: AccountActivity[]) => balances
+    .filter(isCashAccount)
+    .reduce((sum, row) => sum + getNaturalBalance(row), 0)
+
+  const openingCash: StatementAmount = {
+    amount: cashBalance(openingRows),
+    compare_amount: compareOpeningRows ? cashBalance(compareOpeningRows) : null
+  }
+
+  return {
+    period,
+    comparison,
+    operating,
+    investing,
+    financing,
+    net_change: netChange,
+    opening_cash: openingCash,
+    closing_cash: combine(openingCash, netChange, (x, y) => x + y)
+  }
+}
+
+// Journal lines posted to an account in a date range, oldest first (null `from` = all history).
+// includeClosing matches getAccountActivity, so the lines add up to the amount drilled into.
+export async function getAccountEntries(
+  accountId: string,
+  from: string | null,
+  to: string,
+  includeClosing: boolean = true
+): Promise<AccountEntryLine[]> {
+  return apiCache.get(`accounts-entries-${accountId}-${from || 'start'}-${to}${includeClosing ? '' : '-unclosed'}`, async () => {
+    const supabase = createClient()
+
+    let query = supabase
+      .from('journal_entry_lines')
+      .select(`
+        id,
+        description,
+        debit_amount,
+        credit_amount,
+        journal_entries!inner (
+          id,
+          entry_number,
+          entry_date,
+          description,
+          reference_type,
+          reference_id
+        )
+      `)
+      .eq('account_id', accountId)
+      .eq('journal_entries.status', 'posted')
+      .lte('journal_entries.entry_date', to)
+
+    if (from) {
+      query = query.gte('journal_entries.entry_date', from)
+    }
+
+    if (!includeClosing) {
+      query = query.or('reference_type.is.null,reference_type.neq.period_close', { referencedTable: 'journal_entries' })
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching account entries:', error)
+      throw new Error('Failed to fetch account entries')
+    }
+
+    return ((data || []) as unknown as AccountEntryRow[])
+      .map(row => ({
+        id: row.id,
+        journal_entry_id: row.journal_entries.id,
+        entry_number: row.journal_entries.entry_number,
+        entry_date: row.journal_entries.entry_date,
+        entry_description: row.journal_entries.description,
+        reference_type: row.journal_entries.reference_type,
+        reference_id: row.journal_entries.reference_id,
+        description: row.description,
+        debit: Number(row.debit_amount || 0),
+        credit: Number(row.credit_amount || 0)
+      }))
+      .sort((a, b) => a.entry_date.localeCompare(b.entry_date) || a.entry_number.localeCompare(b.entry_number))
+  })
+}
+
+// Default reporting period: the current month to date
+export function getCurrentMonthPeriod(today: Date = new Date()): ReportPeriod {
+  return {
+    from: toDateString(new Date(today.getFullYear(), today.getMonth(), 1)),
+    to: toDateString(today)
+  }
+}
+
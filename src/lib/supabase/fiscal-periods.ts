@@ -0,0 +1,245 @@
+/**
+ * Fiscal Periods Module
+ *
+ * Months, quarters and years move from open to closed to locked. Closing a year
+ * posts the closing entry that moves revenue and expense into retained earnings.
+ * Locked periods are enforced by database triggers on journal entries, sales,
+ * purchases and expenses; assertPeriodOpen runs the same check up front so the
+ * create functions can refuse a locked date before writing anything.
+ */
+
+import { format } from 'date-fns'
+import { createClient } from './client'
+import { apiCache } from './cache'
+
+export type FiscalPeriodType = 'month' | 'quarter' | 'year'
+
+export type FiscalPeriodStatus = 'open' | 'closed' | 'locked'
+
+export interface FiscalPeriod {
+  id: string
+  name: string
+  period_type: FiscalPeriodType
+  start_date: string
+  end_date: string
+  status: FiscalPeriodStatus
+  closing_entry_id: string | null
+  closed_at: string | null
+  closed_by: string | null
+  locked_at: string | null
+  locked_by: string | null
+  notes: string | null
+  created_by: string
+  created_at: string
+}
+
+export interface CreateFiscalPeriodData {
+  name: string
+  period_type: FiscalPeriodType
+  start_date: string
+  end_date: string
+  notes?: string
+  created_by: string
+}
+
+// The locked period a date falls in, as reported by get_period_lock
+export interface PeriodLock {
+  locked: boolean
+  period_id?: string
+  period_name?: string
+  can_override: boolean
+}
+
+export interface ClosePeriodResult {
+  period_id: string
+  closing_entry_id: string | null
+  net_income: number
+}
+
+// Permission that lets a user post into locked periods
+export const PERIOD_LOCK_OVERRIDE_PERMISSION = { module: 'accounting', action: 'override_period_lock' } as const
+
+// Journal entries posted by closing a year carry this reference type
+export const PERIOD_CLOSE_REFERENCE_TYPE = 'period_close'
+
+const FISCAL_PERIODS_CACHE_KEY = 'fiscal-periods'
+
+function invalidateFiscalPeriodCaches() {
+  apiCache.invalidateByPattern('fiscal-period')
+  // Closing and reopening a year add or remove journal entries
+  apiCache.invalidateByPattern('accounts-')
+}
+
+// Error text from a failed RPC, which carries the database exception message
+function getErrorMessage(error: { message?: string } | null, fallback: string) {
+  return error?.message || fallback
+}
+
+export async function getFiscalPeriods(): Promise<FiscalPeriod[]> {
+  return apiCache.get(FISCAL_PERIODS_CACHE_KEY, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('fiscal_periods')
+      .select('*')
+      .order('start_date', { ascending: false })
+      .order('period_type', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching fiscal periods:', error)
+      throw new Error('Failed to fetch fiscal periods')
+    }
+
+    return (data || []) as FiscalPeriod[]
+  })
+}
+
+export async function createFiscalPeriod(periodData: CreateFiscalPeriodData): Promise<FiscalPeriod> {
+  if (periodData.end_date < periodData.start_date) {
+    throw new Error('The period must end on or after its start date')
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('fiscal_periods')
+    .insert(periodData)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating fiscal period:', error)
+    throw new Error(getErrorMessage(error, 'Failed to create fiscal period'))
+  }
+
+  invalidateFiscalPeriodCaches()
+  return data as FiscalPeriod
+}
+
+export async function deleteFiscalPeriod(periodId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('fiscal_periods')
+    .delete()
+    .eq('id', periodId)
+    .eq('status', 'open')
+
+  if (error) {
+    console.error('Error deleting fiscal period:', error)
+    throw new Error('Failed to delete fiscal period')
+  }
+
+  invalidateFiscalPeriodCaches()
+}
+
+// Close a period; for a year this also posts the closing entry
+export async function closeFiscalPeriod(periodId: string, closedBy: string): Promise<ClosePeriodResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('close_fiscal_period', {
+    p_period_id: periodId,
+    p_closed_by: closedBy
+  })
+
+  if (error) {
+    console.error('Error closing fiscal period:', error)
+    throw new Error(getErrorMessage(error, 'Failed to close fiscal period'))
+  }
+
+  invalidateFiscalPeriodCaches()
+
+  const result = data as ClosePeriodResult
+  return { ...result, net_income: Number(result.net_income) }
+}
+
+// Reopen a closed period, removing its closing entry
+export async function reopenFiscalPeriod(periodId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase.rpc('reopen_fiscal_period', { p_period_id: periodId })
+
+  if (error) {
+    console.error('Error reopening fiscal period:', error)
+    throw new Error(getErrorMessage(error, 'Failed to reopen fiscal period'))
+  }
+
+  invalidateFiscalPeriodCaches()
+}
+
+export async function lockFiscalPeriod(periodId: string, lockedBy: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase.rpc('lock_fiscal_period', {
+    p_period_id: periodId,
+    p_locked_by: lockedBy
+  })
+
+  if (error) {
+    console.error('Error locking fiscal period:', error)
+    throw new Error(getErrorMessage(error, 'Failed to lock fiscal period'))
+  }
+
+  invalidateFiscalPeriodCaches()
+}
+
+// Unlocking needs the override permission and returns the period to closed
+export async function unlockFiscalPeriod(periodId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase.rpc('unlock_fiscal_period', { p_period_id: periodId })
+
+  if (error) {
+    console.error('Error unlocking fiscal period:', error)
+    throw new Error(getErrorMessage(error, 'Failed to unlock fiscal period'))
+  }
+
+  invalidateFiscalPeriodCaches()
+}
+
+// Whether a date falls in a locked period, and whether the signed-in user may override it
+export async function getPeriodLock(date: string): Promise<PeriodLock> {
+  return apiCache.get(`fiscal-period-lock-${date}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase.rpc('get_period_lock', { p_date: date })
+
+    if (error) {
+      console.error('Error checking period lock:', error)
+      throw new Error('Failed to check the accounting period')
+    }
+
+    return data as PeriodLock
+  })
+}
+
+// Refuse a date inside a locked period unless the user holds the override permission.
+// `date` may be a date or a timestamp; only the day is checked.
+export async function assertPeriodOpen(date: string | null | undefined, documentName: string): Promise<void> {
+  const day = date ? date.slice(0, 10) : format(new Date(), 'yyyy-MM-dd')
+  const lock = await getPeriodLock(day)
+
+  if (lock.locked && !lock.can_override) {
+    throw new Error(`${documentName} dated ${day} falls in the locked period ${lock.period_name}`)
+  }
+}
+
+// Suggested name and dates for a new period starting on `startDate`
+export function getDefaultPeriod(periodType: FiscalPeriodType, startDate: Date): Omit<CreateFiscalPeriodData, 'created_by' | 'notes'> {
+  const start = new Date(startDate.getFullYear(), startDate.getMonth(), 1)
+  const months = periodType === 'year' ? 12 : periodType === 'quarter' ? 3 : 1
+  const end = new Date(start.getFullYear(), start.getMonth() + months, 0)
+
+  const name = periodType === 'year'
+    ? `FY ${format(start, 'yyyy')}${start.getMonth() === 0 ? '' : `-${format(end, 'yy')}`}`
+    : periodType === 'quarter'
+      ? `${format(start, 'MMM')}-${format(end, 'MMM yyyy')}`
+      : format(start, 'MMMM yyyy')
+
+  return {
+    name,
+    period_type: periodType,
+    start_date: format(start, 'yyyy-MM-dd'),
+    end_date: format(end, 'yyyy-MM-dd')
+  }
+}
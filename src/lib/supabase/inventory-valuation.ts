@@ -0,0 +1,80 @@
+/**
+ * Inventory Valuation Module
+ *
+ * Goods receipts open cost layers per warehouse, and sales draw their cost out of
+ * those layers by FIFO or moving average (company_settings.inventory_valuation_method).
+ * Every unit in or out is written to inventory_cost_movements with its cost, so the
+ * stock value at any past date is read back with get_inventory_valuation.
+ */
+
+import { createClient } from './client'
+
+export type InventoryValuationMethod = 'fifo' | 'moving_average'
+
+export const INVENTORY_VALUATION_METHOD_LABELS: Record<InventoryValuationMethod, string> = {
+  fifo: 'FIFO (first in, first out)',
+  moving_average: 'Moving average'
+}
+
+// One item in one warehouse, as returned by get_inventory_valuation
+export interface InventoryValuationLine {
+  item_type: 'product' | 'package'
+  item_id: string
+  variation_id: string | null
+  item_name: string
+  sku: string | null
+  warehouse_id: string
+  warehouse_name: string
+  quantity: number
+  total_value: number
+  unit_cost: number
+}
+
+export interface InventoryValuationSummary {
+  lines: InventoryValuationLine[]
+  totalQuantity: number
+  totalValue: number
+  byWarehouse: { warehouse_id: string; warehouse_name: string; quantity: number; value: number }[]
+}
+
+// Quantity and value on hand per item and warehouse as of `asOf` (yyyy-MM-dd)
+export async function getInventoryValuation(asOf: string, warehouseId?: string | null): Promise<InventoryValuationSummary> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_inventory_valuation', {
+    p_as_of: asOf,
+    p_warehouse_id: warehouseId || null
+  })
+
+  if (error) {
+    console.error('Error fetching inventory valuation:', error)
+    throw new Error('Failed to load the inventory valuation')
+  }
+
+  const lines = ((data || []) as InventoryValuationLine[]).map(line => ({
+    ...line,
+    quantity: Number(line.quantity) || 0,
+    total_value: Number(line.total_value) || 0,
+    unit_cost: Number(line.unit_cost) || 0
+  }))
+
+  const warehouses = new Map<string, InventoryValuationSummary['byWarehouse'][number]>()
+  for (const line of lines) {
+    const warehouse = warehouses.get(line.warehouse_id) || {
+      warehouse_id: line.warehouse_id,
+      warehouse_name: line.warehouse_name,
+      quantity: 0,
+      value: 0
+    }
+    warehouse.quantity += line.quantity
+    warehouse.value += line.total_value
+    warehouses.set(line.warehouse_id, warehouse)
+  }
+
+  return {
+    lines,
+    totalQuantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+    totalValue: lines.reduce((sum, line) => sum + line.total_value, 0),
+    byWarehouse: Array.from(warehouses.values())
+  }
+}
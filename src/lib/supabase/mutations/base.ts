@@ -108,4 +108,24 @@ export async function checkPackagingSkuExists(sku: string, excludePackagingId?:
   }
   
   return variationData && variationData.length > 0
-} 
\ No newline at end of file
+} 
+
+/**
+ * Whether a barcode is used by any product, variation, packaging or packaging variation
+ * other than excludeId. Barcodes are unique across all four, so a scan finds one item.
+ */
+export async function checkBarcodeExists(barcode: string, excludeId?: string): Promise<boolean> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('barcode_in_use', {
+    p_barcode: barcode,
+    p_exclude_id: excludeId || null
+  })
+
+  if (error) {
+    console.error('Error checking barcode:', error)
+    throw new Error(`Failed to check barcode: ${error.message}`)
+  }
+
+  return data === true
+}
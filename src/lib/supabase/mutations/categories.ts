@@ -6,6 +6,7 @@ export interface CreateCategoryData {
   slug: string
   description?: string
   parent_id?: string
+  tax_code_id?: string
   status: 'active' | 'inactive'
 }
 
@@ -15,6 +16,7 @@ export interface UpdateCategoryData {
   slug: string
   description?: string
   parent_id?: string
+  tax_code_id?: string
   status: 'active' | 'inactive'
 }
 
@@ -32,6 +34,7 @@ export async function createCategory(categoryData: CreateCategoryData): Promise<
     slug: categoryData.slug,
     description: categoryData.description || null,
     parent_id: categoryData.parent_id || null,
+    tax_code_id: categoryData.tax_code_id || null,
     status: categoryData.status,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString()
@@ -62,6 +65,7 @@ export async function updateCategory(categoryData: UpdateCategoryData): Promise<
     slug: categoryData.slug,
     description: categoryData.description || null,
     parent_id: categoryData.parent_id || null,
+    tax_code_id: categoryData.tax_code_id || null,
     status: categoryData.status,
     updated_at: new Date().toISOString()
   }
@@ -7,6 +7,8 @@ export interface CreatePackagingData {
   type: 'simple' | 'variable'
   status: 'active' | 'inactive'
   sku?: string
+  // Empty to have one generated; ignored for variable packaging
+  barcode?: string
   selectedAttributes?: string[]
   variations?: CreatePackagingVariationData[]
 }
@@ -17,6 +19,8 @@ export interface UpdatePackagingData {
   description?: string
   status: 'active' | 'inactive'
   sku?: string
+  // Empty to have one generated; ignored for variable packaging
+  barcode?: string
   selectedAttributes?: string[]
   variations?: UpdatePackagingVariationData[]
   newVariations?: CreatePackagingVariationData[]
@@ -24,12 +28,15 @@ export interface UpdatePackagingData {
 
 export interface CreatePackagingVariationData {
   sku: string
+  // Empty to have one generated
+  barcode?: string
   attributeValues: { [attributeId: string]: string }
 }
 
 export interface UpdatePackagingVariationData {
   id: string
   sku: string
+  barcode?: string
   attributeValues: { [attributeId: string]: string }
 }
 
@@ -70,6 +77,7 @@ export async function createPackaging(data: CreatePackagingData): Promise<string
     type: data.type,
     status: data.status,
     sku: data.sku || null,
+    barcode: data.barcode || null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString()
   }
@@ -115,6 +123,7 @@ export async function updatePackaging(data: UpdatePackagingData): Promise<void>
     description: data.description || null,
     status: data.status,
     sku: data.sku || null,
+    barcode: data.barcode,
     updated_at: new Date().toISOString()
   }
   
@@ -210,6 +219,7 @@ export async function createPackagingVariation(data: CreatePackagingVariationDat
     id: variationId,
     packaging_id: data.packaging_id,
     sku: data.sku,
+    barcode: data.barcode || null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString()
   }
@@ -257,6 +267,7 @@ export async function updatePackagingVariation(data: UpdatePackagingVariationDat
   
   const updateData = {
     sku: data.sku,
+    barcode: data.barcode,
     updated_at: new Date().toISOString()
   }
   
@@ -1,16 +1,24 @@
 import { createClient, generateSequentialId, type Tables } from './base'
+import { BUNDLE_ERROR_MESSAGES, saveBundleComponents, type BundleComponentInput } from '../product-bundles'
+import { UNITS_OF_MEASURE_ERROR_MESSAGES, saveProductUnits, type ProductUnitsInput } from '../units-of-measure'
 
 // Product types
 export interface CreateProductData {
   name: string
   description: string
   category_id?: string
+  // Unset to take the category's tax code
+  tax_code_id?: string
   status: 'active' | 'inactive'
-  type: 'simple' | 'variation'
+  type: 'simple' | 'variation' | 'bundle'
   sku?: string
+  // Empty to have one generated; ignored for variation products
+  barcode?: string
   price?: number
   image_url?: string
   parent_sku?: string
+  track_lots?: boolean
+  track_serials?: boolean
 }
 
 export interface UpdateProductData {
@@ -18,17 +26,25 @@ export interface UpdateProductData {
   name: string
   description: string
   category_id?: string
+  // Unset to take the category's tax code
+  tax_code_id?: string
   status: 'active' | 'inactive'
-  type: 'simple' | 'variation'
+  type: 'simple' | 'variation' | 'bundle'
   sku?: string
+  // Empty to have one generated; ignored for variation products
+  barcode?: string
   price?: number
   image_url?: string
   parent_sku?: string
+  track_lots?: boolean
+  track_serials?: boolean
 }
 
 export interface UpdateProductVariationData {
   id: string
   sku: string
+  // Empty to have one generated
+  barcode?: string
   price: number
   attribute_values: { [attributeId: string]: string }
 }
@@ -36,6 +52,8 @@ export interface UpdateProductVariationData {
 export interface CreateProductVariationData {
   product_id: string
   sku: string
+  // Empty to have one generated
+  barcode?: string
   price: number
   attribute_values: { [attributeId: string]: string }
 }
@@ -61,12 +79,16 @@ export async function createProduct(data: CreateProductData): Promise<string> {
     name: data.name,
     description: data.description,
     category_id: data.category_id || null,
+    tax_code_id: data.tax_code_id || null,
     status: data.status,
     type: data.type,
     sku: data.sku,
+    barcode: data.barcode,
     price: data.price,
     image_url: data.image_url,
-    parent_sku: data.parent_sku
+    parent_sku: data.parent_sku,
+    track_lots: data.track_lots ?? false,
+    track_serials: data.track_serials ?? false
   }
 
   console.log('📝 Insert payload:', insertData)
@@ -99,11 +121,15 @@ export async function updateProduct(data: UpdateProductData): Promise<void> {
     name: data.name,
     description: data.description,
     category_id: data.category_id || null,
+    tax_code_id: data.tax_code_id || null,
     status: data.status,
     sku: data.sku,
+    barcode: data.barcode,
     price: data.price,
     image_url: data.image_url,
     parent_sku: data.parent_sku,
+    track_lots: data.track_lots,
+    track_serials: data.track_serials,
     updated_at: new Date().toISOString()
   }
 
@@ -206,6 +232,7 @@ export async function createProductVariation(data: CreateProductVariationData):
     id: variationId,
     product_id: data.product_id,
     sku: data.sku,
+    barcode: data.barcode,
     price: data.price,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString()
@@ -254,6 +281,7 @@ export async function updateProductVariation(data: UpdateProductVariationData):
   
   const updateData: ProductVariationUpdate = {
     sku: data.sku,
+    barcode: data.barcode,
     price: data.price,
     updated_at: new Date().toISOString()
   }
@@ -349,6 +377,30 @@ export async function deleteProductVariation(variationId: string): Promise<void>
   console.log('✅ Product variation deleted successfully')
 }
 
+/**
+ * Save the components of a bundle product, throwing if they are rejected
+ */
+async function saveProductBundleComponents(productId: string, components: BundleComponentInput[]): Promise<void> {
+  const result = await saveBundleComponents(productId, components)
+
+  if (!result.success) {
+    console.error('❌ Error saving bundle components:', result)
+    throw new Error(`${BUNDLE_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+  }
+}
+
+/**
+ * Save the base unit and alternate units of a product, throwing if they are rejected
+ */
+async function saveProductUnitsOfMeasure(productId: string, productUnits: ProductUnitsInput): Promise<void> {
+  const result = await saveProductUnits(productId, productUnits)
+
+  if (!result.success) {
+    console.error('❌ Error saving units of measure:', result)
+    throw new Error(`${UNITS_OF_MEASURE_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+  }
+}
+
 /**
  * Create a complete product with variations and attributes
  * Improved with transaction-like behavior and rollback capabilities
@@ -356,11 +408,13 @@ export async function deleteProductVariation(variationId: string): Promise<void>
 export async function createCompleteProduct(
   productData: CreateProductData,
   variations?: CreateProductVariationData[],
-  attributeIds?: string[]
+  attributeIds?: string[],
+  bundleComponents?: BundleComponentInput[],
+  productUnits?: ProductUnitsInput
 ): Promise<string> {
   const supabase = createClient()
   
-  console.log('🏗️ Creating complete product:', { productData, variations, attributeIds })
+  console.log('🏗️ Creating complete product:', { productData, variations, attributeIds, bundleComponents, productUnits })
   
   let productId: string | null = null
   const createdVariationIds: string[] = []
@@ -384,6 +438,16 @@ export async function createCompleteProduct(
         createdVariationIds.push(variationId)
       }
     }
+
+    // Save bundle components if provided
+    if (bundleComponents) {
+      await saveProductBundleComponents(productId, bundleComponents)
+    }
+
+    // Save units of measure if provided
+    if (productUnits) {
+      await saveProductUnitsOfMeasure(productId, productUnits)
+    }
     
     console.log('✅ Complete product created successfully')
     return productId
@@ -423,11 +487,13 @@ export async function updateCompleteProduct(
   productData: UpdateProductData,
   variations?: UpdateProductVariationData[],
   newVariations?: CreateProductVariationData[],
-  attributeIds?: string[]
+  attributeIds?: string[],
+  bundleComponents?: BundleComponentInput[],
+  productUnits?: ProductUnitsInput
 ): Promise<void> {
   const supabase = createClient()
   
-  console.log('🔄 Updating complete product:', { productData, variations, newVariations, attributeIds })
+  console.log('🔄 Updating complete product:', { productData, variations, newVariations, attributeIds, bundleComponents, productUnits })
   
   try {
     // Update the main product
@@ -454,6 +520,16 @@ export async function updateCompleteProduct(
         })
       }
     }
+
+    // Replace bundle components if provided
+    if (bundleComponents) {
+      await saveProductBundleComponents(productData.id, bundleComponents)
+    }
+
+    // Replace units of measure if provided
+    if (productUnits) {
+      await saveProductUnitsOfMeasure(productData.id, productUnits)
+    }
     
     console.log('✅ Complete product updated successfully')
   } catch (error) {
@@ -7,6 +7,9 @@ export interface CreateSupplierData {
   phone?: string
   address?: string
   status: 'active' | 'inactive'
+  payment_terms_days?: number
+  lead_time_days?: number | null
+  currency?: string
 }
 
 export interface UpdateSupplierData {
@@ -16,6 +19,9 @@ export interface UpdateSupplierData {
   phone?: string
   address?: string
   status: 'active' | 'inactive'
+  payment_terms_days?: number
+  lead_time_days?: number | null
+  currency?: string
 }
 
 /**
@@ -36,6 +42,9 @@ export async function createSupplier(data: CreateSupplierData): Promise<string>
     phone: data.phone || null,
     address: data.address || null,
     status: data.status,
+    payment_terms_days: data.payment_terms_days ?? 30,
+    lead_time_days: data.lead_time_days ?? null,
+    currency: data.currency || 'BDT',
     join_date: new Date().toISOString().split('T')[0],
     total_purchases: 0,
     total_spent: 0,
@@ -71,6 +80,9 @@ export async function updateSupplier(data: UpdateSupplierData): Promise<void> {
     phone: data.phone || null,
     address: data.address || null,
     status: data.status,
+    ...(data.payment_terms_days !== undefined && { payment_terms_days: data.payment_terms_days }),
+    ...(data.lead_time_days !== undefined && { lead_time_days: data.lead_time_days }),
+    ...(data.currency !== undefined && { currency: data.currency }),
     updated_at: new Date().toISOString()
   }
   
@@ -0,0 +1,279 @@
+/**
+ * Price Lists Module
+ *
+ * A price list (e.g. Retail, Wholesale, Distributor) holds its own selling prices for
+ * products and variations, with optional quantity breaks and validity dates. A customer
+ * assigned a price list is sold at the list's price for each line, falling back to the
+ * product or variation price where the list has none. Prices and quantity breaks are per
+ * base unit, like sale lines.
+ */
+
+import { createClient } from './client'
+import { DEFAULT_BASE_UNIT } from './units-of-measure'
+
+export interface PriceList {
+  id: string
+  name: string
+  description: string | null
+  created_at: string
+  updated_at: string
+}
+
+// A price list with the number of prices on it and customers assigned to it
+export interface PriceListSummary extends PriceList {
+  item_count: number
+  customer_count: number
+}
+
+export interface PriceListInput {
+  name: string
+  description: string | null
+}
+
+export interface PriceListItemInput {
+  product_id: string
+  variation_id: string | null
+  // Smallest line quantity, in base units, the price applies to
+  min_quantity: number
+  // Price per base unit
+  price: number
+  valid_from: string | null
+  valid_to: string | null
+}
+
+export interface PriceListItem extends PriceListItemInput {
+  id: string
+  price_list_id: string
+  created_at: string
+}
+
+export interface PriceListWithItems extends PriceList {
+  items: PriceListItem[]
+}
+
+// An item that can be priced on a list, with one entry per variation
+export interface PriceListProductOption {
+  product_id: string
+  variation_id: string | null
+  name: string
+  sku: string | null
+  base_unit: string
+  // Product or variation price, per base unit
+  price: number
+}
+
+export type PriceListErrorCode = 'INVALID_PRICE_LIST' | 'NETWORK_ERROR'
+
+export type SavePriceListItemsResult =
+  | { success: true; price_list_id: string; item_count: number }
+  | { success: false; error_code: PriceListErrorCode; error_message: string }
+
+// User-facing messages for each price list error code
+export const PRICE_LIST_ERROR_MESSAGES: Record<PriceListErrorCode, string> = {
+  INVALID_PRICE_LIST: 'The price list is not valid',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+// Key that identifies a priced item, e.g. for select values
+export function getPriceListItemKey(item: Pick<PriceListItemInput, 'product_id' | 'variation_id'>): string {
+  return `${item.product_id}:${item.variation_id || ''}`
+}
+
+// The list price for a line: the row for its product and variation valid on the date
+// (yyyy-MM-dd) with the highest quantity break the base quantity reaches, or null
+export function resolvePriceListItem(
+  items: PriceListItem[],
+  productId: string,
+  variationId: string | null | undefined,
+  baseQuantity: number,
+  date: string
+): PriceListItem | null {
+  let best: PriceListItem | null = null
+
+  for (const item of items) {
+    if (item.product_id !== productId || (item.variation_id || null) !== (variationId || null)) continue
+    if (item.min_quantity > baseQuantity) continue
+    if ((item.valid_from && item.valid_from > date) || (item.valid_to && item.valid_to < date)) continue
+
+    // A later start date wins a tie on quantity, so a promotional price overrides the standing one
+    if (
+      !best ||
+      item.min_quantity > best.min_quantity ||
+      (item.min_quantity === best.min_quantity && (item.valid_from || '') > (best.valid_from || ''))
+    ) {
+      best = item
+    }
+  }
+
+  return best
+}
+
+// All price lists by name, with their item and customer counts
+export async function getPriceLists(): Promise<PriceListSummary[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('price_lists')
+    .select('*, price_list_items(count), customers(count)')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching price lists:', error)
+    throw new Error('Failed to load the price lists')
+  }
+
+  type PriceListRow = PriceList & {
+    price_list_items: { count: number }[] | null
+    customers: { count: number }[] | null
+  }
+
+  return ((data || []) as PriceListRow[]).map(({ price_list_items, customers, ...priceList }) => ({
+    ...priceList,
+    item_count: price_list_items?.[0]?.count || 0,
+    customer_count: customers?.[0]?.count || 0
+  }))
+}
+
+// A price list with its prices, by item and quantity break
+export async function getPriceList(priceListId: string): Promise<PriceListWithItems> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('price_lists')
+    .select('*, price_list_items(*)')
+    .eq('id', priceListId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching price list:', error)
+    throw new Error('Failed to load the price list')
+  }
+
+  const { price_list_items, ...priceList } = data as PriceList & { price_list_items: PriceListItem[] | null }
+  return {
+    ...priceList,
+    items: [...(price_list_items || [])]
+      .map(item => ({ ...item, price: Number(item.price) }))
+      .sort((a, b) =>
+        getPriceListItemKey(a).localeCompare(getPriceListItemKey(b)) ||
+        a.min_quantity - b.min_quantity ||
+        (a.valid_from || '').localeCompare(b.valid_from || '')
+      )
+  }
+}
+
+export async function createPriceList(priceList: PriceListInput): Promise<PriceList> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('price_lists')
+    .insert(priceList)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating price list:', error)
+    throw new Error(error.code === '23505' ? 'A price list with this name already exists' : 'Failed to create the price list')
+  }
+
+  return data as PriceList
+}
+
+export async function updatePriceList(priceListId: string, priceList: PriceListInput): Promise<PriceList> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('price_lists')
+    .update({ ...priceList, updated_at: new Date().toISOString() })
+    .eq('id', priceListId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating price list:', error)
+    throw new Error(error.code === '23505' ? 'A price list with this name already exists' : 'Failed to update the price list')
+  }
+
+  return data as PriceList
+}
+
+// Customers assigned to the list fall back to product prices
+export async function deletePriceList(priceListId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('price_lists')
+    .delete()
+    .eq('id', priceListId)
+
+  if (error) {
+    console.error('Error deleting price list:', error)
+    throw new Error('Failed to delete the price list')
+  }
+}
+
+// Active products and variations that can be priced on a list
+export async function getPriceListProductOptions(): Promise<PriceListProductOption[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('id, name, sku, type, price, base_unit, product_variations(id, sku, price)')
+    .eq('status', 'active')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching price list product options:', error)
+    throw new Error('Failed to load the products that can be priced')
+  }
+
+  type ProductOptionRow = {
+    id: string
+    name: string
+    sku: string | null
+    type: string
+    price: number | null
+    base_unit: string | null
+    product_variations: { id: string; sku: string; price: number }[] | null
+  }
+
+  return ((data || []) as ProductOptionRow[]).flatMap((row): PriceListProductOption[] =>
+    row.type === 'variation'
+      ? (row.product_variations || []).map(variation => ({
+          product_id: row.id,
+          variation_id: variation.id,
+          name: `${row.name} (${variation.sku})`,
+          sku: variation.sku,
+          base_unit: row.base_unit || DEFAULT_BASE_UNIT,
+          price: Number(variation.price)
+        }))
+      : [{
+          product_id: row.id,
+          variation_id: null,
+          name: row.name,
+          sku: row.sku,
+          base_unit: row.base_unit || DEFAULT_BASE_UNIT,
+          price: Number(row.price || 0)
+        }]
+  )
+}
+
+// Replace the prices on a list in one step
+export async function savePriceListItems(
+  priceListId: string,
+  items: PriceListItemInput[]
+): Promise<SavePriceListItemsResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('save_price_list_items', {
+    p_price_list_id: priceListId,
+    p_items: items
+  })
+
+  if (error) {
+    console.error('❌ save_price_list_items RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to save the prices' }
+  }
+
+  return data as SavePriceListItemsResult
+}
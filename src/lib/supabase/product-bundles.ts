@@ -0,0 +1,178 @@
+/**
+ * Product Bundles Module
+ *
+ * A bundle is a product of type 'bundle' made of other products and packaging items,
+ * each with a quantity per bundle. It has no stock of its own: its availability in a
+ * warehouse is the number of complete bundles the component stock can make, post_sale
+ * issues the components in its place and process_return puts them back.
+ */
+
+import { createClient } from './client'
+
+export type BundleComponentType = 'product' | 'package'
+
+export interface BundleComponentInput {
+  component_type: BundleComponentType
+  component_id: string
+  component_variation_id: string | null
+  quantity: number
+}
+
+export interface BundleComponent extends BundleComponentInput {
+  id: string
+  bundle_product_id: string
+  created_at: string
+}
+
+// An item that can go into a bundle, with one entry per variation
+export interface BundleComponentOption {
+  component_type: BundleComponentType
+  component_id: string
+  component_variation_id: string | null
+  name: string
+  sku: string | null
+}
+
+export type BundleErrorCode = 'INVALID_BUNDLE' | 'NETWORK_ERROR'
+
+export type SaveBundleComponentsResult =
+  | { success: true; bundle_product_id: string; component_count: number }
+  | { success: false; error_code: BundleErrorCode; error_message: string }
+
+// User-facing messages for each bundle error code
+export const BUNDLE_ERROR_MESSAGES: Record<BundleErrorCode, string> = {
+  INVALID_BUNDLE: 'The bundle components are not valid',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+// Key that identifies a component item, e.g. for select values and duplicate checks
+export function getBundleComponentKey(component: Pick<BundleComponentInput, 'component_type' | 'component_id' | 'component_variation_id'>): string {
+  return `${component.component_type}:${component.component_id}:${component.component_variation_id || ''}`
+}
+
+// Components of a bundle, products first
+export async function getBundleComponents(bundleProductId: string): Promise<BundleComponent[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('product_bundle_components')
+    .select('*')
+    .eq('bundle_product_id', bundleProductId)
+    .order('component_type', { ascending: false })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching bundle components:', error)
+    throw new Error('Failed to load the bundle components')
+  }
+
+  return (data || []) as BundleComponent[]
+}
+
+// Active products and packaging that can be bundle components. Bundles and lot- or
+// serial-tracked products are left out, as post_sale cannot issue them as components.
+export async function getBundleComponentOptions(): Promise<BundleComponentOption[]> {
+  const supabase = createClient()
+
+  const [productResult, packagingResult] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, sku, type, product_variations(id, sku)')
+      .eq('status', 'active')
+      .neq('type', 'bundle')
+      .eq('track_lots', false)
+      .eq('track_serials', false)
+      .order('name'),
+    supabase
+      .from('packaging')
+      .select('id, title, sku, type, packaging_variations(id, sku)')
+      .eq('status', 'active')
+      .order('title')
+  ])
+
+  if (productResult.error || packagingResult.error) {
+    console.error('Error fetching bundle component options:', productResult.error || packagingResult.error)
+    throw new Error('Failed to load the items that can go into a bundle')
+  }
+
+  type ProductOptionRow = {
+    id: string
+    name: string
+    sku: string | null
+    type: string
+    product_variations: { id: string; sku: string }[] | null
+  }
+  type PackagingOptionRow = {
+    id: string
+    title: string
+    sku: string | null
+    type: string
+    packaging_variations: { id: string; sku: string }[] | null
+  }
+
+  const products = ((productResult.data || []) as ProductOptionRow[]).flatMap((row): BundleComponentOption[] =>
+    row.type === 'variation'
+      ? (row.product_variations || []).map(variation => ({
+          component_type: 'product',
+          component_id: row.id,
+          component_variation_id: variation.id,
+          name: `${row.name} (${variation.sku})`,
+          sku: variation.sku
+        }))
+      : [{ component_type: 'product', component_id: row.id, component_variation_id: null, name: row.name, sku: row.sku }]
+  )
+
+  const packaging = ((packagingResult.data || []) as PackagingOptionRow[]).flatMap((row): BundleComponentOption[] =>
+    row.type === 'variable'
+      ? (row.packaging_variations || []).map(variation => ({
+          component_type: 'package',
+          component_id: row.id,
+          component_variation_id: variation.id,
+          name: `${row.title} (${variation.sku})`,
+          sku: variation.sku
+        }))
+      : [{ component_type: 'package', component_id: row.id, component_variation_id: null, name: row.title, sku: row.sku }]
+  )
+
+  return [...products, ...packaging]
+}
+
+// Complete bundles each bundle product can make from a warehouse's unreserved stock
+export async function getBundleAvailability(warehouseId: string): Promise<Record<string, number>> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_bundle_availability', {
+    p_warehouse_id: warehouseId
+  })
+
+  if (error) {
+    console.error('Error fetching bundle availability:', error)
+    throw new Error('Failed to work out bundle availability')
+  }
+
+  const availability: Record<string, number> = {}
+  for (const row of (data || []) as { bundle_product_id: string; available_stock: number }[]) {
+    availability[row.bundle_product_id] = Math.max(row.available_stock, 0)
+  }
+  return availability
+}
+
+// Replace the components of a bundle in one step
+export async function saveBundleComponents(
+  bundleProductId: string,
+  components: BundleComponentInput[]
+): Promise<SaveBundleComponentsResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('save_bundle_components', {
+    p_bundle_product_id: bundleProductId,
+    p_components: components
+  })
+
+  if (error) {
+    console.error('❌ save_bundle_components RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to save the bundle components' }
+  }
+
+  return data as SaveBundleComponentsResult
+}
@@ -0,0 +1,361 @@
+/**
+ * Promotions Module
+ *
+ * Configurable promotions the sale screen applies on its own: a percentage or fixed
+ * amount off a category, buy X get Y, and money off once a sale reaches a spend
+ * threshold. Any promotion can require a coupon code and has a validity window and
+ * usage limits. The cart works out the discounts with applyPromotions; post_sale checks
+ * the promotions a sale claims and keeps what each cost in sale_promotions.
+ */
+
+import { createClient } from './client'
+
+export type PromotionType = 'category_discount' | 'buy_x_get_y' | 'spend_threshold'
+
+export type PromotionDiscountType = 'percentage' | 'fixed'
+
+export type PromotionStatus = 'active' | 'inactive'
+
+export interface PromotionInput {
+  name: string
+  description: string | null
+  promotion_type: PromotionType
+  discount_type: PromotionDiscountType
+  // Percentage, or amount off: per base unit for category and buy X get Y, per sale for spend thresholds
+  discount_value: number
+  category_id: string | null
+  buy_product_id: string | null
+  buy_variation_id: string | null
+  buy_quantity: number | null
+  get_product_id: string | null
+  get_variation_id: string | null
+  get_quantity: number | null
+  min_spend: number | null
+  coupon_code: string | null
+  valid_from: string | null
+  valid_to: string | null
+  usage_limit: number | null
+  per_customer_limit: number | null
+  status: PromotionStatus
+}
+
+export interface Promotion extends PromotionInput {
+  id: string
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// A promotion with the number of sales it was applied to and the discount it gave
+export interface PromotionWithUsage extends Promotion {
+  usage_count: number
+  discount_total: number
+}
+
+// A promotion applied to the cart, as stored on the sale
+export interface AppliedPromotion {
+  promotion_id: string
+  name: string
+  coupon_code: string | null
+  discount_amount: number
+}
+
+// A cart line as the promotions see it; quantities and prices are per base unit
+export interface PromotionLine {
+  key: string
+  productId: string
+  variationId?: string
+  categoryId?: string
+  baseQuantity: number
+  basePrice: number
+  // Line total after its manual discount; promotions never take a line below zero
+  total: number
+}
+
+export interface PromotionResult {
+  // Promotion discount for each line, by line key
+  lineDiscounts: Record<string, number>
+  // Discount off the whole sale from spend thresholds
+  orderDiscount: number
+  applied: AppliedPromotion[]
+}
+
+// A sale the promotion was applied to
+export interface PromotionSale {
+  sale_id: string
+  sale_date: string | null
+  customer_name: string
+  total_amount: number
+  discount_amount: number
+  coupon_code: string | null
+}
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  category_discount: 'Category discount',
+  buy_x_get_y: 'Buy X get Y',
+  spend_threshold: 'Spend threshold'
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+// Promotions that can apply on the date (yyyy-MM-dd): active, in their validity window,
+// under their usage limit, and either without a coupon or with one of the codes entered
+export function getEligiblePromotions(
+  promotions: PromotionWithUsage[],
+  date: string,
+  couponCodes: string[] = []
+): PromotionWithUsage[] {
+  const codes = new Set(couponCodes.map(code => code.trim().toLowerCase()))
+
+  return promotions.filter(promotion =>
+    promotion.status === 'active' &&
+    (!promotion.valid_from || promotion.valid_from <= date) &&
+    (!promotion.valid_to || promotion.valid_to >= date) &&
+    (!promotion.usage_limit || promotion.usage_count < promotion.usage_limit) &&
+    (!promotion.coupon_code || codes.has(promotion.coupon_code.toLowerCase()))
+  )
+}
+
+const matchesItem = (line: PromotionLine, productId: string | null, variationId: string | null) =>
+  line.productId === productId && (!variationId || line.variationId === variationId)
+
+// Work out the promotion discounts for a cart. Each line gets the best category discount
+// that matches it plus any buy X get Y units; the best spend threshold the cart reaches
+// after those is then taken off the whole sale.
+export function applyPromotions(
+  promotions: PromotionWithUsage[],
+  lines: PromotionLine[],
+  date: string,
+  couponCodes: string[] = []
+): PromotionResult {
+  const eligible = getEligiblePromotions(promotions, date, couponCodes)
+  const lineDiscounts: Record<string, number> = {}
+  const discountByPromotion = new Map<string, number>()
+
+  // Take up to the line's remaining total, crediting the promotion with what it gave
+  const giveLineDiscount = (line: PromotionLine, promotionId: string, amount: number) => {
+    const given = roundMoney(Math.min(amount, line.total - (lineDiscounts[line.key] || 0)))
+    if (given <= 0) return
+    lineDiscounts[line.key] = (lineDiscounts[line.key] || 0) + given
+    discountByPromotion.set(promotionId, (discountByPromotion.get(promotionId) || 0) + given)
+  }
+
+  const unitDiscount = (promotion: Promotion, basePrice: number) =>
+    promotion.discount_type === 'percentage'
+      ? basePrice * promotion.discount_value / 100
+      : Math.min(promotion.discount_value, basePrice)
+
+  // Category discounts: the best one for each line
+  const categoryPromotions = eligible.filter(promotion => promotion.promotion_type === 'category_discount')
+  for (const line of lines) {
+    let best: { promotion: Promotion; amount: number } | null = null
+    for (const promotion of categoryPromotions) {
+      if (!line.categoryId || promotion.category_id !== line.categoryId) continue
+      const amount = promotion.discount_type === 'percentage'
+        ? line.total * promotion.discount_value / 100
+        : promotion.discount_value * line.baseQuantity
+      if (!best || amount > best.amount) best = { promotion, amount }
+    }
+    if (best) giveLineDiscount(line, best.promotion.id, best.amount)
+  }
+
+  // Buy X get Y: every buy_quantity bought earns get_quantity of the get item. When the
+  // two are the same item, the free units come out of the same quantity.
+  for (const promotion of eligible.filter(promotion => promotion.promotion_type === 'buy_x_get_y')) {
+    const buyQuantity = promotion.buy_quantity || 0
+    const getQuantity = promotion.get_quantity || 0
+    if (buyQuantity <= 0 || getQuantity <= 0) continue
+
+    const bought = lines
+      .filter(line => matchesItem(line, promotion.buy_product_id, promotion.buy_variation_id))
+      .reduce((sum, line) => sum + line.baseQuantity, 0)
+    const sameItem = promotion.buy_product_id === promotion.get_product_id &&
+      (promotion.buy_variation_id || null) === (promotion.get_variation_id || null)
+    let rewarded = sameItem
+      ? Math.floor(bought / (buyQuantity + getQuantity)) * getQuantity
+      : Math.floor(bought / buyQuantity) * getQuantity
+
+    // Cheapest get lines first, so the customer is never rewarded more than intended
+    const getLines = lines
+      .filter(line => matchesItem(line, promotion.get_product_id, promotion.get_variation_id))
+      .sort((a, b) => a.basePrice - b.basePrice)
+    for (const line of getLines) {
+      if (rewarded <= 0) break
+      const units = Math.min(rewarded, line.baseQuantity)
+      giveLineDiscount(line, promotion.id, unitDiscount(promotion, line.basePrice) * units)
+      rewarded -= units
+    }
+  }
+
+  // Spend thresholds: the best one the cart reaches after line promotions
+  const spend = lines.reduce((sum, line) => sum + line.total - (lineDiscounts[line.key] || 0), 0)
+  let orderDiscount = 0
+  let thresholdPromotion: Promotion | null = null
+  for (const promotion of eligible.filter(promotion => promotion.promotion_type === 'spend_threshold')) {
+    if (spend < (promotion.min_spend || 0)) continue
+    const amount = roundMoney(Math.min(
+      promotion.discount_type === 'percentage' ? spend * promotion.discount_value / 100 : promotion.discount_value,
+      spend
+    ))
+    if (amount > orderDiscount) {
+      orderDiscount = amount
+      thresholdPromotion = promotion
+    }
+  }
+  if (thresholdPromotion) discountByPromotion.set(thresholdPromotion.id, orderDiscount)
+
+  const applied = eligible
+    .filter(promotion => (discountByPromotion.get(promotion.id) || 0) > 0)
+    .map(promotion => ({
+      promotion_id: promotion.id,
+      name: promotion.name,
+      coupon_code: promotion.coupon_code,
+      discount_amount: roundMoney(discountByPromotion.get(promotion.id) || 0)
+    }))
+
+  return { lineDiscounts, orderDiscount, applied }
+}
+
+// All promotions, newest first, with what each has been used for so far
+export async function getPromotions(): Promise<PromotionWithUsage[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*, sale_promotions(discount_amount)')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching promotions:', error)
+    throw new Error('Failed to load the promotions')
+  }
+
+  type PromotionRow = Promotion & { sale_promotions: { discount_amount: number }[] | null }
+
+  return ((data || []) as PromotionRow[]).map(({ sale_promotions, ...promotion }) => ({
+    ...promotion,
+    discount_value: Number(promotion.discount_value),
+    min_spend: promotion.min_spend === null ? null : Number(promotion.min_spend),
+    usage_count: sale_promotions?.length || 0,
+    discount_total: (sale_promotions || []).reduce((sum, use) => sum + Number(use.discount_amount), 0)
+  }))
+}
+
+// Active promotions the sale screen can apply
+export async function getActivePromotions(): Promise<PromotionWithUsage[]> {
+  const promotions = await getPromotions()
+  return promotions.filter(promotion => promotion.status === 'active')
+}
+
+export async function getPromotion(promotionId: string): Promise<Promotion> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*')
+    .eq('id', promotionId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching promotion:', error)
+    throw new Error('Failed to load the promotion')
+  }
+
+  const promotion = data as Promotion
+  return {
+    ...promotion,
+    discount_value: Number(promotion.discount_value),
+    min_spend: promotion.min_spend === null ? null : Number(promotion.min_spend)
+  }
+}
+
+// Sales the promotion was applied to, newest first
+export async function getPromotionSales(promotionId: string): Promise<PromotionSale[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('sale_promotions')
+    .select('sale_id, coupon_code, discount_amount, sales(sale_date, customer_name, total_amount)')
+    .eq('promotion_id', promotionId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching promotion sales:', error)
+    throw new Error('Failed to load the sales for this promotion')
+  }
+
+  type PromotionSaleRow = {
+    sale_id: string
+    coupon_code: string | null
+    discount_amount: number
+    sales: { sale_date: string | null; customer_name: string; total_amount: number } | null
+  }
+
+  return ((data || []) as unknown as PromotionSaleRow[]).map(row => ({
+    sale_id: row.sale_id,
+    sale_date: row.sales?.sale_date || null,
+    customer_name: row.sales?.customer_name || 'Unknown Customer',
+    total_amount: Number(row.sales?.total_amount || 0),
+    discount_amount: Number(row.discount_amount),
+    coupon_code: row.coupon_code
+  }))
+}
+
+// Create a promotion, or update it when an id is given
+export async function savePromotion(
+  promotion: PromotionInput,
+  createdBy: string,
+  promotionId?: string
+): Promise<Promotion> {
+  const supabase = createClient()
+
+  const { data, error } = promotionId
+    ? await supabase
+        .from('promotions')
+        .update({ ...promotion, updated_at: new Date().toISOString() })
+        .eq('id', promotionId)
+        .select()
+        .single()
+    : await supabase
+        .from('promotions')
+        .insert({ ...promotion, created_by: createdBy })
+        .select()
+        .single()
+
+  if (error) {
+    console.error('Error saving promotion:', error)
+    throw new Error(error.code === '23505' ? 'Another promotion already uses this coupon code' : 'Failed to save the promotion')
+  }
+
+  return data as Promotion
+}
+
+// Promotions applied to a sale
+export async function getSalePromotions(saleId: string): Promise<AppliedPromotion[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('sale_promotions')
+    .select('promotion_id, promotion_name, coupon_code, discount_amount')
+    .eq('sale_id', saleId)
+    .order('created_at')
+
+  if (error) {
+    console.error('Error fetching sale promotions:', error)
+    throw new Error('Failed to load the promotions on this sale')
+  }
+
+  type SalePromotionRow = {
+    promotion_id: string | null
+    promotion_name: string
+    coupon_code: string | null
+    discount_amount: number
+  }
+
+  return ((data || []) as SalePromotionRow[]).map(row => ({
+    promotion_id: row.promotion_id || '',
+    name: row.promotion_name,
+    coupon_code: row.coupon_code,
+    discount_amount: Number(row.discount_amount)
+  }))
+}
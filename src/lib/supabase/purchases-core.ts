@@ -26,6 +26,7 @@ export async function createPurchaseEvent(eventData: {
   payment_amount?: number
   payment_method?: string
   payment_id?: string
+  grn_id?: string
   metadata?: any
   created_by?: string
 }): Promise<string> {
@@ -0,0 +1,444 @@
+/**
+ * Purchase Payables Module
+ *
+ * Open balances per supplier bill come from the supplier_bill_balances view
+ * (purchase total less payments and returns, plus refunds the supplier has paid
+ * back). Bills fall due after the supplier's payment terms, so aging here counts
+ * days past the due date; bills that are not yet due are reported separately.
+ *
+ * Bills keep the currency they were bought in. A supplier's statement is in the
+ * supplier's currency (or in taka if any of their purchases was made in another),
+ * and the aging report across suppliers converts every bill to taka at its purchase rate.
+ */
+
+import { createClient } from './client'
+import { apiCache } from './cache'
+import { getRefundTransactions } from '@/lib/api/refunds'
+import { BASE_CURRENCY, toBaseAmount } from './currencies'
+import {
+  calculateAging,
+  addAgingBuckets,
+  emptyAgingBuckets,
+  getDaysOutstanding,
+  type AgingBuckets
+} from '@/lib/utils/aging'
+
+// Balances below half a paisa are treated as settled
+const SETTLED_THRESHOLD = 0.005
+
+// A purchase with money still owed to the supplier
+export interface OpenBill {
+  purchase_id: string
+  supplier_id: string
+  supplier_name: string
+  purchase_date: string
+  due_date: string
+  status: string | null
+  total_amount: number
+  amount_paid: number
+  amount_returned: number
+  amount_refunded: number
+  outstanding_amount: number
+  currency: string
+  exchange_rate: number
+  days_overdue: number
+  is_overdue: boolean
+}
+
+// Aging of open bills: not yet due, then overdue bills bucketed by days past due
+export interface PayablesAging {
+  not_due: number
+  overdue: AgingBuckets
+  total: number
+}
+
+export type SupplierStatementEntryType = 'bill' | 'payment' | 'return' | 'refund'
+
+// One line of a supplier statement; credits raise what is owed, debits lower it
+export interface SupplierStatementEntry {
+  date: string
+  type: SupplierStatementEntryType
+  reference: string
+  purchase_id: string
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export interface SupplierStatement {
+  supplier_id: string
+  // Every amount on the statement is in this currency
+  currency: string
+  from: string | null
+  to: string | null
+  opening_balance: number
+  total_debits: number
+  total_credits: number
+  closing_balance: number
+  entries: SupplierStatementEntry[]
+}
+
+// One supplier's row on the payables aging report
+export interface SupplierAgingRow {
+  supplier_id: string
+  supplier_name: string
+  bill_count: number
+  next_due_date: string
+  aging: PayablesAging
+}
+
+export interface PayablesAgingReport {
+  as_of: string
+  rows: SupplierAgingRow[]
+  totals: PayablesAging
+}
+
+// Raw row of the supplier_bill_balances view (numerics may arrive as strings)
+interface BillBalanceRow {
+  purchase_id: string
+  supplier_id: string
+  supplier_name: string
+  purchase_date: string
+  due_date: string | null
+  status: string | null
+  total_amount: number | string
+  amount_paid: number | string
+  amount_returned: number | string
+  amount_refunded: number | string
+  outstanding_amount: number | string
+  currency: string | null
+  exchange_rate: number | string | null
+}
+
+interface StatementPurchaseRow {
+  id: string
+  purchase_date: string
+  due_date: string | null
+  total_amount: number
+  currency: string | null
+  exchange_rate: number | null
+}
+
+interface StatementPaymentRow {
+  id: string
+  purchase_id: string
+  amount: number
+  payment_method: string
+  payment_date: string
+}
+
+interface StatementReturnRow {
+  id: string
+  purchase_id: string
+  total_amount: number
+  return_date: string
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function toOpenBill(row: BillBalanceRow, asOf: Date): OpenBill {
+  const dueDate = (row.due_date || row.purchase_date).split('T')[0]
+  const daysOverdue = getDaysOutstanding(dueDate, asOf)
+
+  return {
+    purchase_id: row.purchase_id,
+    supplier_id: row.supplier_id,
+    supplier_name: row.supplier_name,
+    purchase_date: row.purchase_date,
+    due_date: dueDate,
+    status: row.status,
+    total_amount: Number(row.total_amount),
+    amount_paid: Number(row.amount_paid),
+    amount_returned: Number(row.amount_returned),
+    amount_refunded: Number(row.amount_refunded),
+    outstanding_amount: Number(row.outstanding_amount),
+    currency: row.currency || BASE_CURRENCY,
+    exchange_rate: Number(row.exchange_rate || 1),
+    days_overdue: daysOverdue,
+    is_overdue: daysOverdue > 0
+  }
+}
+
+// Bills restated in one currency: bills already in it are unchanged, others go to taka at
+// their purchase rate (so pass BASE_CURRENCY to total bills in different currencies)
+export function convertBillsToCurrency(bills: OpenBill[], currency: string): OpenBill[] {
+  return bills.map(bill => {
+    if (bill.currency === currency) return bill
+    const convert = (amount: number) => toBaseAmount(amount, bill.exchange_rate)
+    return {
+      ...bill,
+      total_amount: convert(bill.total_amount),
+      amount_paid: convert(bill.amount_paid),
+      amount_returned: convert(bill.amount_returned),
+      amount_refunded: convert(bill.amount_refunded),
+      outstanding_amount: convert(bill.outstanding_amount),
+      currency: BASE_CURRENCY,
+      exchange_rate: 1
+    }
+  })
+}
+
+export function emptyPayablesAging(): PayablesAging {
+  return { not_due: 0, overdue: emptyAgingBuckets(), total: 0 }
+}
+
+export function addPayablesAging(target: PayablesAging, source: PayablesAging): PayablesAging {
+  target.not_due += source.not_due
+  addAgingBuckets(target.overdue, source.overdue)
+  target.total += source.total
+  return target
+}
+
+// Split open bills into not-yet-due and overdue buckets (aged from the due date)
+export function calculatePayablesAging(bills: OpenBill[], asOf: Date = new Date()): PayablesAging {
+  const overdue = bills.filter(bill => bill.is_overdue)
+  const notDue = bills
+    .filter(bill => !bill.is_overdue)
+    .reduce((sum, bill) => sum + bill.outstanding_amount, 0)
+  const overdueBuckets = calculateAging(overdue.map(bill => ({ date: bill.due_date, amount: bill.outstanding_amount })), asOf)
+
+  return {
+    not_due: notDue,
+    overdue: overdueBuckets,
+    total: notDue + overdueBuckets.total
+  }
+}
+
+// Clear cached balances after a purchase, payment, return or refund changes them.
+// Supplier totals are kept by database triggers, so the supplier list is cleared too.
+export function invalidatePayablesCaches(supplierId?: string | null) {
+  apiCache.invalidate('suppliers-active')
+  if (!supplierId) {
+    apiCache.invalidateByPattern('supplier-')
+    apiCache.invalidateByPattern('payables-')
+    return
+  }
+  apiCache.invalidate(`supplier-${supplierId}`)
+  apiCache.invalidate('payables-aging')
+  apiCache.invalidateByPattern(`payables-${supplierId}`)
+}
+
+// Open bills for a supplier, earliest due first
+export async function getSupplierOpenBills(supplierId: string, asOf: Date = new Date()): Promise<OpenBill[]> {
+  const rows = await apiCache.get(`payables-${supplierId}-open`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('supplier_bill_balances')
+      .select('*')
+      .eq('supplier_id', supplierId)
+      .gt('outstanding_amount', SETTLED_THRESHOLD)
+      .order('due_date', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching open bills:', error)
+      throw new Error('Failed to fetch open bills')
+    }
+
+    return (data || []) as BillBalanceRow[]
+  })
+
+  return rows.map(row => toOpenBill(row, asOf))
+}
+
+// Aging of one supplier's open bills
+export async function getSupplierAging(supplierId: string, asOf: Date = new Date()): Promise<PayablesAging> {
+  const bills = await getSupplierOpenBills(supplierId, asOf)
+  return calculatePayablesAging(bills, asOf)
+}
+
+// Running statement of bills, payments, returns and refunds for a supplier.
+// Activity before `from` is rolled into the opening balance.
+export async function getSupplierStatement(
+  supplierId: string,
+  from?: string,
+  to?: string
+): Promise<SupplierStatement> {
+  return apiCache.get(`payables-${supplierId}-statement-${from || 'start'}-${to || 'now'}`, async () => {
+    const supabase = createClient()
+
+    const [{ data: supplier, error: supplierError }, { data: purchases, error: purchasesError }] = await Promise.all([
+      supabase
+        .from('suppliers')
+        .select('currency')
+        .eq('id', supplierId)
+        .single(),
+      supabase
+        .from('purchases')
+        .select('id, purchase_date, due_date, total_amount, currency, exchange_rate')
+        .eq('supplier_id', supplierId)
+        .neq('status', 'cancelled')
+    ])
+
+    if (supplierError || purchasesError) {
+      console.error('Error fetching supplier purchases for statement:', supplierError || purchasesError)
+      throw new Error('Failed to fetch supplier statement')
+    }
+
+    const purchaseRows = (purchases || []) as StatementPurchaseRow[]
+    const purchaseIds = purchaseRows.map(purchase => purchase.id)
+
+    // In the supplier's currency, unless some purchases were made in another; then in taka.
+    // Everything on a purchase is stated at its purchase rate, so payments clear bills exactly.
+    const supplierCurrency = (supplier as { currency: string | null } | null)?.currency || BASE_CURRENCY
+    const currency = purchaseRows.every(purchase => (purchase.currency || BASE_CURRENCY) === supplierCurrency)
+      ? supplierCurrency
+      : BASE_CURRENCY
+    const purchasesById = new Map(purchaseRows.map(purchase => [purchase.id, purchase]))
+    const inStatementCurrency = (purchaseId: string, amount: number) => {
+      const purchase = purchasesById.get(purchaseId)
+      return (purchase?.currency || BASE_CURRENCY) === currency
+        ? amount
+        : toBaseAmount(amount, purchase?.exchange_rate)
+    }
+
+    const [paymentsResult, returnsResult] = purchaseIds.length > 0
+      ? await Promise.all([
+          supabase
+            .from('purchase_payments')
+            .select('id, purchase_id, amount, payment_method, payment_date')
+            .in('purchase_id', purchaseIds)
+            .neq('status', 'void'),
+          supabase
+            .from('purchase_returns')
+            .select('id, purchase_id, total_amount, return_date')
+            .in('purchase_id', purchaseIds)
+            .neq('status', 'rejected')
+        ])
+      : [{ data: [], error: null }, { data: [], error: null }]
+
+    if (paymentsResult.error || returnsResult.error) {
+      console.error('Error fetching statement activity:', paymentsResult.error || returnsResult.error)
+      throw new Error('Failed to fetch supplier statement')
+    }
+
+    const returnRows = (returnsResult.data || []) as StatementReturnRow[]
+
+    // Money the supplier paid back against each return
+    const refunds = (await Promise.all(
+      returnRows.map(async ret => (await getRefundTransactions(ret.id))
+        .filter(refund => refund.status === 'completed')
+        .map(refund => ({ ...refund, return: ret })))
+    )).flat()
+
+    const activity: Omit<SupplierStatementEntry, 'balance'>[] = [
+      ...purchaseRows.map(purchase => ({
+        date: purchase.purchase_date.split('T')[0],
+        type: 'bill' as const,
+        reference: purchase.id,
+        purchase_id: purchase.id,
+        description: `Purchase ${purchase.id}${purchase.due_date ? ` (due ${new Date(purchase.due_date).toLocaleDateString('en-BD')})` : ''}`,
+        debit: 0,
+        credit: inStatementCurrency(purchase.id, Number(purchase.total_amount))
+      })),
+      ...((paymentsResult.data || []) as StatementPaymentRow[]).map(payment => ({
+        date: payment.payment_date.split('T')[0],
+        type: 'payment' as const,
+        reference: payment.id,
+        purchase_id: payment.purchase_id,
+        description: `Payment (${payment.payment_method.replace('_', ' ')}) - ${payment.purchase_id}`,
+        debit: inStatementCurrency(payment.purchase_id, Number(payment.amount)),
+        credit: 0
+      })),
+      ...returnRows.map(ret => ({
+        date: ret.return_date.split('T')[0],
+        type: 'return' as const,
+        reference: ret.id,
+        purchase_id: ret.purchase_id,
+        description: `Return ${ret.id} - ${ret.purchase_id}`,
+        debit: inStatementCurrency(ret.purchase_id, Number(ret.total_amount)),
+        credit: 0
+      })),
+      ...refunds.map(refund => ({
+        date: (refund.payment_date || refund.return.return_date).split('T')[0],
+        type: 'refund' as const,
+        reference: refund.transaction_id,
+        purchase_id: refund.return.purchase_id,
+        description: `Refund (${refund.method.replace('_', ' ')}) for return ${refund.return.id}`,
+        debit: 0,
+        credit: inStatementCurrency(refund.return.purchase_id, Number(refund.amount))
+      }))
+    ]
+
+    // Same-day activity lists the bill before what settles it
+    const typeOrder: Record<SupplierStatementEntryType, number> = { bill: 0, payment: 1, return: 2, refund: 3 }
+    activity.sort((a, b) => a.date.localeCompare(b.date) || typeOrder[a.type] - typeOrder[b.type])
+
+    let openingBalance = 0
+    let balance = 0
+    let totalDebits = 0
+    let totalCredits = 0
+    const entries: SupplierStatementEntry[] = []
+
+    for (const entry of activity) {
+      if (to && entry.date > to) continue
+
+      if (from && entry.date < from) {
+        openingBalance += entry.credit - entry.debit
+        balance = openingBalance
+        continue
+      }
+
+      balance += entry.credit - entry.debit
+      totalDebits += entry.debit
+      totalCredits += entry.credit
+      entries.push({ ...entry, balance })
+    }
+
+    return {
+      supplier_id: supplierId,
+      currency,
+      from: from || null,
+      to: to || null,
+      opening_balance: openingBalance,
+      total_debits: totalDebits,
+      total_credits: totalCredits,
+      closing_balance: openingBalance + totalCredits - totalDebits,
+      entries
+    }
+  })
+}
+
+// Payables aging across all suppliers in taka, largest balance first
+export async function getPayablesAging(asOf: Date = new Date()): Promise<PayablesAgingReport> {
+  const rows = await apiCache.get('payables-aging', async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('supplier_bill_balances')
+      .select('*')
+      .gt('outstanding_amount', SETTLED_THRESHOLD)
+      .order('due_date', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching payables aging:', error)
+      throw new Error('Failed to fetch payables aging')
+    }
+
+    return (data || []) as BillBalanceRow[]
+  })
+
+  const billsBySupplier = new Map<string, OpenBill[]>()
+  convertBillsToCurrency(rows.map(row => toOpenBill(row, asOf)), BASE_CURRENCY).forEach(bill => {
+    billsBySupplier.set(bill.supplier_id, [...(billsBySupplier.get(bill.supplier_id) || []), bill])
+  })
+
+  const agingRows: SupplierAgingRow[] = Array.from(billsBySupplier.values())
+    .map(bills => ({
+      supplier_id: bills[0].supplier_id,
+      supplier_name: bills[0].supplier_name,
+      bill_count: bills.length,
+      next_due_date: bills.reduce((earliest, bill) => bill.due_date < earliest ? bill.due_date : earliest, bills[0].due_date),
+      aging: calculatePayablesAging(bills, asOf)
+    }))
+    .sort((a, b) => b.aging.total - a.aging.total)
+
+  return {
+    as_of: toDateString(asOf),
+    rows: agingRows,
+    totals: agingRows.reduce((sum, row) => addPayablesAging(sum, row.aging), emptyPayablesAging())
+  }
+}
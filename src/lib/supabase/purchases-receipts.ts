@@ -0,0 +1,242 @@
+/**
+ * Purchase Receipts Module
+ *
+ * Goods-received notes (GRNs): every delivery against a purchase order is stored
+ * as its own GRN. Posting and cancelling a GRN run as single database transactions
+ * (post_goods_received_note / cancel_goods_received_note) that move stock, keep
+ * purchase_items.received_quantity and the purchase status in line with the active
+ * GRNs, and write or reverse the receipt journal entry. A purchase nothing has been
+ * received on yet can be cancelled outright (cancel_purchase); it then takes no receipts.
+ */
+
+import { createClient } from './client'
+import { apiCache } from './cache'
+import { withPurchaseDeduplication, createReceiptTimelineEvent } from './purchases-utils'
+import { invalidatePayablesCaches } from './purchases-payables'
+import {
+  CreateGoodsReceivedNoteData,
+  GoodsReceivedNoteWithItems,
+  PurchaseStatus
+} from './purchases-types'
+
+// Error codes returned by the goods-received note database functions
+export type GoodsReceivedNoteErrorCode =
+  | 'INVALID_RECEIPT'
+  | 'OVER_RECEIPT'
+  | 'GRN_NOT_FOUND'
+  | 'ALREADY_CANCELLED'
+  | 'RETURNED_ITEMS'
+  | 'INSUFFICIENT_STOCK'
+  | 'INVALID_LOT'
+  | 'INVALID_SERIAL'
+  | 'RECEIPT_INSERT_FAILED'
+  | 'STOCK_UPDATE_FAILED'
+  | 'JOURNAL_FAILED'
+  | 'PURCHASE_NOT_FOUND'
+  | 'PURCHASE_CANCELLED'
+  | 'GOODS_RECEIVED'
+  | 'NETWORK_ERROR'
+
+type GoodsReceivedNoteFailure = {
+  success: false
+  error_code: GoodsReceivedNoteErrorCode
+  error_message: string
+}
+
+export type PostGoodsReceivedNoteResult =
+  | {
+      success: true
+      grn_id: string
+      purchase_status: PurchaseStatus
+      total_quantity: number
+      total_amount: number
+      journal_entry_id: string | null
+    }
+  | GoodsReceivedNoteFailure
+
+export type CancelGoodsReceivedNoteResult =
+  | {
+      success: true
+      grn_id: string
+      purchase_status: PurchaseStatus
+      reversal_journal_entry_id: string | null
+    }
+  | GoodsReceivedNoteFailure
+
+export type CancelPurchaseResult =
+  | {
+      success: true
+      purchase_id: string
+      purchase_status: PurchaseStatus
+      event_id: string
+    }
+  | GoodsReceivedNoteFailure
+
+// User-facing messages for each goods-received note error code
+export const GOODS_RECEIVED_NOTE_ERROR_MESSAGES: Record<GoodsReceivedNoteErrorCode, string> = {
+  INVALID_RECEIPT: 'The receipt is missing required information',
+  OVER_RECEIPT: 'Received quantity is more than what is still outstanding',
+  GRN_NOT_FOUND: 'The goods-received note could not be found',
+  ALREADY_CANCELLED: 'This goods-received note has already been cancelled',
+  RETURNED_ITEMS: 'Some of these goods have already been returned to the supplier',
+  INSUFFICIENT_STOCK: 'Some of these goods are no longer in stock',
+  INVALID_LOT: 'A lot number or expiry date is missing or does not match',
+  INVALID_SERIAL: 'The serial numbers do not match the quantity received or are already recorded',
+  RECEIPT_INSERT_FAILED: 'The goods-received note could not be saved',
+  STOCK_UPDATE_FAILED: 'Warehouse stock could not be updated',
+  JOURNAL_FAILED: 'The accounting entry for this receipt could not be created',
+  PURCHASE_NOT_FOUND: 'The purchase could not be found',
+  PURCHASE_CANCELLED: 'This purchase has been cancelled',
+  GOODS_RECEIVED: 'Goods have already been received; cancel their goods-received notes first',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+function invalidatePurchaseReceiptCaches(purchaseId: string) {
+  apiCache.invalidate(`purchase-${purchaseId}`)
+  apiCache.invalidate(`timeline-${purchaseId}`)
+  apiCache.invalidate(`grns-${purchaseId}`)
+}
+
+/**
+ * Get all goods-received notes for a purchase, oldest delivery first
+ */
+export async function getGoodsReceivedNotes(purchaseId: string): Promise<GoodsReceivedNoteWithItems[]> {
+  return withPurchaseDeduplication(`grns-${purchaseId}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('goods_received_notes')
+      .select(`
+        *,
+        items:goods_received_note_items(*)
+      `)
+      .eq('purchase_id', purchaseId)
+      .order('received_date', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching goods-received notes:', error)
+      throw new Error('Failed to fetch goods-received notes')
+    }
+
+    return data || []
+  })
+}
+
+/**
+ * Record a delivery as a goods-received note
+ * Stock, received quantities, purchase status and the receipt journal are committed together
+ */
+export async function postGoodsReceivedNote(
+  receipt: CreateGoodsReceivedNoteData,
+  createdBy: string = 'system'
+): Promise<PostGoodsReceivedNoteResult> {
+  const supabase = createClient()
+  const { items, ...grn } = receipt
+
+  const { data, error } = await supabase.rpc('post_goods_received_note', {
+    p_grn: grn,
+    p_items: items.filter(item => item.quantity > 0),
+    p_created_by: createdBy
+  })
+
+  if (error) {
+    console.error('❌ post_goods_received_note RPC error:', error)
+    return {
+      success: false,
+      error_code: 'NETWORK_ERROR',
+      error_message: error.message || 'Failed to record goods-received note'
+    }
+  }
+
+  const result = data as PostGoodsReceivedNoteResult
+
+  if (result.success) {
+    console.log(`✅ Goods-received note ${result.grn_id} recorded for ${receipt.purchase_id}`)
+    invalidatePurchaseReceiptCaches(receipt.purchase_id)
+    await createReceiptTimelineEvent(receipt.purchase_id, result.grn_id)
+  } else {
+    console.error(`❌ Goods-received note rolled back (${result.error_code}):`, result.error_message)
+  }
+
+  return result
+}
+
+/**
+ * Cancel a goods-received note
+ * Takes its stock back out of the warehouse and posts the reversing receipt journal
+ */
+export async function cancelGoodsReceivedNote(
+  purchaseId: string,
+  grnId: string,
+  reason?: string,
+  cancelledBy: string = 'system'
+): Promise<CancelGoodsReceivedNoteResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('cancel_goods_received_note', {
+    p_grn_id: grnId,
+    p_reason: reason || null,
+    p_cancelled_by: cancelledBy
+  })
+
+  if (error) {
+    console.error('❌ cancel_goods_received_note RPC error:', error)
+    return {
+      success: false,
+      error_code: 'NETWORK_ERROR',
+      error_message: error.message || 'Failed to cancel goods-received note'
+    }
+  }
+
+  const result = data as CancelGoodsReceivedNoteResult
+
+  if (result.success) {
+    console.log(`✅ Goods-received note ${grnId} cancelled`)
+    invalidatePurchaseReceiptCaches(purchaseId)
+    await createReceiptTimelineEvent(purchaseId, grnId)
+  } else {
+    console.error(`❌ Goods-received note cancellation rolled back (${result.error_code}):`, result.error_message)
+  }
+
+  return result
+}
+
+/**
+ * Cancel a purchase that nothing has been received on yet
+ * The status change and its 'cancelled' timeline event are committed together
+ */
+export async function cancelPurchase(
+  purchaseId: string,
+  reason?: string,
+  cancelledBy: string = 'system'
+): Promise<CancelPurchaseResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('cancel_purchase', {
+    p_purchase_id: purchaseId,
+    p_reason: reason || null,
+    p_cancelled_by: cancelledBy
+  })
+
+  if (error) {
+    console.error('❌ cancel_purchase RPC error:', error)
+    return {
+      success: false,
+      error_code: 'NETWORK_ERROR',
+      error_message: error.message || 'Failed to cancel purchase'
+    }
+  }
+
+  const result = data as CancelPurchaseResult
+
+  if (result.success) {
+    console.log(`✅ Purchase ${purchaseId} cancelled`)
+    invalidatePurchaseReceiptCaches(purchaseId)
+    invalidatePayablesCaches()
+  } else {
+    console.error(`❌ Purchase cancellation rolled back (${result.error_code}):`, result.error_message)
+  }
+
+  return result
+}
@@ -25,8 +25,14 @@ export interface DatabasePurchase {
   supplier_name: string
   warehouse_id: string
   warehouse_name: string
+  // Including tax_amount; amounts are in the purchase currency
   total_amount: number
+  tax_amount?: number
+  currency?: string
+  // Taka per unit of the currency; receipts are posted at this rate
+  exchange_rate?: number
   purchase_date: string
+  due_date?: string
   status: 'pending' | 'partially_received' | 'received' | 'partially_returned' | 'returned' | 'cancelled'
   created_by: string
   last_updated: string
@@ -51,7 +57,14 @@ export interface DatabasePurchaseItem {
   received_quantity: number
   returned_quantity: number
   purchase_price: number
+  // Quantities and price are in the base unit; the line was ordered in this unit
+  unit_name?: string | null
+  unit_factor: number
+  // Before tax
   total: number
+  tax_code_id?: string | null
+  tax_rate?: number
+  tax_amount?: number
   created_at: string
   updated_at: string
 }
@@ -66,6 +79,10 @@ export interface DatabaseSupplier {
   phone?: string
   address?: string
   status: 'active' | 'inactive'
+  payment_terms_days: number
+  lead_time_days?: number | null
+  // Currency the supplier bills in
+  currency?: string
   total_purchases: number
   total_spent: number
   join_date: string
@@ -168,7 +185,7 @@ export interface RefundTransaction {
 export interface PurchaseEvent {
   id: string
   purchase_id: string
-  event_type: 'order_placed' | 'partial_receipt' | 'full_receipt' | 'partial_return' | 'full_return' | 'cancelled' | 'status_change' | 'balance_resolved' | 'payment_made' | 'payment_voided'
+  event_type: 'order_placed' | 'partial_receipt' | 'full_receipt' | 'receipt_cancelled' | 'partial_return' | 'full_return' | 'cancelled' | 'status_change' | 'balance_resolved' | 'payment_made' | 'payment_voided'
   event_title: string
   event_description?: string
   previous_status?: string
@@ -180,6 +197,7 @@ export interface PurchaseEvent {
   payment_amount?: number
   payment_method?: string
   payment_id?: string
+  grn_id?: string
   metadata?: any
   created_by?: string
   created_at: string
@@ -197,12 +215,70 @@ export interface PurchasePayment {
   payment_date: string
   notes?: string
   journal_entry_id?: string
+  // Currency of the purchase, at the rate on the day it was paid
+  currency?: string
+  exchange_rate?: number
+  // Realised exchange gain (positive) or loss (negative) in taka
+  exchange_difference?: number
+  exchange_journal_entry_id?: string | null
   created_by?: string
   status: 'active' | 'void'
   created_at: string
   updated_at: string
 }
 
+/**
+ * Goods-received note record (one delivery against a purchase)
+ */
+export interface GoodsReceivedNote {
+  id: string
+  purchase_id: string
+  warehouse_id: string
+  warehouse_name: string
+  received_date: string
+  received_by: string
+  total_quantity: number
+  total_amount: number
+  status: 'active' | 'cancelled'
+  journal_entry_id?: string
+  reversal_journal_entry_id?: string
+  notes?: string
+  cancelled_at?: string
+  cancelled_by?: string
+  cancel_reason?: string
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Goods-received note line record
+ */
+export interface GoodsReceivedNoteItem {
+  id: string
+  grn_id: string
+  purchase_item_id: string
+  item_id: string
+  item_type: 'product' | 'package'
+  item_name: string
+  variation_id?: string
+  quantity: number
+  unit_cost: number
+  total: number
+  lot_id?: string | null
+  lot_number?: string | null
+  expiry_date?: string | null
+  serial_numbers?: string[] | null
+  created_at: string
+}
+
+/**
+ * Goods-received note with its lines
+ */
+export interface GoodsReceivedNoteWithItems extends GoodsReceivedNote {
+  items: GoodsReceivedNoteItem[]
+}
+
 // ===== UI/FORM TYPES =====
 
 /**
@@ -216,6 +292,8 @@ export interface CreatePurchaseData {
   purchase_date: string
   created_by: string
   notes?: string
+  currency?: string
+  exchange_rate?: number
 }
 
 /**
@@ -226,9 +304,16 @@ export interface CreatePurchaseItemData {
   item_type: 'product' | 'package'
   item_name: string
   variation_id?: string
+  // In the base unit
   quantity: number
   purchase_price: number
+  unit_name?: string
+  unit_factor?: number
+  // Before tax
   total: number
+  tax_code_id?: string
+  tax_rate?: number
+  tax_amount?: number
 }
 
 /**
@@ -245,6 +330,27 @@ export interface UpdatePurchaseData {
   notes?: string
 }
 
+/**
+ * Data for recording a goods-received note
+ */
+export interface CreateGoodsReceivedNoteData {
+  purchase_id: string
+  warehouse_id?: string
+  warehouse_name?: string
+  received_date: string
+  received_by: string
+  notes?: string
+  items: {
+    purchase_item_id: string
+    quantity: number
+    // Required for lot-tracked products
+    lot_number?: string
+    expiry_date?: string | null
+    // Required for serial-tracked products: one serial per unit received
+    serial_numbers?: string[]
+  }[]
+}
+
 /**
  * Data for processing a purchase return
  */
@@ -264,9 +370,12 @@ export interface ProcessPurchaseReturnData {
  */
 export interface CreatePurchasePaymentData {
   purchase_id: string
+  // In the purchase currency
   amount: number
   payment_method: 'cash' | 'bank_transfer' | 'check' | 'credit_card' | 'other'
   payment_date: string
+  // Taka per unit of the purchase currency on the payment date; defaults to the purchase's rate
+  exchange_rate?: number
   notes?: string
   created_by: string
 }
@@ -26,7 +26,8 @@ import {
   PurchaseReturn,
   PurchaseStatsResponse,
   PurchaseEvent,
-  PurchaseWithPayments
+  PurchaseWithPayments,
+  GoodsReceivedNote
 } from './purchases-types'
 
 // ===== REQUEST DEDUPLICATION SYSTEM =====
@@ -528,83 +529,67 @@ export async function backfillPaymentTimelineEvents(purchaseId?: string): Promis
 // ===== RECEIPT TIMELINE UTILITIES =====
 
 /**
- * Create timeline event specifically for tracking receipt updates
- * Provides detailed information about received quantities and changes
+ * Create timeline event for a goods-received note
+ * Received totals are derived from the purchase's active GRNs, so a cancelled GRN
+ * produces a receipt_cancelled event and drops out of the running total
  */
-export async function createReceiptTimelineEvent(purchaseId: string, actualQuantityChange?: number): Promise<void> {
+export async function createReceiptTimelineEvent(purchaseId: string, grnId: string): Promise<void> {
   try {
     const supabase = await createClient()
 
-    // Get current purchase and items data
-    const [purchaseResult, itemsResult, previousEventsResult] = await Promise.all([
+    // Get current purchase, ordered quantities and every GRN recorded against it
+    const [purchaseResult, itemsResult, grnsResult] = await Promise.all([
       supabase.from('purchases').select('status').eq('id', purchaseId).single(),
-      supabase.from('purchase_items').select('quantity, received_quantity').eq('purchase_id', purchaseId),
-      supabase.from('purchase_events')
-        .select('event_description')
+      supabase.from('purchase_items').select('quantity').eq('purchase_id', purchaseId),
+      supabase.from('goods_received_notes')
+        .select('id, status, received_by, total_quantity, warehouse_name, cancelled_by, cancel_reason, items:goods_received_note_items(purchase_item_id)')
         .eq('purchase_id', purchaseId)
-        .in('event_type', ['partial_receipt', 'full_receipt'])
-        .order('created_at', { ascending: false })
-        .limit(1)
     ])
 
-    if (purchaseResult.error || itemsResult.error) {
-      console.error('Error fetching data for receipt timeline:', purchaseResult.error || itemsResult.error)
+    if (purchaseResult.error || itemsResult.error || grnsResult.error) {
+      console.error('Error fetching data for receipt timeline:', purchaseResult.error || itemsResult.error || grnsResult.error)
       return
     }
 
     const purchase = purchaseResult.data
-    const items = itemsResult.data
-    const previousEvents = previousEventsResult.data || []
+    const items = itemsResult.data || []
+    const grns: (Pick<GoodsReceivedNote, 'id' | 'status' | 'received_by' | 'total_quantity' | 'warehouse_name' | 'cancelled_by' | 'cancel_reason'> & {
+      items: { purchase_item_id: string }[]
+    })[] = grnsResult.data || []
+    const grn = grns.find(note => note.id === grnId)
+
+    if (!grn) {
+      console.error(`Goods-received note ${grnId} not found for purchase ${purchaseId}`)
+      return
+    }
 
-    // Calculate current totals
+    // Calculate current totals from the active GRNs
+    const activeGrns = grns.filter(note => note.status === 'active')
     const totalOrdered = items.reduce((sum, item) => sum + item.quantity, 0)
-    const totalReceived = items.reduce((sum, item) => sum + item.received_quantity, 0)
-    const affectedItems = items.filter(item => item.received_quantity > 0).length
-
-    // Use actualQuantityChange if provided, otherwise calculate increment from previous receipt event
-    let newItemsReceived = actualQuantityChange || 0
-    if (!actualQuantityChange) {
-      let previousReceived = 0
-      if (previousEvents.length > 0) {
-        const previousDescription = previousEvents[0].event_description
-        // Extract previous received count from description like "16 out of 50 items received"
-        const match = previousDescription?.match(/(\d+) out of \d+ items received/)
-        if (match) {
-          previousReceived = parseInt(match[1])
-        }
-      }
-      newItemsReceived = totalReceived - previousReceived
-    }
+    const totalReceived = activeGrns.reduce((sum, note) => sum + note.total_quantity, 0)
+    const affectedItems = new Set(
+      activeGrns.flatMap(note => (note.items || []).map(line => line.purchase_item_id))
+    ).size
 
     let eventType: PurchaseEvent['event_type']
     let eventTitle: string
     let eventDescription: string
 
-    if (purchase.status === 'received') {
+    if (grn.status === 'cancelled') {
+      eventType = 'receipt_cancelled'
+      eventTitle = 'Goods Receipt Cancelled'
+      eventDescription = `${grn.id} cancelled (-${grn.total_quantity} items) - ${totalReceived} out of ${totalOrdered} items received`
+      if (grn.cancel_reason) {
+        eventDescription += `. Reason: ${grn.cancel_reason}`
+      }
+    } else if (totalReceived >= totalOrdered) {
       eventType = 'full_receipt'
       eventTitle = 'All Items Received'
-      if (newItemsReceived > 0 && (previousEvents.length > 0 || actualQuantityChange)) {
-        eventDescription = `All ordered items have been received and verified (+${newItemsReceived} new items)`
-      } else {
-        eventDescription = 'All ordered items have been received and verified'
-      }
-    } else if (purchase.status === 'partially_received') {
+      eventDescription = `All ordered items have been received and verified (+${grn.total_quantity} new items into ${grn.warehouse_name} on ${grn.id})`
+    } else {
       eventType = 'partial_receipt'
       eventTitle = 'Items Partially Received'
-      if (newItemsReceived > 0 && (previousEvents.length > 0 || actualQuantityChange)) {
-        eventDescription = `${totalReceived} out of ${totalOrdered} items received (+${newItemsReceived} new items)`
-      } else {
-        eventDescription = `${totalReceived} out of ${totalOrdered} items received`
-      }
-    } else {
-      // For other cases, create a general receipt event
-      eventType = 'status_change'
-      eventTitle = 'Receipt Updated'
-      if (newItemsReceived > 0 && (previousEvents.length > 0 || actualQuantityChange)) {
-        eventDescription = `Purchase receipt updated - ${totalReceived} out of ${totalOrdered} items received (+${newItemsReceived} new items)`
-      } else {
-        eventDescription = `Purchase receipt updated - ${totalReceived} out of ${totalOrdered} items received`
-      }
+      eventDescription = `${totalReceived} out of ${totalOrdered} items received (+${grn.total_quantity} new items into ${grn.warehouse_name} on ${grn.id})`
     }
 
     // Import createPurchaseEvent dynamically to avoid circular dependency
@@ -618,7 +603,8 @@ export async function createReceiptTimelineEvent(purchaseId: string, actualQuant
       new_status: purchase.status,
       affected_items_count: affectedItems,
       total_items_count: items.length,
-      created_by: 'system'
+      grn_id: grn.id,
+      created_by: (grn.status === 'cancelled' ? grn.cancelled_by : grn.received_by) || 'system'
     })
 
     console.log(`Created receipt timeline event for ${purchaseId}: ${eventTitle}`)
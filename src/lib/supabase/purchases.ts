@@ -1,7 +1,7 @@
 import { createClient } from './client'
 import { updateWarehouseStock as updateWarehouseStockFunction } from '../utils/multi-warehouse-stock'
 import { updatePackagingWarehouseStock as updatePackagingWarehouseStockFunction } from '../utils/multi-warehouse-packaging-stock'
-import { createPurchaseJournalEntry, createPurchaseReturnJournalEntry, createPurchaseReceiptJournalEntry, createPaymentJournalEntry, createPaymentReversalJournalEntry } from './accounts-client'
+import { createPurchaseJournalEntry, createPurchaseReturnJournalEntry, createPaymentReversalJournalEntry, reverseJournalEntry } from './accounts-client'
 import { apiCache } from './cache'
 import { createPurchaseEvent, getPurchaseById } from './purchases-core'
 import { 
@@ -12,9 +12,12 @@ import {
   generateInitialTimelineEvents,
   backfillAllTimelineEvents,
   fixAllPurchaseStatuses,
-  backfillPaymentTimelineEvents,
-  createReceiptTimelineEvent
+  backfillPaymentTimelineEvents
 } from './purchases-utils'
+import { postGoodsReceivedNote, GOODS_RECEIVED_NOTE_ERROR_MESSAGES } from './purchases-receipts'
+import { invalidatePayablesCaches } from './purchases-payables'
+import { assertPeriodOpen } from './fiscal-periods'
+import { BASE_CURRENCY, isBaseCurrency, toBaseAmount } from './currencies'
 import { 
   calculatePurchaseReturnStatus,
   calculateNetPaymentAmount, 
@@ -37,6 +40,7 @@ import {
   RefundTransaction,
   PurchaseEvent,
   PurchasePayment,
+  CreateGoodsReceivedNoteData,
   CreatePurchaseData,
   CreatePurchaseItemData,
   UpdatePurchaseData,
@@ -56,7 +60,11 @@ export type {
   CreatePurchaseItemData,
   DatabasePurchase,
   DatabasePurchaseItem,
-  PurchaseWithItems
+  PurchaseWithItems,
+  GoodsReceivedNote,
+  GoodsReceivedNoteItem,
+  GoodsReceivedNoteWithItems,
+  CreateGoodsReceivedNoteData
 } from './purchases-types'
 
 // Request deduplication system moved to purchases-utils.ts
@@ -138,6 +146,25 @@ export async function getSuppliers(): Promise<DatabaseSupplier[]> {
   })
 }
 
+export async function getSupplierById(id: string): Promise<DatabaseSupplier | null> {
+  return apiCache.get(`supplier-${id}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching supplier:', error)
+      throw new Error('Failed to fetch supplier')
+    }
+
+    return data
+  })
+}
+
 // Use cached version from queries to prevent duplicate API calls
 import { getActiveWarehouses } from './queries'
 
@@ -217,6 +244,8 @@ export async function processAutomaticRefund(returnId: string, processedBy: stri
       }
     }
 
+    invalidatePayablesCaches()
+
     return data || {
       success: false,
       refund_transactions: [],
@@ -263,6 +292,8 @@ export async function updateRefundStatus(
     throw new Error('Failed to update refund status')
   }
 
+  invalidatePayablesCaches()
+
   return data
 }
 
@@ -279,15 +310,20 @@ export async function createPurchase(
     throw new Error('Purchase must have at least one item')
   }
 
-  // Calculate total amount
-  const totalAmount = items.reduce((sum, item) => sum + Number(item.total), 0)
+  // Refuse dates inside a locked accounting period
+  await assertPeriodOpen(purchaseData.purchase_date, 'Purchase')
+
+  // Calculate total amount; line totals are before tax
+  const taxAmount = items.reduce((sum, item) => sum + Number(item.tax_amount || 0), 0)
+  const totalAmount = items.reduce((sum, item) => sum + Number(item.total), 0) + taxAmount
 
   // Start a transaction by creating the purchase first
   const { data: purchase, error: purchaseError } = await supabase
     .from('purchases')
     .insert({
       ...purchaseData,
-      total_amount: totalAmount
+      total_amount: totalAmount,
+      tax_amount: taxAmount
     })
     .select()
     .single()
@@ -312,7 +348,12 @@ export async function createPurchase(
       quantity: Number(item.quantity),
       received_quantity: 0, // Default to 0 for new items
       purchase_price: Number(item.purchase_price),
-      total: Number(item.total)
+      unit_name: item.unit_name || null,
+      unit_factor: item.unit_factor || 1,
+      total: Number(item.total),
+      tax_code_id: item.tax_code_id || null,
+      tax_rate: Number(item.tax_rate || 0),
+      tax_amount: Number(item.tax_amount || 0)
     }
     
     // Validate required fields
@@ -368,6 +409,8 @@ export async function createPurchase(
 
   // Note: No journal entry created here - accounting entries are only created when goods are received or payments are made
 
+  invalidatePayablesCaches(purchase.supplier_id)
+
   return {
     ...purchase,
     items: createdItems || []
@@ -393,6 +436,8 @@ export async function updatePurchase(data: UpdatePurchaseData): Promise<Database
     throw new Error('Failed to update purchase')
   }
 
+  invalidatePayablesCaches(purchase.supplier_id)
+
   return purchase
 }
 
@@ -420,72 +465,72 @@ export async function updatePurchaseItemReceived(
   return item
 }
 
+// Set the purchase status from its received quantities, with the same rules
+// post_goods_received_note applies (sync_purchase_receipt_status)
 export async function updatePurchaseStatus(purchaseId: string, createTimelineEvent: boolean = true): Promise<DatabasePurchase> {
   const supabase = createClient()
 
-  // Get current purchase status for timeline
-  const { data: currentPurchase, error: currentError } = await supabase
-    .from('purchases')
-    .select('status')
-    .eq('id', purchaseId)
-    .single()
-
-  if (currentError) {
-    console.error('Error fetching current purchase:', currentError)
-    throw new Error('Failed to fetch current purchase')
-  }
-
-  // Get all items for this purchase
-  const { data: items, error: itemsError } = await supabase
-    .from('purchase_items')
-    .select('quantity, received_quantity')
-    .eq('purchase_id', purchaseId)
-
-  if (itemsError) {
-    console.error('Error fetching purchase items for status update:', itemsError)
-    throw new Error('Failed to fetch purchase items')
-  }
+  const { data: newStatus, error: syncError } = await supabase.rpc('sync_purchase_receipt_status', { p_purchase_id: purchaseId })
 
-  // Calculate totals
-  const totalOrdered = items.reduce((sum, item) => sum + item.quantity, 0)
-  const totalReceived = items.reduce((sum, item) => sum + item.received_quantity, 0)
-
-  // Determine new status
-  let newStatus: 'pending' | 'partially_received' | 'received' | 'cancelled'
-  if (totalReceived === 0) {
-    newStatus = 'cancelled'
-  } else if (totalReceived === totalOrdered) {
-    newStatus = 'received'
-  } else if (totalReceived > 0) {
-    newStatus = 'partially_received'
-  } else {
-    newStatus = 'pending'
+  if (syncError) {
+    console.error('Error syncing purchase receipt status:', syncError)
+    throw new Error('Failed to update purchase status')
   }
 
-  console.log(`Updating purchase ${purchaseId} status to: ${newStatus} (${totalReceived}/${totalOrdered})`)
+  console.log(`Updated purchase ${purchaseId} status to: ${newStatus}`)
 
-  // Update purchase status
   const { data: purchase, error } = await supabase
     .from('purchases')
-    .update({ 
-      status: newStatus,
-      last_updated: new Date().toISOString()
-    })
-    .eq('id', purchaseId)
     .select()
+    .eq('id', purchaseId)
     .single()
 
   if (error) {
-    console.error('Error updating purchase status:', error)
-    throw new Error('Failed to update purchase status')
+    console.error('Error fetching updated purchase:', error)
+    throw new Error('Failed to fetch updated purchase')
   }
 
   return purchase
 }
 
-// createReceiptTimelineEvent moved to purchases-utils.ts and imported above
+// createReceiptTimelineEvent moved to purchases-utils.ts
 export { createReceiptTimelineEvent } from './purchases-utils'
 
+// Goods-received notes live in purchases-receipts.ts
+export {
+  getGoodsReceivedNotes,
+  postGoodsReceivedNote,
+  cancelGoodsReceivedNote,
+  cancelPurchase,
+  GOODS_RECEIVED_NOTE_ERROR_MESSAGES
+} from './purchases-receipts'
+export type {
+  GoodsReceivedNoteErrorCode,
+  PostGoodsReceivedNoteResult,
+  CancelGoodsReceivedNoteResult,
+  CancelPurchaseResult
+} from './purchases-receipts'
+
+// Supplier balances, statements and aging live in purchases-payables.ts
+export {
+  getSupplierOpenBills,
+  getSupplierAging,
+  getSupplierStatement,
+  getPayablesAging,
+  calculatePayablesAging,
+  convertBillsToCurrency,
+  emptyPayablesAging,
+  addPayablesAging
+} from './purchases-payables'
+export type {
+  OpenBill,
+  PayablesAging,
+  SupplierStatement,
+  SupplierStatementEntry,
+  SupplierAgingRow,
+  PayablesAgingReport
+} from './purchases-payables'
+
 export async function deletePurchase(id: string): Promise<void> {
   const supabase = createClient()
 
@@ -498,6 +543,8 @@ export async function deletePurchase(id: string): Promise<void> {
     console.error('Error deleting purchase:', error)
     throw new Error('Failed to delete purchase')
   }
+
+  invalidatePayablesCaches()
 }
 
 // ProcessPurchaseReturnData type is now imported from purchases-types.ts
@@ -562,7 +609,7 @@ export async function processPurchaseReturn(
     // Get current purchase data for timeline and warehouse info
     const { data: currentPurchase, error: purchaseSelectError } = await supabase
       .from('purchases')
-      .select('status, total_amount, warehouse_id, created_by, supplier_name')
+      .select('status, total_amount, warehouse_id, created_by, supplier_name, exchange_rate')
       .eq('id', purchaseId)
       .single()
 
@@ -773,7 +820,8 @@ export async function processPurchaseReturn(
           returnJournalId,
           purchaseId,
           currentPurchase?.supplier_name || 'Unknown Supplier',
-          totalReturnAmount,
+          // Returned at the rate the goods were bought at
+          toBaseAmount(totalReturnAmount, currentPurchase?.exchange_rate),
           returnData.return_date,
           returnData.returned_by
         )
@@ -785,6 +833,7 @@ export async function processPurchaseReturn(
       }
     }
 
+    invalidatePayablesCaches()
     console.log(`Purchase return processed successfully for ${purchaseId}`)
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 
@@ -818,27 +867,32 @@ export { getPurchaseStats } from './purchases-utils'
 // backfillAllTimelineEvents moved to purchases-utils.ts and imported above
 export { backfillAllTimelineEvents } from './purchases-utils'
 
-// Enhanced function to update received quantities and create timeline events
+// Record a receipt update as a goods-received note.
+// Takes the absolute received quantities from the receipt form and posts the increase
+// on each line as one GRN; received quantities can only go down by cancelling a GRN.
 export async function updatePurchaseReceipt(
   purchaseId: string, 
-  itemUpdates: { itemId: string; receivedQuantity: number }[]
-): Promise<void> {
+  itemUpdates: { itemId: string; receivedQuantity: number; lotNumber?: string; expiryDate?: string | null; serialNumbers?: string[] }[],
+  receipt?: {
+    receivedDate?: string
+    receivedBy?: string
+    warehouseId?: string
+    warehouseName?: string
+    notes?: string
+  }
+): Promise<string | null> {
   try {
     console.log(`Updating receipt for purchase ${purchaseId} with ${itemUpdates.length} item updates`)
     
-    // Get purchase details for warehouse and stock updates
+    // Get purchase details for the current received quantities
     const purchase = await getPurchaseById(purchaseId)
     if (!purchase) {
       throw new Error('Purchase not found')
     }
     
-    // Track total quantity change for timeline event and calculate total received amount
-    let totalQuantityChange = 0
-    let totalReceivedAmount = 0
+    const lines: CreateGoodsReceivedNoteData['items'] = []
     
-    // Update each item's received quantity and warehouse stock
     for (const update of itemUpdates) {
-      // Get current item details to calculate stock change
       const currentItem = purchase.items.find(item => item.id === update.itemId)
       if (!currentItem) {
         console.error(`Item ${update.itemId} not found in purchase ${purchaseId}`)
@@ -847,92 +901,46 @@ export async function updatePurchaseReceipt(
       
       // Calculate the quantity difference (new received - previously received)
       const quantityDifference = update.receivedQuantity - currentItem.received_quantity
-      totalQuantityChange += quantityDifference
       
-      // Calculate the total amount for newly received items (for accounting)
-      if (quantityDifference > 0) {
-        totalReceivedAmount += quantityDifference * currentItem.purchase_price
+      if (quantityDifference < 0) {
+        throw new Error(`Received quantity for ${currentItem.item_name} can only be reduced by cancelling a goods-received note`)
       }
       
-      // Update purchase item received quantity (absolute value)
-      await updatePurchaseItemReceived(update.itemId, update.receivedQuantity)
-      
-      // Update warehouse stock only if there's a positive quantity change
       if (quantityDifference > 0) {
-        try {
-          if (currentItem.item_type === 'product') {
-            await updateWarehouseStockFunction({
-              productId: currentItem.item_id,
-              warehouseId: purchase.warehouse_id,
-              variationId: currentItem.variation_id || null,
-              quantityChange: quantityDifference,
-              movementType: 'purchase',
-              referenceId: purchaseId,
-              reason: `Purchase receipt - PO: ${purchaseId}`,
-              createdBy: purchase.created_by,
-              notes: `Stock added from purchase order ${purchaseId}`
-            })
-            console.log(`Updated warehouse stock for product ${currentItem.item_id}: +${quantityDifference}`)
-          } else if (currentItem.item_type === 'package') {
-            await updatePackagingWarehouseStockFunction({
-              packagingId: currentItem.item_id,
-              warehouseId: purchase.warehouse_id,
-              variationId: currentItem.variation_id || null,
-              quantityChange: quantityDifference,
-              movementType: 'purchase',
-              referenceId: purchaseId,
-              reason: `Purchase receipt - PO: ${purchaseId}`,
-              createdBy: purchase.created_by,
-              notes: `Packaging stock added from purchase order ${purchaseId}`
-            })
-            console.log(`Updated warehouse stock for packaging ${currentItem.item_id}: +${quantityDifference}`)
-          }
-        } catch (stockError) {
-          console.error(`Failed to update warehouse stock for item ${currentItem.item_id}:`, stockError)
-          // Continue with other items even if one fails
-        }
+        lines.push({
+          purchase_item_id: currentItem.id,
+          quantity: quantityDifference,
+          lot_number: update.lotNumber,
+          expiry_date: update.expiryDate || null,
+          serial_numbers: update.serialNumbers
+        })
       }
     }
     
-    // Update purchase status (without timeline event)
-    await updatePurchaseStatus(purchaseId, false)
-    
-    // 📊 ACCOUNTING INTEGRATION: Create journal entry for received goods (only if there's a positive amount)
-    if (totalReceivedAmount > 0) {
-      // Generate a unique receipt ID for the journal entry
-      const receiptJournalId = `RECEIPT-${purchaseId}-${Date.now()}`
-      
-      try {
-        console.log('💰 Creating journal entry for purchase receipt:', purchaseId)
-        console.log(`📋 Receipt Details: Amount: $${totalReceivedAmount.toFixed(2)}, Supplier: ${purchase.supplier_name}`)
-        
-        const journalEntryId = await createPurchaseReceiptJournalEntry(
-          receiptJournalId,
-          purchaseId,
-          purchase.supplier_name,
-          totalReceivedAmount,
-          new Date().toISOString().split('T')[0], // Today's date
-          purchase.created_by
-        )
-        
-        console.log(`✅ Journal entry created for purchase receipt: ${journalEntryId} (Amount: $${totalReceivedAmount.toFixed(2)})`)
-      } catch (journalError) {
-        const errorMessage = journalError instanceof Error ? journalError.message : String(journalError)
-        console.warn('⚠️ Purchase receipt accounting integration pending - database function not yet implemented')
-        console.warn(`📝 Would create journal entry: Receipt ${receiptJournalId} for $${totalReceivedAmount.toFixed(2)}`)
-        console.warn(`🔧 To enable: Create database function 'create_purchase_receipt_journal_entry'`)
-        
-        // Log the error details for debugging but don't fail the operation
-        if (!errorMessage.includes('does not exist')) {
-          console.error('⚠️ Unexpected accounting error:', journalError)
-        }
-      }
+    // Nothing new received: the status follows the received quantities as it does after a
+    // GRN, so a purchase with nothing received stays pending
+    if (lines.length === 0) {
+      await updatePurchaseStatus(purchaseId, false)
+      apiCache.invalidate(`purchase-${purchaseId}`)
+      return null
     }
     
-    // Create receipt timeline event with actual quantity change
-    await createReceiptTimelineEvent(purchaseId, totalQuantityChange)
+    const result = await postGoodsReceivedNote({
+      purchase_id: purchaseId,
+      warehouse_id: receipt?.warehouseId || purchase.warehouse_id,
+      warehouse_name: receipt?.warehouseName || (receipt?.warehouseId ? undefined : purchase.warehouse_name),
+      received_date: receipt?.receivedDate || new Date().toISOString().split('T')[0],
+      received_by: receipt?.receivedBy || purchase.created_by,
+      notes: receipt?.notes,
+      items: lines
+    }, receipt?.receivedBy || purchase.created_by)
+    
+    if (!result.success) {
+      throw new Error(`${GOODS_RECEIVED_NOTE_ERROR_MESSAGES[result.error_code]}: ${result.error_message}`)
+    }
     
-    console.log(`Successfully updated receipt for ${purchaseId}`)
+    console.log(`Successfully updated receipt for ${purchaseId} with ${result.grn_id}`)
+    return result.grn_id
   } catch (error) {
     console.error('Error updating purchase receipt:', error)
     throw error
@@ -962,29 +970,75 @@ export async function getPurchasePayments(purchaseId: string): Promise<PurchaseP
   })
 }
 
-// Create a new payment for a purchase
+// Error codes returned by the record_purchase_payment database function
+export type PurchasePaymentErrorCode =
+  | 'INVALID_PAYMENT'
+  | 'PURCHASE_NOT_FOUND'
+  | 'PAYMENT_INSERT_FAILED'
+  | 'JOURNAL_FAILED'
+  | 'NETWORK_ERROR'
+
+type RecordPurchasePaymentResult =
+  | {
+      success: true
+      payment_id: string
+      journal_entry_id: string | null
+      exchange_difference: number
+      exchange_journal_entry_id: string | null
+    }
+  | {
+      success: false
+      error_code: PurchasePaymentErrorCode
+      error_message: string
+    }
+
+// User-facing messages for each record_purchase_payment error code
+export const PURCHASE_PAYMENT_ERROR_MESSAGES: Record<PurchasePaymentErrorCode, string> = {
+  INVALID_PAYMENT: 'The payment amount or exchange rate is not valid',
+  PURCHASE_NOT_FOUND: 'The purchase could not be found',
+  PAYMENT_INSERT_FAILED: 'The payment could not be saved',
+  JOURNAL_FAILED: 'The accounting entry for this payment could not be created',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+// Create a new payment for a purchase.
+// The payment, its journal and any exchange gain or loss are committed together by
+// record_purchase_payment; if any of them fails nothing is saved and this throws.
 export async function createPurchasePayment(paymentData: CreatePurchasePaymentData): Promise<PurchasePayment> {
   const supabase = createClient()
-  
-  // Generate payment ID
-  const paymentId = `PAY-${Date.now()}`
-  
+  const { created_by: createdBy, ...payment } = paymentData
+
+  const { data: rpcData, error: rpcError } = await supabase.rpc('record_purchase_payment', {
+    p_payment: payment,
+    p_created_by: createdBy
+  })
+
+  const result: RecordPurchasePaymentResult = rpcError
+    ? { success: false, error_code: 'NETWORK_ERROR', error_message: rpcError.message || 'Failed to record payment' }
+    : rpcData as RecordPurchasePaymentResult
+
+  if (!result.success) {
+    console.error(`❌ Purchase payment rolled back (${result.error_code}):`, result.error_message)
+    throw new Error(`${PURCHASE_PAYMENT_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+  }
+
+  const paymentId = result.payment_id
+
   const { data, error } = await supabase
     .from('purchase_payments')
-    .insert([{
-      id: paymentId,
-      ...paymentData
-    }])
-    .select()
+    .select('*')
+    .eq('id', paymentId)
     .single()
 
   if (error) {
-    console.error('Error creating purchase payment:', error)
+    console.error('Error fetching recorded purchase payment:', error)
     throw error
   }
 
   // The database triggers will automatically update the purchase amount_paid and payment_status
-  console.log(`✅ Created payment ${paymentId} for purchase ${paymentData.purchase_id}`)
+  console.log(`✅ Created payment ${paymentId} for purchase ${paymentData.purchase_id} (journal ${result.journal_entry_id})`)
+  invalidatePayablesCaches()
+  const currency = data.currency || BASE_CURRENCY
   
   // 📅 TIMELINE: Create timeline event for the payment
   try {
@@ -1019,7 +1073,7 @@ export async function createPurchasePayment(paymentData: CreatePurchasePaymentDa
         purchase_id: paymentData.purchase_id,
         event_type: 'payment_made',
         event_title: `Payment Received`,
-        event_description: `Payment of ৳${paymentData.amount.toLocaleString()} received via ${paymentData.payment_method.replace('_', ' ')}. Purchase is now ${paymentStatusText}.`,
+        event_description: `Payment of ${isBaseCurrency(currency) ? '৳' : `${currency} `}${paymentData.amount.toLocaleString()} received via ${paymentData.payment_method.replace('_', ' ')}. Purchase is now ${paymentStatusText}.`,
         payment_amount: paymentData.amount,
         payment_method: paymentData.payment_method,
         payment_id: paymentId,
@@ -1033,35 +1087,6 @@ export async function createPurchasePayment(paymentData: CreatePurchasePaymentDa
     // Don't throw error - payment was successful, timeline failed
   }
   
-  // 📊 ACCOUNTING INTEGRATION: Create journal entry for the payment
-  try {
-    // Get purchase details for supplier name
-    const purchase = await getPurchaseById(paymentData.purchase_id)
-    if (purchase) {
-      console.log('💰 Creating journal entry for payment:', paymentId)
-      const journalEntryId = await createPaymentJournalEntry(
-        paymentId,
-        paymentData.purchase_id,
-        purchase.supplier_name,
-        paymentData.amount,
-        paymentData.payment_date,
-        paymentData.payment_method,
-        paymentData.created_by
-      )
-      
-      // Update payment record with journal entry ID
-      await supabase
-        .from('purchase_payments')
-        .update({ journal_entry_id: journalEntryId })
-        .eq('id', paymentId)
-      
-      console.log('✅ Journal entry created for payment:', journalEntryId)
-    }
-  } catch (journalError) {
-    console.error('⚠️ Failed to create journal entry for payment:', journalError)
-    // Don't throw error - payment was successful, accounting entry failed
-  }
-  
   return data
 }
 
@@ -1128,7 +1153,8 @@ export async function voidPurchasePayment(paymentId: string, voidReason?: string
           reversalPaymentId,
           originalPayment.purchase_id,
           purchase.supplier_name,
-          originalPayment.amount, // Positive amount - reversal logic is in the function
+          // Positive amount - reversal logic is in the function; in taka at the payment rate
+          toBaseAmount(Number(originalPayment.amount), originalPayment.exchange_rate),
           new Date().toISOString().split('T')[0],
           originalPayment.payment_method,
           originalPayment.created_by || 'system',
@@ -1136,6 +1162,18 @@ export async function voidPurchasePayment(paymentId: string, voidReason?: string
         )
         
         console.log('✅ Reversal journal entry created for voided payment:', reversalJournalEntryId)
+
+        // The realised gain or loss goes with the payment
+        if (originalPayment.exchange_journal_entry_id) {
+          const fxReversal = await reverseJournalEntry(originalPayment.exchange_journal_entry_id, {
+            reason: `Payment ${paymentId} voided${voidReason ? `: ${voidReason}` : ''}`,
+            created_by: originalPayment.created_by || 'system'
+          })
+
+          if (!fxReversal.success) {
+            console.error('⚠️ Failed to reverse exchange difference for voided payment:', fxReversal.error_message)
+          }
+        }
       }
     } catch (journalError) {
       console.error('⚠️ Failed to create reversal journal entry for voided payment:', journalError)
@@ -1151,7 +1189,7 @@ export async function voidPurchasePayment(paymentId: string, voidReason?: string
         purchase_id: originalPayment.purchase_id,
         event_type: 'payment_voided',
         event_title: `Payment Voided`,
-        event_description: `Payment of ৳${originalPayment.amount.toLocaleString()} was voided. ${voidReason ? `Reason: ${voidReason}` : ''}`,
+        event_description: `Payment of ${isBaseCurrency(originalPayment.currency) ? '৳' : `${originalPayment.currency} `}${originalPayment.amount.toLocaleString()} was voided. ${voidReason ? `Reason: ${voidReason}` : ''}`,
         payment_amount: originalPayment.amount,
         payment_method: originalPayment.payment_method,
         payment_id: paymentId,
@@ -1165,6 +1203,7 @@ export async function voidPurchasePayment(paymentId: string, voidReason?: string
   }
 
   console.log(`↩️ Voided payment ${paymentId}`)
+  invalidatePayablesCaches()
   
   return voidedPayment
 }
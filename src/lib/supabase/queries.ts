@@ -5,13 +5,18 @@ export interface DatabaseProduct {
   id: string
   name: string
   sku?: string
+  barcode?: string
   description: string
   price?: number
   category_id?: string
+  tax_code_id?: string
   status: 'active' | 'inactive'
-  type: 'simple' | 'variation'
+  type: 'simple' | 'variation' | 'bundle'
   image_url?: string
   parent_sku?: string
+  track_lots?: boolean
+  track_serials?: boolean
+  base_unit?: string
   created_at: string
   updated_at: string
   // Joined data
@@ -21,6 +26,10 @@ export interface DatabaseProduct {
     slug: string
   }
   variations?: DatabaseProductVariation[]
+  product_units?: {
+    name: string
+    conversion_factor: number
+  }[]
   attributes?: {
     id: string
     name: string
@@ -32,6 +41,7 @@ export interface DatabaseProductVariation {
   id: string
   product_id: string
   sku: string
+  barcode?: string
   price: number
   created_at: string
   updated_at: string
@@ -49,6 +59,7 @@ export interface DatabaseCategory {
   slug: string
   description?: string
   parent_id?: string
+  tax_code_id?: string
   status: 'active' | 'inactive'
   created_at: string
   updated_at: string
@@ -113,6 +124,7 @@ export interface DatabasePackaging {
   description?: string
   type: 'simple' | 'variable'
   sku?: string
+  barcode?: string
   status: 'active' | 'inactive'
   created_at: string
   updated_at: string
@@ -125,6 +137,7 @@ export interface DatabasePackagingVariation {
   id: string
   packaging_id: string
   sku: string
+  barcode?: string
   created_at: string
   updated_at: string
   attribute_values?: {
@@ -158,7 +171,8 @@ export async function getProducts(): Promise<DatabaseProduct[]> {
       .from('products')
       .select(`
         *,
-        category:categories(id, name, slug)
+        category:categories(id, name, slug),
+        product_units(name, conversion_factor)
       `)
       .order('created_at', { ascending: false })
 
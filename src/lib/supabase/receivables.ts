@@ -0,0 +1,395 @@
+/**
+ * Customer Receivables Module
+ *
+ * Outstanding balances per sale come from the customer_invoice_balances view
+ * (sale total less active payments and customer returns). On top of that this
+ * module builds each customer's open invoices, a running statement and the
+ * 0–30 / 31–60 / 61–90 / 90+ day aging report.
+ *
+ * Invoices keep the currency they were sold in. A customer's statement is in the
+ * customer's currency (or in taka if any of their sales was made in another),
+ * and aging converts every invoice to taka at its sale rate.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from './client'
+import { apiCache } from './cache'
+import { BASE_CURRENCY, toBaseAmount } from './currencies'
+import {
+  calculateAging,
+  addAgingBuckets,
+  emptyAgingBuckets,
+  getDaysOutstanding,
+  type AgingBuckets
+} from '@/lib/utils/aging'
+
+// Balances below half a paisa are treated as settled
+const SETTLED_THRESHOLD = 0.005
+
+// A sale with money still owed on it (row of the customer_invoice_balances view)
+export interface OpenInvoice {
+  sale_id: string
+  customer_id: string | null
+  customer_name: string
+  sale_date: string
+  status: string | null
+  total_amount: number
+  amount_paid: number
+  amount_returned: number
+  outstanding_amount: number
+  currency: string
+  exchange_rate: number
+  days_outstanding: number
+}
+
+export type StatementEntryType = 'invoice' | 'payment' | 'return'
+
+// Raw row of the customer_invoice_balances view (numerics may arrive as strings)
+interface InvoiceBalanceRow {
+  sale_id: string
+  customer_id: string | null
+  customer_name: string
+  sale_date: string
+  status: string | null
+  total_amount: number | string
+  amount_paid: number | string
+  amount_returned: number | string
+  outstanding_amount: number | string
+  currency: string | null
+  exchange_rate: number | string | null
+}
+
+interface StatementSaleRow {
+  id: string
+  sale_date: string
+  total_amount: number
+  currency: string | null
+  exchange_rate: number | null
+}
+
+interface StatementPaymentRow {
+  id: string
+  sale_id: string
+  amount: number
+  payment_method: string
+  payment_date: string
+}
+
+interface StatementReturnRow {
+  id: string
+  sale_id: string | null
+  total_amount: number
+  return_date: string
+}
+
+// One line of a customer statement; debits raise the balance, credits lower it
+export interface StatementEntry {
+  date: string
+  type: StatementEntryType
+  reference: string
+  sale_id: string | null
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export interface CustomerStatement {
+  customer_id: string
+  from: string | null
+  to: string | null
+  // Every amount on the statement is in this currency
+  currency: string
+  opening_balance: number
+  total_debits: number
+  total_credits: number
+  closing_balance: number
+  entries: StatementEntry[]
+}
+
+// One customer's row on the aging report
+export interface CustomerAgingRow {
+  customer_id: string | null
+  customer_name: string
+  invoice_count: number
+  oldest_invoice_date: string
+  buckets: AgingBuckets
+}
+
+export interface ReceivablesAgingReport {
+  as_of: string
+  rows: CustomerAgingRow[]
+  totals: AgingBuckets
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function toOpenInvoice(row: InvoiceBalanceRow, asOf: Date): OpenInvoice {
+  return {
+    sale_id: row.sale_id,
+    customer_id: row.customer_id,
+    customer_name: row.customer_name,
+    sale_date: row.sale_date,
+    status: row.status,
+    total_amount: Number(row.total_amount),
+    amount_paid: Number(row.amount_paid),
+    amount_returned: Number(row.amount_returned),
+    outstanding_amount: Number(row.outstanding_amount),
+    currency: row.currency || BASE_CURRENCY,
+    exchange_rate: Number(row.exchange_rate || 1),
+    days_outstanding: getDaysOutstanding(row.sale_date, asOf)
+  }
+}
+
+// Invoices restated in one currency: invoices already in it are unchanged, others go to taka
+// at their sale rate (so pass BASE_CURRENCY to total invoices in different currencies)
+export function convertInvoicesToCurrency(invoices: OpenInvoice[], currency: string): OpenInvoice[] {
+  return invoices.map(invoice => {
+    if (invoice.currency === currency) return invoice
+    const convert = (amount: number) => toBaseAmount(amount, invoice.exchange_rate)
+    return {
+      ...invoice,
+      total_amount: convert(invoice.total_amount),
+      amount_paid: convert(invoice.amount_paid),
+      amount_returned: convert(invoice.amount_returned),
+      outstanding_amount: convert(invoice.outstanding_amount),
+      currency: BASE_CURRENCY,
+      exchange_rate: 1
+    }
+  })
+}
+
+// Clear cached balances after a sale, payment or return changes them.
+// Without a customer every receivables cache is cleared.
+export function invalidateReceivablesCaches(customerId?: string | null) {
+  if (!customerId) {
+    apiCache.invalidateByPattern('receivables-')
+    return
+  }
+  apiCache.invalidate('receivables-aging')
+  apiCache.invalidateByPattern(`receivables-${customerId}`)
+}
+
+// Open invoices for a customer, oldest first
+export async function getCustomerOpenInvoices(customerId: string, asOf: Date = new Date()): Promise<OpenInvoice[]> {
+  const rows = await apiCache.get(`receivables-${customerId}-open`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('customer_invoice_balances')
+      .select('*')
+      .eq('customer_id', customerId)
+      .gt('outstanding_amount', SETTLED_THRESHOLD)
+      .order('sale_date', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching open invoices:', error)
+      throw new Error('Failed to fetch open invoices')
+    }
+
+    return (data || []) as InvoiceBalanceRow[]
+  })
+
+  return rows.map(row => toOpenInvoice(row, asOf))
+}
+
+// Aging buckets for one customer's open invoices, in taka
+export async function getCustomerAging(customerId: string, asOf: Date = new Date()): Promise<AgingBuckets> {
+  const invoices = convertInvoicesToCurrency(await getCustomerOpenInvoices(customerId, asOf), BASE_CURRENCY)
+  return calculateAging(invoices.map(invoice => ({ date: invoice.sale_date, amount: invoice.outstanding_amount })), asOf)
+}
+
+// Running statement of invoices, payments and returns for a customer.
+// Activity before `from` is rolled into the opening balance.
+export async function getCustomerStatement(
+  customerId: string,
+  from?: string,
+  to?: string
+): Promise<CustomerStatement> {
+  return apiCache.get(
+    `receivables-${customerId}-statement-${from || 'start'}-${to || 'now'}`,
+    () => fetchCustomerStatement(createClient(), customerId, from, to)
+  )
+}
+
+// Build the statement with any client, so the printed statement matches the ledger
+export async function fetchCustomerStatement(
+  supabase: SupabaseClient,
+  customerId: string,
+  from?: string,
+  to?: string
+): Promise<CustomerStatement> {
+  const [{ data: customer, error: customerError }, { data: sales, error: salesError }] = await Promise.all([
+    supabase
+      .from('customers')
+      .select('currency')
+      .eq('id', customerId)
+      .single(),
+    supabase
+      .from('sales')
+      .select('id, sale_date, total_amount, status, currency, exchange_rate')
+      .eq('customer_id', customerId)
+      .neq('status', 'cancelled')
+  ])
+
+  if (customerError || salesError) {
+    console.error('Error fetching customer sales for statement:', customerError || salesError)
+    throw new Error('Failed to fetch customer statement')
+  }
+
+  const saleRows = (sales || []) as StatementSaleRow[]
+  const saleIds = saleRows.map(sale => sale.id)
+
+  // In the customer's currency, unless some sales were made in another; then in taka.
+  // Everything on a sale is stated at its sale rate, so payments and returns clear invoices exactly.
+  const customerCurrency = (customer as { currency: string | null } | null)?.currency || BASE_CURRENCY
+  const currency = saleRows.every(sale => (sale.currency || BASE_CURRENCY) === customerCurrency)
+    ? customerCurrency
+    : BASE_CURRENCY
+  const salesById = new Map(saleRows.map(sale => [sale.id, sale]))
+  const inStatementCurrency = (saleId: string | null, amount: number) => {
+    const sale = saleId ? salesById.get(saleId) : undefined
+    return (sale?.currency || BASE_CURRENCY) === currency
+      ? amount
+      : toBaseAmount(amount, sale?.exchange_rate)
+  }
+
+  const [paymentsResult, returnsResult] = await Promise.all([
+    saleIds.length > 0
+      ? supabase
+          .from('sale_payments')
+          .select('id, sale_id, amount, payment_method, payment_date')
+          .in('sale_id', saleIds)
+          .eq('status', 'active')
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('returns')
+      .select('id, sale_id, total_amount, return_date, status')
+      .eq('customer_id', customerId)
+      .neq('status', 'rejected')
+  ])
+
+  if (paymentsResult.error || returnsResult.error) {
+    console.error('Error fetching statement activity:', paymentsResult.error || returnsResult.error)
+    throw new Error('Failed to fetch customer statement')
+  }
+
+  const activity: Omit<StatementEntry, 'balance'>[] = [
+    ...saleRows.map(sale => ({
+      date: (sale.sale_date || '').split('T')[0],
+      type: 'invoice' as const,
+      reference: sale.id,
+      sale_id: sale.id,
+      description: `Invoice ${sale.id}`,
+      debit: inStatementCurrency(sale.id, Number(sale.total_amount)),
+      credit: 0
+    })),
+    ...((paymentsResult.data || []) as StatementPaymentRow[]).map(payment => ({
+      date: (payment.payment_date || '').split('T')[0],
+      type: 'payment' as const,
+      reference: payment.id,
+      sale_id: payment.sale_id,
+      description: `Payment (${payment.payment_method.replace('_', ' ')}) - ${payment.sale_id}`,
+      debit: 0,
+      credit: inStatementCurrency(payment.sale_id, Number(payment.amount))
+    })),
+    ...((returnsResult.data || []) as StatementReturnRow[]).map(ret => ({
+      date: (ret.return_date || '').split('T')[0],
+      type: 'return' as const,
+      reference: ret.id,
+      sale_id: ret.sale_id,
+      description: `Return ${ret.id}${ret.sale_id ? ` - ${ret.sale_id}` : ''}`,
+      debit: 0,
+      credit: inStatementCurrency(ret.sale_id, Number(ret.total_amount))
+    }))
+  ]
+
+  // Same-day activity lists the invoice before what settles it
+  const typeOrder: Record<StatementEntryType, number> = { invoice: 0, payment: 1, return: 2 }
+  activity.sort((a, b) => a.date.localeCompare(b.date) || typeOrder[a.type] - typeOrder[b.type])
+
+  let openingBalance = 0
+  let balance = 0
+  let totalDebits = 0
+  let totalCredits = 0
+  const entries: StatementEntry[] = []
+
+  for (const entry of activity) {
+    if (to && entry.date > to) continue
+
+    if (from && entry.date < from) {
+      openingBalance += entry.debit - entry.credit
+      balance = openingBalance
+      continue
+    }
+
+    balance += entry.debit - entry.credit
+    totalDebits += entry.debit
+    totalCredits += entry.credit
+    entries.push({ ...entry, balance })
+  }
+
+  return {
+    customer_id: customerId,
+    from: from || null,
+    to: to || null,
+    currency,
+    opening_balance: openingBalance,
+    total_debits: totalDebits,
+    total_credits: totalCredits,
+    closing_balance: openingBalance + totalDebits - totalCredits,
+    entries
+  }
+}
+
+// Receivables aging across all customers in taka, largest balance first.
+// Sales without a customer record are grouped under their customer name.
+export async function getReceivablesAging(asOf: Date = new Date()): Promise<ReceivablesAgingReport> {
+  const rows = await apiCache.get('receivables-aging', async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('customer_invoice_balances')
+      .select('*')
+      .gt('outstanding_amount', SETTLED_THRESHOLD)
+      .order('sale_date', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching receivables aging:', error)
+      throw new Error('Failed to fetch receivables aging')
+    }
+
+    return (data || []) as InvoiceBalanceRow[]
+  })
+
+  const byCustomer = new Map<string, CustomerAgingRow>()
+
+  convertInvoicesToCurrency(rows.map(row => toOpenInvoice(row, asOf)), BASE_CURRENCY).forEach(invoice => {
+    const key = invoice.customer_id || `name:${invoice.customer_name}`
+    const existing = byCustomer.get(key) || {
+      customer_id: invoice.customer_id,
+      customer_name: invoice.customer_name,
+      invoice_count: 0,
+      oldest_invoice_date: invoice.sale_date,
+      buckets: emptyAgingBuckets()
+    }
+
+    existing.invoice_count += 1
+    if (invoice.sale_date < existing.oldest_invoice_date) {
+      existing.oldest_invoice_date = invoice.sale_date
+    }
+    addAgingBuckets(existing.buckets, calculateAging([{ date: invoice.sale_date, amount: invoice.outstanding_amount }], asOf))
+    byCustomer.set(key, existing)
+  })
+
+  const agingRows = Array.from(byCustomer.values()).sort((a, b) => b.buckets.total - a.buckets.total)
+  const totals = agingRows.reduce((sum, row) => addAgingBuckets(sum, row.buckets), emptyAgingBuckets())
+
+  return {
+    as_of: toDateString(asOf),
+    rows: agingRows,
+    totals
+  }
+}
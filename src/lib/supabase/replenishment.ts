@@ -0,0 +1,208 @@
+/**
+ * Replenishment Module
+ *
+ * Min/max reorder points per item variation and warehouse, and purchase suggestions
+ * from get_replenishment_suggestions, which weighs stock on hand and on order against
+ * recent sales velocity and supplier lead times. Accepted suggestions become one
+ * pending purchase per supplier through createPurchase.
+ */
+
+import { createClient } from './client'
+import { apiCache } from './cache'
+import {
+  createPurchase,
+  type CreatePurchaseItemData,
+  type PurchaseWithItems
+} from './purchases'
+import { logPurchaseCreate } from './activity-logger'
+
+export type ReplenishmentItemType = 'product' | 'package'
+
+export interface ReorderPoint {
+  id: string
+  item_type: ReplenishmentItemType
+  item_id: string
+  variation_id: string | null
+  warehouse_id: string
+  reorder_point: number
+  max_stock: number | null
+  preferred_supplier_id: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ReplenishmentSuggestion {
+  item_type: ReplenishmentItemType
+  item_id: string
+  variation_id: string | null
+  item_name: string
+  sku: string | null
+  current_stock: number
+  available_stock: number
+  on_order: number
+  reorder_point_id: string | null
+  reorder_point: number | null
+  max_stock: number | null
+  units_sold: number
+  daily_velocity: number
+  supplier_id: string | null
+  supplier_name: string | null
+  lead_time_days: number | null
+  unit_price: number
+  reorder_level: number
+  target_stock: number
+  suggested_quantity: number
+}
+
+export interface SaveReorderPointData {
+  id?: string | null
+  item_type: ReplenishmentItemType
+  item_id: string
+  variation_id: string | null
+  warehouse_id: string
+  reorder_point: number
+  max_stock: number | null
+  preferred_supplier_id: string | null
+}
+
+// One accepted suggestion line for the purchase of its supplier
+export interface ReplenishmentOrderLine {
+  item_type: ReplenishmentItemType
+  item_id: string
+  variation_id: string | null
+  item_name: string
+  supplier_id: string
+  supplier_name: string
+  quantity: number
+  unit_price: number
+}
+
+export const DEFAULT_VELOCITY_DAYS = 30
+
+// Key that identifies an item variation across suggestions and settings
+export function getReplenishmentItemKey(item: { item_type: string; item_id: string; variation_id: string | null }): string {
+  return `${item.item_type}-${item.item_id}-${item.variation_id || 'base'}`
+}
+
+export async function getReplenishmentSuggestions(
+  warehouseId: string,
+  velocityDays: number = DEFAULT_VELOCITY_DAYS
+): Promise<ReplenishmentSuggestion[]> {
+  return apiCache.get(`replenishment-${warehouseId}-${velocityDays}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase.rpc('get_replenishment_suggestions', {
+      p_warehouse_id: warehouseId,
+      p_velocity_days: velocityDays
+    })
+
+    if (error) {
+      console.error('Error fetching replenishment suggestions:', error)
+      throw new Error('Failed to calculate replenishment suggestions')
+    }
+
+    return ((data || []) as ReplenishmentSuggestion[]).map(row => ({
+      ...row,
+      daily_velocity: Number(row.daily_velocity),
+      unit_price: Number(row.unit_price)
+    }))
+  })
+}
+
+function invalidateReplenishmentCaches() {
+  apiCache.invalidateByPattern('replenishment-')
+}
+
+// Create or update the min/max setting of one item in one warehouse
+export async function saveReorderPoint(data: SaveReorderPointData, createdBy: string): Promise<ReorderPoint> {
+  const supabase = createClient()
+  const { id, ...values } = data
+
+  if (values.max_stock !== null && values.max_stock < values.reorder_point) {
+    throw new Error('The maximum stock cannot be below the reorder point')
+  }
+
+  const query = id
+    ? supabase.from('reorder_points').update(values).eq('id', id)
+    : supabase.from('reorder_points').insert({ ...values, created_by: createdBy })
+
+  const { data: saved, error } = await query.select().single()
+
+  if (error) {
+    console.error('Error saving reorder point:', error)
+    throw new Error(error.message || 'Failed to save the reorder point')
+  }
+
+  invalidateReplenishmentCaches()
+  return saved as ReorderPoint
+}
+
+export async function deleteReorderPoint(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('reorder_points')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting reorder point:', error)
+    throw new Error('Failed to remove the reorder point')
+  }
+
+  invalidateReplenishmentCaches()
+}
+
+// Create one pending purchase per supplier from the accepted suggestion lines
+export async function createReplenishmentPurchases(
+  warehouse: { id: string; name: string },
+  lines: ReplenishmentOrderLine[],
+  createdBy: string
+): Promise<PurchaseWithItems[]> {
+  const bySupplier = new Map<string, ReplenishmentOrderLine[]>()
+  for (const line of lines) {
+    if (line.quantity <= 0) continue
+    bySupplier.set(line.supplier_id, [...(bySupplier.get(line.supplier_id) || []), line])
+  }
+
+  const purchaseDate = new Date().toISOString().split('T')[0]
+  const created: PurchaseWithItems[] = []
+
+  for (const supplierLines of bySupplier.values()) {
+    const { supplier_id, supplier_name } = supplierLines[0]
+    const items: CreatePurchaseItemData[] = supplierLines.map(line => ({
+      item_id: line.item_id,
+      item_type: line.item_type,
+      item_name: line.item_name,
+      variation_id: line.variation_id || undefined,
+      quantity: line.quantity,
+      purchase_price: line.unit_price,
+      total: Math.round(line.quantity * line.unit_price * 100) / 100
+    }))
+
+    const purchase = await createPurchase({
+      supplier_id,
+      supplier_name,
+      warehouse_id: warehouse.id,
+      warehouse_name: warehouse.name,
+      purchase_date: purchaseDate,
+      created_by: createdBy,
+      notes: 'Created from replenishment suggestions'
+    }, items)
+
+    await logPurchaseCreate(purchase.id, supplier_name, Number(purchase.total_amount), {
+      items: items.length,
+      warehouse: warehouse.name,
+      source: 'replenishment'
+    }).catch(error => {
+      console.warn('Failed to log purchase creation:', error)
+    })
+
+    created.push(purchase)
+  }
+
+  // On-order quantities changed
+  invalidateReplenishmentCaches()
+  return created
+}
@@ -2,8 +2,13 @@ import { createClient } from './client'
 import type { Database, Customer, Sale, SaleItem, Return, ReturnItem, SaleWithItems, ReturnWithItems } from './types'
 import { transformDatabaseProductToProduct } from './transforms'
 import type { Product, ProductVariation, Packaging, PackagingVariation } from '../types'
-import { createSaleJournalEntry, createReturnJournalEntry } from './accounts-client'
 import { apiCache } from './cache'
+import { invalidateReceivablesCaches } from './receivables'
+import type { SaleItemLotSelection } from './stock-lots'
+import { getBundleAvailability } from './product-bundles'
+import type { AppliedPromotion } from './promotions'
+import { isBaseCurrency } from './currencies'
+import { reverseJournalEntry } from './accounts-client'
 
 export type { Customer, Sale, SaleItem, Return, ReturnItem, SaleWithItems, ReturnWithItems }
 
@@ -21,7 +26,7 @@ function getSupabaseClient() {
 const supabase = getSupabaseClient()
 
 // Warehouse operations - use cached version from queries
-import { getActiveWarehouses } from './queries'
+import { getActiveWarehouses, type DatabaseProduct } from './queries'
 
 export const getWarehouses = async () => {
   return await getActiveWarehouses()
@@ -33,6 +38,7 @@ export const getProducts = async (): Promise<Product[]> => {
     .from('products')
     .select(`
       *,
+      product_units (name, conversion_factor),
       product_variations (
         *,
         product_variation_attributes (
@@ -82,6 +88,7 @@ export const getProductsByWarehouse = async (warehouseId: string): Promise<Produ
       variation_id,
       products!inner (
         *,
+        product_units (name, conversion_factor),
         product_variations (
           *,
           product_variation_attributes (
@@ -140,6 +147,33 @@ export const getProductsByWarehouse = async (warehouseId: string): Promise<Produ
     }
   })
 
+  // Bundles have no stock rows of their own: they are available as far as their components go
+  const bundleAvailability = await getBundleAvailability(warehouseId)
+  const bundleIds = Object.keys(bundleAvailability).filter(id => bundleAvailability[id] > 0)
+  if (bundleIds.length > 0) {
+    const { data: bundles, error: bundlesError } = await supabase
+      .from('products')
+      .select('*, product_units (name, conversion_factor)')
+      .in('id', bundleIds)
+      .eq('status', 'active')
+      .order('name')
+
+    if (bundlesError) {
+      console.error('❌ getProductsByWarehouse() - Error fetching bundles:', bundlesError)
+      throw bundlesError
+    }
+
+    ((bundles || []) as DatabaseProduct[]).forEach(bundle => {
+      productMap.set(bundle.id, {
+        ...bundle,
+        variations: [],
+        stock: bundleAvailability[bundle.id],
+        warehouse_stock: bundleAvailability[bundle.id],
+        warehouse_id: warehouseId
+      })
+    })
+  }
+
   const products = Array.from(productMap.values()).map(productWithVariations => {
     console.log('🔍 Raw product data before transformation:', {
       id: productWithVariations.id,
@@ -181,6 +215,7 @@ export const getProductById = async (id: string): Promise<Product> => {
     .from('products')
     .select(`
       *,
+      product_units (name, conversion_factor),
       product_variations (
         *,
         product_variation_attributes (
@@ -625,72 +660,192 @@ export const getSaleById = async (id: string) => {
   return { sale, customer }
 }
 
-export const createSale = async (
-  sale: Database['public']['Tables']['sales']['Insert'],
-  items: Database['public']['Tables']['sale_items']['Insert'][]
-) => {
-  const { data: saleData, error: saleError } = await supabase
-    .from('sales')
-    .insert(sale)
-    .select()
-    .single()
+// Error codes returned by the post_sale database function
+export type PostSaleErrorCode =
+  | 'INVALID_SALE'
+  | 'INSUFFICIENT_STOCK'
+  | 'INSUFFICIENT_PACKAGING_STOCK'
+  | 'SALE_INSERT_FAILED'
+  | 'STOCK_UPDATE_FAILED'
+  | 'JOURNAL_FAILED'
+  | 'PAYMENT_FAILED'
+  | 'ORDER_FULFILMENT_FAILED'
+  | 'INVALID_LOT'
+  | 'INVALID_SERIAL'
+  | 'INVALID_PROMOTION'
+  | 'PERIOD_LOCKED'
+  | 'NETWORK_ERROR'
+
+// Optional payment collected at checkout, posted together with the sale
+export interface PostSalePaymentInput {
+  account_id: string
+  amount: number
+  payment_method: 'cash' | 'bank_transfer' | 'check' | 'credit_card' | 'other'
+  payment_date?: string
+  notes?: string
+  // Cash handed over when it is more than the amount; the difference is given as change
+  amount_tendered?: number
+}
 
-  if (saleError) throw saleError
-
-  console.log('🔧 Original sale items before cleaning:', items)
-
-  // Insert sale items with the sale ID, being very explicit about what fields to include
-  const saleItems = items.map((item, index) => {
-    // Be very explicit about what fields we want to include
-    const cleanItem = {
-      product_id: item.product_id,
-      product_name: item.product_name,
-      variation_id: item.variation_id || null,
-      packaging_id: item.packaging_id || null,
-      packaging_name: item.packaging_name || null,
-      packaging_variation_id: item.packaging_variation_id || null,
-      quantity: item.quantity,
-      price: item.price,
-      discount: item.discount || null,
-      total: item.total,
-      tax: item.tax || null,
-      sale_id: saleData.id
+export type PostSaleResult =
+  | {
+      success: true
+      sale_id: string
+      sales_order_id: string | null
+      journal_entry_id: string
+      cogs_journal_entry_id: string | null
+      cost_amount: number
+      payment_id: string | null
+      payment_journal_entry_id: string | null
+      // One sale payment per tender, in the order they were given
+      payment_ids: string[]
     }
+  | {
+      success: false
+      error_code: PostSaleErrorCode
+      error_message: string
+    }
+
+// User-facing messages for each post_sale error code
+export const POST_SALE_ERROR_MESSAGES: Record<PostSaleErrorCode, string> = {
+  INVALID_SALE: 'The sale is missing required information',
+  INSUFFICIENT_STOCK: 'Not enough stock in the selected warehouse',
+  INSUFFICIENT_PACKAGING_STOCK: 'Not enough packaging stock in the selected warehouse',
+  SALE_INSERT_FAILED: 'The sale could not be saved',
+  STOCK_UPDATE_FAILED: 'Stock could not be updated for this sale',
+  JOURNAL_FAILED: 'The accounting entry for this sale could not be created',
+  PAYMENT_FAILED: 'The payment for this sale could not be recorded',
+  ORDER_FULFILMENT_FAILED: 'The sales order could not be fulfilled by this sale',
+  INVALID_LOT: 'The picked lots do not match this sale',
+  INVALID_SERIAL: 'The serial numbers do not match this sale',
+  INVALID_PROMOTION: 'A promotion on this sale can no longer be applied',
+  PERIOD_LOCKED: 'The sale date falls in a locked accounting period',
+  NETWORK_ERROR: 'Could not reach the server'
+}
 
-    console.log(`🔧 Item ${index + 1} cleaned:`, cleanItem)
-    return cleanItem
+// Map a payment-method account type (bank, mfs, cash, card) to a sale payment method
+export function getSalePaymentMethodForAccountType(
+  accountType?: string | null
+): PostSalePaymentInput['payment_method'] {
+  switch (accountType) {
+    case 'cash':
+      return 'cash'
+    case 'bank':
+      return 'bank_transfer'
+    case 'card':
+      return 'credit_card'
+    default:
+      return 'other'
+  }
+}
+
+// Change due on the cash tenders of a split payment, to the paisa
+export function calculateChangeDue(payments: PostSalePaymentInput[]): number {
+  const change = payments
+    .filter(payment => payment.payment_method === 'cash' && payment.amount_tendered !== undefined)
+    .reduce((sum, payment) => sum + Math.max((payment.amount_tendered || 0) - payment.amount, 0), 0)
+  return Math.round(change * 100) / 100
+}
+
+// Post a sale atomically: sale, items, stock movements, checkout payments and
+// journal entries are committed together or not at all by the post_sale function.
+// A split tender is passed as several payments, one per payment method.
+export const postSale = async (
+  sale: Database['public']['Tables']['sales']['Insert'],
+  items: (Database['public']['Tables']['sale_items']['Insert'] & { lots?: SaleItemLotSelection[] })[],
+  payment?: PostSalePaymentInput | PostSalePaymentInput[] | null,
+  createdBy: string = 'system',
+  promotions: AppliedPromotion[] = []
+): Promise<PostSaleResult> => {
+  const saleItems = items.map(item => ({
+    product_id: item.product_id,
+    product_name: item.product_name,
+    variation_id: item.variation_id || null,
+    packaging_id: item.packaging_id || null,
+    packaging_name: item.packaging_name || null,
+    packaging_variation_id: item.packaging_variation_id || null,
+    quantity: item.quantity,
+    price: item.price,
+    discount: item.discount || null,
+    total: item.total,
+    tax_code_id: item.tax_code_id || null,
+    tax_rate: item.tax_rate || 0,
+    taxable_amount: item.taxable_amount ?? null,
+    tax: item.tax || null,
+    sales_order_item_id: item.sales_order_item_id || null,
+    unit_name: item.unit_name || null,
+    unit_factor: item.unit_factor || 1,
+    lots: item.lots?.length ? item.lots : null,
+    serial_numbers: item.serial_numbers?.length ? item.serial_numbers : null
+  }))
+  const payments = (Array.isArray(payment) ? payment : payment ? [payment] : [])
+    .filter(tender => tender.amount > 0)
+
+  // Promotions go with the sale so post_sale can check their usage limits
+  const { data, error } = await supabase.rpc('post_sale', {
+    p_sale: promotions.length > 0
+      ? {
+          ...sale,
+          promotions: promotions.map(promotion => ({
+            promotion_id: promotion.promotion_id,
+            coupon_code: promotion.coupon_code,
+            discount_amount: promotion.discount_amount
+          }))
+        }
+      : sale,
+    p_items: saleItems,
+    p_payment: payments.length > 0 ? payments : null,
+    p_created_by: createdBy
   })
 
-  console.log('🔧 Clean sale items to insert:', saleItems)
+  if (error) {
+    console.error('❌ post_sale RPC error:', error)
+    return {
+      success: false,
+      error_code: 'NETWORK_ERROR',
+      error_message: error.message || 'Failed to post sale'
+    }
+  }
 
-  const { data: insertedItems, error: itemsError } = await supabase
-    .from('sale_items')
-    .insert(saleItems)
-    .select('id, product_id, product_name')
+  const result = data as PostSaleResult
 
-  if (itemsError) {
-    console.error('❌ Sale items insertion error:', itemsError)
-    throw itemsError
+  if (result.success) {
+    console.log('✅ Sale posted:', result.sale_id)
+    invalidateSaleCaches(result.sale_id)
+    if (result.sales_order_id) {
+      apiCache.invalidateByPattern('sales-order')
+    }
+  } else {
+    console.error(`❌ Sale posting rolled back (${result.error_code}):`, result.error_message)
   }
 
-  console.log('✅ Sale items inserted successfully with IDs:', insertedItems)
+  return result
+}
 
-  // 📊 ACCOUNTING INTEGRATION: Create journal entry for the sale
-  try {
-    console.log('💰 Creating journal entry for sale:', saleData.id)
-    await createSaleJournalEntry(
-      saleData.id,
-      sale.customer_name || 'Unknown Customer',
-      sale.total_amount || 0,
-      sale.sale_date || new Date().toISOString(),
-      'system' // TODO: Replace with actual user ID
-    )
-    console.log('✅ Journal entry created for sale')
-  } catch (journalError) {
-    console.error('⚠️ Failed to create journal entry for sale:', journalError)
-    // Don't throw error - sale was successful, accounting entry failed
+// Clear cached payment and timeline data for a sale after it changes
+function invalidateSaleCaches(saleId: string) {
+  apiCache.invalidate(`sale-payments-${saleId}`)
+  apiCache.invalidate(`sale-timeline-${saleId}`)
+  invalidateReceivablesCaches()
+}
+
+export const createSale = async (
+  sale: Database['public']['Tables']['sales']['Insert'],
+  items: Database['public']['Tables']['sale_items']['Insert'][]
+) => {
+  const result = await postSale(sale, items)
+
+  if (!result.success) {
+    throw new Error(`${POST_SALE_ERROR_MESSAGES[result.error_code]}: ${result.error_message}`)
   }
 
+  const { data: saleData, error } = await supabase
+    .from('sales')
+    .select()
+    .eq('id', result.sale_id)
+    .single()
+
+  if (error) throw error
   return saleData
 }
 
@@ -823,81 +978,113 @@ export const getReturnsBySaleId = async (saleId: string) => {
   return data as ReturnWithItems[]
 }
 
-export const createReturn = async (
-  returnData: Database['public']['Tables']['returns']['Insert'],
-  items: Database['public']['Tables']['return_items']['Insert'][]
-) => {
-  const { data: returnRecord, error: returnError } = await supabase
-    .from('returns')
-    .insert(returnData)
-    .select()
-    .single()
-
-  if (returnError) throw returnError
+// Error codes returned by the process_return database function
+export type ProcessReturnErrorCode =
+  | 'INVALID_RETURN'
+  | 'SALE_NOT_FOUND'
+  | 'SALE_ITEM_NOT_FOUND'
+  | 'RETURN_QUANTITY_EXCEEDED'
+  | 'RETURN_INSERT_FAILED'
+  | 'STOCK_UPDATE_FAILED'
+  | 'JOURNAL_FAILED'
+  | 'INVALID_SERIAL'
+  | 'NETWORK_ERROR'
+
+// A returned line, keyed by the exact sale item it came from
+export interface ProcessReturnItemInput {
+  sale_item_id: string
+  quantity: number
+  // Serial numbers of the units coming back, for lines sold by serial number
+  serial_numbers?: string[]
+}
 
-  // Insert return items with the return ID
-  const returnItems = items.map(item => ({
-    ...item,
-    return_id: returnRecord.id
-  }))
+export type ProcessReturnResult =
+  | {
+      success: true
+      return_id: string
+      // In the sale's currency; base_total_amount is the taka credited to the ledger
+      total_amount: number
+      base_total_amount: number
+      // Output tax taken back on the returned goods, included in total_amount
+      tax_amount: number
+      journal_entry_id: string
+      tax_journal_entry_id: string | null
+      cogs_journal_entry_id: string | null
+      cost_amount: number
+    }
+  | {
+      success: false
+      error_code: ProcessReturnErrorCode
+      error_message: string
+    }
 
-  const { error: itemsError } = await supabase
-    .from('return_items')
-    .insert(returnItems)
-
-  if (itemsError) throw itemsError
-
-  // Update the returned_quantity in sale_items table
-  // This is crucial to prevent returning the same items multiple times
-  for (const item of items) {
-    if (item.product_id && item.quantity && returnData.sale_id) {
-      // First, get the current returned_quantity for this sale item
-      const { data: currentSaleItem, error: saleItemError } = await supabase
-        .from('sale_items')
-        .select('returned_quantity')
-        .eq('sale_id', returnData.sale_id)
-        .eq('product_id', item.product_id)
-        .single()
+// User-facing messages for each process_return error code
+export const PROCESS_RETURN_ERROR_MESSAGES: Record<ProcessReturnErrorCode, string> = {
+  INVALID_RETURN: 'The return is missing required information',
+  SALE_NOT_FOUND: 'The original sale could not be found',
+  SALE_ITEM_NOT_FOUND: 'A returned item does not belong to this sale',
+  RETURN_QUANTITY_EXCEEDED: 'Returned quantity is more than what is left to return',
+  RETURN_INSERT_FAILED: 'The return could not be saved',
+  STOCK_UPDATE_FAILED: 'Returned items could not be restocked',
+  JOURNAL_FAILED: 'The accounting entry for this return could not be created',
+  INVALID_SERIAL: 'The returned serial numbers were not sold on this sale',
+  NETWORK_ERROR: 'Could not reach the server'
+}
 
-      if (saleItemError) {
-        console.warn(`Could not fetch current sale item for update:`, saleItemError)
-        continue
-      }
+// Process a customer return atomically: return record, items, returned_quantity,
+// restocking and the journal entry are committed together by process_return
+export const processReturn = async (
+  returnData: Database['public']['Tables']['returns']['Insert'],
+  items: ProcessReturnItemInput[],
+  createdBy: string = 'system'
+): Promise<ProcessReturnResult> => {
+  const { data, error } = await supabase.rpc('process_return', {
+    p_return: returnData,
+    p_items: items,
+    p_created_by: createdBy
+  })
 
-      // Calculate new returned quantity
-      const currentReturnedQty = currentSaleItem?.returned_quantity || 0
-      const newReturnedQty = currentReturnedQty + item.quantity
+  if (error) {
+    console.error('❌ process_return RPC error:', error)
+    return {
+      success: false,
+      error_code: 'NETWORK_ERROR',
+      error_message: error.message || 'Failed to process return'
+    }
+  }
 
-      // Update the sale item with new returned quantity
-      const { error: updateError } = await supabase
-        .from('sale_items')
-        .update({ returned_quantity: newReturnedQty })
-        .eq('sale_id', returnData.sale_id)
-        .eq('product_id', item.product_id)
+  const result = data as ProcessReturnResult
 
-      if (updateError) {
-        console.error(`Failed to update returned_quantity for product ${item.product_id}:`, updateError)
-        // Continue with other items even if one fails
-      }
+  if (result.success) {
+    console.log('✅ Return processed:', result.return_id)
+    if (returnData.sale_id) {
+      apiCache.invalidate(`sale-${returnData.sale_id}`)
+      invalidateSaleCaches(returnData.sale_id)
     }
+  } else {
+    console.error(`❌ Return processing rolled back (${result.error_code}):`, result.error_message)
   }
 
-  // 📊 ACCOUNTING INTEGRATION: Create journal entry for the return
-  try {
-    console.log('💰 Creating journal entry for return:', returnRecord.id)
-    await createReturnJournalEntry(
-      returnRecord.id,
-      returnData.customer_name || 'Unknown Customer',
-      returnData.total_amount || 0,
-      returnData.return_date || new Date().toISOString(),
-      'system' // TODO: Replace with actual user ID
-    )
-    console.log('✅ Journal entry created for return')
-  } catch (journalError) {
-    console.error('⚠️ Failed to create journal entry for return:', journalError)
-    // Don't throw error - return was successful, accounting entry failed
+  return result
+}
+
+export const createReturn = async (
+  returnData: Database['public']['Tables']['returns']['Insert'],
+  items: ProcessReturnItemInput[]
+) => {
+  const result = await processReturn(returnData, items)
+
+  if (!result.success) {
+    throw new Error(`${PROCESS_RETURN_ERROR_MESSAGES[result.error_code]}: ${result.error_message}`)
   }
 
+  const { data: returnRecord, error } = await supabase
+    .from('returns')
+    .select()
+    .eq('id', result.return_id)
+    .single()
+
+  if (error) throw error
   return returnRecord
 }
 
@@ -976,21 +1163,69 @@ export interface SalePayment {
   payment_date: string
   notes?: string
   journal_entry_id?: string
+  // Account the payment was received into
+  account_id?: string | null
+  // Currency of the sale, at the rate on the day it was received
+  currency?: string
+  exchange_rate?: number
+  // Realised exchange gain (positive) or loss (negative) in taka
+  exchange_difference?: number
+  exchange_journal_entry_id?: string | null
   created_by?: string
   status: 'active' | 'void'
+  // Cash handed over at checkout and the change given back from it
+  amount_tendered?: number | null
+  change_given?: number
   created_at: string
   updated_at: string
 }
 
 export interface CreateSalePaymentData {
   sale_id: string
+  // In the sale currency
   amount: number
   payment_method: 'cash' | 'bank_transfer' | 'check' | 'credit_card' | 'other'
+  // Payment-method account the money was received into
+  account_id: string
   payment_date: string
+  // Taka per unit of the sale currency on the payment date; defaults to the rate on file for that day
+  exchange_rate?: number
   notes?: string
   created_by: string
 }
 
+// Error codes returned by the record_sale_payment database function
+export type SalePaymentErrorCode =
+  | 'INVALID_PAYMENT'
+  | 'SALE_NOT_FOUND'
+  | 'PAYMENT_INSERT_FAILED'
+  | 'JOURNAL_FAILED'
+  | 'NETWORK_ERROR'
+
+type RecordSalePaymentResult =
+  | {
+      success: true
+      payment_id: string
+      exchange_rate: number
+      journal_entry_id: string
+      exchange_difference: number
+      exchange_journal_entry_id: string | null
+    }
+  | {
+      success: false
+      error_code: SalePaymentErrorCode
+      error_message: string
+    }
+
+// User-facing messages for each record_sale_payment error code
+export const SALE_PAYMENT_ERROR_MESSAGES: Record<SalePaymentErrorCode, string> = {
+  INVALID_PAYMENT: 'The payment is missing required information',
+  SALE_NOT_FOUND: 'The sale could not be found',
+  PAYMENT_INSERT_FAILED: 'The payment could not be saved',
+  JOURNAL_FAILED: 'The accounting entry for this payment could not be created',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
 // Payment methods for UI (reuse from purchases)
 export const SALE_PAYMENT_METHODS = [
   { value: 'cash', label: 'Cash' },
@@ -1001,10 +1236,15 @@ export const SALE_PAYMENT_METHODS = [
 ]
 
 // Sale events for timeline
+// Quotations and sales orders share this timeline; their events carry sales_order_id instead of sale_id
 export interface SaleEvent {
   id: string
-  sale_id: string
-  event_type: 'order_placed' | 'payment_made' | 'payment_voided' | 'returned' | 'cancelled' | 'status_change'
+  sale_id: string | null
+  sales_order_id?: string | null
+  event_type:
+    | 'order_placed' | 'payment_made' | 'payment_voided' | 'returned' | 'cancelled' | 'status_change'
+    | 'quotation_created' | 'quotation_sent' | 'quotation_accepted' | 'quotation_expired'
+    | 'order_confirmed' | 'order_fulfilled'
   event_title: string
   event_description?: string
   previous_status?: string
@@ -1040,29 +1280,43 @@ export async function getSalePayments(saleId: string): Promise<SalePayment[]> {
   })
 }
 
-// Create a new payment for a sale
+// Create a new payment for a sale.
+// The payment, its journal and any exchange gain or loss are committed together by
+// record_sale_payment; if any of them fails nothing is saved and this throws.
 export async function createSalePayment(paymentData: CreateSalePaymentData): Promise<SalePayment> {
   const supabase = createClient()
+  const { created_by: createdBy, ...payment } = paymentData
+
+  const { data: rpcData, error: rpcError } = await supabase.rpc('record_sale_payment', {
+    p_payment: payment,
+    p_created_by: createdBy
+  })
+
+  const result: RecordSalePaymentResult = rpcError
+    ? { success: false, error_code: 'NETWORK_ERROR', error_message: rpcError.message || 'Failed to record payment' }
+    : rpcData as RecordSalePaymentResult
 
-  // Generate payment ID
-  const paymentId = `SPAY-${Date.now()}`
+  if (!result.success) {
+    console.error(`❌ Sale payment rolled back (${result.error_code}):`, result.error_message)
+    throw new Error(`${SALE_PAYMENT_ERROR_MESSAGES[result.error_code]}. ${result.error_message}`)
+  }
+
+  const paymentId = result.payment_id
 
   const { data, error } = await supabase
     .from('sale_payments')
-    .insert({
-      id: paymentId,
-      ...paymentData
-    })
-    .select()
+    .select('*')
+    .eq('id', paymentId)
     .single()
 
   if (error) {
-    console.error('Error creating sale payment:', error)
-    throw new Error('Failed to create sale payment')
+    console.error('Error fetching recorded sale payment:', error)
+    throw new Error('Failed to fetch the recorded payment')
   }
 
   // Clear cache for this sale's payments
   apiCache.delete(`sale-payments-${paymentData.sale_id}`)
+  invalidateReceivablesCaches()
   
   // The database triggers will automatically update the sale amount_paid and payment_status
   console.log(`✅ Created payment ${paymentId} for sale ${paymentData.sale_id}`)
@@ -1083,7 +1337,7 @@ export async function createSalePayment(paymentData: CreateSalePaymentData): Pro
         sale_id: paymentData.sale_id,
         event_type: 'payment_made',
         event_title: `Payment Received`,
-        event_description: `${paymentData.payment_method.replace('_', ' ')} payment of ৳${paymentData.amount.toLocaleString()} received${paymentData.notes ? ` - ${paymentData.notes}` : ''}`,
+        event_description: `${paymentData.payment_method.replace('_', ' ')} payment of ${isBaseCurrency(data.currency) ? '৳' : `${data.currency} `}${paymentData.amount.toLocaleString()} received${paymentData.notes ? ` - ${paymentData.notes}` : ''}`,
         payment_amount: paymentData.amount,
         payment_method: paymentData.payment_method,
         payment_id: paymentId,
@@ -1125,9 +1379,23 @@ export async function voidSalePayment(paymentId: string, voidReason?: string): P
 
   // Clear cache
   apiCache.delete(`sale-payments-${data.sale_id}`)
+  invalidateReceivablesCaches()
 
   console.log(`❌ Voided payment ${paymentId}`)
 
+  // The receipt and any realised gain or loss go with the payment
+  for (const entryId of [data.journal_entry_id, data.exchange_journal_entry_id]) {
+    if (!entryId) continue
+    const reversal = await reverseJournalEntry(entryId, {
+      reason: `Payment ${paymentId} voided${voidReason ? `: ${voidReason}` : ''}`,
+      created_by: data.created_by || 'system'
+    })
+
+    if (!reversal.success) {
+      console.error('⚠️ Failed to reverse journal entry for voided payment:', reversal.error_message)
+    }
+  }
+
   // Create timeline event for voided payment
   try {
     await createSaleEvent({
@@ -1150,7 +1418,8 @@ export async function voidSalePayment(paymentId: string, voidReason?: string): P
 
 // Create a sale event for timeline tracking
 export async function createSaleEvent(eventData: {
-  sale_id: string
+  sale_id?: string | null
+  sales_order_id?: string | null
   event_type: SaleEvent['event_type']
   event_title: string
   event_description?: string
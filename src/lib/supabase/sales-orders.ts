@@ -0,0 +1,569 @@
+import { createClient } from './client'
+import type { Database } from './types/index'
+import type { SalesOrder, SalesOrderItem, SalesOrderWithItems } from './types/sales'
+import { apiCache } from './cache'
+import {
+  postSale,
+  createSaleEvent,
+  POST_SALE_ERROR_MESSAGES,
+  type PostSalePaymentInput,
+  type PostSaleResult,
+  type SaleEvent
+} from './sales-client'
+import { getTaxCodes } from './tax-codes'
+
+export type { SalesOrder, SalesOrderItem, SalesOrderWithItems }
+
+export type SalesDocumentType = 'quotation' | 'order'
+
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'expired' | 'cancelled'
+export type SalesOrderStatus = 'open' | 'partially_fulfilled' | 'fulfilled' | 'cancelled'
+
+// Quotations that can still be sent, accepted or cancelled
+const OPEN_QUOTATION_STATUSES: QuotationStatus[] = ['draft', 'sent']
+// Orders that still hold reservations and can be fulfilled
+const OPEN_ORDER_STATUSES: SalesOrderStatus[] = ['open', 'partially_fulfilled']
+
+export const SALES_ORDER_STATUS_LABELS: Record<QuotationStatus | SalesOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  expired: 'Expired',
+  open: 'Open',
+  partially_fulfilled: 'Partially Fulfilled',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled'
+}
+
+// Badge classes for each status, matching the sales list
+export const SALES_ORDER_STATUS_COLORS: Record<QuotationStatus | SalesOrderStatus, string> = {
+  draft: 'bg-gray-50 text-gray-700 border-gray-200 hover:bg-gray-100',
+  sent: 'bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100',
+  accepted: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100',
+  expired: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100',
+  open: 'bg-yellow-50 text-yellow-700 border-yellow-200 hover:bg-yellow-100',
+  partially_fulfilled: 'bg-orange-50 text-orange-700 border-orange-200 hover:bg-orange-100',
+  fulfilled: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100',
+  cancelled: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100'
+}
+
+export type SalesOrderInsert = Omit<
+  Database['public']['Tables']['sales_orders']['Insert'],
+  'document_type' | 'status' | 'quotation_id'
+>
+export type SalesOrderItemInsert = Omit<Database['public']['Tables']['sales_order_items']['Insert'], 'sales_order_id'>
+
+// A line to deliver when fulfilling a sales order
+export interface FulfilmentLine {
+  sales_order_item_id: string
+  quantity: number
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+function invalidateSalesOrderCaches() {
+  apiCache.invalidateByPattern('sales-order')
+}
+
+// A quotation is expired once its validity date has passed, even before expireQuotations has run
+export function isQuotationExpired(order: Pick<SalesOrder, 'document_type' | 'status' | 'expiry_date'>): boolean {
+  if (order.document_type !== 'quotation') return false
+  if (order.status === 'expired') return true
+  if (!OPEN_QUOTATION_STATUSES.includes(order.status as QuotationStatus)) return false
+  return !!order.expiry_date && order.expiry_date < today()
+}
+
+// Units of a line still waiting to be delivered
+export function getOutstandingQuantity(item: Pick<SalesOrderItem, 'quantity' | 'fulfilled_quantity'>): number {
+  return Math.max(0, item.quantity - (item.fulfilled_quantity || 0))
+}
+
+// Get quotations or sales orders, newest first
+export async function getSalesOrders(documentType: SalesDocumentType): Promise<SalesOrderWithItems[]> {
+  return apiCache.get(`sales-orders-${documentType}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('sales_orders')
+      .select('*, sales_order_items(*)')
+      .eq('document_type', documentType)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching sales orders:', error)
+      throw new Error('Failed to fetch sales orders')
+    }
+
+    return (data || []) as SalesOrderWithItems[]
+  })
+}
+
+export async function getSalesOrderById(id: string): Promise<SalesOrderWithItems | null> {
+  return apiCache.get(`sales-order-${id}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('sales_orders')
+      .select('*, sales_order_items(*)')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching sales order:', error)
+      throw new Error('Failed to fetch sales order')
+    }
+
+    return data as SalesOrderWithItems | null
+  })
+}
+
+// Sales posted against an order, oldest first
+export async function getSalesForOrder(salesOrderId: string) {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('sales')
+    .select('id, sale_date, total_amount, amount_paid, payment_status, status')
+    .eq('sales_order_id', salesOrderId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching sales for order:', error)
+    throw new Error('Failed to fetch sales for order')
+  }
+
+  return data || []
+}
+
+// Timeline for a quotation or order, stored alongside sale events
+export async function getSalesOrderTimeline(salesOrderId: string): Promise<SaleEvent[]> {
+  return apiCache.get(`sales-order-timeline-${salesOrderId}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('sale_events')
+      .select('*')
+      .eq('sales_order_id', salesOrderId)
+      .order('event_date', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching sales order timeline:', error)
+      throw new Error('Failed to fetch sales order timeline')
+    }
+
+    return data || []
+  })
+}
+
+// Save a new quotation. Quotations never touch stock.
+export async function createQuotation(
+  quotation: SalesOrderInsert,
+  items: SalesOrderItemInsert[],
+  createdBy: string = 'system'
+): Promise<SalesOrderWithItems> {
+  const supabase = createClient()
+
+  if (items.length === 0) {
+    throw new Error('A quotation needs at least one item')
+  }
+
+  const { data: header, error } = await supabase
+    .from('sales_orders')
+    .insert({
+      ...quotation,
+      document_type: 'quotation',
+      status: 'draft',
+      created_by: createdBy
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating quotation:', error)
+    throw new Error(`Failed to create quotation: ${error.message}`)
+  }
+
+  const { data: lines, error: itemsError } = await supabase
+    .from('sales_order_items')
+    .insert(items.map(item => ({ ...item, sales_order_id: header.id })))
+    .select()
+
+  if (itemsError) {
+    console.error('Error creating quotation items:', itemsError)
+    await supabase.from('sales_orders').delete().eq('id', header.id)
+    throw new Error(`Failed to create quotation items: ${itemsError.message}`)
+  }
+
+  try {
+    await createSaleEvent({
+      sales_order_id: header.id,
+      event_type: 'quotation_created',
+      event_title: 'Quotation Created',
+      event_description: `Quotation of ৳${header.total_amount.toLocaleString()} for ${header.customer_name}${header.expiry_date ? `, valid until ${header.expiry_date}` : ''}`,
+      new_status: 'draft',
+      created_by: createdBy
+    })
+  } catch (timelineError) {
+    console.warn('⚠️ Failed to create timeline event for quotation:', timelineError)
+  }
+
+  invalidateSalesOrderCaches()
+  return { ...header, sales_order_items: lines || [] }
+}
+
+// Record that the quotation has been sent to the customer
+export async function markQuotationSent(id: string, createdBy: string = 'system'): Promise<SalesOrder> {
+  const quotation = await getSalesOrderById(id)
+
+  if (!quotation || quotation.document_type !== 'quotation') {
+    throw new Error('Quotation not found')
+  }
+  if (isQuotationExpired(quotation)) {
+    throw new Error('This quotation has expired')
+  }
+  if (quotation.status !== 'draft' && quotation.status !== 'sent') {
+    throw new Error(`Cannot send a quotation that is ${quotation.status}`)
+  }
+
+  return setStatus(quotation, 'sent', {
+    event_type: 'quotation_sent',
+    event_title: 'Quotation Sent',
+    event_description: `Quotation sent to ${quotation.customer_name}`
+  }, createdBy)
+}
+
+// Move every open quotation whose validity date has passed to 'expired'
+export async function expireQuotations(createdBy: string = 'system'): Promise<number> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('sales_orders')
+    .update({ status: 'expired', updated_at: new Date().toISOString() })
+    .eq('document_type', 'quotation')
+    .in('status', OPEN_QUOTATION_STATUSES)
+    .lt('expiry_date', today())
+    .select('id, status, expiry_date')
+
+  if (error) {
+    console.error('Error expiring quotations:', error)
+    throw new Error('Failed to expire quotations')
+  }
+
+  for (const quotation of data || []) {
+    try {
+      await createSaleEvent({
+        sales_order_id: quotation.id,
+        event_type: 'quotation_expired',
+        event_title: 'Quotation Expired',
+        event_description: `Quotation passed its validity date of ${quotation.expiry_date}`,
+        new_status: 'expired',
+        created_by: createdBy
+      })
+    } catch (timelineError) {
+      console.warn('⚠️ Failed to create timeline event for expired quotation:', timelineError)
+    }
+  }
+
+  if (data && data.length > 0) {
+    invalidateSalesOrderCaches()
+  }
+
+  return data?.length || 0
+}
+
+/**
+ * Convert an accepted quotation into a sales order and reserve its stock.
+ * Reservations are all-or-nothing: reserve_sales_order_stock reserves every line in one
+ * transaction, and if any line cannot be reserved the order is removed again.
+ * Reserving and releasing are deliberately left to SQL (reserve_sales_order_stock and
+ * cancel_sales_order) rather than the client-side reserve/release stock helpers, which
+ * updated one line at a time and could leave an order half reserved.
+ */
+export async function convertQuotationToOrder(
+  quotationId: string,
+  createdBy: string = 'system'
+): Promise<SalesOrderWithItems> {
+  const supabase = createClient()
+  const quotation = await getSalesOrderById(quotationId)
+
+  if (!quotation || quotation.document_type !== 'quotation') {
+    throw new Error('Quotation not found')
+  }
+  if (isQuotationExpired(quotation)) {
+    throw new Error('This quotation has expired and can no longer be converted')
+  }
+  if (!OPEN_QUOTATION_STATUSES.includes(quotation.status as QuotationStatus)) {
+    throw new Error(`Cannot convert a quotation that is ${quotation.status}`)
+  }
+  if (!quotation.warehouse_id) {
+    throw new Error('Select a warehouse on the quotation before converting it')
+  }
+
+  const { data: order, error } = await supabase
+    .from('sales_orders')
+    .insert({
+      document_type: 'order',
+      status: 'open',
+      quotation_id: quotation.id,
+      customer_id: quotation.customer_id,
+      customer_name: quotation.customer_name,
+      warehouse_id: quotation.warehouse_id,
+      warehouse_name: quotation.warehouse_name,
+      order_date: today(),
+      salesperson: quotation.salesperson,
+      subtotal: quotation.subtotal,
+      total_discount: quotation.total_discount,
+      total_discount_type: quotation.total_discount_type,
+      tax_rate: quotation.tax_rate,
+      tax_amount: quotation.tax_amount,
+      total_amount: quotation.total_amount,
+      notes: quotation.notes,
+      created_by: createdBy
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating sales order:', error)
+    throw new Error(`Failed to create sales order: ${error.message}`)
+  }
+
+  const { data: lines, error: itemsError } = await supabase
+    .from('sales_order_items')
+    .insert(quotation.sales_order_items.map(item => ({
+      sales_order_id: order.id,
+      product_id: item.product_id,
+      product_name: item.product_name,
+      variation_id: item.variation_id,
+      packaging_id: item.packaging_id,
+      packaging_name: item.packaging_name,
+      packaging_variation_id: item.packaging_variation_id,
+      quantity: item.quantity,
+      price: item.price,
+      unit_name: item.unit_name,
+      unit_factor: item.unit_factor,
+      discount: item.discount,
+      total: item.total,
+      tax_code_id: item.tax_code_id,
+      tax_rate: item.tax_rate,
+      taxable_amount: item.taxable_amount,
+      tax: item.tax
+    })))
+    .select()
+
+  if (itemsError || !lines) {
+    console.error('Error creating sales order items:', itemsError)
+    await supabase.from('sales_orders').delete().eq('id', order.id)
+    throw new Error(`Failed to create sales order items: ${itemsError?.message}`)
+  }
+
+  const { error: reservationError } = await supabase.rpc('reserve_sales_order_stock', { p_sales_order_id: order.id })
+
+  if (reservationError) {
+    console.error('Error reserving stock for sales order:', reservationError)
+    await supabase.from('sales_orders').delete().eq('id', order.id)
+    throw new Error(`Could not reserve stock for this order: ${reservationError.message}`)
+  }
+
+  const reserved = (lines as SalesOrderItem[]).map(line => ({ ...line, reserved_quantity: line.quantity }))
+
+  await setStatus(quotation, 'accepted', {
+    event_type: 'quotation_accepted',
+    event_title: 'Quotation Accepted',
+    event_description: `Converted to sales order ${order.id}`,
+    metadata: { sales_order_id: order.id }
+  }, createdBy)
+
+  try {
+    await createSaleEvent({
+      sales_order_id: order.id,
+      event_type: 'order_confirmed',
+      event_title: 'Order Confirmed',
+      event_description: `Sales order created from quotation ${quotation.id}; stock reserved in ${order.warehouse_name || 'warehouse'}`,
+      new_status: 'open',
+      created_by: createdBy,
+      metadata: { quotation_id: quotation.id }
+    })
+  } catch (timelineError) {
+    console.warn('⚠️ Failed to create timeline event for sales order:', timelineError)
+  }
+
+  invalidateSalesOrderCaches()
+  return { ...order, sales_order_items: reserved }
+}
+
+/**
+ * Deliver some or all outstanding lines of an order as a sale.
+ * The order-level discount is applied pro rata to the delivered value, and each line's
+ * tax pro rata to the quantity delivered.
+ * post_sale consumes the reservation and advances the order in the same transaction.
+ * When a payment account is given, the full delivered value is collected against it.
+ */
+export async function fulfilSalesOrder(
+  salesOrderId: string,
+  lines: FulfilmentLine[],
+  payment?: Omit<PostSalePaymentInput, 'amount'> | null,
+  createdBy: string = 'system',
+  saleDate: string = today()
+): Promise<PostSaleResult> {
+  const order = await getSalesOrderById(salesOrderId)
+
+  if (!order || order.document_type !== 'order') {
+    throw new Error('Sales order not found')
+  }
+  if (!OPEN_ORDER_STATUSES.includes(order.status as SalesOrderStatus)) {
+    throw new Error(`Cannot fulfil an order that is ${order.status}`)
+  }
+
+  const deliveries = lines.filter(line => line.quantity > 0)
+  if (deliveries.length === 0) {
+    throw new Error('Enter a quantity to deliver for at least one line')
+  }
+
+  const saleItems = deliveries.map(line => {
+    const item = order.sales_order_items.find(orderItem => orderItem.id === line.sales_order_item_id)
+    if (!item) {
+      throw new Error('Order line not found')
+    }
+    if (line.quantity > getOutstandingQuantity(item)) {
+      throw new Error(`Cannot deliver ${line.quantity} of ${item.product_name}; only ${getOutstandingQuantity(item)} outstanding`)
+    }
+
+    const share = line.quantity / item.quantity
+    // A part delivery that isn't whole units of the ordered unit goes out in the base unit
+    const inOrderedUnit = line.quantity % (item.unit_factor || 1) === 0
+    return {
+      product_id: item.product_id,
+      product_name: item.product_name,
+      variation_id: item.variation_id,
+      packaging_id: item.packaging_id,
+      packaging_name: item.packaging_name,
+      packaging_variation_id: item.packaging_variation_id,
+      quantity: line.quantity,
+      price: item.price,
+      unit_name: inOrderedUnit ? item.unit_name : null,
+      unit_factor: inOrderedUnit ? item.unit_factor : 1,
+      discount: roundMoney((item.discount || 0) * share),
+      total: roundMoney(item.total * share),
+      tax_code_id: item.tax_code_id,
+      tax_rate: item.tax_rate,
+      taxable_amount: item.taxable_amount === null ? null : roundMoney(item.taxable_amount * share),
+      tax: roundMoney((item.tax || 0) * share),
+      sales_order_item_id: item.id
+    }
+  })
+
+  const orderLinesTotal = order.sales_order_items.reduce((sum, item) => sum + item.total, 0)
+  const subtotal = roundMoney(saleItems.reduce((sum, item) => sum + item.total, 0))
+  const ratio = orderLinesTotal > 0 ? subtotal / orderLinesTotal : 0
+  const discount = roundMoney((order.total_discount || 0) * ratio)
+  // The sale's tax is the sum of its lines' tax; tax added on top of the prices is that of
+  // the lines whose code is not tax-inclusive, as inclusive lines already carry theirs
+  const inclusiveCodes = new Set((await getTaxCodes())
+    .filter(code => code.price_includes_tax)
+    .map(code => code.id))
+  const taxAmount = roundMoney(saleItems.reduce((sum, item) => sum + item.tax, 0))
+  const addedTax = roundMoney(saleItems
+    .filter(item => !item.tax_code_id || !inclusiveCodes.has(item.tax_code_id))
+    .reduce((sum, item) => sum + item.tax, 0))
+  const total = roundMoney(subtotal - discount + addedTax)
+
+  const result = await postSale({
+    customer_id: order.customer_id,
+    customer_name: order.customer_name,
+    warehouse_id: order.warehouse_id,
+    warehouse_name: order.warehouse_name,
+    sale_date: saleDate,
+    salesperson: order.salesperson || createdBy,
+    subtotal,
+    after_discount: subtotal - discount,
+    total_discount: discount,
+    total_discount_type: order.total_discount_type,
+    tax_rate: order.tax_rate,
+    tax_amount: taxAmount,
+    total_amount: total,
+    status: 'completed',
+    sales_order_id: order.id
+  }, saleItems, payment ? { ...payment, amount: total, payment_date: payment.payment_date || saleDate } : null, createdBy)
+
+  if (!result.success) {
+    console.error(`❌ Fulfilment rolled back: ${POST_SALE_ERROR_MESSAGES[result.error_code]}`)
+  }
+
+  invalidateSalesOrderCaches()
+  return result
+}
+
+// Cancel a quotation, or an order together with whatever it still has reserved
+export async function cancelSalesOrder(
+  id: string,
+  reason?: string,
+  createdBy: string = 'system'
+): Promise<SalesOrder> {
+  const salesOrder = await getSalesOrderById(id)
+
+  if (!salesOrder) {
+    throw new Error('Sales order not found')
+  }
+
+  const cancellable = salesOrder.document_type === 'quotation'
+    ? OPEN_QUOTATION_STATUSES.includes(salesOrder.status as QuotationStatus)
+    : OPEN_ORDER_STATUSES.includes(salesOrder.status as SalesOrderStatus)
+
+  if (!cancellable) {
+    throw new Error(`Cannot cancel a ${salesOrder.document_type} that is ${salesOrder.status}`)
+  }
+
+  const label = salesOrder.document_type === 'quotation' ? 'Quotation' : 'Order'
+  return setStatus(salesOrder, 'cancelled', {
+    event_type: 'cancelled',
+    event_title: `${label} Cancelled`,
+    event_description: reason ? `${label} cancelled - ${reason}` : `${label} cancelled`
+  }, createdBy)
+}
+
+// Update the status of a quotation or order and log it on the timeline
+async function setStatus(
+  salesOrder: SalesOrder,
+  status: QuotationStatus | SalesOrderStatus,
+  event: Pick<Parameters<typeof createSaleEvent>[0], 'event_type' | 'event_title' | 'event_description' | 'metadata'>,
+  createdBy: string
+): Promise<SalesOrder> {
+  const supabase = createClient()
+
+  // Cancelling releases whatever the order has reserved in the same transaction
+  const { data, error } = status === 'cancelled'
+    ? await supabase.rpc('cancel_sales_order', { p_sales_order_id: salesOrder.id })
+    : await supabase
+        .from('sales_orders')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', salesOrder.id)
+        .select()
+        .single()
+
+  if (error) {
+    console.error('Error updating sales order status:', error)
+    throw new Error(`Failed to update ${salesOrder.document_type} status`)
+  }
+
+  try {
+    await createSaleEvent({
+      ...event,
+      sales_order_id: salesOrder.id,
+      previous_status: salesOrder.status,
+      new_status: status,
+      created_by: createdBy
+    })
+  } catch (timelineError) {
+    console.warn('⚠️ Failed to create timeline event for status change:', timelineError)
+  }
+
+  invalidateSalesOrderCaches()
+  return data
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,228 @@
+/**
+ * Serial Numbers Module
+ *
+ * Products flagged with track_serials are handled unit by unit. Goods-received notes
+ * register the serial of each unit received, post_sale marks the serials sold to the sale
+ * line, process_return only takes back serials sold on the line being returned, and
+ * transfer orders carry the serials sent and received. Every change is kept in
+ * serial_number_events, which is the history shown on the serial lookup page.
+ */
+
+import { createClient } from './client'
+
+export type SerialNumberStatus = 'in_stock' | 'in_transit' | 'sold' | 'lost' | 'removed'
+
+export type SerialNumberEventType =
+  | 'received'
+  | 'receipt_cancelled'
+  | 'sold'
+  | 'returned'
+  | 'transferred_out'
+  | 'transferred_in'
+  | 'lost_in_transit'
+
+export interface SerialNumber {
+  id: string
+  product_id: string
+  variation_id: string | null
+  serial_number: string
+  status: SerialNumberStatus
+  warehouse_id: string | null
+  // Sale item the unit was sold on, or transfer order it is travelling with
+  holder_id: string | null
+  grn_item_id: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+export interface SerialNumberWithItem extends SerialNumber {
+  product_name: string
+  sku: string | null
+  warehouse_name: string | null
+}
+
+export interface SerialNumberEvent {
+  id: string
+  serial_number_id: string
+  event_type: SerialNumberEventType
+  warehouse_id: string | null
+  warehouse_name: string | null
+  reference_id: string | null
+  notes: string | null
+  created_by: string
+  created_at: string
+}
+
+export const SERIAL_NUMBER_STATUS_LABELS: Record<SerialNumberStatus, string> = {
+  in_stock: 'In Stock',
+  in_transit: 'In Transit',
+  sold: 'Sold',
+  lost: 'Lost',
+  removed: 'Receipt Cancelled'
+}
+
+export const SERIAL_NUMBER_STATUS_BADGE_CLASSES: Record<SerialNumberStatus, string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  sold: 'bg-purple-100 text-purple-800',
+  lost: 'bg-red-100 text-red-800',
+  removed: 'bg-gray-100 text-gray-800'
+}
+
+export const SERIAL_NUMBER_EVENT_LABELS: Record<SerialNumberEventType, string> = {
+  received: 'Received from supplier',
+  receipt_cancelled: 'Receipt cancelled',
+  sold: 'Sold',
+  returned: 'Returned by customer',
+  transferred_out: 'Sent on transfer',
+  transferred_in: 'Received from transfer',
+  lost_in_transit: 'Lost in transit'
+}
+
+// Serials typed, scanned or pasted as one block: one per line, or separated by commas
+export function parseSerialNumberInput(value: string): string[] {
+  return value
+    .split(/[\n,;\t]+/)
+    .map(serial => serial.trim())
+    .filter(serial => serial.length > 0)
+}
+
+// Which of these products are handled by serial number
+export async function getSerialTrackedProductIds(productIds: string[]): Promise<Set<string>> {
+  if (productIds.length === 0) return new Set()
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('id')
+    .in('id', productIds)
+    .eq('track_serials', true)
+
+  if (error) {
+    console.error('Error fetching serial-tracked products:', error)
+    throw new Error('Failed to check which products are serial-tracked')
+  }
+
+  return new Set((data || []).map((row: { id: string }) => row.id))
+}
+
+// Serials of an item in stock in a warehouse, for picking on a sale or transfer
+export async function getAvailableSerialNumbers(
+  productId: string,
+  variationId: string | null | undefined,
+  warehouseId: string
+): Promise<string[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('serial_numbers')
+    .select('serial_number')
+    .eq('product_id', productId)
+    .eq('warehouse_id', warehouseId)
+    .eq('status', 'in_stock')
+    .order('serial_number', { ascending: true })
+
+  query = variationId ? query.eq('variation_id', variationId) : query.is('variation_id', null)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching serial numbers:', error)
+    throw new Error('Failed to load the serial numbers in stock')
+  }
+
+  return (data || []).map((row: { serial_number: string }) => row.serial_number)
+}
+
+// Serials still held by these documents (sale items or a transfer order), keyed by holder
+export async function getHeldSerialNumbers(
+  holderIds: string[],
+  status: Extract<SerialNumberStatus, 'sold' | 'in_transit'>
+): Promise<Record<string, string[]>> {
+  if (holderIds.length === 0) return {}
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('serial_numbers')
+    .select('serial_number, holder_id')
+    .in('holder_id', holderIds)
+    .eq('status', status)
+    .order('serial_number', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching held serial numbers:', error)
+    throw new Error('Failed to load serial numbers')
+  }
+
+  const held: Record<string, string[]> = {}
+  for (const row of (data || []) as { serial_number: string; holder_id: string }[]) {
+    held[row.holder_id] = [...(held[row.holder_id] || []), row.serial_number]
+  }
+  return held
+}
+
+// Units whose serial number contains the search text
+export async function searchSerialNumbers(search: string): Promise<SerialNumberWithItem[]> {
+  const term = search.trim()
+  if (!term) return []
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('serial_numbers')
+    .select(`
+      *,
+      products(name, sku),
+      product_variations(sku),
+      warehouses(name)
+    `)
+    .ilike('serial_number', `%${term}%`)
+    .order('serial_number', { ascending: true })
+    .limit(50)
+
+  if (error) {
+    console.error('Error searching serial numbers:', error)
+    throw new Error('Failed to search serial numbers')
+  }
+
+  type SerialNumberRow = SerialNumber & {
+    products: { name: string; sku: string | null } | null
+    product_variations: { sku: string | null } | null
+    warehouses: { name: string } | null
+  }
+
+  return ((data || []) as SerialNumberRow[]).map(row => {
+    const { products, product_variations, warehouses, ...unit } = row
+    return {
+      ...unit,
+      product_name: products?.name || unit.product_id,
+      sku: product_variations?.sku || products?.sku || null,
+      warehouse_name: warehouses?.name || null
+    }
+  })
+}
+
+// Everything that happened to one unit, oldest first
+export async function getSerialNumberHistory(serialNumberId: string): Promise<SerialNumberEvent[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('serial_number_events')
+    .select('*, warehouses(name)')
+    .eq('serial_number_id', serialNumberId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching serial number history:', error)
+    throw new Error('Failed to load the history of this unit')
+  }
+
+  type SerialNumberEventRow = Omit<SerialNumberEvent, 'warehouse_name'> & {
+    warehouses: { name: string } | null
+  }
+
+  return ((data || []) as SerialNumberEventRow[]).map(({ warehouses, ...event }) => ({
+    ...event,
+    warehouse_name: warehouses?.name || null
+  }))
+}
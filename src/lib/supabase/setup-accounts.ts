@@ -92,6 +92,16 @@ export async function initializeChartOfAccounts(): Promise<void> {
         opening_balance: 0,
         is_active: true
       },
+      {
+        id: 'acc-input-tax',
+        account_number: '1160',
+        account_name: 'Input Tax',
+        account_code: 'ITAX',
+        category_id: 'cat-assets',
+        description: 'Tax paid on purchases and reclaimable from the tax authority',
+        opening_balance: 0,
+        is_active: true
+      },
       {
         id: 'acc-equipment',
         account_number: '1500',
@@ -124,6 +134,16 @@ export async function initializeChartOfAccounts(): Promise<void> {
         opening_balance: 0,
         is_active: true
       },
+      {
+        id: 'acc-output-tax',
+        account_number: '2110',
+        account_name: 'Output Tax',
+        account_code: 'OTAX',
+        category_id: 'cat-liabilities',
+        description: 'Tax charged on sales and owed to the tax authority',
+        opening_balance: 0,
+        is_active: true
+      },
 
       // EQUITY
       {
@@ -168,6 +188,16 @@ export async function initializeChartOfAccounts(): Promise<void> {
         opening_balance: 0,
         is_active: true
       },
+      {
+        id: 'acc-exchange-gain',
+        account_number: '4200',
+        account_name: 'Exchange Gain',
+        account_code: 'FXGAIN',
+        category_id: 'cat-revenue',
+        description: 'Realised gains on foreign-currency settlements',
+        opening_balance: 0,
+        is_active: true
+      },
 
       // EXPENSES
       {
@@ -219,6 +249,16 @@ export async function initializeChartOfAccounts(): Promise<void> {
         description: 'Office supplies and materials',
         opening_balance: 0,
         is_active: true
+      },
+      {
+        id: 'acc-exchange-loss',
+        account_number: '6400',
+        account_name: 'Exchange Loss',
+        account_code: 'FXLOSS',
+        category_id: 'cat-expenses',
+        description: 'Realised losses on foreign-currency settlements',
+        opening_balance: 0,
+        is_active: true
       }
     ]
 
@@ -0,0 +1,308 @@
+/**
+ * Stock Counts Module
+ *
+ * A count session freezes the expected quantities of one warehouse, collects the
+ * counted quantities (optionally blind) and, once approved, posts the variances as
+ * 'adjustment' stock movements with a shrinkage journal through post_stock_count.
+ * Product and packaging stock are counted in the same session.
+ */
+
+import { createClient } from './client'
+import { apiCache } from './cache'
+
+export type StockCountStatus = 'counting' | 'submitted' | 'posted' | 'cancelled'
+
+export type StockCountScope = 'all' | 'products' | 'packaging'
+
+export interface StockCountSession {
+  id: string
+  count_number: string
+  warehouse_id: string
+  warehouse_name: string
+  scope: StockCountScope
+  blind_count: boolean
+  count_date: string
+  status: StockCountStatus
+  total_lines: number
+  variance_quantity: number
+  variance_value: number
+  journal_entry_id: string | null
+  notes: string | null
+  submitted_at: string | null
+  submitted_by: string | null
+  posted_at: string | null
+  posted_by: string | null
+  cancelled_at: string | null
+  cancelled_by: string | null
+  created_by: string
+  created_at: string
+}
+
+export interface StockCountLine {
+  id: string
+  session_id: string
+  item_type: 'product' | 'package'
+  item_id: string
+  variation_id: string | null
+  item_name: string
+  sku: string | null
+  expected_quantity: number
+  unit_cost: number
+  counted_quantity: number | null
+  variance_quantity: number | null
+  approved: boolean
+  posted_value: number | null
+  notes: string | null
+  counted_by: string | null
+  counted_at: string | null
+}
+
+export interface StockCountWithLines extends StockCountSession {
+  lines: StockCountLine[]
+}
+
+export interface StartStockCountData {
+  warehouse_id: string
+  scope: StockCountScope
+  blind_count: boolean
+  count_date?: string
+  notes?: string
+}
+
+export interface StockCountLineUpdate {
+  id: string
+  counted_quantity?: number | null
+  approved?: boolean
+  notes?: string | null
+}
+
+// Error codes returned by start_stock_count and post_stock_count
+export type StockCountErrorCode =
+  | 'COUNT_NOT_FOUND'
+  | 'INVALID_COUNT'
+  | 'INVALID_STATUS'
+  | 'UNCOUNTED_LINES'
+  | 'STOCK_UPDATE_FAILED'
+  | 'JOURNAL_FAILED'
+  | 'PERIOD_LOCKED'
+  | 'NETWORK_ERROR'
+
+type StockCountFailure = {
+  success: false
+  error_code: StockCountErrorCode
+  error_message: string
+}
+
+export type StartStockCountResult =
+  | { success: true; session_id: string; total_lines: number }
+  | StockCountFailure
+
+export type PostStockCountResult =
+  | {
+      success: true
+      session_id: string
+      variance_quantity: number
+      variance_value: number
+      journal_entry_id: string | null
+    }
+  | StockCountFailure
+
+// User-facing messages for each stock count error code
+export const STOCK_COUNT_ERROR_MESSAGES: Record<StockCountErrorCode, string> = {
+  COUNT_NOT_FOUND: 'The stock count could not be found',
+  INVALID_COUNT: 'The stock count could not be started',
+  INVALID_STATUS: 'The stock count is not in the right state for this action',
+  UNCOUNTED_LINES: 'Some approved lines have not been counted',
+  STOCK_UPDATE_FAILED: 'Stock could not be adjusted for this count',
+  JOURNAL_FAILED: 'The shrinkage entry for this count could not be created',
+  PERIOD_LOCKED: 'The count date falls in a locked accounting period',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+export const STOCK_COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  counting: 'Counting',
+  submitted: 'Awaiting Approval',
+  posted: 'Posted',
+  cancelled: 'Cancelled'
+}
+
+// Value of a line's variance at the frozen unit cost
+export function getLineVarianceValue(line: StockCountLine): number {
+  if (line.variance_quantity === null) return 0
+  return line.variance_quantity * line.unit_cost
+}
+
+function invalidateStockCountCaches(sessionId?: string) {
+  apiCache.invalidate('stock-counts')
+  if (sessionId) {
+    apiCache.invalidate(`stock-count-${sessionId}`)
+  }
+}
+
+export async function getStockCountSessions(): Promise<StockCountSession[]> {
+  return apiCache.get('stock-counts', async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('stock_count_sessions')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching stock counts:', error)
+      throw new Error('Failed to fetch stock counts')
+    }
+
+    return (data || []) as StockCountSession[]
+  })
+}
+
+export async function getStockCountSession(sessionId: string): Promise<StockCountWithLines | null> {
+  return apiCache.get(`stock-count-${sessionId}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('stock_count_sessions')
+      .select('*, lines:stock_count_lines(*)')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching stock count:', error)
+      throw new Error('Failed to fetch the stock count')
+    }
+
+    if (!data) return null
+
+    const session = data as StockCountWithLines
+    session.lines = [...(session.lines || [])].sort((a, b) =>
+      a.item_type.localeCompare(b.item_type) || a.item_name.localeCompare(b.item_name)
+    )
+    return session
+  })
+}
+
+export async function startStockCount(data: StartStockCountData, createdBy: string): Promise<StartStockCountResult> {
+  const supabase = createClient()
+
+  const { data: result, error } = await supabase.rpc('start_stock_count', {
+    p_session: data,
+    p_created_by: createdBy
+  })
+
+  if (error) {
+    console.error('❌ start_stock_count RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to start the stock count' }
+  }
+
+  if ((result as StartStockCountResult).success) {
+    invalidateStockCountCaches()
+  }
+
+  return result as StartStockCountResult
+}
+
+// Save counted quantities, approvals and notes for several lines
+export async function saveStockCountLines(sessionId: string, updates: StockCountLineUpdate[], countedBy: string): Promise<void> {
+  const supabase = createClient()
+  const countedAt = new Date().toISOString()
+
+  for (const { id, ...changes } of updates) {
+    const { error } = await supabase
+      .from('stock_count_lines')
+      .update({
+        ...changes,
+        ...(changes.counted_quantity !== undefined ? { counted_by: countedBy, counted_at: countedAt } : {})
+      })
+      .eq('id', id)
+      .eq('session_id', sessionId)
+
+    if (error) {
+      console.error('Error saving stock count line:', error)
+      throw new Error(error.message || 'Failed to save the counted quantities')
+    }
+  }
+
+  invalidateStockCountCaches(sessionId)
+}
+
+async function updateSessionStatus(
+  sessionId: string,
+  fromStatus: StockCountStatus,
+  updates: Partial<StockCountSession>
+): Promise<void> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('stock_count_sessions')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('status', fromStatus)
+    .select('id')
+
+  if (error) {
+    console.error('Error updating stock count:', error)
+    throw new Error('Failed to update the stock count')
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('The stock count has changed since it was loaded. Please refresh.')
+  }
+
+  invalidateStockCountCaches(sessionId)
+}
+
+// Finish counting; expected quantities become visible for blind counts
+export async function submitStockCount(sessionId: string, submittedBy: string): Promise<void> {
+  await updateSessionStatus(sessionId, 'counting', {
+    status: 'submitted',
+    submitted_at: new Date().toISOString(),
+    submitted_by: submittedBy
+  })
+}
+
+// Send a submitted count back for recounting
+export async function reopenStockCount(sessionId: string): Promise<void> {
+  await updateSessionStatus(sessionId, 'submitted', {
+    status: 'counting',
+    submitted_at: null,
+    submitted_by: null
+  })
+}
+
+export async function cancelStockCount(sessionId: string, status: StockCountStatus, cancelledBy: string): Promise<void> {
+  await updateSessionStatus(sessionId, status, {
+    status: 'cancelled',
+    cancelled_at: new Date().toISOString(),
+    cancelled_by: cancelledBy
+  })
+}
+
+// Post the approved variances as adjustment movements with the shrinkage journal
+export async function postStockCount(sessionId: string, postedBy: string): Promise<PostStockCountResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('post_stock_count', {
+    p_session_id: sessionId,
+    p_posted_by: postedBy
+  })
+
+  if (error) {
+    console.error('❌ post_stock_count RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to post the stock count' }
+  }
+
+  const result = data as PostStockCountResult
+
+  if (result.success) {
+    invalidateStockCountCaches(sessionId)
+    // Stock levels and the shrinkage journal changed
+    apiCache.invalidate('products-all')
+    apiCache.invalidate('packaging-all')
+    apiCache.invalidateByPattern('accounts-')
+  } else {
+    console.error(`❌ Stock count posting rolled back (${result.error_code}):`, result.error_message)
+  }
+
+  return result
+}
@@ -0,0 +1,177 @@
+/**
+ * Stock Lots Module
+ *
+ * Products flagged with track_lots keep their warehouse stock split into lots with
+ * an expiry date. Goods-received notes receive into the lot named on each line,
+ * post_sale issues first expiry, first out unless lots are picked on the sale line,
+ * and process_return puts units back into the lots they were sold from.
+ */
+
+import { createClient } from './client'
+
+export interface StockLot {
+  id: string
+  product_id: string
+  variation_id: string | null
+  warehouse_id: string
+  lot_number: string
+  expiry_date: string | null
+  received_quantity: number
+  quantity: number
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+export interface StockLotWithItem extends StockLot {
+  product_name: string
+  sku: string | null
+  warehouse_name: string
+}
+
+// Lot picked by hand for a sale line; without picks the sale goes first expiry, first out
+export interface SaleItemLotSelection {
+  lot_id: string
+  quantity: number
+}
+
+export type LotExpiryStatus = 'expired' | 'expiring' | 'ok' | 'no_expiry'
+
+export const DEFAULT_EXPIRY_WARNING_DAYS = 30
+
+export const LOT_EXPIRY_STATUS_LABELS: Record<LotExpiryStatus, string> = {
+  expired: 'Expired',
+  expiring: 'Expiring Soon',
+  ok: 'In Date',
+  no_expiry: 'No Expiry'
+}
+
+export const LOT_EXPIRY_STATUS_BADGE_CLASSES: Record<LotExpiryStatus, string> = {
+  expired: 'bg-red-100 text-red-800',
+  expiring: 'bg-orange-100 text-orange-800',
+  ok: 'bg-green-100 text-green-800',
+  no_expiry: 'bg-gray-100 text-gray-800'
+}
+
+const formatDateValue = (date: Date) => {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+export function getLotExpiryStatus(
+  expiryDate: string | null,
+  warningDays: number = DEFAULT_EXPIRY_WARNING_DAYS,
+  today: Date = new Date()
+): LotExpiryStatus {
+  if (!expiryDate) return 'no_expiry'
+
+  const todayValue = formatDateValue(today)
+  if (expiryDate < todayValue) return 'expired'
+
+  const warnUntil = new Date(today)
+  warnUntil.setDate(warnUntil.getDate() + warningDays)
+  return expiryDate <= formatDateValue(warnUntil) ? 'expiring' : 'ok'
+}
+
+// Which of these products are received and sold by lot
+export async function getLotTrackedProductIds(productIds: string[]): Promise<Set<string>> {
+  if (productIds.length === 0) return new Set()
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('id')
+    .in('id', productIds)
+    .eq('track_lots', true)
+
+  if (error) {
+    console.error('Error fetching lot-tracked products:', error)
+    throw new Error('Failed to check which products are lot-tracked')
+  }
+
+  return new Set((data || []).map((row: { id: string }) => row.id))
+}
+
+// Unexpired lots of an item in a warehouse with stock left, first expiry first
+export async function getAvailableLots(
+  productId: string,
+  variationId: string | null | undefined,
+  warehouseId: string
+): Promise<StockLot[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('stock_lots')
+    .select('*')
+    .eq('product_id', productId)
+    .eq('warehouse_id', warehouseId)
+    .gt('quantity', 0)
+    .or(`expiry_date.is.null,expiry_date.gte.${formatDateValue(new Date())}`)
+    .order('expiry_date', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true })
+
+  query = variationId ? query.eq('variation_id', variationId) : query.is('variation_id', null)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching stock lots:', error)
+    throw new Error('Failed to load the lots for this item')
+  }
+
+  return (data || []) as StockLot[]
+}
+
+// Lots with stock left, optionally only those expiring within `withinDays` (expired lots included)
+export async function getStockLots(filters: {
+  warehouseId?: string | null
+  withinDays?: number | null
+} = {}): Promise<StockLotWithItem[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('stock_lots')
+    .select(`
+      *,
+      products(name, sku),
+      product_variations(sku),
+      warehouses(name)
+    `)
+    .gt('quantity', 0)
+    .order('expiry_date', { ascending: true, nullsFirst: false })
+
+  if (filters.warehouseId) {
+    query = query.eq('warehouse_id', filters.warehouseId)
+  }
+
+  if (filters.withinDays !== undefined && filters.withinDays !== null) {
+    const cutoff = new Date()
+    cutoff.setDate(cutoff.getDate() + filters.withinDays)
+    query = query.lte('expiry_date', formatDateValue(cutoff))
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching stock lots:', error)
+    throw new Error('Failed to load stock lots')
+  }
+
+  type StockLotRow = StockLot & {
+    products: { name: string; sku: string | null } | null
+    product_variations: { sku: string | null } | null
+    warehouses: { name: string } | null
+  }
+
+  return ((data || []) as StockLotRow[]).map(row => {
+    const { products, product_variations, warehouses, ...lot } = row
+    return {
+      ...lot,
+      product_name: products?.name || lot.product_id,
+      sku: product_variations?.sku || products?.sku || null,
+      warehouse_name: warehouses?.name || lot.warehouse_id
+    } as StockLotWithItem
+  })
+}
@@ -0,0 +1,223 @@
+/**
+ * Tax Codes Module
+ *
+ * A tax code carries a rate and whether prices under it already include the tax.
+ * Products take their own tax code, or else their category's; lines with neither are
+ * untaxed. The cart works out each line's tax with calculateLineTaxes and the sale keeps
+ * it per line on sale_items; purchases keep it per line on purchase_items. post_sale and
+ * the goods-received notes post it to the Output Tax and Input Tax accounts, and
+ * getTaxReturn summarises both sides for a period.
+ */
+
+import { createClient } from './client'
+
+export type TaxCodeStatus = 'active' | 'inactive'
+
+export interface TaxCodeInput {
+  code: string
+  name: string
+  // Percentage, 0 to 100
+  rate: number
+  // Prices under the code already include the tax, rather than having it added
+  price_includes_tax: boolean
+  status: TaxCodeStatus
+}
+
+export interface TaxCode extends TaxCodeInput {
+  id: string
+  created_at: string
+  updated_at: string
+}
+
+// Tax codes with the category defaults the sale screen needs
+export interface TaxSetup {
+  codes: TaxCode[]
+  // Tax code id by category id, for categories that have one
+  categoryTaxCodes: Record<string, string>
+}
+
+// A sale line as the tax calculation sees it
+export interface TaxLine {
+  key: string
+  taxCodeId: string | null
+  // Line total after its own and promotion discounts
+  total: number
+}
+
+export interface LineTax {
+  taxCodeId: string | null
+  taxRate: number
+  // Part of the line that is taxed, net of its share of the sale-wide discount
+  taxableAmount: number
+  tax: number
+  priceIncludesTax: boolean
+}
+
+export interface LineTaxResult {
+  // Tax for each line, by line key
+  lines: Record<string, LineTax>
+  // All tax on the sale, inclusive and exclusive
+  taxAmount: number
+  // Tax added on top of the prices, from tax-exclusive codes only
+  addedTax: number
+}
+
+// One tax code's figures on the tax return; tax_code_id is null for untaxed lines
+export interface TaxReturnRow {
+  tax_code_id: string | null
+  code: string | null
+  name: string | null
+  rate: number | null
+  taxable_sales: number
+  output_tax: number
+  taxable_purchases: number
+  input_tax: number
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+// Tax code that applies to an item: its own, else its category's, else none
+export function resolveTaxCode(
+  setup: TaxSetup,
+  productTaxCodeId: string | null | undefined,
+  categoryId: string | null | undefined
+): TaxCode | null {
+  const taxCodeId = productTaxCodeId || (categoryId ? setup.categoryTaxCodes[categoryId] : undefined)
+  if (!taxCodeId) return null
+  return setup.codes.find(code => code.id === taxCodeId && code.status === 'active') || null
+}
+
+// Tax for each line once the sale-wide discount is spread over the lines by value.
+// Tax-exclusive lines are taxed on top; tax-inclusive lines have the tax taken out.
+export function calculateLineTaxes(codes: TaxCode[], lines: TaxLine[], orderDiscount: number): LineTaxResult {
+  const subtotal = lines.reduce((sum, line) => sum + Math.max(line.total, 0), 0)
+  const result: LineTaxResult = { lines: {}, taxAmount: 0, addedTax: 0 }
+
+  for (const line of lines) {
+    const lineTotal = Math.max(line.total, 0)
+    const discountShare = subtotal > 0 ? orderDiscount * lineTotal / subtotal : 0
+    const net = Math.max(lineTotal - discountShare, 0)
+    const code = line.taxCodeId ? codes.find(taxCode => taxCode.id === line.taxCodeId) : undefined
+    const rate = code ? Number(code.rate) : 0
+
+    let tax = 0
+    let taxableAmount = net
+    if (code?.price_includes_tax) {
+      tax = roundMoney(net * rate / (100 + rate))
+      taxableAmount = roundMoney(net - tax)
+    } else {
+      tax = roundMoney(net * rate / 100)
+      taxableAmount = roundMoney(net)
+      result.addedTax += tax
+    }
+
+    result.taxAmount += tax
+    result.lines[line.key] = {
+      taxCodeId: code?.id || null,
+      taxRate: rate,
+      taxableAmount,
+      tax,
+      priceIncludesTax: code?.price_includes_tax || false
+    }
+  }
+
+  result.taxAmount = roundMoney(result.taxAmount)
+  result.addedTax = roundMoney(result.addedTax)
+  return result
+}
+
+// Label for a tax code in selects, e.g. "VAT15 – VAT standard rate (15%)"
+export function formatTaxCode(code: Pick<TaxCode, 'code' | 'name' | 'rate' | 'price_includes_tax'>): string {
+  return `${code.code} – ${code.name} (${Number(code.rate)}%${code.price_includes_tax ? ', inclusive' : ''})`
+}
+
+// All tax codes by code
+export async function getTaxCodes(): Promise<TaxCode[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('tax_codes')
+    .select('*')
+    .order('code')
+
+  if (error) {
+    console.error('Error fetching tax codes:', error)
+    throw new Error('Failed to load the tax codes')
+  }
+
+  return ((data || []) as TaxCode[]).map(code => ({ ...code, rate: Number(code.rate) }))
+}
+
+// Tax codes and each category's default, for working out line taxes
+export async function getTaxSetup(): Promise<TaxSetup> {
+  const supabase = createClient()
+
+  const [codes, { data, error }] = await Promise.all([
+    getTaxCodes(),
+    supabase
+      .from('categories')
+      .select('id, tax_code_id')
+      .not('tax_code_id', 'is', null)
+  ])
+
+  if (error) {
+    console.error('Error fetching category tax codes:', error)
+    throw new Error('Failed to load the category tax codes')
+  }
+
+  const categoryTaxCodes: Record<string, string> = {}
+  for (const category of (data || []) as { id: string; tax_code_id: string }[]) {
+    categoryTaxCodes[category.id] = category.tax_code_id
+  }
+
+  return { codes, categoryTaxCodes }
+}
+
+// Creates a tax code, or updates it when an id is given. A code's rate can change;
+// lines already taxed keep the rate they were charged at.
+export async function saveTaxCode(taxCode: TaxCodeInput, taxCodeId?: string): Promise<TaxCode> {
+  const supabase = createClient()
+
+  const payload = { ...taxCode, code: taxCode.code.trim(), name: taxCode.name.trim() }
+  const { data, error } = taxCodeId
+    ? await supabase
+        .from('tax_codes')
+        .update({ ...payload, updated_at: new Date().toISOString() })
+        .eq('id', taxCodeId)
+        .select()
+        .single()
+    : await supabase
+        .from('tax_codes')
+        .insert(payload)
+        .select()
+        .single()
+
+  if (error) {
+    console.error('Error saving tax code:', error)
+    throw new Error(error.code === '23505' ? 'A tax code with this code already exists' : 'Failed to save the tax code')
+  }
+
+  return data as TaxCode
+}
+
+// Taxable sales, output tax, taxable purchases and input tax by tax code between two
+// dates (yyyy-MM-dd), inclusive
+export async function getTaxReturn(from: string, to: string): Promise<TaxReturnRow[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_tax_return', { p_from: from, p_to: to })
+
+  if (error) {
+    console.error('Error fetching tax return:', error)
+    throw new Error('Failed to load the tax return')
+  }
+
+  return ((data || []) as TaxReturnRow[]).map(row => ({
+    ...row,
+    rate: row.rate === null ? null : Number(row.rate),
+    taxable_sales: Number(row.taxable_sales || 0),
+    output_tax: Number(row.output_tax || 0),
+    taxable_purchases: Number(row.taxable_purchases || 0),
+    input_tax: Number(row.input_tax || 0)
+  }))
+}
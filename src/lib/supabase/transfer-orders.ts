@@ -0,0 +1,435 @@
+/**
+ * Transfer Orders Module
+ *
+ * Moves stock between warehouses in two steps. A draft is dispatched through
+ * dispatch_transfer_order, which takes the stock out of the source warehouse; it then
+ * sits in transit until receive_transfer_order books it into the destination. Receipts
+ * can be partial, and units that never arrive are recorded as a discrepancy.
+ */
+
+import { createClient } from './client'
+import { apiCache } from './cache'
+
+export type TransferOrderStatus = 'draft' | 'dispatched' | 'partially_received' | 'received' | 'cancelled'
+
+export type TransferItemType = 'product' | 'package'
+
+export interface TransferOrder {
+  id: string
+  transfer_number: string
+  from_warehouse_id: string
+  from_warehouse_name: string
+  to_warehouse_id: string
+  to_warehouse_name: string
+  status: TransferOrderStatus
+  transfer_date: string
+  expected_date: string | null
+  total_quantity: number
+  total_value: number
+  received_quantity: number
+  discrepancy_quantity: number
+  discrepancy_value: number
+  notes: string | null
+  dispatched_at: string | null
+  dispatched_by: string | null
+  received_at: string | null
+  received_by: string | null
+  cancelled_at: string | null
+  cancelled_by: string | null
+  created_by: string
+  created_at: string
+}
+
+export interface TransferOrderItem {
+  id: string
+  transfer_order_id: string
+  item_type: TransferItemType
+  item_id: string
+  variation_id: string | null
+  item_name: string
+  sku: string | null
+  quantity: number
+  unit_cost: number
+  received_quantity: number
+  discrepancy_quantity: number
+  discrepancy_reason: string | null
+  // Units sent, for serial-tracked products
+  serial_numbers: string[] | null
+}
+
+export interface TransferOrderReceiptItem {
+  id: string
+  receipt_id: string
+  transfer_order_item_id: string
+  received_quantity: number
+  discrepancy_quantity: number
+  discrepancy_reason: string | null
+  serial_numbers: string[] | null
+  discrepancy_serial_numbers: string[] | null
+}
+
+export interface TransferOrderReceipt {
+  id: string
+  transfer_order_id: string
+  receipt_number: string
+  received_date: string
+  received_quantity: number
+  discrepancy_quantity: number
+  discrepancy_value: number
+  journal_entry_id: string | null
+  notes: string | null
+  received_by: string
+  created_at: string
+  items: TransferOrderReceiptItem[]
+}
+
+export interface TransferOrderWithDetails extends TransferOrder {
+  items: TransferOrderItem[]
+  receipts: TransferOrderReceipt[]
+}
+
+// A product or packaging item with stock that can be sent from a warehouse
+export interface TransferableStockItem {
+  item_type: TransferItemType
+  item_id: string
+  variation_id: string | null
+  item_name: string
+  sku: string | null
+  available_stock: number
+  track_serials: boolean
+}
+
+export interface SaveTransferOrderData {
+  id?: string
+  from_warehouse_id: string
+  to_warehouse_id: string
+  transfer_date?: string
+  expected_date?: string | null
+  notes?: string
+  items: Array<{
+    item_type: TransferItemType
+    item_id: string
+    variation_id?: string | null
+    quantity: number
+    // Required for serial-tracked products before dispatch
+    serial_numbers?: string[]
+  }>
+}
+
+export interface ReceiveTransferOrderData {
+  received_date?: string
+  notes?: string
+  items: Array<{
+    transfer_order_item_id: string
+    received_quantity: number
+    discrepancy_quantity?: number
+    discrepancy_reason?: string
+    // Serial-tracked lines name the units that arrived and the units that did not
+    serial_numbers?: string[]
+    discrepancy_serial_numbers?: string[]
+  }>
+}
+
+// Error codes returned by save_transfer_order, dispatch_transfer_order and receive_transfer_order
+export type TransferOrderErrorCode =
+  | 'TRANSFER_NOT_FOUND'
+  | 'INVALID_TRANSFER'
+  | 'INVALID_STATUS'
+  | 'INVALID_RECEIPT'
+  | 'INSUFFICIENT_STOCK'
+  | 'INVALID_SERIAL'
+  | 'STOCK_UPDATE_FAILED'
+  | 'JOURNAL_FAILED'
+  | 'PERIOD_LOCKED'
+  | 'NETWORK_ERROR'
+
+type TransferOrderFailure = {
+  success: false
+  error_code: TransferOrderErrorCode
+  error_message: string
+}
+
+export type SaveTransferOrderResult =
+  | { success: true; transfer_order_id: string; transfer_number: string }
+  | TransferOrderFailure
+
+export type DispatchTransferOrderResult =
+  | { success: true; transfer_order_id: string; total_value: number }
+  | TransferOrderFailure
+
+export type ReceiveTransferOrderResult =
+  | {
+      success: true
+      transfer_order_id: string
+      receipt_id: string
+      status: TransferOrderStatus
+      discrepancy_value: number
+      journal_entry_id: string | null
+    }
+  | TransferOrderFailure
+
+// User-facing messages for each transfer order error code
+export const TRANSFER_ORDER_ERROR_MESSAGES: Record<TransferOrderErrorCode, string> = {
+  TRANSFER_NOT_FOUND: 'The transfer could not be found',
+  INVALID_TRANSFER: 'The transfer could not be saved',
+  INVALID_STATUS: 'The transfer is not in the right state for this action',
+  INVALID_RECEIPT: 'The received quantities are not valid',
+  INSUFFICIENT_STOCK: 'The source warehouse does not have enough stock',
+  INVALID_SERIAL: 'The serial numbers do not match the units on this transfer',
+  STOCK_UPDATE_FAILED: 'Stock could not be moved for this transfer',
+  JOURNAL_FAILED: 'The write-off entry for the discrepancy could not be created',
+  PERIOD_LOCKED: 'The receipt date falls in a locked accounting period',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+export const TRANSFER_ORDER_STATUS_LABELS: Record<TransferOrderStatus, string> = {
+  draft: 'Draft',
+  dispatched: 'In Transit',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+}
+
+export const TRANSFER_ORDER_STATUS_BADGE_CLASSES: Record<TransferOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  dispatched: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-amber-100 text-amber-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-200 text-gray-800'
+}
+
+// Units of a line that have left the source but are neither received nor written off
+export function getInTransitQuantity(item: TransferOrderItem): number {
+  return item.quantity - item.received_quantity - item.discrepancy_quantity
+}
+
+function invalidateTransferOrderCaches(transferOrderId?: string) {
+  apiCache.invalidateByPattern('transfer-orders')
+  if (transferOrderId) {
+    apiCache.invalidate(`transfer-order-${transferOrderId}`)
+  }
+}
+
+// Transfers, newest first; with a warehouse id only those leaving or arriving there
+export async function getTransferOrders(warehouseId?: string): Promise<TransferOrder[]> {
+  return apiCache.get(`transfer-orders-${warehouseId || 'all'}`, async () => {
+    const supabase = createClient()
+
+    let query = supabase
+      .from('transfer_orders')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (warehouseId) {
+      query = query.or(`from_warehouse_id.eq.${warehouseId},to_warehouse_id.eq.${warehouseId}`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching transfer orders:', error)
+      throw new Error('Failed to fetch transfer orders')
+    }
+
+    return (data || []) as TransferOrder[]
+  })
+}
+
+export async function getTransferOrder(transferOrderId: string): Promise<TransferOrderWithDetails | null> {
+  return apiCache.get(`transfer-order-${transferOrderId}`, async () => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase
+      .from('transfer_orders')
+      .select('*, items:transfer_order_items(*), receipts:transfer_order_receipts(*, items:transfer_order_receipt_items(*))')
+      .eq('id', transferOrderId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching transfer order:', error)
+      throw new Error('Failed to fetch the transfer order')
+    }
+
+    if (!data) return null
+
+    const order = data as TransferOrderWithDetails
+    order.items = [...(order.items || [])].sort((a, b) =>
+      a.item_type.localeCompare(b.item_type) || a.item_name.localeCompare(b.item_name)
+    )
+    order.receipts = [...(order.receipts || [])].sort((a, b) => a.created_at.localeCompare(b.created_at))
+    return order
+  })
+}
+
+// Products and packaging with unreserved stock in a warehouse, for picking transfer lines
+export async function getTransferableStock(warehouseId: string): Promise<TransferableStockItem[]> {
+  const supabase = createClient()
+
+  const [productResult, packagingResult] = await Promise.all([
+    supabase
+      .from('product_warehouse_stock')
+      .select('product_id, variation_id, current_stock, reserved_stock, products(name, sku, track_serials), product_variations(sku)')
+      .eq('warehouse_id', warehouseId)
+      .gt('current_stock', 0),
+    supabase
+      .from('packaging_warehouse_stock')
+      .select('packaging_id, variation_id, current_stock, reserved_stock, packaging(title, sku), packaging_variations(sku)')
+      .eq('warehouse_id', warehouseId)
+      .gt('current_stock', 0)
+  ])
+
+  if (productResult.error || packagingResult.error) {
+    console.error('Error fetching transferable stock:', productResult.error || packagingResult.error)
+    throw new Error('Failed to fetch warehouse stock')
+  }
+
+  type ProductStockRow = {
+    product_id: string
+    variation_id: string | null
+    current_stock: number
+    reserved_stock: number
+    products: { name: string; sku: string | null; track_serials: boolean } | null
+    product_variations: { sku: string | null } | null
+  }
+  type PackagingStockRow = {
+    packaging_id: string
+    variation_id: string | null
+    current_stock: number
+    reserved_stock: number
+    packaging: { title: string; sku: string | null } | null
+    packaging_variations: { sku: string | null } | null
+  }
+
+  const products = ((productResult.data || []) as unknown as ProductStockRow[]).map((row): TransferableStockItem => ({
+    item_type: 'product',
+    item_id: row.product_id,
+    variation_id: row.variation_id,
+    item_name: row.products?.name || row.product_id,
+    sku: row.product_variations?.sku || row.products?.sku || null,
+    available_stock: row.current_stock - row.reserved_stock,
+    track_serials: row.products?.track_serials || false
+  }))
+
+  const packaging = ((packagingResult.data || []) as unknown as PackagingStockRow[]).map((row): TransferableStockItem => ({
+    item_type: 'package',
+    item_id: row.packaging_id,
+    variation_id: row.variation_id,
+    item_name: row.packaging?.title || row.packaging_id,
+    sku: row.packaging_variations?.sku || row.packaging?.sku || null,
+    available_stock: row.current_stock - row.reserved_stock,
+    track_serials: false
+  }))
+
+  return [...products, ...packaging]
+    .filter(item => item.available_stock > 0)
+    .sort((a, b) => a.item_type.localeCompare(b.item_type) || a.item_name.localeCompare(b.item_name))
+}
+
+// Create a draft, or replace an existing draft when data.id is set
+export async function saveTransferOrder(data: SaveTransferOrderData, createdBy: string): Promise<SaveTransferOrderResult> {
+  const supabase = createClient()
+
+  const { data: result, error } = await supabase.rpc('save_transfer_order', {
+    p_order: data,
+    p_created_by: createdBy
+  })
+
+  if (error) {
+    console.error('❌ save_transfer_order RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to save the transfer' }
+  }
+
+  if ((result as SaveTransferOrderResult).success) {
+    invalidateTransferOrderCaches(data.id)
+  }
+
+  return result as SaveTransferOrderResult
+}
+
+export async function dispatchTransferOrder(transferOrderId: string, dispatchedBy: string): Promise<DispatchTransferOrderResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('dispatch_transfer_order', {
+    p_transfer_order_id: transferOrderId,
+    p_dispatched_by: dispatchedBy
+  })
+
+  if (error) {
+    console.error('❌ dispatch_transfer_order RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to dispatch the transfer' }
+  }
+
+  const result = data as DispatchTransferOrderResult
+
+  if (result.success) {
+    invalidateTransferOrderCaches(transferOrderId)
+    apiCache.invalidate('products-all')
+    apiCache.invalidate('packaging-all')
+  } else {
+    console.error(`❌ Transfer dispatch rolled back (${result.error_code}):`, result.error_message)
+  }
+
+  return result
+}
+
+export async function receiveTransferOrder(
+  transferOrderId: string,
+  receipt: ReceiveTransferOrderData,
+  receivedBy: string
+): Promise<ReceiveTransferOrderResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('receive_transfer_order', {
+    p_transfer_order_id: transferOrderId,
+    p_receipt: receipt,
+    p_received_by: receivedBy
+  })
+
+  if (error) {
+    console.error('❌ receive_transfer_order RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to receive the transfer' }
+  }
+
+  const result = data as ReceiveTransferOrderResult
+
+  if (result.success) {
+    invalidateTransferOrderCaches(transferOrderId)
+    apiCache.invalidate('products-all')
+    apiCache.invalidate('packaging-all')
+    if (result.journal_entry_id) {
+      apiCache.invalidateByPattern('accounts-')
+    }
+  } else {
+    console.error(`❌ Transfer receipt rolled back (${result.error_code}):`, result.error_message)
+  }
+
+  return result
+}
+
+// Only drafts can be cancelled; dispatched stock has to be received first
+export async function cancelTransferOrder(transferOrderId: string, cancelledBy: string): Promise<void> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('transfer_orders')
+    .update({
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: cancelledBy,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', transferOrderId)
+    .eq('status', 'draft')
+    .select('id')
+
+  if (error) {
+    console.error('Error cancelling transfer order:', error)
+    throw new Error('Failed to cancel the transfer')
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('The transfer has changed since it was loaded. Please refresh.')
+  }
+
+  invalidateTransferOrderCaches(transferOrderId)
+}
@@ -6,6 +6,7 @@ interface DatabaseProductWithStock extends DatabaseProduct {
   variations?: (DatabaseProductVariation & { stock?: number })[]
 }
 import type { Product, ProductVariation } from '../types'
+import { getUnitOptions } from './units-of-measure'
 
 /**
  * Transform database product to ERP Product interface
@@ -15,16 +16,23 @@ export function transformDatabaseProductToProduct(dbProduct: DatabaseProductWith
     id: dbProduct.id,
     name: dbProduct.name,
     sku: dbProduct.sku,
+    barcode: dbProduct.barcode || undefined,
     description: dbProduct.description,
     category: dbProduct.category?.name || 'Uncategorized',
     categoryId: dbProduct.category_id || undefined,
+    taxCodeId: dbProduct.tax_code_id || undefined,
     status: dbProduct.status,
     type: dbProduct.type,
     image: dbProduct.image_url,
     parentSku: dbProduct.parent_sku,
+    trackLots: dbProduct.track_lots || false,
+    trackSerials: dbProduct.track_serials || false,
+    baseUnit: dbProduct.base_unit || undefined,
+    units: getUnitOptions(dbProduct.base_unit, dbProduct.product_units),
   }
 
-  if (dbProduct.type === 'simple') {
+  // Bundles carry their own SKU and price like simple products
+  if (dbProduct.type !== 'variation') {
     return {
       ...baseProduct,
       price: dbProduct.price,
@@ -39,6 +47,7 @@ export function transformDatabaseProductToProduct(dbProduct: DatabaseProductWith
       id: dbVariation.id,
       productId: dbVariation.product_id,
       sku: dbVariation.sku,
+      barcode: dbVariation.barcode || undefined,
       price: dbVariation.price,
       // Legacy fields removed - will be handled by warehouse stock system
       buyingPrice: 0,
@@ -71,7 +80,7 @@ export function transformDatabaseProductsToProducts(dbProducts: DatabaseProduct[
  * Calculate current stock for both simple and variation products
  */
 export function calculateCurrentStock(product: Product): number {
-  if (product.type === 'simple') {
+  if (product.type !== 'variation') {
     return product.stock || 0
   } else if (product.type === 'variation' && product.variations) {
     return product.variations.reduce((total, variation) => total + (variation.stock || 0), 0)
@@ -119,9 +128,15 @@ export function getAttributeValueDisplay(attributeId: string, valueId: string):
 export function getVariationDisplayName(variation: ProductVariation): string {
   if (!variation.attributeValues) return variation.sku
 
-  const attributes = Object.entries(variation.attributeValues)
-    .map(([attrId, valueId]) => getAttributeValueDisplay(attrId, valueId))
-    .join(', ')
+  return formatVariationDisplayName(
+    Object.entries(variation.attributeValues).map(([attrId, valueId]) => getAttributeValueDisplay(attrId, valueId)),
+    variation.sku
+  )
+}
 
-  return attributes || variation.sku
+/**
+ * Join attribute value labels into a variation display name, falling back to the SKU
+ */
+export function formatVariationDisplayName(attributeLabels: string[], sku: string): string {
+  return attributeLabels.filter(Boolean).join(', ') || sku
 } 
\ No newline at end of file
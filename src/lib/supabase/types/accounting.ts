@@ -166,6 +166,7 @@ export interface AccountingTables {
   }
   journal_entries: {
     Row: {
+      corrects_entry_id: string | null
       created_at: string | null
       created_by: string
       description: string
@@ -174,11 +175,17 @@ export interface AccountingTables {
       id: string
       reference_id: string | null
       reference_type: string | null
+      reversal_reason: string | null
+      reversed_at: string | null
+      reversed_by: string | null
+      reversed_by_entry_id: string | null
+      reverses_entry_id: string | null
       status: string | null
       total_amount: number
       updated_at: string | null
     }
     Insert: {
+      corrects_entry_id?: string | null
       created_at?: string | null
       created_by: string
       description: string
@@ -187,11 +194,17 @@ export interface AccountingTables {
       id?: string
       reference_id?: string | null
       reference_type?: string | null
+      reversal_reason?: string | null
+      reversed_at?: string | null
+      reversed_by?: string | null
+      reversed_by_entry_id?: string | null
+      reverses_entry_id?: string | null
       status?: string | null
       total_amount: number
       updated_at?: string | null
     }
     Update: {
+      corrects_entry_id?: string | null
       created_at?: string | null
       created_by?: string
       description?: string
@@ -200,6 +213,11 @@ export interface AccountingTables {
       id?: string
       reference_id?: string | null
       reference_type?: string | null
+      reversal_reason?: string | null
+      reversed_at?: string | null
+      reversed_by?: string | null
+      reversed_by_entry_id?: string | null
+      reverses_entry_id?: string | null
       status?: string | null
       total_amount?: number
       updated_at?: string | null
@@ -14,7 +14,7 @@ export * from './system'
 import { AccountingTables } from './accounting'
 import { ProductTables } from './products'
 import { PackagingTables } from './packaging'
-import { SalesTables } from './sales'
+import { SalesTables, SalesFunctions } from './sales'
 import { PurchaseTables } from './purchases'
 import { InventoryTables, InventoryFunctions } from './inventory'
 import { SystemTables, SystemViews } from './system'
@@ -30,7 +30,7 @@ export type Database = {
              InventoryTables & 
              SystemTables
     Views: SystemViews
-    Functions: InventoryFunctions
+    Functions: InventoryFunctions & SalesFunctions
     Enums: {
       [_ in never]: never
     }
@@ -50,7 +50,8 @@ export type {
 export type {
   SaleWithItems,
   ReturnWithItems,
-  ReturnItemWithVariation
+  ReturnItemWithVariation,
+  SalesOrderWithItems
 } from './sales'
 
 // Legacy compatibility - make sure all original exports are available
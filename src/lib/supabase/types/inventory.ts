@@ -180,6 +180,8 @@ export interface InventoryTables {
       created_by: string | null
       direction: string
       id: string
+      lot_id: string | null
+      lot_number: string | null
       movement_type: string
       new_stock: number
       notes: string | null
@@ -197,6 +199,8 @@ export interface InventoryTables {
       created_by?: string | null
       direction: string
       id: string
+      lot_id?: string | null
+      lot_number?: string | null
       movement_type: string
       new_stock: number
       notes?: string | null
@@ -214,6 +218,8 @@ export interface InventoryTables {
       created_by?: string | null
       direction?: string
       id?: string
+      lot_id?: string | null
+      lot_number?: string | null
       movement_type?: string
       new_stock?: number
       notes?: string | null
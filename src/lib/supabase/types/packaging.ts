@@ -3,6 +3,7 @@ import { Json } from './base'
 export interface PackagingTables {
   packaging: {
     Row: {
+      barcode: string | null
       created_at: string | null
       description: string | null
       id: string
@@ -13,6 +14,7 @@ export interface PackagingTables {
       updated_at: string | null
     }
     Insert: {
+      barcode?: string | null
       created_at?: string | null
       description?: string | null
       id: string
@@ -23,6 +25,7 @@ export interface PackagingTables {
       updated_at?: string | null
     }
     Update: {
+      barcode?: string | null
       created_at?: string | null
       description?: string | null
       id?: string
@@ -131,6 +134,7 @@ export interface PackagingTables {
   }
   packaging_variations: {
     Row: {
+      barcode: string | null
       created_at: string | null
       id: string
       packaging_id: string
@@ -138,6 +142,7 @@ export interface PackagingTables {
       updated_at: string | null
     }
     Insert: {
+      barcode?: string | null
       created_at?: string | null
       id: string
       packaging_id: string
@@ -145,6 +150,7 @@ export interface PackagingTables {
       updated_at?: string | null
     }
     Update: {
+      barcode?: string | null
       created_at?: string | null
       id?: string
       packaging_id?: string
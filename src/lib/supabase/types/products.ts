@@ -3,6 +3,7 @@ import { Json } from './base'
 export interface ProductTables {
   products: {
     Row: {
+      barcode: string | null
       category_id: string | null
       created_at: string | null
       description: string | null
@@ -13,10 +14,14 @@ export interface ProductTables {
       price: number | null
       sku: string | null
       status: string | null
+      tax_code_id: string | null
+      track_lots: boolean
+      track_serials: boolean
       type: string | null
       updated_at: string | null
     }
     Insert: {
+      barcode?: string | null
       category_id?: string | null
       created_at?: string | null
       description?: string | null
@@ -27,10 +32,14 @@ export interface ProductTables {
       price?: number | null
       sku?: string | null
       status?: string | null
+      tax_code_id?: string | null
+      track_lots?: boolean
+      track_serials?: boolean
       type?: string | null
       updated_at?: string | null
     }
     Update: {
+      barcode?: string | null
       category_id?: string | null
       created_at?: string | null
       description?: string | null
@@ -41,6 +50,9 @@ export interface ProductTables {
       price?: number | null
       sku?: string | null
       status?: string | null
+      tax_code_id?: string | null
+      track_lots?: boolean
+      track_serials?: boolean
       type?: string | null
       updated_at?: string | null
     }
@@ -63,6 +75,7 @@ export interface ProductTables {
       parent_id: string | null
       slug: string
       status: string | null
+      tax_code_id: string | null
       updated_at: string | null
     }
     Insert: {
@@ -73,6 +86,7 @@ export interface ProductTables {
       parent_id?: string | null
       slug: string
       status?: string | null
+      tax_code_id?: string | null
       updated_at?: string | null
     }
     Update: {
@@ -83,6 +97,7 @@ export interface ProductTables {
       parent_id?: string | null
       slug?: string
       status?: string | null
+      tax_code_id?: string | null
       updated_at?: string | null
     }
     Relationships: [
@@ -189,6 +204,7 @@ export interface ProductTables {
   }
   product_variations: {
     Row: {
+      barcode: string | null
       created_at: string | null
       id: string
       price: number
@@ -197,6 +213,7 @@ export interface ProductTables {
       updated_at: string | null
     }
     Insert: {
+      barcode?: string | null
       created_at?: string | null
       id: string
       price: number
@@ -205,6 +222,7 @@ export interface ProductTables {
       updated_at?: string | null
     }
     Update: {
+      barcode?: string | null
       created_at?: string | null
       id?: string
       price?: number
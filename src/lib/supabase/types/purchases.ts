@@ -5,6 +5,9 @@ export interface PurchaseTables {
     Row: {
       created_at: string | null
       created_by: string
+      currency: string
+      due_date: string | null
+      exchange_rate: number
       id: string
       last_updated: string | null
       notes: string | null
@@ -12,6 +15,7 @@ export interface PurchaseTables {
       status: string | null
       supplier_id: string
       supplier_name: string
+      tax_amount: number
       total_amount: number
       updated_at: string | null
       warehouse_id: string
@@ -20,6 +24,9 @@ export interface PurchaseTables {
     Insert: {
       created_at?: string | null
       created_by: string
+      currency?: string
+      due_date?: string | null
+      exchange_rate?: number
       id?: string
       last_updated?: string | null
       notes?: string | null
@@ -27,6 +34,7 @@ export interface PurchaseTables {
       status?: string | null
       supplier_id: string
       supplier_name: string
+      tax_amount?: number
       total_amount?: number
       updated_at?: string | null
       warehouse_id: string
@@ -35,6 +43,9 @@ export interface PurchaseTables {
     Update: {
       created_at?: string | null
       created_by?: string
+      currency?: string
+      due_date?: string | null
+      exchange_rate?: number
       id?: string
       last_updated?: string | null
       notes?: string | null
@@ -42,6 +53,7 @@ export interface PurchaseTables {
       status?: string | null
       supplier_id?: string
       supplier_name?: string
+      tax_amount?: number
       total_amount?: number
       updated_at?: string | null
       warehouse_id?: string
@@ -76,6 +88,9 @@ export interface PurchaseTables {
       quantity: number
       received_quantity: number | null
       returned_quantity: number
+      tax_amount: number
+      tax_code_id: string | null
+      tax_rate: number
       total: number
       updated_at: string | null
       variation_id: string | null
@@ -91,6 +106,9 @@ export interface PurchaseTables {
       quantity: number
       received_quantity?: number | null
       returned_quantity?: number
+      tax_amount?: number
+      tax_code_id?: string | null
+      tax_rate?: number
       total: number
       updated_at?: string | null
       variation_id?: string | null
@@ -106,6 +124,9 @@ export interface PurchaseTables {
       quantity?: number
       received_quantity?: number | null
       returned_quantity?: number
+      tax_amount?: number
+      tax_code_id?: string | null
+      tax_rate?: number
       total?: number
       updated_at?: string | null
       variation_id?: string | null
@@ -186,10 +207,13 @@ export interface PurchaseTables {
     Row: {
       address: string | null
       created_at: string | null
+      currency: string
       email: string | null
       id: string
       join_date: string | null
+      lead_time_days: number | null
       name: string
+      payment_terms_days: number
       phone: string | null
       status: string | null
       total_purchases: number | null
@@ -199,10 +223,13 @@ export interface PurchaseTables {
     Insert: {
       address?: string | null
       created_at?: string | null
+      currency?: string
       email?: string | null
       id?: string
       join_date?: string | null
+      lead_time_days?: number | null
       name: string
+      payment_terms_days?: number
       phone?: string | null
       status?: string | null
       total_purchases?: number | null
@@ -212,10 +239,13 @@ export interface PurchaseTables {
     Update: {
       address?: string | null
       created_at?: string | null
+      currency?: string
       email?: string | null
       id?: string
       join_date?: string | null
+      lead_time_days?: number | null
       name?: string
+      payment_terms_days?: number
       phone?: string | null
       status?: string | null
       total_purchases?: number | null
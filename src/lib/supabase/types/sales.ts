@@ -5,12 +5,16 @@ export interface SalesTables {
     Row: {
       after_discount: number
       created_at: string | null
+      currency: string
       customer_id: string | null
       customer_name: string
+      exchange_rate: number
       id: string
+      price_list_id: string | null
       profit: number | null
       return_reason: string | null
       sale_date: string | null
+      sales_order_id: string | null
       salesperson: string
       status: string | null
       subtotal: number
@@ -26,12 +30,16 @@ export interface SalesTables {
     Insert: {
       after_discount?: number
       created_at?: string | null
+      currency?: string
       customer_id?: string | null
       customer_name: string
+      exchange_rate?: number
       id?: string
+      price_list_id?: string | null
       profit?: number | null
       return_reason?: string | null
       sale_date?: string | null
+      sales_order_id?: string | null
       salesperson: string
       status?: string | null
       subtotal?: number
@@ -47,12 +55,16 @@ export interface SalesTables {
     Update: {
       after_discount?: number
       created_at?: string | null
+      currency?: string
       customer_id?: string | null
       customer_name?: string
+      exchange_rate?: number
       id?: string
+      price_list_id?: string | null
       profit?: number | null
       return_reason?: string | null
       sale_date?: string | null
+      sales_order_id?: string | null
       salesperson?: string
       status?: string | null
       subtotal?: number
@@ -73,6 +85,13 @@ export interface SalesTables {
         referencedRelation: "customers"
         referencedColumns: ["id"]
       },
+      {
+        foreignKeyName: "sales_sales_order_id_fkey"
+        columns: ["sales_order_id"]
+        isOneToOne: false
+        referencedRelation: "sales_orders"
+        referencedColumns: ["id"]
+      },
       {
         foreignKeyName: "sales_warehouse_id_fkey"
         columns: ["warehouse_id"]
@@ -84,6 +103,7 @@ export interface SalesTables {
   }
   sale_items: {
     Row: {
+      cost_amount: number | null
       created_at: string | null
       discount: number | null
       id: string
@@ -96,12 +116,20 @@ export interface SalesTables {
       quantity: number
       returned_quantity: number | null
       sale_id: string | null
+      sales_order_item_id: string | null
+      serial_numbers: string[] | null
       tax: number | null
+      tax_code_id: string | null
+      tax_rate: number
+      taxable_amount: number | null
       total: number
+      unit_factor: number
+      unit_name: string | null
       updated_at: string | null
       variation_id: string | null
     }
     Insert: {
+      cost_amount?: number | null
       created_at?: string | null
       discount?: number | null
       id?: string
@@ -114,12 +142,20 @@ export interface SalesTables {
       quantity: number
       returned_quantity?: number | null
       sale_id?: string | null
+      sales_order_item_id?: string | null
+      serial_numbers?: string[] | null
       tax?: number | null
+      tax_code_id?: string | null
+      tax_rate?: number
+      taxable_amount?: number | null
       total: number
+      unit_factor?: number
+      unit_name?: string | null
       updated_at?: string | null
       variation_id?: string | null
     }
     Update: {
+      cost_amount?: number | null
       created_at?: string | null
       discount?: number | null
       id?: string
@@ -132,8 +168,15 @@ export interface SalesTables {
       quantity?: number
       returned_quantity?: number | null
       sale_id?: string | null
+      sales_order_item_id?: string | null
+      serial_numbers?: string[] | null
       tax?: number | null
+      tax_code_id?: string | null
+      tax_rate?: number
+      taxable_amount?: number | null
       total?: number
+      unit_factor?: number
+      unit_name?: string | null
       updated_at?: string | null
       variation_id?: string | null
     }
@@ -180,11 +223,13 @@ export interface SalesTables {
       address: string | null
       company: string | null
       created_at: string | null
+      currency: string
       email: string | null
       id: string
       join_date: string | null
       name: string
       phone: string | null
+      price_list_id: string | null
       status: string | null
       total_orders: number | null
       total_spent: number | null
@@ -194,11 +239,13 @@ export interface SalesTables {
       address?: string | null
       company?: string | null
       created_at?: string | null
+      currency?: string
       email?: string | null
       id?: string
       join_date?: string | null
       name: string
       phone?: string | null
+      price_list_id?: string | null
       status?: string | null
       total_orders?: number | null
       total_spent?: number | null
@@ -208,11 +255,13 @@ export interface SalesTables {
       address?: string | null
       company?: string | null
       created_at?: string | null
+      currency?: string
       email?: string | null
       id?: string
       join_date?: string | null
       name?: string
       phone?: string | null
+      price_list_id?: string | null
       status?: string | null
       total_orders?: number | null
       total_spent?: number | null
@@ -222,9 +271,12 @@ export interface SalesTables {
   }
   returns: {
     Row: {
+      base_total_amount: number | null
       created_at: string | null
+      currency: string
       customer_id: string | null
       customer_name: string
+      exchange_rate: number
       id: string
       notes: string | null
       processed_by: string | null
@@ -232,13 +284,17 @@ export interface SalesTables {
       return_date: string | null
       sale_id: string | null
       status: string | null
+      tax_amount: number
       total_amount: number
       updated_at: string | null
     }
     Insert: {
+      base_total_amount?: number | null
       created_at?: string | null
+      currency?: string
       customer_id?: string | null
       customer_name: string
+      exchange_rate?: number
       id?: string
       notes?: string | null
       processed_by?: string | null
@@ -246,13 +302,17 @@ export interface SalesTables {
       return_date?: string | null
       sale_id?: string | null
       status?: string | null
+      tax_amount?: number
       total_amount?: number
       updated_at?: string | null
     }
     Update: {
+      base_total_amount?: number | null
       created_at?: string | null
+      currency?: string
       customer_id?: string | null
       customer_name?: string
+      exchange_rate?: number
       id?: string
       notes?: string | null
       processed_by?: string | null
@@ -260,6 +320,7 @@ export interface SalesTables {
       return_date?: string | null
       sale_id?: string | null
       status?: string | null
+      tax_amount?: number
       total_amount?: number
       updated_at?: string | null
     }
@@ -282,6 +343,7 @@ export interface SalesTables {
   }
   return_items: {
     Row: {
+      cost_amount: number | null
       created_at: string | null
       id: string
       price: number
@@ -289,11 +351,14 @@ export interface SalesTables {
       product_name: string
       quantity: number
       return_id: string | null
+      sale_item_id: string | null
+      tax_amount: number
       total: number
       updated_at: string | null
       variation_id: string | null
     }
     Insert: {
+      cost_amount?: number | null
       created_at?: string | null
       id?: string
       price: number
@@ -301,11 +366,14 @@ export interface SalesTables {
       product_name: string
       quantity: number
       return_id?: string | null
+      sale_item_id?: string | null
+      tax_amount?: number
       total: number
       updated_at?: string | null
       variation_id?: string | null
     }
     Update: {
+      cost_amount?: number | null
       created_at?: string | null
       id?: string
       price?: number
@@ -313,6 +381,8 @@ export interface SalesTables {
       product_name?: string
       quantity?: number
       return_id?: string | null
+      sale_item_id?: string | null
+      tax_amount?: number
       total?: number
       updated_at?: string | null
       variation_id?: string | null
@@ -332,6 +402,13 @@ export interface SalesTables {
         referencedRelation: "returns"
         referencedColumns: ["id"]
       },
+      {
+        foreignKeyName: "return_items_sale_item_id_fkey"
+        columns: ["sale_item_id"]
+        isOneToOne: false
+        referencedRelation: "sale_items"
+        referencedColumns: ["id"]
+      },
       {
         foreignKeyName: "return_items_variation_id_fkey"
         columns: ["variation_id"]
@@ -341,6 +418,231 @@ export interface SalesTables {
       },
     ]
   }
+  sales_orders: {
+    Row: {
+      created_at: string | null
+      created_by: string | null
+      customer_id: string | null
+      customer_name: string
+      document_type: string
+      expiry_date: string | null
+      id: string
+      notes: string | null
+      order_date: string
+      quotation_id: string | null
+      salesperson: string | null
+      status: string
+      subtotal: number
+      tax_amount: number | null
+      tax_rate: number | null
+      total_amount: number
+      total_discount: number | null
+      total_discount_type: string | null
+      updated_at: string | null
+      warehouse_id: string | null
+      warehouse_name: string | null
+    }
+    Insert: {
+      created_at?: string | null
+      created_by?: string | null
+      customer_id?: string | null
+      customer_name: string
+      document_type: string
+      expiry_date?: string | null
+      id?: string
+      notes?: string | null
+      order_date?: string
+      quotation_id?: string | null
+      salesperson?: string | null
+      status?: string
+      subtotal?: number
+      tax_amount?: number | null
+      tax_rate?: number | null
+      total_amount?: number
+      total_discount?: number | null
+      total_discount_type?: string | null
+      updated_at?: string | null
+      warehouse_id?: string | null
+      warehouse_name?: string | null
+    }
+    Update: {
+      created_at?: string | null
+      created_by?: string | null
+      customer_id?: string | null
+      customer_name?: string
+      document_type?: string
+      expiry_date?: string | null
+      id?: string
+      notes?: string | null
+      order_date?: string
+      quotation_id?: string | null
+      salesperson?: string | null
+      status?: string
+      subtotal?: number
+      tax_amount?: number | null
+      tax_rate?: number | null
+      total_amount?: number
+      total_discount?: number | null
+      total_discount_type?: string | null
+      updated_at?: string | null
+      warehouse_id?: string | null
+      warehouse_name?: string | null
+    }
+    Relationships: [
+      {
+        foreignKeyName: "sales_orders_customer_id_fkey"
+        columns: ["customer_id"]
+        isOneToOne: false
+        referencedRelation: "customers"
+        referencedColumns: ["id"]
+      },
+      {
+        foreignKeyName: "sales_orders_quotation_id_fkey"
+        columns: ["quotation_id"]
+        isOneToOne: false
+        referencedRelation: "sales_orders"
+        referencedColumns: ["id"]
+      },
+      {
+        foreignKeyName: "sales_orders_warehouse_id_fkey"
+        columns: ["warehouse_id"]
+        isOneToOne: false
+        referencedRelation: "warehouses"
+        referencedColumns: ["id"]
+      },
+    ]
+  }
+  sales_order_items: {
+    Row: {
+      created_at: string | null
+      discount: number | null
+      fulfilled_quantity: number
+      id: string
+      packaging_id: string | null
+      packaging_name: string | null
+      packaging_variation_id: string | null
+      price: number
+      product_id: string
+      product_name: string
+      quantity: number
+      reserved_quantity: number
+      sales_order_id: string
+      tax: number
+      tax_code_id: string | null
+      tax_rate: number
+      taxable_amount: number | null
+      total: number
+      unit_factor: number
+      unit_name: string | null
+      updated_at: string | null
+      variation_id: string | null
+    }
+    Insert: {
+      created_at?: string | null
+      discount?: number | null
+      fulfilled_quantity?: number
+      id?: string
+      packaging_id?: string | null
+      packaging_name?: string | null
+      packaging_variation_id?: string | null
+      price: number
+      product_id: string
+      product_name: string
+      quantity: number
+      reserved_quantity?: number
+      sales_order_id: string
+      tax?: number
+      tax_code_id?: string | null
+      tax_rate?: number
+      taxable_amount?: number | null
+      total: number
+      unit_factor?: number
+      unit_name?: string | null
+      updated_at?: string | null
+      variation_id?: string | null
+    }
+    Update: {
+      created_at?: string | null
+      discount?: number | null
+      fulfilled_quantity?: number
+      id?: string
+      packaging_id?: string | null
+      packaging_name?: string | null
+      packaging_variation_id?: string | null
+      price?: number
+      product_id?: string
+      product_name?: string
+      quantity?: number
+      reserved_quantity?: number
+      sales_order_id?: string
+      tax?: number
+      tax_code_id?: string | null
+      tax_rate?: number
+      taxable_amount?: number | null
+      total?: number
+      unit_factor?: number
+      unit_name?: string | null
+      updated_at?: string | null
+      variation_id?: string | null
+    }
+    Relationships: [
+      {
+        foreignKeyName: "sales_order_items_packaging_id_fkey"
+        columns: ["packaging_id"]
+        isOneToOne: false
+        referencedRelation: "packaging"
+        referencedColumns: ["id"]
+      },
+      {
+        foreignKeyName: "sales_order_items_packaging_variation_id_fkey"
+        columns: ["packaging_variation_id"]
+        isOneToOne: false
+        referencedRelation: "packaging_variations"
+        referencedColumns: ["id"]
+      },
+      {
+        foreignKeyName: "sales_order_items_product_id_fkey"
+        columns: ["product_id"]
+        isOneToOne: false
+        referencedRelation: "products"
+        referencedColumns: ["id"]
+      },
+      {
+        foreignKeyName: "sales_order_items_sales_order_id_fkey"
+        columns: ["sales_order_id"]
+        isOneToOne: false
+        referencedRelation: "sales_orders"
+        referencedColumns: ["id"]
+      },
+      {
+        foreignKeyName: "sales_order_items_variation_id_fkey"
+        columns: ["variation_id"]
+        isOneToOne: false
+        referencedRelation: "product_variations"
+        referencedColumns: ["id"]
+      },
+    ]
+  }
+}
+
+export interface SalesFunctions {
+  post_sale: {
+    Args: {
+      p_sale: Json
+      p_items: Json
+      p_payment?: Json | null
+      p_created_by?: string
+    }
+    Returns: Json
+  }
+  process_return: {
+    Args: {
+      p_return: Json
+      p_items: Json
+      p_created_by?: string
+    }
+    Returns: Json
+  }
 }
 
 // Convenience type exports
@@ -349,6 +651,8 @@ export type SaleItem = SalesTables['sale_items']['Row']
 export type Customer = SalesTables['customers']['Row']
 export type Return = SalesTables['returns']['Row']
 export type ReturnItem = SalesTables['return_items']['Row']
+export type SalesOrder = SalesTables['sales_orders']['Row']
+export type SalesOrderItem = SalesTables['sales_order_items']['Row']
 
 // Composed types
 export type ReturnItemWithVariation = ReturnItem & {
@@ -371,4 +675,8 @@ export type SaleWithItems = Sale & {
 
 export type ReturnWithItems = Return & {
   return_items: ReturnItemWithVariation[]
+}
+
+export type SalesOrderWithItems = SalesOrder & {
+  sales_order_items: SalesOrderItem[]
 } 
\ No newline at end of file
@@ -0,0 +1,116 @@
+/**
+ * Units of Measure Module
+ *
+ * Every product is stocked in its base unit and can also be bought and sold in alternate
+ * units holding a whole number of base units, e.g. a carton of 12 pcs. Purchase, sale and
+ * sales order lines keep their quantity and price in the base unit, so stock, costs and
+ * returns are unchanged, and record the unit they were entered in with its factor.
+ */
+
+import { createClient } from './client'
+
+export interface ProductUnitInput {
+  name: string
+  // Base units in one of this unit
+  conversion_factor: number
+}
+
+// A product's base unit with its alternate units
+export interface ProductUnitsInput {
+  base_unit: string
+  units: ProductUnitInput[]
+}
+
+// A unit a line can be entered in; the base unit has a factor of 1
+export interface UnitOption {
+  name: string
+  factor: number
+}
+
+export type UnitsOfMeasureErrorCode = 'INVALID_UNIT' | 'NETWORK_ERROR'
+
+export type SaveProductUnitsResult =
+  | { success: true; product_id: string; unit_count: number }
+  | { success: false; error_code: UnitsOfMeasureErrorCode; error_message: string }
+
+// User-facing messages for each units of measure error code
+export const UNITS_OF_MEASURE_ERROR_MESSAGES: Record<UnitsOfMeasureErrorCode, string> = {
+  INVALID_UNIT: 'The units of measure are not valid',
+  NETWORK_ERROR: 'Could not reach the server'
+}
+
+export const DEFAULT_BASE_UNIT = 'pcs'
+
+// Units a product can be entered in, base unit first
+export function getUnitOptions(baseUnit: string | undefined, units: ProductUnitInput[] = []): UnitOption[] {
+  return [
+    { name: baseUnit || DEFAULT_BASE_UNIT, factor: 1 },
+    ...[...units]
+      .sort((a, b) => a.conversion_factor - b.conversion_factor)
+      .map(unit => ({ name: unit.name, factor: unit.conversion_factor }))
+  ]
+}
+
+// Quantity in the unit a line was entered in, from its base-unit quantity
+export function toUnitQuantity(baseQuantity: number, factor: number | null | undefined): number {
+  return baseQuantity / (factor || 1)
+}
+
+// Price per unit a line was entered in, from its base-unit price
+export function toUnitPrice(basePrice: number, factor: number | null | undefined): number {
+  return Math.round(basePrice * (factor || 1) * 100) / 100
+}
+
+// Price per base unit, from a price per alternate unit, kept to four decimals
+export function toBasePrice(unitPrice: number, factor: number | null | undefined): number {
+  return Math.round((unitPrice / (factor || 1)) * 10000) / 10000
+}
+
+// e.g. "2 carton" for 24 pcs sold by the carton of 12
+export function formatUnitQuantity(baseQuantity: number, factor: number | null | undefined, unitName: string | null | undefined): string {
+  const quantity = toUnitQuantity(baseQuantity, factor)
+  return unitName ? `${quantity} ${unitName}` : String(quantity)
+}
+
+// Base unit and alternate units of a product
+export async function getProductUnits(productId: string): Promise<ProductUnitsInput> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('base_unit, product_units(name, conversion_factor)')
+    .eq('id', productId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching product units:', error)
+    throw new Error('Failed to load the units of measure')
+  }
+
+  const row = data as { base_unit: string | null; product_units: ProductUnitInput[] | null }
+  return {
+    base_unit: row.base_unit || DEFAULT_BASE_UNIT,
+    units: [...(row.product_units || [])].sort((a, b) => a.conversion_factor - b.conversion_factor)
+  }
+}
+
+// Replace a product's base unit and alternate units in one step
+export async function saveProductUnits(
+  productId: string,
+  productUnits: ProductUnitsInput
+): Promise<SaveProductUnitsResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('save_product_units', {
+    p_product_id: productId,
+    p_base_unit: productUnits.base_unit,
+    p_units: productUnits.units
+  })
+
+  if (error) {
+    console.error('❌ save_product_units RPC error:', error)
+    return { success: false, error_code: 'NETWORK_ERROR', error_message: error.message || 'Failed to save the units of measure' }
+  }
+
+  return data as SaveProductUnitsResult
+}
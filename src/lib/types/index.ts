@@ -17,6 +17,7 @@ export interface Product {
   id: string
   name: string
   sku?: string
+  barcode?: string // Simple products and bundles
   description: string
   price?: number // For simple products
   buyingPrice?: number // For simple products - legacy field for compatibility
@@ -24,10 +25,15 @@ export interface Product {
   boughtQuantity?: number // Track total quantity purchased for simple products - legacy field for compatibility
   category: string
   categoryId?: string
+  taxCodeId?: string // Own tax code; unset takes the category's
   status: 'active' | 'inactive'
-  type: 'simple' | 'variation'
+  type: 'simple' | 'variation' | 'bundle'
   image?: string
   parentSku?: string // For variation products - parent SKU
+  trackLots?: boolean // Received and sold by lot number and expiry date
+  trackSerials?: boolean // Each unit received, sold and returned by serial number
+  baseUnit?: string // Unit stock is counted in, e.g. pcs
+  units?: { name: string; factor: number }[] // Units it can be bought and sold in, base unit first
   variations?: ProductVariation[]
   attributes?: string[] // Array of attribute IDs for variation products
 }
@@ -36,6 +42,7 @@ export interface ProductVariation {
   id: string
   productId: string
   sku: string
+  barcode?: string
   attributeValues: { [attributeId: string]: string } // e.g., { "size": "L", "color": "Red" }
   price: number
   buyingPrice: number
@@ -83,6 +90,7 @@ export interface PackageItem {
 export interface PackagingVariation {
   id: string
   sku: string
+  barcode?: string
   attributeValues: { [attributeId: string]: string }
   price: number
   buyingPrice: number
@@ -96,6 +104,7 @@ export interface Packaging {
   description: string
   type: 'simple' | 'variable'
   sku?: string // For simple packages
+  barcode?: string // For simple packages
   price?: number // For simple packages
   buyingPrice?: number // For simple packages - legacy field for compatibility
   stock?: number // For simple packages - legacy field for compatibility
@@ -161,7 +170,7 @@ export interface Return {
   totalAmount: number
   reason: string
   date: string
-  status: 'pending' | 'approved' | 'rejected'
+  status: 'pending' | 'approved' | 'completed' | 'rejected'
 }
 
 export interface Supplier {
@@ -215,7 +224,7 @@ export interface PurchaseReturn {
   totalAmount: number
   reason: string
   date: string
-  status: 'pending' | 'approved' | 'rejected'
+  status: 'pending' | 'approved' | 'completed' | 'rejected'
   createdBy: string
 }
 
@@ -293,7 +302,7 @@ export interface StockMovement {
   productId: string
   productName: string
   variationId?: string // For variation products
-  movementType: 'purchase' | 'return' | 'adjustment' | 'sale'
+  movementType: 'purchase' | 'return' | 'adjustment' | 'sale' | 'transfer' | 'assembly'
   direction: 'in' | 'out' // Stock increase or decrease
   quantity: number
   previousStock: number
@@ -303,6 +312,7 @@ export interface StockMovement {
   createdBy: string
   createdAt: string
   notes?: string
+  lotNumber?: string // Lot the units moved in or out of, for lot-tracked products
 }
 
 export interface ExpenseType {
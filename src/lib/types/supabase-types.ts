@@ -272,7 +272,8 @@ export const PERMISSION_ACTIONS = [
   'read', 
   'update',
   'delete',
-  'export'
+  'export',
+  'override_period_lock'
 ] as const
 
 export type PermissionModule = typeof PERMISSION_MODULES[number]
@@ -0,0 +1,63 @@
+/**
+ * Aging buckets shared by the receivables and payables reports
+ */
+
+export type AgingBucketKey = 'current' | 'days_31_60' | 'days_61_90' | 'days_over_90'
+
+export type AgingBuckets = Record<AgingBucketKey, number> & { total: number }
+
+export const AGING_BUCKETS: { key: AgingBucketKey; label: string; maxDays: number }[] = [
+  { key: 'current', label: '0–30 days', maxDays: 30 },
+  { key: 'days_31_60', label: '31–60 days', maxDays: 60 },
+  { key: 'days_61_90', label: '61–90 days', maxDays: 90 },
+  { key: 'days_over_90', label: '90+ days', maxDays: Infinity }
+]
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Whole days between a document date and the as-of date (never negative)
+ * @param date - Invoice or due date (YYYY-MM-DD)
+ * @param asOf - Date the report is run for, defaults to today
+ */
+export function getDaysOutstanding(date: string, asOf: Date = new Date()): number {
+  const start = new Date(`${date.split('T')[0]}T00:00:00`)
+  const end = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+  return Math.max(0, Math.floor((end.getTime() - start.getTime()) / MS_PER_DAY))
+}
+
+/**
+ * Bucket for a number of days outstanding
+ */
+export function getAgingBucket(days: number): AgingBucketKey {
+  return AGING_BUCKETS.find(bucket => days <= bucket.maxDays)!.key
+}
+
+export function emptyAgingBuckets(): AgingBuckets {
+  return { current: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0, total: 0 }
+}
+
+/**
+ * Spread open balances across the aging buckets
+ * @param items - Open documents with the date aging counts from and their outstanding amount
+ * @param asOf - Date the report is run for, defaults to today
+ */
+export function calculateAging(items: { date: string; amount: number }[], asOf: Date = new Date()): AgingBuckets {
+  return items.reduce((buckets, item) => {
+    const key = getAgingBucket(getDaysOutstanding(item.date, asOf))
+    buckets[key] += item.amount
+    buckets.total += item.amount
+    return buckets
+  }, emptyAgingBuckets())
+}
+
+/**
+ * Add one set of buckets into another (for report totals)
+ */
+export function addAgingBuckets(target: AgingBuckets, source: AgingBuckets): AgingBuckets {
+  AGING_BUCKETS.forEach(({ key }) => {
+    target[key] += source[key]
+  })
+  target.total += source.total
+  return target
+}
@@ -0,0 +1,118 @@
+/**
+ * Barcode formats, generation and encoding
+ *
+ * A 13-digit barcode is an EAN-13 and must carry a valid check digit; any other value is
+ * printed as Code128 (set B). Generated barcodes are EAN-13 in the in-store range
+ * (prefix 2), the same range create_barcodes.sql fills empty barcodes from.
+ */
+
+export type BarcodeFormat = 'EAN13' | 'CODE128'
+
+// Module patterns of the EAN-13 digit sets; R is the complement of L
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011']
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111']
+const EAN_R = EAN_L.map(pattern => pattern.replace(/./g, bit => (bit === '1' ? '0' : '1')))
+
+// Which left-hand digits use the G set, chosen by the first digit
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL']
+
+// Bar and space widths of the Code128 symbols 0-106 (103-105 are the start codes, 106 is stop)
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+]
+
+const CODE128_START_B = 104
+const CODE128_STOP = 106
+
+/**
+ * Check digit of an EAN-13 from its first 12 digits
+ */
+export function getEan13CheckDigit(digits: string): number {
+  const sum = digits
+    .slice(0, 12)
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 1 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10
+}
+
+export function isValidEan13(barcode: string): boolean {
+  return /^\d{13}$/.test(barcode) && getEan13CheckDigit(barcode) === Number(barcode[12])
+}
+
+export function getBarcodeFormat(barcode: string): BarcodeFormat {
+  return /^\d{13}$/.test(barcode) ? 'EAN13' : 'CODE128'
+}
+
+/**
+ * Problem with a barcode's format, or null when it can be printed and saved
+ */
+export function getBarcodeFormatError(barcode: string): string | null {
+  const value = barcode.trim()
+  if (!value) return null
+  if (getBarcodeFormat(value) === 'EAN13') {
+    return isValidEan13(value) ? null : `Not a valid EAN-13: the check digit should be ${getEan13CheckDigit(value)}`
+  }
+  if (!/^[\x20-\x7E]+$/.test(value)) {
+    return 'Code128 barcodes can only contain letters, digits, spaces and standard symbols'
+  }
+  if (value.length > 48) {
+    return 'Barcodes can be at most 48 characters long'
+  }
+  return null
+}
+
+/**
+ * A random in-store EAN-13 (prefix 2); uniqueness is checked when it is saved
+ */
+export function generateEan13(): string {
+  let digits = '2'
+  for (let index = 0; index < 11; index++) {
+    digits += Math.floor(Math.random() * 10).toString()
+  }
+  return digits + getEan13CheckDigit(digits).toString()
+}
+
+function encodeEan13(barcode: string): string {
+  const parity = EAN_PARITY[Number(barcode[0])]
+  let modules = '101'
+  for (let index = 1; index <= 6; index++) {
+    const digit = Number(barcode[index])
+    modules += parity[index - 1] === 'G' ? EAN_G[digit] : EAN_L[digit]
+  }
+  modules += '01010'
+  for (let index = 7; index <= 12; index++) {
+    modules += EAN_R[Number(barcode[index])]
+  }
+  return modules + '101'
+}
+
+function encodeCode128(value: string): string {
+  const symbols = [CODE128_START_B, ...value.split('').map(char => char.charCodeAt(0) - 32)]
+  const checksum = symbols.reduce((total, symbol, index) => total + symbol * Math.max(index, 1), 0) % 103
+  symbols.push(checksum, CODE128_STOP)
+
+  return symbols
+    .map(symbol => CODE128_WIDTHS[symbol]
+      .split('')
+      .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+      .join(''))
+    .join('')
+}
+
+/**
+ * Bars of a barcode as a string of modules, '1' for bar and '0' for space, without quiet zones
+ */
+export function encodeBarcode(barcode: string): string {
+  const value = barcode.trim()
+  return getBarcodeFormat(value) === 'EAN13' && isValidEan13(value) ? encodeEan13(value) : encodeCode128(value)
+}
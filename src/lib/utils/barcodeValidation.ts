@@ -0,0 +1,81 @@
+'use client'
+
+import { checkBarcodeExists } from '@/lib/supabase/mutations'
+
+// Simple cache for barcode validations
+const barcodeValidationCache = {
+  validations: new Map<string, { result: boolean, timestamp: number }>(),
+  currentRequests: new Map<string, Promise<boolean>>()
+}
+
+const CACHE_DURATION = 30000 // 30 seconds
+
+/**
+ * Validates if a barcode is unique across products, variations and packaging
+ * @param barcode - The barcode to validate
+ * @param excludeId - ID of the item being edited, so its own barcode is not a clash
+ * @param forceRefresh - Force a fresh validation, bypassing cache
+ * @returns Promise<boolean> - true if the barcode exists (invalid), false if available (valid)
+ */
+export async function validateBarcodeUnique(barcode: string, excludeId: string = '', forceRefresh = false): Promise<boolean> {
+  const now = Date.now()
+  const cacheKey = `${barcode}:${excludeId}`
+
+  // Check cache first
+  if (!forceRefresh) {
+    const cached = barcodeValidationCache.validations.get(cacheKey)
+    if (cached && (now - cached.timestamp) < CACHE_DURATION) {
+      return cached.result
+    }
+  }
+
+  // If there's already a request in progress, wait for it
+  const existingRequest = barcodeValidationCache.currentRequests.get(cacheKey)
+  if (existingRequest) {
+    return await existingRequest
+  }
+
+  const requestPromise = (async (): Promise<boolean> => {
+    try {
+      const exists = await checkBarcodeExists(barcode, excludeId)
+
+      barcodeValidationCache.validations.set(cacheKey, { result: exists, timestamp: now })
+
+      return exists
+    } catch (error) {
+      console.error('❌ Error validating barcode:', error)
+      const message = error instanceof Error ? error.message : 'Unknown error occurred'
+      throw new Error(`Barcode validation failed: ${message}`)
+    } finally {
+      barcodeValidationCache.currentRequests.delete(cacheKey)
+    }
+  })()
+
+  barcodeValidationCache.currentRequests.set(cacheKey, requestPromise)
+
+  return await requestPromise
+}
+
+/**
+ * Wrapper function that provides user-friendly error handling
+ * @param barcode - The barcode to validate
+ * @param excludeId - ID to exclude from the check
+ * @returns Promise<boolean> - true if the barcode exists, false if available
+ * @throws Error with user-friendly message on failure
+ */
+export async function validateBarcode(barcode: string, excludeId: string = ''): Promise<boolean> {
+  try {
+    return await validateBarcodeUnique(barcode, excludeId)
+  } catch (error) {
+    console.error('Error validating barcode:', error)
+    throw new Error('Failed to validate barcode. Please try again.')
+  }
+}
+
+/**
+ * Clear the barcode validation cache
+ */
+export function clearBarcodeValidationCache(): void {
+  barcodeValidationCache.validations.clear()
+  barcodeValidationCache.currentRequests.clear()
+}
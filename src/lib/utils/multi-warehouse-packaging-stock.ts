@@ -33,7 +33,7 @@ export interface PackagingStockUpdateParams {
   warehouseId: string
   variationId?: string | null
   quantityChange: number
-  movementType: 'purchase' | 'sale' | 'adjustment' | 'transfer' | 'return'
+  movementType: 'purchase' | 'sale' | 'adjustment' | 'transfer' | 'return' | 'assembly'
   referenceId?: string | null
   reason?: string | null
   createdBy?: string | null
@@ -227,45 +227,3 @@ export async function getTotalAvailablePackagingStock(
 
   return data || 0
 }
-
-/**
- * Reserve packaging stock for an order (reduces available stock without changing current stock)
- */
-export async function reservePackagingStock(
-  packagingId: string,
-  warehouseId: string,
-  quantity: number,
-  variationId?: string | null,
-  referenceId?: string,
-  createdBy?: string
-): Promise<boolean> {
-  const supabase = createClient()
-
-  // Get current stock data
-  const currentStock = await getPackagingWarehouseStock(packagingId, warehouseId, variationId)
-  
-  if (!currentStock) {
-    throw new Error('Packaging not found in warehouse')
-  }
-
-  if (currentStock.available_stock === null || currentStock.available_stock < quantity) {
-    throw new Error('Insufficient available packaging stock for reservation')
-  }
-
-  // Update reserved stock
-  const { error } = await supabase
-    .from('packaging_warehouse_stock')
-    .update({
-      reserved_stock: currentStock.reserved_stock + quantity,
-      updated_at: new Date().toISOString()
-    })
-    .eq('packaging_id', packagingId)
-    .eq('warehouse_id', warehouseId)
-    .eq(variationId ? 'variation_id' : 'variation_id', variationId || null)
-
-  if (error) {
-    throw new Error(`Failed to reserve packaging stock: ${error.message}`)
-  }
-
-  return true
-} 
\ No newline at end of file
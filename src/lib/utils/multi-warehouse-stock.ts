@@ -22,7 +22,7 @@ export interface StockUpdateParams {
   warehouseId: string
   variationId?: string | null
   quantityChange: number
-  movementType: 'purchase' | 'sale' | 'adjustment' | 'transfer' | 'return'
+  movementType: 'purchase' | 'sale' | 'adjustment' | 'transfer' | 'return' | 'assembly'
   referenceId?: string | null
   reason?: string | null
   createdBy?: string | null
@@ -252,86 +252,3 @@ export async function getTotalAvailableStock(
   return data || 0
 }
 
-/**
- * Reserve stock for an order (reduces available stock without changing current stock)
- */
-export async function reserveStock(
-  productId: string,
-  warehouseId: string,
-  quantity: number,
-  variationId?: string | null,
-  referenceId?: string,
-  createdBy?: string
-): Promise<boolean> {
-  const supabase = createClient()
-
-  // Get current stock data
-  const currentStock = await getWarehouseStock(productId, warehouseId, variationId)
-  
-  if (!currentStock) {
-    throw new Error('Product not found in warehouse')
-  }
-
-  if (currentStock.available_stock === null || currentStock.available_stock < quantity) {
-    throw new Error('Insufficient available stock for reservation')
-  }
-
-  // Update reserved stock
-  const { error } = await supabase
-    .from('product_warehouse_stock')
-    .update({
-      reserved_stock: currentStock.reserved_stock + quantity,
-      updated_at: new Date().toISOString()
-    })
-    .eq('product_id', productId)
-    .eq('warehouse_id', warehouseId)
-    .eq(variationId ? 'variation_id' : 'variation_id', variationId || null)
-
-  if (error) {
-    throw new Error(`Failed to reserve stock: ${error.message}`)
-  }
-
-  return true
-}
-
-/**
- * Release reserved stock (increases available stock without changing current stock)
- */
-export async function releaseReservedStock(
-  productId: string,
-  warehouseId: string,
-  quantity: number,
-  variationId?: string | null,
-  referenceId?: string,
-  createdBy?: string
-): Promise<boolean> {
-  const supabase = createClient()
-
-  // Get current stock data
-  const currentStock = await getWarehouseStock(productId, warehouseId, variationId)
-  
-  if (!currentStock) {
-    throw new Error('Product not found in warehouse')
-  }
-
-  if (currentStock.reserved_stock < quantity) {
-    throw new Error('Cannot release more stock than is reserved')
-  }
-
-  // Update reserved stock
-  const { error } = await supabase
-    .from('product_warehouse_stock')
-    .update({
-      reserved_stock: currentStock.reserved_stock - quantity,
-      updated_at: new Date().toISOString()
-    })
-    .eq('product_id', productId)
-    .eq('warehouse_id', warehouseId)
-    .eq(variationId ? 'variation_id' : 'variation_id', variationId || null)
-
-  if (error) {
-    throw new Error(`Failed to release reserved stock: ${error.message}`)
-  }
-
-  return true
-} 
\ No newline at end of file
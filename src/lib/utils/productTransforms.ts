@@ -55,6 +55,7 @@ export function transformDatabaseProductToProduct(dbProduct: DatabaseProduct): P
     id: dbProduct.id,
     name: dbProduct.name,
     sku: dbProduct.sku,
+    barcode: dbProduct.barcode || undefined,
     description: dbProduct.description,
     category: dbProduct.category?.name || 'Unknown',
     categoryId: dbProduct.category_id,
@@ -62,9 +63,12 @@ export function transformDatabaseProductToProduct(dbProduct: DatabaseProduct): P
     type: dbProduct.type,
     image: dbProduct.image_url,
     parentSku: dbProduct.parent_sku,
+    trackLots: dbProduct.track_lots || false,
+    trackSerials: dbProduct.track_serials || false,
   }
 
-  if (dbProduct.type === 'simple') {
+  // Bundles carry their own SKU and price like simple products
+  if (dbProduct.type !== 'variation') {
     return {
       ...baseProduct,
       price: dbProduct.price,
@@ -79,6 +83,7 @@ export function transformDatabaseProductToProduct(dbProduct: DatabaseProduct): P
       id: dbVariation.id,
       productId: dbVariation.product_id,
       sku: dbVariation.sku,
+      barcode: dbVariation.barcode || undefined,
       price: dbVariation.price,
       // Legacy fields removed - will be handled by warehouse stock system
       buyingPrice: 0,